@@ -0,0 +1,500 @@
+/**
+ * Database integration poller — the SQL counterpart of the hotfolder watcher.
+ *
+ * Reads new rows from one table/view by a monotonically increasing watermark
+ * column (auto-increment id, created_at, …) and emits them as a `batch`; main
+ * forwards each batch on `hotfolder:new-file` so the renderer imports it the
+ * same way it imports a dropped CSV. Exactly one batch is in flight at a time:
+ * the watermark only advances when the renderer acknowledges how many leading
+ * rows it stored, so a failed import is re-read on the next poll instead of
+ * being lost.
+ *
+ * Rows are read in (watermark, keyColumn) order and the position after the
+ * last stored row is kept as a (watermark, key) pair, so a batch or a partial
+ * acknowledgement that ends inside a run of equal watermarks resumes exactly
+ * where it stopped. When keyColumn is the watermark itself there is nothing
+ * to page a tie run by: a batch never ends inside a run, and a run longer
+ * than batchSize is reported instead of being read. With `ackColumn` set, acknowledged rows are also marked in the
+ * source table (`UPDATE … SET ackColumn = ackValue WHERE keyColumn IN …`) so
+ * the ERP side can see what CodeSync has taken.
+ *
+ * Drivers are optional dependencies — mysql2, pg and better-sqlite3. A driver
+ * that isn't installed reports as unavailable rather than failing app start.
+ * Connections are opened per poll; a 10 s poll doesn't need a pool and a
+ * dropped VPN recovers on its own.
+ */
+
+const fs = require('fs');
+const { EventEmitter } = require('events');
+
+let mysql = null;
+let pg = null;
+let BetterSqlite3 = null;
+try { mysql = require('mysql2/promise'); } catch (_) { /* optional */ }
+try { pg = require('pg'); } catch (_) { /* optional */ }
+try { BetterSqlite3 = require('better-sqlite3'); } catch (_) { /* optional */ }
+
+const DRIVERS = ['mysql', 'postgres', 'sqlite'];
+const DEFAULT_PORTS = { mysql: 3306, postgres: 5432, sqlite: 0 };
+const DEFAULT_POLL_SECONDS = 10;
+const DEFAULT_BATCH_SIZE = 500;
+/** Re-read an unacknowledged batch after this long (renderer closed, reload…). */
+const ACK_TIMEOUT_MS = 60_000;
+const CONNECT_TIMEOUT_MS = 10_000;
+const ACK_CHUNK = 200;
+
+// pg type OIDs for date / timestamp / timestamptz — kept as the server's text
+// so a watermark round-trips exactly (a JS Date drops microseconds).
+const PG_TEXT_DATE_OIDS = new Set([1082, 1114, 1184]);
+
+function driverAvailability() {
+  return { mysql: !!mysql, postgres: !!pg, sqlite: !!BetterSqlite3 };
+}
+
+function normalizeDbConfig(raw) {
+  const driver = DRIVERS.includes(raw?.driver) ? raw.driver : 'mysql';
+  const table = String(raw?.table || '').trim();
+  const watermarkColumn = String(raw?.watermarkColumn || '').trim();
+  return {
+    enabled: !!raw?.enabled,
+    driver,
+    host: String(raw?.host || '').trim(),
+    port: Number(raw?.port) || DEFAULT_PORTS[driver],
+    database: String(raw?.database || '').trim(),
+    /** SQLite database file. */
+    file: String(raw?.file || '').trim(),
+    user: String(raw?.user || '').trim(),
+    password: typeof raw?.password === 'string' ? raw.password : '',
+    table,
+    watermarkColumn,
+    /** Column that identifies a row for acknowledgement; defaults to the watermark. */
+    keyColumn: String(raw?.keyColumn || '').trim() || watermarkColumn,
+    ackColumn: String(raw?.ackColumn || '').trim(),
+    ackValue: raw?.ackValue == null || raw.ackValue === '' ? '1' : String(raw.ackValue),
+    /** Data source the rows are appended to; defaults to `DB <table>`. */
+    sourceName: String(raw?.sourceName || '').trim() || (table ? `DB ${table}` : 'DB Import'),
+    pollingSeconds: Math.min(3600, Math.max(1, Number(raw?.pollingSeconds) || DEFAULT_POLL_SECONDS)),
+    batchSize: Math.min(5000, Math.max(1, Number(raw?.batchSize) || DEFAULT_BATCH_SIZE)),
+  };
+}
+
+function validateDbConfig(cfg) {
+  if (!driverAvailability()[cfg.driver]) return `The ${cfg.driver} driver is not installed`;
+  if (cfg.driver === 'sqlite') {
+    if (!cfg.file) return 'SQLite database file is required';
+  } else if (!cfg.host || !cfg.database) {
+    return 'Host and database are required';
+  }
+  if (!cfg.table) return 'Table / view is required';
+  if (!cfg.watermarkColumn) return 'Watermark column is required';
+  return null;
+}
+
+/** Quote an identifier (optionally `schema.table`) for the target dialect. */
+function quoteIdent(driver, name) {
+  const q = driver === 'mysql' ? '`' : '"';
+  return String(name)
+    .split('.')
+    .map((part) => `${q}${part.split(q).join(q + q)}${q}`)
+    .join('.');
+}
+
+/** Cell → string, as data_source_rows stores them. */
+function cellText(v) {
+  if (v == null) return '';
+  if (v instanceof Date) return v.toISOString();
+  if (Buffer.isBuffer(v)) return v.toString('utf8');
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+}
+
+/** Watermark values keep their type (numbers compare as numbers) but must survive JSON. */
+function watermarkValue(v) {
+  if (v == null) return null;
+  if (typeof v === 'bigint') return v.toString();
+  if (v instanceof Date) return v.toISOString();
+  if (Buffer.isBuffer(v)) return v.toString('utf8');
+  return v;
+}
+
+/**
+ * Open a connection and return a uniform `{ query(sql, params), close() }`.
+ * SQL is written with `?` placeholders; the pg adapter renumbers them.
+ */
+async function openDriver(cfg) {
+  if (cfg.driver === 'mysql') {
+    if (!mysql) throw new Error('mysql2 is not installed');
+    const conn = await mysql.createConnection({
+      host: cfg.host,
+      port: cfg.port,
+      user: cfg.user,
+      password: cfg.password,
+      database: cfg.database,
+      connectTimeout: CONNECT_TIMEOUT_MS,
+      dateStrings: true,
+    });
+    return {
+      async query(sql, params = []) {
+        const [rows, fields] = await conn.query(sql, params);
+        return {
+          rows: Array.isArray(rows) ? rows : [],
+          columns: Array.isArray(fields) ? fields.map((f) => f.name) : [],
+        };
+      },
+      close: () => conn.end().catch(() => {}),
+    };
+  }
+
+  if (cfg.driver === 'postgres') {
+    if (!pg) throw new Error('pg is not installed');
+    const client = new pg.Client({
+      host: cfg.host,
+      port: cfg.port,
+      user: cfg.user,
+      password: cfg.password,
+      database: cfg.database,
+      connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+      types: {
+        getTypeParser: (oid, format) => (PG_TEXT_DATE_OIDS.has(oid) ? (v) => v : pg.types.getTypeParser(oid, format)),
+      },
+    });
+    await client.connect();
+    return {
+      async query(sql, params = []) {
+        let n = 0;
+        const res = await client.query(sql.replace(/\?/g, () => `$${++n}`), params);
+        return { rows: res.rows || [], columns: (res.fields || []).map((f) => f.name) };
+      },
+      close: () => client.end().catch(() => {}),
+    };
+  }
+
+  if (!BetterSqlite3) throw new Error('better-sqlite3 is not installed');
+  if (!fs.existsSync(cfg.file)) throw new Error(`SQLite file not found: ${cfg.file}`);
+  const db = new BetterSqlite3(cfg.file, { fileMustExist: true, timeout: CONNECT_TIMEOUT_MS });
+  return {
+    async query(sql, params = []) {
+      const stmt = db.prepare(sql);
+      if (!stmt.reader) {
+        stmt.run(...params);
+        return { rows: [], columns: [] };
+      }
+      return { rows: stmt.all(...params), columns: stmt.columns().map((c) => c.name) };
+    },
+    close: () => { try { db.close(); } catch (_) {} },
+  };
+}
+
+class DbPoller extends EventEmitter {
+  /**
+   * @param {{ statePath?: string, protect?: { encrypt(s: string): string, decrypt(s: string): string } }} opts
+   *   `protect` encrypts the password at rest (Electron safeStorage in main).
+   */
+  constructor({ statePath, protect } = {}) {
+    super();
+    this.statePath = statePath || null;
+    this.protect = protect || null;
+    this.config = normalizeDbConfig(null);
+    this.watermark = null;
+    /** Key of the last stored row at `watermark`; null = every row at `watermark` is stored. */
+    this.lastKey = null;
+    this.timer = null;
+    this.polling = false;
+    /** @type {null | { id: string, rows: object[], watermarks: any[], keys: any[], full: boolean, sentAt: number }} */
+    this.pending = null;
+    this.batchSeq = 0;
+    this.state = {
+      running: false,
+      lastPollAt: null,
+      lastImportAt: null,
+      lastError: null,
+      rowsImported: 0,
+      rowsAcknowledged: 0,
+    };
+    this._load();
+  }
+
+  _load() {
+    if (!this.statePath) return;
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      let password = '';
+      if (saved.passwordEnc && this.protect) {
+        try { password = this.protect.decrypt(saved.passwordEnc); } catch (_) {}
+      } else if (typeof saved.password === 'string') {
+        password = saved.password;
+      }
+      this.config = normalizeDbConfig({ ...saved.config, password });
+      this.watermark = saved.watermark ?? null;
+      this.lastKey = this.watermark == null ? null : saved.lastKey ?? null;
+    } catch (_) { /* first run */ }
+  }
+
+  _save() {
+    if (!this.statePath) return;
+    const { password, ...config } = this.config;
+    const out = { config, watermark: this.watermark, lastKey: this.lastKey };
+    if (password) {
+      if (this.protect) out.passwordEnc = this.protect.encrypt(password);
+      else out.password = password;
+    }
+    try { fs.writeFileSync(this.statePath, JSON.stringify(out, null, 2)); } catch (_) {}
+  }
+
+  /** Config without the password, for the renderer. */
+  getConfig() {
+    const { password, ...rest } = this.config;
+    return { ...rest, hasPassword: !!password };
+  }
+
+  getStatus() {
+    return {
+      ...this.state,
+      enabled: this.config.enabled,
+      driver: this.config.driver,
+      table: this.config.table,
+      sourceName: this.config.sourceName,
+      watermark: this.watermark,
+      pendingRows: this.pending ? this.pending.rows.length : 0,
+      drivers: driverAvailability(),
+    };
+  }
+
+  _setState(patch) {
+    this.state = { ...this.state, ...patch };
+    this.emit('status', this.getStatus());
+  }
+
+  /**
+   * Apply a new config. An omitted password keeps the stored one; changing
+   * the source (driver, database, table or watermark column) resets the
+   * watermark so the new source is read from the start.
+   */
+  configure(raw) {
+    const prev = this.config;
+    const next = normalizeDbConfig({ ...raw, password: typeof raw?.password === 'string' ? raw.password : prev.password });
+    const sourceChanged = ['driver', 'host', 'port', 'database', 'file', 'table', 'watermarkColumn']
+      .some((k) => next[k] !== prev[k]);
+    this.config = next;
+    if (sourceChanged) {
+      this.watermark = null;
+      this.pending = null;
+    }
+    if (sourceChanged || next.keyColumn !== prev.keyColumn) this.lastKey = null;
+    this._save();
+    this.stop();
+    const invalid = next.enabled ? validateDbConfig(next) : null;
+    if (invalid) {
+      this._setState({ lastError: invalid });
+      return { success: false, error: invalid, config: this.getConfig() };
+    }
+    this._setState({ lastError: null });
+    if (next.enabled) this.start();
+    return { success: true, config: this.getConfig() };
+  }
+
+  /** Start polling with the current config (no-op when disabled or invalid). */
+  start() {
+    this.stop();
+    if (!this.config.enabled || validateDbConfig(this.config)) return;
+    this.timer = setInterval(() => { this.pollOnce(); }, this.config.pollingSeconds * 1000);
+    this._setState({ running: true });
+    this.pollOnce();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (this.state.running) this._setState({ running: false });
+  }
+
+  /** Override the watermark (null = read the whole table again). */
+  setWatermark(value) {
+    this.watermark = value === '' || value === undefined ? null : value;
+    this.lastKey = null;
+    this.pending = null;
+    this._save();
+    this._setState({});
+  }
+
+  /**
+   * Connect with `raw` (or the current config), check the table and every
+   * configured column exist, and report the newest watermark.
+   */
+  async testConnection(raw) {
+    const cfg = raw
+      ? normalizeDbConfig({ ...raw, password: typeof raw.password === 'string' ? raw.password : this.config.password })
+      : this.config;
+    const invalid = validateDbConfig(cfg);
+    if (invalid) return { success: false, error: invalid };
+    let conn = null;
+    try {
+      conn = await openDriver(cfg);
+      const q = (n) => quoteIdent(cfg.driver, n);
+      const { rows, columns } = await conn.query(
+        `SELECT * FROM ${q(cfg.table)} ORDER BY ${q(cfg.watermarkColumn)} DESC LIMIT 1`,
+      );
+      const missing = [cfg.watermarkColumn, cfg.keyColumn, cfg.ackColumn]
+        .filter((c) => c && columns.length > 0 && !columns.includes(c));
+      if (missing.length > 0) {
+        return { success: false, error: `Column not found: ${missing.join(', ')}`, columns };
+      }
+      return {
+        success: true,
+        columns,
+        latestWatermark: rows[0] ? watermarkValue(rows[0][cfg.watermarkColumn]) : null,
+      };
+    } catch (err) {
+      return { success: false, error: err.message };
+    } finally {
+      if (conn) await conn.close();
+    }
+  }
+
+  /** One poll cycle. Resolves with the number of rows emitted. */
+  async pollOnce() {
+    if (this.polling) return 0;
+    if (this.pending && Date.now() - this.pending.sentAt < ACK_TIMEOUT_MS) return 0;
+    this.pending = null;
+    this.polling = true;
+    const cfg = this.config;
+    let conn = null;
+    try {
+      conn = await openDriver(cfg);
+      const q = (n) => quoteIdent(cfg.driver, n);
+      const wm = q(cfg.watermarkColumn);
+      const pagedByKey = cfg.keyColumn !== cfg.watermarkColumn;
+      const key = q(cfg.keyColumn);
+      let where = '';
+      let params = [];
+      if (this.watermark != null && pagedByKey && this.lastKey != null) {
+        where = ` WHERE ${wm} > ? OR (${wm} = ? AND ${key} > ?)`;
+        params = [this.watermark, this.watermark, this.lastKey];
+      } else if (this.watermark != null) {
+        where = ` WHERE ${wm} > ?`;
+        params = [this.watermark];
+      }
+      const order = pagedByKey ? `${wm} ASC, ${key} ASC` : `${wm} ASC`;
+      const { rows, columns } = await conn.query(
+        `SELECT * FROM ${q(cfg.table)}${where} ORDER BY ${order} LIMIT ${cfg.batchSize}`,
+        params,
+      );
+
+      let batch = rows;
+      // Without a key to page by, a full batch may have cut a run of equal
+      // watermarks in half and `>` would skip the rest — hold the trailing
+      // run back for the next poll. A run filling the whole batch can't be
+      // read at all at this batch size.
+      if (!pagedByKey && rows.length === cfg.batchSize) {
+        const last = String(watermarkValue(rows[rows.length - 1][cfg.watermarkColumn]));
+        batch = rows.filter((r) => String(watermarkValue(r[cfg.watermarkColumn])) !== last);
+        if (batch.length === 0) {
+          this._setState({
+            lastPollAt: Date.now(),
+            lastError: `More than ${cfg.batchSize} rows share ${cfg.watermarkColumn} = ${last} — raise the batch size or set a key column`,
+          });
+          return 0;
+        }
+      }
+      this._setState({ lastPollAt: Date.now(), lastError: null });
+      if (batch.length === 0) return 0;
+
+      const id = `db-${Date.now()}-${++this.batchSeq}`;
+      this.pending = {
+        id,
+        rows: batch,
+        watermarks: batch.map((r) => watermarkValue(r[cfg.watermarkColumn])),
+        keys: batch.map((r) => r[cfg.keyColumn]),
+        full: rows.length === cfg.batchSize,
+        sentAt: Date.now(),
+      };
+      this.emit('batch', {
+        batchId: id,
+        sourceName: cfg.sourceName,
+        table: cfg.table,
+        columns: columns.length > 0 ? columns : Object.keys(batch[0]),
+        rows: batch.map((r) => {
+          const values = {};
+          for (const [k, v] of Object.entries(r)) values[k] = cellText(v);
+          return values;
+        }),
+      });
+      this._setState({});
+      return batch.length;
+    } catch (err) {
+      this._setState({ lastPollAt: Date.now(), lastError: err.message });
+      return 0;
+    } finally {
+      this.polling = false;
+      if (conn) await conn.close();
+    }
+  }
+
+  /**
+   * Renderer's answer for a batch: `imported` leading rows were stored
+   * (all of them when omitted and there is no error). Those rows are marked
+   * in `ackColumn` and the read position moves past the last one; the rest
+   * are re-read on the next poll. Without a key to page by, the position can
+   * only stop below the first unstored row's watermark, so stored rows that
+   * share it are read (and imported) again rather than lost.
+   */
+  async acknowledge(batchId, { imported, error } = {}) {
+    const batch = this.pending;
+    if (!batch || batch.id !== batchId) return { success: false, error: 'unknown_batch' };
+    this.pending = null;
+    const count = Math.max(0, Math.min(batch.rows.length, imported ?? (error ? 0 : batch.rows.length)));
+    if (error) this._setState({ lastError: `Import failed: ${error}` });
+    if (count === 0) return { success: true, acknowledged: 0 };
+
+    const cfg = this.config;
+    let ackError = null;
+    if (cfg.ackColumn) {
+      let conn = null;
+      try {
+        conn = await openDriver(cfg);
+        const q = (n) => quoteIdent(cfg.driver, n);
+        const keys = batch.keys.slice(0, count);
+        for (let i = 0; i < keys.length; i += ACK_CHUNK) {
+          const chunk = keys.slice(i, i + ACK_CHUNK);
+          await conn.query(
+            `UPDATE ${q(cfg.table)} SET ${q(cfg.ackColumn)} = ? WHERE ${q(cfg.keyColumn)} IN (${chunk.map(() => '?').join(', ')})`,
+            [cfg.ackValue, ...chunk],
+          );
+        }
+      } catch (err) {
+        // The rows are already imported — advance anyway so they aren't
+        // imported twice, and surface the write-back failure.
+        ackError = `Acknowledge failed: ${err.message}`;
+      } finally {
+        if (conn) await conn.close();
+      }
+    }
+
+    if (cfg.keyColumn !== cfg.watermarkColumn) {
+      this.watermark = batch.watermarks[count - 1];
+      this.lastKey = watermarkValue(batch.keys[count - 1]);
+    } else {
+      let last = count - 1;
+      if (count < batch.rows.length) {
+        const next = String(batch.watermarks[count]);
+        while (last >= 0 && String(batch.watermarks[last]) === next) last--;
+      }
+      if (last >= 0) this.watermark = batch.watermarks[last];
+      this.lastKey = null;
+    }
+    this._save();
+    this._setState({
+      lastImportAt: Date.now(),
+      rowsImported: this.state.rowsImported + count,
+      rowsAcknowledged: this.state.rowsAcknowledged + (cfg.ackColumn && !ackError ? count : 0),
+      ...(ackError ? { lastError: ackError } : error ? {} : { lastError: null }),
+    });
+    // A full batch means there is probably more waiting.
+    if (!error && count === batch.rows.length && batch.full && this.timer) {
+      setImmediate(() => { this.pollOnce(); });
+    }
+    return { success: true, acknowledged: count, error: ackError };
+  }
+}
+
+module.exports = { DbPoller, normalizeDbConfig, quoteIdent, driverAvailability, DRIVERS };
@@ -0,0 +1,582 @@
+/**
+ * Fault notification routing — turns printer faults into email, webhook and
+ * SMS-gateway messages, and escalates fatal faults nobody acknowledges.
+ *
+ * The renderer polls ^LE and hands every printer's fault list to `report()`.
+ * Each newly listed code is matched against the rules (printer / line,
+ * severity, code pattern); every matching rule opens an incident that:
+ *
+ * - notifies the rule's contacts once the fault has stayed listed for the
+ *   rule's delay (a fault that clears sooner is cancelled, not sent),
+ * - for a fatal (F) fault with escalation on, notifies the escalation
+ *   contacts if nobody has acknowledged it `afterMinutes` later,
+ * - stops when acknowledged (in the app, or by dismissing the fault popup)
+ *   or when the printer stops listing the code.
+ *
+ * Channels: SMTP (plain, implicit TLS or STARTTLS when offered, AUTH LOGIN),
+ * a JSON webhook, and a generic SMS gateway described by a URL and body
+ * template with {to} / {message} placeholders. notificationSink.cjs is a
+ * local HTTP + SMTP sink to point all three at while testing.
+ */
+
+const fs = require('fs');
+const os = require('os');
+const net = require('net');
+const tls = require('tls');
+const http = require('http');
+const https = require('https');
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+const { buildEml } = require('./reportScheduler.cjs');
+
+const CHECK_INTERVAL_MS = 5_000;
+const SEND_TIMEOUT_MS = 20_000;
+const MAX_INCIDENTS = 500;
+const CHANNELS = ['email', 'webhook', 'sms'];
+const SEVERITIES = ['F', 'W', 'I'];
+const SEVERITY_LABELS = { F: 'FAULT', W: 'WARNING', I: 'INFO' };
+
+const str = (v) => String(v ?? '').trim();
+const list = (v) => (Array.isArray(v) ? v : []);
+const clamp = (v, min, max, fallback) => {
+  const n = Math.round(Number(v));
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+};
+
+function normalizeContact(raw) {
+  return {
+    id: str(raw?.id) || crypto.randomUUID(),
+    name: str(raw?.name) || 'Contact',
+    email: str(raw?.email),
+    phone: str(raw?.phone),
+    webhookUrl: str(raw?.webhookUrl),
+  };
+}
+
+function normalizeRule(raw) {
+  const channels = list(raw?.channels).filter((c) => CHANNELS.includes(c));
+  const severities = list(raw?.severities).filter((s) => SEVERITIES.includes(s));
+  return {
+    id: str(raw?.id) || crypto.randomUUID(),
+    name: str(raw?.name) || 'Fault rule',
+    enabled: raw?.enabled !== false,
+    /** Both empty = every printer */
+    printerIds: list(raw?.printerIds).map(Number).filter(Number.isFinite),
+    lineIds: list(raw?.lineIds).map(str).filter(Boolean),
+    severities: severities.length > 0 ? severities : ['F'],
+    /** `10-0002` or a prefix like `10-*`; empty = every code */
+    codes: list(raw?.codes).map((c) => str(c).toUpperCase()).filter(Boolean),
+    /** How long a fault must stay listed before anyone is notified */
+    delaySeconds: clamp(raw?.delaySeconds, 0, 86_400, 60),
+    contactIds: list(raw?.contactIds).map(str).filter(Boolean),
+    channels: channels.length > 0 ? channels : ['email'],
+    escalation: {
+      enabled: !!raw?.escalation?.enabled,
+      afterMinutes: clamp(raw?.escalation?.afterMinutes, 1, 1440, 15),
+      contactIds: list(raw?.escalation?.contactIds).map(str).filter(Boolean),
+    },
+  };
+}
+
+function normalizeChannels(raw) {
+  return {
+    smtp: {
+      host: str(raw?.smtp?.host),
+      port: clamp(raw?.smtp?.port, 1, 65_535, 25),
+      /** Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it */
+      secure: !!raw?.smtp?.secure,
+      username: str(raw?.smtp?.username),
+      /** Never sent to the renderer; see FaultNotifier#getConfig */
+      password: String(raw?.smtp?.password ?? ''),
+      from: str(raw?.smtp?.from) || 'codesync@localhost',
+    },
+    sms: {
+      url: str(raw?.sms?.url),
+      method: raw?.sms?.method === 'GET' ? 'GET' : 'POST',
+      /** One `Name: value` per line */
+      headers: String(raw?.sms?.headers ?? ''),
+      body: String(raw?.sms?.body ?? '{"to":"{to}","message":"{message}"}'),
+    },
+  };
+}
+
+function normalizeConfig(raw) {
+  return {
+    channels: normalizeChannels(raw?.channels),
+    contacts: list(raw?.contacts).map(normalizeContact),
+    rules: list(raw?.rules).map(normalizeRule),
+  };
+}
+
+function validateConfig(config) {
+  const contactIds = new Set(config.contacts.map((c) => c.id));
+  for (const rule of config.rules) {
+    if (rule.contactIds.length === 0) return `"${rule.name}" needs at least one contact`;
+    if ([...rule.contactIds, ...rule.escalation.contactIds].some((id) => !contactIds.has(id))) return `"${rule.name}" refers to a deleted contact`;
+    if (rule.escalation.enabled && rule.escalation.contactIds.length === 0) return `"${rule.name}" needs an escalation contact`;
+    if (rule.codes.some((c) => !/^[0-9A-F]{2}-([0-9A-F]{4}|\*)$/.test(c) && !/^[0-9A-F]{2}-[0-9A-F]{0,3}\*$/.test(c))) {
+      return `"${rule.name}" has a fault code that is not SS-NNNN or SS-*`;
+    }
+  }
+  for (const c of config.contacts) {
+    if (c.webhookUrl && !/^https?:\/\//i.test(c.webhookUrl)) return `${c.name}: webhook URL must start with http:// or https://`;
+  }
+  const { sms } = config.channels;
+  if (sms.url && !/^https?:\/\//i.test(sms.url)) return 'SMS gateway URL must start with http:// or https://';
+  return null;
+}
+
+function codeMatches(pattern, code) {
+  return pattern.endsWith('*') ? code.startsWith(pattern.slice(0, -1)) : pattern === code;
+}
+
+/** Whether a rule covers a fault on a printer ({ id, lineId }). */
+function ruleMatches(rule, printer, fault) {
+  if (!rule.enabled) return false;
+  const scoped = rule.printerIds.length > 0 || rule.lineIds.length > 0;
+  if (scoped && !rule.printerIds.includes(printer.id) && !(printer.lineId && rule.lineIds.includes(printer.lineId))) return false;
+  if (!rule.severities.includes(fault.severity)) return false;
+  return rule.codes.length === 0 || rule.codes.some((p) => codeMatches(p, fault.code));
+}
+
+function normalizeCode(raw) {
+  const code = str(raw).replace(/[‐‑‒–—−]/g, '-').toUpperCase();
+  return (code.match(/[0-9A-F]{2}-[0-9A-F]{4}/) || [code])[0];
+}
+
+/** `Name: value` lines → header object. */
+function parseHeaders(text) {
+  const out = {};
+  for (const line of String(text || '').split(/\r?\n/)) {
+    const i = line.indexOf(':');
+    if (i > 0) out[line.slice(0, i).trim()] = line.slice(i + 1).trim();
+  }
+  return out;
+}
+
+function httpSend(url, { method = 'POST', headers = {}, body = null } = {}) {
+  return new Promise((resolve, reject) => {
+    let target;
+    try { target = new URL(url); } catch (_) { reject(new Error('Invalid URL')); return; }
+    const data = body == null ? null : Buffer.from(body);
+    const req = (target.protocol === 'https:' ? https : http).request(target, {
+      method,
+      headers: data ? { ...headers, 'Content-Length': data.length } : headers,
+      timeout: SEND_TIMEOUT_MS,
+    }, (res) => {
+      res.resume();
+      res.on('end', () => {
+        if (res.statusCode >= 200 && res.statusCode < 300) resolve(res.statusCode);
+        else reject(new Error(`HTTP ${res.statusCode}`));
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error('Timed out')));
+    req.on('error', reject);
+    req.end(data || undefined);
+  });
+}
+
+/** Fill {to} / {message} in an SMS gateway URL or body. */
+function fillTemplate(template, values, encode) {
+  return template.replace(/\{(to|message)\}/g, (_, key) => encode(values[key]));
+}
+
+function sendSms(sms, to, message) {
+  if (!sms.url) return Promise.reject(new Error('SMS gateway not configured'));
+  const headers = parseHeaders(sms.headers);
+  const url = fillTemplate(sms.url, { to, message }, encodeURIComponent);
+  if (sms.method === 'GET') return httpSend(url, { method: 'GET', headers });
+  const type = Object.entries(headers).find(([k]) => k.toLowerCase() === 'content-type')?.[1];
+  const form = /x-www-form-urlencoded/i.test(type || '');
+  const body = fillTemplate(sms.body, { to, message }, form ? encodeURIComponent : (v) => JSON.stringify(v).slice(1, -1));
+  return httpSend(url, { method: 'POST', headers: type ? headers : { ...headers, 'Content-Type': 'application/json' }, body });
+}
+
+/** Line-oriented SMTP conversation over a socket that may be upgraded to TLS. */
+class SmtpClient {
+  constructor() {
+    this.socket = null;
+    this.buffer = '';
+    this.lines = [];
+    this.waiting = [];
+    this.replies = [];
+    this.failure = null;
+  }
+
+  _attach(socket) {
+    this.socket = socket;
+    socket.setTimeout(SEND_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', (chunk) => this._onData(chunk));
+    socket.on('error', (err) => this._fail(err));
+    socket.on('close', () => this._fail(new Error('SMTP connection closed')));
+  }
+
+  _onData(chunk) {
+    this.buffer += chunk.toString('utf8');
+    let i;
+    while ((i = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, i).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(i + 1);
+      this.lines.push(line);
+      if (!/^\d{3}(?: |$)/.test(line)) continue;
+      const reply = { code: Number(line.slice(0, 3)), text: this.lines.join('\n') };
+      this.lines = [];
+      const next = this.waiting.shift();
+      if (next) next.resolve(reply);
+      else this.replies.push(reply);
+    }
+  }
+
+  _fail(err) {
+    this.failure = this.failure || err;
+    for (const w of this.waiting.splice(0)) w.reject(this.failure);
+  }
+
+  connect(server) {
+    return new Promise((resolve, reject) => {
+      const socket = server.secure
+        ? tls.connect({ host: server.host, port: server.port, servername: server.host }, resolve)
+        : net.connect({ host: server.host, port: server.port }, resolve);
+      socket.once('error', reject);
+      this._attach(socket);
+    });
+  }
+
+  upgrade(host) {
+    return new Promise((resolve, reject) => {
+      const plain = this.socket;
+      plain.removeAllListeners('data');
+      plain.removeAllListeners('close');
+      plain.removeAllListeners('error');
+      const secure = tls.connect({ socket: plain, servername: host }, resolve);
+      secure.once('error', reject);
+      this._attach(secure);
+    });
+  }
+
+  read() {
+    if (this.replies.length > 0) return Promise.resolve(this.replies.shift());
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  async expect(codes, what) {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) throw new Error(`SMTP ${what}: ${reply.text}`);
+    return reply;
+  }
+
+  async command(line, codes, what = line.split(' ')[0]) {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, what);
+  }
+
+  close() {
+    try { this.socket.end(); } catch (_) {}
+  }
+}
+
+async function sendSmtp(server, { from, to, raw }) {
+  if (!server.host) throw new Error('SMTP server not configured');
+  const client = new SmtpClient();
+  const hello = `EHLO ${os.hostname() || 'codesync'}`;
+  try {
+    await client.connect(server);
+    await client.expect([220], 'greeting');
+    let ehlo = await client.command(hello, [250]);
+    if (!server.secure && /STARTTLS/i.test(ehlo.text)) {
+      await client.command('STARTTLS', [220]);
+      await client.upgrade(server.host);
+      ehlo = await client.command(hello, [250]);
+    }
+    if (server.username) {
+      await client.command('AUTH LOGIN', [334]);
+      await client.command(Buffer.from(server.username).toString('base64'), [334], 'AUTH user');
+      await client.command(Buffer.from(server.password).toString('base64'), [235], 'AUTH password');
+    }
+    await client.command(`MAIL FROM:<${from}>`, [250]);
+    for (const rcpt of to) await client.command(`RCPT TO:<${rcpt}>`, [250, 251]);
+    await client.command('DATA', [354]);
+    // Dot-stuffing: a line starting with "." gets a second one
+    await client.command(`${raw.replace(/\r?\n\./g, '\r\n..')}\r\n.`, [250], 'DATA');
+    client.socket.write('QUIT\r\n');
+  } finally {
+    client.close();
+  }
+}
+
+/** RFC 2047 encoded-word for non-ASCII subjects. */
+function encodeHeader(value) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function incidentText(incident, stage) {
+  const where = [incident.lineId && `line ${incident.lineId}`, incident.printerName].filter(Boolean).join(' / ');
+  const head = `${SEVERITY_LABELS[incident.severity] || 'ALERT'} ${incident.code} on ${where}: ${incident.message}`;
+  if (stage === 'test') return 'CodeSync test notification — fault routing is set up.';
+  if (stage === 'escalation') {
+    const minutes = Math.round((incident.escalateAt - incident.notifiedAt) / 60_000);
+    return `ESCALATED — unacknowledged for ${minutes} min. ${head}`;
+  }
+  return head;
+}
+
+/** Config for the renderer: the SMTP password becomes `hasPassword`. */
+function redactConfig(config) {
+  const { password, ...smtp } = config.channels.smtp;
+  return { ...config, channels: { ...config.channels, smtp: { ...smtp, hasPassword: !!password } } };
+}
+
+class FaultNotifier extends EventEmitter {
+  /**
+   * `protect` encrypts the SMTP password at rest (Electron safeStorage in main),
+   * the same hooks the database poller takes.
+   */
+  constructor({ statePath, now = () => Date.now(), protect } = {}) {
+    super();
+    this.statePath = statePath;
+    this.now = now;
+    this.protect = protect || null;
+    this.config = normalizeConfig({});
+    this.incidents = [];
+    this.timer = null;
+    this._load();
+  }
+
+  _load() {
+    if (!this.statePath) return;
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      this.config = normalizeConfig(saved.config);
+      if (saved.smtpPasswordEnc && this.protect) {
+        let password = '';
+        try { password = this.protect.decrypt(saved.smtpPasswordEnc); } catch (_) {}
+        this.config.channels.smtp.password = password;
+      } else if (typeof saved.smtpPassword === 'string') {
+        this.config.channels.smtp.password = saved.smtpPassword;
+      }
+      this.incidents = list(saved.incidents).slice(0, MAX_INCIDENTS);
+    } catch (_) { /* first run */ }
+  }
+
+  _save() {
+    if (!this.statePath) return;
+    const { password, ...smtp } = this.config.channels.smtp;
+    const out = { config: { ...this.config, channels: { ...this.config.channels, smtp } }, incidents: this.incidents };
+    if (password) {
+      if (this.protect) out.smtpPasswordEnc = this.protect.encrypt(password);
+      else out.smtpPassword = password;
+    }
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify(out, null, 2));
+    } catch (_) {}
+  }
+
+  _changed() {
+    this._save();
+    this.emit('incidents', this.incidents);
+  }
+
+  getConfig() {
+    return redactConfig(this.config);
+  }
+
+  getIncidents() {
+    return this.incidents;
+  }
+
+  /** An omitted SMTP password keeps the stored one. */
+  saveConfig(raw) {
+    const config = normalizeConfig(raw);
+    if (typeof raw?.channels?.smtp?.password !== 'string') config.channels.smtp.password = this.config.channels.smtp.password;
+    const invalid = validateConfig(config);
+    if (invalid) return { success: false, error: invalid };
+    this.config = config;
+    this._save();
+    this.emit('config', config);
+    return { success: true, config: redactConfig(config) };
+  }
+
+  start() {
+    this.stop();
+    this.timer = setInterval(() => { this.tick(); }, CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** One printer's current ^LE list. `printer` is `{ id, name, lineId }`. */
+  async report(printer, faults) {
+    const at = this.now();
+    const listed = new Map();
+    for (const f of list(faults)) {
+      const code = normalizeCode(f?.code);
+      if (code) listed.set(code, { code, severity: str(f?.severity).toUpperCase(), message: str(f?.message) });
+    }
+    let changed = false;
+
+    const open = new Set();
+    for (const incident of this.incidents) {
+      if (incident.printerId !== printer.id || incident.clearedAt !== null) continue;
+      if (listed.has(incident.code)) {
+        open.add(`${incident.ruleId}.${incident.code}`);
+        continue;
+      }
+      incident.clearedAt = at;
+      changed = true;
+    }
+
+    for (const fault of listed.values()) {
+      for (const rule of this.config.rules) {
+        if (open.has(`${rule.id}.${fault.code}`) || !ruleMatches(rule, printer, fault)) continue;
+        this.incidents.unshift({
+          id: crypto.randomUUID(),
+          ruleId: rule.id,
+          ruleName: rule.name,
+          printerId: printer.id,
+          printerName: str(printer.name) || `Printer ${printer.id}`,
+          lineId: str(printer.lineId),
+          code: fault.code,
+          severity: fault.severity,
+          message: fault.message,
+          openedAt: at,
+          clearedAt: null,
+          notifyAt: at + rule.delaySeconds * 1000,
+          notifiedAt: null,
+          escalateAt: null,
+          escalatedAt: null,
+          ackAt: null,
+          ackBy: null,
+          sends: [],
+        });
+        changed = true;
+      }
+    }
+
+    if (!changed) return { success: true };
+    this.incidents = this.incidents.slice(0, MAX_INCIDENTS);
+    this._changed();
+    // A rule without delay sends straight away
+    await this.tick();
+    return { success: true };
+  }
+
+  acknowledge(id, by = 'CodeSync') {
+    const incident = this.incidents.find((i) => i.id === id);
+    if (!incident) return { success: false, error: 'Unknown incident' };
+    if (incident.ackAt === null) {
+      incident.ackAt = this.now();
+      incident.ackBy = str(by) || 'CodeSync';
+      this._changed();
+    }
+    return { success: true, incident };
+  }
+
+  /** Acknowledge every open incident of a printer's code (the fault popup was dismissed). */
+  acknowledgeFault(printerId, code, by = 'Operator') {
+    const target = normalizeCode(code);
+    const hits = this.incidents.filter((i) => i.printerId === printerId && i.code === target && i.ackAt === null && i.clearedAt === null);
+    for (const i of hits) {
+      i.ackAt = this.now();
+      i.ackBy = by;
+    }
+    if (hits.length > 0) this._changed();
+    return { success: true, acknowledged: hits.length };
+  }
+
+  /** Send due notifications and escalations. */
+  async tick() {
+    const now = this.now();
+    const due = [];
+    for (const incident of this.incidents) {
+      if (incident.clearedAt !== null || incident.ackAt !== null) continue;
+      const rule = this.config.rules.find((r) => r.id === incident.ruleId);
+      if (!rule) continue;
+      if (incident.notifiedAt === null && now >= incident.notifyAt) {
+        incident.notifiedAt = now;
+        if (rule.escalation.enabled && incident.severity === 'F') incident.escalateAt = now + rule.escalation.afterMinutes * 60_000;
+        due.push(this._notify(incident, rule.contactIds, rule.channels, 'primary'));
+      } else if (incident.escalateAt !== null && incident.escalatedAt === null && now >= incident.escalateAt) {
+        incident.escalatedAt = now;
+        due.push(this._notify(incident, rule.escalation.contactIds, rule.channels, 'escalation'));
+      }
+    }
+    if (due.length === 0) return;
+    await Promise.all(due);
+    this._changed();
+  }
+
+  /** Send a test message to one contact on one channel. */
+  async test(contactId, channel) {
+    const contact = this.config.contacts.find((c) => c.id === contactId);
+    if (!contact) return { success: false, error: 'Unknown contact' };
+    const probe = { id: 'test', code: '00-0000', severity: 'I', message: 'Test', printerName: 'CodeSync', lineId: '', openedAt: this.now() };
+    const send = await this._send(contact, channel, probe, 'test');
+    return send.ok ? { success: true } : { success: false, error: send.detail };
+  }
+
+  async _notify(incident, contactIds, channels, stage) {
+    for (const id of contactIds) {
+      const contact = this.config.contacts.find((c) => c.id === id);
+      if (!contact) continue;
+      for (const channel of channels) {
+        const send = await this._send(contact, channel, incident, stage);
+        if (send) incident.sends.push(send);
+      }
+    }
+    this.emit('sent', incident, stage);
+  }
+
+  async _send(contact, channel, incident, stage) {
+    const text = incidentText(incident, stage);
+    const target = channel === 'email' ? contact.email : channel === 'sms' ? contact.phone : contact.webhookUrl;
+    const send = { at: this.now(), stage, contact: contact.name, channel, target, ok: false, detail: '' };
+    if (!target) {
+      send.detail = `No ${channel === 'email' ? 'email address' : channel === 'sms' ? 'phone number' : 'webhook URL'}`;
+      return send;
+    }
+    try {
+      if (channel === 'email') {
+        const { smtp } = this.config.channels;
+        const to = target.split(/[,;]\s*/).filter(Boolean);
+        const raw = buildEml({
+          from: smtp.from,
+          to: to.join(', '),
+          subject: encodeHeader(`[CodeSync] ${text.slice(0, 120)}`),
+          text: `${text}\r\n\r\nOpened ${new Date(incident.openedAt).toLocaleString()}.\r\nAcknowledge it in CodeSync to stop escalation.`,
+          attachments: [],
+        });
+        await sendSmtp(smtp, { from: smtp.from, to, raw });
+      } else if (channel === 'sms') {
+        await sendSms(this.config.channels.sms, target, text);
+      } else {
+        await httpSend(target, {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            event: stage,
+            text,
+            incident: {
+              id: incident.id,
+              printerId: incident.printerId,
+              printerName: incident.printerName,
+              lineId: incident.lineId,
+              code: incident.code,
+              severity: incident.severity,
+              message: incident.message,
+              openedAt: new Date(incident.openedAt).toISOString(),
+            },
+          }),
+        });
+      }
+      send.ok = true;
+      send.detail = 'Sent';
+    } catch (err) {
+      send.detail = err.message;
+    }
+    return send;
+  }
+}
+
+module.exports = { FaultNotifier, normalizeConfig, validateConfig, ruleMatches, sendSmtp, sendSms };
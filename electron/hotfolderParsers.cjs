@@ -0,0 +1,286 @@
+/**
+ * Hotfolder file parsers — CSV, TSV, JSON and XML into the flat
+ * `{ columns, rows }` shape data_source_rows stores (every value a string).
+ *
+ * Pure functions, no fs: hotfolderWatcher.cjs reads the file and moves it to
+ * the error folder with the thrown message when a parse fails.
+ *
+ * - CSV / TSV: RFC 4180 quoting (embedded delimiters, quotes and newlines).
+ *   A .txt or .csv whose header line has more tabs than commas is read as TSV.
+ * - JSON: an array of records, `{ columns, rows }`, or an object holding the
+ *   record array under `data` / `rows` / `records` / `items` (the same shapes
+ *   the receive-print-data endpoint takes). A single object is one row.
+ *   Nested objects flatten to dotted columns (`lot.expiry`).
+ * - XML: the repeating element under the root (after unwrapping single-child
+ *   wrappers) is the record; its attributes and child elements are columns,
+ *   nested children flatten to dotted columns.
+ */
+
+const FORMATS = ['csv', 'tsv', 'json', 'xml'];
+const EXTENSIONS = /\.(csv|tsv|txt|json|xml)$/i;
+
+function stripBom(text) {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+function cellText(v) {
+  if (v == null) return '';
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+}
+
+/** Union of keys in first-seen order. */
+function columnsOf(records) {
+  const seen = new Set();
+  for (const r of records) for (const k of Object.keys(r)) seen.add(k);
+  return [...seen];
+}
+
+function rowsWithColumns(columns, records) {
+  return records.map((r) => {
+    const values = {};
+    for (const c of columns) values[c] = r[c] ?? '';
+    return values;
+  });
+}
+
+// ── Delimited ──
+
+function splitDelimited(text, delimiter) {
+  const out = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { field += '"'; i++; }
+        else quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      out.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted field');
+  if (field !== '' || row.length > 0) { row.push(field); out.push(row); }
+  return out.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+function parseDelimited(text, delimiter) {
+  const lines = splitDelimited(stripBom(text), delimiter);
+  if (lines.length === 0) throw new Error('File is empty');
+  const columns = lines[0].map((h) => h.trim());
+  if (columns.every((c) => c === '')) throw new Error('Header row is empty');
+  columns.forEach((c, i) => { if (!c) columns[i] = `Column ${i + 1}`; });
+  const rows = lines.slice(1).map((vals) => {
+    const values = {};
+    columns.forEach((c, i) => { values[c] = (vals[i] ?? '').trim(); });
+    return values;
+  });
+  return { columns, rows };
+}
+
+function looksTabSeparated(text) {
+  const header = stripBom(text).split(/\r?\n/, 1)[0] || '';
+  return (header.match(/\t/g) || []).length > (header.match(/,/g) || []).length;
+}
+
+// ── JSON ──
+
+function flattenInto(out, prefix, value) {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [k, v] of Object.entries(value)) flattenInto(out, prefix ? `${prefix}.${k}` : k, v);
+  } else if (Array.isArray(value) && value.every((v) => v == null || typeof v !== 'object')) {
+    out[prefix] = value.map(cellText).join(', ');
+  } else {
+    out[prefix] = cellText(value);
+  }
+  return out;
+}
+
+function parseJson(text) {
+  let body;
+  try {
+    body = JSON.parse(stripBom(text));
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err.message}`);
+  }
+  if (body && !Array.isArray(body) && Array.isArray(body.columns) && Array.isArray(body.rows)) {
+    const columns = body.columns.map(String);
+    const rows = body.rows.map((r) => {
+      const values = {};
+      columns.forEach((c, i) => { values[c] = cellText(Array.isArray(r) ? r[i] : r?.[c]); });
+      return values;
+    });
+    return { columns, rows };
+  }
+  let records = body;
+  if (!Array.isArray(records) && records && typeof records === 'object') {
+    const key = ['data', 'rows', 'records', 'items'].find((k) => Array.isArray(records[k]));
+    records = key ? records[key] : [records];
+  }
+  if (!Array.isArray(records)) throw new Error('JSON must be an array of records or an object');
+  const flat = records.map((r, i) => {
+    if (!r || typeof r !== 'object' || Array.isArray(r)) throw new Error(`Record ${i + 1} is not an object`);
+    return flattenInto({}, '', r);
+  });
+  const columns = columnsOf(flat);
+  return { columns, rows: rowsWithColumns(columns, flat) };
+}
+
+// ── XML ──
+
+const XML_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(s) {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e) => {
+    if (e[0] === '#') {
+      const code = e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return XML_ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+const OPEN_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+/** Minimal element tree: `{ name, attrs, children, text }`. */
+function parseXmlTree(text) {
+  const src = stripBom(text);
+  const root = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack = [root];
+  let i = 0;
+  while (i < src.length) {
+    const lt = src.indexOf('<', i);
+    const top = stack[stack.length - 1];
+    if (lt === -1) { top.text += decodeEntities(src.slice(i)); break; }
+    if (lt > i) top.text += decodeEntities(src.slice(i, lt));
+    if (src.startsWith('<!--', lt)) {
+      const end = src.indexOf('-->', lt + 4);
+      if (end === -1) throw new Error('Unterminated comment');
+      i = end + 3;
+    } else if (src.startsWith('<![CDATA[', lt)) {
+      const end = src.indexOf(']]>', lt + 9);
+      if (end === -1) throw new Error('Unterminated CDATA section');
+      top.text += src.slice(lt + 9, end);
+      i = end + 3;
+    } else if (src[lt + 1] === '?' || src[lt + 1] === '!') {
+      const end = src.indexOf('>', lt);
+      if (end === -1) throw new Error('Unterminated declaration');
+      i = end + 1;
+    } else if (src[lt + 1] === '/') {
+      const end = src.indexOf('>', lt);
+      if (end === -1) throw new Error('Unterminated closing tag');
+      const name = src.slice(lt + 2, end).trim();
+      if (stack.length < 2 || top.name !== name) throw new Error(`Unexpected </${name}>`);
+      stack.pop();
+      i = end + 1;
+    } else {
+      OPEN_TAG.lastIndex = lt;
+      const m = OPEN_TAG.exec(src);
+      if (!m) throw new Error(`Malformed tag at offset ${lt}`);
+      const el = { name: m[1], attrs: {}, children: [], text: '' };
+      const attrRe = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let a;
+      while ((a = attrRe.exec(m[2]))) el.attrs[a[1]] = decodeEntities(a[2] ?? a[3]);
+      top.children.push(el);
+      if (!m[3]) stack.push(el);
+      i = lt + m[0].length;
+    }
+  }
+  if (stack.length > 1) throw new Error(`Unclosed <${stack[stack.length - 1].name}>`);
+  if (root.children.length !== 1) throw new Error('XML must have exactly one root element');
+  return root.children[0];
+}
+
+function flattenElement(out, prefix, el) {
+  for (const [k, v] of Object.entries(el.attrs)) out[prefix ? `${prefix}.${k}` : k] = v;
+  if (el.children.length === 0) {
+    if (prefix) out[prefix] = el.text.trim();
+    return out;
+  }
+  const counts = {};
+  for (const c of el.children) counts[c.name] = (counts[c.name] || 0) + 1;
+  const seen = {};
+  for (const c of el.children) {
+    // Repeated children (<tag>…</tag><tag>…</tag>) become tag, tag.2, …
+    seen[c.name] = (seen[c.name] || 0) + 1;
+    const name = counts[c.name] > 1 && seen[c.name] > 1 ? `${c.name}.${seen[c.name]}` : c.name;
+    flattenElement(out, prefix ? `${prefix}.${name}` : name, c);
+  }
+  return out;
+}
+
+function parseXml(text) {
+  let node = parseXmlTree(text);
+  // Unwrap <export><items><item/>…</items></export>-style single-child
+  // wrappers, stopping at an element whose children are all leaves — that
+  // one is a lone record, not a wrapper.
+  while (node.children.length === 1) {
+    const only = node.children[0];
+    if (only.children.every((c) => c.children.length === 0)) break;
+    node = only;
+  }
+  const counts = {};
+  for (const c of node.children) counts[c.name] = (counts[c.name] || 0) + 1;
+  const recordName = Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0];
+  if (!recordName) throw new Error('XML has no record elements');
+  const flat = node.children
+    .filter((c) => c.name === recordName)
+    .map((c) => (c.children.length === 0 && Object.keys(c.attrs).length === 0
+      ? { [recordName]: c.text.trim() }
+      : flattenElement({}, '', c)));
+  const columns = columnsOf(flat);
+  return { columns, rows: rowsWithColumns(columns, flat) };
+}
+
+// ── Dispatch ──
+
+function detectFormat(fileName, text) {
+  const ext = (/\.([^.]+)$/.exec(fileName)?.[1] || '').toLowerCase();
+  if (ext === 'json' || ext === 'xml' || ext === 'tsv') return ext;
+  const head = stripBom(text).trimStart();
+  if (ext === 'txt' && (head.startsWith('[') || head.startsWith('{'))) return 'json';
+  if (ext === 'txt' && head.startsWith('<')) return 'xml';
+  return looksTabSeparated(text) ? 'tsv' : 'csv';
+}
+
+/**
+ * Parse a dropped file. Throws with an operator-readable message when the
+ * content can't be turned into at least one row.
+ */
+function parseHotfolderFile(fileName, text) {
+  const format = detectFormat(fileName, text);
+  let result;
+  if (format === 'json') result = parseJson(text);
+  else if (format === 'xml') result = parseXml(text);
+  else result = parseDelimited(text, format === 'tsv' ? '\t' : ',');
+  if (result.columns.length === 0) throw new Error(`No columns found in ${format.toUpperCase()} file`);
+  if (result.rows.length === 0) throw new Error(`No data rows found in ${format.toUpperCase()} file`);
+  return { format, ...result };
+}
+
+module.exports = {
+  FORMATS,
+  EXTENSIONS,
+  parseHotfolderFile,
+  parseDelimited,
+  parseJson,
+  parseXml,
+  detectFormat,
+};
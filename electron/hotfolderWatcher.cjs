@@ -0,0 +1,318 @@
+/**
+ * Hotfolder watcher v2 — polls a folder for CSV / TSV / TXT / JSON / XML
+ * drops and hands each parsed file to the renderer for import.
+ *
+ * - Stability gate: a file is only read once its size and mtime have been
+ *   unchanged for `stableMs`, so an export still being copied in (or written
+ *   over SMB) isn't imported half-finished.
+ * - Processed state is persisted and keyed by name + SHA-1 of the content:
+ *   a restart doesn't re-import, and re-dropping a file with the same name
+ *   but new content is a new file.
+ * - The renderer answers on `hotfolder:ack`. Imported files move to
+ *   `processed/`; files that fail to parse or import move to `error/` with a
+ *   `<name>.error.txt` sidecar saying why. With archiving off, files stay
+ *   put and the persisted state alone stops re-imports.
+ *
+ * Parsing lives in hotfolderParsers.cjs; this file owns fs and timing only.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+const { parseHotfolderFile, EXTENSIONS } = require('./hotfolderParsers.cjs');
+
+const DEFAULT_POLL_SECONDS = 5;
+const DEFAULT_STABLE_MS = 2000;
+const ACK_TIMEOUT_MS = 60_000;
+const MAX_PROCESSED_ENTRIES = 2000;
+const MAX_RECENT = 20;
+
+function normalizeHotfolderConfig(raw) {
+  return {
+    enabled: !!raw?.enabled,
+    path: String(raw?.path || '').trim(),
+    pollingSeconds: Math.min(300, Math.max(1, Number(raw?.pollingSeconds) || DEFAULT_POLL_SECONDS)),
+    stableMs: Math.min(60_000, Math.max(0, Number(raw?.stableMs ?? DEFAULT_STABLE_MS))),
+    archive: raw?.archive !== false,
+    processedDir: String(raw?.processedDir || '').trim() || 'processed',
+    errorDir: String(raw?.errorDir || '').trim() || 'error',
+    /** Append every file to this data source; blank = one source per file. */
+    sourceName: String(raw?.sourceName || '').trim(),
+  };
+}
+
+function sourceNameFromFile(fileName) {
+  return fileName.replace(EXTENSIONS, '').replace(/[_-]/g, ' ');
+}
+
+function stamp() { return new Date().toISOString(); }
+
+/** `name.csv` → `name (2026-01-02T03-04-05).csv` when the target exists. */
+function freeName(dir, fileName) {
+  if (!fs.existsSync(path.join(dir, fileName))) return fileName;
+  const ext = path.extname(fileName);
+  const base = fileName.slice(0, fileName.length - ext.length);
+  const suffix = stamp().replace(/[:.]/g, '-').slice(0, 19);
+  for (let n = 0; ; n++) {
+    const candidate = `${base} (${suffix}${n ? `-${n}` : ''})${ext}`;
+    if (!fs.existsSync(path.join(dir, candidate))) return candidate;
+  }
+}
+
+class HotfolderWatcher extends EventEmitter {
+  constructor({ statePath } = {}) {
+    super();
+    this.statePath = statePath || null;
+    this.config = normalizeHotfolderConfig(null);
+    /** key `${name}|${sha1}` → { at, status, rows?, error? } */
+    this.processed = {};
+    /** fileName → { sig, since } for the stability gate */
+    this.watching = new Map();
+    /** fileName → sig of files left in place (archiving off) once handled */
+    this.settled = new Map();
+    /** fileId → { fileName, key, rows, sentAt } awaiting the renderer */
+    this.pending = new Map();
+    this.timer = null;
+    this.recheck = null;
+    this.seq = 0;
+    this.state = { running: false, lastScanAt: null, folderError: null, lastError: null, filesImported: 0, filesFailed: 0, recent: [] };
+    this._load();
+  }
+
+  _load() {
+    if (!this.statePath) return;
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      this.config = normalizeHotfolderConfig(saved.config);
+      this.processed = saved.processed && typeof saved.processed === 'object' ? saved.processed : {};
+    } catch (_) { /* first run */ }
+  }
+
+  _save() {
+    if (!this.statePath) return;
+    const keys = Object.keys(this.processed);
+    if (keys.length > MAX_PROCESSED_ENTRIES) {
+      keys
+        .sort((a, b) => (this.processed[a].at < this.processed[b].at ? -1 : 1))
+        .slice(0, keys.length - MAX_PROCESSED_ENTRIES)
+        .forEach((k) => { delete this.processed[k]; });
+    }
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify({ config: this.config, processed: this.processed }, null, 2));
+    } catch (_) {}
+  }
+
+  getConfig() { return { ...this.config }; }
+
+  getStatus() {
+    return {
+      ...this.state,
+      enabled: this.config.enabled,
+      path: this.config.path,
+      waiting: [...this.watching.keys()],
+      pendingFiles: this.pending.size,
+    };
+  }
+
+  _setState(patch) {
+    this.state = { ...this.state, ...patch };
+    this.emit('status', this.getStatus());
+  }
+
+  _recent(entry) {
+    this._setState({ recent: [{ at: stamp(), ...entry }, ...this.state.recent].slice(0, MAX_RECENT) });
+  }
+
+  configure(raw) {
+    this.config = normalizeHotfolderConfig({ ...this.config, ...raw });
+    this._save();
+    this.start();
+    return { success: true, config: this.getConfig() };
+  }
+
+  start() {
+    this.stop();
+    if (!this.config.enabled || !this.config.path) return;
+    this.timer = setInterval(() => { this.scan(); }, this.config.pollingSeconds * 1000);
+    this._setState({ running: true, folderError: null });
+    this.scan();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    if (this.recheck) clearTimeout(this.recheck);
+    this.timer = null;
+    this.recheck = null;
+    this.watching.clear();
+    this.settled.clear();
+    if (this.state.running) this._setState({ running: false });
+  }
+
+  /** Forget processed state so files already seen are imported again. */
+  clearProcessed() {
+    this.processed = {};
+    this._save();
+  }
+
+  /** One pass over the folder. Returns the number of files emitted. */
+  scan(now = Date.now()) {
+    const dir = this.config.path;
+    let names;
+    try {
+      names = fs.readdirSync(dir).filter((f) => EXTENSIONS.test(f));
+    } catch (err) {
+      this._setState({ lastScanAt: now, folderError: `Cannot read folder: ${err.message}` });
+      return 0;
+    }
+
+    for (const [id, p] of this.pending) {
+      if (now - p.sentAt > ACK_TIMEOUT_MS) {
+        this.pending.delete(id);
+        this.settled.delete(p.fileName);
+      }
+    }
+    const inFlight = new Set([...this.pending.values()].map((p) => p.fileName));
+    for (const map of [this.watching, this.settled]) {
+      for (const name of map.keys()) if (!names.includes(name)) map.delete(name);
+    }
+
+    let emitted = 0;
+    let waiting = false;
+    for (const fileName of names) {
+      if (inFlight.has(fileName)) continue;
+      const filePath = path.join(dir, fileName);
+      let st;
+      try { st = fs.statSync(filePath); } catch (_) { continue; }
+      if (!st.isFile()) continue;
+
+      const sig = `${st.size}:${st.mtimeMs}`;
+      if (this.settled.get(fileName) === sig) continue;
+      const seen = this.watching.get(fileName);
+      if (!seen || seen.sig !== sig) {
+        this.watching.set(fileName, { sig, since: now });
+        if (this.config.stableMs > 0) { waiting = true; continue; }
+      } else if (now - seen.since < this.config.stableMs) {
+        waiting = true;
+        continue;
+      }
+
+      let buf;
+      try {
+        buf = fs.readFileSync(filePath);
+      } catch (_) {
+        // Still locked by the writer (Windows) — try again next pass.
+        waiting = true;
+        continue;
+      }
+      this.watching.delete(fileName);
+      if (!this.config.archive) this.settled.set(fileName, sig);
+      const key = `${fileName}|${crypto.createHash('sha1').update(buf).digest('hex')}`;
+      const prior = this.processed[key];
+      // Same name, same content: a duplicate drop. A file that failed before
+      // is retried when re-dropped (the failure may have been a network blip).
+      if (prior && (prior.status === 'imported' || !this.config.archive)) {
+        if (this._archive(fileName, 'processed')) this._recent({ fileName, status: 'duplicate' });
+        continue;
+      }
+      if (this._emitFile(fileName, key, buf.toString('utf8'))) emitted++;
+    }
+
+    this._setState({ lastScanAt: now, folderError: null });
+    // Don't make a settling file wait a whole poll interval.
+    if (waiting && this.timer && !this.recheck) {
+      this.recheck = setTimeout(() => { this.recheck = null; this.scan(); }, this.config.stableMs + 50);
+    }
+    return emitted;
+  }
+
+  _emitFile(fileName, key, text) {
+    let parsed;
+    try {
+      parsed = parseHotfolderFile(fileName, text);
+    } catch (err) {
+      this._fail(fileName, key, { stage: 'parse', error: err.message });
+      return false;
+    }
+    const fileId = `hf-${Date.now()}-${++this.seq}`;
+    this.pending.set(fileId, { fileName, key, rows: parsed.rows.length, format: parsed.format, sentAt: Date.now() });
+    const append = !!this.config.sourceName;
+    this.emit('file', {
+      batchId: fileId,
+      fileName,
+      format: parsed.format,
+      mode: append ? 'append' : 'create',
+      sourceName: append ? this.config.sourceName : sourceNameFromFile(fileName),
+      columns: parsed.columns,
+      rows: parsed.rows,
+    });
+    return true;
+  }
+
+  /**
+   * Renderer's answer for a file. Anything short of every row imported is a
+   * failure: the file goes to the error folder with the rows-imported count in
+   * its report so an operator knows whether re-dropping would duplicate.
+   */
+  acknowledge(fileId, { imported, error } = {}) {
+    const p = this.pending.get(fileId);
+    if (!p) return { success: false, error: 'unknown_file' };
+    this.pending.delete(fileId);
+    const count = Math.max(0, Number(imported) || 0);
+    if (!error && count >= p.rows) {
+      this.processed[p.key] = { at: stamp(), status: 'imported', rows: count };
+      this._save();
+      this._archive(p.fileName, 'processed');
+      this._setState({ filesImported: this.state.filesImported + 1 });
+      this._recent({ fileName: p.fileName, status: 'imported', rows: count });
+      return { success: true };
+    }
+    this._fail(p.fileName, p.key, {
+      stage: 'import',
+      error: error || `Only ${count} of ${p.rows} rows were imported`,
+      format: p.format,
+      rows: p.rows,
+      imported: count,
+    });
+    return { success: true };
+  }
+
+  _fail(fileName, key, report) {
+    this.processed[key] = { at: stamp(), status: 'error', error: report.error };
+    this._save();
+    const moved = this._archive(fileName, 'error');
+    if (moved) this._writeReport(moved, fileName, report);
+    this._setState({ filesFailed: this.state.filesFailed + 1, lastError: `${fileName}: ${report.error}` });
+    this._recent({ fileName, status: 'error', error: report.error });
+  }
+
+  /** Move into the processed/error subfolder; returns the folder + new name, or null. */
+  _archive(fileName, kind) {
+    if (!this.config.archive) return null;
+    const dir = path.join(this.config.path, kind === 'error' ? this.config.errorDir : this.config.processedDir);
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      const target = freeName(dir, fileName);
+      fs.renameSync(path.join(this.config.path, fileName), path.join(dir, target));
+      return { dir, name: target };
+    } catch (err) {
+      this._setState({ lastError: `Cannot move ${fileName} to ${kind}/: ${err.message}` });
+      return null;
+    }
+  }
+
+  _writeReport({ dir, name }, originalName, report) {
+    const lines = [
+      `File:     ${originalName}`,
+      `Failed:   ${stamp()}`,
+      `Stage:    ${report.stage === 'parse' ? 'reading / parsing the file' : 'importing into the data source'}`,
+      `Error:    ${report.error}`,
+    ];
+    if (report.format) lines.push(`Format:   ${report.format.toUpperCase()}`);
+    if (report.rows != null) lines.push(`Rows:     ${report.imported ?? 0} of ${report.rows} imported before the failure`);
+    lines.push('', 'Fix the file and drop it into the hotfolder again.');
+    try { fs.writeFileSync(path.join(dir, `${name}.error.txt`), lines.join('\n') + '\n'); } catch (_) {}
+  }
+}
+
+module.exports = { HotfolderWatcher, normalizeHotfolderConfig, sourceNameFromFile };
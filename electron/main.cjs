@@ -1,4 +1,4 @@
-const { app, BrowserWindow, ipcMain, globalShortcut, desktopCapturer } = require('electron');
+const { app, BrowserWindow, ipcMain, globalShortcut, desktopCapturer, safeStorage } = require('electron');
 const net = require('net');
 const http = require('http');
 const os = require('os');
@@ -136,12 +136,27 @@ function createWindow() {
   });
 }
 
-// TCP connection management
+// TCP connection management. Serial links (serialTransport.cjs) live in the
+// same map — they expose the socket surface the command paths rely on.
 const connections = new Map();
 const connectPromises = new Map();
 // Store last-known connection details so we can reconnect on demand.
 const printerMeta = new Map();
 
+const {
+  openSerialConnection,
+  deliverEmulatorData: deliverSerialEmulatorData,
+  setEmulatorPaths: setSerialEmulatorPaths,
+  listSerialPorts,
+  isSerialPathPresent,
+} = require('./serialTransport.cjs');
+
+function metaFor(printer) {
+  return printer.serialPath
+    ? { ipAddress: printer.ipAddress, port: printer.port, serialPath: printer.serialPath, baudRate: printer.baudRate }
+    : { ipAddress: printer.ipAddress, port: printer.port };
+}
+
 // --- Telnet helpers (port 23) ---
 // Some embedded Telnet servers immediately close if the client doesn't respond
 // to option negotiation (IAC sequences). We implement a minimal "refuse everything"
@@ -259,6 +274,13 @@ ipcMain.handle('printer:check-status', async (event, printers) => {
 
   const results = await Promise.all(
     printers.map(async (printer) => {
+      // Serial printers: "reachable" means the port (or USB adapter) is present.
+      if (printer.serialPath) {
+        const present = await isSerialPathPresent(printer.serialPath);
+        return present
+          ? { id: printer.id, isAvailable: true, status: 'ready', responseTime: 0 }
+          : { id: printer.id, isAvailable: false, status: 'offline', error: 'Serial port not found' };
+      }
       // Prefer ICMP ping (no port connection; avoids printer UI flashing)
       try {
         const ping = await pingHost(printer.ipAddress, 2500);
@@ -288,6 +310,7 @@ ipcMain.handle('printer:check-status', async (event, printers) => {
     })
   );
 
+  publishRelayEvent('availability', { printers: results.map(({ id, isAvailable, status }) => ({ id, isAvailable, status })) });
   return results;
 });
 
@@ -301,7 +324,7 @@ ipcMain.handle('printer:quick-status', async (event, printers) => {
 
 function connectPrinterSocket(printer, source = 'printer:connect') {
   // Persist metadata for on-demand reconnects
-  printerMeta.set(printer.id, { ipAddress: printer.ipAddress, port: printer.port });
+  printerMeta.set(printer.id, metaFor(printer));
 
   // Reuse a healthy existing socket immediately (idempotent connect)
   const existing = connections.get(printer.id);
@@ -323,7 +346,7 @@ function connectPrinterSocket(printer, source = 'printer:connect') {
     connections.delete(printer.id);
   }
 
-  const promise = new Promise((resolve) => {
+  const promise = printer.serialPath ? connectPrinterSerial(printer, source) : new Promise((resolve) => {
     const socket = new net.Socket();
     socket.setTimeout(12000);
     socket.setKeepAlive(true, 5000);
@@ -400,6 +423,7 @@ function connectPrinterSocket(printer, source = 'printer:connect') {
         // Notify renderer that connection was lost — deduplicated so it fires exactly once.
         lostEmitted = true;
         safeSend('printer:connection-lost', { printerId: printer.id });
+        publishRelayEvent('connection-lost', { printerId: printer.id });
       }
     });
 
@@ -415,6 +439,38 @@ function connectPrinterSocket(printer, source = 'printer:connect') {
   return promise;
 }
 
+// Serial counterpart of the TCP branch above. No Telnet handshake on a serial
+// line — the port is usable as soon as it opens.
+async function connectPrinterSerial(printer, source) {
+  const label = `${printer.serialPath}@${printer.baudRate || 'default'}`;
+  let link;
+  try {
+    link = await openSerialConnection(printer, {
+      emulatorSend: (serialPath, text) => safeSend('serial:emu-write', { path: serialPath, data: text }),
+    });
+  } catch (err) {
+    console.error(`[${source}] Serial open failed for ${printer.id} (${label}):`, err.message);
+    return { success: false, error: err.message };
+  }
+
+  let lostEmitted = false;
+  link.on('error', (err) => {
+    console.error(`[${source}] Serial error for ${printer.id}:`, err.message);
+  });
+  link.on('close', (hadError) => {
+    console.log(`[${source}] Serial link closed for ${printer.id}, hadError: ${hadError}`);
+    if (connections.get(printer.id) === link) connections.delete(printer.id);
+    if (!lostEmitted) {
+      lostEmitted = true;
+      safeSend('printer:connection-lost', { printerId: printer.id });
+      publishRelayEvent('connection-lost', { printerId: printer.id });
+    }
+  });
+  connections.set(printer.id, link);
+  console.log(`[${source}] Serial link ready for ${printer.id} (${label})`);
+  return { success: true };
+}
+
 ipcMain.handle('printer:connect', async (event, printer) => {
   return connectPrinterSocket(printer, 'printer:connect');
 });
@@ -423,7 +479,7 @@ ipcMain.handle('printer:connect', async (event, printer) => {
 // This enables on-demand command sockets (send-command) without causing the printer UI to flash
 // from an immediate Telnet connect.
 ipcMain.handle('printer:set-meta', async (event, printer) => {
-  printerMeta.set(printer.id, { ipAddress: printer.ipAddress, port: printer.port });
+  printerMeta.set(printer.id, metaFor(printer));
   return { success: true };
 });
 
@@ -477,6 +533,13 @@ function emitOneToOneEvent(printerId, payload) {
   try {
     safeSend('oneToOne:ack', { printerId, ...payload });
   } catch (_) {}
+  // Relay clients running 1-1 through this PC get the same stream over SSE.
+  relayStreamBroadcast('oneToOne', { printerId, ...payload }, (client) => client.printerId === printerId);
+  if (payload.kind === 'fault' && payload.code === 'JET_STOP' && relayOneToOneSessions.has(printerId)) {
+    // Printer already left 1-1 on JET STOP — tear down the relay session
+    // without ^ME, mirroring oneToOneController.handleFault.
+    endRelayOneToOneSession(printerId, { sendME: false, reason: 'jet-stop' });
+  }
 }
 
 function attachOneToOneDemuxer(printerId) {
@@ -606,11 +669,89 @@ ipcMain.handle('oneToOne:sendMD', async (event, { printerId, command }) => {
   }
 });
 
+// --- One-to-One over the relay ---
+// A mobile/second-PC client drives 1-1 through /relay/one-to-one/*. The
+// client-side oneToOneController paces ^MD exactly as in Electron; main only
+// needs to (a) attach the demuxer, (b) pause this PC's own polling so ^SU/^CN
+// don't interleave with the ACK stream, and (c) make sure ^ME is sent if the
+// client vanishes mid-session (otherwise the printer loses the last message).
+const RELAY_1TO1_ORPHAN_MS = 10_000;
+const relayOneToOneSessions = new Map(); // printerId → { deviceId, resumePolling, orphanTimer }
+
+function setMainPollingPaused(paused, source = 'pc') {
+  if (pollingPaused === paused) return;
+  pollingPaused = paused;
+  safeSend('polling:pause-changed', paused);
+  publishRelayEvent('pause', { paused, source });
+}
+
+function startRelayOneToOneSession(printerId, deviceId) {
+  const existing = relayOneToOneSessions.get(printerId);
+  if (existing && existing.deviceId !== deviceId) return { success: false, error: 'busy' };
+  if (!attachOneToOneDemuxer(printerId)) return { success: false, error: 'No active connection' };
+  if (!existing) {
+    relayOneToOneSessions.set(printerId, { deviceId, resumePolling: !pollingPaused, orphanTimer: null });
+    setMainPollingPaused(true, 'one-to-one');
+    logToFile(`[relay/1-1] Session started for printer ${printerId} by device ${deviceId}`);
+  }
+  return { success: true };
+}
+
+async function endRelayOneToOneSession(printerId, { sendME, reason }) {
+  const session = relayOneToOneSessions.get(printerId);
+  if (!session) return;
+  relayOneToOneSessions.delete(printerId);
+  if (session.orphanTimer) clearTimeout(session.orphanTimer);
+  if (sendME) {
+    try { await sendCommandToSocket(printerId, '^ME', { maxWaitMs: 4000 }); } catch (_) {}
+  }
+  detachOneToOneDemuxer(printerId);
+  if (session.resumePolling) setMainPollingPaused(false, 'one-to-one');
+  logToFile(`[relay/1-1] Session ended for printer ${printerId} (${reason})`);
+}
+
+// Printer id from a relay query string or JSON body. Sessions are keyed by
+// number, so the SSE route and the POST routes must agree on the type; a
+// missing or blank value is rejected rather than becoming printer 0.
+function parseRelayPrinterId(value) {
+  if (typeof value !== 'number' && typeof value !== 'string') return null;
+  if (typeof value === 'string' && value.trim() === '') return null;
+  const id = Number(value);
+  return Number.isFinite(id) ? id : null;
+}
+
+// Only the device that attached may drive or end the session. A missing
+// session is fine for detach (nothing to end).
+function ownsRelayOneToOneSession(printerId, device) {
+  const session = relayOneToOneSessions.get(printerId);
+  return !session || session.deviceId === (device?.id ?? null);
+}
+
+// Called whenever a relay event stream closes. If no stream for the session's
+// printer remains, give the client a grace period to reconnect, then exit 1-1.
+function checkRelayOneToOneOrphan(printerId) {
+  const session = relayOneToOneSessions.get(printerId);
+  if (!session || session.orphanTimer) return;
+  const stillWatched = [...relayStreams].some((c) => c.topic === 'oneToOne' && c.printerId === printerId);
+  if (stillWatched) return;
+  session.orphanTimer = setTimeout(() => {
+    session.orphanTimer = null;
+    const back = [...relayStreams].some((c) => c.topic === 'oneToOne' && c.printerId === printerId);
+    if (!back) endRelayOneToOneSession(printerId, { sendME: true, reason: 'client-gone' });
+  }, RELAY_1TO1_ORPHAN_MS);
+}
+
+function cancelRelayOneToOneOrphan(printerId) {
+  const session = relayOneToOneSessions.get(printerId);
+  if (session?.orphanTimer) { clearTimeout(session.orphanTimer); session.orphanTimer = null; }
+}
+
 // Make sure we tear down 1-1 state when the underlying socket dies,
 // otherwise the next reconnect would inherit a stale listener.
 const _origConnectionsDelete = connections.delete.bind(connections);
 connections.delete = (id) => {
   if (oneToOneState.has(id)) detachOneToOneDemuxer(id);
+  if (relayOneToOneSessions.has(id)) endRelayOneToOneSession(id, { sendME: false, reason: 'socket-closed' });
   return _origConnectionsDelete(id);
 };
 
@@ -705,9 +846,15 @@ ipcMain.handle('app:get-screen-sources', async () => {
 
 // --- Mobile Relay HTTP Server ---
 // Exposes a simple JSON API on port 8766 so mobile PWA clients on the same WiFi
-// can relay printer commands through this Electron app.
+// can relay printer commands through this Electron app. Every route except
+// /relay/info and /relay/pair requires a paired device (see relayAuth.cjs);
+// HTTPS with a self-signed certificate is optional.
+const https = require('https');
+const { RelayAuth, loadOrCreateTlsMaterial } = require('./relayAuth.cjs');
 const RELAY_PORT = 8766;
 let relayServer = null;
+let relayTls = null; // { fingerprint } while serving HTTPS
+const relayAuth = new RelayAuth({ storePath: path.join(app.getPath('userData'), 'relay-auth.json') });
 
 function getLocalIPs() {
   const interfaces = os.networkInterfaces();
@@ -722,12 +869,100 @@ function getLocalIPs() {
   return ips;
 }
 
+// Server-Sent Event streams held open by relay clients. Each entry is
+// { res, topic, printerId, deviceId, events? }. Event producers call
+// relayStreamBroadcast(topic, data, match?, event?) to fan out.
+const relayStreams = new Set();
+const RELAY_STREAM_KEEPALIVE_MS = 15_000;
+
+function relayStreamBroadcast(topic, data, match, event = topic) {
+  if (relayStreams.size === 0) return;
+  const frame = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const client of relayStreams) {
+    if (client.topic !== topic || (match && !match(client))) continue;
+    try { client.res.write(frame); } catch (_) {}
+  }
+}
+
+// Live companion feed on GET /relay/events — replaces the mobile client's
+// timers against check-status / polling-status and lets it skip its own
+// ^SU/^LE reads while this PC is already polling the same printer.
+//   availability    ping results from printer:check-status
+//   status          raw ^SU / ^LE responses seen on any socket
+//   pause           polling pause/resume (relay, 1-1 sessions, PC button)
+//   command         one entry per command sent (printerCommandLog shape)
+//   connection-lost socket to a printer dropped
+const RELAY_EVENT_TYPES = ['availability', 'status', 'pause', 'command', 'connection-lost'];
+const RELAY_LOG_RESPONSE_MAX = 200;
+
+function publishRelayEvent(event, data) {
+  relayStreamBroadcast('events', data, (client) =>
+    client.events.has(event) && (client.printerId == null || data.printerId == null || client.printerId === data.printerId),
+  event);
+}
+
+function publishCommandEvents(printerId, command, options, startedAt, result, error) {
+  if (![...relayStreams].some((c) => c.topic === 'events')) return;
+  const response = result?.response;
+  publishRelayEvent('command', {
+    printerId,
+    command,
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    ok: !!result?.success && !error,
+    response: response && response.length > RELAY_LOG_RESPONSE_MAX ? response.slice(0, RELAY_LOG_RESPONSE_MAX) + '…' : response,
+    error: error ? String(error.message || error) : result?.error,
+    caller: options?.caller,
+    via: options?.via || 'pc',
+    deviceId: options?.deviceId ?? null,
+  });
+  const op = /^\^(SU|LE)\b/i.exec(String(command).trim());
+  if (op && result?.success && typeof response === 'string') {
+    publishRelayEvent('status', {
+      printerId,
+      command: `^${op[1].toUpperCase()}`,
+      response,
+      at: Date.now(),
+      via: options?.via || 'pc',
+      deviceId: options?.deviceId ?? null,
+    });
+  }
+}
+
+function openRelayStream(req, res, client) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(`retry: 2000\n\n`);
+  const entry = { res, ...client };
+  relayStreams.add(entry);
+  const keepalive = setInterval(() => { try { res.write(': ka\n\n'); } catch (_) {} }, RELAY_STREAM_KEEPALIVE_MS);
+  req.on('close', () => {
+    clearInterval(keepalive);
+    relayStreams.delete(entry);
+    if (entry.topic === 'oneToOne') checkRelayOneToOneOrphan(entry.printerId);
+  });
+  return entry;
+}
+
+function relayInfo() {
+  return {
+    port: RELAY_PORT,
+    ips: getLocalIPs(),
+    requireAuth: relayAuth.getSettings().requireAuth,
+    tls: !!relayTls,
+    fingerprint: relayTls?.fingerprint ?? null,
+  };
+}
+
 function startRelayServer() {
-  relayServer = http.createServer(async (req, res) => {
+  const handler = async (req, res) => {
     // CORS headers for mobile PWA
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Relay-Device, X-Relay-Ts, X-Relay-Sig');
 
     if (req.method === 'OPTIONS') {
       res.writeHead(204);
@@ -738,7 +973,48 @@ function startRelayServer() {
     // Health / info endpoint
     if (req.method === 'GET' && req.url === '/relay/info') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ relay: true, version: app.getVersion(), ips: getLocalIPs() }));
+      const info = relayInfo();
+      res.end(JSON.stringify({ relay: true, version: app.getVersion(), ips: info.ips, requireAuth: info.requireAuth, tls: info.tls }));
+      return;
+    }
+
+    // Event streams — authenticated GETs (body is empty for signing).
+    if (req.method === 'GET' && req.url.startsWith('/relay/one-to-one/events')) {
+      const auth = relayAuth.verify(req.headers, req.method, req.url, '');
+      if (!auth.ok) {
+        res.writeHead(auth.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: auth.error }));
+        return;
+      }
+      const printerId = parseRelayPrinterId(new URL(req.url, 'http://relay').searchParams.get('printerId'));
+      if (printerId === null) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'printerId required' }));
+        return;
+      }
+      openRelayStream(req, res, { topic: 'oneToOne', printerId, deviceId: auth.device?.id ?? null });
+      cancelRelayOneToOneOrphan(printerId);
+      return;
+    }
+
+    if (req.method === 'GET' && req.url.startsWith('/relay/events')) {
+      const auth = relayAuth.verify(req.headers, req.method, req.url, '');
+      if (!auth.ok) {
+        res.writeHead(auth.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: auth.error }));
+        return;
+      }
+      const params = new URL(req.url, 'http://relay').searchParams;
+      const wanted = (params.get('events') || '').split(',').filter((e) => RELAY_EVENT_TYPES.includes(e));
+      const printerParam = params.get('printerId');
+      const client = openRelayStream(req, res, {
+        topic: 'events',
+        events: new Set(wanted.length ? wanted : RELAY_EVENT_TYPES),
+        printerId: printerParam != null && printerParam !== '' ? Number(printerParam) : null,
+        deviceId: auth.device?.id ?? null,
+      });
+      // Snapshot so a (re)connecting client doesn't wait for the next change.
+      res.write(`event: hello\ndata: ${JSON.stringify({ paused: pollingPaused, connected: [...connections.keys()], events: [...client.events] })}\n\n`);
       return;
     }
 
@@ -763,6 +1039,28 @@ function startRelayServer() {
       res.writeHead(status, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify(data));
     };
+    const remote = req.socket.remoteAddress || 'unknown';
+
+    // Pairing is the only unauthenticated POST — it exchanges the one-time
+    // code shown on this PC for device credentials.
+    if (req.url === '/relay/pair') {
+      const result = relayAuth.completePairing(payload.code, payload.deviceName, remote);
+      if (!result.ok) {
+        logToFile(`[relay] Pairing rejected from ${remote}: ${result.error}`);
+        sendJson(result.status, { error: result.error });
+        return;
+      }
+      logToFile(`[relay] Paired device ${result.deviceId} (${payload.deviceName || 'unnamed'}) from ${remote}`);
+      safeSend('relay:devices-changed', relayAuth.listDevices());
+      sendJson(200, { deviceId: result.deviceId, secret: result.secret, tls: !!relayTls });
+      return;
+    }
+
+    const auth = relayAuth.verify(req.headers, req.method, req.url, body);
+    if (!auth.ok) {
+      sendJson(auth.status, { error: auth.error });
+      return;
+    }
 
     try {
       const url = req.url;
@@ -782,9 +1080,10 @@ function startRelayServer() {
           });
         };
         const results = await Promise.all(printers.map(async (p) => {
-          const ping = await pingHost(p.ipAddress, 2500);
+          const ping = p.serialPath ? { ok: await isSerialPathPresent(p.serialPath) } : await pingHost(p.ipAddress, 2500);
           return { id: p.id, isAvailable: ping.ok, status: ping.ok ? 'ready' : 'offline' };
         }));
+        publishRelayEvent('availability', { printers: results });
         sendJson(200, { printers: results });
 
       } else if (url === '/relay/quick-status') {
@@ -807,25 +1106,73 @@ function startRelayServer() {
 
       } else if (url === '/relay/send-command') {
         const { printerId, command, options } = payload;
+        if (!relayAuth.isCommandAllowed(auth.device, command)) {
+          logToFile(`[relay] Blocked mutating command "${String(command).slice(0, 32)}" from device ${auth.device?.id}`);
+          sendJson(403, { success: false, error: 'command-not-allowed' });
+          return;
+        }
         // Reuse the existing send-command logic by invoking it programmatically
         try {
-          const result = await sendCommandToSocket(printerId, command, options);
+          const result = await sendCommandToSocket(printerId, command, { ...options, via: 'relay', deviceId: auth.device?.id ?? null });
           sendJson(200, result);
         } catch (err) {
           sendJson(200, { success: false, error: err.message || 'Command failed' });
         }
 
+      } else if (url.startsWith('/relay/one-to-one/') && parseRelayPrinterId(payload.printerId) === null) {
+        sendJson(400, { success: false, error: 'printerId required' });
+
+      } else if (url === '/relay/one-to-one/attach') {
+        // ^MB itself goes through send-command (allowlist applies there);
+        // attaching is gated on the same permission.
+        if (!relayAuth.isCommandAllowed(auth.device, '^MB')) {
+          sendJson(403, { success: false, error: 'command-not-allowed' });
+          return;
+        }
+        sendJson(200, startRelayOneToOneSession(parseRelayPrinterId(payload.printerId), auth.device?.id ?? null));
+
+      } else if (url === '/relay/one-to-one/detach') {
+        const printerId = parseRelayPrinterId(payload.printerId);
+        if (!ownsRelayOneToOneSession(printerId, auth.device)) {
+          sendJson(403, { success: false, error: 'not-session-owner' });
+          return;
+        }
+        await endRelayOneToOneSession(printerId, { sendME: false, reason: 'detach' });
+        sendJson(200, { success: true });
+
+      } else if (url === '/relay/one-to-one/send-md') {
+        const printerId = parseRelayPrinterId(payload.printerId);
+        const { command } = payload;
+        if (!relayAuth.isCommandAllowed(auth.device, command)) {
+          sendJson(403, { success: false, error: 'command-not-allowed' });
+          return;
+        }
+        if (!relayOneToOneSessions.has(printerId)) {
+          sendJson(409, { success: false, error: 'not-attached' });
+          return;
+        }
+        if (!ownsRelayOneToOneSession(printerId, auth.device)) {
+          sendJson(403, { success: false, error: 'not-session-owner' });
+          return;
+        }
+        // Same fire-and-forget write as the oneToOne:sendMD IPC.
+        const socket = connections.get(printerId);
+        if (!socket || socket.destroyed || !socket.writable) {
+          sendJson(200, { success: false, error: 'No active connection' });
+          return;
+        }
+        socket.write(String(command) + '\r\n');
+        sendJson(200, { success: true });
+
       } else if (url === '/relay/pause-polling') {
-        pollingPaused = true;
         logToFile('[relay] Polling PAUSED by mobile companion');
-        // Notify renderer to pause polling
-        safeSend('polling:pause-changed', true);
+        // Notifies the renderer and any relay event streams
+        setMainPollingPaused(true, 'relay');
         sendJson(200, { success: true, paused: true });
 
       } else if (url === '/relay/resume-polling') {
-        pollingPaused = false;
         logToFile('[relay] Polling RESUMED by mobile companion');
-        safeSend('polling:pause-changed', false);
+        setMainPollingPaused(false, 'relay');
         sendJson(200, { success: true, paused: false });
 
       } else if (url === '/relay/polling-status') {
@@ -837,14 +1184,27 @@ function startRelayServer() {
     } catch (err) {
       sendJson(500, { error: err.message || 'Internal error' });
     }
-  });
+  };
+
+  relayServer = null;
+  relayTls = null;
+  if (relayAuth.getSettings().tls) {
+    const material = loadOrCreateTlsMaterial(path.join(app.getPath('userData'), 'relay-tls.json'), getLocalIPs());
+    if (material) {
+      relayTls = { fingerprint: material.fingerprint };
+      relayServer = https.createServer({ key: material.key, cert: material.cert }, handler);
+    } else {
+      logToFile('[relay] TLS requested but selfsigned is unavailable — falling back to HTTP');
+    }
+  }
+  if (!relayServer) relayServer = http.createServer(handler);
 
   relayServer.listen(RELAY_PORT, '0.0.0.0', () => {
-    const ips = getLocalIPs();
-    logToFile(`[relay] Server listening on port ${RELAY_PORT}`);
-    logToFile(`[relay] Local IPs: ${ips.join(', ')}`);
+    const info = relayInfo();
+    logToFile(`[relay] Server listening on port ${RELAY_PORT} (${info.tls ? 'https' : 'http'}, auth ${info.requireAuth ? 'required' : 'off'})`);
+    logToFile(`[relay] Local IPs: ${info.ips.join(', ')}`);
     // Notify renderer of relay info
-    safeSend('relay:info', { port: RELAY_PORT, ips });
+    safeSend('relay:info', info);
   });
 
   relayServer.on('error', (err) => {
@@ -865,6 +1225,11 @@ async function sendCommandToSocket(printerId, command, options = {}) {
     () => _sendCommandToSocketImpl(printerId, command, options), // continue even if prev failed
   );
   commandQueues.set(printerId, current.catch(() => {})); // swallow so chain never rejects
+  const startedAt = Date.now();
+  current.then(
+    (result) => publishCommandEvents(printerId, command, options, startedAt, result, null),
+    (err) => publishCommandEvents(printerId, command, options, startedAt, null, err),
+  );
   return current;
 }
 
@@ -1011,124 +1376,242 @@ async function _sendCommandToSocketImpl(printerId, command, options = {}) {
   });
 }
 
+// --- Serial ports ---
+ipcMain.handle('serial:list-ports', () => listSerialPorts());
+// Renderer emulator's pseudo-serial endpoints (src/lib/serialEmulatorBridge.ts)
+ipcMain.on('serial:emu-register', (_e, entries) => setSerialEmulatorPaths(entries));
+ipcMain.on('serial:emu-data', (_e, { path: serialPath, data }) => deliverSerialEmulatorData(serialPath, data));
+
 // IPC handler for relay info
-ipcMain.handle('relay:get-info', () => {
-  return { port: RELAY_PORT, ips: getLocalIPs() };
+ipcMain.handle('relay:get-info', () => relayInfo());
+
+// The PC's own pause button (and 1-1 in Electron) pause the renderer locally;
+// mirror that here so relay clients see it on their event stream.
+ipcMain.handle('polling:set-paused', (_e, paused) => {
+  setMainPollingPaused(!!paused, 'pc');
+  return { paused: pollingPaused };
 });
 
-// ── Hotfolder watcher ──
-let hotfolderInterval = null;
-let hotfolderProcessed = new Set(); // Track already-imported files
+function restartRelayServer() {
+  if (!relayServer) return startRelayServer();
+  const old = relayServer;
+  relayServer = null;
+  old.close(() => startRelayServer());
+  // close() waits for keep-alive sockets; don't let a phone hold the port.
+  if (typeof old.closeAllConnections === 'function') old.closeAllConnections();
+}
 
-function startHotfolderWatcher(config) {
-  stopHotfolderWatcher();
-  if (!config || !config.enabled || !config.path) return;
+ipcMain.handle('relay:get-auth', () => ({
+  ...relayAuth.getSettings(),
+  devices: relayAuth.listDevices(),
+  pairing: relayAuth.getPendingCode(),
+}));
+ipcMain.handle('relay:create-pairing-code', () => relayAuth.createPairingCode());
+ipcMain.handle('relay:revoke-device', (_e, deviceId) => {
+  const ok = relayAuth.revokeDevice(deviceId);
+  if (ok) logToFile(`[relay] Revoked device ${deviceId}`);
+  return { success: ok, devices: relayAuth.listDevices() };
+});
+ipcMain.handle('relay:set-device-allowlist', (_e, { deviceId, commands }) => {
+  const ok = relayAuth.setAllowedCommands(deviceId, commands);
+  return { success: ok, devices: relayAuth.listDevices() };
+});
+ipcMain.handle('relay:set-settings', (_e, patch) => {
+  const prevTls = relayAuth.getSettings().tls;
+  const settings = relayAuth.setSettings(patch || {});
+  if (settings.tls !== prevTls) restartRelayServer();
+  else safeSend('relay:info', relayInfo());
+  return settings;
+});
 
-  const watchDir = config.path;
-  const pollMs = (config.pollingSeconds || 5) * 1000;
+// ── Hotfolder watcher (see hotfolderWatcher.cjs) ──
+// Parsed files go to the renderer on `hotfolder:new-file`; its `hotfolder:ack`
+// decides whether the file is archived to processed/ or error/.
+const { HotfolderWatcher } = require('./hotfolderWatcher.cjs');
+const hotfolderWatcher = new HotfolderWatcher({
+  statePath: path.join(app.getPath('userData'), 'hotfolder-state.json'),
+});
+hotfolderWatcher.on('file', (file) => {
+  logToFile(`[hotfolder] ${file.fileName}: ${file.rows.length} row(s) as ${file.format.toUpperCase()}`);
+  safeSend('hotfolder:new-file', { source: 'hotfolder', ...file });
+});
+let lastHotfolderError = null;
+hotfolderWatcher.on('status', (status) => {
+  const err = status.folderError || status.lastError;
+  if (err && err !== lastHotfolderError) logToFile(`[hotfolder] ${err}`);
+  lastHotfolderError = err;
+  safeSend('hotfolder:status', status);
+});
 
-  logToFile(`[hotfolder] Starting watcher on "${watchDir}" every ${pollMs}ms`);
+ipcMain.handle('hotfolder:configure', async (_e, config) => hotfolderWatcher.configure(config || {}));
+ipcMain.handle('hotfolder:get-config', () => hotfolderWatcher.getConfig());
+ipcMain.handle('hotfolder:get-status', () => hotfolderWatcher.getStatus());
+ipcMain.handle('hotfolder:clear-processed', () => { hotfolderWatcher.clearProcessed(); return { success: true }; });
+ipcMain.handle('hotfolder:ack', (_e, { batchId, imported, error }) => hotfolderWatcher.acknowledge(batchId, { imported, error }));
+
+// ── Database integration poller (see dbPoller.cjs) ──
+// New rows go out on the hotfolder channel with `source: 'database'`; the
+// renderer imports them and answers on `db:ack` with how many rows it stored.
+const { DbPoller } = require('./dbPoller.cjs');
+// Encrypts stored passwords (database, SMTP) with the OS keychain when available.
+const protectSecret = {
+  encrypt: (s) => (safeStorage.isEncryptionAvailable()
+    ? safeStorage.encryptString(s).toString('base64')
+    : Buffer.from(s, 'utf8').toString('base64')),
+  decrypt: (s) => (safeStorage.isEncryptionAvailable()
+    ? safeStorage.decryptString(Buffer.from(s, 'base64'))
+    : Buffer.from(s, 'base64').toString('utf8')),
+};
+const dbPoller = new DbPoller({
+  statePath: path.join(app.getPath('userData'), 'db-integration.json'),
+  protect: protectSecret,
+});
+dbPoller.on('batch', (batch) => {
+  logToFile(`[db] ${batch.rows.length} new row(s) from ${batch.table} (batch ${batch.batchId})`);
+  safeSend('hotfolder:new-file', {
+    fileName: batch.table,
+    source: 'database',
+    mode: 'append',
+    ...batch,
+  });
+});
+let lastDbError = null;
+dbPoller.on('status', (status) => {
+  if (status.lastError && status.lastError !== lastDbError) logToFile(`[db] ${status.lastError}`);
+  lastDbError = status.lastError;
+  safeSend('db:status', status);
+});
 
-  // Initial scan: mark existing files as already processed
+ipcMain.handle('db:get-config', () => dbPoller.getConfig());
+ipcMain.handle('db:get-status', () => dbPoller.getStatus());
+ipcMain.handle('db:configure', (_e, config) => dbPoller.configure(config));
+ipcMain.handle('db:test-connection', (_e, config) => dbPoller.testConnection(config));
+ipcMain.handle('db:poll-now', async () => ({ rows: await dbPoller.pollOnce() }));
+ipcMain.handle('db:set-watermark', (_e, value) => { dbPoller.setWatermark(value); return dbPoller.getStatus(); });
+ipcMain.handle('db:ack', (_e, { batchId, imported, error }) => dbPoller.acknowledge(batchId, { imported, error }));
+
+// ── Scheduled report delivery (see reportScheduler.cjs) ──
+// Main keeps the clock and the history; the renderer renders the template
+// on `reports:render-request` and answers on `reports:deliver`.
+const { ReportScheduler } = require('./reportScheduler.cjs');
+const reportScheduler = new ReportScheduler({
+  statePath: path.join(app.getPath('userData'), 'report-schedules.json'),
+});
+reportScheduler.on('render', (request) => {
+  logToFile(`[reports] rendering "${request.title}" (${request.requestId})`);
+  safeSend('reports:render-request', request);
+});
+reportScheduler.on('history', (entry) => {
+  logToFile(`[reports] "${entry.scheduleName}" ${entry.status}${entry.error ? `: ${entry.error}` : ''}`);
+  safeSend('reports:history', entry);
+});
+reportScheduler.on('schedules', (schedules) => safeSend('reports:schedules', schedules));
+
+ipcMain.handle('reports:get-schedules', () => reportScheduler.getSchedules());
+ipcMain.handle('reports:save-schedule', (_e, schedule) => reportScheduler.saveSchedule(schedule));
+ipcMain.handle('reports:delete-schedule', (_e, id) => reportScheduler.deleteSchedule(id));
+ipcMain.handle('reports:get-history', () => reportScheduler.getHistory());
+ipcMain.handle('reports:run-now', (_e, id) => reportScheduler.runNow(id));
+ipcMain.handle('reports:deliver', (_e, { requestId, ...result }) => reportScheduler.deliver(requestId, result));
+
+// ── Fault notification routing (see faultNotifier.cjs) ──
+// The renderer reports each printer's ^LE list; main owns the rules, the
+// delay / escalation clock and the outgoing email, webhook and SMS traffic.
+const { FaultNotifier } = require('./faultNotifier.cjs');
+const faultNotifier = new FaultNotifier({
+  statePath: path.join(app.getPath('userData'), 'fault-notifications.json'),
+  protect: protectSecret,
+});
+faultNotifier.on('sent', (incident, stage) => {
+  const failed = incident.sends.filter((s) => s.stage === stage && !s.ok);
+  logToFile(`[faults] ${stage} for ${incident.code} on ${incident.printerName}${failed.length ? ` — ${failed.length} failed: ${failed.map((s) => `${s.channel} ${s.detail}`).join('; ')}` : ''}`);
+});
+faultNotifier.on('incidents', (incidents) => safeSend('faults:incidents', incidents));
+
+ipcMain.handle('faults:get-config', () => faultNotifier.getConfig());
+ipcMain.handle('faults:save-config', (_e, config) => faultNotifier.saveConfig(config));
+ipcMain.handle('faults:get-incidents', () => faultNotifier.getIncidents());
+ipcMain.handle('faults:report', (_e, { printer, faults }) => faultNotifier.report(printer, faults));
+ipcMain.handle('faults:acknowledge', (_e, { id, by }) => faultNotifier.acknowledge(id, by));
+ipcMain.handle('faults:acknowledge-fault', (_e, { printerId, code, by }) => faultNotifier.acknowledgeFault(printerId, code, by));
+ipcMain.handle('faults:test', (_e, { contactId, channel }) => faultNotifier.test(contactId, channel));
+
+// ── Renderer persistence (see persistentStore.cjs) ──
+// Messages, printers, catalogs and histories live in a SQLite file instead of
+// localStorage. The renderer loads everything once at boot and writes back in
+// batches; the synchronous write is only used while the window unloads.
+const { PersistentStore } = require('./persistentStore.cjs');
+const persistentStore = new PersistentStore({
+  filePath: path.join(app.getPath('userData'), 'codesync-data.sqlite'),
+});
+
+ipcMain.handle('storage:load-all', () => persistentStore.loadAll());
+ipcMain.handle('storage:write', (_e, changes) => persistentStore.write(changes));
+ipcMain.on('storage:write-sync', (e, changes) => {
   try {
-    const existing = fs.readdirSync(watchDir).filter(f => /\.(csv|txt)$/i.test(f));
-    existing.forEach(f => hotfolderProcessed.add(f));
-    logToFile(`[hotfolder] Found ${existing.length} existing files (skipped)`);
+    e.returnValue = persistentStore.write(changes);
   } catch (err) {
-    logToFile(`[hotfolder] Cannot read directory: ${err.message}`);
+    logToFile(`[storage] sync write failed: ${err.message}`);
+    e.returnValue = false;
   }
-
-  hotfolderInterval = setInterval(() => {
-    try {
-      const files = fs.readdirSync(watchDir).filter(f => /\.(csv|txt)$/i.test(f));
-      for (const fileName of files) {
-        if (hotfolderProcessed.has(fileName)) continue;
-        hotfolderProcessed.add(fileName);
-
-        const filePath = path.join(watchDir, fileName);
-        logToFile(`[hotfolder] New file detected: ${fileName}`);
-
-        try {
-          const csvText = fs.readFileSync(filePath, 'utf8');
-          // Notify renderer to import this CSV
-          safeSend('hotfolder:new-file', {
-            fileName,
-            csvText,
-          });
-        } catch (readErr) {
-          logToFile(`[hotfolder] Failed to read ${fileName}: ${readErr.message}`);
-        }
-      }
-    } catch (err) {
-      // Directory might have been removed
-      logToFile(`[hotfolder] Watch error: ${err.message}`);
-    }
-  }, pollMs);
-}
-
-function stopHotfolderWatcher() {
-  if (hotfolderInterval) {
-    clearInterval(hotfolderInterval);
-    hotfolderInterval = null;
-    hotfolderProcessed.clear();
-    logToFile('[hotfolder] Watcher stopped');
-  }
-}
-
-ipcMain.handle('hotfolder:configure', async (event, config) => {
-  if (config.enabled) {
-    startHotfolderWatcher(config);
-  } else {
-    stopHotfolderWatcher();
-  }
-  return { success: true };
 });
 
-// ── Track-n-Trace TCP endpoint (Phase 1 — see TnT_Protocol_Compatibility_and_SOW §4) ──
-const { TntServer, OPCODES: TNT_OPCODES } = require('./tntServer.cjs');
-let tntServer = null;
+// ── Track-n-Trace TCP endpoints (see TnT_Protocol_Compatibility_and_SOW §4) ──
+// Line registry: one TntServer per twin line (see tntLines.cjs).
+const { TntServer } = require('./tntServer.cjs');
+const { TntLineRegistry, normalizeTntLines } = require('./tntLines.cjs');
 const tntConfigPath = path.join(app.getPath('userData'), 'tnt-config.json');
+const tntLines = new TntLineRegistry({
+  createServer: (line) => {
+    const server = new TntServer({ port: line.port, logDir: app.getPath('userData'), lineId: line.id, name: line.name });
+    server.on('frame', (entry) => { safeSend('tnt:frame', entry); });
+    server.on('state', (state) => { safeSend('tnt:state', state); });
+    server.start();
+    return server;
+  },
+  log: logToFile,
+});
+
 function readTntConfig() {
-  try { return JSON.parse(fs.readFileSync(tntConfigPath, 'utf8')); }
-  catch { return { enabled: false, port: 8101 }; }
+  try { return normalizeTntLines(JSON.parse(fs.readFileSync(tntConfigPath, 'utf8'))); }
+  catch { return normalizeTntLines(null); }
 }
 function writeTntConfig(cfg) {
   try { fs.writeFileSync(tntConfigPath, JSON.stringify(cfg, null, 2)); } catch (_) {}
 }
-function startTntServer(cfg) {
-  stopTntServer();
-  tntServer = new TntServer({ port: cfg.port || 8101, logDir: app.getPath('userData') });
-  tntServer.on('frame', (entry) => { safeSend('tnt:frame', entry); });
-  tntServer.on('state', (state) => { safeSend('tnt:state', state); });
-  tntServer.start();
-  logToFile(`[tnt] server starting on port ${cfg.port || 8101}`);
-}
-function stopTntServer() {
-  if (tntServer) { try { tntServer.stop(); } catch (_) {} tntServer = null; }
-}
-ipcMain.handle('tnt:get-state', () => tntServer ? tntServer.getState() : { listening: false, connected: false, port: 8101, framesIn: 0, framesOut: 0, recent: [] });
+ipcMain.handle('tnt:get-states', () => tntLines.states(readTntConfig()));
 ipcMain.handle('tnt:get-config', () => readTntConfig());
 ipcMain.handle('tnt:set-config', (_e, cfg) => {
-  const next = { enabled: !!cfg.enabled, port: Number(cfg.port) || 8101 };
+  const next = normalizeTntLines(cfg);
   writeTntConfig(next);
-  if (next.enabled) startTntServer(next); else stopTntServer();
+  tntLines.apply(next);
   return { success: true, config: next };
 });
-ipcMain.handle('tnt:send', (_e, { opcode, payload }) => {
-  if (!tntServer) return { success: false, error: 'not_running' };
-  const ok = tntServer.send(opcode, payload);
+ipcMain.handle('tnt:send', (_e, { lineId, opcode, payload }) => {
+  const server = tntLines.get(lineId);
+  if (!server) return { success: false, error: 'not_running' };
+  const ok = server.send(opcode, payload);
   return { success: ok };
 });
 
 app.whenReady().then(() => {
   createWindow();
   startRelayServer();
-  const tntCfg = readTntConfig();
-  if (tntCfg.enabled) startTntServer(tntCfg);
+  tntLines.apply(readTntConfig());
+  hotfolderWatcher.start();
+  dbPoller.start();
+  reportScheduler.start();
+  faultNotifier.start();
 });
 
 app.on('before-quit', () => {
   isQuitting = true;
+  hotfolderWatcher.stop();
+  dbPoller.stop();
+  reportScheduler.stop();
+  faultNotifier.stop();
+  persistentStore.close();
+  tntLines.stopAll();
   connections.forEach((socket) => { try { socket.removeAllListeners(); socket.destroy(); } catch (_) {} });
   connections.clear();
 });
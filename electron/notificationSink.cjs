@@ -0,0 +1,115 @@
+/**
+ * Local HTTP + SMTP sink for trying out fault notifications without a real
+ * mail server, webhook receiver or SMS gateway. Everything it receives is
+ * kept in memory (and printed when run from the command line):
+ *
+ *   node electron/notificationSink.cjs [httpPort=8025] [smtpPort=2525]
+ *
+ * Point contacts' webhook URLs and the SMS gateway at http://127.0.0.1:8025/…
+ * and the SMTP server at 127.0.0.1:2525 (no TLS, any credentials).
+ */
+
+const http = require('http');
+const net = require('net');
+
+function startHttp(port, requests, log) {
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', (c) => chunks.push(c));
+    req.on('end', () => {
+      const entry = { method: req.method, url: req.url, headers: req.headers, body: Buffer.concat(chunks).toString('utf8') };
+      requests.push(entry);
+      log(`HTTP ${entry.method} ${entry.url} ${entry.body}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{"ok":true}');
+    });
+  });
+  return new Promise((resolve) => server.listen(port, '127.0.0.1', () => resolve(server)));
+}
+
+function startSmtp(port, mails, log) {
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let mail = null;
+    let data = null;
+    const reply = (line) => socket.write(`${line}\r\n`);
+    reply('220 codesync-sink ESMTP');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let i;
+      while ((i = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, i);
+        buffer = buffer.slice(i + 2);
+        if (data !== null) {
+          if (line === '.') {
+            mails.push({ ...mail, data: data.join('\r\n') });
+            log(`SMTP ${mail.from} → ${mail.to.join(', ')}`);
+            data = null;
+            mail = null;
+            reply('250 Queued');
+          } else {
+            data.push(line.startsWith('..') ? line.slice(1) : line);
+          }
+          continue;
+        }
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO' || verb === 'HELO') {
+          socket.write('250-codesync-sink\r\n250 AUTH LOGIN\r\n');
+        } else if (verb === 'AUTH') {
+          reply('334 VXNlcm5hbWU6');
+          mail = { ...mail, authStep: 1 };
+        } else if (mail?.authStep === 1) {
+          reply('334 UGFzc3dvcmQ6');
+          mail = { user: Buffer.from(line, 'base64').toString('utf8'), authStep: 2 };
+        } else if (mail?.authStep === 2) {
+          reply('235 Authenticated');
+          mail = { user: mail.user };
+        } else if (verb === 'MAIL') {
+          mail = { user: mail?.user, from: (line.match(/<([^>]*)>/) || [])[1] || '', to: [] };
+          reply('250 OK');
+        } else if (verb === 'RCPT') {
+          mail?.to.push((line.match(/<([^>]*)>/) || [])[1] || '');
+          reply('250 OK');
+        } else if (verb === 'DATA') {
+          data = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (verb === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+    socket.on('error', () => {});
+  });
+  return new Promise((resolve) => server.listen(port, '127.0.0.1', () => resolve(server)));
+}
+
+/** Start both sinks; port 0 picks a free port. */
+async function startNotificationSink({ httpPort = 0, smtpPort = 0, log = () => {} } = {}) {
+  const requests = [];
+  const mails = [];
+  const web = await startHttp(httpPort, requests, log);
+  const smtp = await startSmtp(smtpPort, mails, log);
+  return {
+    httpUrl: `http://127.0.0.1:${web.address().port}`,
+    smtpPort: smtp.address().port,
+    requests,
+    mails,
+    close: () => Promise.all([
+      new Promise((resolve) => web.close(resolve)),
+      new Promise((resolve) => smtp.close(resolve)),
+    ]),
+  };
+}
+
+if (require.main === module) {
+  const [httpPort = 8025, smtpPort = 2525] = process.argv.slice(2).map(Number);
+  startNotificationSink({ httpPort, smtpPort, log: (line) => console.log(`[sink] ${line}`) }).then((sink) => {
+    console.log(`[sink] HTTP ${sink.httpUrl}  SMTP 127.0.0.1:${sink.smtpPort}`);
+  });
+}
+
+module.exports = { startNotificationSink };
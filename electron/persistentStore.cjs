@@ -0,0 +1,124 @@
+/**
+ * Renderer persistence on disk — the Electron backend of src/lib/persistence.ts.
+ *
+ * A single key/value table in a SQLite file under userData, so messages,
+ * printers, catalogs and histories are no longer bound by the renderer's
+ * ~5 MB localStorage quota. The table schema is versioned with
+ * PRAGMA user_version; data migrations (importing the old localStorage keys,
+ * folding legacy formats) run in the renderer, which owns the key layout.
+ *
+ * better-sqlite3 is an optional dependency (see dbPoller.cjs). When it isn't
+ * installed or wasn't rebuilt for this Electron, the same entries are kept in
+ * a JSON file next to where the database would be, written atomically.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+let BetterSqlite3 = null;
+try { BetterSqlite3 = require('better-sqlite3'); } catch (_) { /* optional */ }
+
+/** Table migrations, applied in order; index + 1 is the schema version. */
+const SCHEMA_MIGRATIONS = [
+  'CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at INTEGER NOT NULL)',
+];
+
+function normalizeChanges(changes) {
+  const set = changes && typeof changes.set === 'object' && changes.set ? changes.set : {};
+  const remove = Array.isArray(changes?.remove) ? changes.remove : [];
+  const clean = {};
+  for (const [key, value] of Object.entries(set)) {
+    if (typeof key === 'string' && key && typeof value === 'string') clean[key] = value;
+  }
+  return { set: clean, remove: remove.filter((k) => typeof k === 'string' && k) };
+}
+
+class PersistentStore {
+  /**
+   * @param {{ filePath: string, driver?: any, now?: () => number }} opts
+   *   filePath — the .sqlite file; the JSON fallback uses the same name with .json
+   */
+  constructor({ filePath, driver, now = () => Date.now() }) {
+    this.filePath = filePath;
+    this.jsonPath = filePath.replace(/\.sqlite$/, '') + '.json';
+    this.driver = driver === undefined ? BetterSqlite3 : driver;
+    this.now = now;
+    this.db = null;
+    this.json = null;
+    this.backend = null;
+  }
+
+  open() {
+    if (this.backend) return this.backend;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (this.driver) {
+      try {
+        const db = new this.driver(this.filePath);
+        db.pragma('journal_mode = WAL');
+        const version = db.pragma('user_version', { simple: true });
+        db.transaction(() => {
+          for (let v = version; v < SCHEMA_MIGRATIONS.length; v++) db.exec(SCHEMA_MIGRATIONS[v]);
+          db.pragma(`user_version = ${SCHEMA_MIGRATIONS.length}`);
+        })();
+        this.db = db;
+        this.backend = 'sqlite';
+        return this.backend;
+      } catch (err) {
+        console.error('[persistentStore] SQLite unavailable, using JSON file:', err.message);
+      }
+    }
+    try {
+      this.json = JSON.parse(fs.readFileSync(this.jsonPath, 'utf8'));
+    } catch (_) {
+      this.json = {};
+    }
+    this.backend = 'json';
+    return this.backend;
+  }
+
+  /** Every entry, plus which backend holds them. */
+  loadAll() {
+    this.open();
+    if (this.db) {
+      const entries = {};
+      for (const row of this.db.prepare('SELECT key, value FROM kv').all()) entries[row.key] = row.value;
+      return { backend: this.backend, entries };
+    }
+    return { backend: this.backend, entries: { ...this.json } };
+  }
+
+  /** Apply a batch of `{ set: { key: value }, remove: [key] }` atomically. */
+  write(changes) {
+    this.open();
+    const { set, remove } = normalizeChanges(changes);
+    if (this.db) {
+      const upsert = this.db.prepare(
+        'INSERT INTO kv (key, value, updated_at) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at',
+      );
+      const del = this.db.prepare('DELETE FROM kv WHERE key = ?');
+      const at = this.now();
+      this.db.transaction(() => {
+        for (const [key, value] of Object.entries(set)) upsert.run(key, value, at);
+        for (const key of remove) del.run(key);
+      })();
+      return true;
+    }
+    for (const [key, value] of Object.entries(set)) this.json[key] = value;
+    for (const key of remove) delete this.json[key];
+    const tmp = `${this.jsonPath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.json));
+    fs.renameSync(tmp, this.jsonPath);
+    return true;
+  }
+
+  close() {
+    if (this.db) {
+      try { this.db.close(); } catch (_) { /* already closed */ }
+    }
+    this.db = null;
+    this.json = null;
+    this.backend = null;
+  }
+}
+
+module.exports = { PersistentStore, SCHEMA_MIGRATIONS };
@@ -30,17 +30,107 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Hotfolder operations
   hotfolder: {
     configure: (config) => ipcRenderer.invoke('hotfolder:configure', config),
+    getConfig: () => ipcRenderer.invoke('hotfolder:get-config'),
+    getStatus: () => ipcRenderer.invoke('hotfolder:get-status'),
+    clearProcessed: () => ipcRenderer.invoke('hotfolder:clear-processed'),
+    ack: (batchId, result) => ipcRenderer.invoke('hotfolder:ack', { batchId, ...result }),
+    onStatus: (callback) => {
+      const handler = (_e, status) => callback(status);
+      ipcRenderer.on('hotfolder:status', handler);
+      return () => ipcRenderer.removeListener('hotfolder:status', handler);
+    },
+  },
+
+  // Database integration poller — rows arrive on the hotfolder channel
+  db: {
+    getConfig: () => ipcRenderer.invoke('db:get-config'),
+    getStatus: () => ipcRenderer.invoke('db:get-status'),
+    configure: (config) => ipcRenderer.invoke('db:configure', config),
+    testConnection: (config) => ipcRenderer.invoke('db:test-connection', config),
+    pollNow: () => ipcRenderer.invoke('db:poll-now'),
+    setWatermark: (value) => ipcRenderer.invoke('db:set-watermark', value),
+    ack: (batchId, result) => ipcRenderer.invoke('db:ack', { batchId, ...result }),
+    onStatus: (callback) => {
+      const handler = (_e, status) => callback(status);
+      ipcRenderer.on('db:status', handler);
+      return () => ipcRenderer.removeListener('db:status', handler);
+    },
+  },
+  // Scheduled report delivery — main asks, the renderer renders
+  reports: {
+    getSchedules: () => ipcRenderer.invoke('reports:get-schedules'),
+    saveSchedule: (schedule) => ipcRenderer.invoke('reports:save-schedule', schedule),
+    deleteSchedule: (id) => ipcRenderer.invoke('reports:delete-schedule', id),
+    getHistory: () => ipcRenderer.invoke('reports:get-history'),
+    runNow: (id) => ipcRenderer.invoke('reports:run-now', id),
+    deliver: (requestId, result) => ipcRenderer.invoke('reports:deliver', { requestId, ...result }),
+    onRenderRequest: (callback) => {
+      const handler = (_e, request) => callback(request);
+      ipcRenderer.on('reports:render-request', handler);
+      return () => ipcRenderer.removeListener('reports:render-request', handler);
+    },
+    onHistory: (callback) => {
+      const handler = (_e, entry) => callback(entry);
+      ipcRenderer.on('reports:history', handler);
+      return () => ipcRenderer.removeListener('reports:history', handler);
+    },
+    onSchedules: (callback) => {
+      const handler = (_e, schedules) => callback(schedules);
+      ipcRenderer.on('reports:schedules', handler);
+      return () => ipcRenderer.removeListener('reports:schedules', handler);
+    },
+  },
+  faults: {
+    getConfig: () => ipcRenderer.invoke('faults:get-config'),
+    saveConfig: (config) => ipcRenderer.invoke('faults:save-config', config),
+    getIncidents: () => ipcRenderer.invoke('faults:get-incidents'),
+    report: (printer, faults) => ipcRenderer.invoke('faults:report', { printer, faults }),
+    acknowledge: (id, by) => ipcRenderer.invoke('faults:acknowledge', { id, by }),
+    acknowledgeFault: (printerId, code, by) => ipcRenderer.invoke('faults:acknowledge-fault', { printerId, code, by }),
+    test: (contactId, channel) => ipcRenderer.invoke('faults:test', { contactId, channel }),
+    onIncidents: (callback) => {
+      const handler = (_e, incidents) => callback(incidents);
+      ipcRenderer.on('faults:incidents', handler);
+      return () => ipcRenderer.removeListener('faults:incidents', handler);
+    },
+  },
+  storage: {
+    loadAll: () => ipcRenderer.invoke('storage:load-all'),
+    write: (changes) => ipcRenderer.invoke('storage:write', changes),
+    writeSync: (changes) => ipcRenderer.sendSync('storage:write-sync', changes),
   },
   relay: {
     getInfo: () => ipcRenderer.invoke('relay:get-info'),
+    getAuth: () => ipcRenderer.invoke('relay:get-auth'),
+    createPairingCode: () => ipcRenderer.invoke('relay:create-pairing-code'),
+    revokeDevice: (deviceId) => ipcRenderer.invoke('relay:revoke-device', deviceId),
+    setDeviceAllowlist: (deviceId, commands) => ipcRenderer.invoke('relay:set-device-allowlist', { deviceId, commands }),
+    setSettings: (patch) => ipcRenderer.invoke('relay:set-settings', patch),
+    onDevicesChanged: (callback) => {
+      const handler = (_e, devices) => callback(devices);
+      ipcRenderer.on('relay:devices-changed', handler);
+      return () => ipcRenderer.removeListener('relay:devices-changed', handler);
+    },
+  },
+
+  // RS-232 / USB-serial printers, plus the emulator's pseudo-serial endpoints
+  serial: {
+    listPorts: () => ipcRenderer.invoke('serial:list-ports'),
+    registerEmulatorPorts: (entries) => ipcRenderer.send('serial:emu-register', entries),
+    sendEmulatorData: (path, data) => ipcRenderer.send('serial:emu-data', { path, data }),
+    onEmulatorWrite: (callback) => {
+      const handler = (_e, payload) => callback(payload);
+      ipcRenderer.on('serial:emu-write', handler);
+      return () => ipcRenderer.removeListener('serial:emu-write', handler);
+    },
   },
 
-  // Track-n-Trace TCP endpoint (Phase 1)
+  // Track-n-Trace TCP endpoints — one listener per twin line
   tnt: {
-    getState: () => ipcRenderer.invoke('tnt:get-state'),
+    getStates: () => ipcRenderer.invoke('tnt:get-states'),
     getConfig: () => ipcRenderer.invoke('tnt:get-config'),
     setConfig: (cfg) => ipcRenderer.invoke('tnt:set-config', cfg),
-    send: (opcode, payload) => ipcRenderer.invoke('tnt:send', { opcode, payload }),
+    send: (lineId, opcode, payload) => ipcRenderer.invoke('tnt:send', { lineId, opcode, payload }),
     onFrame: (callback) => {
       const handler = (_e, entry) => callback(entry);
       ipcRenderer.on('tnt:frame', handler);
@@ -87,12 +177,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
   },
 
   // Polling pause events (from mobile companion via relay)
+  setPollingPaused: (paused) => ipcRenderer.invoke('polling:set-paused', paused),
   onPollingPauseChanged: (callback) => {
     ipcRenderer.on('polling:pause-changed', (event, paused) => callback(paused));
   },
 
   // Hotfolder events
   onHotfolderNewFile: (callback) => {
-    ipcRenderer.on('hotfolder:new-file', (event, data) => callback(data));
+    const handler = (_e, data) => callback(data);
+    ipcRenderer.on('hotfolder:new-file', handler);
+    return () => ipcRenderer.removeListener('hotfolder:new-file', handler);
   },
 });
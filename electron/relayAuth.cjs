@@ -0,0 +1,241 @@
+/**
+ * Relay authentication — pairing tokens, per-request verification and a
+ * per-device allowlist for printer-mutating commands.
+ *
+ * Before this, any host on the plant LAN could POST ^SJ / ^DM to
+ * /relay/send-command. Now:
+ *
+ *   1. The PC shows a one-time 6-char pairing code (QR in RelayConnectDialog,
+ *      5 min TTL). The phone POSTs it to /relay/pair and receives
+ *      { deviceId, secret } — the secret is shown exactly once.
+ *   2. Every other relay request carries either
+ *        X-Relay-Device / X-Relay-Ts / X-Relay-Sig
+ *      where Sig = hex HMAC-SHA256(secret, `${ts}\n${METHOD}\n${path}\n${body}`)
+ *      (ts within ±120s, each signature accepted once), or — for clients
+ *      without WebCrypto — `Authorization: Bearer <deviceId>:<secret>`.
+ *   3. /relay/send-command rejects mutating commands (same list as
+ *      MUTATING_RE in src/lib/printerTransport.ts) unless the device's
+ *      allowlist names that command.
+ *
+ * Settings + devices persist to userData/relay-auth.json. Self-signed TLS
+ * material (when enabled) persists alongside as relay-tls.json.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+
+// Keep in sync with MUTATING_COMMANDS in src/lib/printerTransport.ts
+// (src/test/relayAuth.test.ts asserts the two lists match).
+const MUTATING_COMMANDS = Object.freeze(['NM', 'NF', 'SV', 'DM', 'SM', 'CC', 'MD', 'BD', 'PR', 'CM', 'AP', 'SJ', 'ME', 'MB', 'NG']);
+const MUTATING_RE = new RegExp(`^\\^(${MUTATING_COMMANDS.join('|')})`, 'i');
+
+const PAIRING_TTL_MS = 5 * 60 * 1000;
+const SIG_WINDOW_MS = 120 * 1000;
+const PAIR_FAILS_PER_MIN = 5;
+// No 0/O/1/I — the code is read off a screen and typed on a phone.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** Leading ^XX opcode of a command, or null when it isn't a mutating one. */
+function mutatingOpcode(command) {
+  const m = MUTATING_RE.exec(String(command || '').trim());
+  return m ? m[1].toUpperCase() : null;
+}
+
+function signRequest(secret, ts, method, path, body) {
+  return crypto.createHmac('sha256', secret).update(`${ts}\n${method.toUpperCase()}\n${path}\n${body || ''}`).digest('hex');
+}
+
+function safeEqual(a, b) {
+  const ba = Buffer.from(String(a), 'utf8');
+  const bb = Buffer.from(String(b), 'utf8');
+  return ba.length === bb.length && crypto.timingSafeEqual(ba, bb);
+}
+
+class RelayAuth {
+  constructor({ storePath, now = () => Date.now() } = {}) {
+    this.storePath = storePath;
+    this.now = now;
+    this.pending = null; // { code, expiresAt }
+    this.seenSigs = new Map(); // sig → expiresAt
+    this.pairFails = new Map(); // remote ip → [timestamps]
+    this.data = { requireAuth: true, tls: false, devices: [] };
+    this._load();
+  }
+
+  _load() {
+    if (!this.storePath) return;
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.storePath, 'utf8'));
+      this.data = {
+        requireAuth: raw.requireAuth !== false,
+        tls: raw.tls === true,
+        devices: Array.isArray(raw.devices) ? raw.devices.filter((d) => d && d.id && d.secret) : [],
+      };
+    } catch (_) { /* first run */ }
+  }
+
+  _save() {
+    if (!this.storePath) return;
+    try { fs.writeFileSync(this.storePath, JSON.stringify(this.data, null, 2)); } catch (_) {}
+  }
+
+  getSettings() {
+    return { requireAuth: this.data.requireAuth, tls: this.data.tls };
+  }
+
+  setSettings(patch) {
+    if (typeof patch?.requireAuth === 'boolean') this.data.requireAuth = patch.requireAuth;
+    if (typeof patch?.tls === 'boolean') this.data.tls = patch.tls;
+    this._save();
+    return this.getSettings();
+  }
+
+  /** Devices without their secrets — safe to hand to the renderer. */
+  listDevices() {
+    return this.data.devices.map(({ secret, ...rest }) => rest);
+  }
+
+  createPairingCode() {
+    let code = '';
+    const bytes = crypto.randomBytes(6);
+    for (let i = 0; i < 6; i++) code += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+    this.pending = { code, expiresAt: this.now() + PAIRING_TTL_MS };
+    return { ...this.pending };
+  }
+
+  getPendingCode() {
+    if (this.pending && this.pending.expiresAt <= this.now()) this.pending = null;
+    return this.pending ? { ...this.pending } : null;
+  }
+
+  /**
+   * Exchange a pairing code for device credentials. Codes are single-use and
+   * failed attempts are rate-limited per remote address.
+   */
+  completePairing(code, deviceName, remote = 'unknown') {
+    const t = this.now();
+    const fails = (this.pairFails.get(remote) || []).filter((x) => t - x < 60_000);
+    if (fails.length >= PAIR_FAILS_PER_MIN) return { ok: false, status: 429, error: 'too-many-attempts' };
+    const pending = this.getPendingCode();
+    if (!pending || !safeEqual(String(code || '').trim().toUpperCase(), pending.code)) {
+      fails.push(t);
+      this.pairFails.set(remote, fails);
+      return { ok: false, status: 401, error: 'invalid-or-expired-code' };
+    }
+    this.pending = null;
+    const device = {
+      id: crypto.randomBytes(8).toString('hex'),
+      name: String(deviceName || 'Mobile device').slice(0, 64),
+      secret: crypto.randomBytes(32).toString('hex'),
+      pairedAt: new Date(t).toISOString(),
+      lastSeen: null,
+      remote,
+      allowedCommands: [],
+    };
+    this.data.devices.push(device);
+    this._save();
+    return { ok: true, deviceId: device.id, secret: device.secret };
+  }
+
+  revokeDevice(deviceId) {
+    const before = this.data.devices.length;
+    this.data.devices = this.data.devices.filter((d) => d.id !== deviceId);
+    this._save();
+    return before !== this.data.devices.length;
+  }
+
+  setAllowedCommands(deviceId, commands) {
+    const device = this.data.devices.find((d) => d.id === deviceId);
+    if (!device) return false;
+    const list = Array.isArray(commands) ? commands : [];
+    device.allowedCommands = MUTATING_COMMANDS.filter((c) => list.map((x) => String(x).toUpperCase()).includes(c));
+    this._save();
+    return true;
+  }
+
+  /**
+   * Verify one relay request. `headers` are Node's lower-cased headers.
+   * Returns { ok: true, device } or { ok: false, status, error }.
+   */
+  verify(headers, method, path, body) {
+    if (!this.data.requireAuth) return { ok: true, device: null };
+    const t = this.now();
+
+    const bearer = /^Bearer\s+([0-9a-f]+):([0-9a-f]+)$/i.exec(headers['authorization'] || '');
+    if (bearer) {
+      const device = this.data.devices.find((d) => d.id === bearer[1]);
+      if (!device || !safeEqual(bearer[2], device.secret)) return { ok: false, status: 401, error: 'invalid-token' };
+      return this._touch(device, t);
+    }
+
+    const deviceId = headers['x-relay-device'];
+    const ts = Number(headers['x-relay-ts']);
+    const sig = headers['x-relay-sig'];
+    if (!deviceId || !sig || !Number.isFinite(ts)) return { ok: false, status: 401, error: 'auth-required' };
+    if (Math.abs(t - ts) > SIG_WINDOW_MS) return { ok: false, status: 401, error: 'stale-timestamp' };
+    const device = this.data.devices.find((d) => d.id === deviceId);
+    if (!device) return { ok: false, status: 401, error: 'unknown-device' };
+    if (!safeEqual(sig, signRequest(device.secret, ts, method, path, body))) {
+      return { ok: false, status: 401, error: 'bad-signature' };
+    }
+    for (const [s, exp] of this.seenSigs) if (exp <= t) this.seenSigs.delete(s);
+    if (this.seenSigs.has(sig)) return { ok: false, status: 401, error: 'replayed-request' };
+    this.seenSigs.set(sig, t + SIG_WINDOW_MS * 2);
+    return this._touch(device, t);
+  }
+
+  _touch(device, t) {
+    device.lastSeen = new Date(t).toISOString();
+    // lastSeen is cosmetic — don't hit the disk on every poll.
+    if (!this._touchTimer) {
+      this._touchTimer = setTimeout(() => { this._touchTimer = null; this._save(); }, 10_000);
+      if (this._touchTimer.unref) this._touchTimer.unref();
+    }
+    return { ok: true, device };
+  }
+
+  /**
+   * Whether `device` may send `command`. Non-mutating commands always pass;
+   * with auth disabled (device === null) everything passes, as before.
+   */
+  isCommandAllowed(device, command) {
+    // The socket write appends CRLF; an embedded line break would smuggle a
+    // second command past the opcode check (e.g. "^SU\r\n^SJ0").
+    if (/[\r\n]/.test(String(command || ''))) return false;
+    const op = mutatingOpcode(command);
+    if (!op || !this.data.requireAuth || !device) return true;
+    return (device.allowedCommands || []).includes(op);
+  }
+}
+
+/**
+ * Load or generate the self-signed certificate used when TLS is enabled.
+ * Returns null when the optional `selfsigned` package isn't available.
+ */
+function loadOrCreateTlsMaterial(tlsPath, hostnames) {
+  try {
+    const cached = JSON.parse(fs.readFileSync(tlsPath, 'utf8'));
+    if (cached.key && cached.cert) return cached;
+  } catch (_) { /* generate below */ }
+  let selfsigned;
+  try { selfsigned = require('selfsigned'); } catch (_) { return null; }
+  const altNames = [{ type: 2, value: 'localhost' }, ...hostnames.map((ip) => ({ type: 7, ip }))];
+  const pems = selfsigned.generate([{ name: 'commonName', value: 'CodeSync Relay' }], {
+    days: 3650,
+    keySize: 2048,
+    algorithm: 'sha256',
+    extensions: [{ name: 'subjectAltName', altNames }],
+  });
+  const material = { key: pems.private, cert: pems.cert, fingerprint: pems.fingerprint };
+  try { fs.writeFileSync(tlsPath, JSON.stringify(material)); } catch (_) {}
+  return material;
+}
+
+module.exports = {
+  RelayAuth,
+  MUTATING_COMMANDS,
+  MUTATING_RE,
+  mutatingOpcode,
+  signRequest,
+  loadOrCreateTlsMaterial,
+};
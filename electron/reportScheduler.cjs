@@ -0,0 +1,500 @@
+/**
+ * Scheduled report delivery — renders saved custom report templates on a
+ * timer and delivers the result without anyone opening the Reports screen.
+ *
+ * Main owns the clock, the schedule list and the run history; the renderer
+ * owns the data (production runs live in its IndexedDB) and the report
+ * layout. When a schedule is due, main emits `render` with the template id
+ * and the time range; the renderer renders the template offscreen and
+ * answers through `deliver()` with a PDF and/or CSV. Main then:
+ *
+ * - writes the files into the schedule's folder,
+ * - optionally POSTs them (base64, JSON) to a webhook,
+ * - optionally drops an RFC 822 message with the files attached into
+ *   `<folder>/outbox` — an SMTP pickup directory stand-in that a mail relay
+ *   (IIS SMTP, Postfix pickup, a script) can send from,
+ *
+ * and records one history entry per run. Triggers are shift end (the
+ * renderer's shift calendar is sent along with the schedule, so shift ends
+ * skip non-working days and holidays the same way planned time does), daily
+ * or weekly at a local time. A run that came due while the app was closed
+ * runs once on start.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+const https = require('https');
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+
+const CHECK_INTERVAL_MS = 30_000;
+const RENDER_TIMEOUT_MS = 120_000;
+const WEBHOOK_TIMEOUT_MS = 30_000;
+const MAX_HISTORY = 200;
+const TRIGGERS = ['shiftEnd', 'daily', 'weekly'];
+const HOUR_MS = 3_600_000;
+
+function parseTime(value) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(value || '').trim());
+  if (!m) return { hour: 6, minute: 0 };
+  return { hour: Math.min(23, Number(m[1])), minute: Math.min(59, Number(m[2])) };
+}
+
+function normalizeShift(raw) {
+  return {
+    id: String(raw?.id || ''),
+    name: String(raw?.name || raw?.id || 'Shift'),
+    startHour: Math.min(23, Math.max(0, Math.floor(Number(raw?.startHour) || 0))),
+    endHour: Math.min(23, Math.max(0, Math.floor(Number(raw?.endHour) || 0))),
+  };
+}
+
+function dayKey(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Same shape as the renderer's ShiftCalendar, minus breaks. Schedules saved
+ * before the calendar was sent only have `shifts` — those run every day.
+ */
+function normalizeCalendar(raw, shifts) {
+  if (!Array.isArray(raw?.patterns) || raw.patterns.length === 0) {
+    return { patterns: [{ id: 'default', name: 'Every day', workingDays: [0, 1, 2, 3, 4, 5, 6], shifts }], defaultPatternId: 'default', lineAssignments: {}, holidays: [] };
+  }
+  const patterns = raw.patterns.map((p) => ({
+    id: String(p?.id || ''),
+    name: String(p?.name || 'Pattern'),
+    workingDays: Array.isArray(p?.workingDays) ? p.workingDays.map(Number).filter((d) => d >= 0 && d <= 6) : [0, 1, 2, 3, 4, 5, 6],
+    shifts: Array.isArray(p?.shifts) ? p.shifts.map(normalizeShift) : [],
+  }));
+  const assignments = raw.lineAssignments && typeof raw.lineAssignments === 'object' ? raw.lineAssignments : {};
+  return {
+    patterns,
+    defaultPatternId: patterns.some((p) => p.id === raw.defaultPatternId) ? String(raw.defaultPatternId) : patterns[0].id,
+    lineAssignments: Object.fromEntries(Object.entries(assignments).filter(([, id]) => patterns.some((p) => p.id === id))),
+    holidays: Array.isArray(raw.holidays)
+      ? raw.holidays.map((h) => ({ date: String(h?.date || '') })).filter((h) => /^\d{4}-\d{2}-\d{2}$/.test(h.date))
+      : [],
+  };
+}
+
+function normalizeSchedule(raw) {
+  const trigger = TRIGGERS.includes(raw?.trigger) ? raw.trigger : 'daily';
+  const { hour, minute } = parseTime(raw?.time);
+  const shifts = Array.isArray(raw?.shifts) ? raw.shifts.map(normalizeShift) : [];
+  return {
+    id: String(raw?.id || crypto.randomUUID()),
+    name: String(raw?.name || '').trim() || 'Scheduled report',
+    enabled: raw?.enabled !== false,
+    templateId: String(raw?.templateId || ''),
+    templateName: String(raw?.templateName || ''),
+    trigger,
+    /** Local HH:MM for daily / weekly. */
+    time: `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`,
+    /** 0 = Sunday … 6 = Saturday, for weekly. */
+    weekday: Math.min(6, Math.max(0, Math.floor(Number(raw?.weekday) || 0))),
+    /** Every shift id with its first definition, for pickers; `shiftIds` limits which ones fire (empty = all). */
+    shifts,
+    shiftIds: Array.isArray(raw?.shiftIds) ? raw.shiftIds.map(String) : [],
+    /** Working days and holidays per line pattern; shift ends are taken from here. */
+    calendar: normalizeCalendar(raw?.calendar, shifts),
+    /** ReportTimeScope for daily / weekly runs, resolved as of the run time. */
+    scope: raw?.scope && typeof raw.scope === 'object'
+      ? { preset: raw.scope.preset || 'yesterday', bucket: raw.scope.bucket || 'day', printerIds: Array.isArray(raw.scope.printerIds) ? raw.scope.printerIds : [] }
+      : { preset: 'yesterday', bucket: 'day', printerIds: [] },
+    formats: { pdf: raw?.formats?.pdf !== false, csv: raw?.formats?.csv !== false },
+    folder: String(raw?.folder || '').trim(),
+    webhookUrl: String(raw?.webhookUrl || '').trim(),
+    email: {
+      enabled: !!raw?.email?.enabled,
+      to: String(raw?.email?.to || '').trim(),
+      from: String(raw?.email?.from || '').trim() || 'codesync@localhost',
+      subject: String(raw?.email?.subject || '').trim(),
+    },
+    lastRunAt: Number(raw?.lastRunAt) || null,
+    nextRunAt: Number(raw?.nextRunAt) || null,
+  };
+}
+
+function validateSchedule(s) {
+  if (!s.templateId) return 'Choose a report template';
+  if (!s.formats.pdf && !s.formats.csv) return 'Choose PDF, CSV or both';
+  if (!s.folder) return 'Output folder is required';
+  if (s.trigger === 'shiftEnd' && !schedulePatterns(s).some((p) => p.workingDays.length > 0 && activeShifts(s, p).length > 0)) {
+    return 'No shifts to trigger on';
+  }
+  if (s.webhookUrl && !/^https?:\/\//i.test(s.webhookUrl)) return 'Webhook URL must start with http:// or https://';
+  if (s.email.enabled && !s.email.to) return 'Email recipient is required';
+  return null;
+}
+
+/**
+ * Patterns of the lines the report covers: the scope's printers, or every
+ * pattern in use (the default plus any assigned to a line) when it covers all.
+ */
+function schedulePatterns(s) {
+  const { patterns, defaultPatternId, lineAssignments } = s.calendar;
+  const ids = s.scope.printerIds.length > 0
+    ? s.scope.printerIds.map((id) => lineAssignments[id] || defaultPatternId)
+    : [defaultPatternId, ...Object.values(lineAssignments)];
+  return patterns.filter((p) => ids.includes(p.id));
+}
+
+function activeShifts(s, pattern) {
+  return s.shiftIds.length > 0 ? pattern.shifts.filter((sh) => s.shiftIds.includes(sh.id)) : pattern.shifts;
+}
+
+// Far enough to step over a long shutdown in the holiday list.
+const SHIFT_SEARCH_DAYS = 370;
+
+/**
+ * Next worked shift end strictly after `after`. Like shiftCalendar.ts, a
+ * shift belongs to the day it starts on, and only runs when that day is one
+ * of the pattern's working days and not a holiday.
+ */
+function nextShiftEnd(schedule, after) {
+  const patterns = schedulePatterns(schedule);
+  const holidays = new Set(schedule.calendar.holidays.map((h) => h.date));
+  const first = new Date(after);
+  let best = null;
+  // Start a day early so a shift wrapping midnight into `after` is included
+  for (let i = -1; i <= SHIFT_SEARCH_DAYS; i++) {
+    const day = new Date(first.getFullYear(), first.getMonth(), first.getDate() + i);
+    if (best && day.getTime() > best.at) break;
+    if (holidays.has(dayKey(day))) continue;
+    for (const pattern of patterns) {
+      if (!pattern.workingDays.includes(day.getDay())) continue;
+      for (const shift of activeShifts(schedule, pattern)) {
+        const wraps = shift.endHour <= shift.startHour;
+        const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), shift.startHour).getTime();
+        const at = new Date(day.getFullYear(), day.getMonth(), day.getDate() + (wraps ? 1 : 0), shift.endHour).getTime();
+        if (at <= after || (best && at >= best.at)) continue;
+        best = { at, shiftId: shift.id, range: { start, end: at, label: `${shift.name} shift` } };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Next due time strictly after `after`, with the range the run covers when
+ * it is fixed by the trigger (shift end). Daily / weekly runs resolve their
+ * scope preset in the renderer as of the due time.
+ */
+function nextRun(schedule, after) {
+  if (schedule.trigger === 'shiftEnd') return nextShiftEnd(schedule, after);
+  const base = new Date(after);
+  const { hour, minute } = parseTime(schedule.time);
+  const d = new Date(base);
+  d.setHours(hour, minute, 0, 0);
+  if (schedule.trigger === 'weekly') {
+    d.setDate(d.getDate() + ((schedule.weekday - d.getDay() + 7) % 7));
+    if (d.getTime() <= after) d.setDate(d.getDate() + 7);
+  } else if (d.getTime() <= after) {
+    d.setDate(d.getDate() + 1);
+  }
+  return { at: d.getTime(), range: null };
+}
+
+/** `Daily OEE 2026-10-19 0600` — safe on every filesystem. */
+function fileStem(schedule, at) {
+  const d = new Date(at);
+  const pad = (n) => String(n).padStart(2, '0');
+  const stamp = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}${pad(d.getMinutes())}`;
+  const name = (schedule.name || 'report').replace(/[\\/:*?"<>|]+/g, '-').trim();
+  return `${name} ${stamp}`;
+}
+
+/** Multipart MIME message with the report files attached. */
+function buildEml({ from, to, subject, text, attachments, date = new Date() }) {
+  const boundary = `codesync-${crypto.randomBytes(8).toString('hex')}`;
+  const lines = [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${subject}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    text,
+  ];
+  for (const a of attachments) {
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${a.contentType}; name="${a.name}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${a.name}"`,
+      '',
+      ...(a.data.toString('base64').match(/.{1,76}/g) || []),
+    );
+  }
+  lines.push(`--${boundary}--`, '');
+  return lines.join('\r\n');
+}
+
+function postJson(url, body) {
+  return new Promise((resolve, reject) => {
+    let target;
+    try { target = new URL(url); } catch (_) { reject(new Error('Invalid webhook URL')); return; }
+    const data = Buffer.from(JSON.stringify(body));
+    const req = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': data.length },
+      timeout: WEBHOOK_TIMEOUT_MS,
+    }, (res) => {
+      res.resume();
+      res.on('end', () => {
+        if (res.statusCode >= 200 && res.statusCode < 300) resolve(res.statusCode);
+        else reject(new Error(`Webhook answered HTTP ${res.statusCode}`));
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error('Webhook timed out')));
+    req.on('error', reject);
+    req.end(data);
+  });
+}
+
+class ReportScheduler extends EventEmitter {
+  constructor({ statePath, now = () => Date.now() } = {}) {
+    super();
+    this.statePath = statePath;
+    this.now = now;
+    this.schedules = [];
+    this.history = [];
+    this.pending = new Map();
+    this.running = new Set();
+    this.timer = null;
+    this._load();
+  }
+
+  _load() {
+    if (!this.statePath) return;
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      this.schedules = (saved.schedules || []).map(normalizeSchedule);
+      this.history = Array.isArray(saved.history) ? saved.history.slice(0, MAX_HISTORY) : [];
+    } catch (_) { /* first run */ }
+  }
+
+  _save() {
+    if (!this.statePath) return;
+    try {
+      fs.writeFileSync(this.statePath, JSON.stringify({ schedules: this.schedules, history: this.history }, null, 2));
+    } catch (_) {}
+  }
+
+  getSchedules() {
+    return this.schedules;
+  }
+
+  getHistory() {
+    return this.history;
+  }
+
+  /** Insert or replace a schedule; its next run is recomputed from now. */
+  saveSchedule(raw) {
+    const schedule = normalizeSchedule(raw);
+    const invalid = validateSchedule(schedule);
+    if (invalid) return { success: false, error: invalid };
+    schedule.nextRunAt = schedule.enabled ? nextRun(schedule, this.now())?.at ?? null : null;
+    const idx = this.schedules.findIndex((s) => s.id === schedule.id);
+    if (idx >= 0) {
+      schedule.lastRunAt = this.schedules[idx].lastRunAt;
+      this.schedules[idx] = schedule;
+    } else {
+      this.schedules.push(schedule);
+    }
+    this._save();
+    this.emit('schedules', this.schedules);
+    return { success: true, schedule };
+  }
+
+  deleteSchedule(id) {
+    this.schedules = this.schedules.filter((s) => s.id !== id);
+    this._save();
+    this.emit('schedules', this.schedules);
+    return { success: true };
+  }
+
+  start() {
+    this.stop();
+    this.timer = setInterval(() => { this.checkDue(); }, CHECK_INTERVAL_MS);
+    this.checkDue();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Run every schedule whose time has come (once, however late). */
+  checkDue() {
+    const now = this.now();
+    let changed = false;
+    for (const schedule of this.schedules) {
+      if (!schedule.enabled) continue;
+      if (schedule.nextRunAt == null) {
+        schedule.nextRunAt = nextRun(schedule, now)?.at ?? null;
+        changed = true;
+        continue;
+      }
+      if (schedule.nextRunAt > now) continue;
+      // Work out what the missed slot covered before moving on
+      const due = nextRun(schedule, schedule.nextRunAt - 1);
+      schedule.nextRunAt = nextRun(schedule, now)?.at ?? null;
+      changed = true;
+      if (due) this._run(schedule, due, 'schedule');
+    }
+    if (changed) {
+      this._save();
+      this.emit('schedules', this.schedules);
+    }
+  }
+
+  /** Manual run: covers the slot that ended most recently. */
+  runNow(id) {
+    const schedule = this.schedules.find((s) => s.id === id);
+    if (!schedule) return Promise.resolve({ success: false, error: 'Unknown schedule' });
+    const now = this.now();
+    let due = { at: now, range: null };
+    if (schedule.trigger === 'shiftEnd') {
+      // Walk forward from a week ago (past a weekend) to the most recent shift end
+      let cursor = nextRun(schedule, now - 7 * 24 * HOUR_MS - 1);
+      while (cursor) {
+        const next = nextRun(schedule, cursor.at);
+        if (!next || next.at > now) break;
+        cursor = next;
+      }
+      if (cursor && cursor.at <= now) due = cursor;
+    }
+    return this._run(schedule, due, 'manual').then((entry) => ({ success: entry.status !== 'failed', entry }));
+  }
+
+  /** Renderer's answer to a `render` request. */
+  deliver(requestId, result) {
+    const pending = this.pending.get(requestId);
+    if (!pending) return { success: false, error: 'unknown_request' };
+    this.pending.delete(requestId);
+    clearTimeout(pending.timer);
+    pending.resolve(result || {});
+    return { success: true };
+  }
+
+  _requestRender(request) {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(request.requestId);
+        resolve({ error: 'The app did not render the report in time (is the window open?)' });
+      }, RENDER_TIMEOUT_MS);
+      this.pending.set(request.requestId, { resolve, timer });
+      this.emit('render', request);
+    });
+  }
+
+  async _run(schedule, due, trigger) {
+    const startedAt = this.now();
+    const entry = {
+      id: crypto.randomUUID(),
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      trigger,
+      dueAt: due.at,
+      startedAt,
+      finishedAt: null,
+      status: 'failed',
+      files: [],
+      deliveries: [],
+      error: null,
+    };
+    if (this.running.has(schedule.id)) {
+      entry.error = 'Previous run of this schedule is still in progress';
+      return this._record(entry);
+    }
+    this.running.add(schedule.id);
+    try {
+      const stem = fileStem(schedule, due.at);
+      const result = await this._requestRender({
+        requestId: entry.id,
+        scheduleId: schedule.id,
+        title: schedule.name,
+        templateId: schedule.templateId,
+        scope: schedule.scope,
+        range: due.range,
+        at: due.at,
+        formats: schedule.formats,
+      });
+      if (result.error) throw new Error(result.error);
+
+      const attachments = [];
+      if (schedule.formats.pdf && result.pdfBase64) {
+        attachments.push({ name: `${stem}.pdf`, contentType: 'application/pdf', data: Buffer.from(result.pdfBase64, 'base64') });
+      }
+      if (schedule.formats.csv && typeof result.csvText === 'string') {
+        attachments.push({ name: `${stem}.csv`, contentType: 'text/csv', data: Buffer.from(result.csvText, 'utf8') });
+      }
+      if (attachments.length === 0) throw new Error('Renderer returned no files');
+
+      fs.mkdirSync(schedule.folder, { recursive: true });
+      for (const a of attachments) {
+        const file = path.join(schedule.folder, a.name);
+        fs.writeFileSync(file, a.data);
+        entry.files.push(file);
+      }
+      entry.deliveries.push({ kind: 'folder', ok: true, detail: schedule.folder });
+
+      const title = result.title || schedule.name;
+      if (schedule.webhookUrl) {
+        try {
+          await postJson(schedule.webhookUrl, {
+            schedule: { id: schedule.id, name: schedule.name },
+            title,
+            dueAt: new Date(due.at).toISOString(),
+            range: due.range,
+            files: attachments.map((a) => ({ name: a.name, contentType: a.contentType, base64: a.data.toString('base64') })),
+          });
+          entry.deliveries.push({ kind: 'webhook', ok: true, detail: schedule.webhookUrl });
+        } catch (err) {
+          entry.deliveries.push({ kind: 'webhook', ok: false, detail: err.message });
+        }
+      }
+      if (schedule.email.enabled) {
+        try {
+          const outbox = path.join(schedule.folder, 'outbox');
+          fs.mkdirSync(outbox, { recursive: true });
+          const file = path.join(outbox, `${stem}.eml`);
+          fs.writeFileSync(file, buildEml({
+            from: schedule.email.from,
+            to: schedule.email.to,
+            subject: schedule.email.subject || title,
+            text: `${title}\r\n${due.range ? due.range.label : new Date(due.at).toLocaleString()}\r\n\r\nGenerated by CodeSync.`,
+            attachments,
+          }));
+          entry.deliveries.push({ kind: 'email', ok: true, detail: file });
+        } catch (err) {
+          entry.deliveries.push({ kind: 'email', ok: false, detail: err.message });
+        }
+      }
+      entry.status = entry.deliveries.every((d) => d.ok) ? 'success' : 'partial';
+      schedule.lastRunAt = due.at;
+    } catch (err) {
+      entry.error = err.message;
+    } finally {
+      this.running.delete(schedule.id);
+    }
+    return this._record(entry);
+  }
+
+  _record(entry) {
+    entry.finishedAt = this.now();
+    this.history = [entry, ...this.history].slice(0, MAX_HISTORY);
+    this._save();
+    this.emit('history', entry);
+    return entry;
+  }
+}
+
+module.exports = { ReportScheduler, normalizeSchedule, validateSchedule, nextRun, buildEml, fileStem };
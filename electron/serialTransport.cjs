@@ -0,0 +1,221 @@
+/**
+ * Serial (RS-232 / USB-serial) transport for printers and twin bindings.
+ *
+ * The printer speaks the same ^-command protocol on its serial port as on
+ * port 23, so main.cjs treats a serial link exactly like a TCP socket: a
+ * SerialConnection is stored in `connections`, and sendCommandToSocket, the
+ * 1-1 demuxer and oneToOne:sendMD use it unchanged. It therefore implements
+ * the slice of the net.Socket surface those paths touch — write(data, cb),
+ * on/once/off('data' | 'error' | 'close'), read(), setTimeout(),
+ * setKeepAlive(), destroy(), `destroyed` and `writable`.
+ *
+ * Two backends:
+ *   - hardware: the optional `serialport` package (8N1, no flow control —
+ *     the BestCode RS-232 default). Missing package → openSerialConnection
+ *     fails with a clear error instead of crashing main.
+ *   - emulator: paths starting with `emu:` are pseudo-serial endpoints served
+ *     by the renderer's printer emulator (src/lib/serialEmulatorBridge.ts).
+ *     Bytes go out on `serial:emu-write` and come back via
+ *     deliverEmulatorData(), so the whole main-side serial path can be
+ *     exercised without hardware.
+ */
+
+const { EventEmitter } = require('events');
+
+let SerialPort = null;
+try {
+  ({ SerialPort } = require('serialport'));
+} catch (_) {
+  // serialport not installed (or native binding missing) — hardware serial unavailable
+}
+
+const DEFAULT_BAUD_RATE = 9600;
+const BAUD_RATES = Object.freeze([1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200]);
+const EMULATOR_PREFIX = 'emu:';
+
+const emulatorPaths = new Map(); // path → friendly label, registered by the renderer
+const emulatorLinks = new Map(); // path → SerialConnection
+
+function isEmulatorPath(path) {
+  return typeof path === 'string' && path.startsWith(EMULATOR_PREFIX);
+}
+
+function normalizeBaudRate(baudRate) {
+  const n = Number(baudRate);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_BAUD_RATE;
+}
+
+class SerialConnection extends EventEmitter {
+  constructor(path, baudRate) {
+    super();
+    this.path = path;
+    this.baudRate = baudRate;
+    // Shown where main logs a socket's remoteAddress.
+    this.remoteAddress = path;
+    this._destroyed = false;
+    this._port = null; // hardware backend
+    this._emulatorSend = null; // emulator backend
+  }
+
+  get destroyed() { return this._destroyed; }
+  get writable() {
+    if (this._destroyed) return false;
+    return this._port ? this._port.isOpen : !!this._emulatorSend;
+  }
+
+  write(data, cb) {
+    const buf = Buffer.isBuffer(data) ? data : Buffer.from(String(data), 'binary');
+    if (!this.writable) {
+      const err = new Error('Serial port is not open');
+      if (cb) setImmediate(() => cb(err));
+      return false;
+    }
+    if (this._port) {
+      return this._port.write(buf, (err) => { if (cb) cb(err || undefined); });
+    }
+    try {
+      this._emulatorSend(this.path, buf.toString('binary'));
+      if (cb) setImmediate(() => cb());
+      return true;
+    } catch (err) {
+      if (cb) setImmediate(() => cb(err));
+      return false;
+    }
+  }
+
+  // Serial data is always delivered in flowing mode; nothing is ever buffered
+  // for read(), so the stale-byte drain in _sendCommandToSocketImpl is a no-op.
+  read() { return null; }
+  setTimeout() { return this; }
+  setKeepAlive() { return this; }
+
+  destroy() {
+    if (this._destroyed) return;
+    this._destroyed = true;
+    if (this._port) {
+      try { if (this._port.isOpen) this._port.close(() => {}); } catch (_) {}
+    }
+    if (emulatorLinks.get(this.path) === this) emulatorLinks.delete(this.path);
+    setImmediate(() => this.emit('close', false));
+  }
+
+  _receive(buf) {
+    if (this._destroyed) return;
+    this.emit('data', buf);
+  }
+}
+
+function openHardware(conn) {
+  return new Promise((resolve, reject) => {
+    if (!SerialPort) {
+      reject(new Error('Serial support unavailable — the serialport module is not installed'));
+      return;
+    }
+    const port = new SerialPort({
+      path: conn.path,
+      baudRate: conn.baudRate,
+      dataBits: 8,
+      parity: 'none',
+      stopBits: 1,
+      autoOpen: false,
+    });
+    port.open((err) => {
+      if (err) { reject(err); return; }
+      conn._port = port;
+      port.on('data', (buf) => conn._receive(buf));
+      port.on('error', (e) => { if (!conn._destroyed) conn.emit('error', e); });
+      port.on('close', () => {
+        if (conn._destroyed) return;
+        // Unplugged USB adapter or driver reset
+        conn._destroyed = true;
+        conn.emit('close', true);
+      });
+      resolve(conn);
+    });
+  });
+}
+
+/**
+ * Open a serial link. `emulatorSend(path, text)` forwards writes for `emu:`
+ * paths to the renderer; it is required only for those.
+ */
+async function openSerialConnection({ path, baudRate }, { emulatorSend } = {}) {
+  if (!path || typeof path !== 'string') throw new Error('No serial port path');
+  const conn = new SerialConnection(path, normalizeBaudRate(baudRate));
+  if (isEmulatorPath(path)) {
+    if (!emulatorPaths.has(path) || !emulatorSend) {
+      throw new Error(`Emulated serial port ${path} is not available — enable the emulator`);
+    }
+    const previous = emulatorLinks.get(path);
+    if (previous) previous.destroy();
+    conn._emulatorSend = emulatorSend;
+    emulatorLinks.set(path, conn);
+    return conn;
+  }
+  return openHardware(conn);
+}
+
+/** Bytes from the renderer's emulator for an open `emu:` link. */
+function deliverEmulatorData(path, text) {
+  const conn = emulatorLinks.get(path);
+  if (conn) conn._receive(Buffer.from(String(text), 'binary'));
+}
+
+/** Renderer's current set of pseudo-serial endpoints; links to dropped paths close. */
+function setEmulatorPaths(entries) {
+  emulatorPaths.clear();
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    if (entry && isEmulatorPath(entry.path)) emulatorPaths.set(entry.path, String(entry.label || entry.path));
+  }
+  for (const [path, conn] of emulatorLinks) {
+    if (!emulatorPaths.has(path)) conn.destroy();
+  }
+}
+
+/** Hardware ports (when serialport is available) followed by emulator endpoints. */
+async function listSerialPorts() {
+  const ports = [];
+  let error = null;
+  if (SerialPort) {
+    try {
+      for (const p of await SerialPort.list()) {
+        ports.push({
+          path: p.path,
+          label: [p.path, p.manufacturer, p.serialNumber].filter(Boolean).join(' · '),
+          emulated: false,
+        });
+      }
+    } catch (err) {
+      error = err.message;
+    }
+  } else {
+    error = 'serialport module not installed';
+  }
+  for (const [path, label] of emulatorPaths) ports.push({ path, label, emulated: true });
+  return { available: !!SerialPort, ports, error };
+}
+
+/** Whether a serial path is currently present — the serial analogue of the ICMP reachability check. */
+async function isSerialPathPresent(path) {
+  if (isEmulatorPath(path)) return emulatorPaths.has(path);
+  if (!SerialPort) return false;
+  try {
+    const ports = await SerialPort.list();
+    return ports.some((p) => p.path === path);
+  } catch (_) {
+    return false;
+  }
+}
+
+module.exports = {
+  SerialConnection,
+  openSerialConnection,
+  deliverEmulatorData,
+  setEmulatorPaths,
+  listSerialPorts,
+  isSerialPathPresent,
+  isEmulatorPath,
+  DEFAULT_BAUD_RATE,
+  BAUD_RATES,
+  EMULATOR_PREFIX,
+};
@@ -0,0 +1,94 @@
+/**
+ * Track-n-Trace line registry — one TntServer per twin line, each on its own
+ * port with its own audit log (see tntServer.cjs).
+ *
+ * Config v2 is `{ lines: [{ id, name, enabled, port }] }`; the v1 single-line
+ * `{ enabled, port }` shape migrates to a lone `line-1`. The registry only
+ * starts/stops listeners to match a config — main.cjs owns the config file
+ * and the IPC surface, the renderer (tntBridge) routes frames per line.
+ */
+
+const { DEFAULT_LINE_ID } = require('./tntServer.cjs');
+
+const BASE_PORT = 8101;
+
+function normalizeTntLines(raw) {
+  const list = Array.isArray(raw?.lines)
+    ? raw.lines
+    : [{ id: DEFAULT_LINE_ID, name: 'Line 1', enabled: !!raw?.enabled, port: raw?.port }];
+  const seenIds = new Set();
+  const seenPorts = new Set();
+  const lines = [];
+  for (const l of list) {
+    const id = String(l?.id || '').trim().replace(/[^A-Za-z0-9_-]/g, '') || `line-${lines.length + 1}`;
+    if (seenIds.has(id)) continue;
+    const port = Number(l?.port) || BASE_PORT + lines.length;
+    const enabled = !!l?.enabled;
+    // Two listeners can't share a port — later duplicates load disabled.
+    const clash = enabled && seenPorts.has(port);
+    seenIds.add(id);
+    if (enabled && !clash) seenPorts.add(port);
+    lines.push({ id, name: String(l?.name || id), enabled: enabled && !clash, port });
+  }
+  return { lines };
+}
+
+function idleTntState(line) {
+  return {
+    lineId: line.id, name: line.name, logFile: null,
+    listening: false, connected: false, peer: null, port: line.port,
+    framesIn: 0, framesOut: 0, lastFrameAt: null, lastError: null, recent: [],
+  };
+}
+
+class TntLineRegistry {
+  /**
+   * @param {{ createServer: (line: { id: string, name: string, port: number }) => any, log?: (msg: string) => void }} opts
+   *   createServer — returns a started TntServer for the line
+   */
+  constructor({ createServer, log = () => {} }) {
+    this.createServer = createServer;
+    this.log = log;
+    /** @type {Map<string, any>} */
+    this.servers = new Map();
+  }
+
+  get(lineId) {
+    return this.servers.get(lineId || DEFAULT_LINE_ID) || null;
+  }
+
+  /** Start, restart (port or name changed) and stop listeners to match `cfg`. */
+  apply(cfg) {
+    const wanted = new Map(cfg.lines.filter((l) => l.enabled).map((l) => [l.id, l]));
+    for (const [id, server] of this.servers) {
+      const line = wanted.get(id);
+      if (!line || line.port !== server.port || line.name !== server.name) this.stop(id);
+    }
+    for (const line of wanted.values()) {
+      if (this.servers.has(line.id)) continue;
+      this.servers.set(line.id, this.createServer(line));
+      this.log(`[tnt] ${line.id} server starting on port ${line.port}`);
+    }
+  }
+
+  /** One state per configured line, in config order. */
+  states(cfg) {
+    return cfg.lines.map((line) => {
+      const server = this.servers.get(line.id);
+      return server ? server.getState() : idleTntState(line);
+    });
+  }
+
+  stop(lineId) {
+    const server = this.servers.get(lineId);
+    if (!server) return;
+    try { server.stop(); } catch (_) { /* already closed */ }
+    this.servers.delete(lineId);
+  }
+
+  stopAll() {
+    for (const id of [...this.servers.keys()]) this.stop(id);
+  }
+}
+
+module.exports = { TntLineRegistry, normalizeTntLines, idleTntState };
@@ -5,9 +5,15 @@
  * §4 Phase 1: TCP server bound to port 8101 (configurable), single connection
  * per line, DJDACP2D-03 frame codec, per-line rolling audit log.
  *
- * Phase 2+ (Config → bind, Print → dispatch, Status reporter, fault mapping)
- * will consume `onFrame` events emitted here — this file intentionally does
- * NOT couple to twinDispatcher yet.
+ * Multi-line: one TntServer instance per twin line (see the line registry in
+ * main.cjs). Each instance owns its own port and `tnt-uplink-<lineId>.log`;
+ * every frame/state event is tagged with `lineId` so the renderer can route.
+ * The single-line default id `line-1` keeps the legacy `tnt-uplink.log` name.
+ *
+ * Phase 2 (Config → catalog/bind, Print → dispatch, Request → last serial)
+ * consumes the `frame` events emitted here from the renderer — see
+ * src/twin-code/tntBridge.ts, which replies through `send()`. This file stays
+ * transport-only and does NOT couple to twinDispatcher.
  */
 
 const net = require('net');
@@ -17,20 +23,26 @@ const { EventEmitter } = require('events');
 const { encodeFrame, FrameDecoder, OPCODES, OPCODE_NAMES, parseJsonPayload } = require('./tntCodec.cjs');
 
 const DEFAULT_PORT = 8101;
+const DEFAULT_LINE_ID = 'line-1';
 const MAX_LOG_BYTES = 5 * 1024 * 1024; // 5 MB rolling per line
 
 function stamp() { return new Date().toISOString(); }
 
 class TntServer extends EventEmitter {
-  constructor({ port = DEFAULT_PORT, logDir } = {}) {
+  constructor({ port = DEFAULT_PORT, logDir, lineId = DEFAULT_LINE_ID, name } = {}) {
     super();
     this.port = port;
     this.logDir = logDir;
+    this.lineId = lineId;
+    this.name = name || lineId;
     this.server = null;
     /** @type {net.Socket|null} */
     this.activeSocket = null;
     this.decoder = new FrameDecoder();
     this.state = {
+      lineId,
+      name: this.name,
+      logFile: this._logName(),
       listening: false,
       port,
       connected: false,
@@ -46,9 +58,13 @@ class TntServer extends EventEmitter {
     }
   }
 
+  _logName() {
+    return this.lineId === DEFAULT_LINE_ID ? 'tnt-uplink.log' : `tnt-uplink-${this.lineId}.log`;
+  }
+
   _logPath() {
     if (!this.logDir) return null;
-    return path.join(this.logDir, 'tnt-uplink.log');
+    return path.join(this.logDir, this._logName());
   }
 
   _writeLog(line) {
@@ -67,6 +83,7 @@ class TntServer extends EventEmitter {
     const name = OPCODE_NAMES[opcode] || `0x${opcode.toString(16).padStart(2,'0')}`;
     const json = parseJsonPayload(payload);
     const entry = {
+      lineId: this.lineId,
       dir, opcode, name, at: stamp(),
       size: payload ? payload.length : 0,
       json,
@@ -171,4 +188,4 @@ class TntServer extends EventEmitter {
   _sendNack(reason) { return this.send(OPCODES.NACK, { reason }); }
 }
 
-module.exports = { TntServer, DEFAULT_PORT, OPCODES };
+module.exports = { TntServer, DEFAULT_PORT, DEFAULT_LINE_ID, OPCODES };
@@ -13,6 +13,7 @@ import ScanPage from "./pages/ScanPage";
 import TwinCodePage from "./pages/TwinCodePage";
 import TwinCodeScreenPage from "./pages/TwinCodeScreenPage";
 import FaultDemoPage from "./pages/FaultDemoPage";
+import FleetPage from "./pages/FleetPage";
 import { UpdateNotification } from "./components/UpdateNotification";
 import { SplashScreen } from "./components/SplashScreen";
 import { LicenseProvider } from "./contexts/LicenseContext";
@@ -66,6 +67,7 @@ const App = () => {
                   <Route path="/twin-code" element={<TwinCodePage />} />
                   <Route path="/twin-code/screen" element={<TwinCodeScreenPage />} />
                   <Route path="/fault-demo" element={<FaultDemoPage />} />
+                  <Route path="/fleet" element={<FleetPage />} />
                   <Route path="*" element={<NotFound />} />
                 </Routes>
               </HashRouter>
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import * as AlertDialogPrimitive from '@radix-ui/react-alert-dialog';
 import { useAuthenticatedImage } from '@/lib/authenticatedImage';
+import { FaultTroubleshooting } from '@/components/alerts/FaultTroubleshooting';
 
 
 
@@ -21,6 +22,8 @@ interface FaultAlertDialogProps {
    * clearing one fault from the printer itself.
    */
   onDismissFault?: (command: string) => Promise<{ success: boolean; response: string }>;
+  /** Called with each dismissed code — acknowledges its notification incidents. */
+  onAcknowledge?: (code: string) => void;
 }
 
 const SNOOZE_DURATION_MS = 3 * 60 * 1000; // 3 minutes
@@ -52,7 +55,7 @@ const normalizeFaultCodeForAsset = (rawCode: string) => {
  *   set), so a snooze-expired fault re-triggers reliably even if the polling
  *   payload is identical between cycles.
  */
-export function FaultAlertDialog({ faults, isConnected, onDismissFault }: FaultAlertDialogProps) {
+export function FaultAlertDialog({ faults, isConnected, onDismissFault, onAcknowledge }: FaultAlertDialogProps) {
   // Deduplicate by code — duplicated ^LE entries (e.g. Makeup reported twice)
   // must never produce two popups for the same code.
   const dedupedFaults = useMemo(() => {
@@ -246,10 +249,11 @@ export function FaultAlertDialog({ faults, isConnected, onDismissFault }: FaultA
     // Snooze so it doesn't re-pop immediately if the printer keeps reporting
     // it on the next ^LE cycle.
     snoozedRef.current.set(dismissedCode, Date.now() + SNOOZE_DURATION_MS);
+    onAcknowledge?.(dismissedCode);
 
     const remaining = queueCodes.filter((c) => c !== dismissedCode);
     setQueueCodes(remaining);
-  }, [currentFault, queueCodes, onDismissFault]);
+  }, [currentFault, queueCodes, onDismissFault, onAcknowledge]);
 
   const handleDismissAll = useCallback(() => {
     // Snooze every code currently in the queue and send one ^CA per fault so
@@ -257,6 +261,7 @@ export function FaultAlertDialog({ faults, isConnected, onDismissFault }: FaultA
     const now = Date.now();
     for (const code of queueCodes) {
       snoozedRef.current.set(code, now + SNOOZE_DURATION_MS);
+      onAcknowledge?.(code);
       if (onDismissFault) {
         pendingDismissesRef.current += 1;
         void onDismissFault('^CA').catch((err) => {
@@ -265,7 +270,7 @@ export function FaultAlertDialog({ faults, isConnected, onDismissFault }: FaultA
       }
     }
     setQueueCodes([]);
-  }, [queueCodes, onDismissFault]);
+  }, [queueCodes, onDismissFault, onAcknowledge]);
 
 
   // Allow snooze to expire so the fault can pop again later if still active.
@@ -360,6 +365,12 @@ export function FaultAlertDialog({ faults, isConnected, onDismissFault }: FaultA
                 />
               </div>
             )}
+
+            <FaultTroubleshooting
+              code={currentFault.code}
+              message={currentFault.message}
+              className="border-t border-border px-4 py-3"
+            />
           </div>
 
 
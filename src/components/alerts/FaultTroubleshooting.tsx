@@ -0,0 +1,43 @@
+import { lookupFault } from '@/lib/faultCatalog';
+import { cn } from '@/lib/utils';
+
+interface FaultTroubleshootingProps {
+  code: string;
+  /** Message the printer reported, used when the code isn't in the catalog */
+  message?: string;
+  className?: string;
+}
+
+/** Knowledge base entry for a fault code: what it means, probable causes and remedy steps. */
+export function FaultTroubleshooting({ code, message, className }: FaultTroubleshootingProps) {
+  const info = lookupFault(code, message);
+
+  return (
+    <div className={cn('space-y-2 text-sm leading-snug', className)}>
+      <div>
+        <div className="font-semibold text-foreground">
+          {info.title}
+          <span className="ml-2 text-xs font-normal text-muted-foreground">{info.subsystem}</span>
+        </div>
+        <p className="text-muted-foreground">{info.meaning}</p>
+        {!info.known && (
+          <p className="text-xs italic text-muted-foreground">Not in the catalog — general {info.subsystem.toLowerCase()} guidance below.</p>
+        )}
+      </div>
+      {info.causes.length > 0 && (
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Probable causes</div>
+          <ul className="list-disc pl-5">
+            {info.causes.map((c) => <li key={c}>{c}</li>)}
+          </ul>
+        </div>
+      )}
+      <div>
+        <div className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">What to do</div>
+        <ol className="list-decimal pl-5">
+          {info.remedies.map((r) => <li key={r}>{r}</li>)}
+        </ol>
+      </div>
+    </div>
+  );
+}
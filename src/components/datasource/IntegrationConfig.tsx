@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import {
   Webhook, FolderOpen, Database, Copy, CheckCircle2,
-  Globe, Server, HardDrive, RefreshCw, Info,
+  Globe, Server, HardDrive, RefreshCw, Info, PlugZap, RotateCcw, AlertTriangle,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,7 +14,15 @@ import {
 import {
   Tooltip, TooltipContent, TooltipProvider, TooltipTrigger,
 } from '@/components/ui/tooltip';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
+import { useDbIntegration } from '@/hooks/useDbIntegration';
+import { useHotfolder } from '@/hooks/useHotfolder';
+import type { DbDriver } from '@/types/electron';
+
+const DB_DEFAULT_PORTS: Record<DbDriver, string> = { mysql: '3306', postgres: '5432', sqlite: '' };
 
 interface IntegrationConfigProps {
   projectId: string;
@@ -25,6 +33,10 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
   const [hotfolderPath, setHotfolderPath] = useState('');
   const [hotfolderEnabled, setHotfolderEnabled] = useState(false);
   const [hotfolderPolling, setHotfolderPolling] = useState(5);
+  const [hotfolderStableSeconds, setHotfolderStableSeconds] = useState(2);
+  const [hotfolderArchive, setHotfolderArchive] = useState(true);
+  const [hotfolderSourceName, setHotfolderSourceName] = useState('');
+  const hotfolder = useHotfolder();
   const [dbHost, setDbHost] = useState('');
   const [dbPort, setDbPort] = useState('3306');
   const [dbName, setDbName] = useState('');
@@ -32,6 +44,17 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
   const [dbUser, setDbUser] = useState('');
   const [dbPollingInterval, setDbPollingInterval] = useState(10);
   const [dbEnabled, setDbEnabled] = useState(false);
+  const [dbDriver, setDbDriver] = useState<DbDriver>('mysql');
+  const [dbFile, setDbFile] = useState('');
+  const [dbPassword, setDbPassword] = useState('');
+  const [dbHasPassword, setDbHasPassword] = useState(false);
+  const [dbWatermark, setDbWatermark] = useState('');
+  const [dbKeyColumn, setDbKeyColumn] = useState('');
+  const [dbAckColumn, setDbAckColumn] = useState('');
+  const [dbAckValue, setDbAckValue] = useState('1');
+  const [dbSourceName, setDbSourceName] = useState('');
+  const [dbTesting, setDbTesting] = useState(false);
+  const db = useDbIntegration();
 
   const isElectron = !!(window as any).electronAPI?.isElectron;
 
@@ -57,11 +80,50 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
           setDbUser(config.database.user || '');
           setDbPollingInterval(config.database.pollingSeconds || 10);
           setDbEnabled(config.database.enabled || false);
+          setDbDriver(config.database.driver || 'mysql');
+          setDbFile(config.database.file || '');
+          setDbWatermark(config.database.watermarkColumn || '');
+          setDbKeyColumn(config.database.keyColumn || '');
+          setDbAckColumn(config.database.ackColumn || '');
+          setDbAckValue(config.database.ackValue || '1');
+          setDbSourceName(config.database.sourceName || '');
         }
       }
     } catch {}
   }, []);
 
+  // The watcher's / poller's own config in main wins over the localStorage copy.
+  const hotfolderSaved = hotfolder.config;
+  useEffect(() => {
+    if (!hotfolderSaved) return;
+    setHotfolderPath(hotfolderSaved.path);
+    setHotfolderEnabled(hotfolderSaved.enabled);
+    setHotfolderPolling(hotfolderSaved.pollingSeconds);
+    setHotfolderStableSeconds(hotfolderSaved.stableMs / 1000);
+    setHotfolderArchive(hotfolderSaved.archive);
+    setHotfolderSourceName(hotfolderSaved.sourceName);
+  }, [hotfolderSaved]);
+
+  const dbSaved = db.config;
+  useEffect(() => {
+    if (!dbSaved) return;
+    setDbDriver(dbSaved.driver);
+    setDbHost(dbSaved.host);
+    setDbPort(dbSaved.driver === 'sqlite' ? '' : String(dbSaved.port));
+    setDbName(dbSaved.database);
+    setDbFile(dbSaved.file);
+    setDbTable(dbSaved.table);
+    setDbUser(dbSaved.user);
+    setDbHasPassword(dbSaved.hasPassword);
+    setDbWatermark(dbSaved.watermarkColumn);
+    setDbKeyColumn(dbSaved.keyColumn === dbSaved.watermarkColumn ? '' : dbSaved.keyColumn);
+    setDbAckColumn(dbSaved.ackColumn);
+    setDbAckValue(dbSaved.ackValue);
+    setDbSourceName(dbSaved.sourceName);
+    setDbPollingInterval(dbSaved.pollingSeconds);
+    setDbEnabled(dbSaved.enabled);
+  }, [dbSaved]);
+
   const saveConfig = (updates: Record<string, any>) => {
     try {
       const saved = localStorage.getItem('codesync-integrations');
@@ -83,42 +145,106 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
     toast.success('API key copied');
   };
 
-  const handleSaveHotfolder = () => {
-    saveConfig({
-      hotfolder: {
-        path: hotfolderPath,
-        enabled: hotfolderEnabled,
-        pollingSeconds: hotfolderPolling,
-      },
-    });
+  const handleSaveHotfolder = async () => {
+    const next = {
+      path: hotfolderPath,
+      enabled: hotfolderEnabled,
+      pollingSeconds: hotfolderPolling,
+      stableMs: Math.round(hotfolderStableSeconds * 1000),
+      archive: hotfolderArchive,
+      sourceName: hotfolderSourceName,
+    };
+    saveConfig({ hotfolder: next });
 
     // Notify Electron if available
-    if (isElectron && (window as any).electronAPI?.hotfolder?.configure) {
-      (window as any).electronAPI.hotfolder.configure({
-        path: hotfolderPath,
-        enabled: hotfolderEnabled,
-        pollingSeconds: hotfolderPolling,
-      });
-    }
+    await hotfolder.configure(next);
 
     toast.success('Hotfolder settings saved');
   };
 
-  const handleSaveDatabase = () => {
+  const handleClearProcessed = async () => {
+    await hotfolder.clearProcessed();
+    toast.info('Processed-file history cleared — identical files will import again');
+  };
+
+  const hotfolderStatus = hotfolder.status;
+  const hotfolderError = hotfolderStatus?.folderError || hotfolderStatus?.lastError;
+
+  const dbFormConfig = () => ({
+    enabled: dbEnabled,
+    driver: dbDriver,
+    host: dbHost,
+    port: Number(dbPort) || undefined,
+    database: dbName,
+    file: dbFile,
+    user: dbUser,
+    // Blank keeps the stored password.
+    ...(dbPassword ? { password: dbPassword } : {}),
+    table: dbTable,
+    watermarkColumn: dbWatermark,
+    keyColumn: dbKeyColumn,
+    ackColumn: dbAckColumn,
+    ackValue: dbAckValue,
+    sourceName: dbSourceName,
+    pollingSeconds: dbPollingInterval,
+  });
+
+  const handleDriverChange = (driver: DbDriver) => {
+    if (dbPort === DB_DEFAULT_PORTS[dbDriver] || !dbPort) setDbPort(DB_DEFAULT_PORTS[driver]);
+    setDbDriver(driver);
+  };
+
+  const handleSaveDatabase = async () => {
     saveConfig({
       database: {
+        driver: dbDriver,
         host: dbHost,
         port: dbPort,
         name: dbName,
+        file: dbFile,
         table: dbTable,
         user: dbUser,
+        watermarkColumn: dbWatermark,
+        keyColumn: dbKeyColumn,
+        ackColumn: dbAckColumn,
+        ackValue: dbAckValue,
+        sourceName: dbSourceName,
         pollingSeconds: dbPollingInterval,
         enabled: dbEnabled,
       },
     });
-    toast.success('Database connection settings saved');
+    if (!db.supported) {
+      toast.success('Database connection settings saved');
+      return;
+    }
+    const res = await db.configure(dbFormConfig());
+    setDbPassword('');
+    if (res.success) toast.success(dbEnabled ? 'Database polling started' : 'Database connection settings saved');
+    else toast.error(`Saved, but polling can't start: ${res.error}`);
+  };
+
+  const handleTestDatabase = async () => {
+    setDbTesting(true);
+    try {
+      const res = await db.testConnection(dbFormConfig());
+      if (res.success) {
+        toast.success(`Connected — ${res.columns?.length ?? 0} columns, latest ${dbWatermark} = ${res.latestWatermark ?? '(empty table)'}`);
+      } else {
+        toast.error(`Connection failed: ${res.error}`);
+      }
+    } finally {
+      setDbTesting(false);
+    }
+  };
+
+  const handleResetWatermark = async () => {
+    await db.resetWatermark(null);
+    toast.info('Watermark cleared — the next poll re-reads the table from the start');
   };
 
+  const dbStatus = db.status;
+  const dbDriverMissing = dbStatus ? !dbStatus.drivers[dbDriver] : false;
+
   const curlExample = `curl -X POST "${apiEndpoint}" \\
   -H "apikey: YOUR_API_KEY" \\
   -H "Content-Type: application/json" \\
@@ -204,13 +330,18 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
               {!isElectron && (
                 <Badge variant="secondary" className="ml-auto text-xs">Desktop Only</Badge>
               )}
-              {isElectron && hotfolderEnabled && (
+              {isElectron && hotfolderStatus?.running && !hotfolderStatus.folderError && (
                 <Badge className="ml-auto text-xs bg-green-600">Active</Badge>
               )}
+              {isElectron && hotfolderStatus?.running && hotfolderStatus.folderError && (
+                <Badge variant="destructive" className="ml-auto text-xs">Error</Badge>
+              )}
             </div>
             <CardDescription className="text-xs">
-              Monitor a local or network folder for new CSV files. When a file appears, 
+              Monitor a local or network folder for new CSV, TSV, JSON or XML files. When a file appears,
               it's auto-imported as a data source — just like BarTender's hotfolder integration.
+              Imported files move to <code>processed/</code>; files that can't be read move to{' '}
+              <code>error/</code> with a <code>.error.txt</code> report.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
@@ -240,20 +371,82 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
                     className="mt-1 font-mono text-xs"
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label className="text-xs">Poll Interval (seconds)</Label>
+                    <Input
+                      type="number"
+                      value={hotfolderPolling}
+                      onChange={(e) => setHotfolderPolling(Number(e.target.value))}
+                      min={1}
+                      max={300}
+                      className="mt-1 w-24"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs flex items-center gap-1">
+                      Stable For (seconds)
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="w-3 h-3 text-muted-foreground" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs text-xs">
+                          A file is only read once its size and timestamp stop changing for this long,
+                          so exports still being copied aren't imported half-written.
+                        </TooltipContent>
+                      </Tooltip>
+                    </Label>
+                    <Input
+                      type="number"
+                      value={hotfolderStableSeconds}
+                      onChange={(e) => setHotfolderStableSeconds(Number(e.target.value))}
+                      min={0}
+                      max={60}
+                      step={0.5}
+                      className="mt-1 w-24"
+                    />
+                  </div>
+                </div>
                 <div>
-                  <Label className="text-xs">Poll Interval (seconds)</Label>
+                  <Label className="text-xs">Append To Data Source (optional)</Label>
                   <Input
-                    type="number"
-                    value={hotfolderPolling}
-                    onChange={(e) => setHotfolderPolling(Number(e.target.value))}
-                    min={1}
-                    max={300}
-                    className="mt-1 w-24"
+                    value={hotfolderSourceName}
+                    onChange={(e) => setHotfolderSourceName(e.target.value)}
+                    placeholder="Blank = one data source per file"
+                    className="mt-1 text-xs"
                   />
                 </div>
-                <Button size="sm" onClick={handleSaveHotfolder}>
-                  <RefreshCw className="w-4 h-4 mr-1" /> Save & Apply
-                </Button>
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">Move files to processed / error folders</Label>
+                  <Switch checked={hotfolderArchive} onCheckedChange={setHotfolderArchive} />
+                </div>
+                {hotfolderStatus && (hotfolderStatus.running || hotfolderError) && (
+                  <div className="rounded-lg bg-muted p-2 text-[10px] space-y-0.5">
+                    {hotfolderError && (
+                      <p className="flex items-start gap-1 text-destructive">
+                        <AlertTriangle className="w-3 h-3 mt-px shrink-0" /> {hotfolderError}
+                      </p>
+                    )}
+                    <p className="text-muted-foreground">
+                      {hotfolderStatus.filesImported} imported · {hotfolderStatus.filesFailed} failed this session
+                      {hotfolderStatus.waiting.length > 0 && ` · waiting for ${hotfolderStatus.waiting.join(', ')} to finish writing`}
+                    </p>
+                    {hotfolderStatus.recent.slice(0, 5).map((r) => (
+                      <p key={`${r.at}-${r.fileName}`} className="text-muted-foreground truncate">
+                        {new Date(r.at).toLocaleTimeString()} · <span className="font-mono">{r.fileName}</span> ·{' '}
+                        {r.status === 'imported' ? `${r.rows} row(s)` : r.status === 'duplicate' ? 'duplicate, skipped' : r.error}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={handleSaveHotfolder}>
+                    <RefreshCw className="w-4 h-4 mr-1" /> Save & Apply
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={handleClearProcessed}>
+                    <RotateCcw className="w-4 h-4 mr-1" /> Clear Processed History
+                  </Button>
+                </div>
               </>
             )}
           </CardContent>
@@ -268,14 +461,17 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
               {!isElectron && (
                 <Badge variant="secondary" className="ml-auto text-xs">Desktop Only</Badge>
               )}
-              {isElectron && dbEnabled && (
+              {isElectron && dbStatus?.running && !dbStatus.lastError && (
                 <Badge className="ml-auto text-xs bg-green-600">Active</Badge>
               )}
+              {isElectron && dbStatus?.running && dbStatus.lastError && (
+                <Badge variant="destructive" className="ml-auto text-xs">Error</Badge>
+              )}
             </div>
             <CardDescription className="text-xs">
-              Connect directly to CANIX or another ERP database via ODBC/MySQL. 
-              CodeSync polls the table for new rows and auto-imports them — 
-              same approach BarTender uses for database-driven printing.
+              Connect directly to CANIX or another ERP database (MySQL, PostgreSQL or SQLite).
+              CodeSync polls the table for rows past the last watermark and appends them to a
+              data source — same approach BarTender uses for database-driven printing.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
@@ -297,49 +493,148 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
                     onCheckedChange={setDbEnabled}
                   />
                 </div>
+                <div>
+                  <Label className="text-xs">Driver</Label>
+                  <Select value={dbDriver} onValueChange={(v) => handleDriverChange(v as DbDriver)}>
+                    <SelectTrigger className="mt-1 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mysql">MySQL / MariaDB</SelectItem>
+                      <SelectItem value="postgres">PostgreSQL</SelectItem>
+                      <SelectItem value="sqlite">SQLite (local file)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {dbDriverMissing && (
+                    <p className="text-[10px] text-amber-500 mt-1">This driver isn't installed in this build.</p>
+                  )}
+                </div>
                 <div className="grid grid-cols-2 gap-3">
+                  {dbDriver === 'sqlite' ? (
+                    <div className="col-span-2">
+                      <Label className="text-xs">Database File</Label>
+                      <Input
+                        value={dbFile}
+                        onChange={(e) => setDbFile(e.target.value)}
+                        placeholder="C:\CANIX\print_queue.db"
+                        className="mt-1 font-mono text-xs"
+                      />
+                    </div>
+                  ) : (
+                    <>
+                      <div>
+                        <Label className="text-xs">Host</Label>
+                        <Input
+                          value={dbHost}
+                          onChange={(e) => setDbHost(e.target.value)}
+                          placeholder="192.168.1.100"
+                          className="mt-1 text-xs"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Port</Label>
+                        <Input
+                          value={dbPort}
+                          onChange={(e) => setDbPort(e.target.value)}
+                          placeholder={DB_DEFAULT_PORTS[dbDriver]}
+                          className="mt-1 text-xs"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Database</Label>
+                        <Input
+                          value={dbName}
+                          onChange={(e) => setDbName(e.target.value)}
+                          placeholder="canix_production"
+                          className="mt-1 text-xs"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Username</Label>
+                        <Input
+                          value={dbUser}
+                          onChange={(e) => setDbUser(e.target.value)}
+                          placeholder="readonly_user"
+                          className="mt-1 text-xs"
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <Label className="text-xs">Password</Label>
+                        <Input
+                          type="password"
+                          value={dbPassword}
+                          onChange={(e) => setDbPassword(e.target.value)}
+                          placeholder={dbHasPassword ? '•••••••• (unchanged)' : ''}
+                          autoComplete="new-password"
+                          className="mt-1 text-xs"
+                        />
+                      </div>
+                    </>
+                  )}
                   <div>
-                    <Label className="text-xs">Host</Label>
+                    <Label className="text-xs">Table / View</Label>
                     <Input
-                      value={dbHost}
-                      onChange={(e) => setDbHost(e.target.value)}
-                      placeholder="192.168.1.100"
+                      value={dbTable}
+                      onChange={(e) => setDbTable(e.target.value)}
+                      placeholder="print_queue"
                       className="mt-1 text-xs"
                     />
                   </div>
                   <div>
-                    <Label className="text-xs">Port</Label>
+                    <Label className="text-xs flex items-center gap-1">
+                      Watermark Column
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="w-3 h-3 text-muted-foreground" />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs text-xs">
+                          An ever-increasing column such as an auto-increment id or created_at.
+                          Only rows with a higher value than the last import are read.
+                        </TooltipContent>
+                      </Tooltip>
+                    </Label>
                     <Input
-                      value={dbPort}
-                      onChange={(e) => setDbPort(e.target.value)}
-                      placeholder="3306"
+                      value={dbWatermark}
+                      onChange={(e) => setDbWatermark(e.target.value)}
+                      placeholder="id"
                       className="mt-1 text-xs"
                     />
                   </div>
                   <div>
-                    <Label className="text-xs">Database</Label>
+                    <Label className="text-xs">Acknowledge Column (optional)</Label>
                     <Input
-                      value={dbName}
-                      onChange={(e) => setDbName(e.target.value)}
-                      placeholder="canix_production"
+                      value={dbAckColumn}
+                      onChange={(e) => setDbAckColumn(e.target.value)}
+                      placeholder="printed"
                       className="mt-1 text-xs"
                     />
                   </div>
                   <div>
-                    <Label className="text-xs">Table / View</Label>
+                    <Label className="text-xs">Acknowledge Value</Label>
                     <Input
-                      value={dbTable}
-                      onChange={(e) => setDbTable(e.target.value)}
-                      placeholder="print_queue"
+                      value={dbAckValue}
+                      onChange={(e) => setDbAckValue(e.target.value)}
+                      placeholder="1"
+                      disabled={!dbAckColumn}
                       className="mt-1 text-xs"
                     />
                   </div>
                   <div>
-                    <Label className="text-xs">Username</Label>
+                    <Label className="text-xs">Row Key Column</Label>
                     <Input
-                      value={dbUser}
-                      onChange={(e) => setDbUser(e.target.value)}
-                      placeholder="readonly_user"
+                      value={dbKeyColumn}
+                      onChange={(e) => setDbKeyColumn(e.target.value)}
+                      placeholder={dbWatermark || 'same as watermark'}
+                      disabled={!dbAckColumn}
+                      className="mt-1 text-xs"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Data Source Name</Label>
+                    <Input
+                      value={dbSourceName}
+                      onChange={(e) => setDbSourceName(e.target.value)}
+                      placeholder={dbTable ? `DB ${dbTable}` : 'DB Import'}
                       className="mt-1 text-xs"
                     />
                   </div>
@@ -357,10 +652,46 @@ export function IntegrationConfig({ projectId }: IntegrationConfigProps) {
                 </div>
                 <p className="text-[10px] text-muted-foreground">
                   Password is stored securely in the desktop keychain — not shown here.
+                  With an acknowledge column set, each imported row is marked in the source table.
                 </p>
-                <Button size="sm" onClick={handleSaveDatabase}>
-                  <HardDrive className="w-4 h-4 mr-1" /> Save Connection
-                </Button>
+                {dbStatus && (dbStatus.running || dbStatus.lastError) && (
+                  <div className="rounded-lg bg-muted p-2 text-[10px] space-y-0.5">
+                    {dbStatus.lastError && (
+                      <p className="flex items-start gap-1 text-destructive">
+                        <AlertTriangle className="w-3 h-3 mt-px shrink-0" /> {dbStatus.lastError}
+                      </p>
+                    )}
+                    <p className="text-muted-foreground">
+                      Watermark: <span className="font-mono">{dbStatus.watermark ?? '(start of table)'}</span>
+                      {' · '}{dbStatus.rowsImported} row(s) imported this session
+                      {dbStatus.pendingRows > 0 && ` · ${dbStatus.pendingRows} awaiting import`}
+                    </p>
+                    {dbStatus.lastPollAt && (
+                      <p className="text-muted-foreground">
+                        Last poll {new Date(dbStatus.lastPollAt).toLocaleTimeString()}
+                        {dbStatus.lastImportAt && ` · last import ${new Date(dbStatus.lastImportAt).toLocaleTimeString()}`}
+                      </p>
+                    )}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={handleSaveDatabase}>
+                    <HardDrive className="w-4 h-4 mr-1" /> Save & Apply
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={handleTestDatabase} disabled={dbTesting}>
+                    <PlugZap className="w-4 h-4 mr-1" /> {dbTesting ? 'Testing…' : 'Test Connection'}
+                  </Button>
+                  {dbStatus?.running && (
+                    <Button size="sm" variant="outline" onClick={() => db.pollNow()}>
+                      <RefreshCw className="w-4 h-4 mr-1" /> Poll Now
+                    </Button>
+                  )}
+                  {dbStatus?.watermark != null && (
+                    <Button size="sm" variant="ghost" onClick={handleResetWatermark}>
+                      <RotateCcw className="w-4 h-4 mr-1" /> Reset Watermark
+                    </Button>
+                  )}
+                </div>
               </>
             )}
           </CardContent>
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { printerEmulator, EmulatorState, CommandLogEntry, PROTOCOL_COMMANDS } from '@/lib/printerEmulator';
 import { multiPrinterEmulator } from '@/lib/multiPrinterEmulator';
+import { DRIFT_SCENARIOS, startDrift, stopDrift, subscribeDrift, getActiveDrift, type ActiveDrift } from '@/lib/emulatorDrift';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
 import { 
@@ -34,7 +35,8 @@ import {
   Signal,
   Video,
   AlertTriangle,
-  Activity
+  Activity,
+  TrendingUp
 } from 'lucide-react';
 import { CommandTerminal } from '@/components/terminal/CommandTerminal';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -51,6 +53,7 @@ import { TrainingVideoRecorder } from '@/components/dev/TrainingVideoRecorder';
 import { ParameterSnapshot } from '@/components/dev/ParameterSnapshot';
 import { DevInvitePanel } from '@/components/dev/DevInvitePanel';
 import { SlaveSelectionAckTest } from '@/components/dev/SlaveSelectionAckTest';
+import { SerialEmulatorEndpointsPanel } from '@/components/dev/SerialEmulatorEndpointsPanel';
 import { TwinPairBindDialog } from '@/twin-code/components/TwinPairBindDialog';
 import { useTwinPair } from '@/twin-code/twinPairStore';
 import { useLicense, type LicenseTier } from '@/contexts/LicenseContext';
@@ -164,6 +167,9 @@ export function DevPanel({ isOpen, onToggle, connectedPrinterIp, connectedPrinte
   const [activeTab, setActiveTab] = useState(defaultTab || 'status');
   const [twinPairOpen, setTwinPairOpen] = useState(false);
   const twinPair = useTwinPair();
+  const [drift, setDrift] = useState<ActiveDrift | null>(getActiveDrift());
+  const [driftSpeed, setDriftSpeed] = useState(1);
+  useEffect(() => subscribeDrift(setDrift), []);
 
   // Whether we can send commands: either via emulator or via real printer
   const canSendCommands = emulatorEnabled || (!!window.electronAPI && connectedPrinterId != null);
@@ -713,6 +719,57 @@ export function DevPanel({ isOpen, onToggle, connectedPrinterIp, connectedPrinte
                       );
                     })}
                   </div>
+
+                  {/* Scripted drifts for the fault predictor */}
+                  <h3 className="text-xs font-semibold text-muted-foreground mt-4 mb-3 uppercase tracking-wider">
+                    Scripted Drifts
+                  </h3>
+                  <div className="grid grid-cols-2 gap-2">
+                    {DRIFT_SCENARIOS.map(scenario => {
+                      const isActive = drift?.scenario === scenario.id;
+                      return (
+                        <button
+                          key={scenario.id}
+                          title={scenario.description}
+                          onClick={() => {
+                            if (isActive) stopDrift();
+                            else startDrift(getConnectedEmulator(), scenario.id, driftSpeed);
+                          }}
+                          disabled={!emulatorEnabled}
+                          className={cn(
+                            "flex items-center gap-2 px-3 py-2 rounded-md text-xs font-medium transition-all border",
+                            isActive
+                              ? "bg-warning/20 text-warning border-warning/60"
+                              : "bg-muted text-muted-foreground border-border hover:bg-muted/80",
+                            !emulatorEnabled && "opacity-50 cursor-not-allowed"
+                          )}
+                        >
+                          <TrendingUp className="w-3.5 h-3.5" />
+                          {scenario.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                    <span>Speed</span>
+                    {[1, 5, 20].map(speed => (
+                      <button
+                        key={speed}
+                        onClick={() => setDriftSpeed(speed)}
+                        className={cn(
+                          "px-2 py-0.5 rounded border",
+                          driftSpeed === speed ? "border-primary text-primary" : "border-border"
+                        )}
+                      >
+                        {speed}×
+                      </button>
+                    ))}
+                    {drift && (
+                      <span className="ml-auto">
+                        Running since {new Date(drift.startedAt).toLocaleTimeString()}
+                      </span>
+                    )}
+                  </div>
                 </div>
 
                 {/* Metrics */}
@@ -1011,6 +1068,8 @@ export function DevPanel({ isOpen, onToggle, connectedPrinterIp, connectedPrinte
             {/* Network Tab */}
             <TabsContent value="network" className="flex-1 overflow-hidden m-0">
               <ScrollArea className="h-full p-4">
+                <SerialEmulatorEndpointsPanel />
+
                 <div className="flex items-center gap-2 mb-3">
                   <Network className="w-4 h-4 text-muted-foreground" />
                   <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
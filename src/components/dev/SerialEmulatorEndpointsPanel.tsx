@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { Cable } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { serialEmulatorBridge, type SerialEmulatorBridgeState } from '@/lib/serialEmulatorBridge';
+
+/**
+ * Dev toggle for the emulator's pseudo-serial endpoints (Electron only).
+ * Add a printer with Connection = Serial and one of the listed `emu:` ports,
+ * turn the Emulator switch OFF, and main drives it through the real serial
+ * transport.
+ */
+export function SerialEmulatorEndpointsPanel() {
+  const [state, setState] = useState<SerialEmulatorBridgeState>(serialEmulatorBridge.getState());
+  useEffect(() => serialEmulatorBridge.subscribe(setState), []);
+
+  if (!window.electronAPI?.serial) return null;
+
+  return (
+    <div className="mb-4 rounded-md border border-border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Cable className="w-4 h-4 text-muted-foreground" />
+          <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            Pseudo-Serial Endpoints
+          </h3>
+        </div>
+        <Switch checked={state.enabled} onCheckedChange={(v) => serialEmulatorBridge.setEnabled(v)} />
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Serves each emulated printer as a serial port so the Electron serial transport can be tested
+        without hardware. Use with the Emulator switch off.
+      </p>
+      {state.enabled && (
+        <ul className="space-y-0.5">
+          {state.endpoints.length === 0 && <li className="text-[10px] text-muted-foreground">No emulated printers configured</li>}
+          {state.endpoints.map((e) => (
+            <li key={e.path} className="flex justify-between text-[10px]">
+              <span className="font-mono">{e.path}</span>
+              <span className="text-muted-foreground">{e.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
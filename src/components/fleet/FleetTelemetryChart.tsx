@@ -0,0 +1,83 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
+} from 'recharts';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { fetchFleetHistory, type FleetTelemetry } from '@/lib/fleetDashboard';
+
+type Series = 'pressure' | 'viscosity' | 'modulation' | 'rps' | 'printhead_temp' | 'electronics_temp';
+
+const SERIES: { key: Series; label: string; color: string }[] = [
+  { key: 'pressure', label: 'Pressure', color: 'hsl(var(--primary))' },
+  { key: 'viscosity', label: 'Viscosity', color: '#f59e0b' },
+  { key: 'modulation', label: 'Modulation', color: '#10b981' },
+  { key: 'rps', label: 'RPS', color: '#6366f1' },
+  { key: 'printhead_temp', label: 'Head °C', color: '#ef4444' },
+  { key: 'electronics_temp', label: 'Electronics °C', color: '#8b5cf6' },
+];
+
+interface FleetTelemetryChartProps {
+  printerId: string;
+}
+
+/** One printer's telemetry over a selectable window, one metric at a time. */
+export function FleetTelemetryChart({ printerId }: FleetTelemetryChartProps) {
+  const [hours, setHours] = useState('24');
+  const [series, setSeries] = useState<Series>('pressure');
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['fleet-history', printerId, hours],
+    queryFn: () => fetchFleetHistory(printerId, Number(hours)),
+    refetchInterval: 60_000,
+  });
+
+  const points = useMemo(() => (data ?? []).map((t: FleetTelemetry) => ({
+    at: new Date(t.recorded_at).getTime(),
+    value: t[series],
+  })).filter((p) => p.value != null), [data, series]);
+  const active = SERIES.find((s) => s.key === series)!;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup type="single" size="sm" value={series} onValueChange={(v) => v && setSeries(v as Series)}>
+          {SERIES.map((s) => <ToggleGroupItem key={s.key} value={s.key} className="text-xs">{s.label}</ToggleGroupItem>)}
+        </ToggleGroup>
+        <ToggleGroup type="single" size="sm" value={hours} onValueChange={(v) => v && setHours(v)} className="ml-auto">
+          {['8', '24', '168'].map((h) => (
+            <ToggleGroupItem key={h} value={h} className="text-xs">{h === '168' ? '7d' : `${h}h`}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div className="h-56">
+        {error ? (
+          <div className="h-full flex items-center justify-center text-sm text-destructive">{(error as Error).message}</div>
+        ) : points.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            {isLoading ? 'Loading…' : 'No telemetry in this window'}
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 8, right: 12, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.5} />
+              <XAxis
+                dataKey="at"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                scale="time"
+                tickFormatter={(v) => new Date(v).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                fontSize={11}
+              />
+              <YAxis fontSize={11} width={48} domain={['auto', 'auto']} />
+              <Tooltip
+                labelFormatter={(v) => new Date(Number(v)).toLocaleString()}
+                formatter={(v: number) => [v, active.label]}
+              />
+              <Line type="monotone" dataKey="value" stroke={active.color} strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+}
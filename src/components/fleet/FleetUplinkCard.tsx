@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { CloudUpload, RefreshCw, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { fleetUplink } from '@/lib/fleetUplink';
+import { useFleetUplinkState } from '@/hooks/useFleetUplink';
+
+/** This PC's side of the fleet: which site it reports as, and the outbox. */
+export function FleetUplinkCard() {
+  const uplink = useFleetUplinkState();
+  const { settings } = uplink;
+  const [siteName, setSiteName] = useState(settings.siteName);
+  const [location, setLocation] = useState(settings.location);
+  const [sampleSeconds, setSampleSeconds] = useState(settings.sampleSeconds);
+
+  useEffect(() => {
+    setSiteName(settings.siteName);
+    setLocation(settings.location);
+    setSampleSeconds(settings.sampleSeconds);
+  }, [settings.siteName, settings.location, settings.sampleSeconds]);
+
+  const dirty = siteName.trim() !== settings.siteName
+    || location.trim() !== settings.location
+    || sampleSeconds !== settings.sampleSeconds;
+
+  const handleToggle = (enabled: boolean) => {
+    if (enabled && !siteName.trim()) {
+      toast.error('Enter a site name first');
+      return;
+    }
+    fleetUplink.configure({ enabled, siteName, location, sampleSeconds });
+  };
+
+  const handleSave = () => {
+    if (settings.enabled && !siteName.trim()) {
+      toast.error('Site name is required while the uplink is on');
+      return;
+    }
+    fleetUplink.configure({ siteName, location, sampleSeconds });
+    toast.success('Fleet uplink settings saved');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <CloudUpload className="w-4 h-4" /> Telemetry Uplink
+            </CardTitle>
+            <CardDescription>
+              Upload the connected printer's ^SU metrics, temperatures, faults, counters and firmware from this PC.
+            </CardDescription>
+          </div>
+          <Switch checked={settings.enabled} onCheckedChange={handleToggle} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Site name</Label>
+            <Input value={siteName} onChange={(e) => setSiteName(e.target.value)} placeholder="e.g. Plant 2 — Packaging" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Location</Label>
+            <Input value={location} onChange={(e) => setLocation(e.target.value)} placeholder="City, building" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Telemetry every (seconds)</Label>
+            <Input
+              type="number"
+              min={5}
+              max={3600}
+              value={sampleSeconds}
+              onChange={(e) => setSampleSeconds(Number(e.target.value))}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge variant={uplink.queued > 0 ? 'secondary' : 'outline'}>{uplink.queued} queued</Badge>
+          {!uplink.online && (
+            <Badge variant="outline" className="border-yellow-500 text-yellow-600">
+              <WifiOff className="w-3 h-3 mr-1" /> Offline — buffering
+            </Badge>
+          )}
+          {uplink.lastFlushAt && (
+            <span className="text-muted-foreground">
+              Last upload {new Date(uplink.lastFlushAt).toLocaleTimeString()} ({uplink.lastSentCount} entries)
+            </span>
+          )}
+          {uplink.lastError && <span className="text-destructive">{uplink.lastError}</span>}
+          <div className="ml-auto flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!settings.enabled || uplink.flushing || uplink.queued === 0}
+              onClick={() => { void fleetUplink.flush(true); }}
+            >
+              <RefreshCw className={`w-3.5 h-3.5 mr-1 ${uplink.flushing ? 'animate-spin' : ''}`} /> Upload Now
+            </Button>
+            <Button size="sm" disabled={!dirty} onClick={handleSave}>Save</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { Settings, Sun, Moon, Home, Smartphone, Maximize, Minimize, Stethoscope, HelpCircle, MessageSquare, Video, BookOpen, QrCode, Printer } from 'lucide-react';
+import { Settings, Sun, Moon, Home, Smartphone, Maximize, Minimize, Stethoscope, HelpCircle, MessageSquare, Video, BookOpen, QrCode, Printer, Globe } from 'lucide-react';
 import { printerEmulator } from '@/lib/printerEmulator';
 import { multiPrinterEmulator } from '@/lib/multiPrinterEmulator';
 import { useNavigate } from 'react-router-dom';
@@ -269,6 +269,14 @@ export function Header({ isConnected, connectedIp, onSettings, onHome, printerTi
                 <Stethoscope className="w-3.5 h-3.5 md:w-5 md:h-5 text-card" />
               </button>
 
+              <button
+                onClick={() => navigate('/fleet')}
+                className="w-8 h-8 md:w-12 md:h-12 rounded-full bg-muted-foreground/50 flex items-center justify-center hover:bg-muted-foreground/70 transition-colors flex-shrink-0"
+                title="Fleet Monitoring"
+              >
+                <Globe className="w-3.5 h-3.5 md:w-5 md:h-5 text-card" />
+              </button>
+
               {onHome && (
                 <button
                   onClick={onHome}
@@ -5,6 +5,7 @@ import { useLicense, type CompanionDevice } from '@/contexts/LicenseContext';
 import { QRCodeSVG } from 'qrcode.react';
 import { Smartphone, Loader2, RefreshCw, Timer, Trash2, CheckCircle2, Download, Apple, Copy, Share2, PlusSquare } from 'lucide-react';
 import { toast } from 'sonner';
+import { RelayDevicesPanel } from '@/components/relay/RelayDevicesPanel';
 
 interface PairMobileDialogProps {
   open: boolean;
@@ -217,6 +218,9 @@ export function PairMobileDialog({ open, onOpenChange }: PairMobileDialogProps)
           </div>
         </div>
 
+        {/* Relay access (Electron only) — pairing for "Connect via PC" */}
+        <RelayDevicesPanel active={open} />
+
         {/* Paired Devices List */}
         <div className="border-t pt-4">
           <div className="flex items-center justify-between mb-2">
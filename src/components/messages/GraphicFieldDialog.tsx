@@ -1,23 +1,23 @@
-import { useState } from 'react';
-import { Plus, ArrowLeft, ArrowUp, ArrowDown, Search } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Plus, ArrowLeft, ArrowUp, ArrowDown, ImagePlus, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
 import {
   Dialog,
   DialogContent,
   DialogTitle,
 } from '@/components/ui/dialog';
-
-// Simulated graphics that would be loaded on the printer
-const AVAILABLE_GRAPHICS = [
-  { number: 1, name: 'TRUPOINT.BMP' },
-  { number: 2, name: 'LOGO1.BMP' },
-  { number: 3, name: 'BARLOGO.BMP' },
-  { number: 4, name: 'WARNING.BMP' },
-  { number: 5, name: 'RECYCLE.BMP' },
-] as const;
+import { GraphicPreview } from '@/components/messages/GraphicPreview';
+import { GraphicImportDialog } from '@/components/messages/GraphicImportDialog';
+import { useGraphicLibrary } from '@/hooks/useGraphicLibrary';
+import { graphicLibrary } from '@/lib/graphicLibrary';
+import type { Printer } from '@/types/printer';
 
 export interface GraphicFieldConfig {
   number: number;
   name: string;
+  /** Known for graphics imported here; printer-only graphics leave these unset */
+  width?: number;
+  height?: number;
 }
 
 interface GraphicFieldDialogProps {
@@ -25,18 +25,68 @@ interface GraphicFieldDialogProps {
   onOpenChange: (open: boolean) => void;
   onBack: () => void;
   onAddGraphic: (config: GraphicFieldConfig) => void;
+  /** Message template height, the default size for imported graphics */
+  templateHeight?: number;
+  printers?: Printer[];
+  connectedPrinterId?: number | null;
 }
 
+/**
+ * Graphics stored on the connected printer (^LL), plus logos imported into
+ * the local library that haven't been uploaded to it yet.
+ */
 export function GraphicFieldDialog({ 
   open, 
   onOpenChange, 
   onBack,
-  onAddGraphic 
+  onAddGraphic,
+  templateHeight = 16,
+  printers = [],
+  connectedPrinterId = null,
 }: GraphicFieldDialogProps) {
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [importOpen, setImportOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [importedName, setImportedName] = useState<string | null>(null);
+  const library = useGraphicLibrary();
+  const connectedPrinter = printers.find((p) => p.id === connectedPrinterId) ?? null;
 
-  const graphics = AVAILABLE_GRAPHICS;
+  const graphics = useMemo(() => {
+    const onPrinter = connectedPrinterId != null ? library.printers[connectedPrinterId]?.names ?? [] : [];
+    const names = [...onPrinter];
+    for (const g of library.graphics) {
+      if (!names.some((n) => n.toUpperCase() === g.name.toUpperCase())) names.push(g.name);
+    }
+    return names.map((name, i) => ({
+      number: i + 1,
+      name,
+      onPrinter: onPrinter.includes(name),
+      graphic: graphicLibrary.find(name),
+    }));
+  }, [library, connectedPrinterId]);
   const selectedGraphic = graphics[selectedIndex];
+  const selectedBitmap = selectedGraphic?.graphic ? graphicLibrary.bitmap(selectedGraphic.name) : null;
+
+  const refresh = async () => {
+    if (!connectedPrinter) return;
+    setLoading(true);
+    try {
+      await graphicLibrary.fetchPrinterGraphics(connectedPrinter, connectedPrinterId);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not list printer graphics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, connectedPrinterId]);
+
+  useEffect(() => {
+    if (selectedIndex >= graphics.length) setSelectedIndex(Math.max(0, graphics.length - 1));
+  }, [graphics.length, selectedIndex]);
 
   const handleBack = () => {
     onOpenChange(false);
@@ -53,9 +103,14 @@ export function GraphicFieldDialog({
 
   const handleAdd = () => {
     if (selectedGraphic) {
+      if (!selectedGraphic.onPrinter && connectedPrinter) {
+        toast.warning(`${selectedGraphic.name} isn't on ${connectedPrinter.name} yet — upload it before printing`);
+      }
       onAddGraphic({
         number: selectedGraphic.number,
         name: selectedGraphic.name,
+        width: selectedGraphic.graphic?.width,
+        height: selectedGraphic.graphic?.height,
       });
       onOpenChange(false);
     }
@@ -65,6 +120,14 @@ export function GraphicFieldDialog({
     setSelectedIndex(index);
   };
 
+  // Select a freshly imported graphic once the list includes it
+  useEffect(() => {
+    if (!importedName) return;
+    const index = graphics.findIndex((g) => g.name.toUpperCase() === importedName.toUpperCase());
+    if (index >= 0) setSelectedIndex(index);
+    setImportedName(null);
+  }, [graphics, importedName]);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg p-0 overflow-hidden">
@@ -87,10 +150,14 @@ export function GraphicFieldDialog({
             {/* Preview area */}
             <div className="flex-1 space-y-3">
               {/* Preview box */}
-              <div className="bg-muted border border-border rounded-lg p-4 h-24 flex items-center justify-center">
-                <span className="text-foreground font-bold text-xl">
-                  {selectedGraphic?.name.replace('.BMP', '')}
-                </span>
+              <div className="bg-muted border border-border rounded-lg p-4 h-24 flex items-center justify-center overflow-hidden">
+                {selectedBitmap ? (
+                  <GraphicPreview bitmap={selectedBitmap} dotSize={Math.max(1, Math.min(4, Math.floor(64 / selectedBitmap.height)))} />
+                ) : (
+                  <span className="text-foreground font-bold text-xl">
+                    {selectedGraphic?.name.replace(/\.bmp$/i, '') ?? (loading ? 'Loading…' : 'No graphics')}
+                  </span>
+                )}
               </div>
 
               {/* Graphics list */}
@@ -120,8 +187,11 @@ export function GraphicFieldDialog({
                       <div className="px-2 py-1.5 text-sm border-r border-border text-center">
                         {graphic.number}
                       </div>
-                      <div className="px-2 py-1.5 text-sm">
-                        {graphic.name}
+                      <div className="px-2 py-1.5 text-sm flex items-center gap-2">
+                        <span className="flex-1 truncate">{graphic.name}</span>
+                        {!graphic.onPrinter && (
+                          <span className="text-[10px] uppercase tracking-wide text-muted-foreground">Library only</span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -132,10 +202,19 @@ export function GraphicFieldDialog({
             {/* Right side buttons */}
             <div className="flex flex-col gap-2">
               <button
+                onClick={() => setImportOpen(true)}
+                className="industrial-button p-2 rounded"
+                title="Import graphic"
+              >
+                <ImagePlus className="w-5 h-5" />
+              </button>
+              <button
+                onClick={refresh}
                 className="industrial-button p-2 rounded"
-                title="Preview"
+                disabled={!connectedPrinter || loading}
+                title="Reload from printer"
               >
-                <Search className="w-5 h-5" />
+                <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
               </button>
               <button
                 onClick={handleMoveUp}
@@ -147,7 +226,7 @@ export function GraphicFieldDialog({
               <button
                 onClick={handleMoveDown}
                 className="industrial-button p-2 rounded"
-                disabled={selectedIndex === graphics.length - 1}
+                disabled={selectedIndex >= graphics.length - 1}
               >
                 <ArrowDown className="w-5 h-5" />
               </button>
@@ -158,6 +237,7 @@ export function GraphicFieldDialog({
           <div className="flex justify-center mt-4">
             <button
               onClick={handleAdd}
+              disabled={!selectedGraphic}
               className="industrial-button px-6 py-2 rounded flex items-center gap-2"
             >
               <Plus className="w-5 h-5 text-primary" />
@@ -166,6 +246,15 @@ export function GraphicFieldDialog({
           </div>
         </div>
       </DialogContent>
+
+      <GraphicImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        defaultHeight={templateHeight}
+        printers={printers}
+        connectedPrinterId={connectedPrinterId}
+        onImported={setImportedName}
+      />
     </Dialog>
   );
 }
@@ -0,0 +1,195 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Upload, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { GraphicPreview } from '@/components/messages/GraphicPreview';
+import {
+  DEFAULT_DITHER_OPTIONS,
+  DITHER_MODES,
+  ditherToDots,
+  loadImageFile,
+  normalizeGraphicName,
+  rasterizeImage,
+  type DitherMode,
+  type DitherOptions,
+} from '@/lib/graphicImporter';
+import { graphicLibrary, type GraphicUploadResult } from '@/lib/graphicLibrary';
+import type { Printer } from '@/types/printer';
+
+interface GraphicImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Message template height — the default graphic height */
+  defaultHeight: number;
+  printers: Printer[];
+  connectedPrinterId: number | null;
+  /** Called with the graphic name once it is saved (and uploaded, if any printers were picked) */
+  onImported: (name: string) => void;
+}
+
+/** Import a PNG / BMP / SVG, threshold or dither it to printer dots, and ^NG it to printers. */
+export function GraphicImportDialog({ open, onOpenChange, defaultHeight, printers, connectedPrinterId, onImported }: GraphicImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [name, setName] = useState('');
+  const [height, setHeight] = useState(defaultHeight);
+  const [options, setOptions] = useState<DitherOptions>(DEFAULT_DITHER_OPTIONS);
+  const [targets, setTargets] = useState<number[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [results, setResults] = useState<GraphicUploadResult[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setImage(null);
+    setName('');
+    setHeight(defaultHeight);
+    setOptions(DEFAULT_DITHER_OPTIONS);
+    setTargets(connectedPrinterId != null ? [connectedPrinterId] : []);
+    setResults([]);
+  }, [open, defaultHeight, connectedPrinterId]);
+
+  const raster = useMemo(() => (image ? rasterizeImage(image, height) : null), [image, height]);
+  const bitmap = useMemo(() => (raster ? ditherToDots(raster.gray, raster.width, raster.height, options) : null), [raster, options]);
+  const exists = !!name && !!graphicLibrary.find(name);
+
+  const handleFile = async (f: File | undefined) => {
+    if (!f) return;
+    try {
+      setImage(await loadImageFile(f));
+      setFile(f);
+      setName(normalizeGraphicName(f.name));
+      setResults([]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not read image');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!bitmap || !file) return;
+    const graphicName = normalizeGraphicName(name);
+    const graphic = graphicLibrary.save(graphicName, bitmap, file.name);
+    const chosen = printers.filter((p) => targets.includes(p.id));
+    if (chosen.length === 0) {
+      toast.success(`${graphicName} saved to the library`);
+      onImported(graphicName);
+      onOpenChange(false);
+      return;
+    }
+    setBusy(true);
+    setResults([]);
+    try {
+      const all = await graphicLibrary.upload(graphic, chosen, connectedPrinterId, (r) => setResults((prev) => [...prev, r]));
+      const failed = all.filter((r) => !r.success).length;
+      if (failed === 0) {
+        toast.success(`${graphicName} uploaded to ${all.length} printer${all.length === 1 ? '' : 's'}`);
+        onImported(graphicName);
+        onOpenChange(false);
+      } else {
+        toast.error(`${graphicName}: ${failed} of ${all.length} uploads failed`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !busy && onOpenChange(o)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Graphic</DialogTitle>
+          <DialogDescription>
+            PNG, BMP or SVG, scaled to the print height in dots and stored on the printer with ^NG.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <Input type="file" accept=".png,.bmp,.svg,.jpg,.jpeg,.gif,image/*" onChange={(e) => handleFile(e.target.files?.[0])} />
+
+          {bitmap && (
+            <>
+              <div className="rounded-lg border bg-muted p-3 overflow-x-auto">
+                <GraphicPreview bitmap={bitmap} dotSize={Math.max(2, Math.min(8, Math.floor(256 / bitmap.height)))} />
+                <p className="mt-2 text-xs text-muted-foreground">
+                  {bitmap.width} × {bitmap.height} dots · {bitmap.dots.reduce((n, d) => n + d, 0)} inked
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label className="text-xs">Name on printer</Label>
+                  <Input className="h-8 font-mono" value={name} onChange={(e) => setName(e.target.value)}
+                    onBlur={() => setName(normalizeGraphicName(name))} />
+                  {exists && <p className="text-xs text-warning">Replaces the library graphic with this name</p>}
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Height (dots)</Label>
+                  <Input className="h-8 w-24" type="number" min={5} max={32} value={height}
+                    onChange={(e) => setHeight(Math.min(32, Math.max(5, Number(e.target.value) || defaultHeight)))} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Conversion</Label>
+                  <Select value={options.mode} onValueChange={(v) => setOptions({ ...options, mode: v as DitherMode })}>
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {DITHER_MODES.map((m) => <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Threshold {options.threshold}</Label>
+                  <Slider className="pt-2" min={1} max={254} step={1} value={[options.threshold]}
+                    onValueChange={([threshold]) => setOptions({ ...options, threshold })} />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch id="graphic-invert" checked={options.invert} onCheckedChange={(invert) => setOptions({ ...options, invert })} />
+                  <Label htmlFor="graphic-invert" className="text-xs">Invert (ink light areas)</Label>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Upload to</Label>
+                {printers.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No printers configured — the graphic is only saved to the library.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {printers.map((p) => {
+                      const result = results.find((r) => r.printerId === p.id);
+                      return (
+                        <label key={p.id} className="flex items-center gap-1.5 text-xs" title={result?.error}>
+                          <Checkbox
+                            checked={targets.includes(p.id)}
+                            disabled={busy}
+                            onCheckedChange={() => setTargets((prev) => (prev.includes(p.id) ? prev.filter((id) => id !== p.id) : [...prev, p.id]))}
+                          />
+                          {p.name}
+                          {result?.success && <CheckCircle2 className="w-3.5 h-3.5 text-success" />}
+                          {result && !result.success && <XCircle className="w-3.5 h-3.5 text-destructive" />}
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" disabled={busy} onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!bitmap || busy} onClick={handleSave}>
+            {busy ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Upload className="w-4 h-4 mr-1" />}
+            {targets.length > 0 ? `Save & upload (${targets.length})` : 'Save to library'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import type { DotBitmap } from '@/lib/graphicImporter';
+import { cn } from '@/lib/utils';
+
+interface GraphicPreviewProps {
+  bitmap: DotBitmap;
+  /** Screen pixels per printer dot */
+  dotSize?: number;
+  className?: string;
+}
+
+/** A 1-bit printer bitmap drawn as round dots, like the message canvas. */
+export function GraphicPreview({ bitmap, dotSize = 4, className }: GraphicPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, bitmap.width * dotSize, bitmap.height * dotSize);
+    ctx.fillStyle = '#1a1a1a';
+    const r = Math.max(0.5, dotSize / 2 - 0.25);
+    for (let y = 0; y < bitmap.height; y++) {
+      for (let x = 0; x < bitmap.width; x++) {
+        if (!bitmap.dots[y * bitmap.width + x]) continue;
+        ctx.beginPath();
+        ctx.arc(x * dotSize + dotSize / 2, y * dotSize + dotSize / 2, r, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }, [bitmap, dotSize]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={bitmap.width * dotSize}
+      height={bitmap.height * dotSize}
+      className={cn('bg-white', className)}
+    />
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useRef, useEffect, useCallback, ChangeEvent } from 'react';
-import { renderText, getFontInfo, PRINTER_FONTS } from '@/lib/dotMatrixFonts';
+import { renderText, getFontInfo, getTextWidthDots, getCharOffsetDots, getCharIndexAtDots, PRINTER_FONTS } from '@/lib/dotMatrixFonts';
 import { parseBarcodeLabelData, renderBarcodeToCanvas } from '@/lib/barcodeRenderer';
 import { getValidCanvasYPositions } from '@/lib/messageProtocol';
+import { graphicLibrary } from '@/lib/graphicLibrary';
+import { graphicNameFromField } from '@/lib/graphicImporter';
+import { useGraphicLibrary } from '@/hooks/useGraphicLibrary';
 
 interface CanvasField {
   id: number;
@@ -50,8 +53,18 @@ interface MessageCanvasProps {
   onFieldError?: (fieldId: number, error: string | null) => void;
   /** Let parent temporarily disable its horizontal scroller while dragging */
   onScrollLockChange?: (locked: boolean) => void;
+  /** Outline fields by id, e.g. for a version diff */
+  fieldHighlights?: Record<number, FieldHighlight>;
 }
 
+export type FieldHighlight = 'added' | 'removed' | 'changed';
+
+const HIGHLIGHT_COLORS: Record<FieldHighlight, [string, string]> = {
+  added: ['rgba(34, 197, 94, 0.25)', '#16a34a'],
+  removed: ['rgba(239, 68, 68, 0.25)', '#dc2626'],
+  changed: ['rgba(245, 158, 11, 0.25)', '#d97706'],
+};
+
 const TOTAL_ROWS = 32;
 const DOT_SIZE = 8; // pixels per dot
 
@@ -70,6 +83,7 @@ export function MessageCanvas({
   multilineTemplate,
   onFieldError,
   onScrollLockChange,
+  fieldHighlights,
 }: MessageCanvasProps) {
   const [scrollX, setScrollX] = useState(0); // derived from scroller scrollLeft (in dots)
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -186,6 +200,8 @@ export function MessageCanvas({
 
   // Load barcode images asynchronously and trigger re-render
   const [barcodeImages, setBarcodeImages] = useState<Map<string, HTMLCanvasElement>>(new Map());
+  // Imported logos are drawn from the graphic library; re-render when it changes
+  const { graphics: libraryGraphics } = useGraphicLibrary();
   
   useEffect(() => {
     // Find all barcode fields and load their images
@@ -348,6 +364,7 @@ export function MessageCanvas({
       const isBeingEdited = isEditing && field.id === editingFieldId;
       const fontInfo = getFontInfo(field.fontSize);
       const isBarcode = field.type === 'barcode';
+      const isGraphic = field.type === 'logo';
       
 
       // Use drag position if being dragged, otherwise use field position
@@ -391,10 +408,12 @@ export function MessageCanvas({
         fieldH = barcodeFieldHeight * DOT_SIZE;
         // Shift box left so barcode sits in the center with equal quiet zones
         fieldX -= quietZonePx;
+      } else if (isGraphic) {
+        fieldW = field.width * DOT_SIZE;
+        fieldH = (field.height || templateHeight) * DOT_SIZE;
       } else {
-        const minChars = 3;
-        const textLength = Math.max(field.data.length, minChars);
-        fieldW = textLength * (fontInfo.charWidth + (field.gap ?? 1)) * DOT_SIZE;
+        // Empty / short fields stay at least 3 characters wide so they can be grabbed
+        fieldW = getTextWidthDots(field.data.padEnd(3), field.fontSize, field.gap ?? 1) * DOT_SIZE;
         fieldH = fontInfo.height * DOT_SIZE;
       }
 
@@ -436,6 +455,14 @@ export function MessageCanvas({
         ctx.lineWidth = 2;
         ctx.strokeRect(fieldX, fieldY, fieldW, fieldH);
       }
+      else if (fieldHighlights?.[field.id]) {
+        const [fill, border] = HIGHLIGHT_COLORS[fieldHighlights[field.id]];
+        ctx.fillStyle = fill;
+        ctx.fillRect(fieldX, fieldY, fieldW, fieldH);
+        ctx.strokeStyle = border;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(fieldX, fieldY, fieldW, fieldH);
+      }
 
       // Draw the field content
       if (isBarcode) {
@@ -475,6 +502,27 @@ export function MessageCanvas({
           ctx.fillStyle = '#1a1a1a';
           renderText(ctx, field.data, fieldX, fieldY, field.fontSize, DOT_SIZE, field.gap ?? 1);
         }
+      } else if (isGraphic) {
+        const bitmap = graphicLibrary.bitmap(graphicNameFromField(field.data));
+        if (bitmap) {
+          ctx.fillStyle = '#1a1a1a';
+          const rows = Math.min(bitmap.height, fieldH / DOT_SIZE);
+          for (let y = 0; y < rows; y++) {
+            for (let x = 0; x < bitmap.width; x++) {
+              if (bitmap.dots[y * bitmap.width + x]) ctx.fillRect(fieldX + x * DOT_SIZE, fieldY + y * DOT_SIZE, DOT_SIZE, DOT_SIZE);
+            }
+          }
+        } else {
+          // Stored on the printer only — we have its name, not its dots
+          ctx.strokeStyle = '#666';
+          ctx.lineWidth = 1;
+          ctx.setLineDash([4, 3]);
+          ctx.strokeRect(fieldX + 0.5, fieldY + 0.5, fieldW - 1, fieldH - 1);
+          ctx.setLineDash([]);
+          ctx.font = '10px sans-serif';
+          ctx.fillStyle = '#666';
+          ctx.fillText(graphicNameFromField(field.data), fieldX + 3, fieldY + 12, fieldW - 6);
+        }
       } else {
         // Regular text field
         ctx.fillStyle = '#1a1a1a';
@@ -511,8 +559,7 @@ export function MessageCanvas({
 
       // Draw blinking cursor if editing this field (not for barcodes)
       if (isBeingEdited && cursorVisible && !isBarcode) {
-        const charWidth = (fontInfo.charWidth + (field.gap ?? 1)) * DOT_SIZE;
-        const cursorX = fieldX + cursorPosition * charWidth;
+        const cursorX = fieldX + getCharOffsetDots(field.data, cursorPosition, field.fontSize, field.gap ?? 1) * DOT_SIZE;
 
         // Draw red vertical line cursor
         ctx.strokeStyle = '#ff0000';
@@ -538,7 +585,7 @@ export function MessageCanvas({
       ctx.strokeRect(mx, my, mw, mh);
       ctx.setLineDash([]);
     }
-  }, [templateHeight, width, fields, scrollX, blockedRows, selectedFieldId, selectedFieldIds, canvasWidth, multilineTemplate, getMultilineLinePositions, isDragging, dragFieldId, dragPosition, isEditing, editingFieldId, cursorPosition, cursorVisible, barcodeImages, isMarquee, marqueeStart, marqueeEnd]);
+  }, [templateHeight, width, fields, scrollX, blockedRows, selectedFieldId, selectedFieldIds, canvasWidth, multilineTemplate, getMultilineLinePositions, isDragging, dragFieldId, dragPosition, isEditing, editingFieldId, cursorPosition, cursorVisible, barcodeImages, libraryGraphics, isMarquee, marqueeStart, marqueeEnd, fieldHighlights]);
   
   const getMousePosition = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const rect = canvasRef.current?.getBoundingClientRect();
@@ -554,9 +601,9 @@ export function MessageCanvas({
     const isInside = (field: CanvasField) => {
       const fontInfo = getFontInfo(field.fontSize);
       const isBarcode = field.type === 'barcode';
-      const textLength = Math.max(field.data.length, 3);
-      const w = isBarcode ? field.width : textLength * (fontInfo.charWidth + (field.gap ?? 1));
-      const h = isBarcode ? templateHeight : fontInfo.height;
+      const isGraphic = field.type === 'logo';
+      const w = isBarcode || isGraphic ? field.width : getTextWidthDots(field.data.padEnd(3), field.fontSize, field.gap ?? 1);
+      const h = isBarcode ? templateHeight : isGraphic ? (field.height || templateHeight) : fontInfo.height;
       return x >= field.x && x < field.x + w &&
              y >= field.y && y < field.y + h;
     };
@@ -626,11 +673,7 @@ export function MessageCanvas({
     // Set cursor position based on click location or end of text
     let cursorPos: number;
     if (clickX !== undefined) {
-      const fontInfo = getFontInfo(field.fontSize);
-      const charWidth = fontInfo.charWidth + (field.gap ?? 1);
-      const relativeX = clickX - field.x;
-      const charPos = Math.round(relativeX / charWidth);
-      cursorPos = Math.max(0, Math.min(charPos, field.data.length));
+      cursorPos = getCharIndexAtDots(field.data, clickX - field.x, field.fontSize, field.gap ?? 1);
     } else {
       cursorPos = field.data.length; // Default to end
     }
@@ -817,9 +860,9 @@ export function MessageCanvas({
         const selected = new Set<number>();
         fields.forEach((field) => {
           const fontInfo = getFontInfo(field.fontSize);
-          const isBarcode = field.type === 'barcode';
-          const fw = isBarcode ? field.width : Math.max(field.data.length, 3) * (fontInfo.charWidth + (field.gap ?? 1));
-          const fh = isBarcode ? (field.height || templateHeight) : fontInfo.height;
+          const isBlock = field.type === 'barcode' || field.type === 'logo';
+          const fw = isBlock ? field.width : getTextWidthDots(field.data.padEnd(3), field.fontSize, field.gap ?? 1);
+          const fh = isBlock ? (field.height || templateHeight) : fontInfo.height;
           // Check if field overlaps with marquee
           if (field.x < x2 && field.x + fw > x1 && field.y < y2 && field.y + fh > y1) {
             selected.add(field.id);
@@ -908,11 +951,7 @@ export function MessageCanvas({
       
       // If clicking on the same field, just move cursor
       if (field && field.id === editingFieldId) {
-        const fontInfo = getFontInfo(field.fontSize);
-        const charWidth = fontInfo.charWidth + (field.gap ?? 1);
-        const relativeX = pos.x - field.x;
-        const charPos = Math.round(relativeX / charWidth);
-        const newCursorPos = Math.max(0, Math.min(charPos, field.data.length));
+        const newCursorPos = getCharIndexAtDots(field.data, pos.x - field.x, field.fontSize, field.gap ?? 1);
         setCursorPosition(newCursorPos);
         
         // Immediately sync the hidden input cursor
@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MessageCanvas, type FieldHighlight } from '@/components/messages/MessageCanvas';
+import { useMessageHistory } from '@/hooks/useMessageHistory';
+import { diffMessageFields, historyKey, messageHistory, type MessageVersion } from '@/lib/messageHistory';
+import type { MessageDetails } from '@/components/screens/EditMessageScreen';
+import type { Printer } from '@/types/printer';
+import { cn } from '@/lib/utils';
+
+interface MessageHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  messageName: string;
+  /** Printer whose copy is being edited — history is kept per printer */
+  printerId: number | null;
+  /** The editor's current (possibly unsaved) layout */
+  current: MessageDetails;
+  printers: Printer[];
+  /** Re-save an old version through the editor's save path */
+  onRollback: (version: MessageVersion) => Promise<boolean>;
+}
+
+const CURRENT = 'current';
+
+/** Saved versions of a message, a field-level diff between two of them, and rollback. */
+export function MessageHistoryDialog({ open, onOpenChange, messageName, printerId, current, printers, onRollback }: MessageHistoryDialogProps) {
+  const { author, versions } = useMessageHistory();
+  const list = useMemo(() => [...(versions[historyKey(printerId, messageName)] ?? [])].reverse(), [versions, printerId, messageName]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<string>(CURRENT);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected(list[0]?.version ?? null);
+    setCompareTo(CURRENT);
+    // Only on open — keep the selection while new versions arrive
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, printerId, messageName]);
+
+  const before = list.find((v) => v.version === selected) ?? null;
+  const after = compareTo === CURRENT ? current : list.find((v) => String(v.version) === compareTo)?.message ?? current;
+  const diffs = useMemo(() => (before ? diffMessageFields(before.message, after) : []), [before, after]);
+  const beforeMarks = useMemo(() => marks(diffs, 'before'), [diffs]);
+  const afterMarks = useMemo(() => marks(diffs, 'after'), [diffs]);
+  const changed = diffs.filter((d) => d.status !== 'same');
+
+  const printerName = (id: number) => printers.find((p) => p.id === id)?.name ?? `#${id}`;
+
+  const handleRollback = async () => {
+    if (!before) return;
+    setBusy(true);
+    try {
+      if (await onRollback(before)) onOpenChange(false);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !busy && onOpenChange(o)}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><History className="w-5 h-5" /> History: {messageName}</DialogTitle>
+          <DialogDescription>
+            Every layout saved from the editor{printerId != null && ` for ${printerName(printerId)}`}, with who saved it and where it was pushed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          <Label className="text-xs shrink-0">Saving as</Label>
+          <Input className="h-8 w-48" defaultValue={author} onBlur={(e) => messageHistory.setAuthor(e.target.value)} />
+        </div>
+
+        {list.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No saved versions yet — the first Save starts the history.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4 text-sm">
+            <ul className="space-y-1 max-h-[60vh] overflow-y-auto pr-1">
+              {list.map((v) => (
+                <li key={v.version}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(v.version)}
+                    className={cn('w-full rounded-md border p-2 text-left hover:bg-muted', v.version === selected && 'border-primary bg-muted')}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold">v{v.version}</span>
+                      <span className="text-xs text-muted-foreground">{new Date(v.savedAt).toLocaleString()}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {v.author} · {v.message.fields.length} field{v.message.fields.length === 1 ? '' : 's'}
+                    </div>
+                    {v.note && <div className="text-xs italic">{v.note}</div>}
+                    {v.pushedTo.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {v.pushedTo.map((id) => <Badge key={id} variant="secondary" className="text-[10px]">{printerName(id)}</Badge>)}
+                      </div>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {before && (
+              <div className="space-y-3 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">Compare v{before.version} with</span>
+                  <Select value={compareTo} onValueChange={setCompareTo}>
+                    <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CURRENT}>Current editor</SelectItem>
+                      {list.filter((v) => v.version !== before.version).map((v) => (
+                        <SelectItem key={v.version} value={String(v.version)}>v{v.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <p className="text-xs font-medium mb-1">v{before.version}</p>
+                  <MessageCanvas
+                    templateHeight={before.message.height}
+                    templateValue={before.message.templateValue}
+                    width={before.message.width}
+                    fields={before.message.fields}
+                    fieldHighlights={beforeMarks}
+                  />
+                </div>
+                <div>
+                  <p className="text-xs font-medium mb-1">{compareTo === CURRENT ? 'Current editor' : `v${compareTo}`}</p>
+                  <MessageCanvas
+                    templateHeight={after.height}
+                    templateValue={after.templateValue}
+                    width={after.width}
+                    fields={after.fields}
+                    fieldHighlights={afterMarks}
+                  />
+                </div>
+
+                {changed.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No field differences.</p>
+                ) : (
+                  <ul className="space-y-0.5 text-xs">
+                    {changed.map((d) => (
+                      <li key={`${d.status}-${d.id}`}>
+                        <span className={cn('font-medium', d.status === 'added' ? 'text-success' : d.status === 'removed' ? 'text-destructive' : 'text-warning')}>
+                          {d.status === 'added' ? 'Added' : d.status === 'removed' ? 'Removed' : 'Changed'}
+                        </span>{' '}
+                        “{(d.after ?? d.before)?.data}”{d.changes.length > 0 && ` — ${d.changes.join(', ')}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex justify-end">
+                  <Button disabled={busy} onClick={handleRollback}>
+                    {busy ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-1" />}
+                    Roll back to v{before.version}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function marks(diffs: ReturnType<typeof diffMessageFields>, side: 'before' | 'after'): Record<number, FieldHighlight> {
+  const out: Record<number, FieldHighlight> = {};
+  for (const d of diffs) {
+    if (d.status === 'same') continue;
+    if (side === 'before' && d.status !== 'added') out[d.id] = d.status;
+    if (side === 'after' && d.status !== 'removed') out[d.id] = d.status;
+  }
+  return out;
+}
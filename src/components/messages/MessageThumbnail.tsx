@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react';
-import { renderText } from '@/lib/dotMatrixFonts';
+import { renderText, getTextWidthDots } from '@/lib/dotMatrixFonts';
 import type { MessageDetails } from '@/components/screens/EditMessageScreen';
 
 interface MessageThumbnailProps {
@@ -22,7 +22,10 @@ export function MessageThumbnail({ details, dotSize = 2, maxHeight = 80 }: Messa
     if (!canvas) return;
 
     const totalRows = 32; // canvas vertical space (matches MessageCanvas)
-    const widthDots = Math.max(details.width || 200, 60);
+    // Widen to the longest text field so nothing past the message width is clipped
+    const textRight = (details.fields || []).map((f) =>
+      f.type === 'logo' || f.type === 'barcode' ? 0 : f.x + getTextWidthDots(f.data || '', f.fontSize || 'Standard16High', f.gap ?? 1));
+    const widthDots = Math.max(details.width || 200, 60, ...textRight);
 
     canvas.width = widthDots * dotSize;
     canvas.height = totalRows * dotSize;
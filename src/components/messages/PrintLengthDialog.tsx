@@ -0,0 +1,137 @@
+import { AlertTriangle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  DEFAULT_DROP_RATE_HZ,
+  formatLength,
+  formatSpeed,
+  type EstimatorInputs,
+  type PrintEstimate,
+} from '@/lib/printLengthEstimator';
+import type { EncoderConfig } from '@/components/wirecable/EncoderCalibration';
+import { cn } from '@/lib/utils';
+
+interface PrintLengthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  estimate: PrintEstimate;
+  encoder: EncoderConfig;
+  inputs: EstimatorInputs;
+  onInputsChange: (inputs: EstimatorInputs) => void;
+}
+
+const FT_PER_M = 3.28084;
+
+/** Printed length of the message and the line speed each speed setting can keep up with. */
+export function PrintLengthDialog({ open, onOpenChange, estimate, encoder, inputs, onInputsChange }: PrintLengthDialogProps) {
+  const imperial = encoder.unit === 'inches';
+  const speedValue = imperial ? Math.round(inputs.lineSpeedMpm * FT_PER_M) : inputs.lineSpeedMpm;
+  const lengthValue = imperial ? +(inputs.productLengthMm / 25.4).toFixed(2) : inputs.productLengthMm;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Print Length</DialogTitle>
+          <DialogDescription>
+            From the message fields, Adjust Width / Bold / Gap / Pitch and the Wire &amp; Cable encoder calibration
+            ({formatLength(estimate.mmPerPulse, encoder.unit)} per pulse).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Printed length</p>
+              <p className="text-lg font-semibold tabular-nums">{formatLength(estimate.lengthMm, encoder.unit)}</p>
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Strokes</p>
+              <p className="text-lg font-semibold tabular-nums">{estimate.strokes}</p>
+            </div>
+            <div className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">Pitch</p>
+              <p className="text-lg font-semibold tabular-nums">{estimate.pitchMm > 0 ? formatLength(estimate.pitchMm, encoder.unit) : 'Off'}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Line speed ({imperial ? 'ft/min' : 'm/min'})</Label>
+              <Input className="h-8" type="number" min={0} step="any" value={speedValue || ''} placeholder="Not set"
+                onChange={(e) => {
+                  const v = Math.max(0, Number(e.target.value) || 0);
+                  onInputsChange({ ...inputs, lineSpeedMpm: imperial ? v / FT_PER_M : v });
+                }} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Product length ({imperial ? 'in' : 'mm'})</Label>
+              <Input className="h-8" type="number" min={0} step="any" value={lengthValue || ''} placeholder="Not set"
+                onChange={(e) => {
+                  const v = Math.max(0, Number(e.target.value) || 0);
+                  onInputsChange({ ...inputs, productLengthMm: imperial ? v * 25.4 : v });
+                }} />
+            </div>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="py-1 font-medium">Speed</th>
+                <th className="py-1 font-medium text-right">Drops / s</th>
+                <th className="py-1 font-medium text-right">Strokes / s</th>
+                <th className="py-1 font-medium text-right">Max line speed (est.)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimate.limits.map((l) => {
+                const tooSlow = inputs.lineSpeedMpm > 0 && inputs.lineSpeedMpm > l.maxLineSpeedMpm;
+                return (
+                  <tr key={l.speed} className={cn('border-t', l.speed === estimate.current.speed && 'font-semibold')}>
+                    <td className="py-1">{l.speed}{l.speed === estimate.current.speed && ' (this message)'}</td>
+                    <td className="py-1 text-right">
+                      <Input className="h-7 w-24 ml-auto text-right text-xs tabular-nums" type="number" min={1} step={1000}
+                        value={inputs.dropRateHz[l.speed] || ''} placeholder={String(DEFAULT_DROP_RATE_HZ[l.speed])}
+                        onChange={(e) => onInputsChange({
+                          ...inputs,
+                          dropRateHz: { ...inputs.dropRateHz, [l.speed]: Math.max(0, Number(e.target.value) || 0) },
+                        })} />
+                    </td>
+                    <td className="py-1 text-right tabular-nums">{Math.round(l.maxStrokeRateHz)}</td>
+                    <td className={cn('py-1 text-right tabular-nums', tooSlow && 'text-destructive')}>
+                      {formatSpeed(l.maxLineSpeedMpm, encoder.unit)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {estimate.warnings.length > 0 && (
+            <ul className="space-y-1">
+              {estimate.warnings.map((w) => (
+                <li key={w.kind} className="flex items-start gap-2 text-xs text-warning">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                  {w.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex items-start justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              Speed limits are uncalibrated estimates: the default drop rates are not printer specifications.
+              Enter the rates measured on your printer to calibrate them, and confirm on the line.
+            </p>
+            <Button variant="outline" size="sm" className="h-7 shrink-0 text-xs"
+              onClick={() => onInputsChange({ ...inputs, dropRateHz: { ...DEFAULT_DROP_RATE_HZ } })}>
+              Reset rates
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
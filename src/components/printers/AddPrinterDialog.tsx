@@ -3,12 +3,21 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Plus } from 'lucide-react';
+import { SerialPortFields } from './SerialPortFields';
+import { DEFAULT_SERIAL_BAUD_RATE } from '@/hooks/useSerialPorts';
 
 interface AddPrinterDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onAdd: (printer: { name: string; ipAddress: string; port: number }) => void;
+  onAdd: (printer: { name: string; ipAddress: string; port: number; serialPath?: string; baudRate?: number }) => void;
   existingIps?: string[];
 }
 
@@ -17,6 +26,9 @@ export function AddPrinterDialog({ open, onOpenChange, onAdd, existingIps = [] }
   const [ipAddress, setIpAddress] = useState('');
   const [port, setPort] = useState('23');
   const [ipError, setIpError] = useState('');
+  const [connection, setConnection] = useState<'ip' | 'serial'>('ip');
+  const [serialPath, setSerialPath] = useState('');
+  const [baudRate, setBaudRate] = useState(DEFAULT_SERIAL_BAUD_RATE);
 
   const handleIpChange = (value: string) => {
     setIpAddress(value);
@@ -27,8 +39,29 @@ export function AddPrinterDialog({ open, onOpenChange, onAdd, existingIps = [] }
     }
   };
 
+  const reset = () => {
+    setName('');
+    setIpAddress('');
+    setPort('23');
+    setSerialPath('');
+    setBaudRate(DEFAULT_SERIAL_BAUD_RATE);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (connection === 'serial') {
+      const path = serialPath.trim();
+      if (!name || !path) return;
+      if (existingIps.includes(path)) {
+        setIpError('This serial port is already in use');
+        return;
+      }
+      // ipAddress mirrors the path so labels and duplicate checks keep working.
+      onAdd({ name, ipAddress: path, port: 0, serialPath: path, baudRate });
+      reset();
+      onOpenChange(false);
+      return;
+    }
     if (existingIps.includes(ipAddress.trim())) {
       setIpError('This IP address is already in use');
       return;
@@ -39,10 +72,7 @@ export function AddPrinterDialog({ open, onOpenChange, onAdd, existingIps = [] }
         ipAddress,
         port: parseInt(port, 10),
       });
-      // Reset form
-      setName('');
-      setIpAddress('');
-      setPort('23');
+      reset();
       onOpenChange(false);
     }
   };
@@ -68,31 +98,59 @@ export function AddPrinterDialog({ open, onOpenChange, onAdd, existingIps = [] }
             />
           </div>
           <div className="space-y-2">
-            <Label htmlFor="ip-address">IP Address</Label>
-            <Input
-              id="ip-address"
-              value={ipAddress}
-              onChange={(e) => handleIpChange(e.target.value)}
-              placeholder="e.g., 192.168.1.55"
-              pattern="^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$"
-              required
-              className={ipError ? 'border-red-500' : ''}
-            />
-            {ipError && <p className="text-xs text-red-500">{ipError}</p>}
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="port">Port</Label>
-            <Input
-              id="port"
-              type="number"
-              value={port}
-              onChange={(e) => setPort(e.target.value)}
-              placeholder="23"
-              min="1"
-              max="65535"
-              required
-            />
+            <Label htmlFor="printer-connection">Connection</Label>
+            <Select value={connection} onValueChange={(v) => { setConnection(v as 'ip' | 'serial'); setIpError(''); }}>
+              <SelectTrigger id="printer-connection">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ip">Network (TCP)</SelectItem>
+                <SelectItem value="serial">Serial (RS-232 / USB)</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
+          {connection === 'serial' ? (
+            <>
+              <SerialPortFields
+                idPrefix="add-printer"
+                path={serialPath}
+                onPathChange={(v) => { setSerialPath(v); setIpError(''); }}
+                baudRate={baudRate}
+                onBaudRateChange={setBaudRate}
+                active={open}
+              />
+              {ipError && <p className="text-xs text-red-500">{ipError}</p>}
+            </>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="ip-address">IP Address</Label>
+                <Input
+                  id="ip-address"
+                  value={ipAddress}
+                  onChange={(e) => handleIpChange(e.target.value)}
+                  placeholder="e.g., 192.168.1.55"
+                  pattern="^(?:[0-9]{1,3}\.){3}[0-9]{1,3}$"
+                  required
+                  className={ipError ? 'border-red-500' : ''}
+                />
+                {ipError && <p className="text-xs text-red-500">{ipError}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="port">Port</Label>
+                <Input
+                  id="port"
+                  type="number"
+                  value={port}
+                  onChange={(e) => setPort(e.target.value)}
+                  placeholder="23"
+                  min="1"
+                  max="65535"
+                  required
+                />
+              </div>
+            </>
+          )}
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
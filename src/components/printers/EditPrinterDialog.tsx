@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Printer, PrinterRole, PrintSettings } from '@/types/printer';
 import { getPrinterMessageDefaults } from '@/lib/fleetDefaults';
-import { useTwinPair } from '@/twin-code/twinPairStore';
+import { bindingMatches, useTwinPair } from '@/twin-code/twinPairStore';
 import { multiPrinterEmulator } from '@/lib/multiPrinterEmulator';
 import {
   Dialog,
@@ -20,6 +20,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Printer as PrinterIcon, Save, Trash2, Crown, Link, Hash, Tag, RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { SerialPortFields } from './SerialPortFields';
+import { DEFAULT_SERIAL_BAUD_RATE } from '@/hooks/useSerialPorts';
 
 type PrinterRotation = NonNullable<Printer['rotation']>;
 type MessageDefaults = NonNullable<Printer['messageDefaults']>;
@@ -28,7 +30,7 @@ interface EditPrinterDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   printer: Printer | null;
-  onSave: (printerId: number, updates: { name: string; ipAddress: string; port: number; role?: PrinterRole; masterId?: number; serialNumber?: string; lineId?: string; rotation?: PrinterRotation; autoSyncSelection?: boolean; messageDefaults?: MessageDefaults }) => void;
+  onSave: (printerId: number, updates: { name: string; ipAddress: string; port: number; serialPath?: string | null; baudRate?: number; role?: PrinterRole; masterId?: number; serialNumber?: string; lineId?: string; rotation?: PrinterRotation; autoSyncSelection?: boolean; messageDefaults?: MessageDefaults }) => void;
   onDelete?: (printerId: number) => void;
   allPrinters?: Printer[];
 }
@@ -39,6 +41,9 @@ export function EditPrinterDialog({ open, onOpenChange, printer, onSave, onDelet
   const [name, setName] = useState('');
   const [ipAddress, setIpAddress] = useState('');
   const [port, setPort] = useState('23');
+  const [connection, setConnection] = useState<'ip' | 'serial'>('ip');
+  const [serialPath, setSerialPath] = useState('');
+  const [baudRate, setBaudRate] = useState(DEFAULT_SERIAL_BAUD_RATE);
   const [role, setRole] = useState<PrinterRole>('none');
   const [masterId, setMasterId] = useState<string>('');
   const [serialNumber, setSerialNumber] = useState('');
@@ -60,8 +65,11 @@ export function EditPrinterDialog({ open, onOpenChange, printer, onSave, onDelet
   useEffect(() => {
     if (printer) {
       setName(printer.name);
-      setIpAddress(printer.ipAddress);
-      setPort(printer.port.toString());
+      setConnection(printer.serialPath ? 'serial' : 'ip');
+      setSerialPath(printer.serialPath ?? '');
+      setBaudRate(printer.baudRate ?? DEFAULT_SERIAL_BAUD_RATE);
+      setIpAddress(printer.serialPath ? '' : printer.ipAddress);
+      setPort(printer.serialPath ? '23' : printer.port.toString());
       setRole(printer.role ?? 'none');
       setMasterId(printer.masterId?.toString() ?? '');
       setSerialNumber(printer.serialNumber ?? '');
@@ -108,21 +116,22 @@ export function EditPrinterDialog({ open, onOpenChange, printer, onSave, onDelet
     e.preventDefault();
     if (!printer) return;
 
-    if (existingIps.includes(ipAddress.trim())) {
-      setIpError('This IP address is already in use');
+    const serial = connection === 'serial';
+    // Serial printers keep ipAddress = path so labels and duplicate checks still work.
+    const ip = serial ? serialPath.trim() : ipAddress.trim();
+    if (existingIps.includes(ip)) {
+      setIpError(serial ? 'This serial port is already in use' : 'This IP address is already in use');
       return;
     }
     
-    const portNum = parseInt(port, 10);
-    if (!name.trim() || !ipAddress.trim() || isNaN(portNum) || portNum < 1 || portNum > 65535) {
+    const portNum = serial ? 0 : parseInt(port, 10);
+    if (!name.trim() || !ip || (!serial && (isNaN(portNum) || portNum < 1 || portNum > 65535))) {
       return;
     }
     
-    const ip = ipAddress.trim();
-    const inTwinPair = !multiPrinterEmulator.isEmulatedIp(ip, portNum) && !!(
-      (pair.a && pair.a.ip === ip && pair.a.port === portNum) ||
-      (pair.b && pair.b.ip === ip && pair.b.port === portNum)
-    );
+    const endpoint = { ipAddress: ip, port: portNum, serialPath: serial ? ip : null };
+    const inTwinPair = !multiPrinterEmulator.isEmulatedIp(ip, portNum) &&
+      (bindingMatches(pair.a, endpoint) || bindingMatches(pair.b, endpoint));
     const effectiveRole: PrinterRole = inTwinPair ? 'none' : role;
     if (effectiveRole === 'slave' && !masterId) {
       return;
@@ -132,6 +141,8 @@ export function EditPrinterDialog({ open, onOpenChange, printer, onSave, onDelet
       name: name.trim(),
       ipAddress: ip,
       port: portNum,
+      serialPath: serial ? ip : null,
+      baudRate: serial ? baudRate : undefined,
       role: effectiveRole,
       masterId: effectiveRole === 'slave' && masterId ? parseInt(masterId, 10) : undefined,
       serialNumber: serialNumber.trim() || undefined,
@@ -186,30 +197,61 @@ export function EditPrinterDialog({ open, onOpenChange, printer, onSave, onDelet
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="edit-ip" className="text-slate-300">IP Address</Label>
-            <Input
-              id="edit-ip"
-              value={ipAddress}
-              onChange={(e) => handleIpChange(e.target.value)}
-              placeholder="e.g., 192.168.1.100"
-              className="bg-slate-800 border-slate-600 text-white font-mono"
-            />
-            {ipError && <p className="text-xs text-red-500 mt-1">{ipError}</p>}
+            <Label htmlFor="edit-connection" className="text-slate-300">Connection</Label>
+            <Select value={connection} onValueChange={(v) => { setConnection(v as 'ip' | 'serial'); setIpError(''); }}>
+              <SelectTrigger id="edit-connection" className="bg-slate-800 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ip">Network (TCP)</SelectItem>
+                <SelectItem value="serial">Serial (RS-232 / USB)</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="edit-port" className="text-slate-300">Port</Label>
-            <Input
-              id="edit-port"
-              type="number"
-              value={port}
-              onChange={(e) => setPort(e.target.value)}
-              placeholder="23"
-              min={1}
-              max={65535}
-              className="bg-slate-800 border-slate-600 text-white font-mono w-24"
-            />
-          </div>
+          {connection === 'serial' ? (
+            <div className="space-y-1">
+              <SerialPortFields
+                idPrefix="edit-printer"
+                path={serialPath}
+                onPathChange={(v) => { setSerialPath(v); setIpError(''); }}
+                baudRate={baudRate}
+                onBaudRateChange={setBaudRate}
+                active={open}
+                labelClassName="text-slate-300"
+                inputClassName="bg-slate-800 border-slate-600 text-white"
+              />
+              {ipError && <p className="text-xs text-red-500 mt-1">{ipError}</p>}
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="edit-ip" className="text-slate-300">IP Address</Label>
+                <Input
+                  id="edit-ip"
+                  value={ipAddress}
+                  onChange={(e) => handleIpChange(e.target.value)}
+                  placeholder="e.g., 192.168.1.100"
+                  className="bg-slate-800 border-slate-600 text-white font-mono"
+                />
+                {ipError && <p className="text-xs text-red-500 mt-1">{ipError}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-port" className="text-slate-300">Port</Label>
+                <Input
+                  id="edit-port"
+                  type="number"
+                  value={port}
+                  onChange={(e) => setPort(e.target.value)}
+                  placeholder="23"
+                  min={1}
+                  max={65535}
+                  className="bg-slate-800 border-slate-600 text-white font-mono w-24"
+                />
+              </div>
+            </>
+          )}
 
           {/* Serial Number */}
           <div className="space-y-2">
@@ -333,12 +375,12 @@ export function EditPrinterDialog({ open, onOpenChange, printer, onSave, onDelet
 
 
           {(() => {
-            const ip = ipAddress.trim();
-            const portNum = parseInt(port, 10);
-            const inTwinPair = !multiPrinterEmulator.isEmulatedIp(ip, portNum) && !!(
-              (pair.a && pair.a.ip === ip && pair.a.port === portNum) ||
-              (pair.b && pair.b.ip === ip && pair.b.port === portNum)
-            );
+            const serial = connection === 'serial';
+            const ip = serial ? serialPath.trim() : ipAddress.trim();
+            const portNum = serial ? 0 : parseInt(port, 10);
+            const endpoint = { ipAddress: ip, port: portNum, serialPath: serial ? ip : null };
+            const inTwinPair = !multiPrinterEmulator.isEmulatedIp(ip, portNum) &&
+              (bindingMatches(pair.a, endpoint) || bindingMatches(pair.b, endpoint));
             return (
               <div className="space-y-2">
                 <Label className="text-slate-300 flex items-center gap-1.5">
@@ -0,0 +1,86 @@
+import { RefreshCw } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SERIAL_BAUD_RATES, useSerialPorts } from '@/hooks/useSerialPorts';
+import { cn } from '@/lib/utils';
+
+interface SerialPortFieldsProps {
+  idPrefix: string;
+  path: string;
+  onPathChange: (path: string) => void;
+  baudRate: number;
+  onBaudRateChange: (baudRate: number) => void;
+  /** Only list ports while the surrounding dialog is open. */
+  active?: boolean;
+  labelClassName?: string;
+  inputClassName?: string;
+}
+
+/**
+ * COM / tty path + baud rate inputs shared by the printer and twin-binding
+ * dialogs. The path stays free-text (a relay PC or an unplugged adapter
+ * won't be in the list); detected ports are offered as suggestions.
+ */
+export function SerialPortFields({
+  idPrefix,
+  path,
+  onPathChange,
+  baudRate,
+  onBaudRateChange,
+  active = true,
+  labelClassName,
+  inputClassName,
+}: SerialPortFieldsProps) {
+  const { supported, ports, error, loading, refresh } = useSerialPorts(active);
+  const listId = `${idPrefix}-serial-ports`;
+
+  return (
+    <div className="grid grid-cols-[1fr_auto] gap-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-serial-path`} className={labelClassName}>Serial Port</Label>
+        <div className="flex gap-1">
+          <Input
+            id={`${idPrefix}-serial-path`}
+            value={path}
+            onChange={(e) => onPathChange(e.target.value)}
+            placeholder={navigator.platform.startsWith('Win') ? 'e.g., COM3' : 'e.g., /dev/ttyUSB0'}
+            list={listId}
+            className={cn('font-mono', inputClassName)}
+          />
+          {supported && (
+            <Button type="button" variant="outline" size="icon" onClick={refresh} disabled={loading} title="Rescan ports">
+              <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+            </Button>
+          )}
+        </div>
+        <datalist id={listId}>
+          {ports.map((p) => (
+            <option key={p.path} value={p.path}>{p.label}</option>
+          ))}
+        </datalist>
+        {supported && error && <p className="text-[10px] text-amber-500">{error}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-baud`} className={labelClassName}>Baud</Label>
+        <Select value={String(baudRate)} onValueChange={(v) => onBaudRateChange(parseInt(v, 10))}>
+          <SelectTrigger id={`${idPrefix}-baud`} className={cn('w-28 font-mono', inputClassName)}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SERIAL_BAUD_RATES.map((rate) => (
+              <SelectItem key={rate} value={String(rate)}>{rate}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
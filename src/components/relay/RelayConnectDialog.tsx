@@ -3,8 +3,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Wifi, WifiOff, Loader2, CheckCircle2, Smartphone } from 'lucide-react';
-import { getRelayConfig, setRelayConfig, testRelayConnection, type RelayConfig } from '@/lib/printerTransport';
+import { Switch } from '@/components/ui/switch';
+import { Wifi, WifiOff, Loader2, CheckCircle2, Smartphone, KeyRound } from 'lucide-react';
+import { getRelayConfig, setRelayConfig, testRelayConnection, pairRelay, type RelayConfig } from '@/lib/printerTransport';
+import { relayEvents } from '@/lib/relayEvents';
+import type { RelayPairingPayload } from './RelayDevicesPanel';
 
 interface RelayConnectDialogProps {
   open: boolean;
@@ -12,11 +15,36 @@ interface RelayConnectDialogProps {
   onConnected?: () => void;
 }
 
+/** Accept the pairing QR's JSON pasted into the code field. */
+function parsePairingPayload(text: string): RelayPairingPayload | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{')) return null;
+  try {
+    const p = JSON.parse(trimmed);
+    return p && p.v === 1 && typeof p.host === 'string' && typeof p.code === 'string' ? p : null;
+  } catch {
+    return null;
+  }
+}
+
+function defaultDeviceName(): string {
+  const ua = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+  if (/iPhone/i.test(ua)) return 'iPhone';
+  if (/iPad/i.test(ua)) return 'iPad';
+  if (/Android/i.test(ua)) return 'Android device';
+  return 'Mobile device';
+}
+
 export function RelayConnectDialog({ open, onOpenChange, onConnected }: RelayConnectDialogProps) {
   const [pcIp, setPcIp] = useState('');
   const [port, setPort] = useState('8766');
+  const [tls, setTls] = useState(false);
+  const [code, setCode] = useState('');
+  const [deviceName, setDeviceName] = useState(defaultDeviceName);
   const [testing, setTesting] = useState(false);
-  const [result, setResult] = useState<{ ok: boolean; version?: string; error?: string } | null>(null);
+  const [pairing, setPairing] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; version?: string; requireAuth?: boolean; error?: string } | null>(null);
+  const [pairError, setPairError] = useState<string | null>(null);
 
   // Load existing config on open
   useEffect(() => {
@@ -25,30 +53,74 @@ export function RelayConnectDialog({ open, onOpenChange, onConnected }: RelayCon
       if (existing) {
         setPcIp(existing.pcIp);
         setPort(String(existing.port || 8766));
+        setTls(!!existing.tls);
       }
+      setCode('');
       setResult(null);
+      setPairError(null);
     }
   }, [open]);
 
+  const currentTarget = (): RelayConfig => ({ pcIp: pcIp.trim(), port: parseInt(port) || 8766, tls });
+
+  // Credentials from an earlier pairing stay valid while host/port/scheme match.
+  const existingCredentials = (): Pick<RelayConfig, 'deviceId' | 'secret'> => {
+    const existing = getRelayConfig();
+    const target = currentTarget();
+    if (!existing?.deviceId || existing.pcIp !== target.pcIp || (existing.port || 8766) !== target.port || !!existing.tls !== tls) return {};
+    return { deviceId: existing.deviceId, secret: existing.secret };
+  };
+
+  const handleCodeChange = (value: string) => {
+    const payload = parsePairingPayload(value);
+    if (payload) {
+      setPcIp(payload.host);
+      setPort(String(payload.port || 8766));
+      setTls(!!payload.tls);
+      setCode(payload.code);
+    } else {
+      setCode(value.toUpperCase());
+    }
+    setResult(null);
+    setPairError(null);
+  };
+
   const handleTest = async () => {
     if (!pcIp.trim()) return;
     setTesting(true);
     setResult(null);
-    const config: RelayConfig = { pcIp: pcIp.trim(), port: parseInt(port) || 8766 };
-    const res = await testRelayConnection(config);
+    const res = await testRelayConnection(currentTarget());
     setResult(res);
     setTesting(false);
   };
 
-  const handleConnect = () => {
-    const config: RelayConfig = { pcIp: pcIp.trim(), port: parseInt(port) || 8766 };
+  const finish = (config: RelayConfig) => {
     setRelayConfig(config);
+    relayEvents.restart();
     onOpenChange(false);
     onConnected?.();
   };
 
+  const handleConnect = async () => {
+    const target = currentTarget();
+    if (code.trim()) {
+      setPairing(true);
+      setPairError(null);
+      const res = await pairRelay(target, code.trim(), deviceName.trim() || defaultDeviceName());
+      setPairing(false);
+      if (!res.ok || !res.config) {
+        setPairError(res.error === 'invalid-or-expired-code' ? 'Pairing code is invalid or expired' : `Pairing failed: ${res.error}`);
+        return;
+      }
+      finish(res.config);
+      return;
+    }
+    finish({ ...target, ...existingCredentials() });
+  };
+
   const handleDisconnect = () => {
     setRelayConfig(null);
+    relayEvents.restart();
     setResult(null);
     setPcIp('');
     onOpenChange(false);
@@ -56,6 +128,8 @@ export function RelayConnectDialog({ open, onOpenChange, onConnected }: RelayCon
   };
 
   const isConnected = !!getRelayConfig();
+  const paired = !!existingCredentials().deviceId;
+  const needsPairing = !!result?.ok && result.requireAuth !== false && !paired;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -66,7 +140,8 @@ export function RelayConnectDialog({ open, onOpenChange, onConnected }: RelayCon
             Connect via PC
           </DialogTitle>
           <DialogDescription>
-            Enter the IP address of the PC running CodeSync to relay printer commands through it.
+            Enter the IP address of the PC running CodeSync and the relay pairing code shown
+            under Pair Mobile Device on that PC.
           </DialogDescription>
         </DialogHeader>
 
@@ -93,6 +168,34 @@ export function RelayConnectDialog({ open, onOpenChange, onConnected }: RelayCon
             />
           </div>
 
+          <div className="flex items-center justify-between">
+            <Label htmlFor="relay-tls-client" className="text-sm">Use HTTPS</Label>
+            <Switch id="relay-tls-client" checked={tls} onCheckedChange={(v) => { setTls(v); setResult(null); }} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="relay-code" className="flex items-center gap-1.5">
+              <KeyRound className="w-3.5 h-3.5" />
+              Pairing code {paired && <span className="text-xs font-normal text-muted-foreground">(already paired)</span>}
+            </Label>
+            <Input
+              id="relay-code"
+              placeholder={paired ? 'Leave empty to keep current pairing' : 'e.g. K7PQ2M'}
+              value={code}
+              onChange={(e) => handleCodeChange(e.target.value)}
+              className="font-mono tracking-widest"
+              autoCapitalize="characters"
+              autoComplete="off"
+            />
+          </div>
+
+          {code.trim() && (
+            <div className="space-y-2">
+              <Label htmlFor="relay-device-name">Device name</Label>
+              <Input id="relay-device-name" value={deviceName} onChange={(e) => setDeviceName(e.target.value)} />
+            </div>
+          )}
+
           {/* Test result */}
           {result && (
             <div className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
@@ -103,7 +206,10 @@ export function RelayConnectDialog({ open, onOpenChange, onConnected }: RelayCon
               {result.ok ? (
                 <>
                   <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
-                  <span>Connected! CodeSync v{result.version} found on PC.</span>
+                  <span>
+                    Connected! CodeSync v{result.version} found on PC.
+                    {needsPairing && !code.trim() && ' Enter the pairing code to continue.'}
+                  </span>
                 </>
               ) : (
                 <>
@@ -114,6 +220,13 @@ export function RelayConnectDialog({ open, onOpenChange, onConnected }: RelayCon
             </div>
           )}
 
+          {pairError && (
+            <div className="flex items-center gap-2 p-3 rounded-lg text-sm bg-destructive/10 text-destructive border border-destructive/20">
+              <KeyRound className="w-4 h-4 flex-shrink-0" />
+              <span>{pairError}</span>
+            </div>
+          )}
+
           <div className="flex gap-2">
             <Button
               onClick={handleTest}
@@ -131,10 +244,11 @@ export function RelayConnectDialog({ open, onOpenChange, onConnected }: RelayCon
 
             <Button
               onClick={handleConnect}
-              disabled={!result?.ok}
+              disabled={!pcIp.trim() || pairing || (!code.trim() && (!result?.ok || needsPairing))}
               className="flex-1"
             >
-              Use This PC
+              {pairing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {code.trim() ? 'Pair & Use This PC' : 'Use This PC'}
             </Button>
           </div>
 
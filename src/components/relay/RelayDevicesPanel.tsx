@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Loader2, RefreshCw, ShieldCheck, ShieldOff, Timer, Trash2, Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { useRelayAuth } from '@/hooks/useRelayAuth';
+import { MUTATING_COMMANDS } from '@/lib/printerTransport';
+import type { RelayDevice } from '@/types/electron';
+
+/**
+ * PC-side relay access control: one-time pairing code (QR + text), the
+ * paired-device list with per-device mutating-command allowlist, and the
+ * require-auth / HTTPS switches. Rendered inside PairMobileDialog on Electron.
+ */
+
+/** Payload encoded in the pairing QR — RelayConnectDialog accepts it pasted. */
+export interface RelayPairingPayload {
+  v: 1;
+  host: string;
+  port: number;
+  code: string;
+  tls: boolean;
+}
+
+function formatRelative(iso: string | null): string {
+  if (!iso) return 'never';
+  const mins = Math.floor((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  const hrs = Math.floor(mins / 60);
+  return hrs < 24 ? `${hrs}h ago` : `${Math.floor(hrs / 24)}d ago`;
+}
+
+function DeviceRow({ device, onRevoke, onToggle }: {
+  device: RelayDevice;
+  onRevoke: () => void;
+  onToggle: (cmd: string, on: boolean) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const allowed = new Set(device.allowedCommands);
+  return (
+    <div className="px-3 py-2 bg-muted/40 rounded-md border border-border">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="text-sm text-foreground truncate">{device.name}</div>
+          <div className="text-[10px] text-muted-foreground">
+            {device.remote} · Paired {formatRelative(device.pairedAt)} · Last seen {formatRelative(device.lastSeen)}
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setExpanded((v) => !v)}>
+          {allowed.size === 0 ? 'Read-only' : `${allowed.size} allowed`}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRevoke}
+          className="h-7 px-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+          title="Revoke relay access"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+      {expanded && (
+        <div className="mt-2 pt-2 border-t border-border">
+          <p className="text-[10px] text-muted-foreground mb-1.5">
+            Printer-mutating commands this device may send. Status reads are always allowed.
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {MUTATING_COMMANDS.map((cmd) => (
+              <button
+                key={cmd}
+                onClick={() => onToggle(cmd, !allowed.has(cmd))}
+                className={`px-2 py-0.5 rounded font-mono text-xs border transition-colors ${
+                  allowed.has(cmd)
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-background text-muted-foreground border-border hover:bg-muted'
+                }`}
+                aria-pressed={allowed.has(cmd)}
+              >
+                ^{cmd}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RelayDevicesPanel({ active }: { active: boolean }) {
+  const { supported, auth, info, createPairingCode, revokeDevice, setAllowedCommands, updateSettings } = useRelayAuth(active);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [generating, setGenerating] = useState(false);
+
+  const pairing = auth?.pairing ?? null;
+
+  useEffect(() => {
+    if (!pairing) { setSecondsLeft(0); return; }
+    const update = () => setSecondsLeft(Math.max(0, Math.floor((pairing.expiresAt - Date.now()) / 1000)));
+    update();
+    const t = setInterval(update, 1000);
+    return () => clearInterval(t);
+  }, [pairing]);
+
+  if (!supported) return null;
+
+  const generate = async () => {
+    setGenerating(true);
+    await createPairingCode();
+    setGenerating(false);
+  };
+
+  const host = info?.ips[0] ?? '';
+  const qrPayload: RelayPairingPayload | null = pairing && secondsLeft > 0 && host
+    ? { v: 1, host, port: info?.port ?? 8766, code: pairing.code, tls: !!info?.tls }
+    : null;
+
+  const toggleCommand = (device: RelayDevice, cmd: string, on: boolean) => {
+    const next = on ? [...device.allowedCommands, cmd] : device.allowedCommands.filter((c) => c !== cmd);
+    setAllowedCommands(device.id, next);
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/30 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        {auth?.requireAuth ? <ShieldCheck className="w-4 h-4 text-primary" /> : <ShieldOff className="w-4 h-4 text-destructive" />}
+        <h3 className="text-sm font-semibold">Relay access</h3>
+        <span className="text-[11px] text-muted-foreground ml-auto font-mono">
+          {info ? `${info.tls ? 'https' : 'http'}://${host || '—'}:${info.port}` : '…'}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Phones using "Connect via PC" must pair with a one-time code before they can reach printers through this PC.
+      </p>
+
+      <div className="flex flex-col items-center gap-2">
+        {generating ? (
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground my-4" />
+        ) : qrPayload ? (
+          <>
+            <div className="bg-white p-3 rounded-lg">
+              <QRCodeSVG value={JSON.stringify(qrPayload)} size={140} level="M" />
+            </div>
+            <div className="text-2xl font-mono font-bold tracking-[0.3em] text-foreground">{qrPayload.code}</div>
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <Timer className="w-3.5 h-3.5" />
+              <span>Expires in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}</span>
+            </div>
+          </>
+        ) : (
+          <Button onClick={generate} variant="outline" size="sm" disabled={!host}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            {host ? 'Generate relay pairing code' : 'No network interface'}
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="text-xs font-semibold">Paired devices ({auth?.devices.length ?? 0})</div>
+        {auth && auth.devices.length === 0 && (
+          <p className="text-xs text-muted-foreground italic text-center py-2">No devices paired with the relay</p>
+        )}
+        {auth?.devices.map((d) => (
+          <DeviceRow
+            key={d.id}
+            device={d}
+            onRevoke={() => { revokeDevice(d.id); toast.success(`Revoked ${d.name}`); }}
+            onToggle={(cmd, on) => toggleCommand(d, cmd, on)}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-border">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="relay-require-auth" className="text-xs">Require pairing</Label>
+          <Switch
+            id="relay-require-auth"
+            checked={!!auth?.requireAuth}
+            onCheckedChange={(v) => updateSettings({ requireAuth: v })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="relay-tls" className="text-xs flex items-center gap-1">
+            <Lock className="w-3 h-3" /> HTTPS (self-signed)
+          </Label>
+          <Switch
+            id="relay-tls"
+            checked={!!auth?.tls}
+            onCheckedChange={(v) => updateSettings({ tls: v })}
+          />
+        </div>
+        {info?.tls && info.fingerprint && (
+          <p className="text-[10px] text-muted-foreground font-mono break-all">
+            Certificate SHA-1 {info.fingerprint}. Open the relay URL once on the phone and accept the certificate before pairing.
+          </p>
+        )}
+        {auth?.tls && info && !info.tls && (
+          <p className="text-[10px] text-destructive">HTTPS is enabled but could not start — the relay is serving plain HTTP.</p>
+        )}
+      </div>
+    </div>
+  );
+}
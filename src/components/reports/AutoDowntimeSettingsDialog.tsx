@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { downtimeEngine, DOWNTIME_CAUSES, type DowntimeCause } from '@/lib/downtimeEngine';
+import { useDowntimeEngineState } from '@/hooks/useAutoDowntime';
+
+const CAUSE_LABELS: Record<DowntimeCause, { label: string; detail: string }> = {
+  printer_offline: { label: 'Printer offline', detail: 'No ping reply three polls in a row' },
+  ink_empty: { label: 'Ink empty', detail: '^LE ink-empty fault' },
+  makeup_empty: { label: 'Makeup empty', detail: '^LE makeup-empty fault' },
+  jet_stopped: { label: 'Jet stopped', detail: '^SU shows the jet off' },
+  hv_disabled: { label: 'HV off', detail: 'Jet running but high voltage disabled' },
+};
+
+interface AutoDowntimeSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Which printer conditions open downtime on active runs, and the micro-stop threshold. */
+export function AutoDowntimeSettingsDialog({ open, onOpenChange }: AutoDowntimeSettingsDialogProps) {
+  const { settings, stops } = useDowntimeEngineState();
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const handleSave = () => {
+    downtimeEngine.configure(draft);
+    onOpenChange(false);
+  };
+
+  const stopped = Object.keys(stops).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Automatic Downtime</DialogTitle>
+          <DialogDescription>
+            Opens and closes downtime on active runs from the printer's polled state.
+            {stopped > 0 && ` ${stopped} printer(s) stopped right now.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Capture downtime automatically</Label>
+            <Switch checked={draft.enabled} onCheckedChange={(enabled) => setDraft({ ...draft, enabled })} />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-sm">Micro-stop threshold (seconds)</Label>
+            <Input
+              type="number"
+              min={0}
+              max={3600}
+              value={draft.microStopSeconds}
+              disabled={!draft.enabled}
+              onChange={(e) => setDraft({ ...draft, microStopSeconds: Number(e.target.value) })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Shorter stops are counted as micro-stops on the run instead of downtime.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm">Conditions</Label>
+            {DOWNTIME_CAUSES.map((cause) => (
+              <div key={cause} className="flex items-center justify-between gap-3">
+                <div>
+                  <div className="text-sm">{CAUSE_LABELS[cause].label}</div>
+                  <div className="text-xs text-muted-foreground">{CAUSE_LABELS[cause].detail}</div>
+                </div>
+                <Switch
+                  checked={draft.causes[cause]}
+                  disabled={!draft.enabled}
+                  onCheckedChange={(on) => setDraft({ ...draft, causes: { ...draft.causes, [cause]: on } })}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
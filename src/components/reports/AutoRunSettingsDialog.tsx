@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { runTracker } from '@/lib/runTracker';
+import { useRunTrackerState } from '@/hooks/useAutoRuns';
+
+interface AutoRunSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Whether message selection opens runs, the fallback target and the snapshot interval. */
+export function AutoRunSettingsDialog({ open, onOpenChange }: AutoRunSettingsDialogProps) {
+  const { settings } = useRunTrackerState();
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const handleSave = () => {
+    runTracker.configure(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Automatic Runs</DialogTitle>
+          <DialogDescription>
+            Selecting a message on a printer closes its current run and opens a new one, counted from the ^CN product counter.
+            Printers with a hand-started run or a Twin Code pairing are left alone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Start runs on message selection</Label>
+            <Switch checked={draft.enabled} onCheckedChange={(enabled) => setDraft({ ...draft, enabled })} />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-sm">Default target</Label>
+            <Input
+              type="number"
+              min={0}
+              value={draft.defaultTarget}
+              disabled={!draft.enabled}
+              onChange={(e) => setDraft({ ...draft, defaultTarget: Number(e.target.value) })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Used when the message has no open print job and no earlier run on that printer.
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-sm">Snapshot interval (seconds)</Label>
+            <Input
+              type="number"
+              min={5}
+              max={3600}
+              value={draft.snapshotSeconds}
+              onChange={(e) => setDraft({ ...draft, snapshotSeconds: Number(e.target.value) })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Every counter change is recorded; idle counters are recorded at this interval.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
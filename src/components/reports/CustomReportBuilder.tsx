@@ -33,6 +33,7 @@ const DOWNTIME_REASONS = [
   { key: 'maintenance', label: 'Maintenance' },
   { key: 'jet_stopped', label: 'Jet Stopped' },
   { key: 'hv_disabled', label: 'HV Disabled' },
+  { key: 'printer_offline', label: 'Printer Offline' },
   { key: 'other', label: 'Other' },
 ];
 
@@ -1,7 +1,7 @@
 import { forwardRef, useMemo } from 'react';
 import {
   Package, Target, Timer, ArrowDownCircle, TrendingUp, Gauge, BarChart3, AlertTriangle,
-  Activity, Hash, Clock,
+  Activity, Hash, Clock, CheckCircle2,
 } from 'lucide-react';
 import {
   AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip,
@@ -9,17 +9,18 @@ import {
 } from 'recharts';
 import type { ProductionRun } from '@/types/production';
 import type { Printer } from '@/types/printer';
-import type { CustomReportTemplate } from '@/types/reportTemplates';
-import { DEFAULT_SHIFTS } from '@/types/reportTemplates';
+import type { CustomReportTemplate, ShiftCalendar } from '@/types/reportTemplates';
 import {
   resolveScope, filterRuns, aggregate, bucketRuns, downtimeByReason, topMessages,
   groupByPrinter, groupByShift, hourlyHeatmap, formatDuration, DOWNTIME_LABELS,
 } from '@/lib/reportAggregation';
+import { calendarShifts } from '@/lib/shiftCalendar';
 
 interface Props {
   template: CustomReportTemplate;
   runs: ProductionRun[];
   printers: Printer[];
+  calendar: ShiftCalendar;
 }
 
 const PIE_COLORS = ['hsl(var(--primary))', 'hsl(var(--success))', 'hsl(var(--warning))', '#06b6d4', '#a855f7', '#ec4899', '#f59e0b', '#10b981'];
@@ -49,7 +50,7 @@ function KPI({ icon: Icon, label, value, sub, accent = 'primary' }: {
   );
 }
 
-export const CustomReportRenderer = forwardRef<HTMLDivElement, Props>(({ template, runs, printers }, ref) => {
+export const CustomReportRenderer = forwardRef<HTMLDivElement, Props>(({ template, runs, printers, calendar }, ref) => {
   const range = useMemo(() => resolveScope(template.scope), [template.scope]);
   const filtered = useMemo(() => {
     let r = filterRuns(runs, range, template.scope.printerIds);
@@ -67,12 +68,13 @@ export const CustomReportRenderer = forwardRef<HTMLDivElement, Props>(({ templat
     return r;
   }, [runs, range, template.scope.printerIds, template.messageFilter, template.downtimeReasons]);
 
-  const summary = useMemo(() => aggregate(filtered), [filtered]);
-  const buckets = useMemo(() => bucketRuns(filtered, template.scope.bucket), [filtered, template.scope.bucket]);
+  const summary = useMemo(() => aggregate(filtered, calendar), [filtered, calendar]);
+  const buckets = useMemo(() => bucketRuns(filtered, template.scope.bucket, calendar), [filtered, template.scope.bucket, calendar]);
   const downtimePareto = useMemo(() => downtimeByReason(filtered), [filtered]);
   const topMsgs = useMemo(() => topMessages(filtered, 8), [filtered]);
   const byPrinter = useMemo(() => groupByPrinter(filtered), [filtered]);
-  const byShift = useMemo(() => groupByShift(filtered, DEFAULT_SHIFTS), [filtered]);
+  const shifts = useMemo(() => calendarShifts(calendar), [calendar]);
+  const byShift = useMemo(() => groupByShift(filtered, shifts, calendar), [filtered, shifts, calendar]);
   const heatmap = useMemo(() => hourlyHeatmap(filtered), [filtered]);
 
   const showViz = (key: typeof template.visualizations[number]) => template.visualizations.includes(key);
@@ -107,6 +109,8 @@ export const CustomReportRenderer = forwardRef<HTMLDivElement, Props>(({ templat
             accent={summary.oee >= 60 ? 'success' : 'destructive'} />}
           {showMetric('availability') && <KPI icon={Activity} label="Availability" value={`${summary.availability.toFixed(1)}%`} accent="success" />}
           {showMetric('performance') && <KPI icon={Activity} label="Performance" value={`${summary.performance.toFixed(1)}%`} accent="warning" />}
+          {showMetric('quality') && <KPI icon={CheckCircle2} label="Quality" value={`${summary.quality.toFixed(1)}%`}
+            accent={summary.quality >= 99 ? 'success' : summary.quality >= 95 ? 'warning' : 'destructive'} />}
           {showMetric('runCount') && <KPI icon={Hash} label="Runs" value={summary.runCount.toString()} accent="primary" />}
           {showMetric('avgRunDuration') && <KPI icon={Clock} label="Avg Run" value={formatDuration(summary.avgRunDuration)} accent="primary" />}
         </div>
@@ -199,9 +203,9 @@ export const CustomReportRenderer = forwardRef<HTMLDivElement, Props>(({ templat
             </div>
             <div className="h-[220px]">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={DEFAULT_SHIFTS.map(s => {
+                <BarChart data={shifts.map(s => {
                   const rs = byShift.get(s.id) ?? [];
-                  const a = aggregate(rs);
+                  const a = aggregate(rs, calendar);
                   return { name: s.name, Produced: a.produced, Target: a.target };
                 })}>
                   <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.4} />
@@ -308,13 +312,14 @@ export const CustomReportRenderer = forwardRef<HTMLDivElement, Props>(({ templat
                   {showMetric('runTime') && <th className="py-2 text-right">Run Time</th>}
                   {showMetric('downtime') && <th className="py-2 text-right">Downtime</th>}
                   {showMetric('oee') && <th className="py-2 text-right">OEE</th>}
+                  {showMetric('quality') && <th className="py-2 text-right">Quality</th>}
                   {showMetric('runCount') && <th className="py-2 text-right">Runs</th>}
                 </tr>
               </thead>
               <tbody>
                 {Array.from(byPrinter.entries()).map(([id, rs]) => {
                   const p = printers.find(x => x.id === id);
-                  const a = aggregate(rs);
+                  const a = aggregate(rs, calendar);
                   return (
                     <tr key={id} className="border-b border-border/40 hover:bg-secondary/30">
                       <td className="py-2 font-semibold text-foreground">{p?.name ?? `Printer ${id}`}</td>
@@ -324,6 +329,7 @@ export const CustomReportRenderer = forwardRef<HTMLDivElement, Props>(({ templat
                       {showMetric('runTime') && <td className="py-2 text-right tabular-nums">{formatDuration(a.runTime)}</td>}
                       {showMetric('downtime') && <td className="py-2 text-right tabular-nums text-destructive">{formatDuration(a.downtime)}</td>}
                       {showMetric('oee') && <td className="py-2 text-right tabular-nums">{a.oee.toFixed(1)}%</td>}
+                      {showMetric('quality') && <td className="py-2 text-right tabular-nums">{a.quality.toFixed(1)}%</td>}
                       {showMetric('runCount') && <td className="py-2 text-right tabular-nums">{a.runCount}</td>}
                     </tr>
                   );
@@ -1,11 +1,14 @@
 import { useState, useMemo, useEffect } from 'react';
 import {
   BarChart3, TrendingUp, Clock, AlertTriangle, Plus, Trash2,
-  Download, Target, Activity, Gauge, ArrowDownCircle, CheckCircle2,
+  Target, Activity, Gauge, ArrowDownCircle, CheckCircle2,
   Timer, Factory, Zap, ChevronDown, ChevronUp, ArrowLeft,
-  Printer as PrinterIcon, Package, ChevronRight
+  Printer as PrinterIcon, Package, ChevronRight, XCircle, Repeat
 } from 'lucide-react';
 import { SubPageHeader } from '@/components/layout/SubPageHeader';
+import { AutoDowntimeSettingsDialog } from '@/components/reports/AutoDowntimeSettingsDialog';
+import { AutoRunSettingsDialog } from '@/components/reports/AutoRunSettingsDialog';
+import { ReportDownloadMenu } from '@/components/reports/ReportDownloadMenu';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -15,9 +18,13 @@ import {
   AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid,
   Tooltip, ResponsiveContainer, Cell
 } from 'recharts';
-import type { ProductionRun, ProductionSnapshot, OEEMetrics } from '@/types/production';
-import { calculateOEE } from '@/types/production';
+import type { ProductionRun, ProductionSnapshot, OEEMetrics, RejectSource, DowntimeEvent } from '@/types/production';
+import { REJECT_SOURCE_LABELS } from '@/types/production';
 import type { Printer } from '@/types/printer';
+import { buildOEEDocument } from '@/lib/reportDocument';
+import { runOEE } from '@/lib/reportAggregation';
+import { closeAutoRun } from '@/lib/runTracker';
+import { useShiftCalendar } from '@/hooks/useShiftCalendar';
 
 interface ReportsScreenProps {
   runs: ProductionRun[];
@@ -25,9 +32,11 @@ interface ReportsScreenProps {
   printers: Printer[];
   onAddRun: (run: Omit<ProductionRun, 'id'>) => Promise<ProductionRun>;
   onUpdateRun: (id: string, updates: Partial<ProductionRun>) => void;
+  onSetRejects: (id: string, source: RejectSource, count: number) => void;
   onDeleteRun: (id: string) => void;
   onAddDowntime: (runId: string, reason: string) => void;
   onEndDowntime: (runId: string, eventId: string) => void;
+  onSetDowntimeReason: (runId: string, eventId: string, reason: string) => void;
   onHome: () => void;
 }
 
@@ -332,6 +341,7 @@ function formatDateTime(ts: number): string {
 const DOWNTIME_LABELS: Record<string, string> = {
   jet_stopped: 'Jet Stopped',
   hv_disabled: 'HV Disabled',
+  printer_offline: 'Printer Offline',
   printer_error: 'Printer Error',
   ink_empty: 'Ink Empty',
   makeup_empty: 'Makeup Empty',
@@ -341,6 +351,29 @@ const DOWNTIME_LABELS: Record<string, string> = {
   other: 'Other',
 };
 
+function rejectBreakdownText(run: Pick<ProductionRun, 'rejects'>): string {
+  return (Object.keys(REJECT_SOURCE_LABELS) as RejectSource[])
+    .filter(src => (run.rejects?.[src] ?? 0) > 0)
+    .map(src => `${run.rejects![src]} ${REJECT_SOURCE_LABELS[src].toLowerCase()}`)
+    .join(', ');
+}
+
+/** Operator override of a downtime reason; auto events remember what was detected. */
+function DowntimeReasonSelect({ event, onChange }: { event: DowntimeEvent; onChange: (reason: string) => void }) {
+  return (
+    <Select value={event.reason} onValueChange={onChange}>
+      <SelectTrigger className="h-7 w-auto min-w-[130px] text-xs"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {Object.entries(DOWNTIME_LABELS).map(([key, label]) => (
+          <SelectItem key={key} value={key} className="text-xs">
+            {label}{event.detectedReason === key ? ' (detected)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
 function StatCard({ icon: Icon, label, value, accent }: {
   icon: React.ElementType; label: string; value: string; accent: 'primary' | 'success' | 'destructive' | 'warning';
 }) {
@@ -391,8 +424,8 @@ function useLiveTick(hasActiveRuns: boolean) {
 
 export function ReportsScreen({
   runs, snapshots, printers,
-  onAddRun, onUpdateRun, onDeleteRun,
-  onAddDowntime, onEndDowntime,
+  onAddRun, onUpdateRun, onSetRejects, onDeleteRun,
+  onAddDowntime, onEndDowntime, onSetDowntimeReason,
   onHome,
 }: ReportsScreenProps) {
   const [selectedPrinterId, setSelectedPrinterId] = useState<number | null>(null);
@@ -402,12 +435,16 @@ export function ReportsScreen({
   const [downtimeDialogOpen, setDowntimeDialogOpen] = useState(false);
   const [downtimeReason, setDowntimeReason] = useState('');
   const [downtimeRunId, setDowntimeRunId] = useState<string | null>(null);
+  const [autoDowntimeOpen, setAutoDowntimeOpen] = useState(false);
+  const [autoRunsOpen, setAutoRunsOpen] = useState(false);
   const [newPrinterId, setNewPrinterId] = useState<string>('');
   const [newMessageName, setNewMessageName] = useState('');
   const [newTargetCount, setNewTargetCount] = useState('');
+  const [newRejectCounter, setNewRejectCounter] = useState('none');
 
   const hasActiveRuns = runs.some(r => r.endTime === null);
   const tick = useLiveTick(hasActiveRuns);
+  const { calendar } = useShiftCalendar();
 
   // Per-printer run data (recalculates every second when active runs exist)
   const printerRunData = useMemo(() => {
@@ -417,16 +454,16 @@ export function ReportsScreen({
       const entry = map.get(run.printerId);
       if (entry) {
         entry.runs.push(run);
-        entry.metrics.push({ run, oee: calculateOEE(run) });
+        entry.metrics.push({ run, oee: runOEE(run, calendar) });
       }
     });
     return map;
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [runs, printers, tick]);
+  }, [runs, printers, calendar, tick]);
 
   // Overall stats across all printers
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  const allMetrics = useMemo(() => runs.map(run => ({ run, oee: calculateOEE(run) })), [runs, tick]);
+  const allMetrics = useMemo(() => runs.map(run => ({ run, oee: runOEE(run, calendar) })), [runs, calendar, tick]);
 
   const overallOEE = useMemo((): OEEMetrics | null => {
     if (allMetrics.length === 0) return null;
@@ -439,58 +476,52 @@ export function ReportsScreen({
     return {
       availability: avg('availability'),
       performance: avg('performance'),
+      quality: avg('quality'),
       oee: avg('oee'),
       plannedTime: source.reduce((s, rm) => s + rm.oee.plannedTime, 0),
       runTime: source.reduce((s, rm) => s + rm.oee.runTime, 0),
       totalDowntime: source.reduce((s, rm) => s + rm.oee.totalDowntime, 0),
       targetCount: source.reduce((s, rm) => s + rm.oee.targetCount, 0),
       actualCount: source.reduce((s, rm) => s + rm.oee.actualCount, 0),
+      goodCount: source.reduce((s, rm) => s + rm.oee.goodCount, 0),
+      rejectCount: source.reduce((s, rm) => s + rm.oee.rejectCount, 0),
     };
   }, [allMetrics]);
 
   const handleCreateRun = async () => {
     const printer = printers.find(p => p.id === Number(newPrinterId));
     if (!printer || !newMessageName.trim() || !newTargetCount) return;
+    // A hand-started run takes the printer over from the run tracker
+    const startTime = Date.now();
+    for (const run of runs) {
+      if (run.printerId === printer.id && run.endTime === null && run.source === 'auto') {
+        onUpdateRun(run.id, closeAutoRun(run, startTime));
+      }
+    }
     await onAddRun({
       printerId: printer.id,
       printerName: printer.name,
       messageName: newMessageName.trim(),
-      startTime: Date.now(),
+      startTime,
       endTime: null,
       targetCount: Number(newTargetCount),
       actualCount: 0,
+      rejects: {},
+      rejectCounter: newRejectCounter === 'none' ? null : Number(newRejectCounter) as 1 | 2 | 3 | 4,
       downtimeEvents: [],
+      source: 'manual',
     });
     setNewRunDialogOpen(false);
     setNewPrinterId('');
     setNewMessageName('');
     setNewTargetCount('');
+    setNewRejectCounter('none');
   };
 
   const handleEndRun = (runId: string, actualCount: string) => {
     onUpdateRun(runId, { endTime: Date.now(), actualCount: Number(actualCount) });
   };
 
-  const handleExportCSV = (runsToExport: { run: ProductionRun; oee: OEEMetrics }[]) => {
-    const headers = ['Run ID', 'Printer', 'Message', 'Start', 'End', 'Target', 'Actual', 'OEE %', 'Availability %', 'Performance %', 'Downtime (min)'];
-    const rows = runsToExport.map(rm => [
-      rm.run.id.substring(0, 8), rm.run.printerName, rm.run.messageName,
-      new Date(rm.run.startTime).toISOString(),
-      rm.run.endTime ? new Date(rm.run.endTime).toISOString() : 'Active',
-      rm.run.targetCount, rm.run.actualCount,
-      rm.oee.oee.toFixed(1), rm.oee.availability.toFixed(1), rm.oee.performance.toFixed(1),
-      Math.round(rm.oee.totalDowntime / 60000),
-    ]);
-    const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `oee-report-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
   // Compute selected printer's OEE for inline display
   const selectedData = selectedPrinterId !== null ? printerRunData.get(selectedPrinterId) : null;
   const selectedPrinter = selectedPrinterId !== null ? printers.find(p => p.id === selectedPrinterId) : null;
@@ -498,18 +529,20 @@ export function ReportsScreen({
     if (!selectedData || selectedData.metrics.length === 0) return null;
     const completed = selectedData.metrics.filter(rm => rm.run.endTime !== null);
     const source = completed.length > 0 ? completed : selectedData.metrics;
-    const liveMetrics = source.map(rm => rm.run.endTime === null ? { ...rm, oee: calculateOEE(rm.run) } : rm);
+    const liveMetrics = source.map(rm => rm.run.endTime === null ? { ...rm, oee: runOEE(rm.run, calendar) } : rm);
     const avg = (field: keyof OEEMetrics) => liveMetrics.reduce((s, rm) => s + (rm.oee[field] as number), 0) / liveMetrics.length;
     return {
-      availability: avg('availability'), performance: avg('performance'), oee: avg('oee'),
+      availability: avg('availability'), performance: avg('performance'), quality: avg('quality'), oee: avg('oee'),
       plannedTime: liveMetrics.reduce((s, rm) => s + rm.oee.plannedTime, 0),
       runTime: liveMetrics.reduce((s, rm) => s + rm.oee.runTime, 0),
       totalDowntime: liveMetrics.reduce((s, rm) => s + rm.oee.totalDowntime, 0),
       targetCount: liveMetrics.reduce((s, rm) => s + rm.oee.targetCount, 0),
       actualCount: liveMetrics.reduce((s, rm) => s + rm.oee.actualCount, 0),
+      goodCount: liveMetrics.reduce((s, rm) => s + rm.oee.goodCount, 0),
+      rejectCount: liveMetrics.reduce((s, rm) => s + rm.oee.rejectCount, 0),
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedData, tick]);
+  }, [selectedData, calendar, tick]);
 
   // If drilling into full detail view
   if (detailPrinterId !== null) {
@@ -527,10 +560,12 @@ export function ReportsScreen({
         onBack={() => setDetailPrinterId(null)}
         onHome={onHome}
         onUpdateRun={onUpdateRun}
+        onSetRejects={onSetRejects}
         onDeleteRun={onDeleteRun}
         onAddDowntime={onAddDowntime}
         onEndDowntime={onEndDowntime}
-        onExportCSV={() => handleExportCSV(data.metrics)}
+        onSetDowntimeReason={onSetDowntimeReason}
+        printers={printers}
         expandedRunId={expandedRunId}
         setExpandedRunId={setExpandedRunId}
         onLogDowntime={(runId) => { setDowntimeRunId(runId); setDowntimeDialogOpen(true); }}
@@ -547,9 +582,18 @@ export function ReportsScreen({
           onHome={onHome}
           rightContent={
             <div className="flex gap-2">
-              <Button size="sm" variant="outline" onClick={() => handleExportCSV(allMetrics)} disabled={runs.length === 0}>
-                <Download className="w-4 h-4 mr-1" /> Export
+              <Button size="sm" variant="outline" onClick={() => setAutoRunsOpen(true)}>
+                <Repeat className="w-4 h-4 mr-1" /> Auto Runs
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setAutoDowntimeOpen(true)}>
+                <Timer className="w-4 h-4 mr-1" /> Auto Downtime
               </Button>
+              <ReportDownloadMenu
+                getDocument={() => buildOEEDocument(runs, printers, undefined, calendar)}
+                runs={runs}
+                filenameStem={`oee-report-${new Date().toISOString().split('T')[0]}`}
+                disabled={runs.length === 0}
+              />
               <Button size="sm" onClick={() => setNewRunDialogOpen(true)} className="industrial-button text-white border-0">
                 <Plus className="w-4 h-4 mr-1" /> New Run
               </Button>
@@ -594,7 +638,7 @@ export function ReportsScreen({
                   ]}
                 />
                 <DashGauge
-                  value={100} label="Quality" gradientId="qual-grad"
+                  value={selectedOEE.quality} label="Quality" gradientId="qual-grad"
                   colorStops={[
                     { offset: '0%', color: '#0284c7' },
                     { offset: '100%', color: '#3b82f6' },
@@ -611,9 +655,10 @@ export function ReportsScreen({
             </div>
 
             {/* Stat cards row — pastel colored backgrounds */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 md:p-5 bg-card">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 p-4 md:p-5 bg-card">
               <StatCard icon={Target} label="Target" value={selectedOEE.targetCount.toLocaleString()} accent="primary" />
               <StatCard icon={CheckCircle2} label="Actual" value={selectedOEE.actualCount.toLocaleString()} accent="success" />
+              <StatCard icon={XCircle} label="Rejects" value={selectedOEE.rejectCount.toLocaleString()} accent="destructive" />
               <StatCard icon={Timer} label="Run Time" value={formatDuration(selectedOEE.runTime)} accent="warning" />
               <StatCard icon={AlertTriangle} label="Downtime" value={formatDuration(selectedOEE.totalDowntime)} accent="destructive" />
             </div>
@@ -772,8 +817,12 @@ export function ReportsScreen({
         setNewMessageName={setNewMessageName}
         newTargetCount={newTargetCount}
         setNewTargetCount={setNewTargetCount}
+        newRejectCounter={newRejectCounter}
+        setNewRejectCounter={setNewRejectCounter}
         onCreate={handleCreateRun}
       />
+      <AutoDowntimeSettingsDialog open={autoDowntimeOpen} onOpenChange={setAutoDowntimeOpen} />
+      <AutoRunSettingsDialog open={autoRunsOpen} onOpenChange={setAutoRunsOpen} />
       <DowntimeDialog
         open={downtimeDialogOpen}
         onOpenChange={setDowntimeDialogOpen}
@@ -797,8 +846,8 @@ export function ReportsScreen({
 
 function PrinterReportDetail({
   printer, runs, metrics, onBack, onHome,
-  onUpdateRun, onDeleteRun, onAddDowntime, onEndDowntime,
-  onExportCSV, expandedRunId, setExpandedRunId, onLogDowntime,
+  onUpdateRun, onSetRejects, onDeleteRun, onAddDowntime, onEndDowntime, onSetDowntimeReason,
+  printers, expandedRunId, setExpandedRunId, onLogDowntime,
 }: {
   printer: Printer;
   runs: ProductionRun[];
@@ -806,10 +855,12 @@ function PrinterReportDetail({
   onBack: () => void;
   onHome: () => void;
   onUpdateRun: (id: string, updates: Partial<ProductionRun>) => void;
+  onSetRejects: (id: string, source: RejectSource, count: number) => void;
   onDeleteRun: (id: string) => void;
   onAddDowntime: (runId: string, reason: string) => void;
   onEndDowntime: (runId: string, eventId: string) => void;
-  onExportCSV: () => void;
+  onSetDowntimeReason: (runId: string, eventId: string, reason: string) => void;
+  printers: Printer[];
   expandedRunId: string | null;
   setExpandedRunId: (id: string | null) => void;
   onLogDowntime: (runId: string) => void;
@@ -817,24 +868,27 @@ function PrinterReportDetail({
   const activeRuns = runs.filter(r => r.endTime === null);
   const completedRuns = runs.filter(r => r.endTime !== null);
   const tick = useLiveTick(activeRuns.length > 0);
+  const { calendar } = useShiftCalendar();
 
   const printerOEE = useMemo((): OEEMetrics | null => {
     if (metrics.length === 0) return null;
     const completed = metrics.filter(rm => rm.run.endTime !== null);
     const source = completed.length > 0 ? completed : metrics;
     // Recalculate OEE live for active runs
-    const liveMetrics = source.map(rm => rm.run.endTime === null ? { ...rm, oee: calculateOEE(rm.run) } : rm);
+    const liveMetrics = source.map(rm => rm.run.endTime === null ? { ...rm, oee: runOEE(rm.run, calendar) } : rm);
     const avg = (field: keyof OEEMetrics) => liveMetrics.reduce((s, rm) => s + (rm.oee[field] as number), 0) / liveMetrics.length;
     return {
-      availability: avg('availability'), performance: avg('performance'), oee: avg('oee'),
+      availability: avg('availability'), performance: avg('performance'), quality: avg('quality'), oee: avg('oee'),
       plannedTime: liveMetrics.reduce((s, rm) => s + rm.oee.plannedTime, 0),
       runTime: liveMetrics.reduce((s, rm) => s + rm.oee.runTime, 0),
       totalDowntime: liveMetrics.reduce((s, rm) => s + rm.oee.totalDowntime, 0),
       targetCount: liveMetrics.reduce((s, rm) => s + rm.oee.targetCount, 0),
       actualCount: liveMetrics.reduce((s, rm) => s + rm.oee.actualCount, 0),
+      goodCount: liveMetrics.reduce((s, rm) => s + rm.oee.goodCount, 0),
+      rejectCount: liveMetrics.reduce((s, rm) => s + rm.oee.rejectCount, 0),
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [metrics, tick]);
+  }, [metrics, calendar, tick]);
 
   return (
     <div className="flex-1 flex flex-col min-h-0 overflow-hidden">
@@ -852,9 +906,12 @@ function PrinterReportDetail({
               <p className="text-[10px] text-muted-foreground">{printer.ipAddress}:{printer.port}</p>
             </div>
           </div>
-          <Button size="sm" variant="outline" onClick={onExportCSV} disabled={runs.length === 0}>
-            <Download className="w-4 h-4 mr-1" /> Export
-          </Button>
+          <ReportDownloadMenu
+            getDocument={() => buildOEEDocument(runs, printers, `OEE Report — ${printer.name}`, calendar)}
+            runs={runs}
+            filenameStem={`oee-${printer.name.toLowerCase().replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}`}
+            disabled={runs.length === 0}
+          />
         </div>
       </div>
 
@@ -882,7 +939,7 @@ function PrinterReportDetail({
                   ]}
                 />
                 <DashGauge
-                  value={100} label="Quality" gradientId="detail-qual"
+                  value={printerOEE.quality} label="Quality" gradientId="detail-qual"
                   colorStops={[
                     { offset: '0%', color: '#0284c7' },
                     { offset: '100%', color: '#3b82f6' },
@@ -898,9 +955,10 @@ function PrinterReportDetail({
               </div>
             </div>
             {/* Stat cards */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 md:p-5 bg-card">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 p-4 md:p-5 bg-card">
               <StatCard icon={Target} label="Target" value={printerOEE.targetCount.toLocaleString()} accent="primary" />
               <StatCard icon={CheckCircle2} label="Actual" value={printerOEE.actualCount.toLocaleString()} accent="success" />
+              <StatCard icon={XCircle} label="Rejects" value={printerOEE.rejectCount.toLocaleString()} accent="destructive" />
               <StatCard icon={Timer} label="Run Time" value={formatDuration(printerOEE.runTime)} accent="warning" />
               <StatCard icon={AlertTriangle} label="Downtime" value={formatDuration(printerOEE.totalDowntime)} accent="destructive" />
             </div>
@@ -922,7 +980,7 @@ function PrinterReportDetail({
             </div>
             <div className="space-y-3">
               {activeRuns.map(run => {
-                const oee = calculateOEE(run);
+                const oee = runOEE(run, calendar);
                 const hasActiveDowntime = run.downtimeEvents.some(e => e.endTime === null);
                 return (
                   <ActiveRunCard
@@ -930,7 +988,9 @@ function PrinterReportDetail({
                     onEnd={(c) => onUpdateRun(run.id, { endTime: Date.now(), actualCount: Number(c) })}
                     onLogDowntime={() => onLogDowntime(run.id)}
                     onEndDowntime={(eventId) => onEndDowntime(run.id, eventId)}
+                    onSetDowntimeReason={(eventId, reason) => onSetDowntimeReason(run.id, eventId, reason)}
                     onUpdateCount={(c) => onUpdateRun(run.id, { actualCount: Number(c) })}
+                    onUpdateRejects={(c) => onSetRejects(run.id, 'operator', Math.max(0, Number(c) || 0))}
                   />
                 );
               })}
@@ -956,7 +1016,7 @@ function PrinterReportDetail({
             </div>
             <div className="space-y-2">
               {completedRuns.map(run => {
-                const oee = calculateOEE(run);
+                const oee = runOEE(run, calendar);
                 const isExpanded = expandedRunId === run.id;
                 const perfPct = run.targetCount > 0 ? Math.min(100, (run.actualCount / run.targetCount) * 100) : 0;
                 return (
@@ -969,6 +1029,7 @@ function PrinterReportDetail({
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <span className="text-sm font-semibold text-foreground truncate">{run.messageName}</span>
+                          {run.source === 'auto' && <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Auto</span>}
                         </div>
                         <div className="text-xs text-muted-foreground mt-0.5">
                           {formatDateTime(run.startTime)} → {run.endTime ? formatDateTime(run.endTime) : '...'}
@@ -989,7 +1050,7 @@ function PrinterReportDetail({
                     </button>
                     {isExpanded && (
                       <div className="px-4 pb-4 border-t border-border pt-3">
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3">
                           <div className="bg-background rounded-lg p-2.5">
                             <div className="text-[10px] text-muted-foreground mb-0.5">Availability</div>
                             <div className="text-base font-bold" style={{ color: getOEEColor(oee.availability) }}>{oee.availability.toFixed(1)}%</div>
@@ -998,6 +1059,10 @@ function PrinterReportDetail({
                             <div className="text-[10px] text-muted-foreground mb-0.5">Performance</div>
                             <div className="text-base font-bold" style={{ color: getOEEColor(oee.performance) }}>{oee.performance.toFixed(1)}%</div>
                           </div>
+                          <div className="bg-background rounded-lg p-2.5">
+                            <div className="text-[10px] text-muted-foreground mb-0.5">Quality</div>
+                            <div className="text-base font-bold" style={{ color: getOEEColor(oee.quality) }}>{oee.quality.toFixed(1)}%</div>
+                          </div>
                           <div className="bg-background rounded-lg p-2.5">
                             <div className="text-[10px] text-muted-foreground mb-0.5">Run Time</div>
                             <div className="text-base font-bold text-foreground">{formatDuration(oee.runTime)}</div>
@@ -1007,14 +1072,23 @@ function PrinterReportDetail({
                             <div className="text-base font-bold text-destructive">{formatDuration(oee.totalDowntime)}</div>
                           </div>
                         </div>
+                        {oee.rejectCount > 0 && (
+                          <div className="text-xs text-muted-foreground mb-3">
+                            {oee.goodCount.toLocaleString()} good · {oee.rejectCount.toLocaleString()} rejected ({rejectBreakdownText(run)})
+                          </div>
+                        )}
                         {run.downtimeEvents.length > 0 && (
                           <div className="space-y-1.5 mb-3">
-                            <div className="text-xs font-semibold text-muted-foreground">Downtime Events</div>
+                            <div className="text-xs font-semibold text-muted-foreground">
+                              Downtime Events{run.microStops ? ` · ${run.microStops} micro-stop${run.microStops === 1 ? '' : 's'} not counted` : ''}
+                            </div>
                             {run.downtimeEvents.map(evt => (
                               <div key={evt.id} className="flex items-center gap-2 text-xs bg-destructive/10 rounded-lg px-3 py-2">
                                 <ArrowDownCircle className="w-3.5 h-3.5 text-destructive flex-shrink-0" />
-                                <span className="text-foreground font-medium">{DOWNTIME_LABELS[evt.reason] ?? evt.reason}</span>
-                                <span className="text-muted-foreground ml-auto tabular-nums">{formatDuration((evt.endTime ?? Date.now()) - evt.startTime)}</span>
+                                <DowntimeReasonSelect event={evt} onChange={(reason) => onSetDowntimeReason(run.id, evt.id, reason)} />
+                                {evt.source === 'auto' && <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Auto</span>}
+                                <span className="text-muted-foreground">{formatDateTime(evt.startTime)}</span>
+                                <span className="text-muted-foreground ml-auto tabular-nums">{formatDuration((evt.endTime ?? run.endTime ?? Date.now()) - evt.startTime)}</span>
                               </div>
                             ))}
                           </div>
@@ -1047,6 +1121,7 @@ function ChartOEETrend({ data }: { data: { run: ProductionRun; oee: OEEMetrics }
     oee: Number(rm.oee.oee.toFixed(1)),
     availability: Number(rm.oee.availability.toFixed(1)),
     performance: Number(rm.oee.performance.toFixed(1)),
+    quality: Number(rm.oee.quality.toFixed(1)),
   })), [data]);
 
   return (
@@ -1077,6 +1152,7 @@ function ChartOEETrend({ data }: { data: { run: ProductionRun; oee: OEEMetrics }
             <Area type="monotone" dataKey="oee" stroke="hsl(var(--primary))" fill="url(#oeeGrad)" strokeWidth={2.5} name="OEE %" />
             <Area type="monotone" dataKey="availability" stroke="hsl(var(--success))" fill="url(#availGrad)" strokeWidth={1.5} strokeDasharray="5 3" name="Availability %" />
             <Area type="monotone" dataKey="performance" stroke="hsl(var(--warning))" fill="none" strokeWidth={1.5} strokeDasharray="5 3" name="Performance %" />
+            <Area type="monotone" dataKey="quality" stroke="#3b82f6" fill="none" strokeWidth={1.5} strokeDasharray="2 3" name="Quality %" />
           </AreaChart>
         </ResponsiveContainer>
       </div>
@@ -1124,21 +1200,25 @@ function ChartTargetVsActual({ data }: { data: { run: ProductionRun; oee: OEEMet
    ================================================================ */
 
 function ActiveRunCard({
-  run, oee, hasActiveDowntime, onEnd, onLogDowntime, onEndDowntime, onUpdateCount
+  run, oee, hasActiveDowntime, onEnd, onLogDowntime, onEndDowntime, onSetDowntimeReason, onUpdateCount, onUpdateRejects
 }: {
   run: ProductionRun; oee: OEEMetrics; hasActiveDowntime: boolean;
   onEnd: (actualCount: string) => void;
   onLogDowntime: () => void;
   onEndDowntime: (eventId: string) => void;
+  onSetDowntimeReason: (eventId: string, reason: string) => void;
   onUpdateCount: (count: string) => void;
+  onUpdateRejects: (count: string) => void;
 }) {
   const [endCount, setEndCount] = useState(String(run.actualCount));
+  const [operatorRejects, setOperatorRejects] = useState(String(run.rejects?.operator ?? 0));
   const [, setTick] = useState(0);
   useEffect(() => {
     const id = setInterval(() => setTick(t => t + 1), 1000);
     return () => clearInterval(id);
   }, []);
   const elapsed = formatDuration(Date.now() - run.startTime);
+  const activeEvt = run.downtimeEvents.find(e => e.endTime === null);
   const perfPct = run.targetCount > 0 ? Math.min(100, (run.actualCount / run.targetCount) * 100) : 0;
 
   return (
@@ -1149,8 +1229,12 @@ function ActiveRunCard({
           <div className="flex items-center gap-2 mb-1">
             <Activity className="w-5 h-5 text-success animate-pulse" />
             <span className="text-base font-bold text-foreground truncate">{run.messageName}</span>
+            {run.source === 'auto' && <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Auto</span>}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {run.printerName} • Started {elapsed} ago
+            {run.microStops ? ` • ${run.microStops} micro-stop${run.microStops === 1 ? '' : 's'}` : ''}
           </div>
-          <div className="text-sm text-muted-foreground">{run.printerName} • Started {elapsed} ago</div>
         </div>
       </div>
 
@@ -1171,17 +1255,34 @@ function ActiveRunCard({
         </div>
       </div>
 
-      {hasActiveDowntime && (
+      {hasActiveDowntime && activeEvt && (
         <div className="flex items-center gap-2 bg-destructive/15 border border-destructive/20 rounded-lg px-3 py-2 mb-3 relative z-10">
           <AlertTriangle className="w-4 h-4 text-destructive animate-pulse" />
-          <span className="text-sm font-medium text-destructive">Downtime in progress</span>
-          <Button size="sm" variant="outline" className="ml-auto h-7 text-xs border-destructive/30" onClick={() => {
-            const activeEvt = run.downtimeEvents.find(e => e.endTime === null);
-            if (activeEvt) onEndDowntime(activeEvt.id);
-          }}>End Downtime</Button>
+          <span className="text-sm font-medium text-destructive">
+            Downtime {formatDuration(Date.now() - activeEvt.startTime)}
+          </span>
+          <DowntimeReasonSelect event={activeEvt} onChange={(reason) => onSetDowntimeReason(activeEvt.id, reason)} />
+          {activeEvt.source === 'auto' && <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Auto</span>}
+          <Button size="sm" variant="outline" className="ml-auto h-7 text-xs border-destructive/30" onClick={() => onEndDowntime(activeEvt.id)}>
+            End Downtime
+          </Button>
         </div>
       )}
 
+      <div className="flex items-center gap-2 mb-2 relative z-10 text-xs text-muted-foreground">
+        <XCircle className="w-3.5 h-3.5 text-destructive" />
+        <span>Rejects</span>
+        <Input
+          type="number" min={0} value={operatorRejects}
+          onChange={e => { setOperatorRejects(e.target.value); onUpdateRejects(e.target.value); }}
+          className="h-7 w-20 text-xs" title="Operator-entered rejects"
+        />
+        {(run.rejects?.photocell ?? 0) + (run.rejects?.twinCode ?? 0) > 0 && (
+          <span>+ {rejectBreakdownText({ rejects: { photocell: run.rejects?.photocell, twinCode: run.rejects?.twinCode } })}</span>
+        )}
+        <span className="ml-auto font-semibold" style={{ color: getOEEColor(oee.quality) }}>Quality {oee.quality.toFixed(1)}%</span>
+      </div>
+
       <div className="flex items-center gap-2 relative z-10">
         <div className="flex-1">
           <Input type="number" value={endCount} onChange={e => { setEndCount(e.target.value); onUpdateCount(e.target.value); }} className="h-8 text-sm" placeholder="Current count" />
@@ -1196,11 +1297,12 @@ function ActiveRunCard({
    DIALOGS
    ================================================================ */
 
-function NewRunDialog({ open, onOpenChange, printers, newPrinterId, setNewPrinterId, newMessageName, setNewMessageName, newTargetCount, setNewTargetCount, onCreate }: {
+function NewRunDialog({ open, onOpenChange, printers, newPrinterId, setNewPrinterId, newMessageName, setNewMessageName, newTargetCount, setNewTargetCount, newRejectCounter, setNewRejectCounter, onCreate }: {
   open: boolean; onOpenChange: (o: boolean) => void; printers: Printer[];
   newPrinterId: string; setNewPrinterId: (v: string) => void;
   newMessageName: string; setNewMessageName: (v: string) => void;
   newTargetCount: string; setNewTargetCount: (v: string) => void;
+  newRejectCounter: string; setNewRejectCounter: (v: string) => void;
   onCreate: () => void;
 }) {
   return (
@@ -1223,6 +1325,16 @@ function NewRunDialog({ open, onOpenChange, printers, newPrinterId, setNewPrinte
             <Label className="text-sm">Target Count</Label>
             <Input className="mt-1" type="number" value={newTargetCount} onChange={e => setNewTargetCount(e.target.value)} placeholder="Required production qty" />
           </div>
+          <div>
+            <Label className="text-sm">Reject Photocell Counter</Label>
+            <Select value={newRejectCounter} onValueChange={setNewRejectCounter}>
+              <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None — enter rejects by hand</SelectItem>
+                {[1, 2, 3, 4].map(n => <SelectItem key={n} value={String(n)}>Custom counter {n}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
@@ -8,7 +8,7 @@ import {
 } from 'recharts';
 import type { ProductionRun } from '@/types/production';
 import type { Printer } from '@/types/printer';
-import type { ReportTimeScope } from '@/types/reportTemplates';
+import type { ReportTimeScope, ShiftCalendar } from '@/types/reportTemplates';
 import {
   resolveScope, filterRuns, aggregate, bucketRuns, groupByPrinter, topMessages,
   formatDuration,
@@ -18,6 +18,7 @@ interface Props {
   runs: ProductionRun[];
   printers: Printer[];
   scope: ReportTimeScope;
+  calendar: ShiftCalendar;
 }
 
 const PIE_COLORS = ['hsl(var(--primary))', 'hsl(var(--success))', 'hsl(var(--warning))', '#06b6d4', '#a855f7', '#ec4899'];
@@ -44,11 +45,11 @@ function MetricCard({ label, value, sub, icon: Icon, accent }: {
   );
 }
 
-export const ProductionSummaryReport = forwardRef<HTMLDivElement, Props>(({ runs, printers, scope }, ref) => {
+export const ProductionSummaryReport = forwardRef<HTMLDivElement, Props>(({ runs, printers, scope, calendar }, ref) => {
   const range = useMemo(() => resolveScope(scope), [scope]);
   const filtered = useMemo(() => filterRuns(runs, range, scope.printerIds), [runs, range, scope.printerIds]);
-  const summary = useMemo(() => aggregate(filtered), [filtered]);
-  const buckets = useMemo(() => bucketRuns(filtered, scope.bucket), [filtered, scope.bucket]);
+  const summary = useMemo(() => aggregate(filtered, calendar), [filtered, calendar]);
+  const buckets = useMemo(() => bucketRuns(filtered, scope.bucket, calendar), [filtered, scope.bucket, calendar]);
   const byPrinter = useMemo(() => groupByPrinter(filtered), [filtered]);
   const topMsgs = useMemo(() => topMessages(filtered, 6), [filtered]);
 
@@ -64,7 +65,7 @@ export const ProductionSummaryReport = forwardRef<HTMLDivElement, Props>(({ runs
 
   const printerRows = Array.from(byPrinter.entries()).map(([id, rs]) => {
     const p = printers.find(x => x.id === id);
-    const agg = aggregate(rs);
+    const agg = aggregate(rs, calendar);
     return { id, name: p?.name ?? `Printer ${id}`, ...agg };
   }).sort((a, b) => b.produced - a.produced);
 
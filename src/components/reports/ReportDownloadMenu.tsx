@@ -1,5 +1,4 @@
-import { useState } from 'react';
-import { Download, FileText, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Download, FileText, FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -7,40 +6,34 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { exportNodeToPdf, exportRunsToCsv } from '@/lib/reportExport';
+import { exportDocumentToPdf, exportRunsToCsv } from '@/lib/reportExport';
+import type { ReportDocument } from '@/lib/reportDocument';
 import type { ProductionRun } from '@/types/production';
 import { toast } from 'sonner';
 
 interface Props {
-  /** Function returning the DOM node to capture for PDF (called at click time) */
-  getNode: () => HTMLElement | null;
+  /** Builds the PDF document from the current data (called at click time) */
+  getDocument: () => ReportDocument | null;
   /** Underlying runs for CSV */
   runs: ProductionRun[];
-  /** PDF title (page 1 header) */
-  title: string;
   /** Filename stem (no extension) */
   filenameStem: string;
   disabled?: boolean;
 }
 
-export function ReportDownloadMenu({ getNode, runs, title, filenameStem, disabled }: Props) {
-  const [busy, setBusy] = useState(false);
-
-  const downloadPdf = async () => {
-    const node = getNode();
-    if (!node) {
+export function ReportDownloadMenu({ getDocument, runs, filenameStem, disabled }: Props) {
+  const downloadPdf = () => {
+    const doc = getDocument();
+    if (!doc) {
       toast.error('Nothing to export yet');
       return;
     }
-    setBusy(true);
     try {
-      await exportNodeToPdf(node, `${filenameStem}.pdf`, title);
+      exportDocumentToPdf(doc, `${filenameStem}.pdf`);
       toast.success('PDF downloaded');
     } catch (err) {
       console.error('[ReportDownloadMenu] pdf failed', err);
       toast.error('PDF export failed');
-    } finally {
-      setBusy(false);
     }
   };
 
@@ -61,8 +54,8 @@ export function ReportDownloadMenu({ getNode, runs, title, filenameStem, disable
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
-        <Button size="sm" variant="outline" disabled={disabled || busy}>
-          {busy ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+        <Button size="sm" variant="outline" disabled={disabled}>
+          <Download className="w-4 h-4 mr-1" />
           Download
         </Button>
       </DropdownMenuTrigger>
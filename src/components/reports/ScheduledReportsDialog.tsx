@@ -0,0 +1,357 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { CalendarClock, CheckCircle2, Pencil, Play, Plus, Trash2, XCircle, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useReportSchedules } from '@/hooks/useReportSchedules';
+import { useShiftCalendar } from '@/hooks/useShiftCalendar';
+import { calendarShifts } from '@/lib/shiftCalendar';
+import type { CustomReportTemplate, ReportShift } from '@/types/reportTemplates';
+import type { ReportSchedule, ReportScheduleScope, ReportRunEntry } from '@/types/electron';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const PRESETS: { value: ReportScheduleScope['preset']; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: 'thisWeek', label: 'This week' },
+  { value: 'last7', label: 'Last 7 days' },
+  { value: 'last30', label: 'Last 30 days' },
+  { value: 'thisMonth', label: 'This month' },
+  { value: 'lastMonth', label: 'Last month' },
+];
+
+const TRIGGER_LABELS: Record<ReportSchedule['trigger'], string> = {
+  shiftEnd: 'At shift end',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+function emptySchedule(shifts: ReportShift[], template?: CustomReportTemplate): Partial<ReportSchedule> {
+  return {
+    name: template ? `${template.name} (daily)` : '',
+    enabled: true,
+    templateId: template?.id ?? '',
+    templateName: template?.name ?? '',
+    trigger: 'daily',
+    time: '06:00',
+    weekday: 1,
+    shifts,
+    shiftIds: [],
+    scope: { preset: 'yesterday', bucket: 'day', printerIds: [] },
+    formats: { pdf: true, csv: true },
+    folder: '',
+    webhookUrl: '',
+    email: { enabled: false, to: '', from: '', subject: '' },
+  };
+}
+
+function describeTrigger(s: ReportSchedule) {
+  if (s.trigger === 'shiftEnd') {
+    const names = (s.shiftIds.length ? s.shifts.filter(sh => s.shiftIds.includes(sh.id)) : s.shifts).map(sh => sh.name);
+    return `End of ${names.join(', ')} shift`;
+  }
+  if (s.trigger === 'weekly') return `${WEEKDAYS[s.weekday]} ${s.time}`;
+  return `Daily ${s.time}`;
+}
+
+interface ScheduledReportsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: CustomReportTemplate[];
+  /** Pre-selected when adding a schedule. */
+  activeTemplate?: CustomReportTemplate | null;
+}
+
+/** Schedules that render a saved custom report to PDF/CSV and deliver it, plus their run history. */
+export function ScheduledReportsDialog({ open, onOpenChange, templates, activeTemplate }: ScheduledReportsDialogProps) {
+  const { schedules, history, saveSchedule, deleteSchedule, runNow } = useReportSchedules(open);
+  const [draft, setDraft] = useState<Partial<ReportSchedule> | null>(null);
+  const [running, setRunning] = useState<string | null>(null);
+  const { calendar } = useShiftCalendar();
+  // Main has no copy of the calendar, so every save carries the current one
+  const shifts = useMemo(() => calendarShifts(calendar), [calendar]);
+
+  useEffect(() => {
+    if (!open) setDraft(null);
+  }, [open]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const template = templates.find(t => t.id === draft.templateId);
+    const res = await saveSchedule({ ...draft, shifts, calendar, templateName: template?.name ?? draft.templateName });
+    if (res.success) {
+      toast.success('Schedule saved');
+      setDraft(null);
+    } else {
+      toast.error(res.error ?? 'Could not save schedule');
+    }
+  };
+
+  const handleRunNow = async (id: string) => {
+    setRunning(id);
+    try {
+      const res = await runNow(id);
+      if (res.success) toast.success('Report delivered');
+      else toast.error(res.entry?.error ?? res.error ?? 'Report run failed');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scheduled Reports</DialogTitle>
+          <DialogDescription>
+            Renders a saved custom report at shift end, daily or weekly and writes PDF / CSV to a folder,
+            optionally posting to a webhook and dropping an email into the folder's outbox.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="schedules">
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="schedules">Schedules</TabsTrigger>
+            <TabsTrigger value="history">Run History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="schedules" className="space-y-3">
+            {draft ? (
+              <ScheduleEditor
+                draft={draft}
+                shifts={shifts}
+                templates={templates}
+                onChange={setDraft}
+                onCancel={() => setDraft(null)}
+                onSave={handleSave}
+              />
+            ) : (
+              <>
+                {schedules.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-6">No scheduled reports yet.</p>
+                )}
+                {schedules.map(s => (
+                  <div key={s.id} className="rounded-lg border p-3 flex items-center gap-3">
+                    <CalendarClock className={`w-5 h-5 shrink-0 ${s.enabled ? 'text-primary' : 'text-muted-foreground'}`} />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-semibold truncate">{s.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {s.templateName || 'Template'} · {describeTrigger(s)} · {[s.formats.pdf && 'PDF', s.formats.csv && 'CSV'].filter(Boolean).join(' + ')}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {s.enabled && s.nextRunAt ? `Next ${new Date(s.nextRunAt).toLocaleString()}` : 'Paused'}
+                        {s.lastRunAt && ` · Last ${new Date(s.lastRunAt).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <Button size="icon" variant="ghost" title="Run now" disabled={running !== null} onClick={() => handleRunNow(s.id)}>
+                      <Play className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" title="Edit" onClick={() => setDraft(s)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" title="Delete" onClick={() => deleteSchedule(s.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={templates.length === 0}
+                  onClick={() => setDraft(emptySchedule(shifts, activeTemplate ?? templates[0]))}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  {templates.length === 0 ? 'Save a custom report template first' : 'Add Schedule'}
+                </Button>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-2">
+            {history.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No reports have run yet.</p>
+            )}
+            {history.map(entry => <HistoryRow key={entry.id} entry={entry} />)}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function HistoryRow({ entry }: { entry: ReportRunEntry }) {
+  const Icon = entry.status === 'success' ? CheckCircle2 : entry.status === 'partial' ? AlertTriangle : XCircle;
+  const color = entry.status === 'success' ? 'text-success' : entry.status === 'partial' ? 'text-warning' : 'text-destructive';
+  return (
+    <div className="rounded-lg border p-3 text-xs space-y-1">
+      <div className="flex items-center gap-2">
+        <Icon className={`w-4 h-4 ${color}`} />
+        <span className="text-sm font-semibold flex-1 truncate">{entry.scheduleName}</span>
+        <span className="text-muted-foreground">
+          {entry.trigger === 'manual' ? 'Manual · ' : ''}{new Date(entry.startedAt).toLocaleString()}
+        </span>
+      </div>
+      {entry.error && <div className="text-destructive">{entry.error}</div>}
+      {entry.deliveries.map((d, i) => (
+        <div key={i} className={d.ok ? 'text-muted-foreground' : 'text-destructive'}>
+          {d.kind === 'folder' ? 'Folder' : d.kind === 'webhook' ? 'Webhook' : 'Email outbox'}: {d.detail}
+        </div>
+      ))}
+      {entry.files.map(f => <div key={f} className="font-mono text-muted-foreground truncate">{f}</div>)}
+    </div>
+  );
+}
+
+interface ScheduleEditorProps {
+  draft: Partial<ReportSchedule>;
+  shifts: ReportShift[];
+  templates: CustomReportTemplate[];
+  onChange: (draft: Partial<ReportSchedule>) => void;
+  onCancel: () => void;
+  onSave: () => void;
+}
+
+function ScheduleEditor({ draft, shifts, templates, onChange, onCancel, onSave }: ScheduleEditorProps) {
+  const set = (patch: Partial<ReportSchedule>) => onChange({ ...draft, ...patch });
+  const scope = draft.scope ?? { preset: 'yesterday', bucket: 'day', printerIds: [] };
+  const formats = draft.formats ?? { pdf: true, csv: true };
+  const email = draft.email ?? { enabled: false, to: '', from: '', subject: '' };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm">Name</Label>
+          <Input value={draft.name ?? ''} onChange={e => set({ name: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm">Template</Label>
+          <Select value={draft.templateId || undefined} onValueChange={templateId => set({ templateId })}>
+            <SelectTrigger><SelectValue placeholder="Choose template" /></SelectTrigger>
+            <SelectContent>
+              {templates.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm">When</Label>
+          <Select value={draft.trigger ?? 'daily'} onValueChange={trigger => set({ trigger: trigger as ReportSchedule['trigger'] })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRIGGER_LABELS) as ReportSchedule['trigger'][]).map(t => (
+                <SelectItem key={t} value={t}>{TRIGGER_LABELS[t]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {draft.trigger !== 'shiftEnd' && (
+          <div className="space-y-1">
+            <Label className="text-sm">Time</Label>
+            <Input type="time" value={draft.time ?? '06:00'} onChange={e => set({ time: e.target.value })} />
+          </div>
+        )}
+      </div>
+
+      {draft.trigger === 'weekly' && (
+        <div className="space-y-1">
+          <Label className="text-sm">Day</Label>
+          <Select value={String(draft.weekday ?? 1)} onValueChange={v => set({ weekday: Number(v) })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((d, i) => <SelectItem key={d} value={String(i)}>{d}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {draft.trigger === 'shiftEnd' ? (
+        <div className="space-y-2">
+          <Label className="text-sm">Shifts (none ticked = every shift)</Label>
+          {shifts.map(sh => (
+            <label key={sh.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={draft.shiftIds?.includes(sh.id) ?? false}
+                onCheckedChange={on => set({
+                  shifts,
+                  shiftIds: on
+                    ? [...(draft.shiftIds ?? []), sh.id]
+                    : (draft.shiftIds ?? []).filter(id => id !== sh.id),
+                })}
+              />
+              {sh.name} ({String(sh.startHour).padStart(2, '0')}:00–{String(sh.endHour).padStart(2, '0')}:00)
+            </label>
+          ))}
+          <p className="text-xs text-muted-foreground">The report covers the shift that just ended.</p>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <Label className="text-sm">Period covered</Label>
+          <Select value={scope.preset} onValueChange={preset => set({ scope: { ...scope, preset: preset as ReportScheduleScope['preset'] } })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PRESETS.map(p => <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Resolved as of the run time.</p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-6">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={formats.pdf} onCheckedChange={on => set({ formats: { ...formats, pdf: !!on } })} /> PDF
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={formats.csv} onCheckedChange={on => set({ formats: { ...formats, csv: !!on } })} /> CSV
+        </label>
+        <label className="flex items-center gap-2 text-sm ml-auto">
+          <Switch checked={draft.enabled !== false} onCheckedChange={enabled => set({ enabled })} /> Enabled
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-sm">Output folder</Label>
+        <Input placeholder="C:\Reports\Line 1" value={draft.folder ?? ''} onChange={e => set({ folder: e.target.value })} />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-sm">Webhook URL (optional)</Label>
+        <Input placeholder="https://…" value={draft.webhookUrl ?? ''} onChange={e => set({ webhookUrl: e.target.value })} />
+        <p className="text-xs text-muted-foreground">Receives a JSON POST with the files base64-encoded.</p>
+      </div>
+
+      <div className="space-y-2 rounded-lg border p-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Email via outbox folder</Label>
+          <Switch checked={email.enabled} onCheckedChange={enabled => set({ email: { ...email, enabled } })} />
+        </div>
+        {email.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <Input placeholder="To" value={email.to} onChange={e => set({ email: { ...email, to: e.target.value } })} />
+              <Input placeholder="From" value={email.from} onChange={e => set({ email: { ...email, from: e.target.value } })} />
+            </div>
+            <Input placeholder="Subject (defaults to report title)" value={email.subject} onChange={e => set({ email: { ...email, subject: e.target.value } })} />
+            <p className="text-xs text-muted-foreground">
+              A .eml file is written to <span className="font-mono">outbox</span> under the output folder for an SMTP pickup service to send.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={onSave}>Save Schedule</Button>
+      </div>
+    </div>
+  );
+}
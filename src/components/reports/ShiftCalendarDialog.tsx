@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+import { useShiftCalendar } from '@/hooks/useShiftCalendar';
+import type { ReportShift, ShiftCalendar, ShiftPattern } from '@/types/reportTemplates';
+import type { Printer } from '@/types/printer';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_PATTERN = '__default__';
+
+const hour = (v: string) => Math.max(0, Math.min(23, Number(v) || 0));
+
+interface ShiftCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  printers: Printer[];
+}
+
+/** Shift patterns with breaks and working days, per-line assignment and holidays — planned time for OEE. */
+export function ShiftCalendarDialog({ open, onOpenChange, printers }: ShiftCalendarDialogProps) {
+  const { calendar, saveCalendar } = useShiftCalendar();
+  const [draft, setDraft] = useState<ShiftCalendar>(calendar);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+
+  useEffect(() => {
+    if (open) setDraft(calendar);
+  }, [open, calendar]);
+
+  const updatePattern = (id: string, patch: Partial<ShiftPattern>) =>
+    setDraft(d => ({ ...d, patterns: d.patterns.map(p => p.id === id ? { ...p, ...patch } : p) }));
+
+  const updateShift = (pattern: ShiftPattern, shiftId: string, patch: Partial<ReportShift>) =>
+    updatePattern(pattern.id, { shifts: pattern.shifts.map(s => s.id === shiftId ? { ...s, ...patch } : s) });
+
+  const addPattern = () => {
+    const base = draft.patterns.find(p => p.id === draft.defaultPatternId) ?? draft.patterns[0];
+    setDraft(d => ({
+      ...d,
+      patterns: [...d.patterns, {
+        id: crypto.randomUUID(),
+        name: `Pattern ${d.patterns.length + 1}`,
+        shifts: base.shifts.map(s => ({ ...s, breaks: [...(s.breaks ?? [])] })),
+        workingDays: [1, 2, 3, 4, 5],
+      }],
+    }));
+  };
+
+  const removePattern = (id: string) =>
+    setDraft(d => ({
+      ...d,
+      patterns: d.patterns.filter(p => p.id !== id),
+      lineAssignments: Object.fromEntries(Object.entries(d.lineAssignments).filter(([, p]) => p !== id)),
+    }));
+
+  const addHoliday = () => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(holidayDate)) return;
+    setDraft(d => ({
+      ...d,
+      holidays: [...d.holidays.filter(h => h.date !== holidayDate), { date: holidayDate, name: holidayName.trim() || 'Holiday' }]
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    }));
+    setHolidayDate('');
+    setHolidayName('');
+  };
+
+  const handleSave = async () => {
+    await saveCalendar(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Shift Calendar</DialogTitle>
+          <DialogDescription>
+            Planned production time for OEE: time inside a worked shift, minus its breaks, on working days that are not holidays.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="patterns">
+          <TabsList className="grid grid-cols-3">
+            <TabsTrigger value="patterns">Patterns</TabsTrigger>
+            <TabsTrigger value="lines">Lines</TabsTrigger>
+            <TabsTrigger value="holidays">Holidays</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="patterns" className="space-y-4">
+            {draft.patterns.map(pattern => (
+              <div key={pattern.id} className="rounded-lg border border-border p-3 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Input className="h-9" value={pattern.name} onChange={e => updatePattern(pattern.id, { name: e.target.value })} />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={draft.patterns.length === 1}
+                    onClick={() => removePattern(pattern.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {WEEKDAYS.map((label, day) => {
+                    const on = pattern.workingDays.includes(day);
+                    return (
+                      <Button
+                        key={label}
+                        size="sm"
+                        variant={on ? 'default' : 'outline'}
+                        className="h-7 px-2 text-xs"
+                        onClick={() => updatePattern(pattern.id, {
+                          workingDays: on ? pattern.workingDays.filter(d => d !== day) : [...pattern.workingDays, day].sort(),
+                        })}
+                      >
+                        {label}
+                      </Button>
+                    );
+                  })}
+                </div>
+
+                {pattern.shifts.map(shift => (
+                  <div key={shift.id} className="space-y-2 border-t border-border/60 pt-2">
+                    <div className="grid grid-cols-12 gap-2 items-end">
+                      <div className="col-span-5">
+                        <Label className="text-xs">Shift</Label>
+                        <Input className="mt-1 h-9" value={shift.name} onChange={e => updateShift(pattern, shift.id, { name: e.target.value })} />
+                      </div>
+                      <div className="col-span-3">
+                        <Label className="text-xs">Start (h)</Label>
+                        <Input className="mt-1 h-9" type="number" min={0} max={23}
+                          value={shift.startHour} onChange={e => updateShift(pattern, shift.id, { startHour: hour(e.target.value) })} />
+                      </div>
+                      <div className="col-span-3">
+                        <Label className="text-xs">End (h)</Label>
+                        <Input className="mt-1 h-9" type="number" min={0} max={23}
+                          value={shift.endHour} onChange={e => updateShift(pattern, shift.id, { endHour: hour(e.target.value) })} />
+                      </div>
+                      <div className="col-span-1 text-center">
+                        <span className="text-[10px] text-muted-foreground">{shift.endHour <= shift.startHour ? '↻' : ''}</span>
+                      </div>
+                    </div>
+
+                    {(shift.breaks ?? []).map(b => (
+                      <div key={b.id} className="grid grid-cols-12 gap-2 items-center pl-4">
+                        <Input className="col-span-5 h-8" value={b.name} placeholder="Break"
+                          onChange={e => updateShift(pattern, shift.id, { breaks: shift.breaks!.map(x => x.id === b.id ? { ...x, name: e.target.value } : x) })} />
+                        <Input className="col-span-3 h-8" type="time" value={b.start}
+                          onChange={e => updateShift(pattern, shift.id, { breaks: shift.breaks!.map(x => x.id === b.id ? { ...x, start: e.target.value } : x) })} />
+                        <Input className="col-span-3 h-8" type="number" min={0} max={240} value={b.minutes}
+                          onChange={e => updateShift(pattern, shift.id, { breaks: shift.breaks!.map(x => x.id === b.id ? { ...x, minutes: Number(e.target.value) } : x) })} />
+                        <Button size="icon" variant="ghost" className="col-span-1 h-8 w-8"
+                          onClick={() => updateShift(pattern, shift.id, { breaks: shift.breaks!.filter(x => x.id !== b.id) })}>
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button size="sm" variant="ghost" className="h-7 text-xs ml-4"
+                      onClick={() => updateShift(pattern, shift.id, {
+                        breaks: [...(shift.breaks ?? []), {
+                          id: crypto.randomUUID(),
+                          name: 'Break',
+                          start: `${String((shift.startHour + 4) % 24).padStart(2, '0')}:00`,
+                          minutes: 30,
+                        }],
+                      })}>
+                      <Plus className="w-3 h-3 mr-1" /> Break
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ))}
+            <Button size="sm" variant="outline" onClick={addPattern}>
+              <Plus className="w-3.5 h-3.5 mr-1" /> Add Pattern
+            </Button>
+            <p className="text-[11px] text-muted-foreground">
+              End-hour at or before start-hour means the shift wraps midnight (e.g. 22 → 6). Breaks are minutes from their start time.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="lines" className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-sm">Default pattern</Label>
+              <Select value={draft.defaultPatternId} onValueChange={defaultPatternId => setDraft({ ...draft, defaultPatternId })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {draft.patterns.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            {printers.map(printer => (
+              <div key={printer.id} className="flex items-center justify-between gap-3">
+                <span className="text-sm truncate">{printer.name}</span>
+                <Select
+                  value={draft.lineAssignments[printer.id] ?? DEFAULT_PATTERN}
+                  onValueChange={id => {
+                    const lineAssignments = { ...draft.lineAssignments };
+                    if (id === DEFAULT_PATTERN) delete lineAssignments[printer.id];
+                    else lineAssignments[printer.id] = id;
+                    setDraft({ ...draft, lineAssignments });
+                  }}
+                >
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_PATTERN}>Default</SelectItem>
+                    {draft.patterns.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            {printers.length === 0 && <p className="text-sm text-muted-foreground">No printers configured.</p>}
+          </TabsContent>
+
+          <TabsContent value="holidays" className="space-y-3">
+            <div className="flex items-end gap-2">
+              <div>
+                <Label className="text-xs">Date</Label>
+                <Input className="mt-1 h-9" type="date" value={holidayDate} onChange={e => setHolidayDate(e.target.value)} />
+              </div>
+              <div className="flex-1">
+                <Label className="text-xs">Name</Label>
+                <Input className="mt-1 h-9" value={holidayName} placeholder="Holiday" onChange={e => setHolidayName(e.target.value)} />
+              </div>
+              <Button size="sm" onClick={addHoliday} disabled={!holidayDate}>
+                <Plus className="w-3.5 h-3.5 mr-1" /> Add
+              </Button>
+            </div>
+            {draft.holidays.map(h => (
+              <div key={h.date} className="flex items-center justify-between text-sm">
+                <span><span className="font-mono">{h.date}</span> · {h.name}</span>
+                <Button size="icon" variant="ghost" className="h-8 w-8"
+                  onClick={() => setDraft({ ...draft, holidays: draft.holidays.filter(x => x.date !== h.date) })}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+            {draft.holidays.length === 0 && <p className="text-sm text-muted-foreground">No holidays — every working day is planned.</p>}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,24 +1,23 @@
-import { forwardRef, useMemo, useState } from 'react';
+import { forwardRef, useMemo } from 'react';
 import { Clock, Settings2, Sun, Sunset, Moon } from 'lucide-react';
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend,
 } from 'recharts';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import type { ProductionRun } from '@/types/production';
 import type { Printer } from '@/types/printer';
-import type { ReportTimeScope, ReportShift } from '@/types/reportTemplates';
-import { DEFAULT_SHIFTS } from '@/types/reportTemplates';
+import type { ReportTimeScope, ShiftCalendar } from '@/types/reportTemplates';
 import {
   resolveScope, filterRuns, groupByShift, aggregate, formatDuration,
 } from '@/lib/reportAggregation';
+import { calendarShifts } from '@/lib/shiftCalendar';
 
 interface Props {
   runs: ProductionRun[];
   printers: Printer[];
   scope: ReportTimeScope;
+  calendar: ShiftCalendar;
+  onEditCalendar: () => void;
 }
 
 const SHIFT_ICONS: Record<string, React.ElementType> = {
@@ -27,33 +26,16 @@ const SHIFT_ICONS: Record<string, React.ElementType> = {
   night: Moon,
 };
 
-const STORAGE_KEY = 'codesync-shift-config';
-
-function loadShifts(): ReportShift[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) return JSON.parse(raw);
-  } catch {/* ignore */}
-  return DEFAULT_SHIFTS;
-}
-
-function saveShifts(shifts: ReportShift[]) {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(shifts));
-  } catch {/* ignore */}
-}
-
-export const ShiftReport = forwardRef<HTMLDivElement, Props>(({ runs, scope }, ref) => {
-  const [shifts, setShifts] = useState<ReportShift[]>(() => loadShifts());
-  const [editOpen, setEditOpen] = useState(false);
+export const ShiftReport = forwardRef<HTMLDivElement, Props>(({ runs, scope, calendar, onEditCalendar }, ref) => {
+  const shifts = useMemo(() => calendarShifts(calendar), [calendar]);
 
   const range = useMemo(() => resolveScope(scope), [scope]);
   const filtered = useMemo(() => filterRuns(runs, range, scope.printerIds), [runs, range, scope.printerIds]);
-  const grouped = useMemo(() => groupByShift(filtered, shifts), [filtered, shifts]);
+  const grouped = useMemo(() => groupByShift(filtered, shifts, calendar), [filtered, shifts, calendar]);
 
   const shiftStats = shifts.map(s => {
     const rs = grouped.get(s.id) ?? [];
-    const agg = aggregate(rs);
+    const agg = aggregate(rs, calendar);
     return { shift: s, ...agg };
   });
 
@@ -70,8 +52,8 @@ export const ShiftReport = forwardRef<HTMLDivElement, Props>(({ runs, scope }, r
         <div className="text-sm text-muted-foreground">
           Shifts: {shifts.map(s => `${s.name} ${String(s.startHour).padStart(2, '0')}:00–${String(s.endHour).padStart(2, '0')}:00`).join(' · ')}
         </div>
-        <Button size="sm" variant="ghost" onClick={() => setEditOpen(true)}>
-          <Settings2 className="w-3.5 h-3.5 mr-1" /> Configure Shifts
+        <Button size="sm" variant="ghost" onClick={onEditCalendar}>
+          <Settings2 className="w-3.5 h-3.5 mr-1" /> Shift Calendar
         </Button>
       </div>
 
@@ -89,6 +71,7 @@ export const ShiftReport = forwardRef<HTMLDivElement, Props>(({ runs, scope }, r
                   <div className="text-base font-black text-foreground">{s.shift.name}</div>
                   <div className="text-[10px] font-mono text-muted-foreground">
                     {String(s.shift.startHour).padStart(2, '0')}:00 – {String(s.shift.endHour).padStart(2, '0')}:00
+                    {(s.shift.breaks?.length ?? 0) > 0 && ` · ${s.shift.breaks!.map(br => `${br.start} ${br.minutes}m`).join(', ')} break`}
                   </div>
                 </div>
               </div>
@@ -140,66 +123,7 @@ export const ShiftReport = forwardRef<HTMLDivElement, Props>(({ runs, scope }, r
           </ResponsiveContainer>
         </div>
       </div>
-
-      <ShiftConfigDialog
-        open={editOpen}
-        onOpenChange={setEditOpen}
-        shifts={shifts}
-        onSave={(s) => { setShifts(s); saveShifts(s); setEditOpen(false); }}
-      />
     </div>
   );
 });
 ShiftReport.displayName = 'ShiftReport';
-
-function ShiftConfigDialog({ open, onOpenChange, shifts, onSave }: {
-  open: boolean; onOpenChange: (o: boolean) => void;
-  shifts: ReportShift[]; onSave: (s: ReportShift[]) => void;
-}) {
-  const [draft, setDraft] = useState<ReportShift[]>(shifts);
-
-  // sync when reopened
-  useMemo(() => { if (open) setDraft(shifts); }, [open, shifts]);
-
-  const update = (i: number, patch: Partial<ReportShift>) => {
-    setDraft(d => d.map((s, idx) => idx === i ? { ...s, ...patch } : s));
-  };
-
-  return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
-        <DialogHeader><DialogTitle>Configure Shifts</DialogTitle></DialogHeader>
-        <div className="space-y-3">
-          {draft.map((s, i) => (
-            <div key={s.id} className="grid grid-cols-12 gap-2 items-end">
-              <div className="col-span-5">
-                <Label className="text-xs">Name</Label>
-                <Input className="mt-1 h-9" value={s.name} onChange={e => update(i, { name: e.target.value })} />
-              </div>
-              <div className="col-span-3">
-                <Label className="text-xs">Start (h)</Label>
-                <Input className="mt-1 h-9" type="number" min={0} max={23}
-                  value={s.startHour} onChange={e => update(i, { startHour: Math.max(0, Math.min(23, Number(e.target.value))) })} />
-              </div>
-              <div className="col-span-3">
-                <Label className="text-xs">End (h)</Label>
-                <Input className="mt-1 h-9" type="number" min={0} max={23}
-                  value={s.endHour} onChange={e => update(i, { endHour: Math.max(0, Math.min(23, Number(e.target.value))) })} />
-              </div>
-              <div className="col-span-1 text-center">
-                <span className="text-[10px] text-muted-foreground">{s.endHour < s.startHour ? '↻' : ''}</span>
-              </div>
-            </div>
-          ))}
-          <p className="text-[11px] text-muted-foreground">
-            Tip: end-hour less than start-hour means the shift wraps midnight (e.g. 22 → 6).
-          </p>
-        </div>
-        <DialogFooter>
-          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
-          <Button onClick={() => onSave(draft)} className="industrial-button text-white border-0">Save</Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
-  );
-}
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef } from 'react';
-import { Save, X, FilePlus, SaveAll, Trash2, Settings, AlignHorizontalDistributeCenter, ChevronLeft, ChevronRight, Copy, SlidersHorizontal, Database, Sliders, Loader2 } from 'lucide-react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Save, X, FilePlus, SaveAll, Trash2, Settings, AlignHorizontalDistributeCenter, ChevronLeft, ChevronRight, Copy, SlidersHorizontal, Database, Sliders, Loader2, Ruler, History } from 'lucide-react';
 import { toast } from 'sonner';
 import { SubPageHeader } from '@/components/layout/SubPageHeader';
 import { Input } from '@/components/ui/input';
@@ -28,7 +28,11 @@ import { MessageSettingsDialog, MessageSettings, defaultMessageSettings } from '
 import { AdvancedSettingsDialog, AdvancedSettings, defaultAdvancedSettings } from '@/components/messages/AdvancedSettingsDialog';
 import { DataLinkDialog } from '@/components/messages/DataLinkDialog';
 import { AdjustDialog } from '@/components/adjust/AdjustDialog';
-import { PrintSettings } from '@/types/printer';
+import { PrintLengthDialog } from '@/components/messages/PrintLengthDialog';
+import { MessageHistoryDialog } from '@/components/messages/MessageHistoryDialog';
+import type { MessageVersion } from '@/lib/messageHistory';
+import { estimatePrint, loadEncoderConfig, loadEstimatorInputs, saveEstimatorInputs, type EstimatorInputs } from '@/lib/printLengthEstimator';
+import { PrintSettings, type Printer } from '@/types/printer';
 import { supabase } from '@/integrations/supabase/client';
 import { FieldSettingsPanel, FieldSettings, defaultFieldSettings } from '@/components/messages/FieldSettingsPanel';
 import { getModelCapabilities } from '@/lib/modelCapabilities';
@@ -167,7 +171,7 @@ type TemplateValue = SingleTemplateValue | MultilineTemplateValue;
 
 interface EditMessageScreenProps {
   messageName: string;
-  onSave: (message: MessageDetails, isNew?: boolean) => Promise<MessageDetails | null> | void;
+  onSave: (message: MessageDetails, isNew?: boolean, options?: { note?: string }) => Promise<MessageDetails | null> | void;
   onCancel: () => void;
   onGetMessageDetails?: (name: string) => Promise<MessageDetails | null>;
   printerTime?: Date | null;
@@ -186,6 +190,10 @@ interface EditMessageScreenProps {
   onSendCommand?: (command: string) => Promise<any>;
   /** WP-5: read-only per-printer stack view of this message across siblings. */
   otherPrinterRows?: OtherPrinterRow[];
+  /** Printer whose copy of the message is being edited; scopes version history. */
+  editPrinterId?: number | null;
+  /** Upload targets for imported graphics. */
+  printers?: Printer[];
 }
 
 export function EditMessageScreen({
@@ -206,6 +214,8 @@ export function EditMessageScreen({
   newMessageDefaults,
   onSendCommand,
   otherPrinterRows,
+  editPrinterId,
+  printers = [],
 }: EditMessageScreenProps) {
   // Filter templates and fonts based on connected printer model + variant
   const capabilities = getModelCapabilities(printerModel, printerVariant);
@@ -296,11 +306,12 @@ export function EditMessageScreen({
 
   // Shared save handler — used by the Save button and by the "Done & Save"
   // action inside AdjustDialog so operators don't need two clicks after
-  // tweaking per-message overrides.
-  const handleSaveMessage = async (): Promise<boolean> => {
+  // tweaking per-message overrides. History rollback passes the old version
+  // to re-save it as-is.
+  const handleSaveMessage = async (rollback?: MessageVersion): Promise<boolean> => {
     setIsSaving(true);
     try {
-      const messageWithAdjust: MessageDetails = {
+      const messageWithAdjust: MessageDetails = rollback ? { ...rollback.message, name: message.name } : {
         ...message,
         adjustSettings: {
           width: localAdjustSettings.width,
@@ -315,12 +326,18 @@ export function EditMessageScreen({
         },
         adjustOverrides: { ...localAdjustOverrides },
       };
-      const result = await onSave(messageWithAdjust, !hasSavedToPrinterRef.current);
+      const result = await onSave(messageWithAdjust, !hasSavedToPrinterRef.current, rollback ? { note: `Rollback to v${rollback.version}` } : undefined);
       if (!result) return false;
       hasSavedToPrinterRef.current = true;
+      if (rollback) {
+        setMessage(messageWithAdjust);
+        setLocalAdjustSettings((prev) => ({ ...prev, ...messageWithAdjust.adjustSettings }));
+        setLocalAdjustOverrides({ ...messageWithAdjust.adjustOverrides });
+        setSelectedFieldId(null);
+      }
       if (result.fields.length > 0) {
         const positionsChanged = result.fields.some((rf, i) => {
-          const ef = message.fields[i];
+          const ef = messageWithAdjust.fields[i];
           return ef && (rf.y !== ef.y || rf.x !== ef.x);
         });
         setMessage(prev => ({
@@ -559,6 +576,26 @@ export function EditMessageScreen({
 
   const selectedField = message.fields.find((f) => f.id === selectedFieldId);
 
+  // Physical length / line-speed check against the encoder calibration
+  const [printLengthOpen, setPrintLengthOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [encoderConfig] = useState(loadEncoderConfig);
+  const [estimatorInputs, setEstimatorInputs] = useState<EstimatorInputs>(loadEstimatorInputs);
+  const printEstimate = useMemo(() => {
+    const tokenMap = buildTokenMap(message, undefined, undefined, { preview: true });
+    return estimatePrint({
+      fields: resolveAllFields(message.fields, tokenMap),
+      rows: message.height,
+      settings: localAdjustSettings,
+      encoder: encoderConfig,
+      inputs: estimatorInputs,
+    });
+  }, [message, localAdjustSettings, encoderConfig, estimatorInputs]);
+  const handleEstimatorInputsChange = (inputs: EstimatorInputs) => {
+    setEstimatorInputs(inputs);
+    saveEstimatorInputs(inputs);
+  };
+
   // Auto-size message width to fit all fields (with some padding)
   const autoResizeWidth = (fields: MessageField[]) => {
     if (fields.length === 0) return 200; // Default minimum
@@ -1114,17 +1151,17 @@ export function EditMessageScreen({
   const handleAddGraphic = (config: GraphicFieldConfig) => {
     const newId = Math.max(0, ...message.fields.map((f) => f.id)) + 1;
     
-    // Create graphic field representation
-    const graphicLabel = `[GRAPHIC: ${config.name}]`;
-    
+    // The field data is the printer's graphic name, sent as-is in ^AL.
+    // Imported graphics carry their real size; printer-only ones get a placeholder box.
+    const height = Math.min(config.height ?? message.height, message.height, 32);
     const newField: MessageField = {
       id: newId,
       type: 'logo',
-      data: graphicLabel,
+      data: config.name,
       x: 0,
-      y: 32 - message.height,
-      width: 32, // Fixed width for graphic placeholder
-      height: Math.min(message.height, 32),
+      y: 32 - height,
+      width: config.width ?? 32,
+      height,
       fontSize: 'Standard16High',
     };
     
@@ -1305,6 +1342,19 @@ export function EditMessageScreen({
               </div>
             )}
 
+            {/* Print length warnings (product / pitch / line speed) */}
+            {printEstimate.warnings.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setPrintLengthOpen(true)}
+                className="mb-2 w-full p-2 md:p-3 bg-warning/10 border border-warning rounded-lg text-warning text-xs md:text-sm flex flex-col items-start gap-0.5 text-left"
+              >
+                {printEstimate.warnings.map((w) => (
+                  <span key={w.kind}>⚠️ {w.message}</span>
+                ))}
+              </button>
+            )}
+
             {/* WP-5: Squid-style read-only view of this message on other printers */}
             {otherPrinterRows && otherPrinterRows.length > 0 && (
               <div className="mb-2 md:mb-3">
@@ -1537,6 +1587,24 @@ export function EditMessageScreen({
                   <span className="text-[9px] md:text-xs font-medium">Adjust</span>
                 </button>
 
+                <button
+                  onClick={() => setPrintLengthOpen(true)}
+                  className="industrial-button text-white px-3 md:px-6 py-2 md:py-3 rounded-lg flex flex-col items-center min-w-[60px] md:min-w-[80px]"
+                  title="Printed length and estimated max line speed"
+                >
+                  <Ruler className="w-4 h-4 md:w-6 md:h-6 mb-0.5" />
+                  <span className="text-[9px] md:text-xs font-medium">Length</span>
+                </button>
+
+                <button
+                  onClick={() => setHistoryOpen(true)}
+                  className="industrial-button text-white px-3 md:px-6 py-2 md:py-3 rounded-lg flex flex-col items-center min-w-[60px] md:min-w-[80px]"
+                  title="Saved versions, diff and rollback"
+                >
+                  <History className="w-4 h-4 md:w-6 md:h-6 mb-0.5" />
+                  <span className="text-[9px] md:text-xs font-medium">History</span>
+                </button>
+
                 <button
                   disabled={isSaving}
                   onClick={() => { void handleSaveMessage(); }}
@@ -1569,6 +1637,25 @@ export function EditMessageScreen({
           </div>
 
 
+          <PrintLengthDialog
+            open={printLengthOpen}
+            onOpenChange={setPrintLengthOpen}
+            estimate={printEstimate}
+            encoder={encoderConfig}
+            inputs={estimatorInputs}
+            onInputsChange={handleEstimatorInputsChange}
+          />
+
+          <MessageHistoryDialog
+            open={historyOpen}
+            onOpenChange={setHistoryOpen}
+            messageName={message.name}
+            printerId={editPrinterId ?? null}
+            current={{ ...message, adjustSettings: { ...localAdjustSettings }, adjustOverrides: { ...localAdjustOverrides } }}
+            printers={printers}
+            onRollback={handleSaveMessage}
+          />
+
           {/* New Field Dialog */}
           <NewFieldDialog
             open={newFieldDialogOpen}
@@ -1679,6 +1766,9 @@ export function EditMessageScreen({
             onOpenChange={setGraphicDialogOpen}
             onBack={() => setNewFieldDialogOpen(true)}
             onAddGraphic={handleAddGraphic}
+            templateHeight={message.height}
+            printers={printers}
+            connectedPrinterId={connectedPrinterId}
           />
 
           {/* Message Settings Dialog */}
@@ -47,7 +47,7 @@ interface PrintersScreenProps {
   printers: Printer[];
   onConnect: (printer: Printer) => void;
   onHome: () => void;
-  onAddPrinter: (printer: { name: string; ipAddress: string; port: number }) => void;
+  onAddPrinter: (printer: { name: string; ipAddress: string; port: number; serialPath?: string; baudRate?: number }) => void;
   onRemovePrinter: (printerId: number) => void;
   onReorderPrinters?: (printers: Printer[]) => void;
   onUpdatePrinter?: (printerId: number, updates: Partial<Printer>) => void;
@@ -548,7 +548,7 @@ export function PrintersScreen({
   }, [autoEditPrinterId, printers, onAutoEditConsumed]);
 
 
-  const handleSaveEdit = (printerId: number, updates: { name: string; ipAddress: string; port: number; role?: import('@/types/printer').PrinterRole; masterId?: number; serialNumber?: string; lineId?: string; rotation?: import('@/types/printer').Printer['rotation']; autoSyncSelection?: boolean; messageDefaults?: import('@/types/printer').Printer['messageDefaults'] }) => {
+  const handleSaveEdit = (printerId: number, updates: { name: string; ipAddress: string; port: number; serialPath?: string | null; baudRate?: number; role?: import('@/types/printer').PrinterRole; masterId?: number; serialNumber?: string; lineId?: string; rotation?: import('@/types/printer').Printer['rotation']; autoSyncSelection?: boolean; messageDefaults?: import('@/types/printer').Printer['messageDefaults'] }) => {
     onUpdatePrinter?.(printerId, updates);
   };
 
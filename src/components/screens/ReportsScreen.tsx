@@ -1,4 +1,4 @@
-import { useRef, useState, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { SubPageHeader } from '@/components/layout/SubPageHeader';
 import { ReportsScreen as OEEReport } from '@/components/reports/OEEReport';
 import { ReportTypeSelector, type ReportType } from '@/components/reports/ReportTypeSelector';
@@ -9,12 +9,17 @@ import { ShiftReport } from '@/components/reports/ShiftReport';
 import { CustomReportBuilder } from '@/components/reports/CustomReportBuilder';
 import { CustomReportRenderer } from '@/components/reports/CustomReportRenderer';
 import { SavedTemplatesBar } from '@/components/reports/SavedTemplatesBar';
+import { ScheduledReportsDialog } from '@/components/reports/ScheduledReportsDialog';
+import { ShiftCalendarDialog } from '@/components/reports/ShiftCalendarDialog';
 import { useReportTemplates } from '@/hooks/useReportTemplates';
+import { useReportSchedules } from '@/hooks/useReportSchedules';
+import { useShiftCalendar } from '@/hooks/useShiftCalendar';
 import { DEFAULT_SCOPE, type CustomReportTemplate } from '@/types/reportTemplates';
 import { resolveScope, filterRuns } from '@/lib/reportAggregation';
+import { buildCustomDocument, buildProductionSummaryDocument, buildShiftDocument } from '@/lib/reportDocument';
 import { Button } from '@/components/ui/button';
-import { Sliders } from 'lucide-react';
-import type { ProductionRun, ProductionSnapshot } from '@/types/production';
+import { Sliders, CalendarClock, CalendarDays } from 'lucide-react';
+import type { ProductionRun, ProductionSnapshot, RejectSource } from '@/types/production';
 import type { Printer } from '@/types/printer';
 
 interface Props {
@@ -23,21 +28,26 @@ interface Props {
   printers: Printer[];
   onAddRun: (run: Omit<ProductionRun, 'id'>) => Promise<ProductionRun>;
   onUpdateRun: (id: string, updates: Partial<ProductionRun>) => void;
+  onSetRejects: (id: string, source: RejectSource, count: number) => void;
   onDeleteRun: (id: string) => void;
   onAddDowntime: (runId: string, reason: string) => void;
   onEndDowntime: (runId: string, eventId: string) => void;
+  onSetDowntimeReason: (runId: string, eventId: string, reason: string) => void;
   onHome: () => void;
 }
 
 export function ReportsScreen(props: Props) {
   const [type, setType] = useState<ReportType>('oee');
   const [scope, setScope] = useState(DEFAULT_SCOPE);
-  const reportRef = useRef<HTMLDivElement>(null);
 
   const { templates, saveTemplate, deleteTemplate, duplicateTemplate } = useReportTemplates();
   const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
   const [builderOpen, setBuilderOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<CustomReportTemplate | null>(null);
+  const [schedulesOpen, setSchedulesOpen] = useState(false);
+  const { supported: schedulingSupported } = useReportSchedules(false);
+  const { calendar } = useShiftCalendar();
+  const [calendarOpen, setCalendarOpen] = useState(false);
 
   const activeTemplate = useMemo(
     () => templates.find(t => t.id === activeTemplateId) ?? null,
@@ -70,6 +80,13 @@ export function ReportsScreen(props: Props) {
     return 'Report';
   };
 
+  const buildDocument = () => {
+    if (type === 'production') return buildProductionSummaryDocument(props.runs, props.printers, scope, calendar);
+    if (type === 'shift') return buildShiftDocument(props.runs, scope, calendar);
+    if (type === 'custom' && activeTemplate) return buildCustomDocument(activeTemplate, props.runs, props.printers, calendar);
+    return null;
+  };
+
   const renderFilenameStem = () => {
     const stamp = new Date().toISOString().slice(0, 10);
     const base = renderTitle().toLowerCase().replace(/\s+/g, '-');
@@ -82,14 +99,23 @@ export function ReportsScreen(props: Props) {
         title="Reports"
         onHome={props.onHome}
         rightContent={
-          <ReportDownloadMenu
-            getNode={() => reportRef.current}
-            runs={type === 'custom' && activeTemplate
-              ? filterRuns(props.runs, resolveScope(activeTemplate.scope), activeTemplate.scope.printerIds)
-              : filteredRuns}
-            title={renderTitle()}
-            filenameStem={renderFilenameStem()}
-          />
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => setCalendarOpen(true)}>
+              <CalendarDays className="w-4 h-4 mr-1" /> Shift Calendar
+            </Button>
+            {schedulingSupported && type === 'custom' && (
+              <Button size="sm" variant="outline" onClick={() => setSchedulesOpen(true)}>
+                <CalendarClock className="w-4 h-4 mr-1" /> Schedules
+              </Button>
+            )}
+            <ReportDownloadMenu
+              getDocument={buildDocument}
+              runs={type === 'custom' && activeTemplate
+                ? filterRuns(props.runs, resolveScope(activeTemplate.scope), activeTemplate.scope.printerIds)
+                : filteredRuns}
+              filenameStem={renderFilenameStem()}
+            />
+          </div>
         }
       />
 
@@ -118,12 +144,18 @@ export function ReportsScreen(props: Props) {
           />
         )}
 
-        <div ref={reportRef} className="space-y-3">
+        <div className="space-y-3">
           {type === 'production' && (
-            <ProductionSummaryReport runs={filteredRuns} printers={props.printers} scope={scope} />
+            <ProductionSummaryReport runs={filteredRuns} printers={props.printers} scope={scope} calendar={calendar} />
           )}
           {type === 'shift' && (
-            <ShiftReport runs={filteredRuns} printers={props.printers} scope={scope} />
+            <ShiftReport
+              runs={filteredRuns}
+              printers={props.printers}
+              scope={scope}
+              calendar={calendar}
+              onEditCalendar={() => setCalendarOpen(true)}
+            />
           )}
           {type === 'custom' && activeTemplate && (
             <CustomReportRenderer
@@ -134,6 +166,7 @@ export function ReportsScreen(props: Props) {
                 activeTemplate.scope.printerIds
               )}
               printers={props.printers}
+              calendar={calendar}
             />
           )}
           {type === 'custom' && !activeTemplate && (
@@ -162,6 +195,19 @@ export function ReportsScreen(props: Props) {
           setBuilderOpen(false);
         }}
       />
+
+      <ScheduledReportsDialog
+        open={schedulesOpen}
+        onOpenChange={setSchedulesOpen}
+        templates={templates}
+        activeTemplate={activeTemplate}
+      />
+
+      <ShiftCalendarDialog
+        open={calendarOpen}
+        onOpenChange={setCalendarOpen}
+        printers={props.printers}
+      />
     </div>
   );
 }
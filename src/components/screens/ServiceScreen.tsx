@@ -1,5 +1,5 @@
 import { useEffect, useCallback, useRef, useState } from 'react';
-import { PrinterMetrics } from '@/types/printer';
+import { PrinterMetrics, Printer as PrinterInfo } from '@/types/printer';
 import { Printer } from 'lucide-react';
 import { toast } from 'sonner';
 import {
@@ -8,6 +8,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { SpcChartsPanel } from '@/components/service/SpcChartsPanel';
+import { FaultAdvisoriesPanel } from '@/components/service/FaultAdvisoriesPanel';
+import { FaultHistoryPanel } from '@/components/service/FaultHistoryPanel';
+import { FaultNotificationsPanel } from '@/components/service/FaultNotificationsPanel';
+import { useSpcState } from '@/hooks/useSpc';
+import { useFaultPredictorState } from '@/hooks/useFaultPredictor';
 import {
   ConsumableDot,
   MetricRow,
@@ -19,13 +26,17 @@ interface ServiceDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   metrics: PrinterMetrics | null;
+  /** Connected printer, for its recorded control-chart history */
+  printerId?: number | null;
+  /** For printer names and the printer filter in fault history */
+  printers?: PrinterInfo[];
   onMount?: () => void;
   onUnmount?: () => void;
   onSendCommand?: (command: string) => Promise<any>;
   onForcePrint?: () => Promise<void>;
 }
 
-export function ServiceScreen({ open, onOpenChange, metrics, onMount, onUnmount, onSendCommand, onForcePrint }: ServiceDialogProps) {
+export function ServiceScreen({ open, onOpenChange, metrics, printerId, printers = [], onMount, onUnmount, onSendCommand, onForcePrint }: ServiceDialogProps) {
   // Notify parent when dialog is open/closed (for polling control)
   useEffect(() => {
     if (open) {
@@ -47,6 +58,11 @@ export function ServiceScreen({ open, onOpenChange, metrics, onMount, onUnmount,
     }
   }, [onSendCommand, onForcePrint]);
 
+  const { alerts } = useSpcState();
+  const driftCount = alerts.filter(a => a.printerId === printerId).length;
+  const { advisories } = useFaultPredictorState();
+  const advisoryCount = advisories.filter(a => a.printerId === printerId).length;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto">
@@ -66,56 +82,88 @@ export function ServiceScreen({ open, onOpenChange, metrics, onMount, onUnmount,
           </button>
         </div>
 
-        {!metrics ? (
-          <div className="flex items-center justify-center py-12">
-            <p className="text-muted-foreground">Connect to a printer to view service data</p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-4">
-            {/* LEFT: Primary metrics */}
-            <ServicePanel title="Primary Metrics">
-              <MetricRow label="Modulation" value={metrics.modulation} unit="Volts" />
-              <MetricRow label="Pressure" value={metrics.pressure} unit="PSI" />
-              <MetricRow label="Charge" value={metrics.charge} unit="%" />
-              <MetricRow label="RPS" value={metrics.rps.toFixed(2)} unit="rev/s" />
-              <MetricRow label="Phase Quality" value={metrics.phaseQual} unit="%" />
-              <MetricRow label="Viscosity" value={metrics.viscosity.toFixed(2)} unit="cP" />
-            </ServicePanel>
-
-            {/* RIGHT: status panels */}
-            <div className="space-y-6">
-              <ServicePanel title="Subsystems">
-                <div className="grid grid-cols-2 gap-3 p-4 bg-card">
-                  <SubsystemPill label="V300UP" active={metrics.subsystems.v300up} />
-                  <SubsystemPill label="VLT" active={metrics.subsystems.vltOn} />
-                  <SubsystemPill label="GUT" active={metrics.subsystems.gutOn} />
-                  <SubsystemPill label="MOD" active={metrics.subsystems.modOn} />
-                </div>
-              </ServicePanel>
+        <Tabs defaultValue="live">
+          <TabsList>
+            <TabsTrigger value="live">Live</TabsTrigger>
+            <TabsTrigger value="spc">
+              Control Charts{driftCount > 0 ? ` (${driftCount})` : ''}
+            </TabsTrigger>
+            <TabsTrigger value="advisories">
+              Advisories{advisoryCount > 0 ? ` (${advisoryCount})` : ''}
+            </TabsTrigger>
+            <TabsTrigger value="history">Fault History</TabsTrigger>
+            <TabsTrigger value="notifications">Notifications</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="live">
+            {!metrics ? (
+              <div className="flex items-center justify-center py-12">
+                <p className="text-muted-foreground">Connect to a printer to view service data</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-4">
+                {/* LEFT: Primary metrics */}
+                <ServicePanel title="Primary Metrics">
+                  <MetricRow label="Modulation" value={metrics.modulation} unit="Volts" />
+                  <MetricRow label="Pressure" value={metrics.pressure} unit="PSI" />
+                  <MetricRow label="Charge" value={metrics.charge} unit="%" />
+                  <MetricRow label="RPS" value={metrics.rps.toFixed(2)} unit="rev/s" />
+                  <MetricRow label="Phase Quality" value={metrics.phaseQual} unit="%" />
+                  <MetricRow label="Viscosity" value={metrics.viscosity.toFixed(2)} unit="cP" />
+                </ServicePanel>
+
+                {/* RIGHT: status panels */}
+                <div className="space-y-6">
+                  <ServicePanel title="Subsystems">
+                    <div className="grid grid-cols-2 gap-3 p-4 bg-card">
+                      <SubsystemPill label="V300UP" active={metrics.subsystems.v300up} />
+                      <SubsystemPill label="VLT" active={metrics.subsystems.vltOn} />
+                      <SubsystemPill label="GUT" active={metrics.subsystems.gutOn} />
+                      <SubsystemPill label="MOD" active={metrics.subsystems.modOn} />
+                    </div>
+                  </ServicePanel>
+
+                  <ServicePanel title="Consumables">
+                    <div className="flex items-center justify-between p-6 bg-background">
+                      <ConsumableDot label="Ink" level={metrics.inkLevel} intent="ink" />
+                      <div className="h-8 w-px bg-border" />
+                      <ConsumableDot label="Makeup" level={metrics.makeupLevel} intent="makeup" />
+                    </div>
+                  </ServicePanel>
 
-              <ServicePanel title="Consumables">
-                <div className="flex items-center justify-between p-6 bg-background">
-                  <ConsumableDot label="Ink" level={metrics.inkLevel} intent="ink" />
-                  <div className="h-8 w-px bg-border" />
-                  <ConsumableDot label="Makeup" level={metrics.makeupLevel} intent="makeup" />
+                  <ServicePanel title="Temperature">
+                    <MetricRow label="Printhead" value={metrics.printheadTemp?.toFixed(1) ?? '0.0'} unit="°C" />
+                    <MetricRow label="Electronics" value={metrics.electronicsTemp?.toFixed(1) ?? '0.0'} unit="°C" />
+                  </ServicePanel>
+
+                  <ServicePanel title="System Info">
+                    <MetricRow label="Allow Errors" value={metrics.allowErrors ? "On" : "Off"} />
+                    <MetricRow label="Error Active" value={metrics.errorActive ? "Yes" : "No"} />
+                    <MetricRow label="HV Deflection" value={metrics.hvDeflection ? "Enabled" : "Disabled"} />
+                    <MetricRow label="Power Hours" value={metrics.powerHours} />
+                    <MetricRow label="Stream Hours" value={metrics.streamHours} />
+                  </ServicePanel>
                 </div>
-              </ServicePanel>
-
-              <ServicePanel title="Temperature">
-                <MetricRow label="Printhead" value={metrics.printheadTemp?.toFixed(1) ?? '0.0'} unit="°C" />
-                <MetricRow label="Electronics" value={metrics.electronicsTemp?.toFixed(1) ?? '0.0'} unit="°C" />
-              </ServicePanel>
-
-              <ServicePanel title="System Info">
-                <MetricRow label="Allow Errors" value={metrics.allowErrors ? "On" : "Off"} />
-                <MetricRow label="Error Active" value={metrics.errorActive ? "Yes" : "No"} />
-                <MetricRow label="HV Deflection" value={metrics.hvDeflection ? "Enabled" : "Disabled"} />
-                <MetricRow label="Power Hours" value={metrics.powerHours} />
-                <MetricRow label="Stream Hours" value={metrics.streamHours} />
-              </ServicePanel>
-            </div>
-          </div>
-        )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="spc">
+            <SpcChartsPanel printerId={printerId} />
+          </TabsContent>
+
+          <TabsContent value="advisories">
+            <FaultAdvisoriesPanel printerId={printerId} />
+          </TabsContent>
+
+          <TabsContent value="history">
+            <FaultHistoryPanel printerId={printerId} printers={printers} />
+          </TabsContent>
+
+          <TabsContent value="notifications">
+            <FaultNotificationsPanel printers={printers} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
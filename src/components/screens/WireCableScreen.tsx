@@ -14,6 +14,7 @@ import { EncoderCalibration, EncoderConfig } from '@/components/wirecable/Encode
 import { FlipFlopConfig, FlipFlopSettings } from '@/components/wirecable/FlipFlopConfig';
 import { PrintSettings } from '@/types/printer';
 import { MessageDetails } from '@/components/screens/EditMessageScreen';
+import { DEFAULT_ENCODER_CONFIG } from '@/lib/printLengthEstimator';
 
 interface WireCableScreenProps {
   onHome: () => void;
@@ -26,12 +27,6 @@ interface WireCableScreenProps {
   currentMessage?: MessageDetails | null;
 }
 
-const DEFAULT_ENCODER: EncoderConfig = {
-  wheelDiameterMm: 63.66, // ~200mm circumference
-  pulsesPerRevolution: 200,
-  unit: 'mm',
-};
-
 const DEFAULT_FLIPFLOP: FlipFlopSettings = {
   enabled: false,
   orientationA: 'Normal',
@@ -50,7 +45,7 @@ export function WireCableScreen({
 }: WireCableScreenProps) {
   const [encoder, setEncoder] = useState<EncoderConfig>(() => {
     const saved = localStorage.getItem('wirecable-encoder');
-    return saved ? JSON.parse(saved) : DEFAULT_ENCODER;
+    return saved ? JSON.parse(saved) : DEFAULT_ENCODER_CONFIG;
   });
 
   const [flipFlop, setFlipFlop] = useState<FlipFlopSettings>(() => {
@@ -0,0 +1,121 @@
+import {
+  ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine,
+} from 'recharts';
+import { AlertTriangle, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ServicePanel } from '@/components/service/ServicePanels';
+import { useFaultPredictorState } from '@/hooks/useFaultPredictor';
+import { faultPredictor, ADVISORY_KINDS, type FaultAdvisory } from '@/lib/faultPredictor';
+import { SPC_METRICS } from '@/lib/spc';
+
+const COLORS = ['hsl(var(--primary))', '#f59e0b', '#10b981'];
+const time = (v: number) => new Date(v).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+interface FaultAdvisoriesPanelProps {
+  printerId: number | null | undefined;
+}
+
+/** The connected printer's predictive advisories, each with the series and ^LE codes that raised it. */
+export function FaultAdvisoriesPanel({ printerId }: FaultAdvisoriesPanelProps) {
+  const { settings, advisories } = useFaultPredictorState();
+  const mine = advisories.filter((a) => a.printerId === printerId);
+
+  if (printerId == null) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground">Connect to a printer to view fault advisories</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 mt-4">
+      <div className="flex items-center gap-2 text-sm">
+        <Switch id="fault-predictor" checked={settings.enabled} onCheckedChange={(enabled) => faultPredictor.configure({ enabled })} />
+        <Label htmlFor="fault-predictor">Watch trends and warning history</Label>
+        <span className="ml-auto text-xs text-muted-foreground">
+          Trends over the last {settings.trendMinutes} min · warnings over {settings.repeatHours} h
+        </span>
+      </div>
+
+      {mine.length === 0 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-muted-foreground">
+          No advisories — trends are checked while the jet is running
+        </div>
+      ) : (
+        mine.map((a) => <AdvisoryCard key={a.id} advisory={a} />)
+      )}
+    </div>
+  );
+}
+
+function AdvisoryCard({ advisory }: { advisory: FaultAdvisory }) {
+  const kind = ADVISORY_KINDS[advisory.kind];
+  const likely = advisory.confidence === 'likely';
+
+  return (
+    <ServicePanel title={kind.title}>
+      <div className="p-4 space-y-3">
+        <div className="flex items-start gap-3 text-sm">
+          <AlertTriangle className={likely ? 'w-4 h-4 mt-0.5 text-destructive shrink-0' : 'w-4 h-4 mt-0.5 text-warning shrink-0'} />
+          <div className="flex-1 space-y-1">
+            <ul className="list-disc pl-4">
+              {advisory.reasons.map((r) => <li key={r}>{r}</li>)}
+            </ul>
+            <p className="text-muted-foreground">{kind.action}</p>
+          </div>
+          <Badge variant={likely ? 'destructive' : 'secondary'}>{likely ? 'Likely' : 'Watch'}</Badge>
+          <span className="text-xs text-muted-foreground">{time(advisory.at)}</span>
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => faultPredictor.dismiss(advisory.id)}>
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+
+        {advisory.series.length > 0 && advisory.series[0].points.length > 1 && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {advisory.series.map((s, i) => {
+              const info = SPC_METRICS.find((m) => m.key === s.metric)!;
+              return (
+                <div key={s.metric}>
+                  <div className="text-xs font-semibold text-muted-foreground mb-1">{info.label} ({info.unit})</div>
+                  <div className="h-32">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={s.points} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.5} />
+                        <XAxis dataKey="at" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={time} fontSize={10} />
+                        <YAxis fontSize={10} width={40} domain={['auto', 'auto']} />
+                        <Tooltip
+                          labelFormatter={(v) => new Date(Number(v)).toLocaleTimeString()}
+                          formatter={(v: number) => [v.toFixed(2), info.label]}
+                        />
+                        {advisory.events.map((e) => (
+                          <ReferenceLine key={`${e.code}-${e.at}`} x={e.at} stroke="hsl(var(--destructive))" strokeDasharray="2 2" />
+                        ))}
+                        <Line type="linear" dataKey="value" stroke={COLORS[i % COLORS.length]} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {advisory.events.length > 0 && (
+          <div className="text-xs text-muted-foreground space-y-0.5">
+            {advisory.events.slice(-8).reverse().map((e) => (
+              <div key={`${e.code}-${e.at}`} className="flex gap-2 tabular-nums">
+                <span>{time(e.at)}</span>
+                <span className="font-mono">{e.code} ({e.severity})</span>
+                <span className="truncate">{e.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </ServicePanel>
+  );
+}
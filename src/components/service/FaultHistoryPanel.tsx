@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ServicePanel } from '@/components/service/ServicePanels';
+import { FaultTroubleshooting } from '@/components/alerts/FaultTroubleshooting';
+import { useFaultHistory } from '@/hooks/useFaultHistory';
+import { summarizeFaults, exportFaultHistoryToCsv } from '@/lib/faultHistory';
+import { lookupFault } from '@/lib/faultCatalog';
+import { cn } from '@/lib/utils';
+import type { Printer } from '@/types/printer';
+
+const PERIODS: { key: string; label: string; hours: number | null }[] = [
+  { key: '24h', label: '24h', hours: 24 },
+  { key: '7d', label: '7d', hours: 168 },
+  { key: '30d', label: '30d', hours: 720 },
+  { key: 'all', label: 'All', hours: null },
+];
+const SEVERITIES: Record<string, string> = { F: 'Fault', W: 'Warning', I: 'Info' };
+
+const when = (t: number | null) =>
+  t === null ? '—' : new Date(t).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+const duration = (ms: number) => {
+  const min = Math.round(ms / 60_000);
+  return min < 60 ? `${min} min` : `${(min / 60).toFixed(1)} h`;
+};
+
+interface FaultHistoryPanelProps {
+  /** Connected printer, selected by default */
+  printerId: number | null | undefined;
+  printers: Printer[];
+}
+
+/** Locally recorded ^LE occurrences per printer, with catalog remedies and CSV export. */
+export function FaultHistoryPanel({ printerId, printers }: FaultHistoryPanelProps) {
+  const { entries } = useFaultHistory();
+  const [printer, setPrinter] = useState(printerId != null ? String(printerId) : 'all');
+  const [severity, setSeverity] = useState('all');
+  const [period, setPeriod] = useState('7d');
+  const [search, setSearch] = useState('');
+  const [activeOnly, setActiveOnly] = useState(false);
+  const [view, setView] = useState<'summary' | 'log'>('summary');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const printerName = (id: number) => printers.find((p) => p.id === id)?.name ?? `Printer ${id}`;
+
+  const filtered = useMemo(() => {
+    const hours = PERIODS.find((p) => p.key === period)?.hours ?? null;
+    const since = hours === null ? 0 : Date.now() - hours * 3_600_000;
+    const q = search.trim().toLowerCase();
+    return entries
+      .filter((e) => printer === 'all' || e.printerId === Number(printer))
+      .filter((e) => severity === 'all' || e.severity === severity)
+      .filter((e) => e.clearedAt === null || e.clearedAt >= since)
+      .filter((e) => !activeOnly || e.clearedAt === null)
+      .filter((e) => !q || e.code.toLowerCase().includes(q) || e.message.toLowerCase().includes(q)
+        || lookupFault(e.code).title.toLowerCase().includes(q))
+      .sort((a, b) => b.firstSeen - a.firstSeen);
+  }, [entries, printer, severity, period, search, activeOnly]);
+
+  const summary = useMemo(() => summarizeFaults(filtered), [filtered]);
+
+  const exportCsv = () => {
+    const stem = printer === 'all' ? 'all-printers' : printerName(Number(printer)).replace(/[^\w-]+/g, '_');
+    exportFaultHistoryToCsv(filtered, printerName, `fault-history-${stem}-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  return (
+    <div className="space-y-4 mt-4">
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <div className="space-y-1">
+          <Label className="text-xs">Printer</Label>
+          <Select value={printer} onValueChange={setPrinter}>
+            <SelectTrigger className="w-44 h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All printers</SelectItem>
+              {printers.map((p) => <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Severity</Label>
+          <Select value={severity} onValueChange={setSeverity}>
+            <SelectTrigger className="w-28 h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {Object.entries(SEVERITIES).map(([k, label]) => <SelectItem key={k} value={k}>{label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Search</Label>
+          <Input className="w-40 h-8" placeholder="Code or text" value={search} onChange={(e) => setSearch(e.target.value)} />
+        </div>
+        <ToggleGroup type="single" size="sm" value={period} onValueChange={(v) => v && setPeriod(v)}>
+          {PERIODS.map((p) => <ToggleGroupItem key={p.key} value={p.key} className="text-xs">{p.label}</ToggleGroupItem>)}
+        </ToggleGroup>
+        <div className="flex items-center gap-2 pb-1.5">
+          <Switch id="fault-active-only" checked={activeOnly} onCheckedChange={setActiveOnly} />
+          <Label htmlFor="fault-active-only" className="text-xs">Active only</Label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <ToggleGroup type="single" size="sm" value={view} onValueChange={(v) => v && setView(v as 'summary' | 'log')}>
+          <ToggleGroupItem value="summary" className="text-xs">By code ({summary.length})</ToggleGroupItem>
+          <ToggleGroupItem value="log" className="text-xs">Occurrences ({filtered.length})</ToggleGroupItem>
+        </ToggleGroup>
+        <Button size="sm" variant="outline" className="ml-auto" disabled={filtered.length === 0} onClick={exportCsv}>
+          <Download className="w-3.5 h-3.5 mr-1" /> CSV
+        </Button>
+      </div>
+
+      {filtered.length === 0 ? (
+        <div className="h-32 flex items-center justify-center text-sm text-muted-foreground">
+          No faults recorded for these filters
+        </div>
+      ) : view === 'summary' ? (
+        <ServicePanel title="Faults by code">
+          {summary.map((s) => {
+            const key = `${s.printerId}.${s.code}`;
+            const open = expanded === key;
+            return (
+              <div key={key} className="border-t first:border-t-0">
+                <button
+                  className="w-full flex items-center gap-3 px-4 py-2 text-sm text-left hover:bg-muted/40"
+                  onClick={() => setExpanded(open ? null : key)}
+                >
+                  {open ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+                  <span className="font-mono w-16 shrink-0">{s.code}</span>
+                  <span className={cn('w-14 shrink-0 text-xs font-semibold', s.severity === 'F' ? 'text-destructive' : 'text-warning')}>
+                    {SEVERITIES[s.severity] ?? s.severity}
+                  </span>
+                  <span className="flex-1 truncate">
+                    {lookupFault(s.code, s.message).title}
+                    {printer === 'all' && <span className="text-muted-foreground"> · {printerName(s.printerId)}</span>}
+                  </span>
+                  {s.active && <span className="text-xs font-semibold text-destructive">Active</span>}
+                  <span className="text-xs text-muted-foreground tabular-nums w-56 text-right shrink-0">
+                    {s.count}× · first {when(s.firstSeen)} · cleared {when(s.lastCleared)}
+                  </span>
+                </button>
+                {open && (
+                  <div className="px-11 pb-3 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Printer reported: “{s.message}” · listed {duration(s.activeMs)} in total
+                    </p>
+                    <FaultTroubleshooting code={s.code} message={s.message} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </ServicePanel>
+      ) : (
+        <ServicePanel title="Occurrences">
+          <div className="max-h-96 overflow-y-auto">
+            {filtered.slice(0, 500).map((e) => (
+              <div key={e.id} className="flex items-center gap-3 px-4 py-2 border-t first:border-t-0 text-sm">
+                <span className="font-mono w-16 shrink-0">{e.code}</span>
+                <span className="flex-1 truncate">
+                  {e.message}
+                  {printer === 'all' && <span className="text-muted-foreground"> · {printerName(e.printerId)}</span>}
+                </span>
+                <span className="text-xs text-muted-foreground tabular-nums shrink-0">
+                  {when(e.firstSeen)} → {e.clearedAt === null ? 'active' : when(e.clearedAt)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </ServicePanel>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { Plus, Trash2, Send, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ServicePanel } from '@/components/service/ServicePanels';
+import { useFaultNotifications } from '@/hooks/useFaultNotifications';
+import { cn } from '@/lib/utils';
+import type { Printer } from '@/types/printer';
+import type { FaultChannel, FaultContact, FaultIncident, FaultNotificationConfig, FaultRule } from '@/types/electron';
+
+type View = 'incidents' | 'rules' | 'contacts' | 'channels';
+
+const CHANNELS: { key: FaultChannel; label: string }[] = [
+  { key: 'email', label: 'Email' },
+  { key: 'webhook', label: 'Webhook' },
+  { key: 'sms', label: 'SMS' },
+];
+const SEVERITIES = [
+  { key: 'F', label: 'Fault' },
+  { key: 'W', label: 'Warning' },
+  { key: 'I', label: 'Info' },
+] as const;
+
+const when = (t: number | null) =>
+  t === null ? '—' : new Date(t).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((x) => x !== item) : [...list, item]);
+
+function incidentStatus(i: FaultIncident): { label: string; tone: string } {
+  if (i.ackAt !== null) return { label: `Acknowledged by ${i.ackBy}`, tone: 'text-success' };
+  if (i.clearedAt !== null) return { label: i.notifiedAt === null ? 'Cleared before sending' : 'Cleared', tone: 'text-muted-foreground' };
+  if (i.escalatedAt !== null) return { label: 'Escalated', tone: 'text-destructive' };
+  if (i.notifiedAt !== null) return { label: i.escalateAt !== null ? `Escalates ${when(i.escalateAt)}` : 'Notified', tone: 'text-warning' };
+  return { label: `Sends ${when(i.notifyAt)}`, tone: 'text-muted-foreground' };
+}
+
+function newRule(contacts: FaultContact[]): FaultRule {
+  return {
+    id: crypto.randomUUID(),
+    name: 'New rule',
+    enabled: true,
+    printerIds: [],
+    lineIds: [],
+    severities: ['F'],
+    codes: [],
+    delaySeconds: 60,
+    contactIds: contacts.slice(0, 1).map((c) => c.id),
+    channels: ['email'],
+    escalation: { enabled: false, afterMinutes: 15, contactIds: [] },
+  };
+}
+
+function ContactPicker({ contacts, value, onChange }: { contacts: FaultContact[]; value: string[]; onChange: (ids: string[]) => void }) {
+  if (contacts.length === 0) return <p className="text-xs text-muted-foreground">Add contacts first</p>;
+  return (
+    <div className="flex flex-wrap gap-3">
+      {contacts.map((c) => (
+        <label key={c.id} className="flex items-center gap-1.5 text-xs">
+          <Checkbox checked={value.includes(c.id)} onCheckedChange={() => onChange(toggle(value, c.id))} />
+          {c.name}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+interface FaultNotificationsPanelProps {
+  printers: Printer[];
+}
+
+/** Routing rules, contacts and channels for fault email / webhook / SMS notifications, and the incidents they opened. */
+export function FaultNotificationsPanel({ printers }: FaultNotificationsPanelProps) {
+  const { supported, config, incidents, saveConfig, acknowledge, testContact } = useFaultNotifications();
+  const [view, setView] = useState<View>('incidents');
+  const [draft, setDraft] = useState<FaultNotificationConfig | null>(null);
+
+  useEffect(() => { setDraft(config); }, [config]);
+
+  const lineIds = useMemo(() => [...new Set(printers.map((p) => p.lineId).filter(Boolean))] as string[], [printers]);
+  const openCount = incidents.filter((i) => i.ackAt === null && i.clearedAt === null).length;
+  const dirty = JSON.stringify(draft) !== JSON.stringify(config);
+
+  if (!supported) {
+    return (
+      <div className="h-32 flex items-center justify-center text-sm text-muted-foreground">
+        Fault notifications need the desktop app
+      </div>
+    );
+  }
+  if (!draft) return null;
+
+  const patchRule = (id: string, patch: Partial<FaultRule>) =>
+    setDraft({ ...draft, rules: draft.rules.map((r) => (r.id === id ? { ...r, ...patch } : r)) });
+  const patchContact = (id: string, patch: Partial<FaultContact>) =>
+    setDraft({ ...draft, contacts: draft.contacts.map((c) => (c.id === id ? { ...c, ...patch } : c)) });
+  const patchSmtp = (patch: Partial<FaultNotificationConfig['channels']['smtp']>) =>
+    setDraft({ ...draft, channels: { ...draft.channels, smtp: { ...draft.channels.smtp, ...patch } } });
+  const patchSms = (patch: Partial<FaultNotificationConfig['channels']['sms']>) =>
+    setDraft({ ...draft, channels: { ...draft.channels, sms: { ...draft.channels.sms, ...patch } } });
+
+  const handleSave = async () => {
+    const res = await saveConfig(draft);
+    if (res.success) toast.success('Notification settings saved');
+    else toast.error(res.error ?? 'Could not save notification settings');
+  };
+
+  const handleTest = async (contactId: string, channel: FaultChannel) => {
+    if (dirty) {
+      toast.error('Save your changes before sending a test');
+      return;
+    }
+    const res = await testContact(contactId, channel);
+    if (res.success) toast.success('Test notification sent');
+    else toast.error(res.error ?? 'Test failed');
+  };
+
+  return (
+    <div className="space-y-4 mt-4">
+      <div className="flex items-center gap-2">
+        <ToggleGroup type="single" size="sm" value={view} onValueChange={(v) => v && setView(v as View)}>
+          <ToggleGroupItem value="incidents" className="text-xs">Incidents{openCount > 0 ? ` (${openCount})` : ''}</ToggleGroupItem>
+          <ToggleGroupItem value="rules" className="text-xs">Rules ({draft.rules.length})</ToggleGroupItem>
+          <ToggleGroupItem value="contacts" className="text-xs">Contacts ({draft.contacts.length})</ToggleGroupItem>
+          <ToggleGroupItem value="channels" className="text-xs">Channels</ToggleGroupItem>
+        </ToggleGroup>
+        {view !== 'incidents' && (
+          <Button size="sm" className="ml-auto" disabled={!dirty} onClick={handleSave}>Save</Button>
+        )}
+      </div>
+
+      {view === 'incidents' && (
+        incidents.length === 0 ? (
+          <div className="h-32 flex items-center justify-center text-sm text-muted-foreground">
+            No fault has matched a rule yet
+          </div>
+        ) : (
+          <ServicePanel title="Incidents">
+            <div className="max-h-96 overflow-y-auto">
+              {incidents.slice(0, 200).map((i) => {
+                const status = incidentStatus(i);
+                const failed = i.sends.filter((s) => !s.ok).length;
+                return (
+                  <div key={i.id} className="flex items-center gap-3 px-4 py-2 border-t first:border-t-0 text-sm">
+                    <span className="font-mono w-16 shrink-0">{i.code}</span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate">{i.message} <span className="text-muted-foreground">· {i.printerName}</span></span>
+                      <span className="block text-xs text-muted-foreground">
+                        {i.ruleName} · opened {when(i.openedAt)} · {i.sends.length - failed} sent
+                        {failed > 0 && (
+                          <span className="text-destructive" title={i.sends.filter((s) => !s.ok).map((s) => `${s.contact} ${s.channel}: ${s.detail}`).join('\n')}>
+                            {' '}· {failed} failed
+                          </span>
+                        )}
+                      </span>
+                    </span>
+                    <span className={cn('text-xs font-semibold shrink-0', status.tone)}>{status.label}</span>
+                    {i.ackAt === null && i.clearedAt === null && (
+                      <Button size="sm" variant="outline" className="h-7" onClick={() => acknowledge(i.id, 'CodeSync')}>
+                        <Check className="w-3.5 h-3.5 mr-1" /> Ack
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ServicePanel>
+        )
+      )}
+
+      {view === 'rules' && (
+        <div className="space-y-3">
+          {draft.rules.map((r) => (
+            <ServicePanel key={r.id} title={r.name || 'Rule'}>
+              <div className="p-4 space-y-3 text-sm">
+                <div className="flex items-center gap-3">
+                  <Input className="h-8 flex-1" value={r.name} onChange={(e) => patchRule(r.id, { name: e.target.value })} />
+                  <Switch checked={r.enabled} onCheckedChange={(enabled) => patchRule(r.id, { enabled })} />
+                  <Button size="icon" variant="ghost" className="h-8 w-8"
+                    onClick={() => setDraft({ ...draft, rules: draft.rules.filter((x) => x.id !== r.id) })}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Printers (none = all)</Label>
+                    <div className="flex flex-wrap gap-3">
+                      {printers.map((p) => (
+                        <label key={p.id} className="flex items-center gap-1.5 text-xs">
+                          <Checkbox checked={r.printerIds.includes(p.id)} onCheckedChange={() => patchRule(r.id, { printerIds: toggle(r.printerIds, p.id) })} />
+                          {p.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Lines</Label>
+                    {lineIds.length === 0 ? <p className="text-xs text-muted-foreground">No printer has a line ID</p> : (
+                      <div className="flex flex-wrap gap-3">
+                        {lineIds.map((l) => (
+                          <label key={l} className="flex items-center gap-1.5 text-xs">
+                            <Checkbox checked={r.lineIds.includes(l)} onCheckedChange={() => patchRule(r.id, { lineIds: toggle(r.lineIds, l) })} />
+                            {l}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Severity</Label>
+                    <div className="flex gap-3">
+                      {SEVERITIES.map((s) => (
+                        <label key={s.key} className="flex items-center gap-1.5 text-xs">
+                          <Checkbox checked={r.severities.includes(s.key)} onCheckedChange={() => patchRule(r.id, { severities: toggle(r.severities, s.key) })} />
+                          {s.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Fault codes (empty = all)</Label>
+                    <Input className="h-8 font-mono" placeholder="10-0002, 08-*" value={r.codes.join(', ')}
+                      onChange={(e) => patchRule(r.id, { codes: e.target.value.split(/[,\s]+/).filter(Boolean) })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Notify after fault is listed for (s)</Label>
+                    <Input className="h-8 w-28" type="number" min={0} value={r.delaySeconds}
+                      onChange={(e) => patchRule(r.id, { delaySeconds: Number(e.target.value) })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Channels</Label>
+                    <div className="flex gap-3">
+                      {CHANNELS.map((c) => (
+                        <label key={c.key} className="flex items-center gap-1.5 text-xs">
+                          <Checkbox checked={r.channels.includes(c.key)} onCheckedChange={() => patchRule(r.id, { channels: toggle(r.channels, c.key) })} />
+                          {c.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Notify</Label>
+                  <ContactPicker contacts={draft.contacts} value={r.contactIds} onChange={(contactIds) => patchRule(r.id, { contactIds })} />
+                </div>
+                <div className="space-y-2 border-t pt-3">
+                  <div className="flex items-center gap-2">
+                    <Switch id={`esc-${r.id}`} checked={r.escalation.enabled}
+                      onCheckedChange={(enabled) => patchRule(r.id, { escalation: { ...r.escalation, enabled } })} />
+                    <Label htmlFor={`esc-${r.id}`} className="text-xs">Escalate unacknowledged fatal faults after</Label>
+                    <Input className="h-7 w-20" type="number" min={1} value={r.escalation.afterMinutes}
+                      onChange={(e) => patchRule(r.id, { escalation: { ...r.escalation, afterMinutes: Number(e.target.value) } })} />
+                    <span className="text-xs text-muted-foreground">min to</span>
+                  </div>
+                  {r.escalation.enabled && (
+                    <ContactPicker contacts={draft.contacts} value={r.escalation.contactIds}
+                      onChange={(contactIds) => patchRule(r.id, { escalation: { ...r.escalation, contactIds } })} />
+                  )}
+                </div>
+              </div>
+            </ServicePanel>
+          ))}
+          <Button size="sm" variant="outline" onClick={() => setDraft({ ...draft, rules: [...draft.rules, newRule(draft.contacts)] })}>
+            <Plus className="w-3.5 h-3.5 mr-1" /> Add rule
+          </Button>
+        </div>
+      )}
+
+      {view === 'contacts' && (
+        <div className="space-y-3">
+          {draft.contacts.map((c) => (
+            <ServicePanel key={c.id} title={c.name || 'Contact'}>
+              <div className="p-4 grid grid-cols-2 gap-3 text-sm">
+                <div className="space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input className="h-8" value={c.name} onChange={(e) => patchContact(c.id, { name: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Email</Label>
+                  <Input className="h-8" placeholder="name@plant.com" value={c.email} onChange={(e) => patchContact(c.id, { email: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Phone (SMS)</Label>
+                  <Input className="h-8" placeholder="+15551234567" value={c.phone} onChange={(e) => patchContact(c.id, { phone: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Webhook URL</Label>
+                  <Input className="h-8" placeholder="https://…" value={c.webhookUrl} onChange={(e) => patchContact(c.id, { webhookUrl: e.target.value })} />
+                </div>
+                <div className="col-span-2 flex items-center gap-2">
+                  {CHANNELS.map((ch) => (
+                    <Button key={ch.key} size="sm" variant="outline" className="h-7" onClick={() => handleTest(c.id, ch.key)}>
+                      <Send className="w-3.5 h-3.5 mr-1" /> Test {ch.label.toLowerCase()}
+                    </Button>
+                  ))}
+                  <Button size="icon" variant="ghost" className="h-7 w-7 ml-auto"
+                    onClick={() => setDraft({ ...draft, contacts: draft.contacts.filter((x) => x.id !== c.id) })}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </ServicePanel>
+          ))}
+          <Button size="sm" variant="outline" onClick={() => setDraft({
+            ...draft,
+            contacts: [...draft.contacts, { id: crypto.randomUUID(), name: 'New contact', email: '', phone: '', webhookUrl: '' }],
+          })}>
+            <Plus className="w-3.5 h-3.5 mr-1" /> Add contact
+          </Button>
+        </div>
+      )}
+
+      {view === 'channels' && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <ServicePanel title="Email (SMTP)">
+            <div className="p-4 grid grid-cols-2 gap-3 text-sm">
+              <div className="space-y-1">
+                <Label className="text-xs">Server</Label>
+                <Input className="h-8" placeholder="smtp.plant.com" value={draft.channels.smtp.host} onChange={(e) => patchSmtp({ host: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Port</Label>
+                <Input className="h-8" type="number" value={draft.channels.smtp.port} onChange={(e) => patchSmtp({ port: Number(e.target.value) })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Username</Label>
+                <Input className="h-8" value={draft.channels.smtp.username} onChange={(e) => patchSmtp({ username: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Password</Label>
+                <Input
+                  className="h-8"
+                  type="password"
+                  value={draft.channels.smtp.password ?? ''}
+                  // Blank keeps the stored password.
+                  onChange={(e) => patchSmtp({ password: e.target.value || undefined })}
+                  placeholder={draft.channels.smtp.hasPassword ? '•••••••• (unchanged)' : ''}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">From</Label>
+                <Input className="h-8" value={draft.channels.smtp.from} onChange={(e) => patchSmtp({ from: e.target.value })} />
+              </div>
+              <div className="flex items-center gap-2 pt-5">
+                <Switch id="smtp-secure" checked={draft.channels.smtp.secure} onCheckedChange={(secure) => patchSmtp({ secure })} />
+                <Label htmlFor="smtp-secure" className="text-xs">TLS from connect (465)</Label>
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">Otherwise STARTTLS is used when the server offers it.</p>
+            </div>
+          </ServicePanel>
+          <ServicePanel title="SMS gateway">
+            <div className="p-4 space-y-3 text-sm">
+              <div className="flex gap-3">
+                <div className="space-y-1 w-24">
+                  <Label className="text-xs">Method</Label>
+                  <Select value={draft.channels.sms.method} onValueChange={(v) => patchSms({ method: v as 'GET' | 'POST' })}>
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="POST">POST</SelectItem>
+                      <SelectItem value="GET">GET</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 flex-1">
+                  <Label className="text-xs">URL</Label>
+                  <Input className="h-8" placeholder="https://gateway/send?to={to}" value={draft.channels.sms.url} onChange={(e) => patchSms({ url: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Headers (one per line)</Label>
+                <Textarea rows={2} className="font-mono text-xs" placeholder="Authorization: Bearer …" value={draft.channels.sms.headers}
+                  onChange={(e) => patchSms({ headers: e.target.value })} />
+              </div>
+              {draft.channels.sms.method === 'POST' && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Body</Label>
+                  <Textarea rows={2} className="font-mono text-xs" value={draft.channels.sms.body} onChange={(e) => patchSms({ body: e.target.value })} />
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {'{to}'} and {'{message}'} are filled in per message. Bodies are JSON unless a form Content-Type header is set.
+              </p>
+            </div>
+          </ServicePanel>
+        </div>
+      )}
+    </div>
+  );
+}
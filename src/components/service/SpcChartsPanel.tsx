@@ -0,0 +1,248 @@
+import { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine,
+} from 'recharts';
+import { AlertTriangle, Lock, Unlock, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ServicePanel } from '@/components/service/ServicePanels';
+import { useSpcSamples, useSpcState } from '@/hooks/useSpc';
+import { spcStore, limitsKey, type ManualLimits } from '@/lib/spcStore';
+import {
+  SPC_METRICS, MIN_SUBGROUP, MAX_SUBGROUP, WESTERN_ELECTRIC_RULES, subgroups, controlLimits, westernElectric,
+  type SpcMetric,
+} from '@/lib/spc';
+
+const WINDOWS = ['8', '24', '168'];
+const fmt = (v: number) => (Math.abs(v) >= 100 ? v.toFixed(1) : v.toFixed(2));
+const time = (v: number) => new Date(v).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface SpcChartsPanelProps {
+  printerId: number | null | undefined;
+}
+
+/** X̄/R control charts of one printer's recorded health metrics with Western Electric rule hits. */
+export function SpcChartsPanel({ printerId }: SpcChartsPanelProps) {
+  const { settings, alerts } = useSpcState();
+  const [metric, setMetric] = useState<SpcMetric>('pressure');
+  const [hours, setHours] = useState('24');
+  const { samples, loading } = useSpcSamples(printerId, Number(hours));
+  const [editing, setEditing] = useState<ManualLimits | null>(null);
+
+  const size = settings.subgroupSize;
+  const groups = useMemo(() => subgroups(samples, metric, size), [samples, metric, size]);
+  const computed = useMemo(() => controlLimits(groups, size), [groups, size]);
+  const fixed = printerId != null ? settings.limits[limitsKey(printerId, metric)] : undefined;
+  const xLimits = fixed ?? computed;
+  const violations = useMemo(() => (xLimits ? westernElectric(groups, xLimits) : []), [groups, xLimits]);
+  const flagged = useMemo(() => new Map(violations.map((v) => [v.index, v.rule])), [violations]);
+  const data = useMemo(() => groups.map((g, i) => ({ ...g, rule: flagged.get(i) ?? null })), [groups, flagged]);
+  const info = SPC_METRICS.find((m) => m.key === metric)!;
+  const printerAlerts = alerts.filter((a) => a.printerId === printerId);
+
+  if (printerId == null) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground">Connect to a printer to view control charts</p>
+      </div>
+    );
+  }
+
+  const saveFixed = (limits: ManualLimits | null) => {
+    spcStore.setLimits(printerId, metric, limits);
+    setEditing(null);
+  };
+
+  const dot = (props: { cx?: number; cy?: number; payload?: { rule: number | null; at: number } }) => (
+    <circle
+      key={props.payload?.at}
+      cx={props.cx}
+      cy={props.cy}
+      r={props.payload?.rule ? 4 : 2}
+      fill={props.payload?.rule ? 'hsl(var(--destructive))' : 'hsl(var(--primary))'}
+    />
+  );
+
+  return (
+    <div className="space-y-4 mt-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup type="single" size="sm" value={metric} onValueChange={(v) => { if (v) { setMetric(v as SpcMetric); setEditing(null); } }}>
+          {SPC_METRICS.map((m) => <ToggleGroupItem key={m.key} value={m.key} className="text-xs">{m.label}</ToggleGroupItem>)}
+        </ToggleGroup>
+        <ToggleGroup type="single" size="sm" value={hours} onValueChange={(v) => v && setHours(v)} className="ml-auto">
+          {WINDOWS.map((h) => (
+            <ToggleGroupItem key={h} value={h} className="text-xs">{h === '168' ? '7d' : `${h}h`}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <div className="space-y-1">
+          <Label className="text-xs">Subgroup size</Label>
+          <Select value={String(size)} onValueChange={(v) => spcStore.configure({ subgroupSize: Number(v) })}>
+            <SelectTrigger className="w-20 h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_SUBGROUP - MIN_SUBGROUP + 1 }, (_, i) => MIN_SUBGROUP + i).map((n) => (
+                <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Sample every (s)</Label>
+          <Input
+            className="w-24 h-8"
+            type="number"
+            min={5}
+            max={3600}
+            defaultValue={settings.sampleSeconds}
+            onBlur={(e) => spcStore.configure({ sampleSeconds: Number(e.target.value) })}
+          />
+        </div>
+        <div className="text-xs text-muted-foreground pb-2">
+          {samples.length} samples · {groups.length} subgroups{loading ? ' · loading…' : ''}
+        </div>
+      </div>
+
+      <ServicePanel title={`${info.label} — control limits ${fixed ? '(fixed)' : '(computed)'}`}>
+        <div className="p-4 space-y-3">
+          {editing ? (
+            <div className="flex flex-wrap items-end gap-2">
+              {(['lcl', 'center', 'ucl'] as const).map((k) => (
+                <div key={k} className="space-y-1">
+                  <Label className="text-xs uppercase">{k === 'center' ? 'CL' : k}</Label>
+                  <Input
+                    className="w-28 h-8"
+                    type="number"
+                    step="any"
+                    value={editing[k]}
+                    onChange={(e) => setEditing({ ...editing, [k]: Number(e.target.value) })}
+                  />
+                </div>
+              ))}
+              <Button
+                size="sm"
+                disabled={!(editing.lcl < editing.center && editing.center < editing.ucl)}
+                onClick={() => saveFixed(editing)}
+              >
+                Save
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              {xLimits ? (
+                <span className="tabular-nums">
+                  LCL {fmt(xLimits.lcl)} · CL {fmt(xLimits.center)} · UCL {fmt(xLimits.ucl)} {info.unit}
+                </span>
+              ) : (
+                <span className="text-muted-foreground">Not enough samples for limits yet</span>
+              )}
+              <div className="ml-auto flex gap-2">
+                {fixed ? (
+                  <Button size="sm" variant="outline" onClick={() => saveFixed(null)}>
+                    <Unlock className="w-3.5 h-3.5 mr-1" /> Use computed
+                  </Button>
+                ) : computed && (
+                  <Button size="sm" variant="outline" onClick={() => saveFixed({ center: computed.center, ucl: computed.ucl, lcl: computed.lcl })}>
+                    <Lock className="w-3.5 h-3.5 mr-1" /> Fix these limits
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEditing(xLimits ? { center: xLimits.center, ucl: xLimits.ucl, lcl: xLimits.lcl } : { center: 0, ucl: 1, lcl: -1 })}
+                >
+                  Edit
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </ServicePanel>
+
+      {data.length === 0 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-muted-foreground">
+          {loading ? 'Loading…' : 'No samples in this window — samples are recorded while the jet is running'}
+        </div>
+      ) : (
+        <>
+          <div>
+            <div className="text-xs font-semibold text-muted-foreground mb-1">X̄ chart ({info.unit})</div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} margin={{ top: 8, right: 12, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.5} />
+                  <XAxis dataKey="at" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={time} fontSize={11} />
+                  <YAxis fontSize={11} width={52} domain={['auto', 'auto']} />
+                  <Tooltip
+                    labelFormatter={(v) => new Date(Number(v)).toLocaleString()}
+                    formatter={(v: number) => [fmt(v), `X̄ ${info.label}`]}
+                  />
+                  {xLimits && <ReferenceLine y={xLimits.ucl} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />}
+                  {xLimits && <ReferenceLine y={xLimits.center} stroke="hsl(var(--muted-foreground))" />}
+                  {xLimits && <ReferenceLine y={xLimits.lcl} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />}
+                  <Line type="linear" dataKey="mean" stroke="hsl(var(--primary))" strokeWidth={1.5} dot={dot} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+          <div>
+            <div className="text-xs font-semibold text-muted-foreground mb-1">R chart ({info.unit})</div>
+            <div className="h-40">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} margin={{ top: 8, right: 12, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.5} />
+                  <XAxis dataKey="at" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={time} fontSize={11} />
+                  <YAxis fontSize={11} width={52} domain={[0, 'auto']} />
+                  <Tooltip
+                    labelFormatter={(v) => new Date(Number(v)).toLocaleString()}
+                    formatter={(v: number) => [fmt(v), 'Range']}
+                  />
+                  {computed && <ReferenceLine y={computed.rUcl} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />}
+                  {computed && <ReferenceLine y={computed.rCenter} stroke="hsl(var(--muted-foreground))" />}
+                  <Line type="linear" dataKey="range" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+
+      {violations.length > 0 && (
+        <ServicePanel title={`Rule violations (${violations.length})`}>
+          <div className="max-h-40 overflow-y-auto">
+            {violations.slice(-20).reverse().map((v) => (
+              <div key={v.index} className="flex items-center justify-between px-4 py-2 border-t first:border-t-0 text-sm">
+                <span>{WESTERN_ELECTRIC_RULES[v.rule]}</span>
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {time(groups[v.index].at)} · X̄ {fmt(groups[v.index].mean)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </ServicePanel>
+      )}
+
+      {printerAlerts.length > 0 && (
+        <ServicePanel title="Drift warnings">
+          {printerAlerts.map((a) => (
+            <div key={a.id} className="flex items-center gap-3 px-4 py-2 border-t first:border-t-0 text-sm">
+              <AlertTriangle className="w-4 h-4 text-warning shrink-0" />
+              <span className="flex-1">
+                {SPC_METRICS.find((m) => m.key === a.metric)?.label}: {WESTERN_ELECTRIC_RULES[a.rule]}
+              </span>
+              <span className="text-xs text-muted-foreground">{time(a.at)}</span>
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => spcStore.dismissAlert(a.id)}>
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </ServicePanel>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { toast } from 'sonner';
 import { isDevAccessRuntime } from '@/lib/devAccess';
+import { persistentStorage } from '@/lib/persistence';
 
 export type LicenseTier = 'lite' | 'full' | 'database' | 'demo' | 'dev' | 'twincode';
 
@@ -227,7 +228,7 @@ export function LicenseProvider({ children }: { children: ReactNode }) {
           currentMessage: undefined,
           printCount: undefined,
         }));
-        localStorage.setItem('codesync-printers', JSON.stringify(syncedPrinters));
+        persistentStorage.setItem('codesync-printers', JSON.stringify(syncedPrinters));
         toast.success('Printer configuration synced from PC');
       }
 
@@ -251,7 +252,7 @@ export function LicenseProvider({ children }: { children: ReactNode }) {
     if (!state.productKey) return null;
     try {
       // Gather current printer config to sync to companion
-      const printerConfigRaw = localStorage.getItem('codesync-printers');
+      const printerConfigRaw = persistentStorage.getItem('codesync-printers');
       const printerConfig = printerConfigRaw ? JSON.parse(printerConfigRaw) : null;
 
       const res = await fetch(
@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  downtimeEngine, openAutoDowntime, retagAutoDowntime, closeAutoDowntime, countMicroStop,
+  type DowntimeEngineState,
+} from '@/lib/downtimeEngine';
+import type { ProductionRun } from '@/types/production';
+
+interface RunStore {
+  runs: ProductionRun[];
+  modifyRun: (id: string, fn: (run: ProductionRun) => ProductionRun) => void;
+}
+
+/**
+ * Applies downtime engine transitions (fed by usePrinterConnection's polling)
+ * to every active production run on the affected printer. Mounted once in
+ * Index next to the other app-wide background hooks.
+ */
+export function useAutoDowntime(productionStorage: RunStore) {
+  const runsRef = useRef(productionStorage.runs);
+  runsRef.current = productionStorage.runs;
+  const { modifyRun } = productionStorage;
+
+  useEffect(() => downtimeEngine.onTransition((t) => {
+    const active = runsRef.current.filter((r) => r.printerId === t.printerId && r.endTime === null);
+    for (const run of active) {
+      switch (t.type) {
+        case 'open':
+          modifyRun(run.id, (r) => openAutoDowntime(r, t.cause, t.startTime));
+          break;
+        case 'cause':
+          modifyRun(run.id, (r) => retagAutoDowntime(r, t.cause));
+          break;
+        case 'close':
+          modifyRun(run.id, (r) => closeAutoDowntime(r, t.endTime));
+          break;
+        case 'microStop':
+          if (t.startTime >= run.startTime) modifyRun(run.id, countMicroStop);
+          break;
+      }
+    }
+  }), [modifyRun]);
+}
+
+export function useDowntimeEngineState(): DowntimeEngineState {
+  const [state, setState] = useState(downtimeEngine.getState());
+  useEffect(() => downtimeEngine.subscribe(setState), []);
+  return state;
+}
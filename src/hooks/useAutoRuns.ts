@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  runTracker, resolveRunTarget, newAutoRun, closeAutoRun, countProducts, runSnapshot,
+  type RunTrackerState,
+} from '@/lib/runTracker';
+import { downtimeEngine, openAutoDowntime } from '@/lib/downtimeEngine';
+import { twinPairStore, bindingMatches } from '@/twin-code/twinPairStore';
+import type { ProductionRun, ProductionSnapshot } from '@/types/production';
+import type { Printer } from '@/types/printer';
+
+interface RunStore {
+  runs: ProductionRun[];
+  addRun: (run: Omit<ProductionRun, 'id'>) => Promise<ProductionRun>;
+  modifyRun: (id: string, fn: (run: ProductionRun) => ProductionRun) => void;
+  addSnapshot: (snapshot: Omit<ProductionSnapshot, 'id'>) => Promise<void>;
+}
+
+/**
+ * Applies run tracker transitions (fed by usePrinterConnection's ^SM and ^CN
+ * handling) to production storage. Twin Code printers keep their own run
+ * bar, and a printer with a hand-started run is left to the operator.
+ * Mounted once in Index next to useAutoDowntime.
+ */
+export function useAutoRuns(productionStorage: RunStore, printers: Printer[]) {
+  const runsRef = useRef(productionStorage.runs);
+  runsRef.current = productionStorage.runs;
+  const printersRef = useRef(printers);
+  printersRef.current = printers;
+  // printer id → latest changeover, so a slow target lookup can't open a stale run
+  const changeoverRef = useRef(new Map<number, number>());
+  const { addRun, modifyRun, addSnapshot } = productionStorage;
+
+  useEffect(() => runTracker.onTransition((t) => {
+    const active = runsRef.current.filter((r) => r.printerId === t.printerId && r.endTime === null);
+
+    if (t.type === 'counters') {
+      for (const run of active) {
+        if (run.source === 'auto') modifyRun(run.id, (r) => countProducts(r, t.productDelta));
+        if (t.snapshot) addSnapshot(runSnapshot(run, t));
+      }
+      return;
+    }
+
+    const printer = printersRef.current.find((p) => p.id === t.printerId);
+    const pair = twinPairStore.getState();
+    if (printer && (bindingMatches(pair.a, printer) || bindingMatches(pair.b, printer))) return;
+    if (active.some((r) => r.source !== 'auto')) return;
+    if (active.some((r) => r.messageName === t.messageName)) return;
+
+    for (const run of active) modifyRun(run.id, (r) => closeAutoRun(r, t.at));
+    changeoverRef.current.set(t.printerId, t.at);
+
+    const { defaultTarget } = runTracker.getState().settings;
+    resolveRunTarget(t.printerId, t.messageName, runsRef.current, defaultTarget).then(async (target) => {
+      if (changeoverRef.current.get(t.printerId) !== t.at) return;
+      const run = await addRun(newAutoRun(t.printerId, printer?.name ?? t.printerName, t.messageName, target, t.at));
+      // A printer already stopped at changeover starts its run in downtime
+      const stop = downtimeEngine.getState().stops[t.printerId];
+      if (stop?.open) modifyRun(run.id, (r) => openAutoDowntime(r, stop.cause, stop.since));
+    }).catch((e) => console.error('[useAutoRuns] could not open run', e));
+  }), [addRun, modifyRun, addSnapshot]);
+}
+
+export function useRunTrackerState(): RunTrackerState {
+  const [state, setState] = useState(runTracker.getState());
+  useEffect(() => runTracker.subscribe(setState), []);
+  return state;
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Consumable, PrinterConsumableAssignment, ReorderConfig, defaultReorderConfig } from '@/types/consumable';
+import { persistentStorage } from '@/lib/persistence';
 
 const CONSUMABLES_KEY = 'codesync-consumables';
 const ASSIGNMENTS_KEY = 'codesync-consumable-assignments';
@@ -8,7 +9,7 @@ const REORDER_CONFIG_KEY = 'codesync-reorder-config';
 export function useConsumableStorage() {
   const [consumables, setConsumables] = useState<Consumable[]>(() => {
     try {
-      const stored = localStorage.getItem(CONSUMABLES_KEY);
+      const stored = persistentStorage.getItem(CONSUMABLES_KEY);
       if (!stored) return [];
       const parsed: Consumable[] = JSON.parse(stored);
       // Migrate: old data may have unit='cases', convert to bottles
@@ -25,7 +26,7 @@ export function useConsumableStorage() {
 
   const [assignments, setAssignments] = useState<PrinterConsumableAssignment[]>(() => {
     try {
-      const stored = localStorage.getItem(ASSIGNMENTS_KEY);
+      const stored = persistentStorage.getItem(ASSIGNMENTS_KEY);
       return stored ? JSON.parse(stored) : [];
     } catch {
       return [];
@@ -34,7 +35,7 @@ export function useConsumableStorage() {
 
   const [reorderConfig, setReorderConfig] = useState<ReorderConfig>(() => {
     try {
-      const stored = localStorage.getItem(REORDER_CONFIG_KEY);
+      const stored = persistentStorage.getItem(REORDER_CONFIG_KEY);
       return stored ? { ...defaultReorderConfig, ...JSON.parse(stored) } : defaultReorderConfig;
     } catch {
       return defaultReorderConfig;
@@ -44,7 +45,7 @@ export function useConsumableStorage() {
   // Persist consumables
   useEffect(() => {
     try {
-      localStorage.setItem(CONSUMABLES_KEY, JSON.stringify(consumables));
+      persistentStorage.setItem(CONSUMABLES_KEY, JSON.stringify(consumables));
     } catch (e) {
       console.error('Failed to save consumables:', e);
     }
@@ -53,7 +54,7 @@ export function useConsumableStorage() {
   // Persist assignments
   useEffect(() => {
     try {
-      localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
+      persistentStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
     } catch (e) {
       console.error('Failed to save consumable assignments:', e);
     }
@@ -62,7 +63,7 @@ export function useConsumableStorage() {
   // Persist reorder config
   useEffect(() => {
     try {
-      localStorage.setItem(REORDER_CONFIG_KEY, JSON.stringify(reorderConfig));
+      persistentStorage.setItem(REORDER_CONFIG_KEY, JSON.stringify(reorderConfig));
     } catch (e) {
       console.error('Failed to save reorder config:', e);
     }
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { DbIntegrationConfig, DbIntegrationStatus } from '@/types/electron';
+
+export type DbIntegrationSavedConfig = Omit<DbIntegrationConfig, 'password'> & { hasPassword: boolean };
+
+/**
+ * Config and live status of the database poller in Electron main
+ * (electron/dbPoller.cjs). `supported` is false in the browser/PWA.
+ */
+export function useDbIntegration(active = true) {
+  const api = typeof window !== 'undefined' ? window.electronAPI?.db : undefined;
+  const [config, setConfig] = useState<DbIntegrationSavedConfig | null>(null);
+  const [status, setStatus] = useState<DbIntegrationStatus | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!api) return;
+    const [c, s] = await Promise.all([api.getConfig(), api.getStatus()]);
+    setConfig(c);
+    setStatus(s);
+  }, [api]);
+
+  useEffect(() => {
+    if (!api || !active) return;
+    refresh();
+    const off = api.onStatus(setStatus);
+    return () => { off?.(); };
+  }, [api, active, refresh]);
+
+  const configure = useCallback(async (next: Partial<DbIntegrationConfig>) => {
+    if (!api) return { success: false, error: 'Desktop app required' };
+    const res = await api.configure(next);
+    await refresh();
+    return res;
+  }, [api, refresh]);
+
+  const testConnection = useCallback(async (next: Partial<DbIntegrationConfig>) => {
+    if (!api) return { success: false, error: 'Desktop app required' };
+    return api.testConnection(next);
+  }, [api]);
+
+  const pollNow = useCallback(async () => {
+    if (!api) return 0;
+    return (await api.pollNow()).rows;
+  }, [api]);
+
+  const resetWatermark = useCallback(async (value: string | number | null = null) => {
+    if (!api) return;
+    setStatus(await api.setWatermark(value));
+  }, [api]);
+
+  return { supported: !!api, config, status, refresh, configure, testConnection, pollNow, resetWatermark };
+}
@@ -0,0 +1,8 @@
+import { useEffect, useState } from 'react';
+import { faultHistory, type FaultHistoryState } from '@/lib/faultHistory';
+
+export function useFaultHistory(): FaultHistoryState {
+  const [state, setState] = useState(faultHistory.getState());
+  useEffect(() => faultHistory.subscribe(setState), []);
+  return state;
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { FaultChannel, FaultIncident, FaultNotificationConfig } from '@/types/electron';
+
+/**
+ * Rules, contacts, channels and incidents of the fault notifier in Electron
+ * main (electron/faultNotifier.cjs). `supported` is false in the browser/PWA.
+ */
+export function useFaultNotifications(active = true) {
+  const api = typeof window !== 'undefined' ? window.electronAPI?.faults : undefined;
+  const [config, setConfig] = useState<FaultNotificationConfig | null>(null);
+  const [incidents, setIncidents] = useState<FaultIncident[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!api) return;
+    const [c, i] = await Promise.all([api.getConfig(), api.getIncidents()]);
+    setConfig(c);
+    setIncidents(i);
+  }, [api]);
+
+  useEffect(() => {
+    if (!api || !active) return;
+    refresh();
+    return api.onIncidents(setIncidents);
+  }, [api, active, refresh]);
+
+  const saveConfig = useCallback(async (next: FaultNotificationConfig) => {
+    if (!api) return { success: false, error: 'Desktop app required' };
+    const res = await api.saveConfig(next);
+    if (res.success && res.config) setConfig(res.config);
+    return res;
+  }, [api]);
+
+  const acknowledge = useCallback(async (id: string, by?: string) => {
+    if (!api) return;
+    await api.acknowledge(id, by);
+  }, [api]);
+
+  const testContact = useCallback(async (contactId: string, channel: FaultChannel) => {
+    if (!api) return { success: false, error: 'Desktop app required' };
+    return api.test(contactId, channel);
+  }, [api]);
+
+  return { supported: !!api, config, incidents, refresh, saveConfig, acknowledge, testContact };
+}
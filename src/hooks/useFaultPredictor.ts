@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { faultPredictor, ADVISORY_KINDS, type FaultPredictorState } from '@/lib/faultPredictor';
+import type { Printer } from '@/types/printer';
+
+export function useFaultPredictorState(): FaultPredictorState {
+  const [state, setState] = useState(faultPredictor.getState());
+  useEffect(() => faultPredictor.subscribe(setState), []);
+  return state;
+}
+
+/**
+ * Toasts each new or upgraded fault advisory; the evidence is in the Service
+ * dialog's Advisories tab. Mounted once in Index.
+ */
+export function useFaultAdvisoryWarnings(printers: Printer[]) {
+  const printersRef = useRef(printers);
+  printersRef.current = printers;
+
+  useEffect(() => faultPredictor.onAdvisory((advisory) => {
+    const printer = printersRef.current.find((p) => p.id === advisory.printerId);
+    const kind = ADVISORY_KINDS[advisory.kind];
+    const notify = advisory.confidence === 'likely' ? toast.error : toast.warning;
+    notify(`${kind.title} on ${printer?.name ?? `printer ${advisory.printerId}`}`, {
+      description: `${advisory.reasons.join('; ')}. ${kind.action}`,
+      duration: 10000,
+    });
+  }), []);
+}
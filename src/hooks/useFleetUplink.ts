@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from 'react';
+import { fleetUplink, type FleetUplinkState, type FleetSample } from '@/lib/fleetUplink';
+import { getFilterStatus } from '@/lib/filterTracker';
+import { printerEmulator } from '@/lib/printerEmulator';
+import { parseStreamHoursToNumber } from '@/components/consumables/ConsumablePredictions';
+import type { PrinterFault } from '@/components/alerts/FaultAlertDialog';
+import type { ConnectionState } from '@/types/printer';
+
+/**
+ * Feeds the connected printer's polled state into the fleet uplink. Mounted
+ * once in Index next to the other app-wide background hooks; every change to
+ * the parsed ^SU / ^TP / ^LE / ^CN / ^VV state becomes one sample, and the
+ * uplink decides what is worth a telemetry row or an event. Emulated
+ * printers are never uploaded.
+ */
+export function useFleetUplink(connectionState: ConnectionState, activeFaults: PrinterFault[]) {
+  const { connectedPrinter, isConnected, metrics, status } = connectionState;
+  const reportedRef = useRef<FleetSample['printer'] | null>(null);
+
+  useEffect(() => {
+    fleetUplink.start();
+  }, []);
+
+  useEffect(() => {
+    const reported = reportedRef.current;
+    const live = isConnected && connectedPrinter && !printerEmulator.enabled ? connectedPrinter : null;
+    if (reported && (!live || live.id !== reported.id)) {
+      fleetUplink.markOffline(reported);
+      reportedRef.current = null;
+    }
+    if (!live || (!metrics && !status)) return;
+
+    const pumpHours = metrics?.streamHours ? parseStreamHoursToNumber(metrics.streamHours) : null;
+    const filter = pumpHours != null ? getFilterStatus(live.id, pumpHours) : null;
+    reportedRef.current = live;
+    fleetUplink.record({
+      printer: live,
+      metrics,
+      status,
+      faults: activeFaults,
+      filterHoursRemaining: filter?.hoursRemaining ?? null,
+      at: Date.now(),
+    });
+  }, [connectedPrinter, isConnected, metrics, status, activeFaults]);
+}
+
+/** Uplink settings and outbox state for the Fleet page. */
+export function useFleetUplinkState(): FleetUplinkState {
+  const [state, setState] = useState(fleetUplink.getState());
+  useEffect(() => fleetUplink.subscribe(setState), []);
+  return state;
+}
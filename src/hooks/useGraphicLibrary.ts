@@ -0,0 +1,8 @@
+import { useEffect, useState } from 'react';
+import { graphicLibrary, type GraphicLibraryState } from '@/lib/graphicLibrary';
+
+export function useGraphicLibrary(): GraphicLibraryState {
+  const [state, setState] = useState(graphicLibrary.getState());
+  useEffect(() => graphicLibrary.subscribe(setState), []);
+  return state;
+}
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { HotfolderConfig, HotfolderStatus } from '@/types/electron';
+
+/**
+ * Config and live status of the hotfolder watcher in Electron main
+ * (electron/hotfolderWatcher.cjs). `supported` is false in the browser/PWA.
+ */
+export function useHotfolder(active = true) {
+  const api = typeof window !== 'undefined' ? window.electronAPI?.hotfolder : undefined;
+  const [config, setConfig] = useState<HotfolderConfig | null>(null);
+  const [status, setStatus] = useState<HotfolderStatus | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!api) return;
+    const [c, s] = await Promise.all([api.getConfig(), api.getStatus()]);
+    setConfig(c);
+    setStatus(s);
+  }, [api]);
+
+  useEffect(() => {
+    if (!api || !active) return;
+    refresh();
+    const off = api.onStatus(setStatus);
+    return () => { off?.(); };
+  }, [api, active, refresh]);
+
+  const configure = useCallback(async (next: Partial<HotfolderConfig>) => {
+    if (!api) return null;
+    const res = await api.configure(next);
+    setConfig(res.config);
+    return res.config;
+  }, [api]);
+
+  const clearProcessed = useCallback(async () => {
+    if (!api) return;
+    await api.clearProcessed();
+  }, [api]);
+
+  return { supported: !!api, config, status, refresh, configure, clearProcessed };
+}
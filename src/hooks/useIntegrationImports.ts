@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { importIntegrationPayload } from '@/lib/integrationImport';
+
+/**
+ * App-wide consumer for `hotfolder:new-file` (Electron only). Imports each
+ * hotfolder file or database batch and tells main how many rows were stored:
+ * the hotfolder watcher archives the file to processed/ or error/, the
+ * database poller acknowledges the rows and moves its watermark. Mounted once
+ * in Index so imports run whatever screen is open.
+ */
+export function useIntegrationImports() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const api = typeof window !== 'undefined' ? window.electronAPI : undefined;
+    if (!api?.onHotfolderNewFile) return;
+
+    const off = api.onHotfolderNewFile(async (payload) => {
+      const fromDb = payload.source === 'database';
+      const ack = fromDb ? api.db.ack : api.hotfolder.ack;
+      try {
+        const result = await importIntegrationPayload(payload);
+        await ack(payload.batchId, { imported: result.imported, error: result.error });
+        if (result.imported > 0) {
+          queryClient.invalidateQueries({ queryKey: ['data-sources'] });
+          if (result.mode === 'append') queryClient.invalidateQueries({ queryKey: ['print-jobs'] });
+          toast.success(fromDb
+            ? `Database: ${result.imported} new row(s) added to "${result.sourceName}"`
+            : `Hotfolder: imported ${result.imported} row(s) from "${payload.fileName}"`);
+        }
+        if (result.error) toast.error(`Import of "${payload.fileName}" stopped: ${result.error}`);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        ack(payload.batchId, { imported: 0, error: message }).catch(() => {});
+        toast.error(`Import of "${payload.fileName}" failed: ${message}`);
+      }
+    });
+    return () => { off?.(); };
+  }, [queryClient]);
+}
@@ -0,0 +1,8 @@
+import { useEffect, useState } from 'react';
+import { messageHistory, type MessageHistoryState } from '@/lib/messageHistory';
+
+export function useMessageHistory(): MessageHistoryState {
+  const [state, setState] = useState(messageHistory.getState());
+  useEffect(() => messageHistory.subscribe(setState), []);
+  return state;
+}
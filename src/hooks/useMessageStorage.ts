@@ -1,9 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { MessageDetails, MessageField } from '@/components/screens/EditMessageScreen';
 import { getHardcodedMessage, isHardcodedMessage } from '@/lib/hardcodedMessages';
+import { persistentStorage } from '@/lib/persistence';
 
 const STORAGE_KEY = 'bestcode-messages-v2'; // v2: keyed by printerId:messageName
-const LEGACY_STORAGE_KEY = 'bestcode-messages'; // v1: keyed by messageName only
 const PC_LIBRARY_KEY = 'bestcode-pc-library'; // PC Library: overflow messages stored on PC
 const SWAP_SLOT_KEY = 'bestcode-swap-slot'; // Per-printer swap slot name
 
@@ -34,39 +34,26 @@ interface PcLibraryMessages {
 
 function loadAllMessages(): StoredMessages {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) return JSON.parse(stored);
-
-    // Migrate from v1 (unscoped) storage if it exists
-    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
-    if (legacy) {
-      const parsed: Record<string, MessageDetails> = JSON.parse(legacy);
-      const migrated: StoredMessages = {};
-      for (const [name, details] of Object.entries(parsed)) {
-        migrated[makeKey(0, name)] = details;
-      }
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
-      return migrated;
-    }
-
-    return {};
+    // v1 (unscoped) messages are folded in by the persistence migrations
+    const stored = persistentStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
   } catch {
-    console.warn('Failed to load messages from localStorage');
+    console.warn('Failed to load messages from storage');
     return {};
   }
 }
 
 function saveAllMessages(messages: StoredMessages): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+    persistentStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
   } catch (e) {
-    console.error('Failed to save messages to localStorage', e);
+    console.error('Failed to save messages to storage', e);
   }
 }
 
 function loadPcLibrary(): PcLibraryMessages {
   try {
-    const stored = localStorage.getItem(PC_LIBRARY_KEY);
+    const stored = persistentStorage.getItem(PC_LIBRARY_KEY);
     return stored ? JSON.parse(stored) : {};
   } catch {
     return {};
@@ -75,15 +62,15 @@ function loadPcLibrary(): PcLibraryMessages {
 
 function savePcLibrary(library: PcLibraryMessages): void {
   try {
-    localStorage.setItem(PC_LIBRARY_KEY, JSON.stringify(library));
+    persistentStorage.setItem(PC_LIBRARY_KEY, JSON.stringify(library));
   } catch (e) {
-    console.error('Failed to save PC library to localStorage', e);
+    console.error('Failed to save PC library to storage', e);
   }
 }
 
 function loadSwapSlot(printerId: number): string | null {
   try {
-    const stored = localStorage.getItem(SWAP_SLOT_KEY);
+    const stored = persistentStorage.getItem(SWAP_SLOT_KEY);
     if (!stored) return null;
     const map: Record<string, string> = JSON.parse(stored);
     return map[String(printerId)] ?? null;
@@ -94,14 +81,14 @@ function loadSwapSlot(printerId: number): string | null {
 
 function saveSwapSlot(printerId: number, messageName: string | null): void {
   try {
-    const stored = localStorage.getItem(SWAP_SLOT_KEY);
+    const stored = persistentStorage.getItem(SWAP_SLOT_KEY);
     const map: Record<string, string> = stored ? JSON.parse(stored) : {};
     if (messageName) {
       map[String(printerId)] = messageName;
     } else {
       delete map[String(printerId)];
     }
-    localStorage.setItem(SWAP_SLOT_KEY, JSON.stringify(map));
+    persistentStorage.setItem(SWAP_SLOT_KEY, JSON.stringify(map));
   } catch {}
 }
 
@@ -8,6 +8,7 @@ import { parseGmResponse, parseLfResponse, buildMessageDetails } from '@/lib/mes
 import type { MessageDetails } from '@/components/screens/EditMessageScreen';
 import { getProtocolFieldInfo } from '@/lib/autoCodeProtocol';
 import { generateDataMatrixCommands, isDataMatrixField, extractDataMatrixData, generateDataMatrixBitmap } from '@/lib/dataMatrixGenerator';
+import { graphicNameFromField } from '@/lib/graphicImporter';
 import { twinDispatcher } from '@/twin-code/twinDispatcher';
 import { parsePumpHours, parsePowerHours } from '@/lib/filterTracker';
 import { useServiceStatusPolling } from '@/hooks/useServiceStatusPolling';
@@ -15,11 +16,17 @@ import { useSerializedPolling, PollingCommand } from '@/hooks/useSerializedPolli
 import { toast } from 'sonner';
 import { printerEmulator } from '@/lib/printerEmulator';
 import { multiPrinterEmulator } from '@/lib/multiPrinterEmulator';
-import { printerTransport, isRelayMode } from '@/lib/printerTransport';
+import { printerTransport, isRelayMode, getRelayConfig } from '@/lib/printerTransport';
+import { relayEvents, mirrorRelayCommandLog, type RelayAvailabilityEvent } from '@/lib/relayEvents';
 import { runFleetWriteExclusive, runPrinterWriteExclusive } from '@/lib/printerWriteQueue';
 import { setPollingPaused, waitForPollingIdle } from '@/lib/pollingPause';
 import { beginSaveBusy, waitForSaveIdle } from '@/lib/saveBusy';
 import type { PrinterFault } from '@/components/alerts/FaultAlertDialog';
+import { downtimeEngine } from '@/lib/downtimeEngine';
+import { runTracker } from '@/lib/runTracker';
+import { spcStore } from '@/lib/spcStore';
+import { faultPredictor } from '@/lib/faultPredictor';
+import { faultHistory } from '@/lib/faultHistory';
 
 /**
  * Parse printer ^SD date/time response into a local Date.
@@ -146,6 +153,9 @@ const SAVE_ACK_MAX_WAIT_MS = 30000;
 const SAVE_NM_IDLE_AFTER_DATA_MS = 1500;
 const SAVE_PENDING_ACK_EXTRA_SETTLE_MS = 3000;
 const SAVE_RECOVERY_QUIET_MS = 10000;
+// Relay push freshness: the PC polls ^SU/^LE every 3s and pings every 8s.
+const RELAY_PUSH_STATUS_MAX_AGE_MS = 8000;
+const RELAY_PUSH_AVAILABILITY_MAX_AGE_MS = 20000;
 
 const getNmDigestPauseMs = (fieldCount: number) => {
   return Math.min(3000, 300 + fieldCount * 60);
@@ -326,6 +336,32 @@ export function usePrinterConnection() {
     connectedPrinterIdRef.current = connectionState.connectedPrinter?.id ?? null;
   }, [connectionState.connectedPrinter?.id]);
 
+  // Feed the connected printer's polled ^SU / ^LE state to the downtime engine
+  // (other printers are observed from availability pings below).
+  const observedStatus = connectionState.isConnected ? connectionState.status : null;
+  useEffect(() => {
+    const printerId = connectionState.connectedPrinter?.id;
+    if (printerId == null || !observedStatus) return;
+    downtimeEngine.observe(printerId, {
+      online: true,
+      jetRunning: observedStatus.jetRunning,
+      hvOn: observedStatus.isRunning,
+      inkEmpty: observedStatus.inkLevel === 'EMPTY',
+      makeupEmpty: observedStatus.makeupLevel === 'EMPTY',
+    });
+    // Every poll replaces status, which is also what promotes a stop past the micro-stop threshold
+  }, [connectionState.connectedPrinter?.id, observedStatus]);
+
+  // Record the connected printer's ^SU / ^TP metrics for SPC control charts and fault trends
+  const observedMetrics = connectionState.isConnected ? connectionState.metrics : null;
+  const observedJetRunning = observedStatus?.jetRunning ?? false;
+  useEffect(() => {
+    const printerId = connectionState.connectedPrinter?.id;
+    if (printerId == null || !observedMetrics) return;
+    spcStore.record(printerId, observedMetrics, observedJetRunning);
+    faultPredictor.observeMetrics(printerId, observedMetrics, observedJetRunning);
+  }, [connectionState.connectedPrinter?.id, observedMetrics, observedJetRunning]);
+
   // Check printer availability - uses Electron TCP if available, otherwise cloud function
   const isCheckingRef = useRef(false);
   const checkPrinterStatus = useCallback(async () => {
@@ -350,6 +386,7 @@ export function usePrinterConnection() {
             // Simulated offline: leave currentMessage / levels UNTOUCHED so
             // any last-known value stays stale (rendered as LAST: in the UI)
             // rather than mirroring what the still-running emulator thinks.
+            downtimeEngine.observe(p.id, { online: false });
             updatePrinterStatus(p.id, {
               isAvailable: false,
               status: 'offline',
@@ -358,6 +395,15 @@ export function usePrinterConnection() {
             return;
           }
 
+          // The connected emulated printer is observed from its ^SU state instead
+          if (p.id !== connectedPrinterIdRef.current) {
+            downtimeEngine.observe(p.id, {
+              online: true,
+              jetRunning: state?.jetRunning,
+              inkEmpty: state?.inkLevel === 'EMPTY',
+              makeupEmpty: state?.makeupLevel === 'EMPTY',
+            });
+          }
           updatePrinterStatus(p.id, {
             isAvailable: true,
             status: sim.status,
@@ -403,6 +449,8 @@ export function usePrinterConnection() {
           id: p.id,
           ipAddress: p.ipAddress,
           port: p.port,
+          serialPath: p.serialPath ?? undefined,
+          baudRate: p.baudRate,
         }));
 
         if (printerData.length === 0) return;
@@ -416,7 +464,17 @@ export function usePrinterConnection() {
         // main persistent connection.
         results = await window.electronAPI.printer.checkStatus(printerData);
       } else if (isRelayMode()) {
-        results = await printerTransport.checkStatus(printerData);
+        // Prefer the ping results the PC pushes over /relay/events; only ask
+        // the relay about printers it hasn't reported on recently.
+        const pushed = relayEvents.isFresh('availability', RELAY_PUSH_AVAILABILITY_MAX_AGE_MS)
+          ? pushedAvailabilityRef.current
+          : null;
+        const missing = printerData.filter((p) => !pushed?.has(p.id));
+        const fetched = missing.length > 0 ? await printerTransport.checkStatus(missing) : [];
+        results = [
+          ...printerData.filter((p) => pushed?.has(p.id)).map((p) => pushed!.get(p.id)!),
+          ...(fetched || []),
+        ];
       } else {
         console.debug('[availability] No local transport available, skipping cloud poll');
         return;
@@ -431,6 +489,7 @@ export function usePrinterConnection() {
           const OFFLINE_THRESHOLD = 3;
           if (status.isAvailable) {
             offlineCountsRef.current[status.id] = 0;
+            downtimeEngine.observe(status.id, { online: true });
             // For ping results, just mark available — real status comes from ^SU polling
             const existingPrinter = printersRef.current.find(p => p.id === status.id);
             updatePrinterStatus(status.id, {
@@ -501,6 +560,7 @@ export function usePrinterConnection() {
                 status: 'offline',
                 hasActiveErrors: false,
               });
+              downtimeEngine.observe(status.id, { online: false });
               if (isConnectedPrinter) {
                 console.log('[availability] Connected printer went offline, auto-disconnecting');
                 disconnectRef.current();
@@ -522,6 +582,15 @@ export function usePrinterConnection() {
     }
   }, [availabilityPollingEnabled, updatePrinterStatus]);
 
+  // Relay mode: latest per-printer ping results pushed by the PC.
+  const pushedAvailabilityRef = useRef(new Map<number, RelayAvailabilityEvent['printers'][number]>());
+  useEffect(() => {
+    if (isElectron) return;
+    return relayEvents.on('availability', ({ printers: pushed }) => {
+      pushed.forEach((p) => pushedAvailabilityRef.current.set(p.id, p));
+    });
+  }, []);
+
   // Poll printer availability (ICMP ping only) every 8 seconds.
   // Slower than before because we're only checking reachability now —
   // no ^SU queries, so no risk of stealing the printer's Telnet session.
@@ -781,6 +850,7 @@ export function usePrinterConnection() {
       const printerId = connectedPrinterIdRef.current;
       if (printerId != null) {
         updatePrinter(printerId, { printCount: parts[1] });
+        runTracker.observeCounters(printerId, parts[0], parts[1]);
       }
     }
   }, []);
@@ -865,6 +935,16 @@ export function usePrinterConnection() {
 
     // Expose all parsed faults for the FaultAlertDialog
     setActiveFaults(parsed.errors);
+    if (connectedPrinterIdRef.current != null) {
+      faultHistory.observe(connectedPrinterIdRef.current, parsed.errors);
+      faultPredictor.observeFaults(connectedPrinterIdRef.current, parsed.errors);
+      // Notification rules and escalation run in Electron main
+      const printer = printersRef.current.find(p => p.id === connectedPrinterIdRef.current);
+      window.electronAPI?.faults?.report(
+        { id: connectedPrinterIdRef.current, name: printer?.name ?? `Printer ${connectedPrinterIdRef.current}`, lineId: printer?.lineId },
+        parsed.errors,
+      ).catch(() => {});
+    }
 
     // Derive fluid levels from error messages
     const hasInkLow = parsed.errors.some(e => /ink/i.test(e.message) && /low/i.test(e.message));
@@ -1034,10 +1114,31 @@ export function usePrinterConnection() {
   }, []);
 
 
+  // Relay mode: the PC pushes every ^SU/^LE response it sees for our printer
+  // (its own polling, other companions). While those are fresh we skip our
+  // own reads of them — fewer writes into the printer's single Telnet session.
+  const pushedStatusAtRef = useRef<Record<string, number>>({});
+  const isStatusPushFresh = useCallback((command: '^SU' | '^LE') => {
+    const at = pushedStatusAtRef.current[command];
+    return isRelayMode() && relayEvents.getState().connected && at != null && Date.now() - at < RELAY_PUSH_STATUS_MAX_AGE_MS;
+  }, []);
+  useEffect(() => {
+    if (isElectron || !connectedPrinterId) return;
+    pushedStatusAtRef.current = {};
+    const ownDevice = getRelayConfig()?.deviceId ?? null;
+    return relayEvents.on('status', (ev) => {
+      if (ev.printerId !== connectedPrinterId) return;
+      if (ev.via === 'relay' && ev.deviceId === ownDevice) return; // our own read, already handled
+      pushedStatusAtRef.current[ev.command] = Date.now();
+      if (ev.command === '^SU') handleServiceResponse(ev.response);
+      else handleErrorListResponse(ev.response);
+    });
+  }, [connectedPrinterId, handleServiceResponse, handleErrorListResponse]);
+
   // Build serialized command list: ^SU, ^LE, ^SM, ^LM, ^CN, ^TP, ^TM, ^SD, ^VV sent sequentially to prevent TCP collisions
   const pollingCommands = useMemo<PollingCommand[]>(() => [
-    { command: '^SU', onResponse: handleServiceResponse },
-    { command: '^LE', onResponse: handleErrorListResponse },
+    { command: '^SU', onResponse: handleServiceResponse, skip: () => isStatusPushFresh('^SU') },
+    { command: '^LE', onResponse: handleErrorListResponse, skip: () => isStatusPushFresh('^LE') },
     { command: '^SM', onResponse: handleSelectedMessageResponse },
     { command: '^LM', onResponse: handleMessageListResponse },
     { command: '^CN', onResponse: handleCounterResponse },
@@ -1045,7 +1146,7 @@ export function usePrinterConnection() {
     { command: '^TM', onResponse: handleRuntimeResponse },
     { command: '^SD', onResponse: handleDateTimeResponse },
     { command: '^VV', onResponse: handleVersionResponse },
-  ], [handleServiceResponse, handleErrorListResponse, handleSelectedMessageResponse, handleMessageListResponse, handleCounterResponse, handleTemperatureResponse, handleRuntimeResponse, handleDateTimeResponse, handleVersionResponse]);
+  ], [isStatusPushFresh, handleServiceResponse, handleErrorListResponse, handleSelectedMessageResponse, handleMessageListResponse, handleCounterResponse, handleTemperatureResponse, handleRuntimeResponse, handleDateTimeResponse, handleVersionResponse]);
 
   // Track whether the TCP socket is confirmed open — gates polling to avoid
   // sending commands before the socket is ready (prevents 8s timeout storms).
@@ -1232,6 +1333,20 @@ export function usePrinterConnection() {
     });
   }, []);
 
+  // Relay mode: mirror the PC's command log into ours, and treat a socket
+  // drop on the PC like Electron's printer:connection-lost.
+  useEffect(() => {
+    if (isElectron) return;
+    const offLog = mirrorRelayCommandLog();
+    const offLost = relayEvents.on('connection-lost', ({ printerId: lostId }) => {
+      if (lostId !== connectedPrinterIdRef.current) return;
+      console.log('[usePrinterConnection] relay connection-lost — clearing socketReady');
+      setSocketReady(false);
+      setTimeout(() => setRetryTick(t => t + 1), 15000);
+    });
+    return () => { offLog(); offLost(); };
+  }, []);
+
   // SINGLE unified socket lifecycle + reconnect effect.
   // - First attempt: fires immediately (no delay).
   // - Reconnect after drop: triggered by retryTick (set 15s after connection-lost event).
@@ -2069,6 +2184,7 @@ export function usePrinterConnection() {
           currentMessage: state.currentMessage,
           lastSelectionResult: { messageName: message.name, success: true, at: Date.now() },
         });
+        runTracker.messageSelected(printer.id, printer.name, message.name);
         return true;
       }
       updatePrinter(printer.id, {
@@ -2109,6 +2225,7 @@ export function usePrinterConnection() {
           currentMessage: message.name,
           lastSelectionResult: { messageName: message.name, success: true, at: Date.now() },
         });
+        runTracker.messageSelected(printer.id, printer.name, message.name);
         return true;
       } catch (e) {
         console.error('[selectMessage] Failed to send ^SM command:', e);
@@ -2441,7 +2558,7 @@ export function usePrinterConnection() {
       }
       case 'logo':
         // ^AL n; x; y; logoname
-        return `^AL${fieldNum};${field.x};${field.y};${field.data}`;
+        return `^AL${fieldNum};${field.x};${field.y};${graphicNameFromField(field.data)}`;
       default:
         return `^AT${fieldNum};${field.x};${field.y};${fontCode};${field.data}`;
     }
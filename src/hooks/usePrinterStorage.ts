@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Printer } from '@/types/printer';
 import { multiPrinterEmulator } from '@/lib/multiPrinterEmulator';
+import { registerPrinterEndpoints } from '@/lib/printerTransport';
+import { serialEmulatorBridge } from '@/lib/serialEmulatorBridge';
+import { persistentStorage } from '@/lib/persistence';
 
 const STORAGE_KEY = 'codesync-printers';
 const EMULATED_PRINTER_IPS = Array.from({ length: 13 }, (_, i) => `192.168.1.${55 + i}`);
@@ -25,7 +28,7 @@ const getDefaultPrinters = (): Printer[] => [
 export function usePrinterStorage() {
   const [printers, setPrinters] = useState<Printer[]>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
+      const stored = persistentStorage.getItem(STORAGE_KEY);
       if (stored) {
         const parsed: Printer[] = JSON.parse(stored);
         if (multiPrinterEmulator.enabled) return parsed;
@@ -51,6 +54,8 @@ export function usePrinterStorage() {
   // seeds or retains extra demo printers that are absent from this list.
   useEffect(() => {
     multiPrinterEmulator.syncConfiguredPrinters(printers);
+    registerPrinterEndpoints(printers);
+    serialEmulatorBridge.publish();
   }, [printers]);
 
   // Subscribe to emulator state changes to update simulated printer status
@@ -167,10 +172,10 @@ export function usePrinterStorage() {
     };
   }, []);
 
-  // Persist to localStorage whenever printers change
+  // Persist whenever printers change
   useEffect(() => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(printers));
+      persistentStorage.setItem(STORAGE_KEY, JSON.stringify(printers));
     } catch (e) {
       console.error('Failed to save printers to storage:', e);
     }
@@ -184,6 +189,7 @@ export function usePrinterStorage() {
         name: printer.name,
         ipAddress: printer.ipAddress,
         port: printer.port,
+        ...(printer.serialPath ? { serialPath: printer.serialPath, baudRate: printer.baudRate } : {}),
         isConnected: false,
         isAvailable: false,
         status: 'offline',
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { ProductionRun, ProductionSnapshot } from '@/types/production';
+import type { DowntimeEvent, ProductionRun, ProductionSnapshot, RejectSource } from '@/types/production';
 
 const DB_NAME = 'codesync-production';
 const DB_VERSION = 1;
@@ -105,6 +105,16 @@ export function useProductionStorage() {
     });
   }, []);
 
+  /** Set one reject source's count, merged against the latest stored run. */
+  const setRejects = useCallback(async (id: string, source: RejectSource, count: number) => {
+    setRuns(prev => {
+      const updated = prev.map(r => r.id === id ? { ...r, rejects: { ...r.rejects, [source]: count } } : r);
+      const run = updated.find(r => r.id === id);
+      if (run) putInStore(RUNS_STORE, run);
+      return updated;
+    });
+  }, []);
+
   const deleteRun = useCallback(async (id: string) => {
     await deleteFromStore(RUNS_STORE, id);
     setRuns(prev => prev.filter(r => r.id !== id));
@@ -133,11 +143,12 @@ export function useProductionStorage() {
     setRuns(prev => {
       const updated = prev.map(r => {
         if (r.id !== runId) return r;
-        const newEvent = {
+        const newEvent: DowntimeEvent = {
           id: crypto.randomUUID(),
           startTime: Date.now(),
           endTime: null,
           reason,
+          source: 'manual',
         };
         const updatedRun = { ...r, downtimeEvents: [...r.downtimeEvents, newEvent] };
         putInStore(RUNS_STORE, updatedRun);
@@ -147,6 +158,35 @@ export function useProductionStorage() {
     });
   }, []);
 
+  /** Operator override of a downtime reason (auto events keep their detectedReason). */
+  const setDowntimeReason = useCallback(async (runId: string, eventId: string, reason: string) => {
+    setRuns(prev => {
+      const updated = prev.map(r => {
+        if (r.id !== runId) return r;
+        const updatedRun = {
+          ...r,
+          downtimeEvents: r.downtimeEvents.map(e => e.id === eventId ? { ...e, reason } : e),
+        };
+        putInStore(RUNS_STORE, updatedRun);
+        return updatedRun;
+      });
+      return updated;
+    });
+  }, []);
+
+  /** Apply a pure update to the latest stored copy of a run. */
+  const modifyRun = useCallback(async (id: string, fn: (run: ProductionRun) => ProductionRun) => {
+    setRuns(prev => {
+      const updated = prev.map(r => {
+        if (r.id !== id) return r;
+        const next = fn(r);
+        if (next !== r) putInStore(RUNS_STORE, next);
+        return next;
+      });
+      return updated;
+    });
+  }, []);
+
   const endDowntimeEvent = useCallback(async (runId: string, eventId: string) => {
     setRuns(prev => {
       const updated = prev.map(r => {
@@ -169,10 +209,13 @@ export function useProductionStorage() {
     snapshots,
     addRun,
     updateRun,
+    setRejects,
     deleteRun,
     addSnapshot,
     addDowntimeEvent,
     endDowntimeEvent,
+    setDowntimeReason,
+    modifyRun,
     clearAll,
   };
 }
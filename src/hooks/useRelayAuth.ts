@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RelayAuthState, RelayInfo } from '@/types/electron';
+
+/**
+ * PC-side view of the relay's paired devices and auth/TLS settings
+ * (electron/relayAuth.cjs). Only meaningful inside Electron — `supported`
+ * is false in the browser/PWA.
+ */
+export function useRelayAuth(active = true) {
+  const api = typeof window !== 'undefined' ? window.electronAPI?.relay : undefined;
+  const [auth, setAuth] = useState<RelayAuthState | null>(null);
+  const [info, setInfo] = useState<RelayInfo | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!api) return;
+    const [a, i] = await Promise.all([api.getAuth(), api.getInfo()]);
+    setAuth(a);
+    setInfo(i);
+  }, [api]);
+
+  useEffect(() => {
+    if (!api || !active) return;
+    refresh();
+    const off = api.onDevicesChanged((devices) => {
+      // A successful pairing consumes the code.
+      setAuth((prev) => (prev ? { ...prev, devices, pairing: null } : prev));
+    });
+    return () => { off?.(); };
+  }, [api, active, refresh]);
+
+  const createPairingCode = useCallback(async () => {
+    if (!api) return null;
+    const pairing = await api.createPairingCode();
+    setAuth((prev) => (prev ? { ...prev, pairing } : prev));
+    return pairing;
+  }, [api]);
+
+  const revokeDevice = useCallback(async (deviceId: string) => {
+    if (!api) return;
+    const res = await api.revokeDevice(deviceId);
+    setAuth((prev) => (prev ? { ...prev, devices: res.devices } : prev));
+  }, [api]);
+
+  const setAllowedCommands = useCallback(async (deviceId: string, commands: string[]) => {
+    if (!api) return;
+    const res = await api.setDeviceAllowlist(deviceId, commands);
+    setAuth((prev) => (prev ? { ...prev, devices: res.devices } : prev));
+  }, [api]);
+
+  const updateSettings = useCallback(async (patch: Partial<{ requireAuth: boolean; tls: boolean }>) => {
+    if (!api) return;
+    const settings = await api.setSettings(patch);
+    setAuth((prev) => (prev ? { ...prev, ...settings } : prev));
+    // TLS changes restart the server — give it a moment before re-reading.
+    setTimeout(() => { api.getInfo().then(setInfo).catch(() => {}); }, 500);
+  }, [api]);
+
+  return {
+    supported: !!api,
+    auth,
+    info,
+    refresh,
+    createPairingCode,
+    revokeDevice,
+    setAllowedCommands,
+    updateSettings,
+  };
+}
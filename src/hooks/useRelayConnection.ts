@@ -1,18 +1,21 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useEffect } from 'react';
+import {
+  relayRequest,
+  testRelayConnection,
+  type RelayConfig,
+} from '@/lib/printerTransport';
 
 /**
  * Provides a PrinterAPI-compatible interface that communicates with printers
  * through a PC running the Electron app's relay server.
  * 
  * Mobile PWA → HTTP fetch → PC Electron relay (port 8766) → TCP → Printer
+ *
+ * Requests are signed with the paired device credentials in RelayConfig
+ * (see relayRequest in printerTransport).
  */
 
-export interface RelayConfig {
-  /** The PC's local IP address, e.g. "192.168.1.50" */
-  pcIp: string;
-  /** Relay port (default 8766) */
-  port?: number;
-}
+export type { RelayConfig };
 
 const RELAY_STORAGE_KEY = 'relay-config';
 
@@ -29,10 +32,6 @@ export function useRelayConnection() {
   const [isRelayConnected, setIsRelayConnected] = useState(false);
   const [relayError, setRelayError] = useState<string | null>(null);
 
-  const baseUrl = relayConfig
-    ? `http://${relayConfig.pcIp}:${relayConfig.port || 8766}`
-    : null;
-
   const setRelayConfig = useCallback((config: RelayConfig | null) => {
     setRelayConfigState(config);
     if (config) {
@@ -49,35 +48,16 @@ export function useRelayConnection() {
     const target = config || relayConfig;
     if (!target) return false;
     
-    const url = `http://${target.pcIp}:${target.port || 8766}/relay/info`;
-    try {
-      const res = await fetch(url, { signal: AbortSignal.timeout(3000) });
-      if (!res.ok) return false;
-      const data = await res.json();
-      if (data.relay) {
-        setIsRelayConnected(true);
-        setRelayError(null);
-        return true;
-      }
-      return false;
-    } catch (err: any) {
-      setRelayError(err.message || 'Cannot reach relay');
-      setIsRelayConnected(false);
-      return false;
-    }
+    const res = await testRelayConnection(target);
+    setIsRelayConnected(res.ok);
+    setRelayError(res.ok ? null : res.error || 'Cannot reach relay');
+    return res.ok;
   }, [relayConfig]);
 
   // Relay-based printer API
-  const relayFetch = useCallback(async (endpoint: string, body: any) => {
-    if (!baseUrl) throw new Error('Relay not configured');
-    const res = await fetch(`${baseUrl}/relay/${endpoint}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-      signal: AbortSignal.timeout(15000),
-    });
-    return res.json();
-  }, [baseUrl]);
+  const relayFetch = useCallback((endpoint: string, body: any) => {
+    return relayRequest(endpoint, body, 15000, relayConfig);
+  }, [relayConfig]);
 
   const checkStatus = useCallback(async (printers: { id: number; ipAddress: string; port: number }[]) => {
     try {
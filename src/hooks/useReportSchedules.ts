@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { renderScheduledReport } from '@/lib/scheduledReports';
+import type { ProductionRun } from '@/types/production';
+import type { Printer } from '@/types/printer';
+import type { ReportSchedule, ReportRunEntry } from '@/types/electron';
+
+/**
+ * Schedules and run history of the report scheduler in Electron main
+ * (electron/reportScheduler.cjs). `supported` is false in the browser/PWA.
+ */
+export function useReportSchedules(active = true) {
+  const api = typeof window !== 'undefined' ? window.electronAPI?.reports : undefined;
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [history, setHistory] = useState<ReportRunEntry[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!api) return;
+    const [s, h] = await Promise.all([api.getSchedules(), api.getHistory()]);
+    setSchedules(s);
+    setHistory(h);
+  }, [api]);
+
+  useEffect(() => {
+    if (!api || !active) return;
+    refresh();
+    const offSchedules = api.onSchedules(setSchedules);
+    const offHistory = api.onHistory((entry) => setHistory(prev => [entry, ...prev.filter(e => e.id !== entry.id)]));
+    return () => { offSchedules?.(); offHistory?.(); };
+  }, [api, active, refresh]);
+
+  const saveSchedule = useCallback(async (schedule: Partial<ReportSchedule>) => {
+    if (!api) return { success: false, error: 'Desktop app required' };
+    return api.saveSchedule(schedule);
+  }, [api]);
+
+  const deleteSchedule = useCallback(async (id: string) => {
+    if (!api) return;
+    await api.deleteSchedule(id);
+  }, [api]);
+
+  const runNow = useCallback(async (id: string) => {
+    if (!api) return { success: false, error: 'Desktop app required' };
+    return api.runNow(id);
+  }, [api]);
+
+  return { supported: !!api, schedules, history, refresh, saveSchedule, deleteSchedule, runNow };
+}
+
+/**
+ * Answers main's render requests with the current runs. Mounted once in
+ * Index so scheduled reports go out whatever screen is open.
+ */
+export function useScheduledReportRenderer(runs: ProductionRun[], printers: Printer[]) {
+  const dataRef = useRef({ runs, printers });
+  dataRef.current = { runs, printers };
+
+  useEffect(() => {
+    const api = window.electronAPI?.reports;
+    if (!api) return;
+    return api.onRenderRequest(async (request) => {
+      try {
+        const { runs, printers } = dataRef.current;
+        await api.deliver(request.requestId, await renderScheduledReport(request, runs, printers));
+      } catch (err) {
+        await api.deliver(request.requestId, { error: err instanceof Error ? err.message : String(err) });
+      }
+    });
+  }, []);
+}
@@ -1,9 +1,12 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
-import type { CustomReportTemplate } from '@/types/reportTemplates';
+import type { CustomReportTemplate, ShiftCalendar } from '@/types/reportTemplates';
 
 const DB_NAME = 'codesync-report-templates';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE = 'templates';
+/** Single-record store holding the shift calendar (key CALENDAR_KEY). */
+const CALENDAR_STORE = 'calendar';
+const CALENDAR_KEY = 'calendar';
 
 function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -14,6 +17,9 @@ function openDB(): Promise<IDBDatabase> {
         const store = db.createObjectStore(STORE, { keyPath: 'id' });
         store.createIndex('updatedAt', 'updatedAt', { unique: false });
       }
+      if (!db.objectStoreNames.contains(CALENDAR_STORE)) {
+        db.createObjectStore(CALENDAR_STORE);
+      }
     };
     req.onsuccess = () => resolve(req.result);
     req.onerror = () => reject(req.error);
@@ -30,6 +36,32 @@ async function getAll(): Promise<CustomReportTemplate[]> {
   });
 }
 
+/** Read one saved template outside React (scheduled report rendering). */
+export async function loadReportTemplate(id: string): Promise<CustomReportTemplate | null> {
+  const all = await getAll();
+  return all.find(t => t.id === id) ?? null;
+}
+
+export async function loadShiftCalendarRecord(): Promise<ShiftCalendar | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CALENDAR_STORE, 'readonly');
+    const req = tx.objectStore(CALENDAR_STORE).get(CALENDAR_KEY);
+    req.onsuccess = () => resolve(req.result ?? null);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveShiftCalendarRecord(calendar: ShiftCalendar): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CALENDAR_STORE, 'readwrite');
+    tx.objectStore(CALENDAR_STORE).put(calendar, CALENDAR_KEY);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
 async function put(template: CustomReportTemplate): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
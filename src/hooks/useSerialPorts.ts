@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { SerialPortInfo } from '@/types/electron';
+
+/** Standard rates offered in the pickers; BestCode RS-232 ships at 9600 8N1. */
+export const SERIAL_BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200] as const;
+export const DEFAULT_SERIAL_BAUD_RATE = 9600;
+
+/**
+ * Serial ports visible to Electron main (electron/serialTransport.cjs),
+ * including the emulator's pseudo-serial endpoints. `supported` is false in
+ * the browser/PWA — a serial path can still be typed, and a relay PC will
+ * resolve it on its side.
+ */
+export function useSerialPorts(active = true) {
+  const api = typeof window !== 'undefined' ? window.electronAPI?.serial : undefined;
+  const [ports, setPorts] = useState<SerialPortInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!api) return;
+    setLoading(true);
+    try {
+      const res = await api.listPorts();
+      setPorts(res.ports);
+      setError(res.error);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    if (active) refresh();
+  }, [active, refresh]);
+
+  return { supported: !!api, ports, error, loading, refresh };
+}
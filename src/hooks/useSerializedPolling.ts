@@ -14,6 +14,8 @@ import { runPrinterWriteExclusive } from "@/lib/printerWriteQueue";
 export interface PollingCommand {
   command: string;
   onResponse: (response: string) => void;
+  /** Skip this command for the current cycle (e.g. data already pushed over the relay). */
+  skip?: () => boolean;
 }
 
 export function useSerializedPolling(options: {
@@ -113,6 +115,10 @@ export function useSerializedPolling(options: {
             // Abandon the rest of this cycle if a save has started —
             // save latency matters more than one poll tick.
             if (isSaveBusy()) break;
+            if (cmd.skip?.()) {
+              successCount++;
+              continue;
+            }
 
             try {
               let result: { success: boolean; response?: string; error?: string };
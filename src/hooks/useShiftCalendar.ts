@@ -0,0 +1,10 @@
+import { useEffect, useState } from 'react';
+import { shiftCalendarStore, type ShiftCalendarState } from '@/lib/shiftCalendarStore';
+import type { ShiftCalendar } from '@/types/reportTemplates';
+
+/** The shift calendar (src/lib/shiftCalendar.ts) and a save function for the editor. */
+export function useShiftCalendar(): ShiftCalendarState & { saveCalendar: (calendar: ShiftCalendar) => Promise<void> } {
+  const [state, setState] = useState(shiftCalendarStore.getState());
+  useEffect(() => shiftCalendarStore.subscribe(setState), []);
+  return { ...state, saveCalendar: (calendar) => shiftCalendarStore.save(calendar) };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { spcStore, loadSamples, type SpcState } from '@/lib/spcStore';
+import { SPC_METRICS, WESTERN_ELECTRIC_RULES, type SpcSample } from '@/lib/spc';
+import type { Printer } from '@/types/printer';
+
+export function useSpcState(): SpcState {
+  const [state, setState] = useState(spcStore.getState());
+  useEffect(() => spcStore.subscribe(setState), []);
+  return state;
+}
+
+/** One printer's recorded samples for the last `hours`, reloaded every minute while mounted. */
+export function useSpcSamples(printerId: number | null | undefined, hours: number) {
+  const [samples, setSamples] = useState<SpcSample[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (printerId == null || typeof indexedDB === 'undefined') {
+      setSamples([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const now = Date.now();
+      setSamples(await loadSamples(printerId, now - hours * 3_600_000, now));
+    } catch (e) {
+      console.error('[useSpcSamples] load failed', e);
+    } finally {
+      setLoading(false);
+    }
+  }, [printerId, hours]);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, 60_000);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  return { samples, loading, refresh };
+}
+
+/**
+ * Toasts each new Western Electric violation so drift is seen outside the
+ * Service dialog. Mounted once in Index.
+ */
+export function useSpcWarnings(printers: Printer[]) {
+  const printersRef = useRef(printers);
+  printersRef.current = printers;
+
+  useEffect(() => spcStore.onAlert((alert) => {
+    const printer = printersRef.current.find((p) => p.id === alert.printerId);
+    const metric = SPC_METRICS.find((m) => m.key === alert.metric);
+    toast.warning(`${metric?.label ?? alert.metric} drifting on ${printer?.name ?? `printer ${alert.printerId}`}`, {
+      description: `${WESTERN_ELECTRIC_RULES[alert.rule]} (subgroup mean ${alert.mean.toFixed(2)} ${metric?.unit ?? ''})`,
+    });
+  }), []);
+}
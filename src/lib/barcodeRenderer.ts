@@ -3,7 +3,7 @@
 // QR/DataMatrix renders to silently throw and fall back to the placeholder.
 // @ts-ignore - bwip-js ships its own types but resolution differs across bundlers
 import bwipjs from 'bwip-js';
-import { renderText, getFontInfo } from '@/lib/dotMatrixFonts';
+import { renderText, getFontInfo, getTextWidthDots } from '@/lib/dotMatrixFonts';
 
 // Map our encoding names to bwip-js encoder names
 const ENCODING_MAP: Record<string, string> = {
@@ -336,7 +336,7 @@ export async function renderBarcodeToCanvas(
       }
       
       // Calculate text width in pixels
-      const textWidthPx = displayText.length * (fontInfo.charWidth + 1) * DOT_PX;
+      const textWidthPx = getTextWidthDots(displayText, hrFont) * DOT_PX;
       
       const finalCanvas = document.createElement('canvas');
       const finalWidth = Math.max(tempCanvas.width, textWidthPx);
@@ -6,6 +6,8 @@
  * Predicts depletion dates and suggests reorder quantities.
  */
 
+import { persistentStorage } from '@/lib/persistence';
+
 const HISTORY_KEY = 'codesync-consumption-history';
 const FILTER_KEY = 'codesync-filter-config';
 
@@ -26,7 +28,7 @@ export interface ConsumptionEvent {
 
 function loadHistory(): ConsumptionEvent[] {
   try {
-    const raw = localStorage.getItem(HISTORY_KEY);
+    const raw = persistentStorage.getItem(HISTORY_KEY);
     return raw ? JSON.parse(raw) : [];
   } catch {
     return [];
@@ -39,7 +41,7 @@ function saveHistory(events: ConsumptionEvent[]) {
     const cutoff = new Date();
     cutoff.setMonth(cutoff.getMonth() - 12);
     const trimmed = events.filter(e => new Date(e.timestamp) >= cutoff);
-    localStorage.setItem(HISTORY_KEY, JSON.stringify(trimmed));
+    persistentStorage.setItem(HISTORY_KEY, JSON.stringify(trimmed));
   } catch (e) {
     console.error('[consumptionTracker] save failed:', e);
   }
@@ -222,5 +224,5 @@ export function getConsumptionHistory(): ConsumptionEvent[] {
 
 /** Clear all consumption history. */
 export function clearConsumptionHistory() {
-  localStorage.removeItem(HISTORY_KEY);
+  persistentStorage.removeItem(HISTORY_KEY);
 }
@@ -33,6 +33,35 @@ export interface DataMatrixBitmapResult {
 // Counter for unique graphic names within a session
 let dmGraphicCounter = 0;
 
+/**
+ * Encode a 1-bit bitmap in the printer's ^NG format: for each column
+ * (left→right), the vertical dots packed into bytes, MSB = topmost dot,
+ * as uppercase hex.
+ *
+ * @param isOn - Whether the dot at (col, row) is inked
+ */
+export function encodeColumnMajorHex(
+  width: number,
+  height: number,
+  isOn: (col: number, row: number) => boolean,
+): string {
+  const bytesPerColumn = Math.ceil(height / 8);
+  const hexBytes: string[] = [];
+
+  for (let col = 0; col < width; col++) {
+    for (let byteIdx = 0; byteIdx < bytesPerColumn; byteIdx++) {
+      let byte = 0;
+      for (let bit = 0; bit < 8; bit++) {
+        const row = byteIdx * 8 + bit;
+        if (row >= height) break;
+        if (isOn(col, row)) byte |= (0x80 >> bit); // MSB at top
+      }
+      hexBytes.push(byte.toString(16).padStart(2, '0').toUpperCase());
+    }
+  }
+  return hexBytes.join('');
+}
+
 /**
  * Generate a DataMatrix ECC200 barcode as a printer-compatible bitmap.
  * 
@@ -91,40 +120,18 @@ export async function generateDataMatrixBitmap(
     const bitmapWidth = srcWidth * dotsPerModule;
     const bitmapHeight = srcHeight * dotsPerModule;
 
-    // Convert to 1-bit column-major bitmap
-    // Format: for each column (left→right), encode vertical dots as bytes
-    // MSB = topmost dot in the byte group, working downward
-    const bytesPerColumn = Math.ceil(bitmapHeight / 8);
-    const hexBytes: string[] = [];
-
-    for (let col = 0; col < bitmapWidth; col++) {
-      for (let byteIdx = 0; byteIdx < bytesPerColumn; byteIdx++) {
-        let byte = 0;
-        for (let bit = 0; bit < 8; bit++) {
-          const dotRow = byteIdx * 8 + bit;
-          if (dotRow >= bitmapHeight) break;
-
-          // Map printer dot back to source pixel
-          const srcCol = Math.floor(col / dotsPerModule);
-          const srcRow = Math.floor(dotRow / dotsPerModule);
-
-          if (srcCol < srcWidth && srcRow < srcHeight) {
-            const pixelIdx = (srcRow * srcWidth + srcCol) * 4;
-            // Pixel is "on" (ink dot) if it's dark (R channel < 128)
-            const isOn = imgData.data[pixelIdx] < 128;
-            if (isOn) {
-              byte |= (0x80 >> bit); // MSB at top
-            }
-          }
-        }
-        hexBytes.push(byte.toString(16).padStart(2, '0').toUpperCase());
-      }
-    }
+    // Convert to 1-bit column-major bitmap. Each printer dot maps back to a
+    // source pixel; a pixel is "on" (ink dot) if it's dark (R channel < 128).
+    const hexData = encodeColumnMajorHex(bitmapWidth, bitmapHeight, (col, dotRow) => {
+      const srcCol = Math.floor(col / dotsPerModule);
+      const srcRow = Math.floor(dotRow / dotsPerModule);
+      if (srcCol >= srcWidth || srcRow >= srcHeight) return false;
+      return imgData.data[(srcRow * srcWidth + srcCol) * 4] < 128;
+    });
 
     // Generate unique graphic name
     dmGraphicCounter++;
     const graphicName = `_DM${dmGraphicCounter}`;
-    const hexData = hexBytes.join('');
 
     // Build the ^NG (New Graphic) upload command
     // Format: ^NG name;width;height;hex_bitmap_data
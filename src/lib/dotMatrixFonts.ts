@@ -4,6 +4,10 @@
  * Font files are stored in /public/fonts/ as .bin files from the printer.
  * Until we fully reverse-engineer the binary format, this provides
  * scaled bitmap rendering for each font height.
+ *
+ * Everything that places or measures text (canvas hit-testing, thumbnails,
+ * barcode human-readable lines) goes through getTextWidthDots /
+ * getCharOffsetDots so preview and width estimates agree with rendering.
  */
 
 export interface FontInfo {
@@ -120,12 +124,42 @@ export function getFontInfo(fontName: string): FontInfo {
   return PRINTER_FONTS[fontName] || PRINTER_FONTS['Standard16High'];
 }
 
+/**
+ * Advance of one character in dots, excluding the inter-character gap
+ */
+export function getCharAdvanceDots(_char: string, fontName: string): number {
+  return getFontInfo(fontName).charWidth;
+}
+
 /**
  * Calculate the width of text in dots for a given font
  */
-export function getTextWidthDots(text: string, fontName: string): number {
-  const font = getFontInfo(fontName);
-  return text.length * (font.charWidth + 1); // +1 for spacing
+export function getTextWidthDots(text: string, fontName: string, gap: number = 1): number {
+  let width = 0;
+  for (const char of text) width += getCharAdvanceDots(char, fontName) + gap;
+  return width;
+}
+
+/**
+ * X offset in dots of the character at `index` (where a cursor before it sits)
+ */
+export function getCharOffsetDots(text: string, index: number, fontName: string, gap: number = 1): number {
+  return getTextWidthDots(text.slice(0, index), fontName, gap);
+}
+
+/**
+ * Cursor index nearest to an x offset in dots from the start of the text
+ */
+export function getCharIndexAtDots(text: string, xDots: number, fontName: string, gap: number = 1): number {
+  let x = 0;
+  let index = 0;
+  for (const char of text) {
+    const w = getCharAdvanceDots(char, fontName) + gap;
+    if (xDots < x + w / 2) return index;
+    x += w;
+    index += char.length;
+  }
+  return text.length;
 }
 
 /**
@@ -168,8 +202,6 @@ export function renderCharBitmap(
 
   // Return the width consumed (for next character positioning)
   return font.charWidth * dotSize;
-  // Return the width consumed (for next character positioning)
-  return font.charWidth * dotSize;
 }
 
 /**
@@ -184,11 +216,9 @@ export function renderText(
   dotSize: number = 8,
   gap: number = 1
 ): void {
-  const font = getFontInfo(fontName);
   let currentX = x;
   
   for (const char of text) {
-    renderCharBitmap(ctx, char, currentX, y, fontName, dotSize);
-    currentX += (font.charWidth + gap) * dotSize;
+    currentX += renderCharBitmap(ctx, char, currentX, y, fontName, dotSize) + gap * dotSize;
   }
 }
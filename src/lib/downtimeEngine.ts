@@ -0,0 +1,222 @@
+/**
+ * Automatic downtime capture — turns the printer state the polling loops
+ * already see (^SU jet / HV, ^LE fluid-empty faults, availability pings)
+ * into stop periods per printer.
+ *
+ * - A stop starts the moment a cause appears and is only reported as
+ *   downtime once it has lasted `microStopSeconds`; shorter stops are
+ *   reported as micro-stops instead (they already show up as lost count).
+ * - The stop's cause follows the most severe condition while it lasts
+ *   (offline > ink empty > makeup empty > jet stopped > HV off).
+ * - This module knows nothing about production runs: useAutoDowntime
+ *   applies the transitions to the active runs of each printer, and the
+ *   pure helpers at the bottom do the DowntimeEvent bookkeeping.
+ */
+
+import type { DowntimeEvent, ProductionRun } from '@/types/production';
+import { persistentStorage } from '@/lib/persistence';
+
+const SETTINGS_KEY = 'codesync.downtime.v1';
+
+export type DowntimeCause = 'printer_offline' | 'ink_empty' | 'makeup_empty' | 'jet_stopped' | 'hv_disabled';
+
+/** Most severe first — the first one that applies names the stop. */
+export const DOWNTIME_CAUSES: DowntimeCause[] = ['printer_offline', 'ink_empty', 'makeup_empty', 'jet_stopped', 'hv_disabled'];
+
+export interface DowntimeSettings {
+  enabled: boolean;
+  /** Stops shorter than this are counted as micro-stops, not downtime. */
+  microStopSeconds: number;
+  causes: Record<DowntimeCause, boolean>;
+}
+
+const DEFAULT_SETTINGS: DowntimeSettings = {
+  enabled: true,
+  microStopSeconds: 30,
+  causes: { printer_offline: true, ink_empty: true, makeup_empty: true, jet_stopped: true, hv_disabled: true },
+};
+
+/** What one poll learned about a printer. Omitted fields are unknown and keep their last value. */
+export interface PrinterObservation {
+  online?: boolean;
+  jetRunning?: boolean;
+  hvOn?: boolean;
+  inkEmpty?: boolean;
+  makeupEmpty?: boolean;
+}
+
+export interface PrinterStop {
+  cause: DowntimeCause;
+  since: number;
+  /** True once the stop outlasted the micro-stop threshold. */
+  open: boolean;
+}
+
+export type DowntimeTransition =
+  | { type: 'open'; printerId: number; cause: DowntimeCause; startTime: number }
+  | { type: 'cause'; printerId: number; cause: DowntimeCause }
+  | { type: 'close'; printerId: number; endTime: number }
+  | { type: 'microStop'; printerId: number; cause: DowntimeCause; startTime: number; endTime: number };
+
+export interface DowntimeEngineState {
+  settings: DowntimeSettings;
+  stops: Record<number, PrinterStop>;
+}
+
+type Listener = (state: DowntimeEngineState) => void;
+type TransitionListener = (t: DowntimeTransition) => void;
+
+export function deriveCause(known: PrinterObservation, causes: DowntimeSettings['causes']): DowntimeCause | null {
+  const active: Record<DowntimeCause, boolean> = {
+    printer_offline: known.online === false,
+    ink_empty: known.online !== false && known.inkEmpty === true,
+    makeup_empty: known.online !== false && known.makeupEmpty === true,
+    jet_stopped: known.online !== false && known.jetRunning === false,
+    hv_disabled: known.online !== false && known.jetRunning !== false && known.hvOn === false,
+  };
+  return DOWNTIME_CAUSES.find((c) => causes[c] && active[c]) ?? null;
+}
+
+/** Advance one printer's stop given its current cause. */
+export function stepStop(
+  printerId: number,
+  stop: PrinterStop | null,
+  cause: DowntimeCause | null,
+  microStopMs: number,
+  at: number,
+): { stop: PrinterStop | null; transitions: DowntimeTransition[] } {
+  const transitions: DowntimeTransition[] = [];
+  if (!cause) {
+    if (stop?.open) transitions.push({ type: 'close', printerId, endTime: at });
+    else if (stop) transitions.push({ type: 'microStop', printerId, cause: stop.cause, startTime: stop.since, endTime: at });
+    return { stop: null, transitions };
+  }
+
+  let next: PrinterStop = stop ?? { cause, since: at, open: false };
+  if (next.cause !== cause) {
+    next = { ...next, cause };
+    if (next.open) transitions.push({ type: 'cause', printerId, cause });
+  }
+  if (!next.open && at - next.since >= microStopMs) {
+    next = { ...next, open: true };
+    transitions.push({ type: 'open', printerId, cause: next.cause, startTime: next.since });
+  }
+  return { stop: next, transitions };
+}
+
+function readSettings(): DowntimeSettings {
+  try {
+    const raw = persistentStorage.getItem(SETTINGS_KEY);
+    if (!raw) return { ...DEFAULT_SETTINGS };
+    const parsed = JSON.parse(raw);
+    return { ...DEFAULT_SETTINGS, ...parsed, causes: { ...DEFAULT_SETTINGS.causes, ...parsed.causes } };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+class DowntimeEngine {
+  private state: DowntimeEngineState = { settings: readSettings(), stops: {} };
+  private listeners = new Set<Listener>();
+  private transitionListeners = new Set<TransitionListener>();
+  /** printer id → merged observations */
+  private known = new Map<number, PrinterObservation>();
+
+  getState(): DowntimeEngineState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  onTransition(fn: TransitionListener): () => void {
+    this.transitionListeners.add(fn);
+    return () => { this.transitionListeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<DowntimeEngineState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((l) => l(this.state));
+  }
+
+  configure(patch: Partial<DowntimeSettings>) {
+    const settings = { ...this.state.settings, ...patch, causes: { ...this.state.settings.causes, ...patch.causes } };
+    settings.microStopSeconds = Math.min(3600, Math.max(0, Math.round(Number(settings.microStopSeconds) || 0)));
+    persistentStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.setState({ settings });
+    // Re-evaluate every printer so disabled causes close and a lower threshold opens
+    for (const printerId of this.known.keys()) this.evaluate(printerId, Date.now());
+  }
+
+  /** Feed one poll's view of a printer. */
+  observe(printerId: number, obs: PrinterObservation, at = Date.now()) {
+    const prev = this.known.get(printerId);
+    // Going offline invalidates what ^SU told us about the jet
+    const merged: PrinterObservation = obs.online === false
+      ? { online: false }
+      : { ...prev, ...Object.fromEntries(Object.entries(obs).filter(([, v]) => v !== undefined)) };
+    this.known.set(printerId, merged);
+    this.evaluate(printerId, at, !prev);
+  }
+
+  private evaluate(printerId: number, at: number, firstSeen = false) {
+    const { settings } = this.state;
+    const known = this.known.get(printerId);
+    const cause = settings.enabled && known ? deriveCause(known, settings.causes) : null;
+    const current = this.state.stops[printerId] ?? null;
+    const { stop, transitions } = stepStop(printerId, current, cause, settings.microStopSeconds * 1000, at);
+    // Stops don't survive a restart: an auto event the last session left open
+    // is closed when the first poll finds the printer running.
+    if (firstSeen && !stop) transitions.push({ type: 'close', printerId, endTime: at });
+    if (stop !== current) {
+      const stops = { ...this.state.stops };
+      if (stop) stops[printerId] = stop;
+      else delete stops[printerId];
+      this.setState({ stops });
+    }
+    transitions.forEach((t) => this.transitionListeners.forEach((l) => l(t)));
+  }
+}
+
+export const downtimeEngine = new DowntimeEngine();
+
+/* ---------- DowntimeEvent bookkeeping on a run ---------- */
+
+export function openAutoDowntime(run: ProductionRun, cause: DowntimeCause, startTime: number): ProductionRun {
+  if (run.downtimeEvents.some((e) => e.source === 'auto' && e.endTime === null)) return run;
+  const event: DowntimeEvent = {
+    id: crypto.randomUUID(),
+    // A stop that began before the run counts from the run start
+    startTime: Math.max(startTime, run.startTime),
+    endTime: null,
+    reason: cause,
+    detectedReason: cause,
+    source: 'auto',
+  };
+  return { ...run, downtimeEvents: [...run.downtimeEvents, event] };
+}
+
+/** Follow a changed cause, unless the operator already re-labelled the event. */
+export function retagAutoDowntime(run: ProductionRun, cause: DowntimeCause): ProductionRun {
+  return {
+    ...run,
+    downtimeEvents: run.downtimeEvents.map((e) => {
+      if (e.source !== 'auto' || e.endTime !== null) return e;
+      const overridden = e.reason !== e.detectedReason;
+      return { ...e, detectedReason: cause, reason: overridden ? e.reason : cause };
+    }),
+  };
+}
+
+export function closeAutoDowntime(run: ProductionRun, endTime: number): ProductionRun {
+  return {
+    ...run,
+    downtimeEvents: run.downtimeEvents.map((e) =>
+      e.source === 'auto' && e.endTime === null ? { ...e, endTime: Math.max(endTime, e.startTime) } : e),
+  };
+}
+
+export function countMicroStop(run: ProductionRun): ProductionRun {
+  return { ...run, microStops: (run.microStops ?? 0) + 1 };
+}
@@ -0,0 +1,153 @@
+/**
+ * Scripted metric drifts for the printer emulators, to exercise the fault
+ * predictor (faultPredictor.ts) without a real printer going bad.
+ *
+ * A scenario maps minutes since start onto metric values relative to the
+ * state the drift started from, plus the warning codes that should be active
+ * at that moment. The runner applies it to one emulator on a timer; stopping
+ * restores the starting metrics and clears the codes it raised.
+ */
+
+import type { EmulatorState } from '@/lib/printerEmulator';
+
+type DriftMetric = 'pressure' | 'viscosity' | 'phaseQual' | 'modulation' | 'printheadTemp';
+type DriftBase = Pick<EmulatorState, DriftMetric>;
+
+export type DriftScenarioId = 'nozzle_clog' | 'filter_end' | 'makeup_failing' | 'printhead_temp';
+
+export interface DriftScenario {
+  id: DriftScenarioId;
+  label: string;
+  description: string;
+  /** Metric values `minutes` into the drift */
+  at: (base: DriftBase, minutes: number) => Partial<DriftBase>;
+  /** ^LE codes active `minutes` into the drift */
+  faults?: (minutes: number) => { code: string; severity: string; message: string }[];
+}
+
+/** On for the first `on` minutes of every `period`, so ^LE sees the code come back. */
+const pulsing = (minutes: number, period: number, on: number) => minutes % period < on;
+
+export const DRIFT_SCENARIOS: DriftScenario[] = [
+  {
+    id: 'nozzle_clog',
+    label: 'Nozzle clog',
+    description: 'Pressure creeps up at constant viscosity while phase quality falls',
+    at: (b, m) => ({
+      pressure: Math.round(b.pressure + 0.1 * m),
+      phaseQual: Math.max(40, Math.round(b.phaseQual - 0.5 * m)),
+    }),
+    faults: (m) => (m > 20 && pulsing(m, 4, 1) ? [{ code: '0A-8006', severity: 'W', message: 'Phase quality is too low.' }] : []),
+  },
+  {
+    id: 'filter_end',
+    label: 'Filter end',
+    description: 'Pressure creeps up at constant viscosity with pump pressure warnings',
+    at: (b, m) => ({ pressure: Math.round(b.pressure + 0.08 * m) }),
+    faults: (m) => (m > 15 && pulsing(m, 5, 1) ? [{ code: '0D-8002', severity: 'W', message: 'Pump pressure high.' }] : []),
+  },
+  {
+    id: 'makeup_failing',
+    label: 'Makeup failing',
+    description: 'Viscosity climbs as solvent evaporates and is not replaced',
+    at: (b, m) => ({ viscosity: Math.round((b.viscosity + 0.01 * m) * 100) / 100 }),
+    faults: (m) => (m > 10 && pulsing(m, 3, 1) ? [{ code: '0E-0002', severity: 'W', message: 'Ink viscosity is too high.' }] : []),
+  },
+  {
+    id: 'printhead_temp',
+    label: 'Head temp swings',
+    description: 'Printhead temperature swings ±8 °C on a ten-minute cycle',
+    at: (b, m) => ({ printheadTemp: Math.round((b.printheadTemp + 8 * Math.sin((m / 10) * 2 * Math.PI)) * 100) / 100 }),
+  },
+];
+
+/** What the runner needs from an emulator — both printerEmulator and multi-printer instances fit. */
+export interface DriftTarget {
+  getState(): EmulatorState;
+  setState<K extends keyof EmulatorState>(key: K, value: EmulatorState[K]): void;
+  toggleFault(code: string, severity: string, message: string): void;
+}
+
+export interface ActiveDrift {
+  scenario: DriftScenarioId;
+  startedAt: number;
+  /** Minutes of drift applied per wall-clock minute */
+  speed: number;
+}
+
+type Listener = (drift: ActiveDrift | null) => void;
+
+const TICK_MS = 5000;
+
+let active: ActiveDrift | null = null;
+let stopActive: (() => void) | null = null;
+const listeners = new Set<Listener>();
+
+function notify() {
+  listeners.forEach((l) => l(active));
+}
+
+export function getActiveDrift(): ActiveDrift | null {
+  return active;
+}
+
+export function subscribeDrift(fn: Listener): () => void {
+  listeners.add(fn);
+  fn(active);
+  return () => { listeners.delete(fn); };
+}
+
+/** Start a scenario on `target`, replacing any running drift. */
+export function startDrift(target: DriftTarget, id: DriftScenarioId, speed = 1) {
+  stopDrift();
+  const scenario = DRIFT_SCENARIOS.find((s) => s.id === id);
+  if (!scenario) return;
+  const s = target.getState();
+  const base: DriftBase = {
+    pressure: s.pressure, viscosity: s.viscosity, phaseQual: s.phaseQual, modulation: s.modulation, printheadTemp: s.printheadTemp,
+  };
+  const raised = new Set<string>();
+  const startedAt = Date.now();
+
+  const syncFaults = (wanted: { code: string; severity: string; message: string }[]) => {
+    const codes = new Set(wanted.map((f) => f.code));
+    const current = target.getState().customFaults;
+    for (const f of current) {
+      if (raised.has(f.code) && !codes.has(f.code)) {
+        target.toggleFault(f.code, f.severity, f.message);
+        raised.delete(f.code);
+      }
+    }
+    for (const f of wanted) {
+      if (!current.some((c) => c.code === f.code)) {
+        target.toggleFault(f.code, f.severity, f.message);
+        raised.add(f.code);
+      }
+    }
+  };
+
+  const tick = () => {
+    const minutes = ((Date.now() - startedAt) / 60_000) * speed;
+    const values = scenario.at(base, minutes);
+    for (const key of Object.keys(values) as DriftMetric[]) target.setState(key, values[key]!);
+    syncFaults(scenario.faults?.(minutes) ?? []);
+  };
+
+  const timer = setInterval(tick, TICK_MS);
+  tick();
+  active = { scenario: id, startedAt, speed };
+  stopActive = () => {
+    clearInterval(timer);
+    for (const key of Object.keys(base) as DriftMetric[]) target.setState(key, base[key]);
+    syncFaults([]);
+  };
+  notify();
+}
+
+export function stopDrift() {
+  if (!stopActive) return;
+  stopActive();
+  stopActive = null;
+  active = null;
+  notify();
+}
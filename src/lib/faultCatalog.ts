@@ -0,0 +1,372 @@
+/**
+ * Bundled knowledge base of BestCode fault codes.
+ *
+ * Codes are `SS-NNNN`: the first byte names the subsystem, so a code that
+ * isn't listed individually still gets its subsystem's causes and remedies.
+ * Meanings follow the text the printer itself reports in ^LE and its HMI
+ * event windows (the screens in public/fault-codes/*.png).
+ */
+
+export interface FaultCodeInfo {
+  code: string;
+  title: string;
+  meaning: string;
+  causes: string[];
+  remedies: string[];
+}
+
+interface FaultSubsystem {
+  name: string;
+  causes: string[];
+  remedies: string[];
+}
+
+export interface FaultLookup extends FaultCodeInfo {
+  subsystem: string;
+  /** False when only the subsystem is known */
+  known: boolean;
+}
+
+const SUBSYSTEMS: Record<string, FaultSubsystem> = {
+  '01': {
+    name: 'System',
+    causes: ['Jet or gutter path interrupted', 'Valve failure', 'Power interrupted while running'],
+    remedies: ['Check the jet is entering the gutter', 'Restart the jet from the printer', 'Contact support if it recurs'],
+  },
+  '02': {
+    name: 'Cables',
+    causes: ['Cable unplugged or damaged', 'Connector not seated'],
+    remedies: ['Power down before reseating cables', 'Check the cable for pinches or cuts', 'Replace the cable if the fault persists'],
+  },
+  '03': {
+    name: 'Firmware',
+    causes: ['Interrupted or corrupt firmware update', 'Incompatible firmware image'],
+    remedies: ['Power cycle the printer', 'Reinstall the firmware from a known-good image', 'Contact support'],
+  },
+  '04': {
+    name: 'Print memory',
+    causes: ['Message storage full or corrupt'],
+    remedies: ['Delete unused messages', 'Power cycle and retry the save', 'Contact support if saves keep failing'],
+  },
+  '05': {
+    name: 'USB memory',
+    causes: ['USB stick missing, unformatted or unsupported'],
+    remedies: ['Insert a FAT32-formatted USB stick', 'Try a different stick'],
+  },
+  '06': {
+    name: 'SD card',
+    causes: ['SD card missing, unformatted or unsupported'],
+    remedies: ['Reseat the SD card', 'Replace the card with a FAT32-formatted one'],
+  },
+  '07': {
+    name: 'File transfer',
+    causes: ['Invalid or partial files copied to the printer'],
+    remedies: ['Re-export the files and copy them again', 'Remove the invalid files from print memory'],
+  },
+  '08': {
+    name: 'High voltage',
+    causes: ['Ink build-up on the deflection plates', 'Wet or dirty printhead', 'HV supply failure'],
+    remedies: ['Stop the jet and clean and dry the printhead', 'Check the deflection plates for ink bridging', 'Restart HV once the head is dry'],
+  },
+  '09': {
+    name: 'Charge',
+    causes: ['Drops not breaking off at the charge electrode', 'Dirty charge electrode or phase detector'],
+    remedies: ['Clean the printhead', 'Check modulation and phase settings', 'Check jet alignment through the charge electrode'],
+  },
+  '0A': {
+    name: 'Phase',
+    causes: ['Partially blocked nozzle', 'Modulation set too low or too high', 'Viscosity out of range'],
+    remedies: ['Clean the printhead and flush the nozzle', 'Run auto-modulation', 'Check viscosity and makeup level'],
+  },
+  '0B': {
+    name: 'Override',
+    causes: ['Errors disabled (AllowErrors off) for longer than permitted'],
+    remedies: ['Clear the underlying fault and re-enable errors'],
+  },
+  '0C': {
+    name: 'Cooling',
+    causes: ['Fan blocked or failed', 'Air supply to the cabinet interrupted', 'Blocked air filter'],
+    remedies: ['Clear obstructions around the vents', 'Clean or replace the air filter', 'Check the air supply pressure'],
+  },
+  '0D': {
+    name: 'Pump',
+    causes: ['Restriction in the ink path (filter, nozzle)', 'Pump wear', 'Air in the ink system'],
+    remedies: ['Check the filter life and change the filter if due', 'Flush the nozzle', 'Contact support for pump service'],
+  },
+  '0E': {
+    name: 'Viscosity',
+    causes: ['Makeup not being added', 'Ink temperature far from its calibration', 'Viscometer fault'],
+    remedies: ['Check the makeup level and the makeup line', 'Let the printer reach operating temperature', 'Contact support if readings stay out of range'],
+  },
+  '0F': {
+    name: 'SmartFill',
+    causes: ['Unreadable or unsupported fluid label'],
+    remedies: ['Use a genuine cartridge for this machine type', 'Clean the label reader and reinsert the cartridge'],
+  },
+  '10': {
+    name: 'Ink',
+    causes: ['Ink tank running low or empty', 'Float switch stuck'],
+    remedies: ['Add ink of the correct type', 'Check the float switch moves freely'],
+  },
+  '11': {
+    name: 'Makeup',
+    causes: ['Makeup tank running low or empty', 'Float switch stuck'],
+    remedies: ['Add makeup of the correct type', 'Check the float switch moves freely'],
+  },
+  '12': {
+    name: 'Filter',
+    causes: ['SmartFilter at the end of its life', 'Filter label not valid for this machine'],
+    remedies: ['Replace the SmartFilter', 'Record the new filter in CodeSync so its life is tracked'],
+  },
+  '13': {
+    name: 'System temperature',
+    causes: ['Cabinet too hot', 'Cooling fan or air supply failure'],
+    remedies: ['Lower the ambient temperature around the cabinet', 'Check the cooling fan and vents'],
+  },
+  '14': {
+    name: 'Printhead temperature',
+    causes: ['Printhead heater fault', 'Printhead mounted near a heat source'],
+    remedies: ['Move or shield the printhead from heat', 'Check the printhead heater cable'],
+  },
+  '16': {
+    name: 'Printhead',
+    causes: ['Printhead cable unplugged or damaged', 'Printhead electronics failure'],
+    remedies: ['Power down and reseat the printhead cable', 'Contact support'],
+  },
+  '17': {
+    name: 'Print trigger',
+    causes: ['Photo eye misaligned or dirty', 'Products arriving faster than the message can print'],
+    remedies: ['Clean and align the photo eye', 'Check line speed against message length and pitch'],
+  },
+};
+
+const CODES: FaultCodeInfo[] = [
+  {
+    code: '01-0001', title: 'Gutter Fault', meaning: 'Fluid not detected in gutter.',
+    causes: ['Jet misaligned and missing the gutter', 'Blocked gutter', 'Nozzle partially blocked, deflecting the jet'],
+    remedies: ['Stop the jet and clean the printhead', 'Check the jet lands in the gutter on restart', 'Flush the gutter line'],
+  },
+  {
+    code: '01-0002', title: 'Shut Down', meaning: 'Shut-down confirmation requested on the printer.',
+    causes: ['Shut-down started from the HMI'],
+    remedies: ['Confirm or cancel on the printer'],
+  },
+  {
+    code: '01-8001', title: 'Valve', meaning: 'A valve is bad.',
+    causes: ['Valve coil or cable failure', 'Valve stuck by dried ink'],
+    remedies: ['Note the valve number shown on the printer', 'Contact support for valve replacement'],
+  },
+  {
+    code: '01-8002', title: 'Power Loss', meaning: 'Last shutdown due to loss of power.',
+    causes: ['Mains power lost while the jet was running', 'Printer switched off without a shut-down sequence'],
+    remedies: ['Acknowledge the event', 'Restart the jet and check print quality', 'Use a UPS or always shut down from the HMI'],
+  },
+  {
+    code: '02-8001', title: 'Trip Cable', meaning: 'Trip cable not detected.',
+    causes: ['Trip (interlock) cable unplugged', 'Damaged connector'],
+    remedies: ['Reconnect the trip cable', 'Fit the interlock bypass plug if no trip cable is used'],
+  },
+  {
+    code: '03-0002', title: 'Firmware Fault', meaning: 'Firmware could not be loaded.',
+    causes: ['Corrupt firmware image', 'Update interrupted'],
+    remedies: ['Power cycle the printer', 'Reinstall the firmware', 'Contact support'],
+  },
+  {
+    code: '04-0001', title: 'Memory Fault', meaning: 'Print memory could not be saved.',
+    causes: ['Message storage full', 'Storage corrupt'],
+    remedies: ['Delete unused messages and save again', 'Contact support if saves keep failing'],
+  },
+  {
+    code: '05-8001', title: 'Memory Warning: USB', meaning: 'Memory device not detected.',
+    causes: ['No USB stick inserted', 'Unsupported format'],
+    remedies: ['Insert a FAT32-formatted USB stick'],
+  },
+  {
+    code: '06-8001', title: 'Memory Warning: SD Card', meaning: 'Memory device not detected.',
+    causes: ['SD card missing or unseated'],
+    remedies: ['Reseat the SD card', 'Replace the card'],
+  },
+  {
+    code: '07-8001', title: 'File Transfer', meaning: 'Invalid print memory files were found.',
+    causes: ['Files copied from another model or firmware', 'Partial copy'],
+    remedies: ['Remove the invalid files', 'Re-export messages from CodeSync and resend'],
+  },
+  {
+    code: '08-0001', title: 'HV Trip', meaning: 'High voltage trip.',
+    causes: ['Ink on the deflection plates', 'Wet printhead after cleaning', 'Jet misaligned onto a plate'],
+    remedies: ['Stop the jet, clean and dry the printhead', 'Check jet alignment', 'Restart HV when dry'],
+  },
+  {
+    code: '08-8001', title: '300V Low', meaning: '300 Volt supply below threshold.',
+    causes: ['HV supply failure', 'Mains supply dip'],
+    remedies: ['Power cycle the printer', 'Contact support if it recurs'],
+  },
+  {
+    code: '09-8001', title: 'No Charge', meaning: 'Charged drops not detected.',
+    causes: ['Drops not breaking off in the charge electrode', 'Dirty phase detector', 'Modulation wrong for the ink'],
+    remedies: ['Clean the printhead', 'Run auto-modulation', 'Check viscosity'],
+  },
+  {
+    code: '0A-0001', title: 'Phase Warning', meaning: 'Phase quality is too low.',
+    causes: ['Nozzle starting to block', 'Modulation drifting from its best value', 'Viscosity drifting'],
+    remedies: ['Clean the printhead', 'Run auto-modulation', 'Watch the fault advisories for a clog trend'],
+  },
+  {
+    code: '0A-8006', title: 'Phase Fault', meaning: 'Phase quality is too low.',
+    causes: ['Partially blocked nozzle', 'Modulation far from its best value', 'Viscosity out of range'],
+    remedies: ['Stop the jet and flush the nozzle', 'Run auto-modulation after restart', 'Check viscosity and makeup'],
+  },
+  {
+    code: '0B-0001', title: 'Override Fault', meaning: 'System only operates 30 minutes while errors are disabled.',
+    causes: ['AllowErrors turned off to keep printing through a fault'],
+    remedies: ['Fix the underlying fault', 'Re-enable errors'],
+  },
+  {
+    code: '0C-8001', title: 'Fan Fault', meaning: 'Fan rotation not detected.',
+    causes: ['Fan blocked or failed', 'Fan cable unplugged'],
+    remedies: ['Clear obstructions from the fan', 'Check the fan cable', 'Replace the fan'],
+  },
+  {
+    code: '0C-8002', title: 'Air Cooling', meaning: 'Air cooling pressure not detected.',
+    causes: ['Air supply off or too low', 'Blocked air line'],
+    remedies: ['Check the plant air supply and regulator', 'Check the air line for kinks'],
+  },
+  {
+    code: '0D-8002', title: 'Pump Fault', meaning: 'Pump pressure too high to operate.',
+    causes: ['Filter at end of life', 'Partially blocked nozzle', 'Pressure setting too high for the ink'],
+    remedies: ['Check filter life and change the filter if due', 'Flush the nozzle', 'Contact support if pressure stays high'],
+  },
+  {
+    code: '0D-8003', title: 'Pump Fail', meaning: 'Pump rotation not detected.',
+    causes: ['Pump motor failure', 'Pump cable unplugged'],
+    remedies: ['Power cycle the printer', 'Contact support for pump service'],
+  },
+  {
+    code: '0D-8004', title: 'Pump Fault', meaning: 'Pump rotation too low to operate.',
+    causes: ['Pump wear', 'Air in the ink system', 'Low ink level'],
+    remedies: ['Top up ink', 'Prime the ink system', 'Contact support for pump service'],
+  },
+  {
+    code: '0E-0001', title: 'Viscosity Low', meaning: 'Ink viscosity is too low.',
+    causes: ['Too much makeup added', 'Ink much warmer than its calibration'],
+    remedies: ['Let the printer run; viscosity rises as solvent evaporates', 'Check the makeup valve is not stuck open'],
+  },
+  {
+    code: '0E-0002', title: 'Viscosity High', meaning: 'Ink viscosity is too high.',
+    causes: ['Makeup not being added', 'Makeup tank empty', 'Cold ink'],
+    remedies: ['Top up makeup', 'Check the makeup line and valve', 'Let the printer reach operating temperature'],
+  },
+  {
+    code: '0E-8002', title: 'Viscosity Fault', meaning: 'Viscosity out of valid range.',
+    causes: ['Viscometer fault', 'Wrong ink type for the configuration'],
+    remedies: ['Check the ink type matches the printer setup', 'Contact support'],
+  },
+  {
+    code: '0F-0001', title: 'SmartFill Warning', meaning: 'SmartFill command label not valid.',
+    causes: ['Unreadable or foreign cartridge label'],
+    remedies: ['Reinsert the cartridge', 'Use a genuine cartridge'],
+  },
+  {
+    code: '10-0001', title: 'Ink Added', meaning: 'SmartFill ink cartridge accepted.',
+    causes: ['Ink cartridge inserted'],
+    remedies: ['No action needed'],
+  },
+  {
+    code: '10-0002', title: 'Ink Empty', meaning: 'Ink fluid level empty.',
+    causes: ['Ink tank empty'],
+    remedies: ['Add ink of the correct type', 'Restart the jet once the level recovers'],
+  },
+  {
+    code: '10-0003', title: 'Ink Low', meaning: 'Ink fluid level is low.',
+    causes: ['Ink tank below the low float'],
+    remedies: ['Add ink at the next convenient stop'],
+  },
+  {
+    code: '10-8005', title: 'Ink High', meaning: 'Ink fluid level too high to operate.',
+    causes: ['Tank overfilled', 'Makeup valve stuck open', 'Float switch stuck high'],
+    remedies: ['Check the makeup valve', 'Check the float switch', 'Drain to the correct level'],
+  },
+  {
+    code: '11-0002', title: 'Makeup Empty', meaning: 'Makeup fluid level empty.',
+    causes: ['Makeup tank empty'],
+    remedies: ['Add makeup of the correct type'],
+  },
+  {
+    code: '11-0003', title: 'Makeup Low', meaning: 'Makeup fluid level is low.',
+    causes: ['Makeup tank below the low float'],
+    remedies: ['Add makeup at the next convenient stop'],
+  },
+  {
+    code: '11-8004', title: 'Makeup High', meaning: 'Makeup fluid level too high to operate.',
+    causes: ['Tank overfilled', 'Float switch stuck high'],
+    remedies: ['Check the float switch', 'Drain to the correct level'],
+  },
+  {
+    code: '12-0001', title: 'Makeup Added', meaning: 'SmartFill makeup cartridge accepted.',
+    causes: ['Makeup cartridge inserted'],
+    remedies: ['No action needed'],
+  },
+  {
+    code: '12-8001', title: 'Filter Fault', meaning: 'SmartFill label not valid for this machine type.',
+    causes: ['Filter for a different machine type fitted'],
+    remedies: ['Fit the filter listed for this printer'],
+  },
+  {
+    code: '12-8003', title: 'Filter', meaning: 'SmartFilter replacement required.',
+    causes: ['Filter has reached its rated pump hours'],
+    remedies: ['Replace the SmartFilter', 'Record the new filter in CodeSync so its life is tracked'],
+  },
+  {
+    code: '13-8001', title: 'System Temperature', meaning: 'System temperature too high to operate.',
+    causes: ['Cabinet overheating', 'Cooling fan or air supply failure'],
+    remedies: ['Lower the ambient temperature', 'Check the fan and air supply', 'Let the printer cool before restarting'],
+  },
+  {
+    code: '14-8001', title: 'Printhead Temperature', meaning: 'Printhead temperature too high to operate.',
+    causes: ['Printhead near a heat source', 'Heater fault'],
+    remedies: ['Shield or move the printhead', 'Check the printhead heater'],
+  },
+  {
+    code: '16-8001', title: 'Printhead Fault', meaning: 'Printhead Fault.',
+    causes: ['Printhead electronics failure', 'Damaged umbilical'],
+    remedies: ['Power down and reseat the printhead connector', 'Contact support'],
+  },
+  {
+    code: '16-8002', title: 'No Printhead', meaning: 'Printhead not detected.',
+    causes: ['Printhead cable unplugged'],
+    remedies: ['Power down and reconnect the printhead'],
+  },
+  {
+    code: '17-0001', title: 'Missed Photo Eye', meaning: 'A product passed before the previous print finished.',
+    causes: ['Line speed too high for the message length', 'Photo eye double-triggering'],
+    remedies: ['Shorten the message or reduce pitch', 'Clean and align the photo eye', 'Check the photo eye trigger delay'],
+  },
+];
+
+const BY_CODE = new Map(CODES.map((c) => [c.code, c]));
+
+/** Every individually listed code. */
+export const FAULT_CATALOG: readonly FaultCodeInfo[] = CODES;
+
+/** `10-0002`, `10‑0002 ` or `10-0002 (F)` → `10-0002`. */
+export function normalizeFaultCode(raw: string): string {
+  const code = raw.trim().replace(/[‐‑‒–—−]/g, '-').toUpperCase();
+  return code.match(/[0-9A-F]{2}-[0-9A-F]{4}/)?.[0] ?? code;
+}
+
+/** Catalog entry for a code, falling back to its subsystem; `message` is what the printer reported. */
+export function lookupFault(rawCode: string, message = ''): FaultLookup {
+  const code = normalizeFaultCode(rawCode);
+  const subsystem = SUBSYSTEMS[code.slice(0, 2)];
+  const entry = BY_CODE.get(code);
+  if (entry) return { ...entry, subsystem: subsystem?.name ?? 'Unknown', known: true };
+  return {
+    code,
+    title: subsystem ? `${subsystem.name} fault` : 'Unlisted fault',
+    meaning: message || 'No description available for this code.',
+    causes: subsystem?.causes ?? [],
+    remedies: subsystem?.remedies ?? ['Note the code and message shown on the printer and contact support'],
+    subsystem: subsystem?.name ?? 'Unknown',
+    known: false,
+  };
+}
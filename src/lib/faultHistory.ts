@@ -0,0 +1,166 @@
+/**
+ * Per-printer fault history, built from the ^LE lists usePrinterConnection
+ * polls.
+ *
+ * Each occurrence of a code is one entry: opened when the code first shows
+ * up in a printer's list and cleared when a later list no longer has it. A
+ * code still listed when the printer disconnects stays open until the next
+ * list from that printer says otherwise. Entries persist (src/lib/persistence.ts) and
+ * are pruned after `retentionDays`.
+ */
+
+import { normalizeFaultCode } from '@/lib/faultCatalog';
+import type { PrinterFault } from '@/components/alerts/FaultAlertDialog';
+import { persistentStorage } from '@/lib/persistence';
+
+const STORAGE_KEY = 'codesync.faultHistory.v1';
+const MAX_ENTRIES = 5000;
+
+export interface FaultOccurrence {
+  id: string;
+  printerId: number;
+  code: string;
+  severity: string;
+  message: string;
+  firstSeen: number;
+  /** null while the printer still lists the code */
+  clearedAt: number | null;
+}
+
+/** One printer's history of one code. */
+export interface FaultSummary {
+  printerId: number;
+  code: string;
+  severity: string;
+  message: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  lastCleared: number | null;
+  active: boolean;
+  /** Total time listed, open occurrences counted up to `now` */
+  activeMs: number;
+}
+
+export interface FaultHistoryState {
+  entries: FaultOccurrence[];
+  retentionDays: number;
+}
+
+type Listener = (state: FaultHistoryState) => void;
+
+function read(): FaultHistoryState {
+  try {
+    const raw = persistentStorage.getItem(STORAGE_KEY);
+    if (raw) return { entries: [], retentionDays: 90, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error('[faultHistory] load failed', e);
+  }
+  return { entries: [], retentionDays: 90 };
+}
+
+class FaultHistoryStore {
+  private state: FaultHistoryState = read();
+  private listeners = new Set<Listener>();
+
+  getState(): FaultHistoryState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<FaultHistoryState>) {
+    this.state = { ...this.state, ...patch };
+    try {
+      persistentStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (e) {
+      console.error('[faultHistory] save failed', e);
+    }
+    this.listeners.forEach((l) => l(this.state));
+  }
+
+  /** Apply one printer's ^LE list. */
+  observe(printerId: number, faults: PrinterFault[], at = Date.now()) {
+    const listed = new Map(faults.map((f) => [normalizeFaultCode(f.code), f]));
+    const open = new Set<string>();
+    let changed = false;
+
+    const entries = this.state.entries.map((e) => {
+      if (e.printerId !== printerId || e.clearedAt !== null) return e;
+      if (listed.has(e.code)) {
+        open.add(e.code);
+        return e;
+      }
+      changed = true;
+      return { ...e, clearedAt: at };
+    });
+
+    for (const [code, f] of listed) {
+      if (open.has(code)) continue;
+      changed = true;
+      entries.push({ id: crypto.randomUUID(), printerId, code, severity: f.severity, message: f.message, firstSeen: at, clearedAt: null });
+    }
+
+    if (!changed) return;
+    const cutoff = at - this.state.retentionDays * 86_400_000;
+    this.setState({ entries: entries.filter((e) => e.clearedAt === null || e.clearedAt >= cutoff).slice(-MAX_ENTRIES) });
+  }
+}
+
+export const faultHistory = new FaultHistoryStore();
+
+/** Group occurrences by printer and code, most recently seen first. */
+export function summarizeFaults(entries: FaultOccurrence[], now = Date.now()): FaultSummary[] {
+  const byKey = new Map<string, FaultSummary>();
+  for (const e of entries) {
+    const key = `${e.printerId}.${e.code}`;
+    const s = byKey.get(key);
+    const activeMs = (e.clearedAt ?? now) - e.firstSeen;
+    if (!s) {
+      byKey.set(key, {
+        printerId: e.printerId, code: e.code, severity: e.severity, message: e.message,
+        count: 1, firstSeen: e.firstSeen, lastSeen: e.firstSeen, lastCleared: e.clearedAt,
+        active: e.clearedAt === null, activeMs,
+      });
+      continue;
+    }
+    s.count += 1;
+    s.firstSeen = Math.min(s.firstSeen, e.firstSeen);
+    if (e.firstSeen >= s.lastSeen) {
+      s.lastSeen = e.firstSeen;
+      s.severity = e.severity;
+      s.message = e.message;
+    }
+    if (e.clearedAt !== null) s.lastCleared = Math.max(s.lastCleared ?? 0, e.clearedAt);
+    s.active ||= e.clearedAt === null;
+    s.activeMs += activeMs;
+  }
+  return [...byKey.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+export function faultHistoryToCsv(entries: FaultOccurrence[], printerName: (id: number) => string): string {
+  const headers = ['Printer', 'Code', 'Severity', 'Message', 'First Seen', 'Cleared', 'Duration (min)'];
+  const rows = entries.map((e) => [
+    printerName(e.printerId),
+    e.code,
+    e.severity,
+    e.message,
+    new Date(e.firstSeen).toISOString(),
+    e.clearedAt === null ? 'Active' : new Date(e.clearedAt).toISOString(),
+    e.clearedAt === null ? '' : ((e.clearedAt - e.firstSeen) / 60_000).toFixed(1),
+  ]);
+  const escape = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  return [headers.map(escape).join(','), ...rows.map((r) => r.map(escape).join(','))].join('\n');
+}
+
+export function exportFaultHistoryToCsv(entries: FaultOccurrence[], printerName: (id: number) => string, filename: string) {
+  const blob = new Blob([faultHistoryToCsv(entries, printerName)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
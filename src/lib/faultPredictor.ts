@@ -0,0 +1,356 @@
+/**
+ * Predictive fault advisories from ^SU / ^TP trends and ^LE history.
+ *
+ * - usePrinterConnection feeds the connected printer's metrics every poll
+ *   (one sample per `sampleSeconds` is kept while the jet is running) and
+ *   every parsed ^LE list; a code that clears and comes back is counted again.
+ * - evaluateTrends() is the rule set: least-squares slopes over the last
+ *   `trendMinutes`, excursions from the window median and repeat counts of
+ *   warning codes, combined with filterTracker's pump-hour status.
+ * - Findings become advisories carrying their evidence series and codes, so
+ *   the Service dialog can chart why it was raised; useFaultAdvisoryWarnings
+ *   toasts new ones. A dismissed advisory is not re-raised within REALERT_MS
+ *   unless its confidence goes up.
+ *
+ * Samples are kept in memory only — the SPC store already persists the
+ * long-term series.
+ */
+
+import { sampleFromMetrics, SPC_METRICS, type SpcMetric, type SpcSample } from '@/lib/spc';
+import { getFilterStatus } from '@/lib/filterTracker';
+import { parseStreamHoursToNumber } from '@/components/consumables/ConsumablePredictions';
+import type { PrinterFault } from '@/components/alerts/FaultAlertDialog';
+import type { PrinterMetrics } from '@/types/printer';
+import { persistentStorage } from '@/lib/persistence';
+
+const SETTINGS_KEY = 'codesync.faultPredictor.v1';
+
+/** Trends need at least this many samples spanning MIN_SPAN_MS. */
+const MIN_SAMPLES = 10;
+const MIN_SPAN_MS = 10 * 60_000;
+/** Samples kept per printer, whatever the trend window. */
+const MAX_SAMPLES = 720;
+const REALERT_MS = 6 * 60 * 60_000;
+
+export type AdvisoryKind = 'nozzle_clog' | 'filter_end' | 'makeup_failing' | 'printhead_temp' | 'repeated_warning';
+export type AdvisoryConfidence = 'watch' | 'likely';
+
+export const ADVISORY_KINDS: Record<AdvisoryKind, { title: string; action: string }> = {
+  nozzle_clog: { title: 'Likely nozzle clog', action: 'Inspect and flush the nozzle before print quality drops.' },
+  filter_end: { title: 'Filter nearing end of life', action: 'Plan a filter change at the next stop.' },
+  makeup_failing: { title: 'Makeup addition failing', action: 'Check the makeup line, valve and level sensor.' },
+  printhead_temp: { title: 'Printhead temperature excursions', action: 'Check the printhead heater and ambient conditions.' },
+  repeated_warning: { title: 'Repeated warnings', action: 'Review the fault history for the recurring codes.' },
+};
+
+/** ^LE codes that back each advisory. */
+const PHASE_CODES = ['0A-8006', '09-8001'];
+const VISCOSITY_HIGH_CODES = ['0E-0002'];
+const PRESSURE_CODES = ['0D-8002'];
+const FILTER_CODES = ['12-8003'];
+const HEAD_TEMP_CODES = ['14-8001'];
+/** Fluid level warnings are their own alerts and never "repeated" advisories. */
+const LEVEL_CODES = ['10-0003', '10-0002', '11-0003', '11-0002'];
+const KNOWN_CODES = [...PHASE_CODES, ...VISCOSITY_HIGH_CODES, ...PRESSURE_CODES, ...FILTER_CODES, ...HEAD_TEMP_CODES, ...LEVEL_CODES];
+
+export interface FaultPredictorSettings {
+  enabled: boolean;
+  sampleSeconds: number;
+  trendMinutes: number;
+  /** PSI per hour */
+  pressureRise: number;
+  /** cP per hour below which viscosity counts as constant */
+  viscosityFlat: number;
+  /** cP per hour */
+  viscosityRise: number;
+  /** Phase quality points per hour */
+  phaseDrop: number;
+  /** °C away from the window median */
+  tempExcursion: number;
+  /** Occurrences of a warning code within `repeatHours` */
+  repeatCount: number;
+  repeatHours: number;
+  /** Filter life used (%) from which rising pressure is blamed on the filter */
+  filterPercent: number;
+}
+
+export const DEFAULT_FAULT_PREDICTOR_SETTINGS: FaultPredictorSettings = {
+  enabled: true,
+  sampleSeconds: 60,
+  trendMinutes: 60,
+  pressureRise: 2,
+  viscosityFlat: 0.1,
+  viscosityRise: 0.2,
+  phaseDrop: 10,
+  tempExcursion: 5,
+  repeatCount: 3,
+  repeatHours: 24,
+  filterPercent: 80,
+};
+
+export interface FaultEvent {
+  at: number;
+  code: string;
+  severity: string;
+  message: string;
+}
+
+export interface TrendContext {
+  /** From filterTracker; null when no filter has been recorded for the printer */
+  filter: { percentUsed: number; hoursRemaining: number } | null;
+  makeupEmpty: boolean;
+}
+
+export interface Finding {
+  kind: AdvisoryKind;
+  confidence: AdvisoryConfidence;
+  reasons: string[];
+  /** Metrics to chart as evidence */
+  metrics: SpcMetric[];
+  /** Codes whose occurrences are evidence */
+  codes: string[];
+}
+
+export interface EvidenceSeries {
+  metric: SpcMetric;
+  points: { at: number; value: number }[];
+}
+
+export interface FaultAdvisory {
+  id: string;
+  printerId: number;
+  kind: AdvisoryKind;
+  confidence: AdvisoryConfidence;
+  reasons: string[];
+  at: number;
+  series: EvidenceSeries[];
+  events: FaultEvent[];
+}
+
+export interface FaultPredictorState {
+  settings: FaultPredictorSettings;
+  advisories: FaultAdvisory[];
+}
+
+type Listener = (state: FaultPredictorState) => void;
+type AdvisoryListener = (advisory: FaultAdvisory) => void;
+
+const unit = (metric: SpcMetric) => SPC_METRICS.find((m) => m.key === metric)?.unit ?? '';
+
+/** Least-squares slope of a metric in units per hour; null with fewer than two samples. */
+export function slopePerHour(samples: SpcSample[], metric: SpcMetric): number | null {
+  const pts = samples.filter((s) => Number.isFinite(s.values[metric]));
+  if (pts.length < 2) return null;
+  const t0 = pts[0].at;
+  const xs = pts.map((s) => (s.at - t0) / 3_600_000);
+  const ys = pts.map((s) => s.values[metric]);
+  const mx = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const my = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < xs.length; i++) {
+    num += (xs[i] - mx) * (ys[i] - my);
+    den += (xs[i] - mx) ** 2;
+  }
+  return den > 0 ? num / den : null;
+}
+
+/** Largest distance of a metric from its median over the samples. */
+function excursion(samples: SpcSample[], metric: SpcMetric): number {
+  const values = samples.map((s) => s.values[metric]).filter(Number.isFinite).sort((a, b) => a - b);
+  if (values.length === 0) return 0;
+  const median = values[Math.floor(values.length / 2)];
+  return Math.max(values[values.length - 1] - median, median - values[0]);
+}
+
+/**
+ * The heuristics. `samples` are one printer's recent samples (oldest first),
+ * `events` its ^LE occurrences.
+ */
+export function evaluateTrends(
+  samples: SpcSample[],
+  events: FaultEvent[],
+  ctx: TrendContext,
+  settings: FaultPredictorSettings,
+  now: number,
+): Finding[] {
+  const recent = samples.filter((s) => s.at >= now - settings.trendMinutes * 60_000);
+  const trending = recent.length >= MIN_SAMPLES && recent[recent.length - 1].at - recent[0].at >= MIN_SPAN_MS;
+  const slope = (metric: SpcMetric) => (trending ? slopePerHour(recent, metric) ?? 0 : 0);
+  const pressure = slope('pressure');
+  const viscosity = slope('viscosity');
+  const phase = slope('phaseQual');
+
+  const since = now - settings.repeatHours * 3_600_000;
+  const counts = new Map<string, number>();
+  for (const e of events) if (e.at >= since) counts.set(e.code, (counts.get(e.code) ?? 0) + 1);
+  const repeats = (codes: string[]) => codes.reduce((n, c) => n + (counts.get(c) ?? 0), 0);
+  const repeated = (codes: string[]) => repeats(codes) >= settings.repeatCount;
+  const repeatReason = (codes: string[]) =>
+    `${codes.filter((c) => counts.has(c)).join(', ')} raised ${repeats(codes)}× in ${settings.repeatHours} h`;
+
+  const rate = (v: number, metric: SpcMetric) => `${v > 0 ? '+' : ''}${v.toFixed(2)} ${unit(metric)}/h`;
+  const pressureRising = pressure >= settings.pressureRise;
+  const viscosityFlat = Math.abs(viscosity) <= settings.viscosityFlat;
+  const filterOld = !!ctx.filter && ctx.filter.percentUsed >= settings.filterPercent;
+  const out: Finding[] = [];
+  const push = (kind: AdvisoryKind, reasons: string[], metrics: SpcMetric[], codes: string[], likelyFrom = 2) => {
+    if (reasons.length === 0) return;
+    out.push({ kind, confidence: reasons.length >= likelyFrom ? 'likely' : 'watch', reasons, metrics, codes });
+  };
+
+  // Rising pressure at constant viscosity is a restriction: the filter when it's old, otherwise the nozzle
+  const restriction = pressureRising && viscosityFlat;
+
+  const filter: string[] = [];
+  if (restriction && filterOld) filter.push(`Pressure rising ${rate(pressure, 'pressure')} at constant viscosity`);
+  if (repeated(PRESSURE_CODES)) filter.push(repeatReason(PRESSURE_CODES));
+  if (repeated(FILTER_CODES)) filter.push(repeatReason(FILTER_CODES));
+  if (ctx.filter && ((filterOld && filter.length > 0) || ctx.filter.percentUsed >= 95)) {
+    filter.push(`Filter ${ctx.filter.percentUsed}% used, ${Math.round(ctx.filter.hoursRemaining)} pump hours left`);
+  }
+  push('filter_end', filter, ['pressure', 'viscosity'], [...PRESSURE_CODES, ...FILTER_CODES]);
+
+  const clog: string[] = [];
+  if (restriction && !filterOld) clog.push(`Pressure rising ${rate(pressure, 'pressure')} at constant viscosity`);
+  if (phase <= -settings.phaseDrop) clog.push(`Phase quality dropping ${rate(phase, 'phaseQual')}`);
+  if (repeated(PHASE_CODES)) clog.push(repeatReason(PHASE_CODES));
+  push('nozzle_clog', clog, ['pressure', 'viscosity', 'phaseQual'], PHASE_CODES);
+
+  const makeup: string[] = [];
+  if (!ctx.makeupEmpty) {
+    if (viscosity >= settings.viscosityRise) makeup.push(`Viscosity rising ${rate(viscosity, 'viscosity')}`);
+    if (repeated(VISCOSITY_HIGH_CODES)) makeup.push(repeatReason(VISCOSITY_HIGH_CODES));
+  }
+  push('makeup_failing', makeup, ['viscosity'], VISCOSITY_HIGH_CODES);
+
+  const temp: string[] = [];
+  const swing = trending ? excursion(recent, 'printheadTemp') : 0;
+  if (swing >= settings.tempExcursion) temp.push(`Printhead temperature ${swing.toFixed(1)} °C away from its median`);
+  if (repeated(HEAD_TEMP_CODES)) temp.push(repeatReason(HEAD_TEMP_CODES));
+  push('printhead_temp', temp, ['printheadTemp', 'electronicsTemp'], HEAD_TEMP_CODES);
+
+  const others = [...counts.keys()].filter((c) => !KNOWN_CODES.includes(c) && counts.get(c)! >= settings.repeatCount);
+  push('repeated_warning', others.map((c) => repeatReason([c])), [], others, Infinity);
+
+  return out;
+}
+
+function readSettings(): FaultPredictorSettings {
+  try {
+    const raw = persistentStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_FAULT_PREDICTOR_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_FAULT_PREDICTOR_SETTINGS };
+  } catch {
+    return { ...DEFAULT_FAULT_PREDICTOR_SETTINGS };
+  }
+}
+
+const RANK: Record<AdvisoryConfidence, number> = { watch: 1, likely: 2 };
+
+class FaultPredictor {
+  private state: FaultPredictorState = { settings: readSettings(), advisories: [] };
+  private listeners = new Set<Listener>();
+  private advisoryListeners = new Set<AdvisoryListener>();
+  private samples = new Map<number, SpcSample[]>();
+  private events = new Map<number, FaultEvent[]>();
+  /** Codes in each printer's last ^LE list, to count only new occurrences */
+  private activeCodes = new Map<number, Set<string>>();
+  private context = new Map<number, TrendContext>();
+  /** `${printerId}.${kind}` → last raise, survives dismissal */
+  private raised = new Map<string, { at: number; confidence: AdvisoryConfidence }>();
+
+  getState(): FaultPredictorState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  onAdvisory(fn: AdvisoryListener): () => void {
+    this.advisoryListeners.add(fn);
+    return () => { this.advisoryListeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<FaultPredictorState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((l) => l(this.state));
+  }
+
+  configure(patch: Partial<FaultPredictorSettings>) {
+    const settings = { ...this.state.settings, ...patch };
+    settings.sampleSeconds = Math.min(3600, Math.max(5, Math.round(Number(settings.sampleSeconds) || 0)));
+    settings.trendMinutes = Math.min(24 * 60, Math.max(15, Math.round(Number(settings.trendMinutes) || 0)));
+    settings.repeatCount = Math.max(2, Math.round(Number(settings.repeatCount) || 0));
+    persistentStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.setState({ settings });
+  }
+
+  dismiss(id: string) {
+    this.setState({ advisories: this.state.advisories.filter((a) => a.id !== id) });
+  }
+
+  /** Recorded samples of one printer, oldest first. */
+  samplesFor(printerId: number): SpcSample[] {
+    return this.samples.get(printerId) ?? [];
+  }
+
+  /** Feed one poll's metrics for a printer. */
+  observeMetrics(printerId: number, metrics: PrinterMetrics, jetRunning: boolean, at = Date.now()) {
+    const { settings } = this.state;
+    const pumpHours = parseStreamHoursToNumber(metrics.streamHours);
+    const filter = pumpHours != null ? getFilterStatus(printerId, pumpHours) : null;
+    this.context.set(printerId, { filter, makeupEmpty: metrics.makeupLevel === 'EMPTY' });
+    if (!settings.enabled || !jetRunning) return;
+
+    const list = this.samples.get(printerId) ?? [];
+    if (list.length > 0 && at - list[list.length - 1].at < settings.sampleSeconds * 1000) return;
+    this.samples.set(printerId, [...list, sampleFromMetrics(printerId, metrics, at)].slice(-MAX_SAMPLES));
+    this.evaluate(printerId, at);
+  }
+
+  /** Feed one parsed ^LE list for a printer. */
+  observeFaults(printerId: number, faults: PrinterFault[], at = Date.now()) {
+    const before = this.activeCodes.get(printerId) ?? new Set<string>();
+    const fresh = faults.filter((f) => !before.has(f.code));
+    this.activeCodes.set(printerId, new Set(faults.map((f) => f.code)));
+    if (fresh.length === 0 || !this.state.settings.enabled) return;
+
+    const since = at - this.state.settings.repeatHours * 3_600_000;
+    const kept = (this.events.get(printerId) ?? []).filter((e) => e.at >= since);
+    this.events.set(printerId, [...kept, ...fresh.map((f) => ({ at, code: f.code, severity: f.severity, message: f.message }))]);
+    this.evaluate(printerId, at);
+  }
+
+  private evaluate(printerId: number, now: number) {
+    const { settings } = this.state;
+    const samples = this.samplesFor(printerId);
+    const events = this.events.get(printerId) ?? [];
+    const ctx = this.context.get(printerId) ?? { filter: null, makeupEmpty: false };
+
+    for (const finding of evaluateTrends(samples, events, ctx, settings, now)) {
+      const key = `${printerId}.${finding.kind}`;
+      const last = this.raised.get(key);
+      if (last && now - last.at < REALERT_MS && RANK[finding.confidence] <= RANK[last.confidence]) continue;
+      this.raised.set(key, { at: now, confidence: finding.confidence });
+
+      const window = samples.filter((s) => s.at >= now - settings.trendMinutes * 60_000);
+      const advisory: FaultAdvisory = {
+        id: crypto.randomUUID(),
+        printerId,
+        kind: finding.kind,
+        confidence: finding.confidence,
+        reasons: finding.reasons,
+        at: now,
+        series: finding.metrics.map((metric) => ({ metric, points: window.map((s) => ({ at: s.at, value: s.values[metric] })) })),
+        events: events.filter((e) => finding.codes.includes(e.code)),
+      };
+      // An upgrade replaces the printer's earlier advisory of the same kind
+      const rest = this.state.advisories.filter((a) => a.printerId !== printerId || a.kind !== finding.kind);
+      this.setState({ advisories: [advisory, ...rest].slice(0, 100) });
+      this.advisoryListeners.forEach((l) => l(advisory));
+    }
+  }
+}
+
+export const faultPredictor = new FaultPredictor();
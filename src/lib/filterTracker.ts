@@ -6,6 +6,8 @@
  * The tracker calculates remaining hours and predicts the next change date.
  */
 
+import { persistentStorage } from '@/lib/persistence';
+
 const FILTER_CONFIG_KEY = 'codesync-filter-config';
 
 export interface FilterConfig {
@@ -22,7 +24,7 @@ export interface FilterConfig {
 
 function loadConfigs(): FilterConfig[] {
   try {
-    const raw = localStorage.getItem(FILTER_CONFIG_KEY);
+    const raw = persistentStorage.getItem(FILTER_CONFIG_KEY);
     return raw ? JSON.parse(raw) : [];
   } catch {
     return [];
@@ -31,7 +33,7 @@ function loadConfigs(): FilterConfig[] {
 
 function saveConfigs(configs: FilterConfig[]) {
   try {
-    localStorage.setItem(FILTER_CONFIG_KEY, JSON.stringify(configs));
+    persistentStorage.setItem(FILTER_CONFIG_KEY, JSON.stringify(configs));
   } catch (e) {
     console.error('[filterTracker] save failed:', e);
   }
@@ -0,0 +1,42 @@
+/**
+ * Read side of the fleet tables for the /fleet page. Every site the license's
+ * customer has registered comes back through the `fleet-monitoring` edge
+ * function (the tables themselves are service-role only).
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FleetSiteRow = Pick<Tables<'fleet_sites'>, 'id' | 'name' | 'company' | 'location' | 'contact_email' | 'updated_at'>;
+export type FleetTelemetry = Tables<'fleet_telemetry'>;
+export type FleetEvent = Omit<Tables<'fleet_events'>, 'metadata'> & { metadata: Record<string, unknown> | null };
+
+export interface FleetPrinterOverview extends Tables<'fleet_printers'> {
+  telemetry: FleetTelemetry | null;
+}
+
+export interface FleetOverview {
+  sites: FleetSiteRow[];
+  printers: FleetPrinterOverview[];
+  events: FleetEvent[];
+  latestFirmware: Pick<Tables<'fleet_firmware'>, 'id' | 'version' | 'release_notes' | 'created_at'> | null;
+}
+
+/** A printer with no telemetry for this long is shown as stale. */
+export const FLEET_STALE_MS = 15 * 60_000;
+
+async function invoke<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('fleet-monitoring', { body });
+  if (error) throw new Error(error.message || 'Fleet request failed');
+  if (data?.error) throw new Error(data.error);
+  return data as T;
+}
+
+export function fetchFleetOverview(): Promise<FleetOverview> {
+  return invoke<FleetOverview>({ op: 'overview' });
+}
+
+export async function fetchFleetHistory(printerId: string, hours = 24): Promise<FleetTelemetry[]> {
+  const { telemetry } = await invoke<{ telemetry: FleetTelemetry[] }>({ op: 'history', printer_id: printerId, hours });
+  return telemetry;
+}
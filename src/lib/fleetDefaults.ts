@@ -16,6 +16,7 @@
 
 import { useEffect, useState } from 'react';
 import { FLEET_DEFAULT_ADJUST_SETTINGS, Printer, PrintSettings } from '@/types/printer';
+import { PERSISTENT_STORAGE_EVENT, persistentStorage } from '@/lib/persistence';
 
 const STORAGE_KEY = 'codesync.fleetDefaults.v1';
 const CHANGE_EVENT = 'codesync:fleet-defaults-changed';
@@ -27,7 +28,7 @@ export type FleetDefaultsOverride = Pick<
 
 const readOverrides = (): Partial<FleetDefaultsOverride> => {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
+    const raw = persistentStorage.getItem(STORAGE_KEY);
     if (!raw) return {};
     const parsed = JSON.parse(raw);
     if (!parsed || typeof parsed !== 'object') return {};
@@ -48,17 +49,17 @@ export const getFleetDefaults = (): PrintSettings => merge(readOverrides());
 /** Persist a full override set and notify all subscribers. */
 export const setFleetDefaults = (next: FleetDefaultsOverride): void => {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    persistentStorage.setItem(STORAGE_KEY, JSON.stringify(next));
     window.dispatchEvent(new Event(CHANGE_EVENT));
   } catch {
-    // localStorage full / private mode — silent fail, next boot falls back
+    // storage full / private mode — silent fail, next boot falls back
   }
 };
 
 /** Reset back to hard-coded factory fallback. */
 export const resetFleetDefaults = (): void => {
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    persistentStorage.removeItem(STORAGE_KEY);
     window.dispatchEvent(new Event(CHANGE_EVENT));
   } catch {
     // ignore
@@ -77,9 +78,13 @@ export const useFleetDefaults = (): PrintSettings => {
   useEffect(() => {
     const refresh = () => setValue(getFleetDefaults());
     window.addEventListener(CHANGE_EVENT, refresh);
+    // Other windows: PERSISTENT_STORAGE_EVENT once storage is on its backend,
+    // `storage` while it is still (or stays) on localStorage
+    window.addEventListener(PERSISTENT_STORAGE_EVENT, refresh);
     window.addEventListener('storage', refresh);
     return () => {
       window.removeEventListener(CHANGE_EVENT, refresh);
+      window.removeEventListener(PERSISTENT_STORAGE_EVENT, refresh);
       window.removeEventListener('storage', refresh);
     };
   }, []);
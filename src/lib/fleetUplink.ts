@@ -0,0 +1,516 @@
+/**
+ * Fleet telemetry uplink — buffers what the connected printer's polling
+ * already parses (^SU metrics, ^TP temperatures, ^LE faults, ^CN counters,
+ * ^VV firmware) and ships it to the fleet_* tables through the
+ * `fleet-monitoring` edge function.
+ *
+ * - Telemetry is sampled once per `sampleSeconds` per printer; events (jet
+ *   start/stop, HV on/off, faults raised/cleared, fluid level changes,
+ *   firmware changes) are derived by diffing consecutive samples and are
+ *   never throttled.
+ * - Everything goes through an IndexedDB outbox first, so a PC that is
+ *   offline or unlicensed for a while loses nothing: the outbox drains in
+ *   order once `fleet-monitoring` accepts a batch again. Past MAX_OUTBOX the
+ *   oldest entries are dropped.
+ * - Opt-in: nothing is recorded until enabled with a site name in the Fleet
+ *   page's uplink card.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Printer, PrinterMetrics, PrinterStatus } from '@/types/printer';
+
+const SETTINGS_KEY = 'codesync.fleetUplink.v1';
+const FIRMWARE_KEY = 'codesync.fleetUplink.firmware.v1';
+const DB_NAME = 'codesync-fleet';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+const MAX_OUTBOX = 20_000;
+const FLUSH_BATCH = 500;
+const FLUSH_INTERVAL_MS = 30_000;
+const MAX_BACKOFF_MS = 10 * 60_000;
+
+export interface FleetUplinkSettings {
+  enabled: boolean;
+  /** Site this PC's printers are filed under in fleet_sites. */
+  siteName: string;
+  location: string;
+  /** Minimum seconds between telemetry rows for one printer. */
+  sampleSeconds: number;
+}
+
+const DEFAULT_SETTINGS: FleetUplinkSettings = {
+  enabled: false,
+  siteName: '',
+  location: '',
+  sampleSeconds: 60,
+};
+
+export interface FleetFault {
+  code: string;
+  severity: string;
+  message: string;
+}
+
+/** One poll's worth of parsed state for the connected printer. */
+export interface FleetSample {
+  printer: Pick<Printer, 'id' | 'name' | 'ipAddress' | 'port' | 'serialNumber'>;
+  metrics: PrinterMetrics | null;
+  status: PrinterStatus | null;
+  faults: FleetFault[];
+  filterHoursRemaining?: number | null;
+  at: number;
+}
+
+export interface FleetPrinterRef {
+  key: string;
+  name: string;
+  ip_address: string;
+  port: number;
+  serial_number: string | null;
+  firmware_version: string | null;
+  status: 'ready' | 'not_ready' | 'error' | 'offline';
+  last_seen: string;
+}
+
+export interface FleetTelemetryRow {
+  pressure: number | null;
+  viscosity: number | null;
+  modulation: number | null;
+  charge: number | null;
+  rps: number | null;
+  phase_qual: number | null;
+  ink_level: string | null;
+  makeup_level: string | null;
+  printhead_temp: number | null;
+  electronics_temp: number | null;
+  power_hours: string | null;
+  stream_hours: string | null;
+  hv_on: boolean | null;
+  jet_running: boolean | null;
+  print_count: number | null;
+  current_message: string | null;
+  filter_hours_remaining: number | null;
+  recorded_at: string;
+}
+
+export interface FleetEventRow {
+  event_type: string;
+  category: 'event' | 'smartfill';
+  severity: 'info' | 'warning' | 'error';
+  message: string;
+  metadata: Record<string, unknown> | null;
+  occurred_at: string;
+}
+
+type OutboxItem =
+  | { seq?: number; kind: 'telemetry'; printer: FleetPrinterRef; row: FleetTelemetryRow }
+  | { seq?: number; kind: 'event'; printer: FleetPrinterRef; row: FleetEventRow }
+  | { seq?: number; kind: 'status'; printer: FleetPrinterRef };
+
+export interface FleetUplinkState {
+  settings: FleetUplinkSettings;
+  queued: number;
+  flushing: boolean;
+  lastFlushAt: number | null;
+  lastSentCount: number;
+  lastError: string | null;
+  online: boolean;
+}
+
+type Listener = (state: FleetUplinkState) => void;
+
+// ── Sample mapping (pure) ──
+
+export function fleetPrinterKey(printer: FleetSample['printer']): string {
+  return `${printer.ipAddress}:${printer.port}`;
+}
+
+const finite = (v: number | undefined | null) => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+const knownLevel = (v: string | undefined | null) => (v && v.toUpperCase() !== 'UNKNOWN' ? v.toUpperCase() : null);
+
+function isFatal(f: FleetFault) {
+  return f.severity.toUpperCase().startsWith('F');
+}
+
+export function fleetPrinterRef(sample: FleetSample, firmware: string | null): FleetPrinterRef {
+  const { printer, status, faults } = sample;
+  return {
+    key: fleetPrinterKey(printer),
+    name: printer.name,
+    ip_address: printer.ipAddress,
+    port: printer.port,
+    serial_number: printer.serialNumber || null,
+    firmware_version: firmware,
+    status: faults.some(isFatal) ? 'error' : status?.isRunning ? 'ready' : 'not_ready',
+    last_seen: new Date(sample.at).toISOString(),
+  };
+}
+
+export function fleetTelemetryRow(sample: FleetSample): FleetTelemetryRow {
+  const { metrics: m, status: s } = sample;
+  return {
+    pressure: finite(m?.pressure),
+    viscosity: finite(m?.viscosity),
+    modulation: finite(m?.modulation),
+    charge: finite(m?.charge),
+    rps: finite(m?.rps),
+    phase_qual: finite(m?.phaseQual),
+    ink_level: knownLevel(s?.inkLevel ?? m?.inkLevel),
+    makeup_level: knownLevel(s?.makeupLevel ?? m?.makeupLevel),
+    printhead_temp: finite(m?.printheadTemp),
+    electronics_temp: finite(m?.electronicsTemp),
+    power_hours: m?.powerHours || null,
+    stream_hours: m?.streamHours || null,
+    hv_on: s ? s.isRunning : null,
+    jet_running: s ? s.jetRunning : null,
+    print_count: finite(s?.printCount),
+    current_message: s?.currentMessage ?? null,
+    filter_hours_remaining: finite(sample.filterHoursRemaining),
+    recorded_at: new Date(sample.at).toISOString(),
+  };
+}
+
+function levelSeverity(level: string): FleetEventRow['severity'] {
+  if (level === 'EMPTY') return 'error';
+  if (level === 'LOW') return 'warning';
+  return 'info';
+}
+
+/**
+ * Events between two consecutive samples of the same printer. The first
+ * sample after connecting is only a baseline — faults already active then
+ * were raised while nobody was watching and carry no reliable timestamp.
+ */
+export function deriveFleetEvents(prev: FleetSample | null, next: FleetSample): FleetEventRow[] {
+  if (!prev) return [];
+  const occurred_at = new Date(next.at).toISOString();
+  const out: FleetEventRow[] = [];
+  const push = (e: Omit<FleetEventRow, 'occurred_at' | 'metadata' | 'category'> & Partial<FleetEventRow>) =>
+    out.push({ category: 'event', metadata: null, occurred_at, ...e });
+
+  const ps = prev.status;
+  const ns = next.status;
+  if (ps && ns) {
+    if (ps.jetRunning !== ns.jetRunning) {
+      push({ event_type: ns.jetRunning ? 'jet_start' : 'jet_stop', severity: 'info', message: ns.jetRunning ? 'Jet started' : 'Jet stopped' });
+    }
+    if (ps.isRunning !== ns.isRunning) {
+      push({ event_type: ns.isRunning ? 'hv_on' : 'hv_off', severity: 'info', message: ns.isRunning ? 'HV on — ready to print' : 'HV off' });
+    }
+    for (const [field, label, type] of [
+      ['inkLevel', 'Ink', 'ink_level_change'],
+      ['makeupLevel', 'Makeup', 'makeup_level_change'],
+    ] as const) {
+      const before = knownLevel(ps[field]);
+      const after = knownLevel(ns[field]);
+      if (before && after && before !== after) {
+        push({
+          event_type: type,
+          category: 'smartfill',
+          severity: levelSeverity(after),
+          message: `${label} level ${before} → ${after}`,
+          metadata: { from: before, to: after },
+        });
+      }
+    }
+  }
+
+  const before = new Map(prev.faults.map((f) => [f.code, f]));
+  const after = new Map(next.faults.map((f) => [f.code, f]));
+  for (const [code, f] of after) {
+    if (before.has(code)) continue;
+    push({
+      event_type: 'fault_raised',
+      severity: isFatal(f) ? 'error' : 'warning',
+      message: `${code}: ${f.message}`,
+      metadata: { code, severity: f.severity },
+    });
+  }
+  for (const [code, f] of before) {
+    if (after.has(code)) continue;
+    push({ event_type: 'fault_cleared', severity: 'info', message: `${code} cleared: ${f.message}`, metadata: { code } });
+  }
+  return out;
+}
+
+// ── Outbox (IndexedDB) ──
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function appendToOutbox(items: OutboxItem[]): Promise<number> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    const store = tx.objectStore(OUTBOX_STORE);
+    items.forEach((item) => store.add(item));
+    const countReq = store.count();
+    let count = 0;
+    countReq.onsuccess = () => {
+      count = countReq.result;
+      const excess = count - MAX_OUTBOX;
+      if (excess <= 0) return;
+      let dropped = 0;
+      store.openCursor().onsuccess = (ev) => {
+        const cursor = (ev.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor || dropped >= excess) return;
+        cursor.delete();
+        dropped++;
+        cursor.continue();
+      };
+      count = MAX_OUTBOX;
+    };
+    tx.oncomplete = () => resolve(count);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function readOutbox(limit: number): Promise<OutboxItem[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, 'readonly');
+    const req = tx.objectStore(OUTBOX_STORE).getAll(undefined, limit);
+    req.onsuccess = () => resolve(req.result as OutboxItem[]);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function deleteThrough(seq: number): Promise<number> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    const store = tx.objectStore(OUTBOX_STORE);
+    store.delete(IDBKeyRange.upperBound(seq));
+    const countReq = store.count();
+    tx.oncomplete = () => resolve(countReq.result);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function countOutbox(): Promise<number> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).count();
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Collapse outbox items into one `ingest` request body. */
+export function buildIngestBody(settings: FleetUplinkSettings, items: OutboxItem[]) {
+  const printers = new Map<string, FleetPrinterRef>();
+  const telemetry: (FleetTelemetryRow & { printer_key: string })[] = [];
+  const events: (FleetEventRow & { printer_key: string })[] = [];
+  for (const item of items) {
+    // Later refs win: the printer row ends up with the newest status/firmware.
+    const known = printers.get(item.printer.key);
+    printers.set(item.printer.key, {
+      ...item.printer,
+      firmware_version: item.printer.firmware_version ?? known?.firmware_version ?? null,
+    });
+    if (item.kind === 'telemetry') telemetry.push({ ...item.row, printer_key: item.printer.key });
+    else if (item.kind === 'event') events.push({ ...item.row, printer_key: item.printer.key });
+  }
+  return {
+    op: 'ingest' as const,
+    site: { name: settings.siteName, location: settings.location || null },
+    printers: [...printers.values()],
+    telemetry,
+    events,
+  };
+}
+
+// ── Uplink ──
+
+function readSettings(): FleetUplinkSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_SETTINGS };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+function readFirmware(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(FIRMWARE_KEY) || '{}') ?? {};
+  } catch {
+    return {};
+  }
+}
+
+class FleetUplink {
+  private state: FleetUplinkState = {
+    settings: readSettings(),
+    queued: 0,
+    flushing: false,
+    lastFlushAt: null,
+    lastSentCount: 0,
+    lastError: null,
+    online: typeof navigator === 'undefined' ? true : navigator.onLine !== false,
+  };
+  private listeners = new Set<Listener>();
+  /** printer key → last sample, for event diffs */
+  private last = new Map<string, FleetSample>();
+  private lastTelemetryAt = new Map<string, number>();
+  /** printer key → last firmware version seen (persisted, so changes survive restarts) */
+  private firmware = readFirmware();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private failures = 0;
+  private retryAt = 0;
+  private started = false;
+
+  getState(): FleetUplinkState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<FleetUplinkState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((l) => l(this.state));
+  }
+
+  /** Start the flush timer; safe to call more than once. */
+  start() {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+    this.timer = setInterval(() => { void this.flush(); }, FLUSH_INTERVAL_MS);
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    countOutbox().then((queued) => this.setState({ queued })).catch(() => {});
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+    this.started = false;
+  }
+
+  private handleOnline = () => {
+    this.setState({ online: true });
+    this.retryAt = 0;
+    void this.flush();
+  };
+
+  private handleOffline = () => { this.setState({ online: false }); };
+
+  configure(patch: Partial<FleetUplinkSettings>) {
+    const settings = { ...this.state.settings, ...patch };
+    settings.siteName = settings.siteName.trim();
+    settings.location = settings.location.trim();
+    settings.sampleSeconds = Math.min(3600, Math.max(5, Math.round(Number(settings.sampleSeconds) || DEFAULT_SETTINGS.sampleSeconds)));
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.setState({ settings, lastError: null });
+    this.retryAt = 0;
+    if (settings.enabled) void this.flush();
+  }
+
+  private get active() {
+    return this.state.settings.enabled && !!this.state.settings.siteName;
+  }
+
+  /** Feed one parsed poll of the connected printer. */
+  record(sample: FleetSample) {
+    if (!this.active) return;
+    const key = fleetPrinterKey(sample.printer);
+    const prev = this.last.get(key) ?? null;
+    this.last.set(key, sample);
+
+    const version = sample.status?.printerVersion || null;
+    const ref = fleetPrinterRef(sample, version);
+    const items: OutboxItem[] = deriveFleetEvents(prev, sample).map((row) => ({ kind: 'event', printer: ref, row }));
+
+    if (version && this.firmware[key] !== version) {
+      if (this.firmware[key]) {
+        items.push({
+          kind: 'event',
+          printer: ref,
+          row: {
+            event_type: 'firmware_change',
+            category: 'event',
+            severity: 'info',
+            message: `Firmware ${this.firmware[key]} → ${version}`,
+            metadata: { from: this.firmware[key], to: version },
+            occurred_at: ref.last_seen,
+          },
+        });
+      }
+      this.firmware = { ...this.firmware, [key]: version };
+      localStorage.setItem(FIRMWARE_KEY, JSON.stringify(this.firmware));
+    }
+
+    const lastAt = this.lastTelemetryAt.get(key) ?? 0;
+    if (sample.metrics && sample.at - lastAt >= this.state.settings.sampleSeconds * 1000) {
+      this.lastTelemetryAt.set(key, sample.at);
+      items.push({ kind: 'telemetry', printer: ref, row: fleetTelemetryRow(sample) });
+    }
+    if (items.length > 0) this.enqueue(items);
+  }
+
+  /** The connected printer went away — file it as offline. */
+  markOffline(printer: FleetSample['printer']) {
+    const key = fleetPrinterKey(printer);
+    const prev = this.last.get(key);
+    this.last.delete(key);
+    this.lastTelemetryAt.delete(key);
+    if (!this.active || !prev) return;
+    const ref = { ...fleetPrinterRef(prev, this.firmware[key] ?? null), status: 'offline' as const, last_seen: new Date().toISOString() };
+    this.enqueue([{ kind: 'status', printer: ref }]);
+  }
+
+  private enqueue(items: OutboxItem[]) {
+    appendToOutbox(items)
+      .then((queued) => this.setState({ queued }))
+      .catch((err) => this.setState({ lastError: `Outbox: ${err?.message ?? err}` }));
+  }
+
+  /** Send queued entries, oldest first, until the outbox is empty or a batch fails. */
+  async flush(force = false): Promise<void> {
+    if (!this.active || this.state.flushing || !this.state.online) return;
+    if (!force && Date.now() < this.retryAt) return;
+    this.setState({ flushing: true });
+    let sent = 0;
+    try {
+      for (;;) {
+        const items = await readOutbox(FLUSH_BATCH);
+        if (items.length === 0) break;
+        const { data, error } = await supabase.functions.invoke('fleet-monitoring', {
+          body: buildIngestBody(this.state.settings, items),
+        });
+        if (error) throw new Error(error.message || 'Upload failed');
+        if (data?.error) throw new Error(data.error);
+        const queued = await deleteThrough(items[items.length - 1].seq!);
+        sent += items.length;
+        this.setState({ queued });
+        if (items.length < FLUSH_BATCH) break;
+      }
+      this.failures = 0;
+      this.retryAt = 0;
+      this.setState({ flushing: false, lastFlushAt: Date.now(), lastSentCount: sent, lastError: null });
+    } catch (err) {
+      this.failures++;
+      this.retryAt = Date.now() + Math.min(MAX_BACKOFF_MS, FLUSH_INTERVAL_MS * 2 ** (this.failures - 1));
+      this.setState({ flushing: false, lastError: err instanceof Error ? err.message : String(err) });
+    }
+  }
+}
+
+export const fleetUplink = new FleetUplink();
@@ -0,0 +1,190 @@
+/**
+ * Logo / graphic importer
+ *
+ * Turns a PNG, BMP or SVG into a 1-bit printer dot bitmap: the image is
+ * scaled to the target height in dots (white background under transparency),
+ * converted to grey, then thresholded or dithered. The result is encoded in
+ * the same column-major hex the DataMatrix generator uploads with ^NG, so the
+ * printer stores it as a named graphic that ^AL fields can reference.
+ */
+
+import { encodeColumnMajorHex } from '@/lib/dataMatrixGenerator';
+
+export type DitherMode = 'threshold' | 'floyd-steinberg' | 'atkinson' | 'ordered';
+
+export const DITHER_MODES: { value: DitherMode; label: string }[] = [
+  { value: 'threshold', label: 'Threshold' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'atkinson', label: 'Atkinson' },
+  { value: 'ordered', label: 'Ordered (Bayer)' },
+];
+
+export interface DitherOptions {
+  mode: DitherMode;
+  /** 0–255; darker greys than this become dots */
+  threshold: number;
+  /** Ink the light areas instead (white-on-black artwork) */
+  invert: boolean;
+}
+
+export const DEFAULT_DITHER_OPTIONS: DitherOptions = { mode: 'threshold', threshold: 128, invert: false };
+
+/** A 1-bit bitmap in printer dots; `dots` is row-major, 1 = ink. */
+export interface DotBitmap {
+  width: number;
+  height: number;
+  dots: Uint8Array;
+}
+
+/** Widest graphic we let the importer produce, in dots. */
+export const MAX_GRAPHIC_WIDTH = 1000;
+
+const BAYER_4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+/**
+ * Grey (0 = black … 255 = white, one byte per dot) → dots.
+ */
+export function ditherToDots(gray: Uint8ClampedArray | number[], width: number, height: number, options: DitherOptions): DotBitmap {
+  const { mode, threshold, invert } = options;
+  const dots = new Uint8Array(width * height);
+  const level = (v: number) => (invert ? 255 - v : v);
+
+  if (mode === 'threshold' || mode === 'ordered') {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // Bayer offsets spread ±half a step around the threshold
+        const t = mode === 'ordered' ? threshold + ((BAYER_4[y % 4][x % 4] + 0.5) / 16 - 0.5) * 255 : threshold;
+        dots[y * width + x] = level(gray[y * width + x]) < t ? 1 : 0;
+      }
+    }
+    return { width, height, dots };
+  }
+
+  // Error diffusion on a float copy
+  const buf = Float32Array.from({ length: width * height }, (_, i) => level(gray[i]));
+  const spread: [number, number, number][] = mode === 'atkinson'
+    // Atkinson diffuses 6/8 of the error, which keeps highlights clean on small logos
+    ? [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]]
+    : [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const on = buf[i] < threshold;
+      dots[i] = on ? 1 : 0;
+      const err = buf[i] - (on ? 0 : 255);
+      for (const [dx, dy, w] of spread) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny < height) buf[ny * width + nx] += err * w;
+      }
+    }
+  }
+  return { width, height, dots };
+}
+
+/** Column-major hex for ^NG. */
+export function dotsToHex(bitmap: DotBitmap): string {
+  return encodeColumnMajorHex(bitmap.width, bitmap.height, (x, y) => bitmap.dots[y * bitmap.width + x] === 1);
+}
+
+/** Inverse of dotsToHex, for previewing stored graphics. */
+export function hexToDots(hex: string, width: number, height: number): DotBitmap {
+  const dots = new Uint8Array(width * height);
+  const bytesPerColumn = Math.ceil(height / 8);
+  for (let x = 0; x < width; x++) {
+    for (let b = 0; b < bytesPerColumn; b++) {
+      const byte = parseInt(hex.substr((x * bytesPerColumn + b) * 2, 2), 16) || 0;
+      for (let bit = 0; bit < 8; bit++) {
+        const y = b * 8 + bit;
+        if (y < height && byte & (0x80 >> bit)) dots[y * width + x] = 1;
+      }
+    }
+  }
+  return { width, height, dots };
+}
+
+/**
+ * Printer graphic name from a file name: `ACME Logo.svg` → `ACME_LOGO.BMP`.
+ * The printer lists graphics as 8.3-ish BMP names.
+ */
+export function normalizeGraphicName(raw: string): string {
+  const stem = raw.trim().replace(/\.[^.]*$/, '').replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase().slice(0, 12);
+  return `${stem || 'LOGO'}.BMP`;
+}
+
+/** `^NG name;width;height;hex` — same format the DataMatrix fields use. */
+export function buildGraphicUploadCommand(name: string, bitmap: DotBitmap): string {
+  return `^NG ${name};${bitmap.width};${bitmap.height};${dotsToHex(bitmap)}`;
+}
+
+/**
+ * Graphic names from a ^LL (List Logos) response — one per line, ignoring
+ * echo headers, numbering and status lines.
+ */
+export function parseGraphicList(raw: string): string[] {
+  const names: string[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    const name = line.replace(/^\s*\d+[.)]\s*/, '').trim();
+    if (!/^[\w.-]+\.(bmp|png|gif|jpg)$/i.test(name)) continue;
+    if (!names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/** Strip the `[GRAPHIC: NAME]` label older logo fields carry. */
+export function graphicNameFromField(data: string): string {
+  const m = data.match(/^\[GRAPHIC:\s*([^\]]+)\]$/i);
+  return (m ? m[1] : data).trim();
+}
+
+/** Decode an image file (PNG, BMP, SVG, …) the browser can display. */
+export function loadImageFile(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read ${file.name} as an image`));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Scale an image to `targetHeight` dots (keeping its aspect ratio) and return
+ * one grey byte per dot. Transparent areas count as white.
+ */
+export function rasterizeImage(img: HTMLImageElement, targetHeight: number): { width: number; height: number; gray: Uint8ClampedArray } {
+  // SVGs without width/height attributes report 0 — treat them as square
+  const srcW = img.naturalWidth || img.width || targetHeight;
+  const srcH = img.naturalHeight || img.height || targetHeight;
+  const height = Math.max(1, Math.round(targetHeight));
+  const width = Math.max(1, Math.min(MAX_GRAPHIC_WIDTH, Math.round((srcW / srcH) * height)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { width, height, gray };
+}
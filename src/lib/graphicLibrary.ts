@@ -0,0 +1,195 @@
+/**
+ * Graphic library — logos imported with the graphic importer, and the
+ * graphics each printer reported on its last ^LL.
+ *
+ * Imported bitmaps persist (src/lib/persistence.ts) so MessageCanvas can draw a logo
+ * field dot-for-dot; graphics that were already on a printer (the printer
+ * has no download command) are listed by name only and drawn as a box.
+ * Upload sends ^NG to each printer the same way master/slave sync reaches
+ * printers that aren't the connected one: a guarded connect → command →
+ * disconnect, or the emulator instance in development.
+ */
+
+import { buildGraphicUploadCommand, hexToDots, dotsToHex, parseGraphicList, type DotBitmap } from '@/lib/graphicImporter';
+import { multiPrinterEmulator } from '@/lib/multiPrinterEmulator';
+import { printerEmulator } from '@/lib/printerEmulator';
+import { printerTransport, isRelayMode } from '@/lib/printerTransport';
+import { runFleetWriteExclusive, runPrinterWriteExclusive } from '@/lib/printerWriteQueue';
+import type { Printer } from '@/types/printer';
+import { persistentStorage } from '@/lib/persistence';
+
+const STORAGE_KEY = 'codesync.graphics.v1';
+
+export interface LibraryGraphic {
+  name: string;
+  width: number;
+  height: number;
+  /** Column-major ^NG hex */
+  hex: string;
+  sourceFile: string;
+  createdAt: number;
+}
+
+export interface PrinterGraphicList {
+  names: string[];
+  fetchedAt: number;
+}
+
+export interface GraphicLibraryState {
+  graphics: LibraryGraphic[];
+  /** Last known graphics per printer id */
+  printers: Record<number, PrinterGraphicList>;
+}
+
+export interface GraphicUploadResult {
+  printerId: number;
+  printerName: string;
+  success: boolean;
+  error?: string;
+}
+
+type Listener = (state: GraphicLibraryState) => void;
+
+function read(): GraphicLibraryState {
+  try {
+    const raw = persistentStorage.getItem(STORAGE_KEY);
+    if (raw) return { graphics: [], printers: {}, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error('[graphicLibrary] load failed', e);
+  }
+  return { graphics: [], printers: {} };
+}
+
+class GraphicLibraryStore {
+  private state: GraphicLibraryState = read();
+  private listeners = new Set<Listener>();
+  private bitmaps = new Map<string, DotBitmap>();
+
+  getState(): GraphicLibraryState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<GraphicLibraryState>) {
+    this.state = { ...this.state, ...patch };
+    try {
+      persistentStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (e) {
+      console.error('[graphicLibrary] save failed', e);
+    }
+    this.listeners.forEach((l) => l(this.state));
+  }
+
+  /** Add or replace an imported graphic. */
+  save(name: string, bitmap: DotBitmap, sourceFile: string) {
+    this.bitmaps.delete(name.toUpperCase());
+    const graphic: LibraryGraphic = { name, width: bitmap.width, height: bitmap.height, hex: dotsToHex(bitmap), sourceFile, createdAt: Date.now() };
+    this.setState({ graphics: [...this.state.graphics.filter((g) => g.name.toUpperCase() !== name.toUpperCase()), graphic] });
+    return graphic;
+  }
+
+  remove(name: string) {
+    this.bitmaps.delete(name.toUpperCase());
+    this.setState({ graphics: this.state.graphics.filter((g) => g.name.toUpperCase() !== name.toUpperCase()) });
+  }
+
+  find(name: string): LibraryGraphic | undefined {
+    return this.state.graphics.find((g) => g.name.toUpperCase() === name.toUpperCase());
+  }
+
+  /** Decoded dots of an imported graphic (cached), or null for names we only know from ^LL. */
+  bitmap(name: string): DotBitmap | null {
+    const key = name.toUpperCase();
+    const cached = this.bitmaps.get(key);
+    if (cached) return cached;
+    const g = this.find(name);
+    if (!g) return null;
+    const bitmap = hexToDots(g.hex, g.width, g.height);
+    this.bitmaps.set(key, bitmap);
+    return bitmap;
+  }
+
+  setPrinterGraphics(printerId: number, names: string[], at = Date.now()) {
+    this.setState({ printers: { ...this.state.printers, [printerId]: { names, fetchedAt: at } } });
+  }
+
+  private markUploaded(printerId: number, name: string) {
+    const current = this.state.printers[printerId];
+    if (current?.names.includes(name)) return;
+    this.setPrinterGraphics(printerId, [...(current?.names ?? []), name], current?.fetchedAt ?? Date.now());
+  }
+
+  /** Ask a printer for its graphics (^LL) and remember the answer. */
+  async fetchPrinterGraphics(printer: Printer, connectedPrinterId: number | null): Promise<string[]> {
+    const res = await sendToPrinter(printer, '^LL', connectedPrinterId);
+    if (!res.success) throw new Error(res.error ?? `${printer.name} did not answer ^LL`);
+    const names = parseGraphicList(res.response);
+    this.setPrinterGraphics(printer.id, names);
+    return names;
+  }
+
+  /** ^NG an imported graphic to each printer in turn. */
+  async upload(
+    graphic: LibraryGraphic,
+    printers: Printer[],
+    connectedPrinterId: number | null,
+    onProgress?: (result: GraphicUploadResult) => void,
+  ): Promise<GraphicUploadResult[]> {
+    const command = buildGraphicUploadCommand(graphic.name, hexToDots(graphic.hex, graphic.width, graphic.height));
+    const results: GraphicUploadResult[] = [];
+    for (const printer of printers) {
+      const res = await sendToPrinter(printer, command, connectedPrinterId);
+      const result = { printerId: printer.id, printerName: printer.name, success: res.success, error: res.success ? undefined : res.error };
+      if (res.success) this.markUploaded(printer.id, graphic.name);
+      results.push(result);
+      onProgress?.(result);
+    }
+    return results;
+  }
+}
+
+export const graphicLibrary = new GraphicLibraryStore();
+
+const shouldUseEmulator = () => printerEmulator.enabled || multiPrinterEmulator.enabled;
+
+async function sendToPrinter(
+  printer: Printer,
+  command: string,
+  connectedPrinterId: number | null,
+): Promise<{ success: boolean; response: string; error?: string }> {
+  const options = { maxWaitMs: 8000, caller: 'graphicLibrary' };
+
+  if (shouldUseEmulator()) {
+    const instance = multiPrinterEmulator.enabled
+      ? multiPrinterEmulator.getInstanceByIp(printer.ipAddress, printer.port)
+      : printer.id === connectedPrinterId ? printerEmulator : null;
+    if (!instance) return { success: false, response: '', error: 'Emulator instance not found' };
+    const res = instance.processCommand(command);
+    return { ...res, error: res.success ? undefined : res.response };
+  }
+
+  // The connected printer already holds the single Telnet session
+  if (printer.id === connectedPrinterId) {
+    return runPrinterWriteExclusive(printer.id, async () => {
+      const res = await printerTransport.sendCommand(printer.id, command, options);
+      return { success: !!res?.success, response: res?.response ?? '', error: res?.error };
+    });
+  }
+
+  if (!isRelayMode() && !window.electronAPI) return { success: false, response: '', error: 'Desktop app or relay required' };
+  return runFleetWriteExclusive(() => runPrinterWriteExclusive(printer.id, async () => {
+    try {
+      const connected = await printerTransport.connect({ id: printer.id, ipAddress: printer.ipAddress, port: printer.port });
+      if (!connected?.success) return { success: false, response: '', error: connected?.error ?? 'Connect failed' };
+      const res = await printerTransport.sendCommand(printer.id, command, options);
+      return { success: !!res?.success, response: res?.response ?? '', error: res?.error };
+    } catch (e) {
+      return { success: false, response: '', error: e instanceof Error ? e.message : String(e) };
+    } finally {
+      try { await printerTransport.disconnect(printer.id); } catch { /* already closed */ }
+    }
+  }));
+}
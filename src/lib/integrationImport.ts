@@ -0,0 +1,105 @@
+/**
+ * Imports what Electron main delivers on `hotfolder:new-file` — a hotfolder
+ * file already parsed by electron/hotfolderParsers.cjs, or a batch of rows
+ * from the database poller — into data_sources / data_source_rows.
+ *
+ * `create` payloads make a new source (a hotfolder file, like a manual quick
+ * import). `append` payloads add to the source with that name, creating it on
+ * first use, and extend the row count of any print job on that source that
+ * hasn't completed. Imports run one at a time so appends can't race for
+ * row_index.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { IntegrationFilePayload } from '@/types/electron';
+
+const INSERT_CHUNK = 100;
+
+export interface IntegrationImportResult {
+  sourceId: string;
+  sourceName: string;
+  /** Rows stored, counted from the start of the payload. */
+  imported: number;
+  mode: 'create' | 'append';
+  /** Set when the import stopped part-way. */
+  error?: string;
+}
+
+async function importPayload(payload: IntegrationFilePayload): Promise<IntegrationImportResult> {
+  const { columns, rows, sourceName } = payload;
+  if (columns.length === 0) throw new Error('No columns');
+
+  let sourceId: string | null = null;
+  let startIndex = 0;
+  let mode: 'create' | 'append' = 'create';
+
+  if (payload.mode === 'append') {
+    const { data: existing } = await supabase
+      .from('data_sources')
+      .select('id, columns')
+      .eq('name', sourceName)
+      .maybeSingle();
+    if (existing) {
+      sourceId = existing.id;
+      mode = 'append';
+      const { data: lastRow } = await supabase
+        .from('data_source_rows')
+        .select('row_index')
+        .eq('data_source_id', existing.id)
+        .order('row_index', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      startIndex = (lastRow?.row_index ?? -1) + 1;
+      // A column added upstream shows up in the mapping picker too.
+      const known = existing.columns ?? [];
+      const added = columns.filter((c) => !known.includes(c));
+      if (added.length > 0) {
+        await supabase.from('data_sources').update({ columns: [...known, ...added] }).eq('id', existing.id);
+      }
+    }
+  }
+
+  if (!sourceId) {
+    if (rows.length === 0) throw new Error('No data rows');
+    const { data: source, error } = await supabase
+      .from('data_sources')
+      .insert({ name: sourceName, columns })
+      .select('id')
+      .single();
+    if (error || !source) throw new Error(error?.message || 'Failed to create data source');
+    sourceId = source.id;
+  }
+
+  let imported = 0;
+  let failure: string | undefined;
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    const chunk = rows.slice(i, i + INSERT_CHUNK).map((values, idx) => ({
+      data_source_id: sourceId!,
+      row_index: startIndex + i + idx,
+      values,
+    }));
+    const { error } = await supabase.from('data_source_rows').insert(chunk);
+    if (error) { failure = error.message; break; }
+    imported += chunk.length;
+  }
+
+  if (mode === 'append' && imported > 0) {
+    const total = startIndex + imported;
+    await supabase
+      .from('print_jobs')
+      .update({ total_rows: total })
+      .eq('data_source_id', sourceId)
+      .neq('status', 'completed');
+  }
+
+  return { sourceId, sourceName, imported, mode, error: failure };
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Queue one payload for import; resolves once it (and everything before it) is done. */
+export function importIntegrationPayload(payload: IntegrationFilePayload): Promise<IntegrationImportResult> {
+  const run = queue.then(() => importPayload(payload));
+  queue = run.catch(() => {});
+  return run;
+}
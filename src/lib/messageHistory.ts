@@ -0,0 +1,195 @@
+/**
+ * Message version history — every layout saved from the message editor,
+ * kept per printerId:messageName so an overwritten layout can be compared and
+ * rolled back.
+ *
+ * Message storage (useMessageStorage) holds only the latest MessageDetails
+ * per printerId:messageName; this store appends a version under the same key
+ * on each editor save (skipping saves that change nothing) with who saved it.
+ * Pushes recorded by messageSentHistory (Save, Select, Copy, Sync) are added
+ * to the printer list of the newest saved version of that name.
+ */
+
+import type { MessageDetails, MessageField } from '@/components/screens/EditMessageScreen';
+import { persistentStorage } from '@/lib/persistence';
+
+const STORAGE_KEY = 'codesync.messageHistory.v1';
+
+/** Oldest versions beyond this are dropped to keep the store bounded. */
+export const MAX_VERSIONS_PER_MESSAGE = 100;
+
+export interface MessageVersion {
+  version: number;
+  savedAt: number;
+  author: string;
+  /** Printer whose copy was edited, when known */
+  printerId: number | null;
+  /** Printers this version was pushed to */
+  pushedTo: number[];
+  /** e.g. "Rollback to v3" */
+  note?: string;
+  message: MessageDetails;
+}
+
+export interface MessageHistoryState {
+  /** Name stamped on new versions */
+  author: string;
+  /** Keyed by historyKey(printerId, messageName) */
+  versions: Record<string, MessageVersion[]>;
+}
+
+export type FieldDiffStatus = 'added' | 'removed' | 'changed' | 'same';
+
+export interface FieldDiff {
+  id: number;
+  status: FieldDiffStatus;
+  before?: MessageField;
+  after?: MessageField;
+  /** Properties that differ, for 'changed' */
+  changes: string[];
+}
+
+type Listener = (state: MessageHistoryState) => void;
+
+const DEFAULT_STATE: MessageHistoryState = { author: 'Operator', versions: {} };
+
+/** Same composite key as useMessageStorage; no printer is printer 0 there too. */
+export function historyKey(printerId: number | null | undefined, messageName: string): string {
+  return `${printerId ?? 0}:${messageName}`;
+}
+
+/** History saved before per-printer keys is keyed by the bare message name — split it by each version's printer. */
+function scopeVersions(versions: Record<string, MessageVersion[]>): Record<string, MessageVersion[]> {
+  const scoped: Record<string, MessageVersion[]> = {};
+  for (const [key, list] of Object.entries(versions)) {
+    for (const v of list) {
+      const target = key === v.message.name ? historyKey(v.printerId, key) : key;
+      (scoped[target] ??= []).push(v);
+    }
+  }
+  return scoped;
+}
+
+function read(): MessageHistoryState {
+  try {
+    const raw = persistentStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = { ...DEFAULT_STATE, ...JSON.parse(raw) };
+      return { ...parsed, versions: scopeVersions(parsed.versions) };
+    }
+  } catch (e) {
+    console.error('[messageHistory] load failed', e);
+  }
+  return DEFAULT_STATE;
+}
+
+/** Everything that ends up on the printer — not the name, not UI-only state. */
+function contentOf(m: MessageDetails): string {
+  return JSON.stringify([m.height, m.width, m.templateValue, m.fields, m.settings, m.advancedSettings, m.adjustSettings, m.adjustOverrides]);
+}
+
+const DIFF_KEYS: (keyof MessageField)[] = ['type', 'data', 'x', 'y', 'width', 'height', 'fontSize', 'bold', 'gap', 'rotation', 'autoNumerals', 'promptBeforePrint', 'literalText'];
+
+/** Field-level diff, matching fields by id. */
+export function diffMessageFields(before: MessageDetails, after: MessageDetails): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  const afterById = new Map(after.fields.map((f) => [f.id, f]));
+  for (const b of before.fields) {
+    const a = afterById.get(b.id);
+    if (!a) {
+      diffs.push({ id: b.id, status: 'removed', before: b, changes: [] });
+      continue;
+    }
+    const changes = DIFF_KEYS.filter((k) => (b[k] ?? null) !== (a[k] ?? null));
+    diffs.push({ id: b.id, status: changes.length ? 'changed' : 'same', before: b, after: a, changes });
+    afterById.delete(b.id);
+  }
+  for (const a of afterById.values()) diffs.push({ id: a.id, status: 'added', after: a, changes: [] });
+  return diffs;
+}
+
+class MessageHistoryStore {
+  private state: MessageHistoryState = read();
+  private listeners = new Set<Listener>();
+
+  getState(): MessageHistoryState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<MessageHistoryState>) {
+    this.state = { ...this.state, ...patch };
+    try {
+      persistentStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (e) {
+      console.error('[messageHistory] save failed', e);
+    }
+    this.listeners.forEach((l) => l(this.state));
+  }
+
+  setAuthor(author: string) {
+    this.setState({ author: author.trim() || DEFAULT_STATE.author });
+  }
+
+  /** Versions of one printer's copy of a message, oldest first. */
+  list(printerId: number | null | undefined, messageName: string): MessageVersion[] {
+    return this.state.versions[historyKey(printerId, messageName)] ?? [];
+  }
+
+  latest(printerId: number | null | undefined, messageName: string): MessageVersion | null {
+    const list = this.list(printerId, messageName);
+    return list.length ? list[list.length - 1] : null;
+  }
+
+  /**
+   * Append a version for a saved message. A save identical to the latest
+   * version only adds its printers to that version.
+   */
+  record(message: MessageDetails, options: { printerId?: number | null; pushedTo?: number[]; note?: string; at?: number } = {}): MessageVersion {
+    const key = historyKey(options.printerId, message.name);
+    const list = this.state.versions[key] ?? [];
+    const last = list[list.length - 1];
+    const pushedTo = options.pushedTo ?? [];
+    if (last && !options.note && contentOf(last.message) === contentOf(message)) {
+      const merged = { ...last, pushedTo: [...new Set([...last.pushedTo, ...pushedTo])] };
+      this.setState({ versions: { ...this.state.versions, [key]: [...list.slice(0, -1), merged] } });
+      return merged;
+    }
+    const version: MessageVersion = {
+      version: (last?.version ?? 0) + 1,
+      savedAt: options.at ?? Date.now(),
+      author: this.state.author,
+      printerId: options.printerId ?? null,
+      pushedTo: [...new Set(pushedTo)],
+      note: options.note,
+      message,
+    };
+    this.setState({ versions: { ...this.state.versions, [key]: [...list, version].slice(-MAX_VERSIONS_PER_MESSAGE) } });
+    return version;
+  }
+
+  /**
+   * Note a push of the message to a printer. What gets pushed (a Sync or Copy
+   * from another printer's copy) is the newest version saved under that name
+   * on any printer.
+   */
+  markPushed(messageName: string, printerId: number) {
+    let key: string | null = null;
+    let last: MessageVersion | null = null;
+    for (const [k, list] of Object.entries(this.state.versions)) {
+      const v = list[list.length - 1];
+      if (!v || k !== historyKey(v.printerId, messageName)) continue;
+      if (!last || v.savedAt >= last.savedAt) { key = k; last = v; }
+    }
+    if (!key || !last || last.pushedTo.includes(printerId)) return;
+    const list = this.state.versions[key];
+    this.setState({
+      versions: { ...this.state.versions, [key]: [...list.slice(0, -1), { ...last, pushedTo: [...last.pushedTo, printerId] }] },
+    });
+  }
+}
+
+export const messageHistory = new MessageHistoryStore();
@@ -6,7 +6,11 @@
  * whenever a message is successfully pushed to a printer (Save, Select,
  * Copy, Sync) — read by the ApplyToPrintersDialog to pre-check the
  * printers that have previously run a given message (Squid parity).
+ * Each push is also noted against the message's latest saved version.
  */
+import { messageHistory } from '@/lib/messageHistory';
+import { persistentStorage } from '@/lib/persistence';
+
 const STORAGE_KEY = 'bestcode-message-sent-history-v1';
 
 // Shape: { [messageName]: { [printerId]: epochMs } }
@@ -14,7 +18,7 @@ type SentMap = Record<string, Record<string, number>>;
 
 function load(): SentMap {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
+    const raw = persistentStorage.getItem(STORAGE_KEY);
     return raw ? (JSON.parse(raw) as SentMap) : {};
   } catch {
     return {};
@@ -23,7 +27,7 @@ function load(): SentMap {
 
 function save(map: SentMap): void {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(map));
+    persistentStorage.setItem(STORAGE_KEY, JSON.stringify(map));
   } catch (e) {
     console.error('[SentHistory] Failed to persist:', e);
   }
@@ -37,6 +41,7 @@ export function recordMessageSent(printerId: number, messageName: string): void
   entry[String(printerId)] = Date.now();
   map[messageName] = entry;
   save(map);
+  messageHistory.markPushed(messageName, printerId);
 }
 
 /** Every printer that has ever received `messageName`. */
@@ -280,6 +280,8 @@ class PrinterEmulatorInstance {
         response = this.cmdSelectMessage(trimmedCommand);
       } else if (trimmedCommand.startsWith('^LM')) {
         response = this.cmdListMessages();
+      } else if (trimmedCommand.startsWith('^LL')) {
+        response = this.cmdListLogos();
       } else if (trimmedCommand.startsWith('^CN')) {
         response = this.cmdCountQuery();
       } else if (trimmedCommand.startsWith('^TP')) {
@@ -492,6 +494,10 @@ class PrinterEmulatorInstance {
     return msgs.map(m => m === this.state.currentMessage ? `${m} (current)` : m).join('\r\n');
   }
 
+  private cmdListLogos(): string {
+    return this.state.logos.join('\r\n');
+  }
+
   private cmdCountQuery(): string {
     const s = this.state;
     if (s.echoOn) {
@@ -862,6 +868,18 @@ class MultiPrinterEmulatorManager {
     return null;
   }
 
+  /**
+   * Instance by printer ID regardless of the enabled flag — the pseudo-serial
+   * bridge (serialEmulatorBridge.ts) serves these to Electron main while the
+   * in-renderer emulation is off.
+   */
+  getConfiguredInstance(id: number): PrinterEmulatorInstance | null {
+    for (const instance of this.instances.values()) {
+      if (instance.config.id === id) return instance;
+    }
+    return null;
+  }
+
   /**
    * Check if an IP is an emulated printer
    */
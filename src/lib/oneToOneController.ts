@@ -10,12 +10,15 @@
  *   6. On exit: send ^ME, detach demuxer, resume polling
  *
  * Designed to be transport-agnostic at the call site — the underlying socket
- * work happens in electron/main.cjs. PWA/relay paths are not yet wired (we
- * deliberately fall back to a no-op so the renderer never crashes).
+ * work happens in electron/main.cjs, reached either over IPC (Electron) or
+ * through the PC relay (`relayOneToOne`, ACKs streamed back over SSE). With
+ * neither available we fall back to an in-process R/T/C emulation so the
+ * renderer never deadlocks.
  */
 
 import { setPollingPaused } from './pollingPause';
-import { printerTransport } from './printerTransport';
+import { printerTransport, isRelayMode } from './printerTransport';
+import { relayOneToOne } from './relayOneToOne';
 
 /** Hardware buffer holds 4 messages × 1020 bytes; cap in-flight at 4 to avoid silent drops. */
 const MAX_IN_FLIGHT = 4;
@@ -23,6 +26,8 @@ const MAX_IN_FLIGHT = 4;
 const TARGET_IN_FLIGHT = 3;
 /** If no R within this window, treat ^MD as silently-dropped → caller may retry. */
 const R_TIMEOUT_MS = 500;
+/** Relay adds an HTTP hop for ^MD and an SSE hop for R — allow for WiFi jitter. */
+const RELAY_R_TIMEOUT_MS = 1500;
 /** Total per-print lifecycle deadline (R → T → C). PE-bound, so generous. */
 const C_TIMEOUT_MS = 30_000;
 
@@ -69,6 +74,15 @@ export interface OneToOneEvents {
   onFault?: (code: 'JET_STOP' | 'DEF_OFF') => void;
 }
 
+type OneToOneApi = NonNullable<Window['electronAPI']>['oneToOne'];
+
+/** Electron IPC when available, else the relay when configured, else none. */
+function oneToOneApi(): OneToOneApi | undefined {
+  if (window.electronAPI?.oneToOne) return window.electronAPI.oneToOne;
+  if (isRelayMode()) return relayOneToOne;
+  return undefined;
+}
+
 class OneToOneController {
   private state: OneToOneState = 'idle';
   private printerId: number | null = null;
@@ -112,8 +126,15 @@ class OneToOneController {
     this.subscribeAcks();
 
     // Attach the demuxer in main.
-    if (window.electronAPI?.oneToOne) {
-      await window.electronAPI.oneToOne.attach(printerId);
+    const api = oneToOneApi();
+    if (api) {
+      const attached = await api.attach(printerId);
+      // Over the relay a refused attach (not allowlisted, another device
+      // already in 1-1) must stop us before ^MB reaches the printer.
+      if (!attached.success && api === relayOneToOne) {
+        await this.cleanupAfterFailure();
+        return { ok: false, error: (attached as { error?: string }).error || 'Demuxer attach failed' };
+      }
     }
 
     // ^MB — enter 1-1 mode. This DOES still get a normal text response ('OnetoOne Print Mode').
@@ -170,7 +191,7 @@ class OneToOneController {
     const rTimer = setTimeout(() => {
       if (entry.tR) return;
       this.completeInternal(entry, { id, ok: false, reason: 'timeout-R' });
-    }, R_TIMEOUT_MS);
+    }, isRelayMode() ? RELAY_R_TIMEOUT_MS : R_TIMEOUT_MS);
 
     const cTimer = setTimeout(() => {
       if (entry.tC) return;
@@ -182,13 +203,14 @@ class OneToOneController {
     (entry as any)._cTimer = cTimer;
 
     // Fire the ^MD on the wire — no response expected (suppressed in 1-1).
-    if (window.electronAPI?.oneToOne) {
-      const send = await window.electronAPI.oneToOne.sendMD(this.printerId, mdCommand);
+    const api = oneToOneApi();
+    if (api) {
+      const send = await api.sendMD(this.printerId, mdCommand);
       if (!send.success) {
         this.completeInternal(entry, { id, ok: false, reason: send.error || 'send-failed' });
       }
     } else {
-      // Fallback for non-Electron environments — emulate immediate R/T/C so callers don't deadlock.
+      // Fallback when no transport is available — emulate immediate R/T/C so callers don't deadlock.
       setTimeout(() => this.handleAck('R', id), 1);
       setTimeout(() => this.handleAck('T', id), 5);
       setTimeout(() => this.handleAck('C', id), 10);
@@ -221,9 +243,7 @@ class OneToOneController {
       if (!me?.success) {
         result = { ok: false, error: me?.error || 'ME failed' };
       }
-      if (window.electronAPI?.oneToOne) {
-        await window.electronAPI.oneToOne.detach(printerId);
-      }
+      await oneToOneApi()?.detach(printerId);
     }
 
     this.unsubscribeAcks();
@@ -240,8 +260,9 @@ class OneToOneController {
 
   private subscribeAcks() {
     if (this.unsubscribeAck) return;
-    if (!window.electronAPI?.oneToOne) return;
-    this.unsubscribeAck = window.electronAPI.oneToOne.onAck((payload: OneToOneAckPayload) => {
+    const api = oneToOneApi();
+    if (!api) return;
+    this.unsubscribeAck = api.onAck((payload: OneToOneAckPayload) => {
       if (payload.printerId !== this.printerId) return;
       if (payload.kind === 'fault') {
         this.handleFault(payload.code!);
@@ -306,8 +327,8 @@ class OneToOneController {
         p._resolve({ id: p.id, ok: false, reason: 'jet-stop' });
       });
       this.unsubscribeAcks();
-      if (this.printerId != null && window.electronAPI?.oneToOne) {
-        window.electronAPI.oneToOne.detach(this.printerId).catch(() => {});
+      if (this.printerId != null) {
+        oneToOneApi()?.detach(this.printerId).catch(() => {});
       }
       if (!this.wasPollingPaused) setPollingPaused(false);
       this.printerId = null;
@@ -332,8 +353,8 @@ class OneToOneController {
 
   private async cleanupAfterFailure() {
     this.unsubscribeAcks();
-    if (this.printerId != null && window.electronAPI?.oneToOne) {
-      try { await window.electronAPI.oneToOne.detach(this.printerId); } catch (_) {}
+    if (this.printerId != null) {
+      try { await oneToOneApi()?.detach(this.printerId); } catch (_) {}
     }
     if (!this.wasPollingPaused) setPollingPaused(false);
     this.printerId = null;
@@ -0,0 +1,417 @@
+/**
+ * Unified persistence for messages, printers and production data.
+ *
+ * These stores used to write straight to localStorage, which caps the whole
+ * origin at ~5 MB — a large message library plus catalogs and histories ran
+ * into the quota. They now go through `persistentStorage`, a synchronous
+ * key/value facade over an in-memory copy of a real database:
+ *
+ * - Electron: a SQLite file in userData (electron/persistentStore.cjs), with
+ *   a JSON file fallback when better-sqlite3 isn't available.
+ * - Browser: an IndexedDB object store.
+ *
+ * main.tsx awaits `initPersistence()` before loading the app, so stores that
+ * read their state at import time see the hydrated data. Writes update the
+ * cache immediately and reach the backend in short batches; the last batch
+ * is flushed when the window unloads.
+ *
+ * The key layout is versioned under SCHEMA_VERSION_KEY and upgraded by
+ * MIGRATIONS in order. Version 1 imports every existing localStorage key;
+ * the localStorage copies are only removed once the backend has them.
+ *
+ * Until init completes — and in tests — every call passes through to
+ * localStorage, so behaviour there is unchanged. When no backend can be
+ * opened the migrations run against localStorage instead, so data in an
+ * old layout (v1 messages) is still readable there.
+ *
+ * Each window holds its own cache. Flushed changes are broadcast to the
+ * app's other windows, which apply them to their cache and fire
+ * PERSISTENT_STORAGE_EVENT — the counterpart of the `storage` event, which
+ * only fires for localStorage writes.
+ */
+
+import type { StorageChanges } from '@/types/electron';
+
+export const SCHEMA_VERSION_KEY = '__schemaVersion';
+
+/** Window event fired when another window changed persisted keys; `detail` lists the keys. */
+export const PERSISTENT_STORAGE_EVENT = 'codesync:persistent-storage';
+
+const CHANNEL_NAME = 'codesync.persistence';
+
+/** Keys owned by the persistence layer. Anything else (license, UI prefs, dev toggles) stays in localStorage. */
+export const PERSISTED_KEYS = [
+  // Messages
+  'bestcode-messages-v2',
+  'bestcode-pc-library',
+  'bestcode-swap-slot',
+  'bestcode-protected-messages',
+  'bestcode-message-sent-history-v1',
+  'codesync.messageHistory.v1',
+  'codesync.graphics.v1',
+  // Printers
+  'codesync-printers',
+  'codesync.fleetDefaults.v1',
+  'codesync-consumables',
+  'codesync-consumable-assignments',
+  'codesync-reorder-config',
+  'codesync-consumption-history',
+  'codesync-filter-config',
+  'codesync.faultHistory.v1',
+  'codesync.faultPredictor.v1',
+  'codesync.spc.v1',
+  'twin-code:pair-binding:v1',
+  // Production
+  'twincode.catalog.v1',
+  'twincode.catalogQueue.v1',
+  'twincode.catalogQueue.lowWater.v1',
+  'twincode.activeRun.v1',
+  'twin-code-autocode-counter',
+  'codesync.downtime.v1',
+  'codesync.autoRuns.v1',
+] as const;
+
+/** v1 message storage, keyed by message name only (before per-printer scoping). */
+const LEGACY_MESSAGES_KEY = 'bestcode-messages';
+
+const FLUSH_DELAY_MS = 250;
+
+export interface PersistenceBackend {
+  name: 'sqlite' | 'json' | 'indexeddb';
+  loadAll(): Promise<Record<string, string>>;
+  write(changes: StorageChanges): Promise<void>;
+  /** Blocking write for the unload path, where a pending promise may never settle */
+  writeSync?(changes: StorageChanges): void;
+}
+
+type LegacyStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/** The part of BroadcastChannel used to reach the app's other windows. */
+export interface ChangeChannel {
+  postMessage(changes: StorageChanges): void;
+  onmessage: ((event: { data: StorageChanges }) => void) | null;
+}
+
+export interface MigrationContext {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  remove(key: string): void;
+  /** Copy a key from localStorage unless the store already has it; the original is removed after the next flush. */
+  importLegacy(key: string): void;
+}
+
+export interface PersistenceMigration {
+  version: number;
+  description: string;
+  run(ctx: MigrationContext): void;
+}
+
+export const MIGRATIONS: PersistenceMigration[] = [
+  {
+    version: 1,
+    description: 'Import existing localStorage data',
+    run(ctx) {
+      for (const key of [...PERSISTED_KEYS, LEGACY_MESSAGES_KEY]) ctx.importLegacy(key);
+    },
+  },
+  {
+    version: 2,
+    description: 'Scope legacy messages to printer 0',
+    run(ctx) {
+      const legacy = ctx.get(LEGACY_MESSAGES_KEY);
+      if (legacy == null) return;
+      if (ctx.get('bestcode-messages-v2') == null) {
+        try {
+          const parsed: Record<string, unknown> = JSON.parse(legacy);
+          const scoped: Record<string, unknown> = {};
+          for (const [name, details] of Object.entries(parsed)) scoped[`0:${name}`] = details;
+          ctx.set('bestcode-messages-v2', JSON.stringify(scoped));
+        } catch (e) {
+          console.error('[persistence] legacy messages unreadable', e);
+          return;
+        }
+      }
+      ctx.remove(LEGACY_MESSAGES_KEY);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function browserLocalStorage(): LegacyStorage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+function browserChannel(): ChangeChannel | null {
+  return typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+}
+
+export class PersistentStorage {
+  private cache: Map<string, string> | null = null;
+  private backend: PersistenceBackend | null = null;
+  private pendingSet = new Map<string, string>();
+  private pendingRemove = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private channel: ChangeChannel | null = null;
+
+  constructor(
+    private legacy: () => LegacyStorage | null = browserLocalStorage,
+    private openChannel: () => ChangeChannel | null = browserChannel,
+  ) {}
+
+  /** Where reads and writes currently go. */
+  get backendName(): PersistenceBackend['name'] | 'localStorage' {
+    return this.backend?.name ?? 'localStorage';
+  }
+
+  getItem(key: string): string | null {
+    if (!this.cache) return this.legacy()?.getItem(key) ?? null;
+    return this.cache.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (!this.cache) {
+      this.legacy()?.setItem(key, value);
+      return;
+    }
+    this.cache.set(key, value);
+    this.pendingSet.set(key, value);
+    this.pendingRemove.delete(key);
+    this.schedule();
+  }
+
+  removeItem(key: string): void {
+    if (!this.cache) {
+      this.legacy()?.removeItem(key);
+      return;
+    }
+    this.cache.delete(key);
+    this.pendingSet.delete(key);
+    this.pendingRemove.add(key);
+    this.schedule();
+  }
+
+  /**
+   * Load everything from the backend, run pending migrations and switch
+   * reads and writes over to it. Throws if the backend can't be read, in
+   * which case storage stays on localStorage.
+   */
+  async init(backend: PersistenceBackend): Promise<void> {
+    const entries = await backend.loadAll();
+    this.cache = new Map(Object.entries(entries));
+    this.backend = backend;
+    this.channel = this.openChannel();
+    if (this.channel) this.channel.onmessage = (event) => this.applyRemote(event.data);
+
+    const imported = this.migrate();
+    if (!(await this.flush())) return;
+    const legacy = this.legacy();
+    for (const key of imported) legacy?.removeItem(key);
+  }
+
+  /**
+   * Run the migrations against localStorage itself — for when no backend
+   * could be opened and storage stays there.
+   */
+  migrateInPlace(): void {
+    if (!this.cache) this.migrate();
+  }
+
+  /** Write pending changes to the backend now. False if they were requeued after a failure. */
+  async flush(): Promise<boolean> {
+    const changes = this.takePending();
+    if (!changes || !this.backend) return true;
+    this.publish(changes);
+    try {
+      await this.backend.write(changes);
+      return true;
+    } catch (e) {
+      console.error('[persistence] save failed', e);
+      this.requeue(changes);
+      return false;
+    }
+  }
+
+  /** Flush from the unload handler — blocking where the backend allows it. */
+  flushSync(): void {
+    const changes = this.takePending();
+    if (!changes || !this.backend) return;
+    this.publish(changes);
+    try {
+      if (this.backend.writeSync) this.backend.writeSync(changes);
+      else void this.backend.write(changes);
+    } catch (e) {
+      console.error('[persistence] save failed', e);
+    }
+  }
+
+  private migrate(): string[] {
+    const imported: string[] = [];
+    const from = Number(this.getItem(SCHEMA_VERSION_KEY) ?? 0);
+    const ctx: MigrationContext = {
+      get: (key) => this.getItem(key),
+      set: (key, value) => this.setItem(key, value),
+      remove: (key) => this.removeItem(key),
+      importLegacy: (key) => {
+        // Migrating localStorage in place: it already holds everything
+        if (!this.cache) return;
+        const value = this.legacy()?.getItem(key);
+        if (value == null) return;
+        if (!this.cache!.has(key)) this.setItem(key, value);
+        imported.push(key);
+      },
+    };
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= from) continue;
+      migration.run(ctx);
+      this.setItem(SCHEMA_VERSION_KEY, String(migration.version));
+      console.log(`[persistence] migrated to v${migration.version}: ${migration.description}`);
+    }
+    return imported;
+  }
+
+  private publish(changes: StorageChanges) {
+    try {
+      this.channel?.postMessage(changes);
+    } catch (e) {
+      console.error('[persistence] broadcast failed', e);
+    }
+  }
+
+  /** Another window flushed — take its values unless this window has a newer change queued. */
+  private applyRemote(changes: StorageChanges) {
+    if (!this.cache) return;
+    const keys: string[] = [];
+    for (const [key, value] of Object.entries(changes.set)) {
+      if (this.pendingSet.has(key) || this.pendingRemove.has(key)) continue;
+      this.cache.set(key, value);
+      keys.push(key);
+    }
+    for (const key of changes.remove) {
+      if (this.pendingSet.has(key)) continue;
+      this.cache.delete(key);
+      keys.push(key);
+    }
+    if (keys.length && typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(PERSISTENT_STORAGE_EVENT, { detail: keys }));
+    }
+  }
+
+  private schedule() {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  private takePending(): StorageChanges | null {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pendingSet.size === 0 && this.pendingRemove.size === 0) return null;
+    const changes = { set: Object.fromEntries(this.pendingSet), remove: [...this.pendingRemove] };
+    this.pendingSet.clear();
+    this.pendingRemove.clear();
+    return changes;
+  }
+
+  /** Put a failed batch back, unless a newer change to the same key is already queued. */
+  private requeue(changes: StorageChanges) {
+    for (const [key, value] of Object.entries(changes.set)) {
+      if (!this.pendingSet.has(key) && !this.pendingRemove.has(key)) this.pendingSet.set(key, value);
+    }
+    for (const key of changes.remove) {
+      if (!this.pendingSet.has(key)) this.pendingRemove.add(key);
+    }
+    this.schedule();
+  }
+}
+
+export const persistentStorage = new PersistentStorage();
+
+// ── Backends ──
+
+const DB_NAME = 'codesync';
+const DB_VERSION = 1;
+const STORE = 'kv';
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function indexedDbBackend(): Promise<PersistenceBackend> {
+  const db = await openDB();
+  return {
+    name: 'indexeddb',
+    loadAll: () =>
+      new Promise((resolve, reject) => {
+        const entries: Record<string, string> = {};
+        const tx = db.transaction(STORE, 'readonly');
+        const req = tx.objectStore(STORE).openCursor();
+        req.onsuccess = () => {
+          const cursor = req.result;
+          if (!cursor) return;
+          entries[String(cursor.key)] = cursor.value;
+          cursor.continue();
+        };
+        tx.oncomplete = () => resolve(entries);
+        tx.onerror = () => reject(tx.error);
+      }),
+    write: (changes) =>
+      new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        for (const [key, value] of Object.entries(changes.set)) store.put(value, key);
+        for (const key of changes.remove) store.delete(key);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      }),
+  };
+}
+
+function electronBackend(api: NonNullable<Window['electronAPI']>['storage']): PersistenceBackend {
+  let name: PersistenceBackend['name'] = 'sqlite';
+  return {
+    get name() { return name; },
+    loadAll: async () => {
+      const result = await api.loadAll();
+      name = result.backend;
+      return result.entries;
+    },
+    write: async (changes) => { await api.write(changes); },
+    writeSync: (changes) => { api.writeSync(changes); },
+  };
+}
+
+let initialized: Promise<void> | null = null;
+
+/** Hydrate `persistentStorage` from SQLite (Electron) or IndexedDB (browser). Never rejects. */
+export function initPersistence(): Promise<void> {
+  if (initialized) return initialized;
+  initialized = (async () => {
+    try {
+      const api = typeof window !== 'undefined' ? window.electronAPI?.storage : undefined;
+      if (!api && typeof indexedDB === 'undefined') {
+        persistentStorage.migrateInPlace();
+        return;
+      }
+      await persistentStorage.init(api ? electronBackend(api) : await indexedDbBackend());
+      window.addEventListener('beforeunload', () => persistentStorage.flushSync());
+      console.log(`[persistence] using ${persistentStorage.backendName}`);
+    } catch (e) {
+      console.error('[persistence] init failed, staying on localStorage', e);
+      persistentStorage.migrateInPlace();
+    }
+  })();
+  return initialized;
+}
@@ -10,6 +10,9 @@
  * Fallback: module-level flag for non-Electron (PWA standalone) use.
  */
 
+import { getRelayConfig, relayRequest } from './printerTransport';
+import { relayEvents } from './relayEvents';
+
 type PauseListener = (paused: boolean) => void;
 type IdleListener = () => void;
 
@@ -42,12 +45,21 @@ export function setPollingPaused(paused: boolean): void {
       _paused = false;
       _autoResumeTimer = null;
       _listeners.forEach(fn => fn(false));
+      mirrorToMain(false);
       console.log('[pollingPause] Auto-resumed after 5 minutes');
     }, AUTO_RESUME_MS);
   }
 
   console.log('[pollingPause]', paused ? 'PAUSED' : 'RESUMED');
   _listeners.forEach(fn => fn(paused));
+  mirrorToMain(paused);
+}
+
+// Main echoes the change back via polling:pause-changed; setPollingPaused
+// ignores the echo because the state already matches.
+function mirrorToMain(paused: boolean) {
+  if (typeof window === 'undefined') return;
+  window.electronAPI?.setPollingPaused?.(paused).catch(() => {});
 }
 
 export function onPollingPauseChange(listener: PauseListener): () => void {
@@ -107,18 +119,9 @@ if (typeof window !== 'undefined' && (window as any).electronAPI?.onPollingPause
 // --- Relay transport (for mobile PWA) ---
 export async function relaySetPollingPaused(paused: boolean): Promise<boolean> {
   try {
-    const stored = localStorage.getItem('relay-config');
-    if (!stored) return false;
-    const config = JSON.parse(stored);
-    const base = `http://${config.pcIp}:${config.port || 8766}`;
+    if (!getRelayConfig()) return false;
     const endpoint = paused ? 'pause-polling' : 'resume-polling';
-    const res = await fetch(`${base}/relay/${endpoint}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: '{}',
-      signal: AbortSignal.timeout(5000),
-    });
-    const data = await res.json();
+    const data = await relayRequest(endpoint, {}, 5000);
     if (data.success) {
       // Also update local state for immediate UI feedback
       setPollingPaused(paused);
@@ -129,3 +132,12 @@ export async function relaySetPollingPaused(paused: boolean): Promise<boolean> {
     return false;
   }
 }
+
+// --- Relay event stream (mobile PWA) ---
+// Pause/resume made on the PC (its button, another phone, a relay 1-1
+// session) arrives as a push instead of being polled from /relay/polling-status.
+// Subscribing is harmless outside relay mode — the stream only opens there.
+if (typeof window !== 'undefined' && !window.electronAPI) {
+  relayEvents.on('hello', ({ paused }) => setPollingPaused(paused));
+  relayEvents.on('pause', ({ paused }) => setPollingPaused(paused));
+}
@@ -0,0 +1,212 @@
+/**
+ * Print length estimator
+ *
+ * Works out how long a message physically prints and how fast the line may
+ * run before the printer can't keep up, from the message fields, the Adjust
+ * settings and the Wire & Cable encoder calibration.
+ *
+ * Model:
+ * - A message is a run of strokes (columns of dots). Text fields contribute
+ *   their glyph advances plus the field gap and the Adjust Gap after each
+ *   character; barcode and logo fields their width. Field Bold repeats each
+ *   of the field's strokes, Adjust Bold repeats every stroke.
+ * - Strokes are fired every `Width` encoder pulses (Width 0 counts as 1), so
+ *   printed length = strokes × Width × mm per pulse. Pitch (^PA) is in
+ *   pulses too.
+ * - Each speed setting has a drop rate; a stroke of N rows takes
+ *   N + GUARD_DROPS_PER_STROKE drops, which caps the stroke rate and so the
+ *   line speed. The printer doesn't report these rates and we have no
+ *   published figures, so DEFAULT_DROP_RATE_HZ are uncalibrated starting
+ *   values. The Print Length dialog labels the limits as estimates and lets
+ *   the rates be overridden once measured on a line (saved with the inputs).
+ */
+
+import { getTextWidthDots } from '@/lib/dotMatrixFonts';
+import type { EncoderConfig } from '@/components/wirecable/EncoderCalibration';
+import type { MessageField } from '@/components/screens/EditMessageScreen';
+import type { PrintSettings } from '@/types/printer';
+
+export type SpeedSetting = PrintSettings['speed'];
+
+export const SPEED_SETTINGS: SpeedSetting[] = ['Fast', 'Faster', 'Fastest', 'Ultra Fast'];
+
+/** Usable drops per second at each speed setting — uncalibrated defaults, see above. */
+export const DEFAULT_DROP_RATE_HZ: Record<SpeedSetting, number> = {
+  'Fast': 16000,
+  'Faster': 24000,
+  'Fastest': 32000,
+  'Ultra Fast': 40000,
+};
+
+/** Unprinted guard drops between strokes. */
+export const GUARD_DROPS_PER_STROKE = 4;
+
+/** Same default as the Wire & Cable screen: ~200 mm wheel, 200 pulses. */
+export const DEFAULT_ENCODER_CONFIG: EncoderConfig = {
+  wheelDiameterMm: 63.66,
+  pulsesPerRevolution: 200,
+  unit: 'mm',
+};
+
+const ENCODER_KEY = 'wirecable-encoder';
+const INPUTS_KEY = 'codesync.printEstimate.v1';
+
+export interface EstimatorInputs {
+  /** Conveyor speed in m/min */
+  lineSpeedMpm: number;
+  /** Product length along the line in mm; 0 = not set */
+  productLengthMm: number;
+  /** Drops per second per speed setting, overriding DEFAULT_DROP_RATE_HZ */
+  dropRateHz: Record<SpeedSetting, number>;
+}
+
+function defaultInputs(): EstimatorInputs {
+  return { lineSpeedMpm: 0, productLengthMm: 0, dropRateHz: { ...DEFAULT_DROP_RATE_HZ } };
+}
+
+export type EstimateWarningKind = 'product' | 'pitch' | 'speed';
+
+export interface EstimateWarning {
+  kind: EstimateWarningKind;
+  message: string;
+}
+
+export interface SpeedLimit {
+  speed: SpeedSetting;
+  maxStrokeRateHz: number;
+  maxLineSpeedMpm: number;
+}
+
+export interface PrintEstimate {
+  strokes: number;
+  mmPerPulse: number;
+  strokePitchMm: number;
+  lengthMm: number;
+  /** 0 when Pitch is off */
+  pitchMm: number;
+  limits: SpeedLimit[];
+  /** Limit for the message's own speed setting */
+  current: SpeedLimit;
+  warnings: EstimateWarning[];
+}
+
+/** Encoder calibration saved by the Wire & Cable screen. */
+export function loadEncoderConfig(): EncoderConfig {
+  try {
+    const raw = localStorage.getItem(ENCODER_KEY);
+    if (raw) return { ...DEFAULT_ENCODER_CONFIG, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error('[printLengthEstimator] encoder load failed', e);
+  }
+  return DEFAULT_ENCODER_CONFIG;
+}
+
+export function loadEstimatorInputs(): EstimatorInputs {
+  try {
+    const raw = localStorage.getItem(INPUTS_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      const defaults = defaultInputs();
+      return { ...defaults, ...parsed, dropRateHz: { ...defaults.dropRateHz, ...parsed.dropRateHz } };
+    }
+  } catch (e) {
+    console.error('[printLengthEstimator] load failed', e);
+  }
+  return defaultInputs();
+}
+
+export function saveEstimatorInputs(inputs: EstimatorInputs): void {
+  try {
+    localStorage.setItem(INPUTS_KEY, JSON.stringify(inputs));
+  } catch (e) {
+    console.error('[printLengthEstimator] save failed', e);
+  }
+}
+
+export function mmPerPulse(encoder: EncoderConfig): number {
+  return (Math.PI * encoder.wheelDiameterMm) / Math.max(1, encoder.pulsesPerRevolution);
+}
+
+/** Strokes one field occupies, before Adjust Bold. */
+export function fieldStrokes(field: MessageField, adjustGap: number): number {
+  const repeat = (field.bold ?? 0) + 1;
+  if (field.type === 'barcode' || field.type === 'logo') return field.width * repeat;
+  const text = field.data ?? '';
+  const chars = [...text].length;
+  if (chars === 0) return 0;
+  const fieldGap = field.gap ?? 1;
+  // The gap after the last character is not printed
+  const width = getTextWidthDots(text, field.fontSize, fieldGap + adjustGap) - fieldGap - adjustGap;
+  return Math.max(0, width) * repeat;
+}
+
+/** Strokes from the start of the message to the right edge of its last field. */
+export function messageStrokes(fields: MessageField[], settings: Pick<PrintSettings, 'bold' | 'gap'>): number {
+  const right = fields.reduce((max, f) => Math.max(max, f.x + fieldStrokes(f, settings.gap ?? 0)), 0);
+  return right * ((settings.bold ?? 0) + 1);
+}
+
+/** Strokes per second the printer can fire at a speed setting for a raster `rows` dots tall. */
+export function maxStrokeRateHz(
+  speed: SpeedSetting,
+  rows: number,
+  dropRateHz: Record<SpeedSetting, number> = DEFAULT_DROP_RATE_HZ,
+): number {
+  const rate = dropRateHz[speed] > 0 ? dropRateHz[speed] : DEFAULT_DROP_RATE_HZ[speed] ?? DEFAULT_DROP_RATE_HZ['Ultra Fast'];
+  return rate / (Math.max(1, rows) + GUARD_DROPS_PER_STROKE);
+}
+
+export function estimatePrint(options: {
+  fields: MessageField[];
+  /** Message raster height in dots */
+  rows: number;
+  settings: Pick<PrintSettings, 'width' | 'bold' | 'gap' | 'pitch' | 'speed'>;
+  encoder: EncoderConfig;
+  inputs: EstimatorInputs;
+}): PrintEstimate {
+  const { fields, rows, settings, encoder, inputs } = options;
+  const unit = encoder.unit;
+  const perPulse = mmPerPulse(encoder);
+  const strokes = messageStrokes(fields, settings);
+  const strokePitchMm = Math.max(1, settings.width) * perPulse;
+  const lengthMm = strokes * strokePitchMm;
+  const pitchMm = Math.max(0, settings.pitch) * perPulse;
+
+  const limits = SPEED_SETTINGS.map((speed): SpeedLimit => {
+    const rate = maxStrokeRateHz(speed, rows, inputs.dropRateHz);
+    return { speed, maxStrokeRateHz: rate, maxLineSpeedMpm: (rate * strokePitchMm * 60) / 1000 };
+  });
+  const current = limits.find((l) => l.speed === settings.speed) ?? limits[limits.length - 1];
+
+  const warnings: EstimateWarning[] = [];
+  if (inputs.productLengthMm > 0 && lengthMm > inputs.productLengthMm) {
+    warnings.push({
+      kind: 'product',
+      message: `Message prints ${formatLength(lengthMm, unit)} — longer than the ${formatLength(inputs.productLengthMm, unit)} product`,
+    });
+  }
+  if (pitchMm > 0 && lengthMm > pitchMm) {
+    warnings.push({
+      kind: 'pitch',
+      message: `Message prints ${formatLength(lengthMm, unit)} — longer than the ${formatLength(pitchMm, unit)} pitch, prints will overlap`,
+    });
+  }
+  if (inputs.lineSpeedMpm > 0 && inputs.lineSpeedMpm > current.maxLineSpeedMpm) {
+    const faster = limits.find((l) => l.maxLineSpeedMpm >= inputs.lineSpeedMpm);
+    warnings.push({
+      kind: 'speed',
+      message: `${formatSpeed(inputs.lineSpeedMpm, unit)} is above the estimated ${formatSpeed(current.maxLineSpeedMpm, unit)} limit for ${current.speed}`
+        + (faster ? ` — use ${faster.speed} or a wider Width` : ' — increase Width'),
+    });
+  }
+
+  return { strokes, mmPerPulse: perPulse, strokePitchMm, lengthMm, pitchMm, limits, current, warnings };
+}
+
+export function formatLength(mm: number, unit: EncoderConfig['unit']): string {
+  return unit === 'inches' ? `${(mm / 25.4).toFixed(2)} in` : `${mm.toFixed(1)} mm`;
+}
+
+export function formatSpeed(mpm: number, unit: EncoderConfig['unit']): string {
+  return unit === 'inches' ? `${(mpm * 3.28084).toFixed(0)} ft/min` : `${mpm.toFixed(1)} m/min`;
+}
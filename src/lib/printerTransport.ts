@@ -2,7 +2,7 @@
  * Transport abstraction for printer communication.
  *
  * Provides a unified API that works across:
- * 1. Electron (direct TCP via IPC)
+ * 1. Electron (direct TCP or RS-232 / USB-serial via IPC)
  * 2. Relay mode (HTTP via PC's relay server on port 8766)
  * 3. Emulator (development mode)
  *
@@ -16,12 +16,18 @@
 import { recordCommand } from './printerCommandLog';
 import { isSaveBusy } from './saveBusy';
 import { isPrinterWriteExclusiveHeld } from './printerWriteQueue';
+import type { PrinterEndpoint } from '@/types/electron';
 
 const RELAY_STORAGE_KEY = 'relay-config';
 
 export interface RelayConfig {
   pcIp: string;
   port?: number;
+  /** Credentials issued by /relay/pair — required when the PC enforces auth. */
+  deviceId?: string;
+  secret?: string;
+  /** Relay serves HTTPS (self-signed certificate trusted on this device). */
+  tls?: boolean;
 }
 
 export interface TransportCommandOptions {
@@ -33,6 +39,25 @@ export interface TransportCommandOptions {
 
 let relayConfig: RelayConfig | null = null;
 
+// Serial bindings by printer id. Most callers build `{ id, ipAddress, port }`
+// straight from the Printer record; connect/setMeta/checkStatus fill in the
+// serial path from here so every one of them reaches a serial printer.
+const serialEndpoints = new Map<number, { serialPath: string; baudRate?: number }>();
+
+/** Called whenever the printer list changes (usePrinterStorage). */
+export function registerPrinterEndpoints(printers: Array<{ id: number; serialPath?: string | null; baudRate?: number }>) {
+  serialEndpoints.clear();
+  for (const p of printers) {
+    if (p.serialPath) serialEndpoints.set(p.id, { serialPath: p.serialPath, baudRate: p.baudRate });
+  }
+}
+
+function resolveEndpoint(printer: PrinterEndpoint): PrinterEndpoint {
+  if (printer.serialPath) return printer;
+  const serial = serialEndpoints.get(printer.id);
+  return serial ? { ...printer, ...serial } : printer;
+}
+
 // Load on module init
 try {
   const stored = localStorage.getItem(RELAY_STORAGE_KEY);
@@ -56,9 +81,13 @@ export function isRelayMode(): boolean {
   return !!relayConfig && !window.electronAPI;
 }
 
+export function relayBaseUrl(config: RelayConfig): string {
+  return `${config.tls ? 'https' : 'http'}://${config.pcIp}:${config.port || 8766}`;
+}
+
 function getRelayUrl(): string | null {
   if (!relayConfig) return null;
-  return `http://${relayConfig.pcIp}:${relayConfig.port || 8766}`;
+  return relayBaseUrl(relayConfig);
 }
 
 // Default HTTP abort ceiling for a single relay call. Individual commands can
@@ -80,34 +109,86 @@ function resolveRelayTimeoutMs(body: unknown): number {
   return DEFAULT_RELAY_TIMEOUT_MS;
 }
 
-async function relayFetch(endpoint: string, body: unknown): Promise<{ printers?: unknown[]; success?: boolean; response?: string; error?: string; [k: string]: unknown } | null> {
-  const base = getRelayUrl();
-  if (!base) throw new Error('Relay not configured');
-  const res = await fetch(`${base}/relay/${endpoint}`, {
+/**
+ * Auth headers for one relay request (see electron/relayAuth.cjs). Signs
+ * `${ts}\n${method}\n${path}\n${body}` with HMAC-SHA256 when WebCrypto is
+ * available — it isn't on plain-HTTP LAN origins in most mobile browsers —
+ * and otherwise falls back to a bearer token.
+ */
+export async function relayAuthHeaders(config: RelayConfig, method: string, path: string, body: string): Promise<Record<string, string>> {
+  if (!config.deviceId || !config.secret) return {};
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle) return { Authorization: `Bearer ${config.deviceId}:${config.secret}` };
+  const ts = String(Date.now());
+  const enc = new TextEncoder();
+  const key = await subtle.importKey('raw', enc.encode(config.secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const sig = await subtle.sign('HMAC', key, enc.encode(`${ts}\n${method.toUpperCase()}\n${path}\n${body}`));
+  const hex = Array.from(new Uint8Array(sig), (b) => b.toString(16).padStart(2, '0')).join('');
+  return { 'X-Relay-Device': config.deviceId, 'X-Relay-Ts': ts, 'X-Relay-Sig': hex };
+}
+
+/**
+ * Authenticated POST to a relay endpoint. Used by the transport below and by
+ * other relay callers (polling pause) so every request carries credentials.
+ */
+export async function relayRequest(endpoint: string, body: unknown, timeoutMs = DEFAULT_RELAY_TIMEOUT_MS, config: RelayConfig | null = relayConfig) {
+  if (!config) throw new Error('Relay not configured');
+  const path = `/relay/${endpoint}`;
+  const json = JSON.stringify(body);
+  const auth = await relayAuthHeaders(config, 'POST', path, json);
+  const res = await fetch(`${relayBaseUrl(config)}${path}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-    signal: AbortSignal.timeout(resolveRelayTimeoutMs(body)),
+    headers: { 'Content-Type': 'application/json', ...auth },
+    body: json,
+    signal: AbortSignal.timeout(timeoutMs),
   });
+  if (res.status === 401) throw new Error('Relay rejected this device — pair again');
   return res.json();
 }
 
+async function relayFetch(endpoint: string, body: unknown): Promise<{ printers?: unknown[]; success?: boolean; response?: string; error?: string; [k: string]: unknown } | null> {
+  if (!getRelayUrl()) throw new Error('Relay not configured');
+  return relayRequest(endpoint, body, resolveRelayTimeoutMs(body));
+}
+
 /** Test if the relay server is reachable */
-export async function testRelayConnection(config?: RelayConfig): Promise<{ ok: boolean; version?: string; error?: string }> {
+export async function testRelayConnection(config?: RelayConfig): Promise<{ ok: boolean; version?: string; requireAuth?: boolean; tls?: boolean; error?: string }> {
   const target = config || relayConfig;
   if (!target) return { ok: false, error: 'No relay configured' };
-  const url = `http://${target.pcIp}:${target.port || 8766}/relay/info`;
+  const url = `${relayBaseUrl(target)}/relay/info`;
   try {
     const res = await fetch(url, { signal: AbortSignal.timeout(3000) });
     if (!res.ok) return { ok: false, error: `HTTP ${res.status}` };
     const data = await res.json();
-    return data.relay ? { ok: true, version: data.version } : { ok: false, error: 'Not a relay server' };
+    return data.relay
+      ? { ok: true, version: data.version, requireAuth: data.requireAuth !== false, tls: !!data.tls }
+      : { ok: false, error: 'Not a relay server' };
   } catch (err) {
     const msg = err instanceof Error ? err.message : 'Cannot reach relay';
     return { ok: false, error: msg };
   }
 }
 
+/**
+ * Exchange the one-time pairing code shown on the PC for device credentials.
+ * Returns the config to persist (with deviceId/secret) on success.
+ */
+export async function pairRelay(config: RelayConfig, code: string, deviceName: string): Promise<{ ok: boolean; config?: RelayConfig; error?: string }> {
+  try {
+    const res = await fetch(`${relayBaseUrl(config)}/relay/pair`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, deviceName }),
+      signal: AbortSignal.timeout(5000),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.deviceId) return { ok: false, error: data.error || `HTTP ${res.status}` };
+    return { ok: true, config: { pcIp: config.pcIp, port: config.port, tls: !!config.tls, deviceId: data.deviceId, secret: data.secret } };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : 'Cannot reach relay' };
+  }
+}
+
 // --- Tripwire: writes that could collide with an in-flight save ---
 // Commands that MUTATE printer state (save/select/delete). A non-mutating
 // read (^SU, ^VV, ^LM, ^GM, ^LF, ^CN, ^TM, ^TP, ^SD, ^LE, ^S) is far less
@@ -116,7 +197,10 @@ export async function testRelayConnection(config?: RelayConfig): Promise<{ ok: b
 // ^SJ (jet start/stop) and ^PR (HV on/off) added — a torn-down socket while
 // these are in flight has been observed to lock BestCode firmware requiring
 // a power-cycle. Any caller MUST hold runPrinterWriteExclusive.
-const MUTATING_RE = /^\^(NM|NF|SV|DM|SM|CC|MD|BD|PR|CM|AP|SJ|ME|MB)/i;
+// The relay server (electron/relayAuth.cjs) blocks the same list for paired
+// devices that haven't been allowlisted for it — keep the two in sync.
+export const MUTATING_COMMANDS = ['NM', 'NF', 'SV', 'DM', 'SM', 'CC', 'MD', 'BD', 'PR', 'CM', 'AP', 'SJ', 'ME', 'MB', 'NG'] as const;
+export const MUTATING_RE = new RegExp(`^\\^(${MUTATING_COMMANDS.join('|')})`, 'i');
 
 function checkTripwire(printerId: number, command: string, caller?: string): { saveBusy: boolean; lockHeld: boolean } {
   const saveBusy = isSaveBusy();
@@ -144,7 +228,8 @@ function checkTripwire(printerId: number, command: string, caller?: string): { s
 // --- Unified transport methods ---
 
 export const printerTransport = {
-  async checkStatus(printers: { id: number; ipAddress: string; port: number }[]) {
+  async checkStatus(endpoints: PrinterEndpoint[]) {
+    const printers = endpoints.map(resolveEndpoint);
     if (isRelayMode()) {
       try {
         const data = await relayFetch('check-status', { printers });
@@ -160,7 +245,8 @@ export const printerTransport = {
     return null; // No transport available
   },
 
-  async connect(printer: { id: number; ipAddress: string; port: number }) {
+  async connect(endpoint: PrinterEndpoint) {
+    const printer = resolveEndpoint(endpoint);
     if (isRelayMode()) {
       return relayFetch('connect', { printer });
     }
@@ -221,7 +307,8 @@ export const printerTransport = {
     }
   },
 
-  async setMeta(printer: { id: number; ipAddress: string; port: number }) {
+  async setMeta(endpoint: PrinterEndpoint) {
+    const printer = resolveEndpoint(endpoint);
     if (isRelayMode()) {
       // Relay doesn't need meta — connect does the work
       return { success: true };
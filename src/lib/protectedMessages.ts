@@ -19,6 +19,7 @@
  */
 
 import { useEffect, useReducer } from 'react';
+import { persistentStorage } from '@/lib/persistence';
 
 const KEY = 'bestcode-protected-messages';
 
@@ -26,7 +27,7 @@ const norm = (name: string): string => (name ?? '').trim().toUpperCase();
 
 function load(): Set<string> {
   try {
-    const raw = localStorage.getItem(KEY);
+    const raw = persistentStorage.getItem(KEY);
     if (!raw) return new Set();
     const arr = JSON.parse(raw);
     return new Set(Array.isArray(arr) ? arr.map(String) : []);
@@ -40,7 +41,7 @@ const listeners = new Set<() => void>();
 
 function persist(): void {
   try {
-    localStorage.setItem(KEY, JSON.stringify(Array.from(cache)));
+    persistentStorage.setItem(KEY, JSON.stringify(Array.from(cache)));
   } catch (e) {
     console.error('[ProtectedMessages] Failed to persist', e);
   }
@@ -0,0 +1,158 @@
+/**
+ * Live event feed from the PC relay (GET /relay/events, SSE).
+ *
+ * Replaces the companion's timers against check-status / polling-status and
+ * lets it skip its own ^SU/^LE reads while the PC is already polling the same
+ * printer — every extra read is another write into a fragile port-23 session.
+ *
+ * The stream opens lazily on the first `on()` subscription in relay mode and
+ * closes when the last one unsubscribes. `getState().connected` tells callers
+ * whether pushes are flowing, so they can fall back to polling when not.
+ */
+
+import { getRelayConfig, isRelayMode } from './printerTransport';
+import { openRelayStream } from './relayStream';
+import { recordCommand, type CommandLogEntry } from './printerCommandLog';
+
+export interface RelayAvailabilityEvent {
+  printers: { id: number; isAvailable: boolean; status: string }[];
+}
+
+export interface RelayStatusEvent {
+  printerId: number;
+  command: '^SU' | '^LE';
+  response: string;
+  at: number;
+  via: 'pc' | 'relay';
+  deviceId: string | null;
+}
+
+export interface RelayPauseEvent {
+  paused: boolean;
+  source: 'pc' | 'relay' | 'one-to-one';
+}
+
+export interface RelayCommandEvent extends Omit<CommandLogEntry, 'saveBusy' | 'lockHeld'> {
+  via: 'pc' | 'relay';
+  deviceId: string | null;
+}
+
+export interface RelayHelloEvent {
+  paused: boolean;
+  connected: number[];
+  events: string[];
+}
+
+export interface RelayEventMap {
+  hello: RelayHelloEvent;
+  availability: RelayAvailabilityEvent;
+  status: RelayStatusEvent;
+  pause: RelayPauseEvent;
+  command: RelayCommandEvent;
+  'connection-lost': { printerId: number };
+}
+
+export type RelayEventType = keyof RelayEventMap;
+
+export interface RelayEventsState {
+  connected: boolean;
+  lastEventAt: number | null;
+  error: string | null;
+}
+
+type Listener = (state: RelayEventsState) => void;
+type Handler<K extends RelayEventType> = (data: RelayEventMap[K]) => void;
+
+class RelayEvents {
+  private state: RelayEventsState = { connected: false, lastEventAt: null, error: null };
+  private listeners = new Set<Listener>();
+  private handlers = new Map<RelayEventType, Set<Handler<RelayEventType>>>();
+  private close: (() => void) | null = null;
+  private lastByType = new Map<RelayEventType, number>();
+
+  getState(): RelayEventsState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  /** Whether `type` was pushed within `maxAgeMs` on a live stream. */
+  isFresh(type: RelayEventType, maxAgeMs: number): boolean {
+    const at = this.lastByType.get(type);
+    return this.state.connected && at != null && Date.now() - at < maxAgeMs;
+  }
+
+  on<K extends RelayEventType>(type: K, handler: Handler<K>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) { set = new Set(); this.handlers.set(type, set); }
+    set.add(handler as Handler<RelayEventType>);
+    this.ensureOpen();
+    return () => {
+      set!.delete(handler as Handler<RelayEventType>);
+      if ([...this.handlers.values()].every((s) => s.size === 0)) this.shutdown();
+    };
+  }
+
+  /** Drop and reopen — used after the relay config (host or pairing) changes. */
+  restart() {
+    this.shutdown();
+    if ([...this.handlers.values()].some((s) => s.size > 0)) this.ensureOpen();
+  }
+
+  private ensureOpen() {
+    if (this.close || !isRelayMode()) return;
+    this.close = openRelayStream('/relay/events', {
+      onOpen: () => this.set({ connected: true, error: null }),
+      onError: (error) => this.set({ connected: false, error }),
+      onEvent: (event, data) => {
+        const type = event as RelayEventType;
+        const now = Date.now();
+        this.lastByType.set(type, now);
+        this.set({ lastEventAt: now });
+        this.handlers.get(type)?.forEach((h) => {
+          try { h(data as RelayEventMap[RelayEventType]); } catch (e) { console.error('[relayEvents]', type, e); }
+        });
+      },
+    }, getRelayConfig());
+  }
+
+  private shutdown() {
+    this.close?.();
+    this.close = null;
+    this.lastByType.clear();
+    this.set({ connected: false });
+  }
+
+  private set(patch: Partial<RelayEventsState>) {
+    this.state = { ...this.state, ...patch };
+    const s = this.state;
+    this.listeners.forEach((l) => l(s));
+  }
+}
+
+export const relayEvents = new RelayEvents();
+
+/**
+ * Feed the PC's command stream into this device's printerCommandLog so the
+ * Dev Panel export covers everything that hit the printer, not just what
+ * this phone sent. Our own relay commands are already logged locally.
+ */
+export function mirrorRelayCommandLog(): () => void {
+  return relayEvents.on('command', (e) => {
+    if (e.via === 'relay' && e.deviceId === (getRelayConfig()?.deviceId ?? null)) return;
+    recordCommand({
+      printerId: e.printerId,
+      command: e.command,
+      startedAt: e.startedAt,
+      durationMs: e.durationMs,
+      ok: e.ok,
+      response: e.response,
+      error: e.error,
+      saveBusy: false,
+      lockHeld: false,
+      caller: `${e.via === 'pc' ? 'pc' : `relay:${e.deviceId ?? '?'}`}/${e.caller ?? '?'}`,
+    });
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * One-to-One transport over the PC relay — same shape as
+ * `window.electronAPI.oneToOne`, so oneToOneController paces ^MD identically
+ * whether it runs inside Electron or on a phone / second PC.
+ *
+ *   attach  → POST /relay/one-to-one/attach (PC attaches the demuxer and
+ *             pauses its own polling)
+ *   sendMD  → POST /relay/one-to-one/send-md (fire-and-forget write)
+ *   onAck   → SSE GET /relay/one-to-one/events?printerId=N (R/T/C + faults)
+ *   detach  → POST /relay/one-to-one/detach
+ *
+ * If the event stream drops for more than a few seconds the PC sends ^ME on
+ * the client's behalf, so a phone that walks out of WiFi range can't leave
+ * the printer stuck in 1-1 mode.
+ */
+
+import { relayRequest } from './printerTransport';
+import { openRelayStream } from './relayStream';
+import type { OneToOneAckPayload } from './oneToOneController';
+
+type AckListener = (payload: OneToOneAckPayload) => void;
+
+const listeners = new Set<AckListener>();
+const streams = new Map<number, () => void>(); // printerId → close
+
+function ensureStream(printerId: number) {
+  if (streams.has(printerId)) return;
+  const close = openRelayStream(`/relay/one-to-one/events?printerId=${printerId}`, {
+    onEvent: (event, data) => {
+      if (event !== 'oneToOne' || !data || typeof data !== 'object') return;
+      const payload = data as OneToOneAckPayload;
+      listeners.forEach((l) => l(payload));
+    },
+    onError: (error) => console.warn(`[relay/1-1] event stream for printer ${printerId}: ${error}`),
+  });
+  streams.set(printerId, close);
+}
+
+function closeStream(printerId: number) {
+  streams.get(printerId)?.();
+  streams.delete(printerId);
+}
+
+export const relayOneToOne = {
+  async attach(printerId: number): Promise<{ success: boolean; error?: string }> {
+    // Open the stream first so no ACK emitted right after attach is missed.
+    ensureStream(printerId);
+    try {
+      const res = await relayRequest('one-to-one/attach', { printerId }, 5000);
+      if (!res?.success) closeStream(printerId);
+      return { success: !!res?.success, error: res?.error };
+    } catch (err) {
+      closeStream(printerId);
+      return { success: false, error: err instanceof Error ? err.message : 'attach failed' };
+    }
+  },
+
+  async detach(printerId: number): Promise<{ success: boolean }> {
+    closeStream(printerId);
+    try {
+      await relayRequest('one-to-one/detach', { printerId }, 5000);
+    } catch { /* PC tears down on its own once the stream is gone */ }
+    return { success: true };
+  },
+
+  async sendMD(printerId: number, command: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const res = await relayRequest('one-to-one/send-md', { printerId, command }, 5000);
+      return { success: !!res?.success, error: res?.error };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : 'send failed' };
+    }
+  },
+
+  onAck(callback: AckListener): () => void {
+    listeners.add(callback);
+    return () => { listeners.delete(callback); };
+  },
+};
@@ -0,0 +1,90 @@
+/**
+ * Server-Sent Event client for the PC relay.
+ *
+ * EventSource can't set request headers, and every relay route except
+ * /relay/info and /relay/pair needs the paired-device signature, so this
+ * reads the `text/event-stream` body through fetch + ReadableStream instead.
+ * The stream reconnects (re-signing each time) until the returned close
+ * function is called.
+ */
+
+import { getRelayConfig, relayAuthHeaders, relayBaseUrl, type RelayConfig } from './printerTransport';
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+
+export interface RelayStreamHandlers {
+  onEvent: (event: string, data: unknown) => void;
+  /** Fired on every (re)connect — resync state that may have been missed. */
+  onOpen?: () => void;
+  onError?: (error: string) => void;
+}
+
+/** Split a buffered SSE body into complete events; returns the unparsed tail. */
+export function parseSseChunk(buffer: string, emit: (event: string, data: string) => void): string {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const tail = blocks.pop() ?? '';
+  for (const block of blocks) {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(':')) continue;
+      const idx = line.indexOf(':');
+      const field = idx < 0 ? line : line.slice(0, idx);
+      const value = idx < 0 ? '' : line.slice(idx + 1).replace(/^ /, '');
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+    if (data.length) emit(event, data.join('\n'));
+  }
+  return tail;
+}
+
+export function openRelayStream(path: string, handlers: RelayStreamHandlers, config: RelayConfig | null = getRelayConfig()): () => void {
+  let closed = false;
+  let controller: AbortController | null = null;
+  let backoff = RECONNECT_MIN_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = async () => {
+    if (closed || !config) return;
+    controller = new AbortController();
+    try {
+      const auth = await relayAuthHeaders(config, 'GET', path, '');
+      const res = await fetch(`${relayBaseUrl(config)}${path}`, {
+        headers: { Accept: 'text/event-stream', ...auth },
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) throw new Error(res.status === 401 ? 'Relay rejected this device — pair again' : `HTTP ${res.status}`);
+      backoff = RECONNECT_MIN_MS;
+      handlers.onOpen?.();
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer = parseSseChunk(buffer + decoder.decode(value, { stream: true }), (event, data) => {
+          let parsed: unknown = data;
+          try { parsed = JSON.parse(data); } catch { /* plain text event */ }
+          handlers.onEvent(event, parsed);
+        });
+      }
+      if (!closed) handlers.onError?.('stream ended');
+    } catch (err) {
+      if (closed) return;
+      handlers.onError?.(err instanceof Error ? err.message : String(err));
+    }
+    if (closed) return;
+    retryTimer = setTimeout(connect, backoff);
+    backoff = Math.min(RECONNECT_MAX_MS, backoff * 2);
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    controller?.abort();
+  };
+}
@@ -1,11 +1,16 @@
 /**
  * Pure aggregation utilities for production reports.
  * No React, no IO — just data → metrics.
+ *
+ * Functions taking an optional ShiftCalendar count planned production time
+ * and attribute shifts by it; without one they use wall-clock time and the
+ * plain hour bands.
  */
 
 import type { ProductionRun, OEEMetrics } from '@/types/production';
 import { calculateOEE } from '@/types/production';
-import type { ReportShift, ReportTimeScope } from '@/types/reportTemplates';
+import type { ReportShift, ReportTimeScope, ShiftCalendar } from '@/types/reportTemplates';
+import { plannedTimeBetween, shiftAt } from '@/lib/shiftCalendar';
 
 export interface ResolvedRange {
   start: number;
@@ -80,6 +85,8 @@ export function filterRuns(
 
 export interface AggregateSummary {
   produced: number;
+  good: number;
+  rejects: number;
   target: number;
   attainment: number; // 0-100
   runTime: number; // ms
@@ -88,22 +95,30 @@ export interface AggregateSummary {
   oee: number;
   availability: number;
   performance: number;
+  quality: number;
   runCount: number;
   avgRunDuration: number; // ms
 }
 
-export function aggregate(runs: ProductionRun[]): AggregateSummary {
+/** OEE of one run with planned time from the line's shift calendar. */
+export function runOEE(run: ProductionRun, calendar?: ShiftCalendar): OEEMetrics {
+  if (!calendar) return calculateOEE(run);
+  return calculateOEE(run, (start, end) => plannedTimeBetween(calendar, run.printerId, start, end));
+}
+
+export function aggregate(runs: ProductionRun[], calendar?: ShiftCalendar): AggregateSummary {
   if (runs.length === 0) {
     return {
-      produced: 0, target: 0, attainment: 0,
+      produced: 0, good: 0, rejects: 0, target: 0, attainment: 0,
       runTime: 0, downtime: 0, unitsPerHour: 0,
-      oee: 0, availability: 0, performance: 0,
+      oee: 0, availability: 0, performance: 0, quality: 0,
       runCount: 0, avgRunDuration: 0,
     };
   }
 
-  const oees = runs.map(r => calculateOEE(r));
+  const oees = runs.map(r => runOEE(r, calendar));
   const produced = runs.reduce((s, r) => s + r.actualCount, 0);
+  const rejects = oees.reduce((s, o) => s + o.rejectCount, 0);
   const target = runs.reduce((s, r) => s + r.targetCount, 0);
   const runTime = oees.reduce((s, o) => s + o.runTime, 0);
   const downtime = oees.reduce((s, o) => s + o.totalDowntime, 0);
@@ -118,6 +133,8 @@ export function aggregate(runs: ProductionRun[]): AggregateSummary {
 
   return {
     produced,
+    good: produced - rejects,
+    rejects,
     target,
     attainment: target > 0 ? (produced / target) * 100 : 0,
     runTime,
@@ -126,6 +143,7 @@ export function aggregate(runs: ProductionRun[]): AggregateSummary {
     oee: avg('oee'),
     availability: avg('availability'),
     performance: avg('performance'),
+    quality: avg('quality'),
     runCount: runs.length,
     avgRunDuration: totalDuration / runs.length,
   };
@@ -140,7 +158,9 @@ export interface TimeBucket {
   target: number;
   runTime: number;
   downtime: number;
+  rejects: number;
   oee: number;
+  quality: number;
   runCount: number;
 }
 
@@ -166,11 +186,12 @@ function bucketKey(ts: number, bucket: 'day' | 'week' | 'month'): { key: string;
 
 export function bucketRuns(
   runs: ProductionRun[],
-  bucket: 'day' | 'week' | 'month'
+  bucket: 'day' | 'week' | 'month',
+  calendar?: ShiftCalendar
 ): TimeBucket[] {
   const map = new Map<string, TimeBucket>();
   for (const run of runs) {
-    const oee = calculateOEE(run);
+    const oee = runOEE(run, calendar);
     const { key, start, label } = bucketKey(run.startTime, bucket);
     const existing = map.get(key);
     if (existing) {
@@ -178,7 +199,9 @@ export function bucketRuns(
       existing.target += run.targetCount;
       existing.runTime += oee.runTime;
       existing.downtime += oee.totalDowntime;
+      existing.rejects += oee.rejectCount;
       existing.oee = (existing.oee * existing.runCount + oee.oee) / (existing.runCount + 1);
+      existing.quality = (existing.quality * existing.runCount + oee.quality) / (existing.runCount + 1);
       existing.runCount += 1;
     } else {
       map.set(key, {
@@ -187,7 +210,9 @@ export function bucketRuns(
         target: run.targetCount,
         runTime: oee.runTime,
         downtime: oee.totalDowntime,
+        rejects: oee.rejectCount,
         oee: oee.oee,
+        quality: oee.quality,
         runCount: 1,
       });
     }
@@ -231,14 +256,18 @@ export function shiftForTime(ts: number, shifts: ReportShift[]): ReportShift | n
   return null;
 }
 
-/** Group runs by shift (uses run start time) */
+/**
+ * Group runs by shift (uses run start time). With a calendar the shift comes
+ * from the line's pattern and runs started outside planned shifts are left out.
+ */
 export function groupByShift(
   runs: ProductionRun[],
-  shifts: ReportShift[]
+  shifts: ReportShift[],
+  calendar?: ShiftCalendar
 ): Map<string, ProductionRun[]> {
   const map = new Map<string, ProductionRun[]>();
   for (const r of runs) {
-    const s = shiftForTime(r.startTime, shifts);
+    const s = calendar ? shiftAt(calendar, r.printerId, r.startTime) : shiftForTime(r.startTime, shifts);
     if (!s) continue;
     const list = map.get(s.id) ?? [];
     list.push(r);
@@ -311,6 +340,7 @@ export const DOWNTIME_LABELS: Record<string, string> = {
   jet_stopped: 'Jet Stopped',
   hv_disabled: 'HV Disabled',
   printer_error: 'Printer Error',
+  printer_offline: 'Printer Offline',
   ink_empty: 'Ink Empty',
   makeup_empty: 'Makeup Empty',
   manual_stop: 'Manual Stop',
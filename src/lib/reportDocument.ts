@@ -0,0 +1,458 @@
+/**
+ * Report document model — what a PDF report contains, built straight from
+ * the reportAggregation outputs rather than from the rendered screen.
+ *
+ * A document is a list of sections, each a list of blocks (KPI cards, tables,
+ * bar / line charts, a heatmap, text). reportPdf.ts draws it with jsPDF as
+ * text and vector shapes. One builder per report type mirrors what the
+ * matching screen shows; planned time and shifts come from the shift
+ * calendar passed in.
+ */
+
+import {
+  resolveScope, filterRuns, aggregate, bucketRuns, groupByPrinter, groupByShift,
+  downtimeByReason, topMessages, hourlyHeatmap, formatDuration, runOEE, DOWNTIME_LABELS,
+  type AggregateSummary,
+} from '@/lib/reportAggregation';
+import type { ProductionRun } from '@/types/production';
+import type { Printer } from '@/types/printer';
+import type { CustomReportTemplate, ReportShift, ReportTimeScope, ShiftCalendar } from '@/types/reportTemplates';
+import { calendarShifts } from '@/lib/shiftCalendar';
+
+export type ReportColor = 'primary' | 'success' | 'warning' | 'destructive' | 'muted';
+
+export interface ReportChartSeries {
+  name: string;
+  values: number[];
+  color: ReportColor;
+  dashed?: boolean;
+}
+
+export interface ReportKpi {
+  label: string;
+  value: string;
+  sub?: string;
+  accent?: ReportColor;
+}
+
+export interface ReportTableColumn {
+  label: string;
+  align?: 'left' | 'right';
+  /** Relative width; columns share the page width by weight (default 1). */
+  weight?: number;
+}
+
+export type ReportBlock =
+  | { kind: 'kpis'; items: ReportKpi[] }
+  | { kind: 'table'; columns: ReportTableColumn[]; rows: string[][] }
+  | { kind: 'bar'; categories: string[]; series: ReportChartSeries[]; horizontal?: boolean; unit?: string }
+  | { kind: 'line'; categories: string[]; series: ReportChartSeries[]; yMax?: number; unit?: string }
+  | { kind: 'heatmap'; rowLabels: string[]; colLabels: string[]; values: number[][] }
+  | { kind: 'text'; text: string };
+
+export interface ReportSection {
+  title: string;
+  /** Small right-aligned note next to the title, e.g. "Per day". */
+  note?: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportDocument {
+  title: string;
+  /** Period covered, printer filter … */
+  subtitle?: string;
+  sections: ReportSection[];
+}
+
+const pct = (v: number) => `${v.toFixed(1)}%`;
+const num = (v: number) => v.toLocaleString();
+
+function printerName(printers: Printer[], id: number) {
+  return printers.find(p => p.id === id)?.name ?? `Printer ${id}`;
+}
+
+function emptyDocument(title: string, subtitle: string): ReportDocument {
+  return {
+    title,
+    subtitle,
+    sections: [{ title: 'Summary', blocks: [{ kind: 'text', text: 'No production runs in this period.' }] }],
+  };
+}
+
+function summaryKpis(summary: AggregateSummary): ReportKpi[] {
+  return [
+    { label: 'Total Produced', value: num(summary.produced), sub: `${summary.runCount} ${summary.runCount === 1 ? 'run' : 'runs'}`, accent: 'primary' },
+    { label: 'Total Run Time', value: formatDuration(summary.runTime), sub: `Avg ${formatDuration(summary.avgRunDuration)} per run`, accent: 'warning' },
+    { label: 'Units / Hour', value: summary.unitsPerHour.toFixed(0), sub: 'Production rate', accent: 'success' },
+    {
+      label: 'Downtime', value: formatDuration(summary.downtime), accent: 'destructive',
+      sub: summary.runTime > 0 ? `${((summary.downtime / (summary.runTime + summary.downtime)) * 100).toFixed(1)}% of total time` : undefined,
+    },
+  ];
+}
+
+function downtimeSection(runs: ProductionRun[]): ReportSection | null {
+  const pareto = downtimeByReason(runs);
+  if (pareto.length === 0) return null;
+  return {
+    title: 'Downtime by Reason',
+    blocks: [
+      {
+        kind: 'bar', horizontal: true, unit: 'min',
+        categories: pareto.map(d => DOWNTIME_LABELS[d.reason] ?? d.reason),
+        series: [{ name: 'Minutes', values: pareto.map(d => Math.round(d.totalMs / 60_000)), color: 'destructive' }],
+      },
+      {
+        kind: 'table',
+        columns: [{ label: 'Reason', weight: 3 }, { label: 'Events', align: 'right' }, { label: 'Duration', align: 'right' }],
+        rows: pareto.map(d => [DOWNTIME_LABELS[d.reason] ?? d.reason, String(d.count), formatDuration(d.totalMs)]),
+      },
+    ],
+  };
+}
+
+function runTable(runs: ProductionRun[], calendar?: ShiftCalendar): ReportBlock {
+  return {
+    kind: 'table',
+    columns: [
+      { label: 'Printer', weight: 2 }, { label: 'Message', weight: 2.5 }, { label: 'Start', weight: 2 },
+      { label: 'Duration', align: 'right' }, { label: 'Target', align: 'right' }, { label: 'Actual', align: 'right' },
+      { label: 'Rejects', align: 'right' }, { label: 'OEE', align: 'right' },
+    ],
+    rows: [...runs].sort((a, b) => b.startTime - a.startTime).map(r => {
+      const o = runOEE(r, calendar);
+      return [
+        r.printerName, r.messageName, new Date(r.startTime).toLocaleString(),
+        formatDuration((r.endTime ?? Date.now()) - r.startTime),
+        num(r.targetCount), num(r.actualCount), num(o.rejectCount), pct(o.oee),
+      ];
+    }),
+  };
+}
+
+export function buildProductionSummaryDocument(
+  runs: ProductionRun[],
+  printers: Printer[],
+  scope: ReportTimeScope,
+  calendar?: ShiftCalendar,
+): ReportDocument {
+  const range = resolveScope(scope);
+  const filtered = filterRuns(runs, range, scope.printerIds);
+  if (filtered.length === 0) return emptyDocument('Production Summary', range.label);
+
+  const summary = aggregate(filtered, calendar);
+  const buckets = bucketRuns(filtered, scope.bucket, calendar);
+  const printerRows = Array.from(groupByPrinter(filtered).entries())
+    .map(([id, rs]) => ({ name: printerName(printers, id), ...aggregate(rs, calendar) }))
+    .sort((a, b) => b.produced - a.produced);
+  const topMsgs = topMessages(filtered, 6);
+
+  return {
+    title: 'Production Summary',
+    subtitle: range.label,
+    sections: [
+      { title: 'Summary', blocks: [{ kind: 'kpis', items: summaryKpis(summary) }] },
+      {
+        title: 'Production Trend',
+        note: `Per ${scope.bucket}`,
+        blocks: [{
+          kind: 'line',
+          categories: buckets.map(b => b.label),
+          series: [{ name: 'Produced', values: buckets.map(b => b.produced), color: 'primary' }],
+        }],
+      },
+      {
+        title: 'Per-Line Production',
+        blocks: [{
+          kind: 'table',
+          columns: [
+            { label: 'Printer', weight: 2.5 }, { label: 'Produced', align: 'right' }, { label: 'Share', align: 'right' },
+            { label: 'Runs', align: 'right' }, { label: 'Run Time', align: 'right' }, { label: 'Units / Hour', align: 'right' },
+          ],
+          rows: printerRows.map(p => [
+            p.name, num(p.produced),
+            pct(summary.produced > 0 ? (p.produced / summary.produced) * 100 : 0),
+            String(p.runCount), formatDuration(p.runTime), p.unitsPerHour.toFixed(0),
+          ]),
+        }],
+      },
+      {
+        title: 'Top Products',
+        blocks: topMsgs.length === 0
+          ? [{ kind: 'text', text: 'No products to show.' }]
+          : [
+            {
+              kind: 'bar', horizontal: true,
+              categories: topMsgs.map(m => m.messageName),
+              series: [{ name: 'Produced', values: topMsgs.map(m => m.produced), color: 'primary' }],
+            },
+          ],
+      },
+    ],
+  };
+}
+
+export function buildShiftDocument(runs: ProductionRun[], scope: ReportTimeScope, calendar: ShiftCalendar): ReportDocument {
+  const range = resolveScope(scope);
+  const filtered = filterRuns(runs, range, scope.printerIds);
+  const shifts = calendarShifts(calendar);
+  const grouped = groupByShift(filtered, shifts, calendar);
+  const stats = shifts.map(s => ({ shift: s, ...aggregate(grouped.get(s.id) ?? [], calendar) }));
+  const hours = (s: ReportShift) => `${String(s.startHour).padStart(2, '0')}:00–${String(s.endHour).padStart(2, '0')}:00`;
+
+  return {
+    title: 'Shift Report',
+    subtitle: `${range.label} · ${shifts.map(s => `${s.name} ${hours(s)}`).join(' · ')}`,
+    sections: [
+      {
+        title: 'Per-Shift Totals',
+        blocks: [{
+          kind: 'table',
+          columns: [
+            { label: 'Shift', weight: 1.5 }, { label: 'Hours', weight: 1.5 }, { label: 'Produced', align: 'right' },
+            { label: 'Target', align: 'right' }, { label: 'Run Time', align: 'right' }, { label: 'OEE', align: 'right' },
+            { label: 'Runs', align: 'right' }, { label: 'Units / Hour', align: 'right' },
+          ],
+          rows: stats.map(s => [
+            s.shift.name, hours(s.shift), num(s.produced), num(s.target), formatDuration(s.runTime),
+            pct(s.oee), String(s.runCount), s.unitsPerHour.toFixed(0),
+          ]),
+        }],
+      },
+      {
+        title: 'Shift Comparison',
+        blocks: [{
+          kind: 'bar',
+          categories: stats.map(s => s.shift.name),
+          series: [
+            { name: 'Target', values: stats.map(s => s.target), color: 'muted' },
+            { name: 'Produced', values: stats.map(s => s.produced), color: 'primary' },
+          ],
+        }],
+      },
+    ],
+  };
+}
+
+/** Same filters as CustomReportRenderer: scope, printers, message and downtime reasons. */
+export function customTemplateRuns(template: CustomReportTemplate, runs: ProductionRun[]): ProductionRun[] {
+  let r = filterRuns(runs, resolveScope(template.scope), template.scope.printerIds);
+  if (template.messageFilter && template.messageFilter.trim()) {
+    const q = template.messageFilter.trim().toLowerCase();
+    r = r.filter(x => x.messageName.toLowerCase().includes(q));
+  }
+  if (template.downtimeReasons && template.downtimeReasons.length > 0) {
+    const set = new Set(template.downtimeReasons);
+    r = r.map(run => ({ ...run, downtimeEvents: run.downtimeEvents.filter(e => set.has(e.reason)) }));
+  }
+  return r;
+}
+
+export function buildCustomDocument(
+  template: CustomReportTemplate,
+  runs: ProductionRun[],
+  printers: Printer[],
+  calendar: ShiftCalendar,
+  title = template.name,
+): ReportDocument {
+  const range = resolveScope(template.scope);
+  const filtered = customTemplateRuns(template, runs);
+  if (filtered.length === 0) return emptyDocument(title, range.label);
+
+  const showViz = (key: CustomReportTemplate['visualizations'][number]) => template.visualizations.includes(key);
+  const showMetric = (key: CustomReportTemplate['metrics'][number]) => template.metrics.includes(key);
+  const summary = aggregate(filtered, calendar);
+  const buckets = bucketRuns(filtered, template.scope.bucket, calendar);
+  const sections: ReportSection[] = [];
+
+  if (showViz('kpiCards')) {
+    const items: ReportKpi[] = [];
+    if (showMetric('produced')) items.push({ label: 'Produced', value: num(summary.produced), accent: 'primary' });
+    if (showMetric('target')) items.push({ label: 'Target', value: num(summary.target), accent: 'primary' });
+    if (showMetric('attainment')) items.push({
+      label: 'Attainment', value: pct(summary.attainment),
+      accent: summary.attainment >= 100 ? 'success' : summary.attainment >= 80 ? 'warning' : 'destructive',
+    });
+    if (showMetric('runTime')) items.push({ label: 'Run Time', value: formatDuration(summary.runTime), accent: 'warning' });
+    if (showMetric('downtime')) items.push({ label: 'Downtime', value: formatDuration(summary.downtime), accent: 'destructive' });
+    if (showMetric('unitsPerHour')) items.push({ label: 'Units / Hour', value: summary.unitsPerHour.toFixed(0), accent: 'success' });
+    if (showMetric('oee')) items.push({ label: 'OEE', value: pct(summary.oee), accent: summary.oee >= 60 ? 'success' : 'destructive' });
+    if (showMetric('availability')) items.push({ label: 'Availability', value: pct(summary.availability), accent: 'success' });
+    if (showMetric('performance')) items.push({ label: 'Performance', value: pct(summary.performance), accent: 'warning' });
+    if (showMetric('quality')) items.push({
+      label: 'Quality', value: pct(summary.quality),
+      accent: summary.quality >= 99 ? 'success' : summary.quality >= 95 ? 'warning' : 'destructive',
+    });
+    if (showMetric('runCount')) items.push({ label: 'Runs', value: String(summary.runCount), accent: 'primary' });
+    if (showMetric('avgRunDuration')) items.push({ label: 'Avg Run', value: formatDuration(summary.avgRunDuration), accent: 'primary' });
+    if (items.length > 0) sections.push({ title: 'Summary', blocks: [{ kind: 'kpis', items }] });
+  }
+
+  if (showViz('productionTrend')) {
+    const series: ReportChartSeries[] = [{ name: 'Produced', values: buckets.map(b => b.produced), color: 'primary' }];
+    if (showMetric('target')) series.push({ name: 'Target', values: buckets.map(b => b.target), color: 'muted', dashed: true });
+    sections.push({
+      title: 'Production Trend',
+      note: `Per ${template.scope.bucket}`,
+      blocks: [{ kind: 'line', categories: buckets.map(b => b.label), series }],
+    });
+  }
+
+  if (showViz('oeeTrend')) {
+    sections.push({
+      title: 'OEE Trend',
+      blocks: [{
+        kind: 'line', yMax: 100, unit: '%',
+        categories: buckets.map(b => b.label),
+        series: [{ name: 'OEE %', values: buckets.map(b => Number(b.oee.toFixed(1))), color: 'primary' }],
+      }],
+    });
+  }
+
+  if (showViz('downtimePareto') || showMetric('downtimeByReason')) {
+    sections.push(downtimeSection(filtered) ?? { title: 'Downtime by Reason', blocks: [{ kind: 'text', text: 'No downtime recorded.' }] });
+  }
+
+  if (showViz('shiftComparison')) {
+    const shifts = calendarShifts(calendar);
+    const byShift = groupByShift(filtered, shifts, calendar);
+    const stats = shifts.map(s => ({ name: s.name, ...aggregate(byShift.get(s.id) ?? [], calendar) }));
+    sections.push({
+      title: 'Shift Comparison',
+      blocks: [{
+        kind: 'bar',
+        categories: stats.map(s => s.name),
+        series: [
+          { name: 'Target', values: stats.map(s => s.target), color: 'muted' },
+          { name: 'Produced', values: stats.map(s => s.produced), color: 'primary' },
+        ],
+      }],
+    });
+  }
+
+  if (showViz('messagePie')) {
+    const topMsgs = topMessages(filtered, 8);
+    sections.push({
+      title: 'Top Products',
+      blocks: [{
+        kind: 'table',
+        columns: [{ label: 'Message', weight: 3 }, { label: 'Produced', align: 'right' }, { label: 'Target', align: 'right' }, { label: 'Runs', align: 'right' }],
+        rows: topMsgs.map(m => [m.messageName, num(m.produced), num(m.target), String(m.runCount)]),
+      }],
+    });
+  }
+
+  if (showViz('hourlyHeatmap')) {
+    sections.push({
+      title: 'Hourly Production Heatmap',
+      note: 'Day-of-week × Hour',
+      blocks: [{
+        kind: 'heatmap',
+        rowLabels: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+        colLabels: Array.from({ length: 24 }, (_, h) => String(h)),
+        values: hourlyHeatmap(filtered),
+      }],
+    });
+  }
+
+  if (template.groupBy.includes('printer')) {
+    const columns: ReportTableColumn[] = [{ label: 'Printer', weight: 2.5 }];
+    const cells: ((a: AggregateSummary) => string)[] = [];
+    const add = (key: CustomReportTemplate['metrics'][number], label: string, cell: (a: AggregateSummary) => string) => {
+      if (!showMetric(key)) return;
+      columns.push({ label, align: 'right' });
+      cells.push(cell);
+    };
+    add('produced', 'Produced', a => num(a.produced));
+    add('target', 'Target', a => num(a.target));
+    add('attainment', 'Attainment', a => pct(a.attainment));
+    add('runTime', 'Run Time', a => formatDuration(a.runTime));
+    add('downtime', 'Downtime', a => formatDuration(a.downtime));
+    add('oee', 'OEE', a => pct(a.oee));
+    add('quality', 'Quality', a => pct(a.quality));
+    add('runCount', 'Runs', a => String(a.runCount));
+    sections.push({
+      title: 'Per-Printer Breakdown',
+      blocks: [{
+        kind: 'table',
+        columns,
+        rows: Array.from(groupByPrinter(filtered).entries()).map(([id, rs]) => {
+          const a = aggregate(rs, calendar);
+          return [printerName(printers, id), ...cells.map(c => c(a))];
+        }),
+      }],
+    });
+  }
+
+  return { title, subtitle: range.label, sections };
+}
+
+/** OEE screen: overall and per-printer A × P × Q, then the run history. */
+export function buildOEEDocument(
+  runs: ProductionRun[],
+  printers: Printer[],
+  title = 'OEE Report',
+  calendar?: ShiftCalendar,
+): ReportDocument {
+  if (runs.length === 0) return emptyDocument(title, 'All runs');
+  const summary = aggregate(runs, calendar);
+  const perPrinter = Array.from(groupByPrinter(runs).entries())
+    .map(([id, rs]) => ({ name: printerName(printers, id), ...aggregate(rs, calendar) }));
+  const first = Math.min(...runs.map(r => r.startTime));
+
+  const sections: ReportSection[] = [
+    {
+      title: 'Overall Equipment Effectiveness',
+      blocks: [
+        {
+          kind: 'kpis',
+          items: [
+            { label: 'OEE', value: pct(summary.oee), accent: summary.oee >= 60 ? 'success' : 'destructive' },
+            { label: 'Availability', value: pct(summary.availability), accent: 'success' },
+            { label: 'Performance', value: pct(summary.performance), accent: 'warning' },
+            { label: 'Quality', value: pct(summary.quality), sub: `${num(summary.rejects)} rejects`, accent: 'primary' },
+            { label: 'Produced', value: num(summary.produced), sub: `${num(summary.good)} good`, accent: 'primary' },
+            { label: 'Target', value: num(summary.target), sub: `${pct(summary.attainment)} attained`, accent: 'primary' },
+            { label: 'Run Time', value: formatDuration(summary.runTime), accent: 'warning' },
+            { label: 'Downtime', value: formatDuration(summary.downtime), accent: 'destructive' },
+          ],
+        },
+      ],
+    },
+  ];
+
+  if (perPrinter.length > 1) {
+    sections.push({
+      title: 'OEE by Printer',
+      blocks: [
+        {
+          kind: 'bar', unit: '%',
+          categories: perPrinter.map(p => p.name),
+          series: [
+            { name: 'Availability', values: perPrinter.map(p => p.availability), color: 'success' },
+            { name: 'Performance', values: perPrinter.map(p => p.performance), color: 'warning' },
+            { name: 'Quality', values: perPrinter.map(p => p.quality), color: 'primary' },
+            { name: 'OEE', values: perPrinter.map(p => p.oee), color: 'destructive' },
+          ],
+        },
+        {
+          kind: 'table',
+          columns: [
+            { label: 'Printer', weight: 2.5 }, { label: 'OEE', align: 'right' }, { label: 'Avail.', align: 'right' },
+            { label: 'Perf.', align: 'right' }, { label: 'Quality', align: 'right' }, { label: 'Produced', align: 'right' },
+            { label: 'Downtime', align: 'right' },
+          ],
+          rows: perPrinter.map(p => [
+            p.name, pct(p.oee), pct(p.availability), pct(p.performance), pct(p.quality), num(p.produced), formatDuration(p.downtime),
+          ]),
+        },
+      ],
+    });
+  }
+
+  const downtime = downtimeSection(runs);
+  if (downtime) sections.push(downtime);
+  sections.push({ title: 'Run History', blocks: [runTable(runs, calendar)] });
+
+  return { title, subtitle: `Since ${new Date(first).toLocaleDateString()}`, sections };
+}
@@ -0,0 +1,430 @@
+/**
+ * Draws a ReportDocument (reportDocument.ts) with jsPDF primitives — real
+ * text, tables and vector charts, so the PDF stays sharp, searchable and
+ * small.
+ *
+ * Layout rules: a section starts on a new page when it would not fit in the
+ * space left but fits on a page of its own; charts, KPI grids and heatmaps
+ * are never split; tables break between rows and repeat their header.
+ */
+
+import jsPDF from 'jspdf';
+import type {
+  ReportBlock, ReportChartSeries, ReportColor, ReportDocument, ReportKpi, ReportSection,
+} from '@/lib/reportDocument';
+
+type RGB = [number, number, number];
+
+/** The app theme's HSL tokens (index.css) in RGB. */
+const COLORS: Record<ReportColor, RGB> = {
+  primary: [33, 150, 243],
+  success: [33, 196, 93],
+  warning: [245, 158, 11],
+  destructive: [220, 38, 38],
+  muted: [190, 190, 190],
+};
+const INK: RGB = [30, 41, 59];        // slate-800
+const SUBTLE: RGB = [100, 116, 139];  // slate-500
+const RULE: RGB = [226, 232, 240];    // slate-200
+const HEADER_BG: RGB = [15, 23, 42];  // slate-900
+
+const MARGIN = 12;
+const HEADER_H = 14;
+const FOOTER_H = 10;
+const SECTION_TITLE_H = 9;
+const BLOCK_GAP = 4;
+const SECTION_GAP = 6;
+const KPI_H = 20;
+const KPI_COLS = 4;
+const TABLE_HEAD_H = 7;
+const TABLE_ROW_H = 6;
+const CHART_H = 70;
+const LEGEND_H = 6;
+const HBAR_ROW_H = 7;
+const HEATMAP_LABEL_W = 10;
+
+/** 1-2-5 rounding of an axis maximum. */
+export function niceMax(value: number): number {
+  if (!(value > 0)) return 1;
+  const exp = Math.pow(10, Math.floor(Math.log10(value)));
+  const f = value / exp;
+  const nice = f <= 1 ? 1 : f <= 2 ? 2 : f <= 5 ? 5 : 10;
+  return nice * exp;
+}
+
+function compact(v: number): string {
+  if (Math.abs(v) >= 1_000_000) return `${+(v / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(v) >= 10_000) return `${Math.round(v / 1000)}k`;
+  if (Math.abs(v) >= 1000) return `${+(v / 1000).toFixed(1)}k`;
+  return `${+v.toFixed(1)}`;
+}
+
+class PdfWriter {
+  readonly pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  readonly pageW = this.pdf.internal.pageSize.getWidth();
+  readonly pageH = this.pdf.internal.pageSize.getHeight();
+  readonly contentW = this.pageW - MARGIN * 2;
+  y = HEADER_H + MARGIN;
+
+  get bottom() { return this.pageH - FOOTER_H - 2; }
+  get usable() { return this.bottom - (HEADER_H + MARGIN); }
+  get remaining() { return this.bottom - this.y; }
+
+  newPage() {
+    this.pdf.addPage();
+    this.y = HEADER_H + MARGIN;
+  }
+
+  ensure(height: number) {
+    if (height > this.remaining) this.newPage();
+  }
+
+  font(size: number, style: 'normal' | 'bold' = 'normal', color: RGB = INK) {
+    this.pdf.setFont('helvetica', style);
+    this.pdf.setFontSize(size);
+    this.pdf.setTextColor(...color);
+  }
+
+  /** Shorten `text` with an ellipsis until it fits `width` mm at the current font. */
+  fit(text: string, width: number): string {
+    if (this.pdf.getTextWidth(text) <= width) return text;
+    let s = text;
+    while (s.length > 1 && this.pdf.getTextWidth(`${s}…`) > width) s = s.slice(0, -1);
+    return `${s}…`;
+  }
+}
+
+/* ---------- heights (for keep-together decisions) ---------- */
+
+function legendHeight(series: ReportChartSeries[]) {
+  return series.length > 1 ? LEGEND_H : 0;
+}
+
+function blockHeight(w: PdfWriter, block: ReportBlock): number {
+  switch (block.kind) {
+    case 'kpis': {
+      const rows = Math.ceil(block.items.length / KPI_COLS);
+      return rows * KPI_H + (rows - 1) * 3;
+    }
+    case 'table':
+      return TABLE_HEAD_H + block.rows.length * TABLE_ROW_H;
+    case 'bar':
+      return block.horizontal
+        ? block.categories.length * HBAR_ROW_H + 4 + legendHeight(block.series)
+        : CHART_H + legendHeight(block.series);
+    case 'line':
+      return CHART_H + legendHeight(block.series);
+    case 'heatmap': {
+      const cell = (w.contentW - HEATMAP_LABEL_W) / Math.max(1, block.colLabels.length);
+      return 5 + block.rowLabels.length * cell;
+    }
+    case 'text':
+      w.font(9);
+      return w.pdf.splitTextToSize(block.text, w.contentW).length * 4.5;
+  }
+}
+
+/** The part of a block that must share a page with the section title. */
+function minLeadHeight(w: PdfWriter, block: ReportBlock): number {
+  if (block.kind === 'table') return TABLE_HEAD_H + Math.min(3, block.rows.length) * TABLE_ROW_H;
+  return blockHeight(w, block);
+}
+
+function sectionHeight(w: PdfWriter, section: ReportSection): number {
+  return SECTION_TITLE_H + section.blocks.reduce((s, b) => s + blockHeight(w, b), 0)
+    + Math.max(0, section.blocks.length - 1) * BLOCK_GAP;
+}
+
+/* ---------- blocks ---------- */
+
+function drawKpis(w: PdfWriter, items: ReportKpi[]) {
+  const gap = 3;
+  const cardW = (w.contentW - gap * (KPI_COLS - 1)) / KPI_COLS;
+  items.forEach((item, i) => {
+    const col = i % KPI_COLS;
+    const row = Math.floor(i / KPI_COLS);
+    const x = MARGIN + col * (cardW + gap);
+    const y = w.y + row * (KPI_H + gap);
+    const accent = COLORS[item.accent ?? 'primary'];
+    w.pdf.setDrawColor(...RULE);
+    w.pdf.setLineWidth(0.3);
+    w.pdf.roundedRect(x, y, cardW, KPI_H, 1.5, 1.5, 'S');
+    w.pdf.setFillColor(...accent);
+    w.pdf.rect(x, y + 1.5, 1, KPI_H - 3, 'F');
+    w.font(6.5, 'bold', SUBTLE);
+    w.pdf.text(w.fit(item.label.toUpperCase(), cardW - 6), x + 4, y + 5);
+    w.font(14, 'bold');
+    w.pdf.text(w.fit(item.value, cardW - 6), x + 4, y + 12.5);
+    if (item.sub) {
+      w.font(6.5, 'normal', SUBTLE);
+      w.pdf.text(w.fit(item.sub, cardW - 6), x + 4, y + 17);
+    }
+  });
+  const rows = Math.ceil(items.length / KPI_COLS);
+  w.y += rows * KPI_H + (rows - 1) * gap;
+}
+
+function drawTable(w: PdfWriter, block: Extract<ReportBlock, { kind: 'table' }>) {
+  const totalWeight = block.columns.reduce((s, c) => s + (c.weight ?? 1), 0);
+  const widths = block.columns.map(c => (w.contentW * (c.weight ?? 1)) / totalWeight);
+  const cellX = (i: number) => MARGIN + widths.slice(0, i).reduce((s, v) => s + v, 0);
+
+  const drawRow = (cells: string[], y: number, h: number, head: boolean) => {
+    cells.forEach((cell, i) => {
+      const align = block.columns[i]?.align ?? 'left';
+      const inner = widths[i] - 3;
+      const text = w.fit(cell ?? '', inner);
+      const x = align === 'right' ? cellX(i) + widths[i] - 1.5 : cellX(i) + 1.5;
+      w.pdf.text(text, x, y + h / 2 + 1.1, { align });
+    });
+    if (!head) {
+      w.pdf.setDrawColor(...RULE);
+      w.pdf.setLineWidth(0.2);
+      w.pdf.line(MARGIN, y + h, MARGIN + w.contentW, y + h);
+    }
+  };
+
+  const drawHead = () => {
+    w.pdf.setFillColor(241, 245, 249); // slate-100
+    w.pdf.rect(MARGIN, w.y, w.contentW, TABLE_HEAD_H, 'F');
+    w.font(7, 'bold', SUBTLE);
+    drawRow(block.columns.map(c => c.label.toUpperCase()), w.y, TABLE_HEAD_H, true);
+    w.y += TABLE_HEAD_H;
+  };
+
+  drawHead();
+  for (const row of block.rows) {
+    if (TABLE_ROW_H > w.remaining) {
+      w.newPage();
+      drawHead();
+    }
+    w.font(8);
+    drawRow(row, w.y, TABLE_ROW_H, false);
+    w.y += TABLE_ROW_H;
+  }
+}
+
+function drawLegend(w: PdfWriter, series: ReportChartSeries[]) {
+  if (series.length < 2) return;
+  let x = MARGIN + 12;
+  const y = w.y + 3;
+  w.font(7, 'normal', SUBTLE);
+  for (const s of series) {
+    w.pdf.setFillColor(...COLORS[s.color]);
+    w.pdf.rect(x, y - 2, 3, 3, 'F');
+    w.pdf.text(s.name, x + 4, y + 0.5);
+    x += 8 + w.pdf.getTextWidth(s.name);
+  }
+  w.y += LEGEND_H;
+}
+
+/** Axes and gridlines shared by vertical bar and line charts; returns the plot box. */
+function drawAxes(w: PdfWriter, categories: string[], yMax: number, unit?: string) {
+  const axisW = 12;
+  const x0 = MARGIN + axisW;
+  const plotW = w.contentW - axisW;
+  const top = w.y + 3;
+  const plotH = CHART_H - 12;
+  const base = top + plotH;
+
+  w.font(6.5, 'normal', SUBTLE);
+  w.pdf.setDrawColor(...RULE);
+  w.pdf.setLineWidth(0.2);
+  const ticks = 4;
+  for (let i = 0; i <= ticks; i++) {
+    const v = (yMax / ticks) * i;
+    const y = base - (plotH / ticks) * i;
+    if (i > 0) w.pdf.setLineDashPattern([0.8, 0.8], 0);
+    w.pdf.line(x0, y, x0 + plotW, y);
+    w.pdf.setLineDashPattern([], 0);
+    w.pdf.text(`${compact(v)}${unit === '%' ? '%' : ''}`, x0 - 1.5, y + 1, { align: 'right' });
+  }
+
+  const slot = plotW / Math.max(1, categories.length);
+  const every = Math.max(1, Math.ceil(categories.length / Math.max(1, Math.floor(plotW / 14))));
+  categories.forEach((c, i) => {
+    if (i % every !== 0) return;
+    const cx = x0 + slot * (i + 0.5);
+    w.pdf.text(w.fit(c, slot * every - 1), cx, base + 4, { align: 'center' });
+  });
+  return { x0, plotW, base, plotH, slot };
+}
+
+function seriesMax(series: ReportChartSeries[]) {
+  return Math.max(0, ...series.flatMap(s => s.values));
+}
+
+function drawBarChart(w: PdfWriter, block: Extract<ReportBlock, { kind: 'bar' }>) {
+  if (block.horizontal) {
+    drawHorizontalBars(w, block);
+    return;
+  }
+  const yMax = niceMax(seriesMax(block.series));
+  const { x0, base, plotH, slot } = drawAxes(w, block.categories, yMax, block.unit);
+  const groupW = slot * 0.7;
+  const barW = groupW / Math.max(1, block.series.length);
+  block.categories.forEach((_, i) => {
+    block.series.forEach((s, si) => {
+      const v = s.values[i] ?? 0;
+      const h = (v / yMax) * plotH;
+      if (h <= 0) return;
+      w.pdf.setFillColor(...COLORS[s.color]);
+      w.pdf.rect(x0 + slot * i + (slot - groupW) / 2 + barW * si, base - h, barW * 0.9, h, 'F');
+    });
+  });
+  w.y += CHART_H;
+  drawLegend(w, block.series);
+}
+
+function drawHorizontalBars(w: PdfWriter, block: Extract<ReportBlock, { kind: 'bar' }>) {
+  const labelW = 42;
+  const valueW = 18;
+  const x0 = MARGIN + labelW;
+  const plotW = w.contentW - labelW - valueW;
+  const max = Math.max(1, seriesMax(block.series));
+  const top = w.y + 2;
+  block.categories.forEach((c, i) => {
+    const y = top + i * HBAR_ROW_H;
+    w.font(7.5);
+    w.pdf.text(w.fit(c, labelW - 3), x0 - 2, y + HBAR_ROW_H / 2 + 1, { align: 'right' });
+    const barH = (HBAR_ROW_H - 2) / Math.max(1, block.series.length);
+    block.series.forEach((s, si) => {
+      const v = s.values[i] ?? 0;
+      const len = (v / max) * plotW;
+      w.pdf.setFillColor(...COLORS[s.color]);
+      if (len > 0) w.pdf.rect(x0, y + 1 + barH * si, len, barH * 0.85, 'F');
+      w.font(7, 'bold', SUBTLE);
+      w.pdf.text(`${v.toLocaleString()}${block.unit ? ` ${block.unit}` : ''}`, x0 + len + 1.5, y + 1 + barH * si + barH * 0.6);
+    });
+  });
+  w.y += block.categories.length * HBAR_ROW_H + 4;
+  drawLegend(w, block.series);
+}
+
+function drawLineChart(w: PdfWriter, block: Extract<ReportBlock, { kind: 'line' }>) {
+  const yMax = block.yMax ?? niceMax(seriesMax(block.series));
+  const { x0, base, plotH, slot } = drawAxes(w, block.categories, yMax, block.unit);
+  for (const s of block.series) {
+    const pts = s.values.map((v, i) => [x0 + slot * (i + 0.5), base - (Math.min(v, yMax) / yMax) * plotH] as const);
+    w.pdf.setDrawColor(...COLORS[s.color]);
+    w.pdf.setLineWidth(0.6);
+    if (s.dashed) w.pdf.setLineDashPattern([1.5, 1], 0);
+    for (let i = 1; i < pts.length; i++) w.pdf.line(pts[i - 1][0], pts[i - 1][1], pts[i][0], pts[i][1]);
+    w.pdf.setLineDashPattern([], 0);
+    if (pts.length <= 31) {
+      w.pdf.setFillColor(...COLORS[s.color]);
+      for (const [x, y] of pts) w.pdf.circle(x, y, 0.6, 'F');
+    }
+  }
+  w.y += CHART_H;
+  drawLegend(w, block.series);
+}
+
+function drawHeatmap(w: PdfWriter, block: Extract<ReportBlock, { kind: 'heatmap' }>) {
+  const cell = (w.contentW - HEATMAP_LABEL_W) / Math.max(1, block.colLabels.length);
+  const max = Math.max(1, ...block.values.flat());
+  const x0 = MARGIN + HEATMAP_LABEL_W;
+  w.font(6, 'normal', SUBTLE);
+  block.colLabels.forEach((c, i) => w.pdf.text(c, x0 + cell * (i + 0.5), w.y + 3, { align: 'center' }));
+  const top = w.y + 5;
+  const [pr, pg, pb] = COLORS.primary;
+  block.values.forEach((row, r) => {
+    w.font(6.5, 'bold', SUBTLE);
+    w.pdf.text(block.rowLabels[r] ?? '', x0 - 1.5, top + cell * r + cell / 2 + 1, { align: 'right' });
+    row.forEach((v, c) => {
+      if (v > 0) {
+        const t = 0.15 + (v / max) * 0.85;
+        w.pdf.setFillColor(255 - (255 - pr) * t, 255 - (255 - pg) * t, 255 - (255 - pb) * t);
+      } else {
+        w.pdf.setFillColor(...RULE);
+      }
+      w.pdf.rect(x0 + cell * c + 0.3, top + cell * r + 0.3, cell - 0.6, cell - 0.6, 'F');
+    });
+  });
+  w.y = top + cell * block.values.length;
+}
+
+function drawText(w: PdfWriter, text: string) {
+  w.font(9, 'normal', SUBTLE);
+  const lines: string[] = w.pdf.splitTextToSize(text, w.contentW);
+  for (const line of lines) {
+    w.ensure(4.5);
+    w.pdf.text(line, MARGIN, w.y + 3.5);
+    w.y += 4.5;
+  }
+}
+
+function drawBlock(w: PdfWriter, block: ReportBlock) {
+  if (block.kind !== 'table' && block.kind !== 'text') w.ensure(blockHeight(w, block));
+  switch (block.kind) {
+    case 'kpis': drawKpis(w, block.items); break;
+    case 'table': drawTable(w, block); break;
+    case 'bar': drawBarChart(w, block); break;
+    case 'line': drawLineChart(w, block); break;
+    case 'heatmap': drawHeatmap(w, block); break;
+    case 'text': drawText(w, block.text); break;
+  }
+}
+
+function drawSection(w: PdfWriter, section: ReportSection) {
+  const whole = sectionHeight(w, section);
+  if (whole > w.remaining && whole <= w.usable) w.newPage();
+  else w.ensure(SECTION_TITLE_H + (section.blocks[0] ? minLeadHeight(w, section.blocks[0]) : 0));
+
+  w.font(11, 'bold');
+  w.pdf.text(section.title, MARGIN, w.y + 5);
+  if (section.note) {
+    w.font(7.5, 'normal', SUBTLE);
+    w.pdf.text(section.note, MARGIN + w.contentW, w.y + 5, { align: 'right' });
+  }
+  w.pdf.setDrawColor(...RULE);
+  w.pdf.setLineWidth(0.3);
+  w.pdf.line(MARGIN, w.y + 7, MARGIN + w.contentW, w.y + 7);
+  w.y += SECTION_TITLE_H;
+
+  section.blocks.forEach((block, i) => {
+    if (i > 0) w.y += BLOCK_GAP;
+    drawBlock(w, block);
+  });
+}
+
+/** Page header band and "Page n of m" footer, drawn once the page count is known. */
+function drawChrome(w: PdfWriter, generatedAt: Date) {
+  const pages = w.pdf.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    w.pdf.setPage(i);
+    w.pdf.setFillColor(...HEADER_BG);
+    w.pdf.rect(0, 0, w.pageW, HEADER_H, 'F');
+    w.font(10, 'bold', [255, 255, 255]);
+    w.pdf.text('CodeSync™ Production Report', MARGIN, 9);
+    w.font(8, 'normal', [255, 255, 255]);
+    w.pdf.text(generatedAt.toLocaleString(), w.pageW - MARGIN, 9, { align: 'right' });
+    w.font(7, 'normal', [120, 120, 120]);
+    w.pdf.text(`Page ${i} of ${pages}`, w.pageW / 2, w.pageH - 4, { align: 'center' });
+  }
+}
+
+export function renderReportDocument(doc: ReportDocument, generatedAt = new Date()): jsPDF {
+  const w = new PdfWriter();
+  w.pdf.setProperties({ title: doc.title, subject: doc.subtitle ?? '', creator: 'CodeSync' });
+
+  w.font(16, 'bold');
+  w.pdf.text(doc.title, MARGIN, w.y + 4);
+  w.y += 7;
+  if (doc.subtitle) {
+    w.font(9, 'normal', SUBTLE);
+    for (const line of w.pdf.splitTextToSize(doc.subtitle, w.contentW) as string[]) {
+      w.pdf.text(line, MARGIN, w.y + 3);
+      w.y += 4.5;
+    }
+  }
+  w.y += SECTION_GAP;
+
+  doc.sections.forEach((section, i) => {
+    if (i > 0) w.y += SECTION_GAP;
+    drawSection(w, section);
+  });
+
+  drawChrome(w, generatedAt);
+  return w.pdf;
+}
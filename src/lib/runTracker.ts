@@ -0,0 +1,201 @@
+/**
+ * Automatic production runs — opens a run when a message is selected on a
+ * printer (^SM), closes it on the next changeover, and turns the polled
+ * ^CN product counter into run counts and ProductionSnapshot rows.
+ *
+ * - Counts are accumulated from counter deltas, so a counter reset or a run
+ *   that starts mid-shift does not need the operator to zero anything; a
+ *   counter that went down was reset and counts from zero.
+ * - The run target comes from the open data-source print job for that
+ *   printer and message (rows still to print), else the last run of the
+ *   same message on that printer, else the configured default.
+ * - Like downtimeEngine, this module only emits transitions; useAutoRuns
+ *   applies them to production storage with the helpers at the bottom.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { ProductionRun, ProductionSnapshot } from '@/types/production';
+import { persistentStorage } from '@/lib/persistence';
+
+const SETTINGS_KEY = 'codesync.autoRuns.v1';
+
+export interface AutoRunSettings {
+  enabled: boolean;
+  /** Target when neither a print job nor an earlier run of the message has one. */
+  defaultTarget: number;
+  /** Unchanged counters still write a snapshot this often. */
+  snapshotSeconds: number;
+}
+
+const DEFAULT_SETTINGS: AutoRunSettings = {
+  enabled: true,
+  defaultTarget: 1000,
+  snapshotSeconds: 60,
+};
+
+export type RunTransition =
+  | { type: 'changeover'; printerId: number; printerName: string; messageName: string; at: number }
+  | {
+    type: 'counters';
+    printerId: number;
+    productCount: number;
+    printCount: number;
+    /** Products counted since the previous poll (0 on the first poll). */
+    productDelta: number;
+    /** Write a ProductionSnapshot for this poll. */
+    snapshot: boolean;
+    at: number;
+  };
+
+interface CounterBaseline {
+  productCount: number;
+  printCount: number;
+  snapshotAt: number;
+}
+
+export interface RunTrackerState {
+  settings: AutoRunSettings;
+}
+
+type Listener = (state: RunTrackerState) => void;
+type TransitionListener = (t: RunTransition) => void;
+
+/** Products counted between two ^CN polls; a counter that went down was reset. */
+export function counterDelta(previous: number, current: number): number {
+  return current >= previous ? current - previous : current;
+}
+
+function readSettings(): AutoRunSettings {
+  try {
+    const raw = persistentStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_SETTINGS };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+class RunTracker {
+  private state: RunTrackerState = { settings: readSettings() };
+  private listeners = new Set<Listener>();
+  private transitionListeners = new Set<TransitionListener>();
+  private baselines = new Map<number, CounterBaseline>();
+
+  getState(): RunTrackerState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  onTransition(fn: TransitionListener): () => void {
+    this.transitionListeners.add(fn);
+    return () => { this.transitionListeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<RunTrackerState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((l) => l(this.state));
+  }
+
+  private emit(t: RunTransition) {
+    this.transitionListeners.forEach((l) => l(t));
+  }
+
+  configure(patch: Partial<AutoRunSettings>) {
+    const settings = { ...this.state.settings, ...patch };
+    settings.defaultTarget = Math.max(0, Math.round(Number(settings.defaultTarget) || 0));
+    settings.snapshotSeconds = Math.min(3600, Math.max(5, Math.round(Number(settings.snapshotSeconds) || 0)));
+    persistentStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.setState({ settings });
+  }
+
+  /** A message was selected on a printer (^SM acknowledged). */
+  messageSelected(printerId: number, printerName: string, messageName: string, at = Date.now()) {
+    if (!this.state.settings.enabled) return;
+    this.emit({ type: 'changeover', printerId, printerName, messageName, at });
+  }
+
+  /** Feed one ^CN poll of a printer's product and print counters. */
+  observeCounters(printerId: number, productCount: number, printCount: number, at = Date.now()) {
+    const prev = this.baselines.get(printerId);
+    const changed = !prev || prev.productCount !== productCount || prev.printCount !== printCount;
+    const snapshot = changed || at - prev.snapshotAt >= this.state.settings.snapshotSeconds * 1000;
+    this.baselines.set(printerId, { productCount, printCount, snapshotAt: snapshot ? at : prev!.snapshotAt });
+    this.emit({
+      type: 'counters',
+      printerId,
+      productCount,
+      printCount,
+      productDelta: prev ? counterDelta(prev.productCount, productCount) : 0,
+      snapshot,
+      at,
+    });
+  }
+}
+
+export const runTracker = new RunTracker();
+
+/* ---------- Run bookkeeping ---------- */
+
+/**
+ * Target for a new run: rows still to print on the printer's open print job
+ * for the message, else the last target used for it, else the default.
+ */
+export async function resolveRunTarget(
+  printerId: number,
+  messageName: string,
+  runs: ProductionRun[],
+  fallback: number,
+): Promise<number> {
+  try {
+    const { data } = await supabase
+      .from('print_jobs')
+      .select('total_rows, current_row_index')
+      .eq('printer_id', printerId)
+      .eq('message_name', messageName)
+      .neq('status', 'completed')
+      .order('created_at', { ascending: false })
+      .limit(1);
+    const job = data?.[0];
+    if (job && job.total_rows > job.current_row_index) return job.total_rows - job.current_row_index;
+  } catch (e) {
+    console.warn('[runTracker] print job lookup failed', e);
+  }
+  const previous = runs
+    .filter((r) => r.printerId === printerId && r.messageName === messageName && r.targetCount > 0)
+    .sort((a, b) => b.startTime - a.startTime)[0];
+  return previous?.targetCount ?? fallback;
+}
+
+export function newAutoRun(printerId: number, printerName: string, messageName: string, targetCount: number, startTime: number): Omit<ProductionRun, 'id'> {
+  return {
+    printerId,
+    printerName,
+    messageName,
+    startTime,
+    endTime: null,
+    targetCount,
+    actualCount: 0,
+    downtimeEvents: [],
+    source: 'auto',
+  };
+}
+
+/** End a run at a changeover; downtime still open on it ends with the run. */
+export function closeAutoRun(run: ProductionRun, endTime: number): ProductionRun {
+  if (run.endTime !== null) return run;
+  return {
+    ...run,
+    endTime,
+    downtimeEvents: run.downtimeEvents.map((e) => e.endTime === null ? { ...e, endTime: Math.max(endTime, e.startTime) } : e),
+  };
+}
+
+export function countProducts(run: ProductionRun, delta: number): ProductionRun {
+  return delta > 0 ? { ...run, actualCount: run.actualCount + delta } : run;
+}
+
+export function runSnapshot(run: ProductionRun, t: Extract<RunTransition, { type: 'counters' }>): Omit<ProductionSnapshot, 'id'> {
+  return { runId: run.id, timestamp: t.at, printCount: t.printCount, productCount: t.productCount };
+}
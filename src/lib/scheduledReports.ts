@@ -0,0 +1,56 @@
+/**
+ * Renderer half of scheduled report delivery (electron/reportScheduler.cjs).
+ *
+ * Main decides when a schedule is due and asks for the report; this module
+ * loads the saved template, pins its scope to the requested range, builds
+ * the PDF from the report document model and serializes the matching runs
+ * to CSV. Main does the file writing and delivery.
+ */
+
+import { loadReportTemplate } from '@/hooks/useReportTemplates';
+import { runsToCsv } from '@/lib/reportExport';
+import { buildCustomDocument, customTemplateRuns } from '@/lib/reportDocument';
+import { renderReportDocument } from '@/lib/reportPdf';
+import { resolveScope } from '@/lib/reportAggregation';
+import { shiftCalendarStore } from '@/lib/shiftCalendarStore';
+import type { ProductionRun } from '@/types/production';
+import type { Printer } from '@/types/printer';
+import type { CustomReportTemplate } from '@/types/reportTemplates';
+import type { ReportRenderRequest, ReportRenderResult } from '@/types/electron';
+
+/** The template with its scope fixed to the range this run covers. */
+export function pinTemplateScope(template: CustomReportTemplate, request: ReportRenderRequest): CustomReportTemplate {
+  const range = request.range ?? resolveScope({ ...template.scope, ...request.scope }, request.at);
+  return {
+    ...template,
+    scope: {
+      ...template.scope,
+      bucket: request.scope.bucket,
+      printerIds: request.scope.printerIds.length > 0 ? request.scope.printerIds : template.scope.printerIds,
+      preset: 'custom',
+      customStart: range.start,
+      customEnd: range.end,
+    },
+  };
+}
+
+export async function renderScheduledReport(
+  request: ReportRenderRequest,
+  runs: ProductionRun[],
+  printers: Printer[],
+): Promise<ReportRenderResult> {
+  const saved = await loadReportTemplate(request.templateId);
+  if (!saved) return { error: 'Report template no longer exists' };
+
+  const template = pinTemplateScope(saved, request);
+  const range = request.range ?? resolveScope({ ...saved.scope, ...request.scope }, request.at);
+  const title = `${request.title} — ${range.label}`;
+  const result: ReportRenderResult = { title };
+  if (request.formats.pdf) {
+    const doc = buildCustomDocument(template, runs, printers, shiftCalendarStore.getState().calendar, request.title);
+    doc.subtitle = `${range.label} · ${new Date(range.start).toLocaleString()} – ${new Date(range.end).toLocaleString()}`;
+    result.pdfBase64 = renderReportDocument(doc).output('datauristring').split(',')[1];
+  }
+  if (request.formats.csv) result.csvText = runsToCsv(customTemplateRuns(template, runs));
+  return result;
+}
@@ -0,0 +1,193 @@
+/**
+ * Pseudo-serial endpoints backed by the printer emulator.
+ *
+ * Electron main opens `emu:printer-<id>` paths through electron/serialTransport.cjs
+ * like any COM port; the bytes it writes arrive here on `serial:emu-write`,
+ * are framed into commands and answered by that emulator instance, and the
+ * reply bytes go back on `serial:emu-data`. That exercises the real main-side
+ * serial path — per-printer command queue, '>' prompt detection and the 1-1
+ * demuxer — without an RS-232 cable.
+ *
+ * The endpoints are independent of the Emulator switch: with emulation ON the
+ * renderer short-circuits every printer to the emulator and main is never
+ * involved, so serial testing runs with emulation OFF and these endpoints ON.
+ *
+ * One-to-One is handled at this layer because it is a line behaviour, not a
+ * command reply: after ^MB, each ^MD is answered with bare R, then T and C
+ * as the (simulated) print completes — no CRLF, no prompt.
+ */
+
+import { multiPrinterEmulator } from './multiPrinterEmulator';
+
+export const EMULATOR_SERIAL_PREFIX = 'emu:';
+const STORAGE_KEY = 'serial-emulator-endpoints';
+const PRINT_CYCLE_MS = 80;
+
+export function emulatorSerialPath(printerId: number): string {
+  return `${EMULATOR_SERIAL_PREFIX}printer-${printerId}`;
+}
+
+export function isEmulatorSerialPath(path: string | null | undefined): boolean {
+  return !!path && path.startsWith(EMULATOR_SERIAL_PREFIX);
+}
+
+/** The slice of an emulator instance an endpoint needs. */
+export interface SerialEmulatorTarget {
+  processCommand(command: string): { success: boolean; response: string };
+  getState(): { jetRunning: boolean };
+  simulateOffline?: boolean;
+}
+
+export interface SerialEmulatorEndpoint {
+  write(text: string): void;
+  close(): void;
+  readonly oneToOne: boolean;
+}
+
+/**
+ * Byte-level endpoint over one emulator instance. `emit` receives everything
+ * the "printer" sends back down the line.
+ */
+export function createSerialEmulatorEndpoint(
+  target: SerialEmulatorTarget,
+  emit: (text: string) => void,
+  printCycleMs = PRINT_CYCLE_MS,
+): SerialEmulatorEndpoint {
+  let buffer = '';
+  let oneToOne = false;
+  let closed = false;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+
+  const later = (ms: number, text: string) => {
+    const t = setTimeout(() => {
+      timers.delete(t);
+      if (!closed) emit(text);
+    }, ms);
+    timers.add(t);
+  };
+
+  const handle = (command: string) => {
+    // A powered-off printer says nothing at all.
+    if (target.simulateOffline) return;
+    const upper = command.toUpperCase();
+    if (upper.startsWith('^MB')) {
+      if (!target.getState().jetRunning) { emit('ERR[7] JetStopped\r\n>'); return; }
+      oneToOne = true;
+      emit('1-1\r\n>');
+      return;
+    }
+    if (upper.startsWith('^ME')) {
+      oneToOne = false;
+      emit('NORM\r\n>');
+      return;
+    }
+    if (oneToOne && upper.startsWith('^MD')) {
+      emit('R');
+      later(printCycleMs, 'T');
+      later(printCycleMs * 2, 'C');
+      return;
+    }
+    const { response } = target.processCommand(command);
+    emit(`${response}\r\n>`);
+  };
+
+  return {
+    write(text: string) {
+      if (closed) return;
+      buffer += text;
+      const parts = buffer.split(/\r\n|\r|\n/);
+      buffer = parts.pop() ?? '';
+      for (const part of parts) {
+        const command = part.trim();
+        if (command) handle(command);
+      }
+    },
+    close() {
+      closed = true;
+      timers.forEach(clearTimeout);
+      timers.clear();
+    },
+    get oneToOne() { return oneToOne; },
+  };
+}
+
+export interface SerialEmulatorBridgeState {
+  enabled: boolean;
+  /** Paths currently offered to main. */
+  endpoints: { path: string; label: string }[];
+}
+
+type Listener = (state: SerialEmulatorBridgeState) => void;
+
+class SerialEmulatorBridge {
+  private state: SerialEmulatorBridgeState = { enabled: false, endpoints: [] };
+  private listeners = new Set<Listener>();
+  private endpoints = new Map<string, SerialEmulatorEndpoint>();
+  private unsubscribeWrites: (() => void) | null = null;
+
+  constructor() {
+    try {
+      if (localStorage.getItem(STORAGE_KEY) === '1') this.setEnabled(true);
+    } catch { /* ignore */ }
+  }
+
+  getState(): SerialEmulatorBridgeState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  setEnabled(enabled: boolean) {
+    const api = typeof window !== 'undefined' ? window.electronAPI?.serial : undefined;
+    if (!api) {
+      this.set({ enabled: false, endpoints: [] });
+      return;
+    }
+    try { localStorage.setItem(STORAGE_KEY, enabled ? '1' : '0'); } catch { /* ignore */ }
+    if (enabled && !this.unsubscribeWrites) {
+      this.unsubscribeWrites = api.onEmulatorWrite(({ path, data }) => this.endpointFor(path)?.write(data));
+    } else if (!enabled && this.unsubscribeWrites) {
+      this.unsubscribeWrites();
+      this.unsubscribeWrites = null;
+      this.endpoints.forEach((e) => e.close());
+      this.endpoints.clear();
+    }
+    this.set({ enabled });
+    this.publish();
+  }
+
+  /** Re-announce endpoints after the printer list changes. */
+  publish() {
+    const api = window.electronAPI?.serial;
+    if (!api) return;
+    const endpoints = this.state.enabled
+      ? multiPrinterEmulator.listAll()
+          // Serial printers themselves aren't re-served — that would loop.
+          .filter((p) => !isEmulatorSerialPath(p.ipAddress))
+          .map((p) => ({ path: emulatorSerialPath(p.id), label: `Emulator · ${p.name}` }))
+      : [];
+    api.registerEmulatorPorts(endpoints);
+    this.set({ endpoints });
+  }
+
+  private endpointFor(path: string): SerialEmulatorEndpoint | null {
+    const existing = this.endpoints.get(path);
+    if (existing) return existing;
+    const id = Number(path.slice(`${EMULATOR_SERIAL_PREFIX}printer-`.length));
+    const instance = Number.isInteger(id) ? multiPrinterEmulator.getConfiguredInstance(id) : null;
+    if (!instance) return null;
+    const endpoint = createSerialEmulatorEndpoint(instance, (text) => window.electronAPI?.serial.sendEmulatorData(path, text));
+    this.endpoints.set(path, endpoint);
+    return endpoint;
+  }
+
+  private set(patch: Partial<SerialEmulatorBridgeState>) {
+    this.state = { ...this.state, ...patch };
+    const s = this.state;
+    this.listeners.forEach((l) => l(s));
+  }
+}
+
+export const serialEmulatorBridge = new SerialEmulatorBridge();
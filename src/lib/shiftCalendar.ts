@@ -0,0 +1,153 @@
+/**
+ * Shift calendar — which hours each line is planned to produce.
+ *
+ * Per-line shift patterns (shifts + working weekdays), scheduled breaks
+ * inside shifts and plant-wide holidays. reportAggregation uses it for
+ * planned production time (OEE availability) and shift bucketing; with the
+ * default calendar (three shifts covering 24 h, every day) both match the
+ * old wall-clock behaviour.
+ *
+ * Pure calendar math; shiftCalendarStore.ts holds and persists the calendar.
+ */
+
+import {
+  DEFAULT_SHIFT_CALENDAR,
+  type ReportShift, type ShiftCalendar, type ShiftPattern,
+} from '@/types/reportTemplates';
+
+const MINUTE = 60_000;
+
+export function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export function patternFor(calendar: ShiftCalendar, printerId?: number): ShiftPattern {
+  const id = printerId != null ? calendar.lineAssignments[printerId] : undefined;
+  return calendar.patterns.find(p => p.id === id)
+    ?? calendar.patterns.find(p => p.id === calendar.defaultPatternId)
+    ?? calendar.patterns[0]
+    ?? DEFAULT_SHIFT_CALENDAR.patterns[0];
+}
+
+/** Every shift of every pattern, first definition of an id wins — for shift-comparison columns. */
+export function calendarShifts(calendar: ShiftCalendar): ReportShift[] {
+  const seen = new Map<string, ReportShift>();
+  for (const p of calendar.patterns) for (const s of p.shifts) if (!seen.has(s.id)) seen.set(s.id, s);
+  return Array.from(seen.values());
+}
+
+function isWorkingDay(calendar: ShiftCalendar, pattern: ShiftPattern, day: Date): boolean {
+  if (!pattern.workingDays.includes(day.getDay())) return false;
+  const key = dayKey(day);
+  return !calendar.holidays.some(h => h.date === key);
+}
+
+interface ShiftInstance {
+  shift: ReportShift;
+  start: number;
+  end: number;
+  /** Break periods clipped to the shift */
+  breaks: [number, number][];
+}
+
+/** The shift as worked on the day starting at `day` (local midnight). */
+function instantiate(shift: ReportShift, day: Date): ShiftInstance {
+  const y = day.getFullYear();
+  const m = day.getMonth();
+  const d = day.getDate();
+  const wraps = shift.endHour <= shift.startHour;
+  const start = new Date(y, m, d, shift.startHour).getTime();
+  const end = new Date(y, m, d + (wraps ? 1 : 0), shift.endHour).getTime();
+  const breaks: [number, number][] = [];
+  for (const b of shift.breaks ?? []) {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(b.start);
+    if (!match || !(b.minutes > 0)) continue;
+    const h = Number(match[1]);
+    const bStart = new Date(y, m, d + (wraps && h < shift.startHour ? 1 : 0), h, Number(match[2])).getTime();
+    const s = Math.max(start, bStart);
+    const e = Math.min(end, bStart + b.minutes * MINUTE);
+    if (e > s) breaks.push([s, e]);
+  }
+  return { shift, start, end, breaks };
+}
+
+/** Worked shift instances that could touch [from, to). */
+function shiftInstances(calendar: ShiftCalendar, printerId: number | undefined, from: number, to: number): ShiftInstance[] {
+  const pattern = patternFor(calendar, printerId);
+  const first = new Date(from);
+  const out: ShiftInstance[] = [];
+  // Start a day early so a shift wrapping midnight into `from` is included
+  for (let i = -1; ; i++) {
+    const day = new Date(first.getFullYear(), first.getMonth(), first.getDate() + i);
+    if (day.getTime() >= to) break;
+    if (!isWorkingDay(calendar, pattern, day)) continue;
+    for (const shift of pattern.shifts) {
+      const inst = instantiate(shift, day);
+      if (inst.end > from && inst.start < to) out.push(inst);
+    }
+  }
+  return out;
+}
+
+/** Planned production time in [start, end): inside a worked shift and outside its breaks. */
+export function plannedTimeBetween(calendar: ShiftCalendar, printerId: number | undefined, start: number, end: number): number {
+  if (!(end > start)) return 0;
+  const pieces: [number, number][] = [];
+  for (const inst of shiftInstances(calendar, printerId, start, end)) {
+    let cursor = Math.max(start, inst.start);
+    const stop = Math.min(end, inst.end);
+    for (const [bs, be] of [...inst.breaks].sort((a, b) => a[0] - b[0])) {
+      if (be <= cursor || bs >= stop) continue;
+      if (bs > cursor) pieces.push([cursor, bs]);
+      cursor = Math.max(cursor, be);
+    }
+    if (stop > cursor) pieces.push([cursor, stop]);
+  }
+  // Overlapping shifts in one pattern must not count twice
+  pieces.sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let reach = -Infinity;
+  for (const [s, e] of pieces) {
+    const from = Math.max(s, reach);
+    if (e > from) total += e - from;
+    reach = Math.max(reach, e);
+  }
+  return total;
+}
+
+/** The worked shift `ts` falls in for a line, or null outside planned shifts (weekend, holiday, gap). */
+export function shiftAt(calendar: ShiftCalendar, printerId: number | undefined, ts: number): ReportShift | null {
+  const hit = shiftInstances(calendar, printerId, ts, ts + 1).find(i => ts >= i.start && ts < i.end);
+  return hit?.shift ?? null;
+}
+
+function clampHour(v: unknown) {
+  return Math.min(23, Math.max(0, Math.floor(Number(v) || 0)));
+}
+
+export function normalizeCalendar(raw: Partial<ShiftCalendar> | null | undefined): ShiftCalendar {
+  const patterns = Array.isArray(raw?.patterns) && raw.patterns.length > 0
+    ? raw.patterns.map(p => ({
+      id: String(p.id || crypto.randomUUID()),
+      name: String(p.name || 'Pattern'),
+      workingDays: Array.isArray(p.workingDays) ? p.workingDays.filter(d => d >= 0 && d <= 6) : [0, 1, 2, 3, 4, 5, 6],
+      shifts: (Array.isArray(p.shifts) ? p.shifts : []).map(s => ({
+        ...s,
+        startHour: clampHour(s.startHour),
+        endHour: clampHour(s.endHour),
+        breaks: (s.breaks ?? []).map(b => ({ ...b, minutes: Math.max(0, Math.round(Number(b.minutes) || 0)) })),
+      })),
+    }))
+    : DEFAULT_SHIFT_CALENDAR.patterns;
+  return {
+    patterns,
+    defaultPatternId: patterns.some(p => p.id === raw?.defaultPatternId) ? raw!.defaultPatternId! : patterns[0].id,
+    lineAssignments: Object.fromEntries(
+      Object.entries(raw?.lineAssignments ?? {}).filter(([, id]) => patterns.some(p => p.id === id)),
+    ),
+    holidays: Array.isArray(raw?.holidays)
+      ? raw.holidays.filter(h => /^\d{4}-\d{2}-\d{2}$/.test(h.date)).sort((a, b) => a.date.localeCompare(b.date))
+      : [],
+    updatedAt: Number(raw?.updatedAt) || 0,
+  };
+}
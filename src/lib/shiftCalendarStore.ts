@@ -0,0 +1,67 @@
+/**
+ * Holds the shift calendar (shiftCalendar.ts) for synchronous reads by the
+ * reports and persists it in IndexedDB next to the report templates. The
+ * first load migrates the Shift report's old localStorage shift list.
+ */
+
+import { DEFAULT_SHIFT_CALENDAR, DEFAULT_SHIFTS, type ShiftCalendar } from '@/types/reportTemplates';
+import { loadShiftCalendarRecord, saveShiftCalendarRecord } from '@/hooks/useReportTemplates';
+import { normalizeCalendar } from '@/lib/shiftCalendar';
+
+/** Pre-calendar shift list edited from the Shift report. */
+const LEGACY_SHIFTS_KEY = 'codesync-shift-config';
+
+function legacyCalendar(): ShiftCalendar {
+  let shifts = DEFAULT_SHIFTS;
+  try {
+    const raw = localStorage.getItem(LEGACY_SHIFTS_KEY);
+    if (raw) shifts = JSON.parse(raw);
+  } catch {/* ignore */}
+  return normalizeCalendar({
+    ...DEFAULT_SHIFT_CALENDAR,
+    patterns: [{ ...DEFAULT_SHIFT_CALENDAR.patterns[0], shifts }],
+  });
+}
+
+export interface ShiftCalendarState {
+  calendar: ShiftCalendar;
+  loaded: boolean;
+}
+
+type Listener = (state: ShiftCalendarState) => void;
+
+class ShiftCalendarStore {
+  private state: ShiftCalendarState = { calendar: legacyCalendar(), loaded: false };
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    if (typeof indexedDB === 'undefined') return;
+    loadShiftCalendarRecord()
+      .then(saved => this.setState({ calendar: saved ? normalizeCalendar(saved) : this.state.calendar, loaded: true }))
+      .catch(err => {
+        console.error('[shiftCalendar] load failed', err);
+        this.setState({ loaded: true });
+      });
+  }
+
+  getState(): ShiftCalendarState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<ShiftCalendarState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(l => l(this.state));
+  }
+
+  async save(next: ShiftCalendar) {
+    const calendar = normalizeCalendar({ ...next, updatedAt: Date.now() });
+    this.setState({ calendar });
+    await saveShiftCalendarRecord(calendar);
+  }
+}
+
+export const shiftCalendarStore = new ShiftCalendarStore();
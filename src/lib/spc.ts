@@ -0,0 +1,143 @@
+/**
+ * Statistical process control for the ink-system metrics ^SU / ^TP report
+ * every poll — X̄/R subgroups, Shewhart control limits and the four
+ * Western Electric run rules.
+ *
+ * Pure math; spcStore.ts records the samples and raises the warnings.
+ */
+
+import type { PrinterMetrics } from '@/types/printer';
+
+export type SpcMetric = 'pressure' | 'modulation' | 'charge' | 'viscosity' | 'rps' | 'phaseQual' | 'printheadTemp' | 'electronicsTemp';
+
+export const SPC_METRICS: { key: SpcMetric; label: string; unit: string }[] = [
+  { key: 'pressure', label: 'Pressure', unit: 'PSI' },
+  { key: 'modulation', label: 'Modulation', unit: 'V' },
+  { key: 'charge', label: 'Charge', unit: '%' },
+  { key: 'viscosity', label: 'Viscosity', unit: 'cP' },
+  { key: 'rps', label: 'RPS', unit: 'rev/s' },
+  { key: 'phaseQual', label: 'Phase Quality', unit: '%' },
+  { key: 'printheadTemp', label: 'Printhead Temp', unit: '°C' },
+  { key: 'electronicsTemp', label: 'Electronics Temp', unit: '°C' },
+];
+
+export interface SpcSample {
+  printerId: number;
+  at: number;
+  values: Record<SpcMetric, number>;
+}
+
+export interface Subgroup {
+  /** Time of the subgroup's last sample */
+  at: number;
+  mean: number;
+  range: number;
+}
+
+export interface ControlLimits {
+  center: number;
+  ucl: number;
+  lcl: number;
+  /** R chart */
+  rCenter: number;
+  rUcl: number;
+  rLcl: number;
+}
+
+export type WesternElectricRule = 1 | 2 | 3 | 4;
+
+export const WESTERN_ELECTRIC_RULES: Record<WesternElectricRule, string> = {
+  1: 'One point beyond 3σ',
+  2: 'Two of three points beyond 2σ on one side',
+  3: 'Four of five points beyond 1σ on one side',
+  4: 'Eight points in a row on one side of center',
+};
+
+export interface RuleViolation {
+  /** Index of the subgroup that completed the pattern */
+  index: number;
+  rule: WesternElectricRule;
+}
+
+/** Shewhart constants by subgroup size (2–10). */
+const A2 = [0, 0, 1.88, 1.023, 0.729, 0.577, 0.483, 0.419, 0.373, 0.337, 0.308];
+const D3 = [0, 0, 0, 0, 0, 0, 0, 0.076, 0.136, 0.184, 0.223];
+const D4 = [0, 0, 3.267, 2.574, 2.282, 2.114, 2.004, 1.924, 1.864, 1.816, 1.777];
+
+export const MIN_SUBGROUP = 2;
+export const MAX_SUBGROUP = 10;
+
+export function sampleFromMetrics(printerId: number, m: PrinterMetrics, at: number): SpcSample {
+  return {
+    printerId,
+    at,
+    values: {
+      pressure: m.pressure,
+      modulation: m.modulation,
+      charge: m.charge,
+      viscosity: m.viscosity,
+      rps: m.rps,
+      phaseQual: m.phaseQual,
+      printheadTemp: m.printheadTemp,
+      electronicsTemp: m.electronicsTemp,
+    },
+  };
+}
+
+/** Consecutive, non-overlapping subgroups of `size` samples; a trailing partial group is dropped. */
+export function subgroups(samples: SpcSample[], metric: SpcMetric, size: number): Subgroup[] {
+  const out: Subgroup[] = [];
+  for (let i = 0; i + size <= samples.length; i += size) {
+    const values = samples.slice(i, i + size).map((s) => s.values[metric]).filter(Number.isFinite);
+    if (values.length < size) continue;
+    out.push({
+      at: samples[i + size - 1].at,
+      mean: values.reduce((a, b) => a + b, 0) / size,
+      range: Math.max(...values) - Math.min(...values),
+    });
+  }
+  return out;
+}
+
+/** X̄ ± A2·R̄ and D3·R̄ / D4·R̄ from the subgroups themselves. */
+export function controlLimits(groups: Subgroup[], size: number): ControlLimits | null {
+  if (groups.length === 0) return null;
+  const n = Math.min(MAX_SUBGROUP, Math.max(MIN_SUBGROUP, size));
+  const center = groups.reduce((a, g) => a + g.mean, 0) / groups.length;
+  const rBar = groups.reduce((a, g) => a + g.range, 0) / groups.length;
+  return {
+    center,
+    ucl: center + A2[n] * rBar,
+    lcl: center - A2[n] * rBar,
+    rCenter: rBar,
+    rUcl: D4[n] * rBar,
+    rLcl: D3[n] * rBar,
+  };
+}
+
+/** Western Electric rules on the X̄ chart; each subgroup reports at most its first (most severe) rule. */
+export function westernElectric(groups: Subgroup[], limits: Pick<ControlLimits, 'center' | 'ucl' | 'lcl'>): RuleViolation[] {
+  // Hand-entered limits need not be symmetric, so each side has its own σ
+  const upper = (limits.ucl - limits.center) / 3;
+  const lower = (limits.center - limits.lcl) / 3;
+  if (!(upper > 0) || !(lower > 0)) return [];
+  const z = groups.map((g) => (g.mean - limits.center) / (g.mean >= limits.center ? upper : lower));
+  const out: RuleViolation[] = [];
+
+  // How many of the `len` subgroups ending at i lie beyond `sigmas` on i's side
+  const beyond = (i: number, len: number, sigmas: number) => {
+    if (i + 1 < len) return 0;
+    const side = Math.sign(z[i]);
+    return z.slice(i + 1 - len, i + 1).filter((v) => v * side > sigmas).length;
+  };
+
+  for (let i = 0; i < z.length; i++) {
+    let rule: WesternElectricRule | null = null;
+    if (Math.abs(z[i]) > 3) rule = 1;
+    else if (Math.abs(z[i]) > 2 && beyond(i, 3, 2) >= 2) rule = 2;
+    else if (Math.abs(z[i]) > 1 && beyond(i, 5, 1) >= 4) rule = 3;
+    else if (z[i] !== 0 && beyond(i, 8, 0) === 8) rule = 4;
+    if (rule) out.push({ index: i, rule });
+  }
+  return out;
+}
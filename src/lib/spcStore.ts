@@ -0,0 +1,269 @@
+/**
+ * Time series of printer health metrics for SPC (spc.ts).
+ *
+ * - usePrinterConnection feeds the connected printer's metrics every poll;
+ *   one sample per `sampleSeconds` is kept while the jet is running (a
+ *   stopped jet reads zero pressure and would only produce noise).
+ * - Samples live in IndexedDB keyed [printerId, at] and are pruned after
+ *   `retentionDays`.
+ * - Every completed subgroup is checked against the Western Electric rules
+ *   and violations become alerts; useSpcWarnings turns new ones into toasts.
+ *   With computed limits the checks start once MIN_BASELINE subgroups have
+ *   been seen this session; fixed limits are checked from the first one.
+ */
+
+import {
+  SPC_METRICS, MIN_SUBGROUP, MAX_SUBGROUP, sampleFromMetrics, subgroups, controlLimits, westernElectric,
+  type SpcMetric, type SpcSample, type Subgroup, type WesternElectricRule,
+} from '@/lib/spc';
+import type { PrinterMetrics } from '@/types/printer';
+import { persistentStorage } from '@/lib/persistence';
+
+const DB_NAME = 'codesync-spc';
+const DB_VERSION = 1;
+const STORE = 'samples';
+const SETTINGS_KEY = 'codesync.spc.v1';
+
+/** Subgroups kept per printer and metric for live rule checks. */
+const LIVE_SUBGROUPS = 30;
+/** Auto limits need this many subgroups before live checks start. */
+const MIN_BASELINE = 10;
+/** The same rule on the same metric is not re-raised within this window. */
+const REALERT_MS = 60 * 60_000;
+
+export interface ManualLimits {
+  center: number;
+  ucl: number;
+  lcl: number;
+}
+
+export interface SpcSettings {
+  enabled: boolean;
+  sampleSeconds: number;
+  subgroupSize: number;
+  retentionDays: number;
+  /** `${printerId}.${metric}` → fixed limits; absent means limits are computed from the data. */
+  limits: Record<string, ManualLimits>;
+}
+
+const DEFAULT_SETTINGS: SpcSettings = {
+  enabled: true,
+  sampleSeconds: 30,
+  subgroupSize: 5,
+  retentionDays: 30,
+  limits: {},
+};
+
+export interface SpcAlert {
+  id: string;
+  printerId: number;
+  metric: SpcMetric;
+  rule: WesternElectricRule;
+  /** Subgroup that completed the pattern */
+  at: number;
+  mean: number;
+}
+
+export interface SpcState {
+  settings: SpcSettings;
+  alerts: SpcAlert[];
+}
+
+type Listener = (state: SpcState) => void;
+type AlertListener = (alert: SpcAlert) => void;
+
+export function limitsKey(printerId: number, metric: SpcMetric) {
+  return `${printerId}.${metric}`;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Samples arrive on every poll, so the connection is opened once and shared. */
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: ['printerId', 'at'] });
+        store.createIndex('at', 'at', { unique: false });
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab upgrading the schema — let it, and reopen on the next call
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+  }).catch((e) => {
+    dbPromise = null;
+    throw e;
+  });
+  return dbPromise;
+}
+
+async function putSample(sample: SpcSample): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(sample);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** One printer's samples in [from, to], oldest first. */
+export async function loadSamples(printerId: number, from: number, to: number): Promise<SpcSample[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readonly');
+    const req = tx.objectStore(STORE).getAll(IDBKeyRange.bound([printerId, from], [printerId, to]));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function pruneBefore(cutoff: number): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const req = tx.objectStore(STORE).index('at').openCursor(IDBKeyRange.upperBound(cutoff, true));
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function readSettings(): SpcSettings {
+  try {
+    const raw = persistentStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_SETTINGS };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+interface LiveSeries {
+  /** Samples of the subgroup being filled */
+  pending: SpcSample[];
+  groups: Record<SpcMetric, Subgroup[]>;
+}
+
+function emptyGroups(): Record<SpcMetric, Subgroup[]> {
+  return Object.fromEntries(SPC_METRICS.map((m) => [m.key, []])) as Record<SpcMetric, Subgroup[]>;
+}
+
+class SpcStore {
+  private state: SpcState = { settings: readSettings(), alerts: [] };
+  private listeners = new Set<Listener>();
+  private alertListeners = new Set<AlertListener>();
+  private lastSampleAt = new Map<number, number>();
+  private live = new Map<number, LiveSeries>();
+  private pruned = false;
+
+  getState(): SpcState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  onAlert(fn: AlertListener): () => void {
+    this.alertListeners.add(fn);
+    return () => { this.alertListeners.delete(fn); };
+  }
+
+  private setState(patch: Partial<SpcState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((l) => l(this.state));
+  }
+
+  configure(patch: Partial<SpcSettings>) {
+    const settings = { ...this.state.settings, ...patch };
+    settings.sampleSeconds = Math.min(3600, Math.max(5, Math.round(Number(settings.sampleSeconds) || 0)));
+    settings.subgroupSize = Math.min(MAX_SUBGROUP, Math.max(MIN_SUBGROUP, Math.round(Number(settings.subgroupSize) || 0)));
+    settings.retentionDays = Math.min(365, Math.max(1, Math.round(Number(settings.retentionDays) || 0)));
+    const regroup = settings.subgroupSize !== this.state.settings.subgroupSize;
+    persistentStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.setState({ settings });
+    // Live subgroups of the old size can't be compared with new ones
+    if (regroup) this.live.clear();
+  }
+
+  setLimits(printerId: number, metric: SpcMetric, limits: ManualLimits | null) {
+    const next = { ...this.state.settings.limits };
+    if (limits) next[limitsKey(printerId, metric)] = limits;
+    else delete next[limitsKey(printerId, metric)];
+    this.configure({ limits: next });
+  }
+
+  dismissAlert(id: string) {
+    this.setState({ alerts: this.state.alerts.filter((a) => a.id !== id) });
+  }
+
+  clearAlerts(printerId: number) {
+    this.setState({ alerts: this.state.alerts.filter((a) => a.printerId !== printerId) });
+  }
+
+  /** Feed one poll's metrics for a printer. */
+  record(printerId: number, metrics: PrinterMetrics, jetRunning: boolean, at = Date.now()) {
+    const { settings } = this.state;
+    if (!settings.enabled || !jetRunning) return;
+    const last = this.lastSampleAt.get(printerId) ?? 0;
+    if (at - last < settings.sampleSeconds * 1000) return;
+    this.lastSampleAt.set(printerId, at);
+
+    const sample = sampleFromMetrics(printerId, metrics, at);
+    putSample(sample).catch((e) => console.error('[spc] sample write failed', e));
+    if (!this.pruned) {
+      this.pruned = true;
+      pruneBefore(at - settings.retentionDays * 86_400_000).catch((e) => console.error('[spc] prune failed', e));
+    }
+
+    let series = this.live.get(printerId);
+    if (!series) {
+      series = { pending: [], groups: emptyGroups() };
+      this.live.set(printerId, series);
+    }
+    series.pending.push(sample);
+    if (series.pending.length < settings.subgroupSize) return;
+    const done = series.pending;
+    series.pending = [];
+    for (const { key } of SPC_METRICS) {
+      const [group] = subgroups(done, key, settings.subgroupSize);
+      if (!group) continue;
+      series.groups[key] = [...series.groups[key], group].slice(-LIVE_SUBGROUPS);
+      this.check(printerId, key, series.groups[key]);
+    }
+  }
+
+  private check(printerId: number, metric: SpcMetric, groups: Subgroup[]) {
+    const { settings } = this.state;
+    const manual = settings.limits[limitsKey(printerId, metric)];
+    if (!manual && groups.length < MIN_BASELINE) return;
+    const limits = manual ?? controlLimits(groups, settings.subgroupSize);
+    if (!limits) return;
+    const hit = westernElectric(groups, limits).find((v) => v.index === groups.length - 1);
+    if (!hit) return;
+    const group = groups[hit.index];
+    const recent = this.state.alerts.find((a) =>
+      a.printerId === printerId && a.metric === metric && a.rule === hit.rule && group.at - a.at < REALERT_MS);
+    if (recent) return;
+    const alert: SpcAlert = { id: crypto.randomUUID(), printerId, metric, rule: hit.rule, at: group.at, mean: group.mean };
+    this.setState({ alerts: [alert, ...this.state.alerts].slice(0, 100) });
+    this.alertListeners.forEach((l) => l(alert));
+  }
+}
+
+export const spcStore = new SpcStore();
@@ -289,6 +289,16 @@ export const MANUAL: ManualChapter[] = [
         title: 'Adjust dialog & per-message overrides',
         body: `Open the **Adjust** dialog from the message editor toolbar to tune **Delay, Bold, Gap and Pitch** for the current message.\n\n**Resolution priority (highest to lowest):**\n\n1. **Per-Message Override** — tick the checkbox next to a value to lock it to this message\n2. **Printer Setup Card → New Printer Defaults** — inherited when no override is set\n3. **Fleet Defaults** — Width 2, Delay 500, Ultra Fast\n4. **Factory fallback** — hard-coded safety values\n\n**Checkbox convention (23 Jul 2026):** unticked = inherit; ticked = "custom value for this message (ignores printer Setup Card)". Most messages should leave every checkbox unticked so they follow the printer's baseline; only tick a box when this specific message needs its own value (e.g. a slow VDP job that needs a longer delay).\n\n**Rotation and Speed are intentionally hidden** in message-editor mode — Rotation is always resolved from the Printer Setup Card at Select time (so Flip and Mirror Flip printers on the same conveyor stay correct regardless of the source message), and Speed comes from the printer-level Speed. These fields still appear when the Adjust dialog is opened in live-adjust mode against a running printer.\n\n**Done & Save button:** clicking Done in message-editor mode flushes the settings to the message record and re-runs the same Save path as the main Save button, so overrides are persisted in one click. In live-adjust mode Done pushes the values to the connected printer and closes.`,
       },
+      {
+        id: 'print-length',
+        title: 'Print length & line speed',
+        body: `The **Length** button in the message editor estimates how long the message prints on the product and how fast the line may run at each Speed setting (Fast … Ultra Fast).\n\nThe estimate counts the message's strokes from its fields (font advances, field Gap and Bold), applies the Adjust **Width, Bold, Gap** and **Pitch**, and converts pulses to millimetres or inches with the encoder calibration from the **Wire & Cable** screen. Enter the conveyor speed and product length once; they are remembered for every message.\n\nA warning banner appears above the canvas when the message is longer than the product, longer than the Pitch (prints would overlap), or the line speed is above the limit for the message's Speed setting. Speed limits use nominal drop rates — confirm on the line.`,
+      },
+      {
+        id: 'message-history',
+        title: 'Message history & rollback',
+        body: `Every Save from the message editor adds a version to the message's **History** (toolbar button). Each version records when it was saved, the name entered under **Saving as**, and every printer it was pushed to — the editing printer, master/slave sync and Copy to….\n\nPick a version to compare it with the current editor or any other version: both layouts are drawn on the canvas with added fields outlined green, removed red and changed amber, followed by a list of what changed (text, position, font, bold, gap…).\n\n**Roll back** re-saves the old version to the printer through the normal Save path and records it as a new version, so the history itself is never rewritten.`,
+      },
       {
         id: 'message-protection',
         title: 'Message protection lock',
@@ -373,10 +383,10 @@ export const MANUAL: ManualChapter[] = [
       {
         id: 'graphics',
         title: 'Graphic fields',
-        body: `Insert any bitmap from the printer's onboard graphic library (logos, warning symbols, regulatory marks). The Graphics dialog lists each graphic by number and name (TRUPOINT.BMP, LOGO1.BMP, etc.) — click to insert.`,
+        body: `Insert any bitmap from the printer's onboard graphic library (logos, warning symbols, regulatory marks). The Graphics dialog lists the graphics the connected printer reports, by number and name — click to insert. Use Import to bring in your own PNG, BMP or SVG: it is scaled to the message height, thresholded or dithered to dots, and uploaded to one or more printers.`,
         screenshot: '/manual-screenshots/09h-graphic-field.png',
         callouts: [
-          { label: 'Graphic library list', text: 'every bitmap stored in the printer\'s onboard memory, listed by number + filename' },
+          { label: 'Graphic library list', text: 'every bitmap stored in the printer\'s onboard memory, listed by number + filename; imported logos not yet uploaded show as Library only' },
           { label: 'Preview pane', text: 'shows the selected graphic at its native resolution' },
           { label: 'Insert', text: 'places the graphic on the canvas at the cursor position; resize is not supported (bitmaps print at native size)' },
         ],
@@ -955,6 +965,11 @@ export const MANUAL: ManualChapter[] = [
         title: 'Printer shows OFFLINE',
         body: `**Causes & fixes:**\n\n1. **IP address wrong** — verify on the printer's front panel (Network menu) matches CodeSync's printer record\n2. **Different subnet** — PC and printer must share the same subnet (e.g. both 192.168.1.x)\n3. **Telnet disabled** — enable Remote Comms / Telnet on the printer's front panel\n4. **Firewall** — Windows Defender may block port 23; allow CodeSync through\n5. **Cable / switch** — try a different ethernet cable or port\n\nIf five consecutive polls fail (15 seconds), the printer is marked offline.`,
       },
+      {
+        id: 'data-storage',
+        title: 'Where CodeSync keeps its data',
+        body: `Messages, printers, the PC library, message history, consumables, catalogs, production runs and fault history are stored in a local database: **codesync-data.sqlite** in the app's user-data folder on the desktop app, or the browser's IndexedDB in the web app. The first start after an update copies everything from the older browser storage automatically; nothing needs to be re-entered.\n\nIf the SQLite driver can't load on a PC, the desktop app keeps the same data in **codesync-data.json** instead. To move a workstation, copy that file with CodeSync closed.`,
+      },
       {
         id: 'message-rejected',
         title: 'Printer rejects a message',
@@ -1,12 +1,16 @@
 import { createRoot } from "react-dom/client";
-import App from "./App.tsx";
 import "./index.css";
 import { initLicenseHeaderSync } from "./integrations/supabase/licenseHeader";
+import { initPersistence, persistentStorage } from "./lib/persistence";
 
 // Attach the active license key to every Supabase request as early as
 // possible — RLS on shared data tables requires it.
 initLicenseHeaderSync();
 
+// Messages, printers and production data are hydrated from SQLite/IndexedDB
+// before any store module loads — App is imported only once this settles.
+const persistenceReady = initPersistence();
+
 declare const __APP_VERSION__: string;
 declare const __APP_BUILD_TOKEN__: string;
 
@@ -127,7 +131,8 @@ const clearStalePreviewState = async (): Promise<boolean> => {
   return false;
 };
 
-const mountApp = () => {
+const mountApp = async () => {
+  const { default: App } = await import("./App.tsx");
   const root = createRoot(document.getElementById("root")!);
   root.render(<App />);
   (window as any).__CS_MOUNTED = true;
@@ -144,10 +149,10 @@ if (import.meta.hot) {
 
 // Expose emulator in dev preview for documentation screenshot capture
 if (import.meta.env.DEV) {
-  void Promise.all([
+  void persistenceReady.then(() => Promise.all([
     import('./lib/printerEmulator'),
     import('./lib/multiPrinterEmulator'),
-  ]).then(([single, multi]) => {
+  ])).then(([single, multi]) => {
     (window as any).__cs_emulator = {
       single: single.printerEmulator,
       multi: multi.multiPrinterEmulator,
@@ -169,8 +174,8 @@ if (import.meta.env.DEV) {
   // console: `clearSlaveEmulatorMessages()` — then reload.
   (window as any).clearSlaveEmulatorMessages = () => {
     try {
-      const raw = localStorage.getItem('codesync-printers');
-      if (!raw) { console.warn('[clearSlaves] no printers in localStorage'); return; }
+      const raw = persistentStorage.getItem('codesync-printers');
+      if (!raw) { console.warn('[clearSlaves] no printers stored'); return; }
       const printers = JSON.parse(raw) as Array<{ name: string; ipAddress: string; role?: string }>;
       const slaves = printers.filter(p => p.role === 'slave');
       const presets = ['BESTCODE', 'BESTCODE-AUTO'];
@@ -198,8 +203,8 @@ if (import.meta.env.DEV) {
   //   simulateSlaveWriteFailure('SlaveA', true|false)  → force a value
   (window as any).simulateSlaveWriteFailure = async (name?: string, value?: boolean) => {
     const { multiPrinterEmulator } = await import('./lib/multiPrinterEmulator');
-    const raw = localStorage.getItem('codesync-printers');
-    if (!raw) { console.warn('[simFail] no printers in localStorage'); return; }
+    const raw = persistentStorage.getItem('codesync-printers');
+    if (!raw) { console.warn('[simFail] no printers stored'); return; }
     const printers = JSON.parse(raw) as Array<{ name: string; ipAddress: string; port: number; role?: string }>;
     const slaves = printers.filter(p => p.role === 'slave');
     if (!name) {
@@ -227,8 +232,8 @@ if (import.meta.env.DEV) {
   //   simulateSlaveOffline('Printer 11', true)   → force offline
   (window as any).simulateSlaveOffline = async (name?: string, value?: boolean) => {
     const { multiPrinterEmulator } = await import('./lib/multiPrinterEmulator');
-    const raw = localStorage.getItem('codesync-printers');
-    if (!raw) { console.warn('[simOffline] no printers in localStorage'); return; }
+    const raw = persistentStorage.getItem('codesync-printers');
+    if (!raw) { console.warn('[simOffline] no printers stored'); return; }
     const printers = JSON.parse(raw) as Array<{ name: string; ipAddress: string; port: number; role?: string }>;
     if (!name) {
       const state = printers.map(p => {
@@ -257,8 +262,10 @@ const bootstrap = async () => {
   const reloadingAfterCacheReset = await clearStaleWebPublishState();
   if (reloadingAfterCacheReset) return;
 
+  await persistenceReady;
+
   try {
-    mountApp();
+    await mountApp();
   } catch (err) {
     showCrashReport(err);
   }
@@ -0,0 +1,222 @@
+/**
+ * FleetPage — /fleet route. Cloud view of every site and printer reporting
+ * through the telemetry uplink (src/lib/fleetUplink.ts), plus this PC's own
+ * uplink settings.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, RefreshCw, AlertTriangle, Cpu } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import { FleetUplinkCard } from '@/components/fleet/FleetUplinkCard';
+import { FleetTelemetryChart } from '@/components/fleet/FleetTelemetryChart';
+import { fetchFleetOverview, FLEET_STALE_MS, type FleetPrinterOverview } from '@/lib/fleetDashboard';
+
+const PAGE_TITLE = 'Fleet Monitoring';
+const ALL_SITES = '__all__';
+
+const fmt = (v: number | null | undefined, digits = 0) => (v == null ? '—' : v.toFixed(digits));
+
+function statusBadge(p: FleetPrinterOverview) {
+  const stale = !p.last_seen || Date.now() - new Date(p.last_seen).getTime() > FLEET_STALE_MS;
+  if (p.status === 'offline' || stale) return <Badge variant="outline">Offline</Badge>;
+  if (p.status === 'error') return <Badge variant="destructive">Fault</Badge>;
+  if (p.status === 'ready') return <Badge className="bg-green-600 hover:bg-green-600">Ready</Badge>;
+  return <Badge variant="secondary">Not ready</Badge>;
+}
+
+const SEVERITY_CLASS: Record<string, string> = {
+  error: 'text-destructive',
+  warning: 'text-yellow-600',
+};
+
+export default function FleetPage() {
+  const navigate = useNavigate();
+  const [siteId, setSiteId] = useState(ALL_SITES);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const prev = document.title;
+    document.title = PAGE_TITLE;
+    return () => { document.title = prev; };
+  }, []);
+
+  const { data, isFetching, error, refetch } = useQuery({
+    queryKey: ['fleet-overview'],
+    queryFn: fetchFleetOverview,
+    refetchInterval: 30_000,
+  });
+
+  const siteName = useMemo(() => new Map((data?.sites ?? []).map((s) => [s.id, s.name])), [data]);
+  const printers = useMemo(
+    () => (data?.printers ?? []).filter((p) => siteId === ALL_SITES || p.site_id === siteId),
+    [data, siteId],
+  );
+  const printerName = useMemo(() => new Map((data?.printers ?? []).map((p) => [p.id, p.name])), [data]);
+  const visibleIds = useMemo(() => new Set(printers.map((p) => p.id)), [printers]);
+  const events = (data?.events ?? []).filter((e) =>
+    selectedId ? e.printer_id === selectedId : visibleIds.has(e.printer_id));
+  const selected = printers.find((p) => p.id === selectedId) ?? null;
+  const latestVersion = data?.latestFirmware?.version ?? null;
+  const faulted = printers.filter((p) => p.status === 'error').length;
+
+  return (
+    <div className="h-screen flex flex-col bg-background text-foreground">
+      <div className="flex items-center gap-3 p-3 border-b border-border shrink-0">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <h1 className="text-lg font-bold">{PAGE_TITLE}</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={siteId} onValueChange={(v) => { setSiteId(v); setSelectedId(null); }}>
+            <SelectTrigger className="w-56 h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SITES}>All sites ({data?.sites.length ?? 0})</SelectItem>
+              {(data?.sites ?? []).map((s) => (
+                <SelectItem key={s.id} value={s.id}>{s.name}{s.location ? ` — ${s.location}` : ''}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${isFetching ? 'animate-spin' : ''}`} /> Refresh
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          <FleetUplinkCard />
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertTriangle className="w-4 h-4" /> {(error as Error).message}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-3">
+                Printers
+                <span className="text-sm font-normal text-muted-foreground">
+                  {printers.length} printer(s){faulted > 0 ? ` · ${faulted} faulted` : ''}
+                  {latestVersion ? ` · latest firmware ${latestVersion}` : ''}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Printer</TableHead>
+                    {siteId === ALL_SITES && <TableHead>Site</TableHead>}
+                    <TableHead>Status</TableHead>
+                    <TableHead>Firmware</TableHead>
+                    <TableHead className="text-right">Pressure</TableHead>
+                    <TableHead className="text-right">Viscosity</TableHead>
+                    <TableHead className="text-right">Mod</TableHead>
+                    <TableHead className="text-right">RPS</TableHead>
+                    <TableHead className="text-right">Head °C</TableHead>
+                    <TableHead className="text-right">Elec °C</TableHead>
+                    <TableHead className="text-right">Prints</TableHead>
+                    <TableHead>Last seen</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {printers.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={12} className="text-center text-muted-foreground py-8">
+                        No printers have reported yet. Turn on the uplink on each PC to register its site.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {printers.map((p) => {
+                    const t = p.telemetry;
+                    const outdated = latestVersion && p.firmware_version && p.firmware_version !== latestVersion;
+                    return (
+                      <TableRow
+                        key={p.id}
+                        className={`cursor-pointer ${p.id === selectedId ? 'bg-muted' : ''}`}
+                        onClick={() => setSelectedId(p.id === selectedId ? null : p.id)}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{p.name}</div>
+                          <div className="text-xs text-muted-foreground font-mono">
+                            {p.port ? `${p.ip_address}:${p.port}` : p.ip_address}
+                          </div>
+                        </TableCell>
+                        {siteId === ALL_SITES && <TableCell>{siteName.get(p.site_id) ?? '—'}</TableCell>}
+                        <TableCell>{statusBadge(p)}</TableCell>
+                        <TableCell>
+                          <span className="font-mono text-xs">{p.firmware_version ?? '—'}</span>
+                          {outdated && <Badge variant="outline" className="ml-1 text-[10px]">update</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{fmt(t?.pressure)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{fmt(t?.viscosity, 2)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{fmt(t?.modulation)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{fmt(t?.rps, 1)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{fmt(t?.printhead_temp, 1)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{fmt(t?.electronics_temp, 1)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{t?.print_count?.toLocaleString() ?? '—'}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {p.last_seen ? new Date(p.last_seen).toLocaleString() : 'never'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Cpu className="w-4 h-4" /> {selected ? `${selected.name} — telemetry` : 'Telemetry'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {selected
+                  ? <FleetTelemetryChart printerId={selected.id} />
+                  : <div className="text-sm text-muted-foreground py-8 text-center">Select a printer to chart its history.</div>}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">{selected ? `${selected.name} — events` : 'Recent events'}</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ScrollArea className="h-64">
+                  <div className="divide-y divide-border">
+                    {events.length === 0 && (
+                      <div className="text-sm text-muted-foreground py-8 text-center">No events.</div>
+                    )}
+                    {events.map((e) => (
+                      <div key={e.id} className="px-4 py-2 text-sm flex gap-3">
+                        <span className="text-xs text-muted-foreground whitespace-nowrap tabular-nums">
+                          {new Date(e.occurred_at).toLocaleString()}
+                        </span>
+                        {!selected && <span className="font-medium whitespace-nowrap">{printerName.get(e.printer_id)}</span>}
+                        <span className={SEVERITY_CLASS[e.severity] ?? ''}>{e.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -55,6 +55,16 @@ import { useLicense } from '@/contexts/LicenseContext';
 import { PrintMessage, Printer } from '@/types/printer';
 import { useMasterSlaveSync } from '@/hooks/useMasterSlaveSync';
 import { useProductionStorage } from '@/hooks/useProductionStorage';
+import { useIntegrationImports } from '@/hooks/useIntegrationImports';
+import { useFleetUplink } from '@/hooks/useFleetUplink';
+import { useAutoDowntime } from '@/hooks/useAutoDowntime';
+import { useAutoRuns } from '@/hooks/useAutoRuns';
+import { useSpcWarnings } from '@/hooks/useSpc';
+import { useFaultAdvisoryWarnings } from '@/hooks/useFaultPredictor';
+import { counterDelta, runTracker } from '@/lib/runTracker';
+import { useScheduledReportRenderer } from '@/hooks/useReportSchedules';
+import { catalog } from '@/twin-code/catalog';
+import { twinPairStore, bindingMatches } from '@/twin-code/twinPairStore';
 import { logConsumption } from '@/lib/consumptionTracker';
 
 import { UserDefineEntryDialog, UserDefinePrompt } from '@/components/messages/UserDefineEntryDialog';
@@ -66,6 +76,7 @@ import { beginSaveBusy, waitForSaveIdle } from '@/lib/saveBusy';
 import { isPresetMessage } from '@/lib/hardcodedMessages';
 import { isMessageProtected } from '@/lib/protectedMessages';
 import { recordMessageSent, getPrintersThatHaveRun, getLastSentAt, backfillFromStoredKeys, pruneRemovedPrinters } from '@/lib/messageSentHistory';
+import { messageHistory } from '@/lib/messageHistory';
 import type { OtherPrinterRow } from '@/components/messages/MessageOnOtherPrintersPanel';
 
 
@@ -231,6 +242,7 @@ const Index = () => {
   
   // Production storage (IndexedDB)
   const productionStorage = useProductionStorage();
+  useIntegrationImports();
   
   
   const {
@@ -274,6 +286,7 @@ const Index = () => {
     fetchMessageContent,
     buildMessageCommands,
   } = usePrinterConnection();
+  useFleetUplink(connectionState, activeFaults);
   
   const connectedPrinterId = connectionState.connectedPrinter?.id ?? null;
   const selectedPrinter = selectedPrinterId != null ? printers.find((printer) => printer.id === selectedPrinterId) ?? null : null;
@@ -1257,7 +1270,7 @@ const Index = () => {
     return targetPrinter?.id !== undefined ? getMessage(messageName, targetPrinter.id) : getMessage(messageName);
   }, [connectionState.connectedPrinter?.id, getMessage, getMessageStrict]);
 
-  const saveEditedMessage = useCallback(async (details: MessageDetails, isNew?: boolean): Promise<MessageDetails | null> => {
+  const saveEditedMessage = useCallback(async (details: MessageDetails, isNew?: boolean, options?: { note?: string }): Promise<MessageDetails | null> => {
     if (!editingMessage) return null;
 
 
@@ -1320,6 +1333,7 @@ const Index = () => {
     if (!printerWriteNeeded) {
       updateMessage(editingMessage.id, details.name);
       saveMessage(localDetails, editTargetPrinterId);
+      messageHistory.record(localDetails, { printerId: editTargetPrinterId ?? null, note: options?.note });
       recentlySavedRef.current.set(targetName, Date.now());
       if (editTargetPrinterId !== undefined) recentlySavedRef.current.set(`${editTargetPrinterId}:${targetName}`, Date.now());
       syncedMessagesRef.current.add(targetName);
@@ -1403,6 +1417,12 @@ const Index = () => {
       updateMessage(editingMessage.id, details.name);
     }
     saveMessage(localDetails, editTargetPrinterId);
+    // Recorded before the slave sync so its pushes land on this version
+    messageHistory.record(localDetails, {
+      printerId: editTargetPrinterId ?? null,
+      pushedTo: connectionState.connectedPrinter ? [connectionState.connectedPrinter.id] : [],
+      note: options?.note,
+    });
     recentlySavedRef.current.set(targetName, Date.now());
     if (editTargetPrinterId !== undefined) recentlySavedRef.current.set(`${editTargetPrinterId}:${targetName}`, Date.now());
     syncedMessagesRef.current.add(targetName);
@@ -2631,51 +2651,29 @@ const Index = () => {
     );
   }, [consumableStorage.consumables, consumableStorage.getConsumable]);
 
-  // Auto-downtime detection: track jet/HV state transitions for active production runs
-  const prevPrinterStateRef = useRef<{ jetRunning: boolean; isRunning: boolean }>({ jetRunning: false, isRunning: false });
-  useEffect(() => {
-    const jetRunning = connectionState.status?.jetRunning ?? false;
-    const isRunning = connectionState.status?.isRunning ?? false;
-    const prev = prevPrinterStateRef.current;
-    const printerId = connectionState.connectedPrinter?.id;
-
-    if (printerId != null) {
-      const activeRuns = productionStorage.runs.filter(
-        r => r.printerId === printerId && r.endTime === null
-      );
+  // Auto-downtime: the engine fed by usePrinterConnection opens/closes events on active runs
+  useAutoDowntime(productionStorage);
 
-      for (const run of activeRuns) {
-        const hasActiveDowntime = run.downtimeEvents.some(e => e.endTime === null);
+  // Auto runs: ^SM opens/closes runs, ^CN deltas count them and write snapshots
+  useAutoRuns(productionStorage, printers);
 
-        // Jet stopped or HV went off → start downtime
-        if ((prev.jetRunning && !jetRunning) || (prev.isRunning && !isRunning)) {
-          if (!hasActiveDowntime) {
-            const reason = !jetRunning ? 'jet_stopped' : 'hv_disabled';
-            productionStorage.addDowntimeEvent(run.id, reason);
-          }
-        }
+  // SPC: Western Electric violations on the recorded health metrics become warnings
+  useSpcWarnings(printers);
 
-        // Jet restarted and HV back on → end downtime
-        if (jetRunning && isRunning && hasActiveDowntime) {
-          const activeEvt = run.downtimeEvents.find(e => e.endTime === null);
-          if (activeEvt) {
-            productionStorage.endDowntimeEvent(run.id, activeEvt.id);
-          }
-        }
-      }
-    }
+  // Predictive advisories from ^SU trends and ^LE history
+  useFaultAdvisoryWarnings(printers);
 
-    prevPrinterStateRef.current = { jetRunning, isRunning };
-  }, [connectionState.status?.jetRunning, connectionState.status?.isRunning, connectionState.connectedPrinter?.id, productionStorage]);
+  // Scheduled report delivery: main asks, we render the saved template offscreen
+  useScheduledReportRenderer(productionStorage.runs, printers);
 
-  // Auto-sync product count from printer to active production runs
+  // Auto-sync product count from printer to hand-started runs (auto runs count ^CN deltas)
   useEffect(() => {
     const printerId = connectionState.connectedPrinter?.id;
     const productCount = connectionState.status?.productCount;
     if (printerId == null || productCount == null || productCount === 0) return;
 
     const activeRuns = productionStorage.runs.filter(
-      r => r.printerId === printerId && r.endTime === null
+      r => r.printerId === printerId && r.endTime === null && r.source !== 'auto'
     );
     for (const run of activeRuns) {
       if (run.actualCount !== productCount) {
@@ -2684,6 +2682,46 @@ const Index = () => {
     }
   }, [connectionState.status?.productCount, connectionState.connectedPrinter?.id, productionStorage]);
 
+  // Auto-sync rejects from the custom counter wired to a reject photocell
+  useEffect(() => {
+    const printerId = connectionState.connectedPrinter?.id;
+    const counters = connectionState.status?.customCounters;
+    if (printerId == null || !counters) return;
+
+    for (const run of productionStorage.runs) {
+      if (run.printerId !== printerId || run.endTime !== null || !run.rejectCounter) continue;
+      const current = counters[run.rejectCounter - 1];
+      if (current == null || current === run.rejectCounterBaseline) continue;
+      // The first poll of a run only sets the baseline — counts from before
+      // the run started aren't its rejects
+      if (run.rejectCounterBaseline != null) {
+        const rejected = counterDelta(run.rejectCounterBaseline, current);
+        productionStorage.setRejects(run.id, 'photocell', (run.rejects?.photocell ?? 0) + rejected);
+      }
+      productionStorage.updateRun(run.id, { rejectCounterBaseline: current });
+    }
+  }, [connectionState.status?.customCounters, connectionState.connectedPrinter?.id, productionStorage]);
+
+  // Twin Code missed outcomes count as rejects on runs for either bound printer
+  useEffect(() => {
+    const sync = () => {
+      const pair = twinPairStore.getState();
+      const missed = catalog.getRecords().filter(r => r.outcome === 'missed');
+      for (const run of productionStorage.runs) {
+        if (run.endTime !== null) continue;
+        const printer = printers.find(p => p.id === run.printerId);
+        if (!printer || !(bindingMatches(pair.a, printer) || bindingMatches(pair.b, printer))) continue;
+        const count = missed.filter(r => r.wallAt >= run.startTime).length;
+        if (count !== (run.rejects?.twinCode ?? 0)) {
+          productionStorage.setRejects(run.id, 'twinCode', count);
+        }
+      }
+    };
+    const offCatalog = catalog.subscribe(sync);
+    const offPair = twinPairStore.subscribe(sync);
+    return () => { offCatalog(); offPair(); };
+  }, [printers, productionStorage]);
+
   const handleNavigate = (item: NavItem) => {
     if (item === 'adjust') {
       // Opens the Adjust dialog (width, delay, bold, gap, speed, rotation…)
@@ -3078,6 +3116,7 @@ const Index = () => {
     const ok = await sendCommandToPrinter(printer, `^SM ${message.name}`);
     if (ok) {
       try { recordMessageSent(printer.id, message.name); } catch {}
+      runTracker.messageSelected(printer.id, printer.name, message.name);
       updatePrinter(printer.id, {
         currentMessage: message.name,
         lastSelectionResult: { messageName: message.name, success: true, at: Date.now() },
@@ -3214,6 +3253,8 @@ const Index = () => {
           )}
           onSendCommand={sendCommand}
           otherPrinterRows={buildOtherPrinterRows(editingMessage.name, messageTargetPrinter?.id ?? null)}
+          editPrinterId={messageTargetPrinter?.id ?? null}
+          printers={printers}
           onSave={saveEditedMessage}
           onCancel={() => {
             setCurrentScreen('messages');
@@ -3329,6 +3370,8 @@ const Index = () => {
             )}
             onSendCommand={sendCommand}
             otherPrinterRows={buildOtherPrinterRows(editingMessage.name, (selectedPrinter ?? connectionState.connectedPrinter ?? null)?.id ?? null)}
+            editPrinterId={(selectedPrinter ?? connectionState.connectedPrinter ?? null)?.id ?? null}
+            printers={printers}
           onSave={saveEditedMessage}
             onCancel={() => {
               setCurrentScreen('messages');
@@ -3508,9 +3551,11 @@ const Index = () => {
             printers={reportPrinters}
             onAddRun={productionStorage.addRun}
             onUpdateRun={productionStorage.updateRun}
+            onSetRejects={productionStorage.setRejects}
             onDeleteRun={productionStorage.deleteRun}
             onAddDowntime={productionStorage.addDowntimeEvent}
             onEndDowntime={productionStorage.endDowntimeEvent}
+            onSetDowntimeReason={productionStorage.setDowntimeReason}
             onHome={handleHome}
           />
         );
@@ -3909,6 +3954,8 @@ const Index = () => {
         open={serviceDialogOpen}
         onOpenChange={setServiceDialogOpen}
         metrics={connectionState.metrics}
+        printerId={connectionState.connectedPrinter?.id ?? null}
+        printers={printers}
         onMount={() => setServiceScreenOpen(true)}
         onUnmount={() => setServiceScreenOpen(false)}
         onSendCommand={sendCommand}
@@ -3943,6 +3990,10 @@ const Index = () => {
         faults={activeFaults}
         isConnected={connectionState.isConnected}
         onDismissFault={sendCommand}
+        onAcknowledge={(code) => {
+          const id = connectionState.connectedPrinter?.id;
+          if (id != null) window.electronAPI?.faults?.acknowledgeFault(id, code, 'Operator');
+        }}
       />
 
       {/* Mobile companion: pause/resume polling FAB */}
@@ -0,0 +1,149 @@
+/**
+ * Database poller (electron/dbPoller.cjs) against a real SQLite file:
+ * watermark reads, partial acknowledgement, ack-column write-back,
+ * persisted state and equal-watermark runs at batch and ack boundaries.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { DbPoller, quoteIdent } = require('../../electron/dbPoller.cjs');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const Database = require('better-sqlite3');
+
+let dir: string;
+let file: string;
+
+function seed(rows: [number, string][]) {
+  const db = new Database(file);
+  const insert = db.prepare('INSERT INTO print_queue (batch, code) VALUES (?, ?)');
+  for (const r of rows) insert.run(...r);
+  db.close();
+}
+
+function readAll() {
+  const db = new Database(file, { readonly: true });
+  const rows = db.prepare('SELECT * FROM print_queue ORDER BY id').all();
+  db.close();
+  return rows;
+}
+
+function makePoller(extra: Record<string, unknown> = {}) {
+  const poller = new DbPoller({ statePath: path.join(dir, 'db-integration.json') });
+  const batches: { batchId: string; rows: Record<string, string>[]; columns: string[] }[] = [];
+  poller.on('batch', (b: (typeof batches)[number]) => batches.push(b));
+  poller.configure({ driver: 'sqlite', file, table: 'print_queue', watermarkColumn: 'id', ...extra });
+  return { poller, batches };
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dbpoller-'));
+  file = path.join(dir, 'erp.db');
+  const db = new Database(file);
+  db.exec('CREATE TABLE print_queue (id INTEGER PRIMARY KEY, batch INTEGER, code TEXT, printed INTEGER)');
+  db.close();
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('dbPoller', () => {
+  it('quotes identifiers per dialect', () => {
+    expect(quoteIdent('mysql', 'erp.print`queue')).toBe('`erp`.`print``queue`');
+    expect(quoteIdent('postgres', 'public.queue')).toBe('"public"."queue"');
+  });
+
+  it('tests the connection and reports missing columns', async () => {
+    seed([[1, 'A'], [1, 'B']]);
+    const { poller } = makePoller();
+    expect(await poller.testConnection()).toMatchObject({ success: true, latestWatermark: 2 });
+    const bad = await poller.testConnection({ driver: 'sqlite', file, table: 'print_queue', watermarkColumn: 'id', ackColumn: 'done' });
+    expect(bad).toMatchObject({ success: false, error: 'Column not found: done' });
+  });
+
+  it('only advances past acknowledged rows and marks them in the ack column', async () => {
+    seed([[1, 'A'], [1, 'B'], [1, 'C']]);
+    const { poller, batches } = makePoller({ ackColumn: 'printed' });
+    expect(await poller.pollOnce()).toBe(3);
+    expect(batches[0].rows.map((r) => r.code)).toEqual(['A', 'B', 'C']);
+    expect(batches[0].columns).toEqual(['id', 'batch', 'code', 'printed']);
+    // Nothing new is read while the batch is unacknowledged.
+    expect(await poller.pollOnce()).toBe(0);
+
+    await poller.acknowledge(batches[0].batchId, { imported: 2, error: 'insert failed' });
+    expect(poller.getStatus()).toMatchObject({ watermark: 2, lastError: 'Import failed: insert failed' });
+    expect(readAll().map((r: { printed: number | null }) => r.printed)).toEqual([1, 1, null]);
+
+    expect(await poller.pollOnce()).toBe(1);
+    expect(batches[1].rows[0].code).toBe('C');
+  });
+
+  it('persists the watermark and resets it when the source changes', async () => {
+    seed([[1, 'A']]);
+    const first = makePoller();
+    await first.poller.pollOnce();
+    await first.poller.acknowledge(first.batches[0].batchId, { imported: 1 });
+
+    seed([[1, 'B']]);
+    const reopened = new DbPoller({ statePath: path.join(dir, 'db-integration.json') });
+    const rows: string[] = [];
+    reopened.on('batch', (b: { rows: { code: string }[] }) => rows.push(...b.rows.map((r) => r.code)));
+    await reopened.pollOnce();
+    expect(rows).toEqual(['B']);
+
+    reopened.configure({ ...reopened.getConfig(), watermarkColumn: 'batch' });
+    expect(reopened.getStatus().watermark).toBeNull();
+  });
+
+  it('holds back a run of equal watermarks cut by the batch size', async () => {
+    seed([[1, 'A'], [2, 'B'], [2, 'C'], [3, 'D']]);
+    const { poller, batches } = makePoller({ watermarkColumn: 'batch', batchSize: 2 });
+    await poller.pollOnce();
+    expect(batches[0].rows.map((r) => r.code)).toEqual(['A']);
+    await poller.acknowledge(batches[0].batchId, { imported: 1 });
+    poller.configure({ ...poller.getConfig(), batchSize: 3 });
+    await poller.pollOnce();
+    expect(batches[1].rows.map((r) => r.code)).toEqual(['B', 'C']);
+    await poller.acknowledge(batches[1].batchId, { imported: 2 });
+    await poller.pollOnce();
+    expect(batches[2].rows.map((r) => r.code)).toEqual(['D']);
+  });
+
+  it('refuses a run of equal watermarks longer than the batch size', async () => {
+    seed([[5, 'A'], [5, 'B'], [5, 'C']]);
+    const { poller, batches } = makePoller({ watermarkColumn: 'batch', batchSize: 2 });
+    expect(await poller.pollOnce()).toBe(0);
+    expect(batches).toHaveLength(0);
+    expect(poller.getStatus().lastError).toMatch(/More than 2 rows share batch = 5/);
+  });
+
+  it('pages a run of equal watermarks by the key column', async () => {
+    seed([[5, 'A'], [5, 'B'], [5, 'C']]);
+    const { poller, batches } = makePoller({ watermarkColumn: 'batch', keyColumn: 'id', batchSize: 2 });
+    expect(await poller.pollOnce()).toBe(2);
+    await poller.acknowledge(batches[0].batchId, { imported: 2 });
+    expect(await poller.pollOnce()).toBe(1);
+    expect(batches.flatMap((b) => b.rows.map((r) => r.code))).toEqual(['A', 'B', 'C']);
+  });
+
+  it('re-reads the rest of a run after a partial acknowledgement inside it', async () => {
+    seed([[5, 'A'], [5, 'B'], [5, 'C']]);
+    const keyed = makePoller({ watermarkColumn: 'batch', keyColumn: 'id' });
+    await keyed.poller.pollOnce();
+    await keyed.poller.acknowledge(keyed.batches[0].batchId, { imported: 1, error: 'insert failed' });
+    await keyed.poller.pollOnce();
+    expect(keyed.batches[1].rows.map((r) => r.code)).toEqual(['B', 'C']);
+
+    seed([[6, 'D']]);
+    fs.rmSync(path.join(dir, 'db-integration.json'));
+    const { poller, batches } = makePoller({ watermarkColumn: 'batch' });
+    await poller.pollOnce();
+    await poller.acknowledge(batches[0].batchId, { imported: 1, error: 'insert failed' });
+    // Without a key the position can't stop inside the run, so all of it comes back.
+    expect(poller.getStatus().watermark).toBeNull();
+    await poller.pollOnce();
+    expect(batches[1].rows.map((r) => r.code)).toEqual(['A', 'B', 'C', 'D']);
+  });
+});
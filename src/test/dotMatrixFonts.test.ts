@@ -0,0 +1,42 @@
+/**
+ * Dot-matrix text measuring and drawing (src/lib/dotMatrixFonts.ts) — where
+ * characters are measured to land must match where renderText draws them.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  renderText,
+  getTextWidthDots,
+  getCharOffsetDots,
+  getCharIndexAtDots,
+} from '@/lib/dotMatrixFonts';
+
+/** Records fillRect calls in dots (dotSize 1). */
+function recorder() {
+  const rects: [number, number][] = [];
+  const ctx = { fillRect: (x: number, y: number) => rects.push([x, y]) } as unknown as CanvasRenderingContext2D;
+  return { ctx, rects };
+}
+
+describe('fallback font', () => {
+  it('measures each character at charWidth plus the gap', () => {
+    expect(getTextWidthDots('ABC', 'Standard7High')).toBe(18);
+    expect(getTextWidthDots('ABC', 'Standard7High', 0)).toBe(15);
+    expect(getCharOffsetDots('ABC', 2, 'Standard7High', 2)).toBe(14);
+  });
+
+  it('draws each character where it is measured to start', () => {
+    const { ctx, rects } = recorder();
+    renderText(ctx, 'LL', 0, 0, 'Standard7High', 1, 1);
+    // L's left column starts each character: 0, then charWidth (5) + gap (1)
+    const lefts = [...new Set(rects.filter(([, y]) => y === 0).map(([x]) => x))];
+    expect(lefts).toEqual([0, getCharOffsetDots('LL', 1, 'Standard7High')]);
+  });
+
+  it('places the cursor at the nearest character boundary', () => {
+    // Standard5High: 4 dots + 1 gap per character
+    expect(getCharIndexAtDots('ABC', 2, 'Standard5High')).toBe(0);
+    expect(getCharIndexAtDots('ABC', 3, 'Standard5High')).toBe(1);
+    expect(getCharIndexAtDots('ABC', 12, 'Standard5High')).toBe(2);
+    expect(getCharIndexAtDots('ABC', 50, 'Standard5High')).toBe(3);
+  });
+});
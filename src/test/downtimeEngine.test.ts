@@ -0,0 +1,78 @@
+/**
+ * Downtime engine — cause priority, micro-stop threshold and the
+ * DowntimeEvent bookkeeping applied to runs (src/lib/downtimeEngine.ts).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  deriveCause, stepStop, openAutoDowntime, retagAutoDowntime, closeAutoDowntime,
+  type DowntimeSettings,
+} from '@/lib/downtimeEngine';
+import type { ProductionRun } from '@/types/production';
+
+const all: DowntimeSettings['causes'] = {
+  printer_offline: true, ink_empty: true, makeup_empty: true, jet_stopped: true, hv_disabled: true,
+};
+
+const run: ProductionRun = {
+  id: 'r1', printerId: 1, printerName: 'Line 1', messageName: 'LOT',
+  startTime: 1_000, endTime: null, targetCount: 100, actualCount: 0, downtimeEvents: [],
+};
+
+describe('deriveCause', () => {
+  it('names the most severe condition', () => {
+    expect(deriveCause({ online: true, jetRunning: true, hvOn: true }, all)).toBeNull();
+    expect(deriveCause({ online: true, jetRunning: true, hvOn: false }, all)).toBe('hv_disabled');
+    expect(deriveCause({ online: true, jetRunning: false, hvOn: false }, all)).toBe('jet_stopped');
+    expect(deriveCause({ online: true, jetRunning: false, inkEmpty: true }, all)).toBe('ink_empty');
+    expect(deriveCause({ online: false, jetRunning: false }, all)).toBe('printer_offline');
+  });
+
+  it('skips disabled causes and unknown state', () => {
+    expect(deriveCause({ online: true, jetRunning: false, hvOn: false }, { ...all, jet_stopped: false })).toBeNull();
+    expect(deriveCause({ online: true }, all)).toBeNull();
+  });
+});
+
+describe('stepStop', () => {
+  it('reports stops shorter than the threshold as micro-stops', () => {
+    const started = stepStop(1, null, 'jet_stopped', 30_000, 0);
+    expect(started.transitions).toEqual([]);
+    const cleared = stepStop(1, started.stop, null, 30_000, 10_000);
+    expect(cleared.stop).toBeNull();
+    expect(cleared.transitions).toEqual([
+      { type: 'microStop', printerId: 1, cause: 'jet_stopped', startTime: 0, endTime: 10_000 },
+    ]);
+  });
+
+  it('opens backdated to the stop start, follows the cause and closes', () => {
+    const a = stepStop(1, null, 'hv_disabled', 30_000, 0);
+    const b = stepStop(1, a.stop, 'jet_stopped', 30_000, 31_000);
+    expect(b.transitions).toEqual([{ type: 'open', printerId: 1, cause: 'jet_stopped', startTime: 0 }]);
+    const c = stepStop(1, b.stop, 'ink_empty', 30_000, 40_000);
+    expect(c.transitions).toEqual([{ type: 'cause', printerId: 1, cause: 'ink_empty' }]);
+    expect(stepStop(1, c.stop, 'ink_empty', 30_000, 50_000).stop).toBe(c.stop);
+    expect(stepStop(1, c.stop, null, 30_000, 60_000).transitions).toEqual([{ type: 'close', printerId: 1, endTime: 60_000 }]);
+  });
+});
+
+describe('auto DowntimeEvents on a run', () => {
+  it('opens once, keeps an operator override and closes only auto events', () => {
+    const opened = openAutoDowntime(run, 'jet_stopped', 0);
+    expect(opened.downtimeEvents).toHaveLength(1);
+    expect(opened.downtimeEvents[0]).toMatchObject({ startTime: 1_000, reason: 'jet_stopped', source: 'auto', endTime: null });
+    expect(openAutoDowntime(opened, 'ink_empty', 5_000)).toBe(opened);
+
+    const overridden = {
+      ...opened,
+      downtimeEvents: [
+        { ...opened.downtimeEvents[0], reason: 'changeover' },
+        { id: 'm', startTime: 2_000, endTime: null, reason: 'maintenance', source: 'manual' as const },
+      ],
+    };
+    const retagged = retagAutoDowntime(overridden, 'ink_empty');
+    expect(retagged.downtimeEvents[0]).toMatchObject({ reason: 'changeover', detectedReason: 'ink_empty' });
+
+    const closed = closeAutoDowntime(retagged, 9_000);
+    expect(closed.downtimeEvents.map((e) => e.endTime)).toEqual([9_000, null]);
+  });
+});
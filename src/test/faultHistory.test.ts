@@ -0,0 +1,63 @@
+/**
+ * Fault knowledge base (src/lib/faultCatalog.ts) and the per-printer fault
+ * history built from ^LE lists (src/lib/faultHistory.ts).
+ */
+import { describe, it, expect } from 'vitest';
+import { lookupFault, normalizeFaultCode } from '@/lib/faultCatalog';
+import { faultHistory, summarizeFaults, faultHistoryToCsv } from '@/lib/faultHistory';
+
+const inkEmpty = { code: '10-0002', severity: 'F', message: 'Ink fluid level empty.' };
+const hvTrip = { code: '08-0001', severity: 'F', message: 'High voltage trip.' };
+
+describe('faultCatalog', () => {
+  it('normalizes dash variants and trailing text', () => {
+    expect(normalizeFaultCode(' 0a‑8006 (F)')).toBe('0A-8006');
+  });
+
+  it('has causes and remedies for listed codes', () => {
+    const info = lookupFault('10-0002');
+    expect(info.known).toBe(true);
+    expect(info.subsystem).toBe('Ink');
+    expect(info.remedies.length).toBeGreaterThan(0);
+  });
+
+  it('falls back to the subsystem for unlisted codes', () => {
+    const info = lookupFault('0D-8007', 'Pump speed out of range.');
+    expect(info.known).toBe(false);
+    expect(info.title).toBe('Pump fault');
+    expect(info.meaning).toBe('Pump speed out of range.');
+    expect(info.causes.length).toBeGreaterThan(0);
+  });
+});
+
+describe('faultHistory', () => {
+  it('opens an occurrence when a code appears and clears it when it drops off', () => {
+    faultHistory.observe(7, [inkEmpty], 1000);
+    faultHistory.observe(7, [inkEmpty, hvTrip], 2000);
+    faultHistory.observe(7, [hvTrip], 3000);
+    faultHistory.observe(7, [inkEmpty, hvTrip], 4000);
+
+    const mine = faultHistory.getState().entries.filter((e) => e.printerId === 7);
+    expect(mine.map((e) => [e.code, e.firstSeen, e.clearedAt])).toEqual([
+      ['10-0002', 1000, 3000],
+      ['08-0001', 2000, null],
+      ['10-0002', 4000, null],
+    ]);
+
+    const [ink] = summarizeFaults(mine, 5000).filter((s) => s.code === '10-0002');
+    expect(ink).toMatchObject({ count: 2, firstSeen: 1000, lastSeen: 4000, lastCleared: 3000, active: true, activeMs: 3000 });
+  });
+
+  it('keeps printers apart', () => {
+    faultHistory.observe(8, [], 5000);
+    expect(faultHistory.getState().entries.filter((e) => e.printerId === 7 && e.clearedAt === null)).toHaveLength(2);
+  });
+
+  it('exports occurrences as CSV', () => {
+    const csv = faultHistoryToCsv(
+      [{ id: 'a', printerId: 7, code: '10-0002', severity: 'F', message: 'Empty, "really"', firstSeen: 0, clearedAt: 90_000 }],
+      () => 'Line 1',
+    );
+    expect(csv.split('\n')[1]).toBe('Line 1,10-0002,F,"Empty, ""really""",1970-01-01T00:00:00.000Z,1970-01-01T00:01:30.000Z,1.5');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Fault notification routing (electron/faultNotifier.cjs) — rule matching,
+ * delay, escalation and acknowledgement, delivered to the local HTTP + SMTP
+ * sink (electron/notificationSink.cjs).
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { FaultNotifier, normalizeConfig, ruleMatches } = require('../../electron/faultNotifier.cjs');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { startNotificationSink } = require('../../electron/notificationSink.cjs');
+
+const printer = { id: 1, name: 'Line 1 Printer', lineId: 'L1' };
+const inkEmpty = { code: '10-0002', severity: 'F', message: 'Ink fluid level empty.' };
+const lowInk = { code: '10-0001', severity: 'W', message: 'Ink low.' };
+
+describe('ruleMatches', () => {
+  const [rule] = normalizeConfig({ rules: [{ lineIds: ['L1'], severities: ['F'], codes: ['10-*'] }] }).rules;
+
+  it('matches by line, severity and code prefix', () => {
+    expect(ruleMatches(rule, printer, inkEmpty)).toBe(true);
+    expect(ruleMatches(rule, printer, lowInk)).toBe(false);
+    expect(ruleMatches(rule, { id: 2, lineId: 'L2' }, inkEmpty)).toBe(false);
+    expect(ruleMatches(rule, printer, { ...inkEmpty, code: '08-0001' })).toBe(false);
+  });
+});
+
+describe('FaultNotifier', () => {
+  let sink: Awaited<ReturnType<typeof startNotificationSink>>;
+  let now: number;
+  let notifier: InstanceType<typeof FaultNotifier>;
+
+  beforeAll(async () => { sink = await startNotificationSink(); });
+  afterAll(async () => { await sink.close(); });
+
+  beforeEach(() => {
+    sink.requests.length = 0;
+    sink.mails.length = 0;
+    now = 0;
+    notifier = new FaultNotifier({ now: () => now });
+    const saved = notifier.saveConfig({
+      channels: {
+        smtp: { host: '127.0.0.1', port: sink.smtpPort, username: 'plant', password: 'secret', from: 'codesync@plant.local' },
+        sms: { url: `${sink.httpUrl}/sms`, body: '{"number":"{to}","text":"{message}"}' },
+      },
+      contacts: [
+        { id: 'op', name: 'Operator', email: 'op@plant.local', phone: '+100', webhookUrl: `${sink.httpUrl}/hook` },
+        { id: 'lead', name: 'Shift lead', email: 'lead@plant.local', phone: '+200' },
+      ],
+      rules: [{
+        id: 'r1', name: 'Fatal faults', severities: ['F'], delaySeconds: 30,
+        contactIds: ['op'], channels: ['email', 'webhook', 'sms'],
+        escalation: { enabled: true, afterMinutes: 10, contactIds: ['lead'] },
+      }],
+    });
+    expect(saved.success).toBe(true);
+  });
+
+  it('waits out the delay, notifies every channel, then escalates when nobody acknowledges', async () => {
+    await notifier.report(printer, [inkEmpty]);
+    expect(sink.mails).toHaveLength(0);
+
+    now = 31_000;
+    await notifier.tick();
+    expect(sink.mails).toHaveLength(1);
+    expect(sink.mails[0]).toMatchObject({ user: 'plant', from: 'codesync@plant.local', to: ['op@plant.local'] });
+    expect(sink.mails[0].data).toContain('FAULT 10-0002 on line L1 / Line 1 Printer');
+    expect(JSON.parse(sink.requests.find((r) => r.url === '/hook').body).incident).toMatchObject({ code: '10-0002', printerId: 1 });
+    expect(JSON.parse(sink.requests.find((r) => r.url === '/sms').body).number).toBe('+100');
+
+    now = 31_000 + 10 * 60_000;
+    await notifier.tick();
+    expect(sink.mails.map((m) => m.to[0])).toEqual(['op@plant.local', 'lead@plant.local']);
+    const [incident] = notifier.getIncidents();
+    expect(incident.sends.filter((s) => s.stage === 'escalation').map((s) => [s.channel, s.ok, s.detail]))
+      .toEqual([['email', true, 'Sent'], ['webhook', false, 'No webhook URL'], ['sms', true, 'Sent']]);
+  });
+
+  it('does not escalate an acknowledged fault', async () => {
+    await notifier.report(printer, [inkEmpty]);
+    now = 31_000;
+    await notifier.tick();
+    expect(notifier.acknowledgeFault(1, '10-0002', 'Sam').acknowledged).toBe(1);
+    now = 60 * 60_000;
+    await notifier.tick();
+    expect(sink.mails).toHaveLength(1);
+    expect(notifier.getIncidents()[0]).toMatchObject({ ackBy: 'Sam', escalatedAt: null });
+  });
+
+  it('cancels a fault that clears within the delay and ignores unmatched severities', async () => {
+    await notifier.report(printer, [inkEmpty, lowInk]);
+    now = 10_000;
+    await notifier.report(printer, []);
+    now = 60_000;
+    await notifier.tick();
+    expect(sink.mails).toHaveLength(0);
+    expect(notifier.getIncidents()).toHaveLength(1);
+    expect(notifier.getIncidents()[0]).toMatchObject({ clearedAt: 10_000, notifiedAt: null });
+  });
+
+  it('rejects rules without contacts', () => {
+    expect(notifier.saveConfig({ rules: [{ name: 'Empty' }] })).toMatchObject({ success: false, error: '"Empty" needs at least one contact' });
+  });
+});
+
+describe('FaultNotifier SMTP password', () => {
+  const protect = {
+    encrypt: (s: string) => Buffer.from(s).toString('base64'),
+    decrypt: (s: string) => Buffer.from(s, 'base64').toString(),
+  };
+  const smtp = { host: 'smtp.plant.local', port: 25, username: 'plant', from: 'codesync@plant.local' };
+
+  it('keeps the password out of the renderer config and encrypted at rest', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'faults-'));
+    const statePath = path.join(dir, 'fault-notifications.json');
+    try {
+      const notifier = new FaultNotifier({ statePath, protect });
+      const saved = notifier.saveConfig({ channels: { smtp: { ...smtp, password: 'secret' } } });
+      expect(saved.config.channels.smtp).toMatchObject({ hasPassword: true });
+      expect(saved.config.channels.smtp).not.toHaveProperty('password');
+      expect(fs.readFileSync(statePath, 'utf8')).not.toContain('secret');
+
+      // Saving without a password keeps the stored one.
+      notifier.saveConfig({ channels: { smtp: { ...smtp, host: 'mail.plant.local' } } });
+      const reopened = new FaultNotifier({ statePath, protect });
+      expect(reopened.getConfig().channels.smtp).toMatchObject({ host: 'mail.plant.local', hasPassword: true });
+      expect(reopened.config.channels.smtp.password).toBe('secret');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Fault predictor heuristics (src/lib/faultPredictor.ts), driven by the
+ * emulator's scripted drifts (src/lib/emulatorDrift.ts) replayed one sample
+ * per minute.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateTrends, slopePerHour, DEFAULT_FAULT_PREDICTOR_SETTINGS,
+  type FaultEvent, type TrendContext,
+} from '@/lib/faultPredictor';
+import { DRIFT_SCENARIOS, type DriftScenarioId } from '@/lib/emulatorDrift';
+import type { SpcSample } from '@/lib/spc';
+
+const base = { pressure: 40, viscosity: 4.2, phaseQual: 100, modulation: 160, printheadTemp: 24.71 };
+const settings = DEFAULT_FAULT_PREDICTOR_SETTINGS;
+const healthy: TrendContext = { filter: null, makeupEmpty: false };
+
+/** Samples and ^LE rising edges of a scenario (or a steady printer) over `minutes`. */
+function replay(id: DriftScenarioId | null, minutes: number) {
+  const scenario = DRIFT_SCENARIOS.find((s) => s.id === id);
+  const samples: SpcSample[] = [];
+  const events: FaultEvent[] = [];
+  let active = new Set<string>();
+  for (let m = 0; m <= minutes; m++) {
+    const v = { ...base, ...scenario?.at(base, m) };
+    samples.push({
+      printerId: 1,
+      at: m * 60_000,
+      values: { ...v, charge: 65, rps: 28.13, electronicsTemp: 30.78 },
+    });
+    const faults = scenario?.faults?.(m) ?? [];
+    for (const f of faults) if (!active.has(f.code)) events.push({ at: m * 60_000, ...f });
+    active = new Set(faults.map((f) => f.code));
+  }
+  return { samples, events, now: minutes * 60_000 };
+}
+
+const kinds = (id: DriftScenarioId | null, ctx = healthy, minutes = 60) => {
+  const { samples, events, now } = replay(id, minutes);
+  return evaluateTrends(samples, events, ctx, settings, now).map((f) => [f.kind, f.confidence]);
+};
+
+describe('evaluateTrends', () => {
+  it('raises nothing for a steady printer', () => {
+    expect(kinds(null)).toEqual([]);
+  });
+
+  it('waits for enough samples before reading trends', () => {
+    expect(kinds('nozzle_clog', healthy, 5)).toEqual([]);
+  });
+
+  it('reads rising pressure at constant viscosity with falling phase as a nozzle clog', () => {
+    expect(kinds('nozzle_clog')).toEqual([['nozzle_clog', 'likely']]);
+  });
+
+  it('blames the same pressure rise on an old filter', () => {
+    const worn = { ...healthy, filter: { percentUsed: 85, hoursRemaining: 300 } };
+    expect(kinds('filter_end', worn)).toEqual([['filter_end', 'likely']]);
+    expect(kinds('filter_end')).toContainEqual(['nozzle_clog', 'watch']);
+  });
+
+  it('reads climbing viscosity with repeated viscosity warnings as failing makeup addition', () => {
+    expect(kinds('makeup_failing')).toEqual([['makeup_failing', 'likely']]);
+    expect(kinds('makeup_failing', { ...healthy, makeupEmpty: true })).toEqual([]);
+  });
+
+  it('flags printhead temperature swings', () => {
+    expect(kinds('printhead_temp')).toEqual([['printhead_temp', 'watch']]);
+  });
+
+  it('reports unrelated codes that keep coming back', () => {
+    const events = [0, 1, 2].map((i) => ({ at: i * 60_000, code: '02-8001', severity: 'F', message: 'Trip cable not detected.' }));
+    const [finding] = evaluateTrends([], events, healthy, settings, 5 * 60_000);
+    expect(finding.kind).toBe('repeated_warning');
+    expect(finding.codes).toEqual(['02-8001']);
+  });
+});
+
+describe('slopePerHour', () => {
+  it('fits units per hour', () => {
+    const { samples } = replay('nozzle_clog', 60);
+    expect(slopePerHour(samples, 'pressure')).toBeCloseTo(6, 0);
+    expect(slopePerHour(samples, 'viscosity')).toBeCloseTo(0, 6);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Fleet uplink — sample → telemetry row / event mapping and outbox batching
+ * (src/lib/fleetUplink.ts). The IndexedDB outbox and the edge function call
+ * are not exercised here.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  deriveFleetEvents, fleetTelemetryRow, buildIngestBody, fleetPrinterRef, type FleetSample,
+} from '@/lib/fleetUplink';
+import type { PrinterMetrics, PrinterStatus } from '@/types/printer';
+
+const printer = { id: 1, name: 'Line 1', ipAddress: '192.168.1.50', port: 23, serialNumber: 'BC-0042' };
+
+function sample(status: Partial<PrinterStatus>, faults: FleetSample['faults'] = [], at = 0): FleetSample {
+  return {
+    printer,
+    metrics: { pressure: 40, viscosity: 4.2, modulation: 120, rps: 18.5, printheadTemp: 31.5, electronicsTemp: 38, powerHours: '165:00', streamHours: '98:17', inkLevel: 'GOOD' } as PrinterMetrics,
+    status: { isRunning: false, jetRunning: false, printCount: 10, inkLevel: 'GOOD', makeupLevel: 'GOOD', currentMessage: 'LOT', printerVersion: 'v2.6', ...status } as PrinterStatus,
+    faults,
+    at,
+  };
+}
+
+describe('fleet uplink mapping', () => {
+  it('maps a sample to a fleet_telemetry row', () => {
+    expect(fleetTelemetryRow(sample({ isRunning: true, jetRunning: true }, [], Date.UTC(2026, 0, 1)))).toMatchObject({
+      pressure: 40, viscosity: 4.2, modulation: 120, rps: 18.5, printhead_temp: 31.5, electronics_temp: 38,
+      power_hours: '165:00', stream_hours: '98:17', hv_on: true, jet_running: true, print_count: 10,
+      ink_level: 'GOOD', current_message: 'LOT', recorded_at: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('treats the first sample as a baseline, then diffs jet, HV, levels and faults', () => {
+    const fault = { code: '03-0001', severity: 'F', message: 'Phase error' };
+    expect(deriveFleetEvents(null, sample({}, [fault]))).toEqual([]);
+
+    const events = deriveFleetEvents(
+      sample({}, [fault]),
+      sample({ jetRunning: true, isRunning: true, inkLevel: 'LOW' }, [{ code: '10-0003', severity: 'W', message: 'Ink low' }]),
+    );
+    expect(events.map((e) => [e.event_type, e.severity])).toEqual([
+      ['jet_start', 'info'],
+      ['hv_on', 'info'],
+      ['ink_level_change', 'warning'],
+      ['fault_raised', 'warning'],
+      ['fault_cleared', 'info'],
+    ]);
+    expect(events[2]).toMatchObject({ category: 'smartfill', metadata: { from: 'GOOD', to: 'LOW' } });
+  });
+
+  it('batches outbox items into one ingest body with the newest printer ref', () => {
+    const first = sample({});
+    const later = sample({ isRunning: true }, [], 60_000);
+    const body = buildIngestBody(
+      { enabled: true, siteName: 'Plant 2', location: '', sampleSeconds: 60 },
+      [
+        { kind: 'telemetry', printer: fleetPrinterRef(first, 'v2.6'), row: fleetTelemetryRow(first) },
+        { kind: 'status', printer: fleetPrinterRef(later, null) },
+      ],
+    );
+    expect(body.site).toEqual({ name: 'Plant 2', location: null });
+    expect(body.printers).toEqual([expect.objectContaining({
+      key: '192.168.1.50:23', status: 'ready', firmware_version: 'v2.6', serial_number: 'BC-0042',
+    })]);
+    expect(body.telemetry).toHaveLength(1);
+    expect(body.telemetry[0].printer_key).toBe('192.168.1.50:23');
+  });
+});
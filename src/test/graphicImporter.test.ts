@@ -0,0 +1,86 @@
+/**
+ * Logo importer (src/lib/graphicImporter.ts) — grey → dots, the ^NG
+ * column-major encoding and ^LL list parsing — and the library that keeps
+ * imported bitmaps for the message canvas (src/lib/graphicLibrary.ts).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  ditherToDots,
+  dotsToHex,
+  hexToDots,
+  buildGraphicUploadCommand,
+  normalizeGraphicName,
+  parseGraphicList,
+  graphicNameFromField,
+} from '@/lib/graphicImporter';
+import { graphicLibrary } from '@/lib/graphicLibrary';
+import { multiPrinterEmulator } from '@/lib/multiPrinterEmulator';
+import type { Printer } from '@/types/printer';
+
+const flat = (value: number, n: number) => new Array(n).fill(value);
+
+describe('ditherToDots', () => {
+  it('thresholds dark pixels to dots, or light ones when inverted', () => {
+    const gray = [0, 100, 200, 255];
+    expect([...ditherToDots(gray, 4, 1, { mode: 'threshold', threshold: 128, invert: false }).dots]).toEqual([1, 1, 0, 0]);
+    expect([...ditherToDots(gray, 4, 1, { mode: 'threshold', threshold: 128, invert: true }).dots]).toEqual([0, 0, 1, 1]);
+  });
+
+  it('keeps the average tone of a mid grey when diffusing error', () => {
+    for (const mode of ['floyd-steinberg', 'ordered'] as const) {
+      const { dots } = ditherToDots(flat(128, 32 * 32), 32, 32, { mode, threshold: 128, invert: false });
+      const coverage = dots.reduce((n, d) => n + d, 0) / dots.length;
+      expect(coverage).toBeGreaterThan(0.4);
+      expect(coverage).toBeLessThan(0.6);
+    }
+  });
+});
+
+describe('^NG encoding', () => {
+  it('packs columns top-down, MSB first, and round-trips', () => {
+    // 2×9: column 0 has the top and bottom dots, column 1 is empty
+    const dots = new Uint8Array(18);
+    dots[0] = 1;
+    dots[8 * 2] = 1;
+    const bitmap = { width: 2, height: 9, dots };
+    expect(dotsToHex(bitmap)).toBe('80800000');
+    expect(buildGraphicUploadCommand('ACME.BMP', bitmap)).toBe('^NG ACME.BMP;2;9;80800000');
+    expect([...hexToDots('80800000', 2, 9).dots]).toEqual([...dots]);
+  });
+});
+
+describe('names and lists', () => {
+  it('derives printer names from files', () => {
+    expect(normalizeGraphicName('Acme logo (v2).svg')).toBe('ACME_LOGO_V2.BMP');
+    expect(normalizeGraphicName('  .png')).toBe('LOGO.BMP');
+  });
+
+  it('parses ^LL responses', () => {
+    expect(parseGraphicList('Logos (3):\r\n1. ENCODER.BMP\r\n2. highVolt.bmp\r\nUSBdrive.bmp\r\n>')).toEqual(['ENCODER.BMP', 'highVolt.bmp', 'USBdrive.bmp']);
+  });
+
+  it('reads names from older [GRAPHIC: …] fields', () => {
+    expect(graphicNameFromField('[GRAPHIC: LOGO1.BMP]')).toBe('LOGO1.BMP');
+    expect(graphicNameFromField('LOGO1.BMP')).toBe('LOGO1.BMP');
+  });
+});
+
+describe('graphicLibrary', () => {
+  it('keeps imported bitmaps and records uploads in the printer list', async () => {
+    const dots = ditherToDots([0, 255, 255, 0], 2, 2, { mode: 'threshold', threshold: 128, invert: false });
+    const graphic = graphicLibrary.save('CHECK.BMP', dots, 'check.png');
+    expect([...graphicLibrary.bitmap('check.bmp')!.dots]).toEqual([1, 0, 0, 1]);
+
+    const target = { id: 42, name: 'Line 1', ipAddress: '10.0.0.42', port: 23 } as Printer;
+    multiPrinterEmulator.syncConfiguredPrinters([target]);
+    multiPrinterEmulator.enabled = true;
+    try {
+      const [result] = await graphicLibrary.upload(graphic, [target], null);
+      expect(result.success).toBe(true);
+      expect(await graphicLibrary.fetchPrinterGraphics(target, null)).toContain('CHECK.BMP');
+    } finally {
+      multiPrinterEmulator.enabled = false;
+      multiPrinterEmulator.syncConfiguredPrinters([]);
+    }
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Hotfolder v2 — file parsers (electron/hotfolderParsers.cjs) and the
+ * watcher's stability gate, name+hash state and processed/error archiving
+ * (electron/hotfolderWatcher.cjs) against a temp folder.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { parseHotfolderFile } = require('../../electron/hotfolderParsers.cjs');
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { HotfolderWatcher } = require('../../electron/hotfolderWatcher.cjs');
+
+describe('hotfolder parsers', () => {
+  it('reads quoted CSV and sniffs tab-separated .txt', () => {
+    expect(parseHotfolderFile('a.csv', 'Tag,Name\r\n"1,2","say ""hi"""\r\n')).toEqual({
+      format: 'csv', columns: ['Tag', 'Name'], rows: [{ Tag: '1,2', Name: 'say "hi"' }],
+    });
+    expect(parseHotfolderFile('a.txt', 'Tag\tName\n7\ta,b\n')).toMatchObject({
+      format: 'tsv', rows: [{ Tag: '7', Name: 'a,b' }],
+    });
+  });
+
+  it('flattens JSON records into one column set', () => {
+    const out = parseHotfolderFile('a.json', '{"data":[{"tag":"A","lot":{"no":5}},{"tag":"B","extra":true}]}');
+    expect(out.columns).toEqual(['tag', 'lot.no', 'extra']);
+    expect(out.rows[1]).toEqual({ tag: 'B', 'lot.no': '', extra: 'true' });
+  });
+
+  it('takes the repeating XML element as the record', () => {
+    const xml = '<?xml version="1.0"?><export><items><item id="1"><code>A&amp;B</code></item>'
+      + '<item id="2"><code><![CDATA[<x>]]></code></item></items></export>';
+    expect(parseHotfolderFile('a.xml', xml)).toEqual({
+      format: 'xml', columns: ['id', 'code'], rows: [{ id: '1', code: 'A&B' }, { id: '2', code: '<x>' }],
+    });
+    expect(() => parseHotfolderFile('a.xml', '<a><b></a>')).toThrow(/Unexpected/);
+  });
+});
+
+describe('HotfolderWatcher', () => {
+  let root: string;
+  let dir: string;
+  let files: { batchId: string; fileName: string; rows: unknown[] }[];
+
+  const make = (extra: Record<string, unknown> = {}) => {
+    const w = new HotfolderWatcher({ statePath: path.join(root, 'state.json') });
+    w.on('file', (f: (typeof files)[number]) => files.push(f));
+    // configure() starts the poll timer; tests drive scan() by hand.
+    w.configure({ enabled: true, path: dir, stableMs: 1000, ...extra });
+    w.stop();
+    return w;
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'hotfolder-'));
+    dir = path.join(root, 'in');
+    fs.mkdirSync(dir);
+    files = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('waits for a file to be stable, then archives it once acknowledged', () => {
+    const w = make();
+    fs.writeFileSync(path.join(dir, 'tags.csv'), 'Tag\nA\n');
+    expect(w.scan(0)).toBe(0);
+    expect(w.getStatus().waiting).toEqual(['tags.csv']);
+    expect(w.scan(500)).toBe(0);
+    expect(w.scan(1200)).toBe(1);
+    expect(files[0]).toMatchObject({ fileName: 'tags.csv', rows: [{ Tag: 'A' }] });
+
+    w.acknowledge(files[0].batchId, { imported: 1 });
+    expect(fs.existsSync(path.join(dir, 'processed', 'tags.csv'))).toBe(true);
+    expect(fs.existsSync(path.join(dir, 'tags.csv'))).toBe(false);
+  });
+
+  it('keys processed state by name and content across restarts', () => {
+    const w = make({ stableMs: 0 });
+    fs.writeFileSync(path.join(dir, 'tags.csv'), 'Tag\nA\n');
+    w.scan(0);
+    w.acknowledge(files[0].batchId, { imported: 1 });
+
+    const restarted = make({ stableMs: 0 });
+    fs.writeFileSync(path.join(dir, 'tags.csv'), 'Tag\nA\n');
+    expect(restarted.scan(0)).toBe(0);
+    expect(restarted.getStatus().recent[0]).toMatchObject({ fileName: 'tags.csv', status: 'duplicate' });
+
+    fs.writeFileSync(path.join(dir, 'tags.csv'), 'Tag\nB\n');
+    expect(restarted.scan(0)).toBe(1);
+  });
+
+  it('moves unreadable and partly imported files to error/ with a report', () => {
+    const w = make({ stableMs: 0 });
+    fs.writeFileSync(path.join(dir, 'bad.json'), '{ nope');
+    fs.writeFileSync(path.join(dir, 'half.csv'), 'Tag\nA\nB\n');
+    w.scan(0);
+    expect(files.map((f) => f.fileName)).toEqual(['half.csv']);
+    w.acknowledge(files[0].batchId, { imported: 1, error: 'network' });
+
+    const report = fs.readFileSync(path.join(dir, 'error', 'bad.json.error.txt'), 'utf8');
+    expect(report).toMatch(/Invalid JSON/);
+    const half = fs.readFileSync(path.join(dir, 'error', 'half.csv.error.txt'), 'utf8');
+    expect(half).toMatch(/1 of 2 imported/);
+    expect(w.getStatus().filesFailed).toBe(2);
+  });
+});
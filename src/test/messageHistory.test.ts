@@ -0,0 +1,78 @@
+/**
+ * Message version history (src/lib/messageHistory.ts) — append-only
+ * versions, push tracking through messageSentHistory, and the field diff.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { messageHistory, diffMessageFields, historyKey } from '@/lib/messageHistory';
+import { recordMessageSent } from '@/lib/messageSentHistory';
+import type { MessageDetails, MessageField } from '@/components/screens/EditMessageScreen';
+
+const field = (id: number, data: string, extra: Partial<MessageField> = {}): MessageField => ({
+  id, type: 'text', data, x: 0, y: 0, width: 30, height: 7, fontSize: 'Standard7High', ...extra,
+});
+
+const message = (name: string, fields: MessageField[]): MessageDetails => ({ name, height: 16, width: 200, fields });
+
+describe('messageHistory', () => {
+  it('appends versions, merges unchanged saves and notes pushes on the latest', () => {
+    const name = 'HIST_A';
+    messageHistory.setAuthor('Dana');
+    const v1 = messageHistory.record(message(name, [field(1, 'LOT 1')]), { printerId: 3, pushedTo: [3] });
+    const same = messageHistory.record(message(name, [field(1, 'LOT 1')]), { printerId: 3, pushedTo: [4] });
+    expect(same.version).toBe(1);
+    expect(messageHistory.list(3, name)).toHaveLength(1);
+    expect(messageHistory.latest(3, name)!.pushedTo).toEqual([3, 4]);
+
+    const v2 = messageHistory.record(message(name, [field(1, 'LOT 2')]), { printerId: 3 });
+    recordMessageSent(7, name);
+    expect(v2.version).toBe(2);
+    expect(v2.author).toBe('Dana');
+    expect(messageHistory.latest(3, name)!.pushedTo).toEqual([7]);
+    expect(messageHistory.list(3, name)[0]).toEqual({ ...v1, pushedTo: [3, 4] });
+
+    // A rollback to identical content is still its own version
+    const v3 = messageHistory.record(v1.message, { printerId: 3, note: 'Rollback to v1' });
+    expect(v3.version).toBe(3);
+    expect(v3.note).toBe('Rollback to v1');
+  });
+
+  it('keeps each printer\'s copy of a message name apart', () => {
+    const name = 'HIST_B';
+    messageHistory.record(message(name, [field(1, 'LINE 1')]), { printerId: 1, at: 1000 });
+    messageHistory.record(message(name, [field(1, 'LINE 2')]), { printerId: 2, at: 2000 });
+    messageHistory.record(message(name, [field(1, 'LINE 2b')]), { printerId: 2, at: 3000 });
+    expect(messageHistory.list(1, name).map((v) => v.message.fields[0].data)).toEqual(['LINE 1']);
+    expect(messageHistory.list(2, name).map((v) => v.version)).toEqual([1, 2]);
+    expect(Object.keys(messageHistory.getState().versions)).toEqual(expect.arrayContaining([historyKey(1, name), historyKey(2, name)]));
+
+    // A push lands on the newest save of the name, wherever it was edited
+    recordMessageSent(5, name);
+    expect(messageHistory.latest(2, name)!.pushedTo).toEqual([5]);
+    expect(messageHistory.latest(1, name)!.pushedTo).toEqual([]);
+  });
+
+  it('splits history saved under bare message names by printer', async () => {
+    const v = (version: number, printerId: number | null, data: string) => ({
+      version, savedAt: version, author: 'Op', printerId, pushedTo: [], message: message('OLD', [field(1, data)]),
+    });
+    localStorage.setItem('codesync.messageHistory.v1', JSON.stringify({
+      author: 'Op',
+      versions: { OLD: [v(1, 3, 'A'), v(2, null, 'B'), v(3, 3, 'C')] },
+    }));
+    vi.resetModules();
+    const fresh = (await import('@/lib/messageHistory')).messageHistory;
+    expect(fresh.list(3, 'OLD').map((x) => x.version)).toEqual([1, 3]);
+    expect(fresh.list(0, 'OLD').map((x) => x.version)).toEqual([2]);
+    localStorage.removeItem('codesync.messageHistory.v1');
+  });
+});
+
+describe('diffMessageFields', () => {
+  it('reports added, removed and changed fields by id', () => {
+    const before = message('D', [field(1, 'ABC'), field(2, 'GONE'), field(3, 'SAME')]);
+    const after = message('D', [field(1, 'ABD', { x: 4 }), field(3, 'SAME'), field(4, 'NEW')]);
+    const diffs = diffMessageFields(before, after);
+    expect(diffs.map((d) => [d.id, d.status])).toEqual([[1, 'changed'], [2, 'removed'], [3, 'same'], [4, 'added']]);
+    expect(diffs[0].changes).toEqual(['data', 'x']);
+  });
+});
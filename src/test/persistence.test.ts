@@ -0,0 +1,179 @@
+/**
+ * Unified persistence — the renderer cache and migrations
+ * (src/lib/persistence.ts) and the Electron SQLite/JSON store
+ * (electron/persistentStore.cjs).
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  PERSISTENT_STORAGE_EVENT,
+  PersistentStorage,
+  SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  type ChangeChannel,
+  type PersistenceBackend,
+} from '@/lib/persistence';
+import type { StorageChanges } from '@/types/electron';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { PersistentStore } = require('../../electron/persistentStore.cjs');
+
+function memoryBackend(entries: Record<string, string> = {}) {
+  const writes: StorageChanges[] = [];
+  const backend: PersistenceBackend = {
+    name: 'indexeddb',
+    loadAll: async () => ({ ...entries }),
+    write: async (changes) => {
+      writes.push(changes);
+      Object.assign(entries, changes.set);
+      for (const key of changes.remove) delete entries[key];
+    },
+  };
+  return { backend, entries, writes };
+}
+
+/** BroadcastChannel stand-in: every channel opened from one bus hears the others, synchronously. */
+function channelBus() {
+  const channels: ChangeChannel[] = [];
+  return () => {
+    const channel: ChangeChannel = {
+      onmessage: null,
+      postMessage: (data) => channels.filter((c) => c !== channel).forEach((c) => c.onmessage?.({ data })),
+    };
+    channels.push(channel);
+    return channel;
+  };
+}
+
+describe('PersistentStorage', () => {
+  let legacy: Map<string, string>;
+  const legacyStorage = () => ({
+    getItem: (k: string) => legacy.get(k) ?? null,
+    setItem: (k: string, v: string) => { legacy.set(k, v); },
+    removeItem: (k: string) => { legacy.delete(k); },
+  });
+
+  beforeEach(() => {
+    legacy = new Map();
+  });
+
+  it('passes through to localStorage until initialised', () => {
+    const storage = new PersistentStorage(legacyStorage);
+    storage.setItem('codesync-printers', '[]');
+    expect(legacy.get('codesync-printers')).toBe('[]');
+    expect(storage.backendName).toBe('localStorage');
+  });
+
+  it('imports existing keys, folds legacy messages and removes the localStorage copies', async () => {
+    legacy.set('codesync-printers', '[{"id":1}]');
+    legacy.set('bestcode-messages', JSON.stringify({ LOT: { name: 'LOT' } }));
+    legacy.set('codesync-license', 'KEY');
+    const { backend, entries } = memoryBackend();
+    const storage = new PersistentStorage(legacyStorage);
+    await storage.init(backend);
+
+    expect(entries['codesync-printers']).toBe('[{"id":1}]');
+    expect(JSON.parse(entries['bestcode-messages-v2'])).toEqual({ '0:LOT': { name: 'LOT' } });
+    expect(entries['bestcode-messages']).toBeUndefined();
+    expect(entries[SCHEMA_VERSION_KEY]).toBe(String(SCHEMA_VERSION));
+    expect([...legacy.keys()]).toEqual(['codesync-license']);
+  });
+
+  it('keeps data already in the store and skips migrations it has run', async () => {
+    legacy.set('codesync-printers', 'stale');
+    const { backend, writes } = memoryBackend({ 'codesync-printers': 'current', [SCHEMA_VERSION_KEY]: String(SCHEMA_VERSION) });
+    const storage = new PersistentStorage(legacyStorage);
+    await storage.init(backend);
+    expect(storage.getItem('codesync-printers')).toBe('current');
+    expect(writes).toEqual([]);
+    expect(legacy.get('codesync-printers')).toBe('stale');
+  });
+
+  it('batches writes and keeps localStorage copies when the first flush fails', async () => {
+    legacy.set('codesync-printers', '[]');
+    const { backend, entries, writes } = memoryBackend();
+    const write = backend.write;
+    backend.write = async () => { throw new Error('disk full'); };
+    const storage = new PersistentStorage(legacyStorage);
+    await storage.init(backend);
+    expect(legacy.get('codesync-printers')).toBe('[]');
+
+    backend.write = write;
+    storage.setItem('a', '1');
+    storage.setItem('a', '2');
+    storage.removeItem('codesync-printers');
+    expect(storage.getItem('a')).toBe('2');
+    await storage.flush();
+    expect(writes).toHaveLength(1);
+    expect(writes[0].set.a).toBe('2');
+    expect(writes[0].remove).toEqual(['codesync-printers']);
+    expect(entries['codesync-printers']).toBeUndefined();
+  });
+
+  it('migrates localStorage in place when no backend could be opened', () => {
+    legacy.set('bestcode-messages', JSON.stringify({ LOT: { name: 'LOT' } }));
+    const storage = new PersistentStorage(legacyStorage);
+    storage.migrateInPlace();
+    expect(JSON.parse(storage.getItem('bestcode-messages-v2')!)).toEqual({ '0:LOT': { name: 'LOT' } });
+    expect(legacy.has('bestcode-messages')).toBe(false);
+    expect(legacy.get(SCHEMA_VERSION_KEY)).toBe(String(SCHEMA_VERSION));
+  });
+
+  it('applies other windows\' flushed changes to its cache, keeping its own queued ones', async () => {
+    const open = channelBus();
+    const shared = memoryBackend({ [SCHEMA_VERSION_KEY]: String(SCHEMA_VERSION), a: '1', b: '1' });
+    const one = new PersistentStorage(legacyStorage, open);
+    const two = new PersistentStorage(legacyStorage, open);
+    await one.init(shared.backend);
+    await two.init(shared.backend);
+    const changed = vi.fn();
+    window.addEventListener(PERSISTENT_STORAGE_EVENT, changed);
+
+    two.setItem('b', 'mine');
+    one.setItem('a', '2');
+    one.setItem('b', 'theirs');
+    one.removeItem('c');
+    await one.flush();
+    window.removeEventListener(PERSISTENT_STORAGE_EVENT, changed);
+
+    expect(two.getItem('a')).toBe('2');
+    expect(two.getItem('b')).toBe('mine');
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(changed.mock.calls[0][0].detail).toEqual(['a', 'c']);
+  });
+});
+
+describe('PersistentStore (Electron)', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'persist-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores entries in SQLite and survives a reopen', () => {
+    const filePath = path.join(dir, 'data.sqlite');
+    const store = new PersistentStore({ filePath });
+    expect(store.open()).toBe('sqlite');
+    store.write({ set: { a: '1', b: '2' }, remove: [] });
+    store.write({ set: { a: '3' }, remove: ['b'] });
+    store.close();
+
+    const reopened = new PersistentStore({ filePath });
+    expect(reopened.loadAll()).toEqual({ backend: 'sqlite', entries: { a: '3' } });
+    reopened.close();
+  });
+
+  it('falls back to a JSON file without better-sqlite3', () => {
+    const filePath = path.join(dir, 'data.sqlite');
+    const store = new PersistentStore({ filePath, driver: null });
+    store.write({ set: { a: '1', bad: 5 }, remove: [] });
+    store.close();
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'data.json'), 'utf8'))).toEqual({ a: '1' });
+    expect(new PersistentStore({ filePath, driver: null }).loadAll()).toEqual({ backend: 'json', entries: { a: '1' } });
+  });
+});
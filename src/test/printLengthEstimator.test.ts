@@ -0,0 +1,85 @@
+/**
+ * Print length estimator (src/lib/printLengthEstimator.ts) — strokes from
+ * fields and Adjust settings, encoder scaling, speed limits and warnings.
+ */
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DROP_RATE_HZ,
+  estimatePrint,
+  loadEstimatorInputs,
+  maxStrokeRateHz,
+  messageStrokes,
+} from '@/lib/printLengthEstimator';
+import type { MessageField } from '@/components/screens/EditMessageScreen';
+
+const text = (data: string, x = 0, extra: Partial<MessageField> = {}): MessageField => ({
+  id: 1, type: 'text', data, x, y: 0, width: 0, height: 7, fontSize: 'Standard7High', gap: 1, ...extra,
+});
+
+// 100 pulses per rev on a 100/π mm wheel → exactly 1 mm per pulse
+const encoder = { wheelDiameterMm: 100 / Math.PI, pulsesPerRevolution: 100, unit: 'mm' as const };
+const settings = { width: 2, bold: 0, gap: 0, pitch: 0, speed: 'Ultra Fast' as const };
+
+describe('messageStrokes', () => {
+  it('counts glyph advances without the trailing gap, and Bold repeats', () => {
+    // Standard7High: 5-dot advance + 1 gap → 3 chars = 17 strokes
+    expect(messageStrokes([text('ABC')], { bold: 0, gap: 0 })).toBe(17);
+    expect(messageStrokes([text('ABC')], { bold: 0, gap: 2 })).toBe(21);
+    expect(messageStrokes([text('ABC')], { bold: 1, gap: 0 })).toBe(34);
+    expect(messageStrokes([text('ABC', 0, { bold: 1 })], { bold: 0, gap: 0 })).toBe(34);
+  });
+
+  it('ends at the furthest field edge, with blocks at their width', () => {
+    const logo: MessageField = { ...text('LOGO.BMP', 30), type: 'logo', width: 20 };
+    expect(messageStrokes([text('ABC'), logo], { bold: 0, gap: 0 })).toBe(50);
+  });
+});
+
+describe('estimatePrint', () => {
+  it('scales strokes by Width pulses and warns past product, pitch and speed limits', () => {
+    const est = estimatePrint({
+      fields: [text('ABC')],
+      rows: 7,
+      settings: { ...settings, pitch: 30 },
+      encoder,
+      inputs: { lineSpeedMpm: 1000, productLengthMm: 20, dropRateHz: DEFAULT_DROP_RATE_HZ },
+    });
+    expect(est.lengthMm).toBeCloseTo(34);
+    expect(est.pitchMm).toBeCloseTo(30);
+    expect(est.current.maxStrokeRateHz).toBeCloseTo(maxStrokeRateHz('Ultra Fast', 7));
+    expect(est.current.maxLineSpeedMpm).toBeCloseTo((est.current.maxStrokeRateHz * 2 * 60) / 1000);
+    expect(est.warnings.map((w) => w.kind)).toEqual(['product', 'pitch', 'speed']);
+  });
+
+  it('has no warnings when the message fits', () => {
+    const est = estimatePrint({
+      fields: [text('ABC')],
+      rows: 7,
+      settings,
+      encoder,
+      inputs: { lineSpeedMpm: 10, productLengthMm: 100, dropRateHz: DEFAULT_DROP_RATE_HZ },
+    });
+    expect(est.warnings).toEqual([]);
+    expect(est.limits.map((l) => l.speed)).toEqual(['Fast', 'Faster', 'Fastest', 'Ultra Fast']);
+  });
+
+  it('uses calibrated drop rates in place of the defaults', () => {
+    const dropRateHz = { ...DEFAULT_DROP_RATE_HZ, 'Ultra Fast': 22000 };
+    const est = estimatePrint({ fields: [text('ABC')], rows: 7, settings, encoder, inputs: { lineSpeedMpm: 0, productLengthMm: 0, dropRateHz } });
+    expect(est.current.maxStrokeRateHz).toBeCloseTo(2000);
+    expect(maxStrokeRateHz('Fast', 7, { ...dropRateHz, Fast: 0 })).toBeCloseTo(maxStrokeRateHz('Fast', 7));
+  });
+});
+
+describe('loadEstimatorInputs', () => {
+  afterEach(() => localStorage.clear());
+
+  it('fills drop rates missing from saved inputs with the defaults', () => {
+    localStorage.setItem('codesync.printEstimate.v1', JSON.stringify({ lineSpeedMpm: 30, dropRateHz: { Fast: 12000 } }));
+    expect(loadEstimatorInputs()).toEqual({
+      lineSpeedMpm: 30,
+      productLengthMm: 0,
+      dropRateHz: { ...DEFAULT_DROP_RATE_HZ, Fast: 12000 },
+    });
+  });
+});
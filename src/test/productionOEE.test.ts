@@ -0,0 +1,46 @@
+/**
+ * OEE quality factor — rejects from every source fold into A × P × Q
+ * (src/types/production.ts) and into the report aggregate.
+ */
+import { describe, it, expect } from 'vitest';
+import { calculateOEE, type ProductionRun } from '@/types/production';
+import { aggregate } from '@/lib/reportAggregation';
+
+function run(overrides: Partial<ProductionRun> = {}): ProductionRun {
+  return {
+    id: 'r1', printerId: 1, printerName: 'Line 1', messageName: 'LOT',
+    startTime: 0, endTime: 3_600_000, targetCount: 1000, actualCount: 800,
+    downtimeEvents: [{ id: 'd1', startTime: 0, endTime: 360_000, reason: 'jet_stopped' }],
+    ...overrides,
+  };
+}
+
+describe('calculateOEE quality', () => {
+  it('is 100% for runs without rejects', () => {
+    const o = calculateOEE(run());
+    expect(o.quality).toBe(100);
+    expect(o.oee).toBeCloseTo(90 * 80 / 100);
+  });
+
+  it('sums operator, photocell and Twin Code rejects into A × P × Q', () => {
+    const o = calculateOEE(run({ rejects: { operator: 10, photocell: 20, twinCode: 10 } }));
+    expect(o.rejectCount).toBe(40);
+    expect(o.goodCount).toBe(760);
+    expect(o.quality).toBeCloseTo(95);
+    expect(o.oee).toBeCloseTo(90 * 80 * 95 / 10_000);
+  });
+
+  it('never counts more rejects than produced', () => {
+    const o = calculateOEE(run({ actualCount: 5, rejects: { photocell: 9 } }));
+    expect(o.goodCount).toBe(0);
+    expect(o.quality).toBe(0);
+  });
+
+  it('aggregates good, rejects and quality across runs', () => {
+    const s = aggregate([run({ rejects: { operator: 80 } }), run({ id: 'r2' })]);
+    expect(s.produced).toBe(1600);
+    expect(s.rejects).toBe(80);
+    expect(s.good).toBe(1520);
+    expect(s.quality).toBeCloseTo(95);
+  });
+});
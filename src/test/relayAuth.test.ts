@@ -0,0 +1,80 @@
+/**
+ * Relay auth — pairing, request signing, replay rejection and the
+ * mutating-command allowlist. Imports the .cjs module directly.
+ */
+import { describe, it, expect } from 'vitest';
+import { MUTATING_COMMANDS } from '@/lib/printerTransport';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const relay = require('../../electron/relayAuth.cjs');
+
+function paired(now = () => 1_000_000) {
+  const auth = new relay.RelayAuth({ now });
+  const { code } = auth.createPairingCode();
+  const res = auth.completePairing(code, 'Test phone', '10.0.0.5');
+  return { auth, deviceId: res.deviceId as string, secret: res.secret as string };
+}
+
+function signedHeaders(deviceId: string, secret: string, ts: number, path: string, body: string) {
+  return {
+    'x-relay-device': deviceId,
+    'x-relay-ts': String(ts),
+    'x-relay-sig': relay.signRequest(secret, ts, 'POST', path, body),
+  };
+}
+
+describe('relay auth', () => {
+  it('pairs once per code and rejects a reused code', () => {
+    const auth = new relay.RelayAuth({});
+    const { code } = auth.createPairingCode();
+    expect(auth.completePairing(code, 'A', 'x').ok).toBe(true);
+    expect(auth.completePairing(code, 'B', 'x').ok).toBe(false);
+    expect(auth.listDevices()).toHaveLength(1);
+    expect(auth.listDevices()[0].secret).toBeUndefined();
+  });
+
+  it('accepts a valid signature once and rejects replays, stale and tampered requests', () => {
+    let t = 1_000_000;
+    const { auth, deviceId, secret } = paired(() => t);
+    const body = '{"printerId":1,"command":"^SU"}';
+    const h = signedHeaders(deviceId, secret, t, '/relay/send-command', body);
+    expect(auth.verify(h, 'POST', '/relay/send-command', body).ok).toBe(true);
+    expect(auth.verify(h, 'POST', '/relay/send-command', body).error).toBe('replayed-request');
+    expect(auth.verify(h, 'POST', '/relay/send-command', '{"printerId":1,"command":"^SJ0"}').error).toBe('bad-signature');
+    const old = signedHeaders(deviceId, secret, t - 200_000, '/relay/connect', '{}');
+    expect(auth.verify(old, 'POST', '/relay/connect', '{}').error).toBe('stale-timestamp');
+    t += 1;
+    expect(auth.verify({}, 'POST', '/relay/connect', '{}').error).toBe('auth-required');
+  });
+
+  it('accepts the bearer fallback and stops accepting a revoked device', () => {
+    const { auth, deviceId, secret } = paired();
+    const headers = { authorization: `Bearer ${deviceId}:${secret}` };
+    expect(auth.verify(headers, 'POST', '/relay/connect', '{}').ok).toBe(true);
+    auth.revokeDevice(deviceId);
+    expect(auth.verify(headers, 'POST', '/relay/connect', '{}').ok).toBe(false);
+  });
+
+  it('blocks mutating commands until the device is allowlisted for them', () => {
+    const { auth, deviceId } = paired();
+    const device = () => auth.data.devices.find((d: { id: string }) => d.id === deviceId);
+    expect(auth.isCommandAllowed(device(), '^SU')).toBe(true);
+    expect(auth.isCommandAllowed(device(), '^SJ1')).toBe(false);
+    auth.setAllowedCommands(deviceId, ['sj']);
+    expect(auth.isCommandAllowed(device(), '^SJ1')).toBe(true);
+    expect(auth.isCommandAllowed(device(), '^DM BATCH')).toBe(false);
+  });
+
+  it('rejects commands that embed a line break to chain a second command', () => {
+    const { auth, deviceId } = paired();
+    const device = () => auth.data.devices.find((d: { id: string }) => d.id === deviceId);
+    expect(auth.isCommandAllowed(device(), '^SU\r\n^SJ0')).toBe(false);
+    expect(auth.isCommandAllowed(device(), '^SU\n^DM BATCH')).toBe(false);
+    auth.setAllowedCommands(deviceId, ['SJ']);
+    expect(auth.isCommandAllowed(device(), '^SJ1\r^SJ0')).toBe(false);
+    expect(auth.isCommandAllowed(device(), '^SJ1')).toBe(true);
+  });
+
+  it('mirrors the renderer MUTATING_COMMANDS list', () => {
+    expect([...relay.MUTATING_COMMANDS]).toEqual([...MUTATING_COMMANDS]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Relay event feed (src/lib/relayEvents.ts) — dispatching pushed events,
+ * reconnecting after the stream drops with freshly signed headers, and
+ * closing once the last subscriber leaves.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { relayEvents } from '@/lib/relayEvents';
+import { setRelayConfig } from '@/lib/printerTransport';
+
+/** A fetch Response whose body yields `chunks` and then ends. */
+function sseResponse(chunks: string[]) {
+  const enc = new TextEncoder();
+  const queue = chunks.map((c) => enc.encode(c));
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      getReader: () => ({
+        read: async () => (queue.length ? { value: queue.shift(), done: false } : { value: undefined, done: true }),
+      }),
+    },
+  };
+}
+
+describe('relayEvents', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    vi.setSystemTime(Date.UTC(2026, 0, 1, 8, 0, 0));
+    setRelayConfig({ pcIp: '10.0.0.5', port: 8766, deviceId: 'dev-1', secret: 'shh' });
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    setRelayConfig(null);
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('dispatches pushed events and reconnects with a new signature after the stream ends', async () => {
+    fetchMock
+      .mockResolvedValueOnce(sseResponse(['event: status\ndata: {"printerId":2,"command":"^SU"}\n\n']))
+      .mockReturnValue(new Promise(() => { /* second stream stays open */ }));
+    const states: boolean[] = [];
+    const unsubscribeState = relayEvents.subscribe((s) => states.push(s.connected));
+    const status = vi.fn();
+    const off = relayEvents.on('status', status);
+
+    await vi.waitFor(() => expect(status).toHaveBeenCalledTimes(1));
+    expect(status.mock.calls[0][0]).toMatchObject({ printerId: 2, command: '^SU' });
+    await vi.waitFor(() => expect(relayEvents.getState()).toMatchObject({ connected: false, error: 'stream ended' }));
+    expect(states).toContain(true);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    const [url, first] = fetchMock.mock.calls[0];
+    const second = fetchMock.mock.calls[1][1];
+    expect(url).toBe('http://10.0.0.5:8766/relay/events');
+    expect(first.headers['X-Relay-Device']).toBe('dev-1');
+    expect(Number(second.headers['X-Relay-Ts'])).toBeGreaterThan(Number(first.headers['X-Relay-Ts']));
+    expect(second.headers['X-Relay-Sig']).not.toBe(first.headers['X-Relay-Sig']);
+
+    off();
+    unsubscribeState();
+    expect(fetchMock.mock.calls[1][1].signal.aborted).toBe(true);
+    expect(relayEvents.getState().connected).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Relay SSE client (src/lib/relayStream.ts) — splitting a buffered
+ * `text/event-stream` body into events across chunk boundaries.
+ */
+import { describe, it, expect } from 'vitest';
+import { parseSseChunk } from '@/lib/relayStream';
+
+function parse(buffer: string) {
+  const events: [string, string][] = [];
+  const tail = parseSseChunk(buffer, (event, data) => events.push([event, data]));
+  return { events, tail };
+}
+
+describe('parseSseChunk', () => {
+  it('emits named and default events and joins multi-line data', () => {
+    const { events, tail } = parse('event: ack\ndata: {"seq":1}\n\ndata: a\ndata: b\n\n');
+    expect(events).toEqual([['ack', '{"seq":1}'], ['message', 'a\nb']]);
+    expect(tail).toBe('');
+  });
+
+  it('keeps an incomplete event as the tail until the rest arrives', () => {
+    const first = parse('event: status\ndata: {"print');
+    expect(first.events).toEqual([]);
+    const second = parse(first.tail + 'erId":3}\r\n\r\nevent: pause');
+    expect(second.events).toEqual([['status', '{"printerId":3}']]);
+    expect(second.tail).toBe('event: pause');
+  });
+
+  it('skips comments and keep-alives, and blocks without data', () => {
+    const { events } = parse(': keep-alive\n\nevent: hello\n\nevent: pause\ndata:{"paused":true}\nid: 4\n\n');
+    expect(events).toEqual([['pause', '{"paused":true}']]);
+  });
+});
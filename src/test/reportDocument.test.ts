@@ -0,0 +1,51 @@
+/**
+ * Report document model (src/lib/reportDocument.ts) and its jsPDF renderer
+ * (src/lib/reportPdf.ts) — sections follow the template, tables break
+ * across pages and the text stays in the PDF as text.
+ */
+import { describe, it, expect } from 'vitest';
+import { buildCustomDocument, buildOEEDocument } from '@/lib/reportDocument';
+import { renderReportDocument, niceMax } from '@/lib/reportPdf';
+import { DEFAULT_SHIFT_CALENDAR, type CustomReportTemplate } from '@/types/reportTemplates';
+import type { ProductionRun } from '@/types/production';
+
+const HOUR = 3_600_000;
+const start = new Date(2026, 2, 2, 8).getTime();
+
+const runs: ProductionRun[] = Array.from({ length: 60 }, (_, i) => ({
+  id: `run-${i}`, printerId: 1 + (i % 2), printerName: `Line ${1 + (i % 2)}`, messageName: `LOT ${i % 5}`,
+  startTime: start + i * HOUR, endTime: start + i * HOUR + HOUR / 2, targetCount: 1000, actualCount: 900,
+  downtimeEvents: i % 10 === 0 ? [{ id: `d${i}`, startTime: start + i * HOUR, endTime: start + i * HOUR + 60_000, reason: 'changeover' }] : [],
+}));
+
+const template: CustomReportTemplate = {
+  id: 't', name: 'Weekly', createdAt: 0, updatedAt: 0,
+  metrics: ['produced', 'oee', 'downtimeByReason'],
+  groupBy: ['printer'],
+  visualizations: ['kpiCards', 'productionTrend'],
+  scope: { preset: 'custom', customStart: start, customEnd: start + 100 * HOUR, bucket: 'day', printerIds: [] },
+};
+
+describe('report documents', () => {
+  it('builds the sections the template asks for', () => {
+    const doc = buildCustomDocument(template, runs, [], DEFAULT_SHIFT_CALENDAR);
+    expect(doc.sections.map((s) => s.title)).toEqual(['Summary', 'Production Trend', 'Downtime by Reason', 'Per-Printer Breakdown']);
+    const kpis = doc.sections[0].blocks[0];
+    expect(kpis.kind === 'kpis' && kpis.items.map((k) => k.label)).toEqual(['Produced', 'OEE']);
+    const table = doc.sections[3].blocks[0];
+    expect(table.kind === 'table' && table.rows.map((r) => r[0])).toEqual(['Printer 1', 'Printer 2']);
+  });
+
+  it('draws a multi-page PDF with searchable text', () => {
+    const pdf = renderReportDocument(buildOEEDocument(runs, []), new Date(start));
+    expect(pdf.getNumberOfPages()).toBeGreaterThan(1);
+    const raw = pdf.output();
+    expect(raw).toContain('Run History');
+    expect(raw).toContain('Page 2 of');
+    expect(raw).not.toContain('/Subtype /Image');
+  });
+
+  it('rounds axis maxima to 1-2-5 steps', () => {
+    expect([0, 7, 12, 180, 4100].map(niceMax)).toEqual([1, 10, 20, 200, 5000]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Scheduled report delivery — due-time math, the render → folder / outbox
+ * round trip and history (electron/reportScheduler.cjs) against a temp folder.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { ReportScheduler, normalizeSchedule, nextRun } = require('../../electron/reportScheduler.cjs');
+
+const SHIFTS = [
+  { id: 'day', name: 'Day', startHour: 6, endHour: 14 },
+  { id: 'night', name: 'Night', startHour: 22, endHour: 6 },
+];
+const at = (d: string) => new Date(d).getTime();
+
+describe('nextRun', () => {
+  it('picks the next shift end and the shift it covers', () => {
+    const s = normalizeSchedule({ trigger: 'shiftEnd', shifts: SHIFTS });
+    const due = nextRun(s, at('2026-03-02T10:00:00'));
+    expect(due.at).toBe(at('2026-03-02T14:00:00'));
+    expect(due.range).toEqual({ start: at('2026-03-02T06:00:00'), end: due.at, label: 'Day shift' });
+    expect(nextRun(s, due.at).range.start).toBe(at('2026-03-02T22:00:00'));
+  });
+
+  it('skips non-working days and holidays of the covered lines\' patterns', () => {
+    const calendar = {
+      patterns: [
+        { id: 'weekdays', name: 'Mon–Fri', workingDays: [1, 2, 3, 4, 5], shifts: SHIFTS },
+        // Same shift id, different hours on the packing line
+        { id: 'packing', name: 'Packing', workingDays: [1, 2, 3, 4, 5, 6], shifts: [{ id: 'day', name: 'Day', startHour: 7, endHour: 15 }] },
+      ],
+      defaultPatternId: 'weekdays',
+      lineAssignments: { 2: 'packing' },
+      holidays: [{ date: '2026-03-09', name: 'Plant shutdown' }],
+    };
+    const s = normalizeSchedule({ trigger: 'shiftEnd', shiftIds: ['day'], shifts: SHIFTS, calendar, scope: { printerIds: [1] } });
+    // 2026-03-06 is a Friday; Monday the 9th is a holiday
+    expect(nextRun(s, at('2026-03-06T15:00:00')).at).toBe(at('2026-03-10T14:00:00'));
+
+    const packing = normalizeSchedule({ trigger: 'shiftEnd', shiftIds: ['day'], shifts: SHIFTS, calendar, scope: { printerIds: [2] } });
+    const sat = nextRun(packing, at('2026-03-06T15:00:00'));
+    expect(sat.range).toEqual({ start: at('2026-03-07T07:00:00'), end: at('2026-03-07T15:00:00'), label: 'Day shift' });
+
+    // Every line: both patterns' day shifts fire
+    const all = normalizeSchedule({ trigger: 'shiftEnd', shiftIds: ['day'], shifts: SHIFTS, calendar });
+    expect(nextRun(all, at('2026-03-05T10:00:00')).at).toBe(at('2026-03-05T14:00:00'));
+    expect(nextRun(all, at('2026-03-05T14:00:00')).at).toBe(at('2026-03-05T15:00:00'));
+  });
+
+  it('rolls daily to tomorrow and weekly to the weekday', () => {
+    expect(nextRun(normalizeSchedule({ trigger: 'daily', time: '06:30' }), at('2026-03-02T07:00:00')).at)
+      .toBe(at('2026-03-03T06:30:00'));
+    // 2026-03-02 is a Monday
+    expect(nextRun(normalizeSchedule({ trigger: 'weekly', time: '06:00', weekday: 5 }), at('2026-03-02T07:00:00')).at)
+      .toBe(at('2026-03-06T06:00:00'));
+  });
+});
+
+describe('ReportScheduler', () => {
+  let dir: string;
+  let now: number;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-'));
+    now = at('2026-03-02T10:00:00');
+  });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  it('renders a due schedule once, writes the files and the outbox message', async () => {
+    const scheduler = new ReportScheduler({ statePath: path.join(dir, 'state.json'), now: () => now });
+    scheduler.on('render', (req: { requestId: string; title: string }) => {
+      scheduler.deliver(req.requestId, { pdfBase64: Buffer.from('%PDF').toString('base64'), csvText: 'a,b\n1,2', title: req.title });
+    });
+    const saved = scheduler.saveSchedule({
+      name: 'Daily OEE', templateId: 't1', trigger: 'daily', time: '11:00',
+      folder: path.join(dir, 'out'), email: { enabled: true, to: 'qa@example.com' },
+    });
+    expect(saved.success).toBe(true);
+    expect(saved.schedule.nextRunAt).toBe(at('2026-03-02T11:00:00'));
+
+    const done = new Promise<{ status: string; files: string[] }>((resolve) => scheduler.once('history', resolve));
+    now = at('2026-03-02T13:00:00');
+    scheduler.checkDue();
+    scheduler.checkDue();
+    const entry = await done;
+
+    expect(entry.status).toBe('success');
+    expect(entry.files.map((f) => path.basename(f))).toEqual(['Daily OEE 2026-03-02 1100.pdf', 'Daily OEE 2026-03-02 1100.csv']);
+    expect(fs.readFileSync(path.join(dir, 'out', 'Daily OEE 2026-03-02 1100.csv'), 'utf8')).toBe('a,b\n1,2');
+    const eml = fs.readFileSync(path.join(dir, 'out', 'outbox', 'Daily OEE 2026-03-02 1100.eml'), 'utf8');
+    expect(eml).toContain('To: qa@example.com');
+    expect(eml).toContain('filename="Daily OEE 2026-03-02 1100.pdf"');
+    expect(scheduler.getHistory()).toHaveLength(1);
+    expect(scheduler.getSchedules()[0].nextRunAt).toBe(at('2026-03-03T11:00:00'));
+  });
+
+  it('rejects incomplete schedules and records render errors', async () => {
+    const scheduler = new ReportScheduler({ now: () => now });
+    expect(scheduler.saveSchedule({ templateId: 't1' })).toMatchObject({ success: false, error: 'Output folder is required' });
+    scheduler.on('render', (req: { requestId: string }) => scheduler.deliver(req.requestId, { error: 'Report template no longer exists' }));
+    const { schedule } = scheduler.saveSchedule({ templateId: 't1', folder: dir });
+    const res = await scheduler.runNow(schedule.id);
+    expect(res).toMatchObject({ success: false, entry: { status: 'failed', error: 'Report template no longer exists' } });
+  });
+});
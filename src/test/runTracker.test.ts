@@ -0,0 +1,44 @@
+/**
+ * Run tracker — ^CN counter deltas, snapshot throttling and the run
+ * bookkeeping applied at a changeover (src/lib/runTracker.ts).
+ */
+import { describe, it, expect } from 'vitest';
+import { runTracker, counterDelta, closeAutoRun, countProducts, newAutoRun, type RunTransition } from '@/lib/runTracker';
+import type { ProductionRun } from '@/types/production';
+
+describe('counterDelta', () => {
+  it('counts up and restarts from zero after a counter reset', () => {
+    expect(counterDelta(100, 130)).toBe(30);
+    expect(counterDelta(100, 100)).toBe(0);
+    expect(counterDelta(500, 12)).toBe(12);
+  });
+});
+
+describe('runTracker.observeCounters', () => {
+  it('reports deltas and snapshots changes, throttling idle polls', () => {
+    const seen: RunTransition[] = [];
+    const off = runTracker.onTransition((t) => seen.push(t));
+    runTracker.observeCounters(9, 40, 41, 0);
+    runTracker.observeCounters(9, 45, 46, 1_000);
+    runTracker.observeCounters(9, 45, 46, 2_000);
+    runTracker.observeCounters(9, 45, 46, 1_000 + runTracker.getState().settings.snapshotSeconds * 1000);
+    off();
+    expect(seen.map((t) => t.type === 'counters' && [t.productDelta, t.snapshot])).toEqual([
+      [0, true], [5, true], [0, false], [0, true],
+    ]);
+  });
+});
+
+describe('run bookkeeping', () => {
+  const run: ProductionRun = { ...newAutoRun(1, 'Line 1', 'LOT', 500, 1_000), id: 'r1' };
+
+  it('accumulates products and closes open downtime with the run', () => {
+    const counted = countProducts(countProducts(run, 20), 0);
+    expect(counted.actualCount).toBe(20);
+    const stopped = { ...counted, downtimeEvents: [{ id: 'd', startTime: 2_000, endTime: null, reason: 'jet_stopped', source: 'auto' as const }] };
+    const closed = closeAutoRun(stopped, 5_000);
+    expect(closed.endTime).toBe(5_000);
+    expect(closed.downtimeEvents[0].endTime).toBe(5_000);
+    expect(closeAutoRun(closed, 9_000)).toBe(closed);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Serial transport — the main-side emulator link in electron/serialTransport.cjs
+ * and the renderer's pseudo-serial endpoint (framing, prompts, 1-1 R/T/C).
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSerialEmulatorEndpoint } from '@/lib/serialEmulatorBridge';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const serial = require('../../electron/serialTransport.cjs');
+
+function fakeEmulator(jetRunning = true) {
+  const seen: string[] = [];
+  return {
+    seen,
+    simulateOffline: false,
+    processCommand: (cmd: string) => { seen.push(cmd); return { success: true, response: `OK ${cmd}` }; },
+    getState: () => ({ jetRunning }),
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  serial.setEmulatorPaths([]);
+});
+
+describe('pseudo-serial endpoint', () => {
+  it('frames commands across chunks and ends each reply with a prompt', () => {
+    const target = fakeEmulator();
+    const out: string[] = [];
+    const ep = createSerialEmulatorEndpoint(target, (t) => out.push(t));
+    ep.write('^S');
+    ep.write('U\r\n^LM\r');
+    expect(target.seen).toEqual(['^SU', '^LM']);
+    expect(out).toEqual(['OK ^SU\r\n>', 'OK ^LM\r\n>']);
+  });
+
+  it('answers ^MD in 1-1 mode with bare R, then T and C', () => {
+    vi.useFakeTimers();
+    const out: string[] = [];
+    const ep = createSerialEmulatorEndpoint(fakeEmulator(), (t) => out.push(t), 50);
+    ep.write('^MB\r\n');
+    expect(ep.oneToOne).toBe(true);
+    ep.write('^MD^TD1;ABC\r\n');
+    expect(out.slice(1)).toEqual(['R']);
+    vi.advanceTimersByTime(100);
+    expect(out.slice(1)).toEqual(['R', 'T', 'C']);
+    ep.write('^ME\r\n');
+    expect(ep.oneToOne).toBe(false);
+  });
+
+  it('refuses 1-1 with the jet stopped and stays silent when offline', () => {
+    const target = fakeEmulator(false);
+    const out: string[] = [];
+    const ep = createSerialEmulatorEndpoint(target, (t) => out.push(t));
+    ep.write('^MB\r\n');
+    expect(ep.oneToOne).toBe(false);
+    expect(out[0]).toContain('JetStopped');
+    target.simulateOffline = true;
+    ep.write('^SU\r\n');
+    expect(out).toHaveLength(1);
+  });
+});
+
+describe('serialTransport emulator link', () => {
+  it('rejects an emu: path the renderer has not registered', async () => {
+    await expect(serial.openSerialConnection({ path: 'emu:printer-9' }, { emulatorSend: () => {} })).rejects.toThrow(/not available/);
+  });
+
+  it('behaves like a socket: writes go out, delivered bytes come back as data', async () => {
+    serial.setEmulatorPaths([{ path: 'emu:printer-1', label: 'Emulator · Printer 1' }]);
+    const sent: [string, string][] = [];
+    const link = await serial.openSerialConnection({ path: 'emu:printer-1', baudRate: 19200 }, {
+      emulatorSend: (p: string, d: string) => sent.push([p, d]),
+    });
+    expect(link.writable).toBe(true);
+    expect(link.baudRate).toBe(19200);
+    expect(link.read()).toBeNull();
+
+    const data: string[] = [];
+    link.on('data', (b: Buffer) => data.push(b.toString()));
+    await new Promise<void>((resolve, reject) => link.write('^SU\r\n', (err?: Error) => (err ? reject(err) : resolve())));
+    expect(sent).toEqual([['emu:printer-1', '^SU\r\n']]);
+    serial.deliverEmulatorData('emu:printer-1', 'STATUS\r\n>');
+    expect(data).toEqual(['STATUS\r\n>']);
+
+    const closed = new Promise((resolve) => link.once('close', resolve));
+    serial.setEmulatorPaths([]);
+    await closed;
+    expect(link.destroyed).toBe(true);
+    expect(link.writable).toBe(false);
+  });
+});
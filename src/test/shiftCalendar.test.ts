@@ -0,0 +1,71 @@
+/**
+ * Shift calendar (src/lib/shiftCalendar.ts) — planned time skips breaks,
+ * non-working days and holidays, night shifts wrap midnight, and OEE
+ * availability is measured against planned rather than wall-clock time.
+ */
+import { describe, it, expect } from 'vitest';
+import { plannedTimeBetween, shiftAt } from '@/lib/shiftCalendar';
+import { runOEE } from '@/lib/reportAggregation';
+import { DEFAULT_SHIFT_CALENDAR, type ShiftCalendar } from '@/types/reportTemplates';
+import type { ProductionRun } from '@/types/production';
+
+const HOUR = 3_600_000;
+// Monday 2 March 2026
+const monday = (h: number, m = 0) => new Date(2026, 2, 2, h, m).getTime();
+
+const calendar: ShiftCalendar = {
+  patterns: [
+    {
+      id: 'weekdays',
+      name: 'Two shifts, Mon–Fri',
+      workingDays: [1, 2, 3, 4, 5],
+      shifts: [
+        { id: 'day', name: 'Day', startHour: 6, endHour: 14, breaks: [{ id: 'b1', name: 'Lunch', start: '10:00', minutes: 30 }] },
+        { id: 'night', name: 'Night', startHour: 22, endHour: 6, breaks: [{ id: 'b2', name: 'Meal', start: '02:00', minutes: 60 }] },
+      ],
+    },
+    { id: 'all', name: 'Around the clock', workingDays: [0, 1, 2, 3, 4, 5, 6], shifts: DEFAULT_SHIFT_CALENDAR.patterns[0].shifts },
+  ],
+  defaultPatternId: 'weekdays',
+  lineAssignments: { 2: 'all' },
+  holidays: [{ date: '2026-03-04', name: 'Plant holiday' }],
+  updatedAt: 0,
+};
+
+describe('shift calendar', () => {
+  it('subtracts breaks and gaps between shifts from planned time', () => {
+    expect(plannedTimeBetween(calendar, 1, monday(6), monday(14))).toBe(7.5 * HOUR);
+    // Night shift runs into Tuesday with a one-hour meal break
+    expect(plannedTimeBetween(calendar, 1, monday(14), monday(30))).toBe(7 * HOUR);
+  });
+
+  it('plans nothing on weekends and holidays, but per-line patterns still apply', () => {
+    const saturday = monday(24 * 5);
+    // Friday's night shift ends Saturday 06:00; Saturday itself is off
+    expect(plannedTimeBetween(calendar, 1, saturday, saturday + 24 * HOUR)).toBe(5 * HOUR);
+    const sunday = monday(24 * 6);
+    expect(plannedTimeBetween(calendar, 1, sunday, sunday + 24 * HOUR)).toBe(0);
+    const holiday = monday(48);
+    // Only Tuesday's night shift spilling past midnight is planned on the holiday
+    expect(plannedTimeBetween(calendar, 1, holiday, holiday + 24 * HOUR)).toBe(5 * HOUR);
+    expect(plannedTimeBetween(calendar, 2, sunday, sunday + 24 * HOUR)).toBe(24 * HOUR);
+  });
+
+  it('buckets timestamps into the shift they fall in', () => {
+    expect(shiftAt(calendar, 1, monday(9))?.id).toBe('day');
+    expect(shiftAt(calendar, 1, monday(27))?.id).toBe('night');
+    expect(shiftAt(calendar, 1, monday(16))).toBeNull();
+    expect(shiftAt(calendar, 1, monday(24 * 6 + 9))).toBeNull();
+  });
+
+  it('measures availability against planned time', () => {
+    const run: ProductionRun = {
+      id: 'r', printerId: 1, printerName: 'Line 1', messageName: 'LOT',
+      startTime: monday(6), endTime: monday(14), targetCount: 1000, actualCount: 900,
+      downtimeEvents: [{ id: 'd', startTime: monday(10), endTime: monday(11), reason: 'changeover' }],
+    };
+    // 7.5 h planned; only 30 min of the hour-long stop falls outside lunch
+    expect(runOEE(run, calendar).availability).toBeCloseTo(700 / 7.5, 5);
+    expect(runOEE(run).availability).toBeCloseTo(700 / 8, 5);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * SPC math (src/lib/spc.ts) — X̄/R subgroups, Shewhart limits and the four
+ * Western Electric rules.
+ */
+import { describe, it, expect } from 'vitest';
+import { subgroups, controlLimits, westernElectric, type SpcSample, type Subgroup } from '@/lib/spc';
+
+const sample = (at: number, pressure: number): SpcSample => ({
+  printerId: 1,
+  at,
+  values: { pressure, modulation: 0, charge: 0, viscosity: 0, rps: 0, phaseQual: 0, printheadTemp: 0, electronicsTemp: 0 },
+});
+
+// Center 40, σ of X̄ = 1
+const limits = { center: 40, ucl: 43, lcl: 37 };
+const groups = (means: number[]): Subgroup[] => means.map((mean, i) => ({ at: i, mean, range: 1 }));
+const rules = (means: number[]) => westernElectric(groups(means), limits).map((v) => [v.index, v.rule]);
+
+describe('subgroups and limits', () => {
+  it('groups consecutive samples and drops the partial tail', () => {
+    const g = subgroups([40, 41, 42, 39, 40, 41, 38].map((p, i) => sample(i, p)), 'pressure', 3);
+    expect(g).toEqual([{ at: 2, mean: 41, range: 2 }, { at: 5, mean: 40, range: 2 }]);
+  });
+
+  it('uses A2 / D3 / D4 for the subgroup size', () => {
+    const l = controlLimits(groups([39, 40, 41]).map((g) => ({ ...g, range: 2 })), 5)!;
+    expect(l.center).toBe(40);
+    expect(l.ucl).toBeCloseTo(40 + 0.577 * 2, 6);
+    expect(l.rUcl).toBeCloseTo(2.114 * 2, 6);
+    expect(l.rLcl).toBe(0);
+    expect(controlLimits([], 5)).toBeNull();
+  });
+});
+
+describe('westernElectric', () => {
+  it('flags a point beyond 3σ', () => {
+    expect(rules([40, 43.5, 40])).toEqual([[1, 1]]);
+  });
+
+  it('flags two of three beyond 2σ on the same side only', () => {
+    expect(rules([42.5, 40, 42.5])).toEqual([[2, 2]]);
+    expect(rules([42.5, 40, 37.5])).toEqual([]);
+  });
+
+  it('flags four of five beyond 1σ', () => {
+    expect(rules([41.5, 41.5, 40, 41.5, 41.5])).toEqual([[4, 3]]);
+  });
+
+  it('flags eight in a row on one side of center', () => {
+    expect(rules([40.5, 40.5, 40.5, 40.5, 40.5, 40.5, 40.5, 40.5])).toEqual([[7, 4]]);
+    expect(rules([40.5, 40.5, 40.5, 39.5, 40.5, 40.5, 40.5, 40.5])).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * TnT Phase 2 bridge — CONFIG payload validation, serial-range expansion,
+ * the serialised PRINT chain and per-line routing.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseTntConfig, expandSerialRange, tntBridge, TNT_OPCODES } from '@/twin-code/tntBridge';
+import { catalog } from '@/twin-code/catalog';
+import { TwinDispatcher, twinDispatcher } from '@/twin-code/twinDispatcher';
+import { twinPairStore, parseTwinLines, type TwinPrinterBinding } from '@/twin-code/twinPairStore';
+
+describe('tnt bridge config', () => {
+  it('accepts the SOW Config shape with a numeric startSerial', () => {
+    const r = parseTntConfig({ partType: 'BOTTLE-A', qty: 2, startSerial: 220274, template: 'LID' });
+    expect(r.ok).toBe(true);
+    if (r.ok === false) return;
+    expect(r.config.part).toBe('BOTTLE-A');
+    expect(r.config.startSerial).toBe('220274');
+    expect(r.config.template).toBe('LID');
+  });
+
+  it('takes qty and startSerial from an explicit serials list', () => {
+    const r = parseTntConfig({ part: 'X', serials: ['25X221546754U', '25X221546755U'] });
+    expect(r.ok).toBe(true);
+    if (r.ok === false) return;
+    expect(r.config.qty).toBe(2);
+    expect(r.config.startSerial).toBe('25X221546754U');
+  });
+
+  it('rejects missing qty, missing startSerial and non-numeric tails', () => {
+    expect(parseTntConfig({ startSerial: '1' }).ok).toBe(false);
+    expect(parseTntConfig({ qty: 3 }).ok).toBe(false);
+    expect(parseTntConfig({ qty: 3, startSerial: '25X221546754U' }).ok).toBe(false);
+    expect(parseTntConfig(null).ok).toBe(false);
+  });
+});
+
+describe('expandSerialRange', () => {
+  it('increments the numeric tail and keeps its width', () => {
+    expect(expandSerialRange('AB0098', 3)).toEqual(['AB0098', 'AB0099', 'AB0100']);
+  });
+
+  it('throws when the tail would overflow', () => {
+    expect(() => expandSerialRange('A98', 3)).toThrow(/overflows/);
+  });
+});
+
+const binding = (ip: string): TwinPrinterBinding => ({ kind: 'ip', name: ip, ip, port: 23 });
+
+function captureFrames() {
+  const sent: { lineId: string; opcode: number; payload: Record<string, unknown> }[] = [];
+  (window as { electronAPI?: unknown }).electronAPI = {
+    tnt: {
+      send: async (lineId: string, opcode: number, payload: Record<string, unknown>) => {
+        sent.push({ lineId, opcode, payload });
+        return { success: true };
+      },
+    },
+  };
+  return sent;
+}
+
+describe('tnt bridge PRINT chain', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete (window as { electronAPI?: unknown }).electronAPI;
+  });
+
+  it('NACKs a PRINT whose dispatch throws and keeps serving later PRINTs', async () => {
+    const sent = captureFrames();
+    twinPairStore.setPair(binding('10.0.0.1'), binding('10.0.0.2'));
+    vi.spyOn(twinDispatcher, 'isBound').mockReturnValue(true);
+    vi.spyOn(twinDispatcher, 'dispatch')
+      .mockRejectedValueOnce(new Error('socket closed'))
+      .mockResolvedValue({ ok: true, aMs: 3, bMs: 4 } as Awaited<ReturnType<typeof twinDispatcher.dispatch>>);
+    catalog.load(['S0001', 'S0002']);
+
+    const print = { lineId: '', dir: 'in' as const, opcode: TNT_OPCODES.PRINT, json: {} };
+    await tntBridge.handleFrame(print);
+    await tntBridge.handleFrame(print);
+
+    expect(sent.map((f) => [f.opcode, f.payload.reason ?? f.payload.serial])).toEqual([
+      [TNT_OPCODES.NACK, 'dispatch-failed'],
+      [TNT_OPCODES.ACK, 'S0002'],
+    ]);
+  });
+});
+
+describe('tnt bridge lines', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete (window as { electronAPI?: unknown }).electronAPI;
+  });
+
+  it('reads the single-pair store shape as the pair of the line it answered to', () => {
+    const lines = parseTwinLines({ a: binding('10.0.0.1'), b: binding('10.0.0.2'), boundAt: null, tntLineId: 'line-3' });
+    expect(lines.activeLineId).toBe('line-3');
+    expect(lines.lines['line-3'].a?.ip).toBe('10.0.0.1');
+  });
+
+  it('drives a second line through its own dispatcher and NACKs lines without a pair', async () => {
+    const sent = captureFrames();
+    twinPairStore.setPair(binding('10.0.0.1'), binding('10.0.0.2'));
+    twinPairStore.setActiveLine('line-2');
+    twinPairStore.setPair(binding('10.0.1.1'), binding('10.0.1.2'));
+    twinPairStore.setActiveLine('line-1');
+
+    let boundTo: string | undefined;
+    vi.spyOn(twinDispatcher, 'isBound').mockReturnValue(false);
+    vi.spyOn(TwinDispatcher.prototype, 'bind').mockImplementation(async function (this: TwinDispatcher, pair) {
+      boundTo = pair.a?.ip;
+      vi.spyOn(this, 'isBound').mockReturnValue(true);
+      return { ok: true };
+    });
+    vi.spyOn(TwinDispatcher.prototype, 'dispatch').mockResolvedValue({ serial: 'L2-0001', ok: true, aMs: 1, bMs: 1 });
+
+    await tntBridge.handleFrame({ lineId: 'line-2', dir: 'in', opcode: TNT_OPCODES.CONFIG, json: { part: 'P', serials: ['L2-0001'], template: 'LID' } });
+    await tntBridge.handleFrame({ lineId: 'line-2', dir: 'in', opcode: TNT_OPCODES.PRINT, json: {} });
+    await tntBridge.handleFrame({ lineId: 'line-1', dir: 'in', opcode: TNT_OPCODES.PRINT, json: {} });
+    await tntBridge.handleFrame({ lineId: 'line-9', dir: 'in', opcode: TNT_OPCODES.PRINT, json: {} });
+
+    expect(boundTo).toBe('10.0.1.1');
+    expect(twinPairStore.getLine('line-2').a?.messageName).toBe('LID');
+    expect(sent.map((f) => [f.lineId, f.opcode, f.payload.reason ?? f.payload.serial ?? f.payload.ref])).toEqual([
+      ['line-2', TNT_OPCODES.ACK, 'CONFIG'],
+      ['line-2', TNT_OPCODES.ACK, 'L2-0001'],
+      ['line-1', TNT_OPCODES.NACK, 'not-bound'],
+      ['line-9', TNT_OPCODES.NACK, 'line-not-bound'],
+    ]);
+    expect(tntBridge.getState().lines['line-2'].printsOk).toBe(1);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * TnT line registry (electron/tntLines.cjs) — config normalisation with the
+ * v1 single-line migration, and starting/stopping listeners to match it.
+ */
+import { describe, it, expect } from 'vitest';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { TntLineRegistry, normalizeTntLines } = require('../../electron/tntLines.cjs');
+
+describe('normalizeTntLines', () => {
+  it('migrates the v1 single-line config to line-1', () => {
+    expect(normalizeTntLines({ enabled: true, port: 9000 })).toEqual({
+      lines: [{ id: 'line-1', name: 'Line 1', enabled: true, port: 9000 }],
+    });
+    expect(normalizeTntLines(null).lines[0]).toMatchObject({ id: 'line-1', enabled: false, port: 8101 });
+  });
+
+  it('cleans ids, drops duplicate ids and disables a second listener on the same port', () => {
+    const { lines } = normalizeTntLines({
+      lines: [
+        { id: 'line 1!', name: 'A', enabled: true, port: 8101 },
+        { id: 'line1', name: 'dup', enabled: true, port: 8200 },
+        { id: 'line-2', enabled: true, port: 8101 },
+        { enabled: false },
+      ],
+    });
+    expect(lines).toEqual([
+      { id: 'line1', name: 'A', enabled: true, port: 8101 },
+      { id: 'line-2', name: 'line-2', enabled: false, port: 8101 },
+      { id: 'line-3', name: 'line-3', enabled: false, port: 8103 },
+    ]);
+  });
+});
+
+describe('TntLineRegistry', () => {
+  function fakeRegistry() {
+    const started: string[] = [];
+    const stopped: string[] = [];
+    const registry = new TntLineRegistry({
+      createServer: (line: { id: string; name: string; port: number }) => {
+        started.push(`${line.id}:${line.port}`);
+        return { port: line.port, name: line.name, getState: () => ({ lineId: line.id, listening: true }), stop: () => stopped.push(line.id) };
+      },
+    });
+    return { registry, started, stopped };
+  }
+
+  it('starts enabled lines and restarts only the ones whose port or name changed', () => {
+    const { registry, started, stopped } = fakeRegistry();
+    const cfg = normalizeTntLines({
+      lines: [
+        { id: 'line-1', name: 'L1', enabled: true, port: 8101 },
+        { id: 'line-2', name: 'L2', enabled: true, port: 8102 },
+        { id: 'line-3', name: 'L3', enabled: false, port: 8103 },
+      ],
+    });
+    registry.apply(cfg);
+    expect(started).toEqual(['line-1:8101', 'line-2:8102']);
+    expect(registry.states(cfg).map((s: { listening: boolean }) => s.listening)).toEqual([true, true, false]);
+
+    registry.apply(normalizeTntLines({
+      lines: [
+        { id: 'line-1', name: 'L1', enabled: true, port: 8101 },
+        { id: 'line-2', name: 'L2', enabled: true, port: 8202 },
+      ],
+    }));
+    expect(stopped).toEqual(['line-2']);
+    expect(started).toEqual(['line-1:8101', 'line-2:8102', 'line-2:8202']);
+    expect(registry.get('line-2').port).toBe(8202);
+    expect(registry.get('')).toBe(registry.get('line-1'));
+
+    registry.apply(normalizeTntLines({ lines: [{ id: 'line-1', name: 'L1', enabled: false, port: 8101 }] }));
+    expect(stopped).toEqual(['line-2', 'line-1', 'line-2']);
+    expect(registry.get('line-1')).toBeNull();
+  });
+});
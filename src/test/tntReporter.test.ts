@@ -0,0 +1,52 @@
+/**
+ * TnT reporter (src/twin-code/tntReporter.ts) — FAULT category mapping and
+ * the STATUS snapshot built from catalog, run and dispatcher state.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { buildFaultPayload, buildStatusPayload, TNT_FAULT_MAP } from '@/twin-code/tntReporter';
+import { catalog } from '@/twin-code/catalog';
+import { twinDispatcher } from '@/twin-code/twinDispatcher';
+
+describe('buildFaultPayload', () => {
+  it('maps fault codes and sides to the wire category, sub-code and side code', () => {
+    const at = Date.UTC(2026, 0, 2, 3, 4, 5);
+    expect(buildFaultPayload('jet-stop', 'B', { message: 'Jet stopped', at, lastBottleIndex: 12 })).toEqual({
+      cat: 0x01,
+      category: 'printer',
+      sub: 0x01,
+      code: 'jet-stop',
+      side: 'B',
+      sideCode: 2,
+      message: 'Jet stopped',
+      at: '2026-01-02T03:04:05.000Z',
+      lastBottleIndex: 12,
+      cleared: false,
+    });
+    const cleared = buildFaultPayload('catalog-exhausted', 'unknown', { message: '', at, cleared: true });
+    expect([cleared.cat, cleared.sub, cleared.sideCode, cleared.lastBottleIndex, cleared.cleared]).toEqual([0x04, 0x01, 0, null, true]);
+  });
+
+  it('gives every dispatch fault its own sub-code', () => {
+    const dispatch = Object.values(TNT_FAULT_MAP).filter((m) => m.category === 'dispatch').map((m) => m.sub);
+    expect(new Set(dispatch).size).toBe(dispatch.length);
+  });
+});
+
+describe('buildStatusPayload', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports catalog counts, binding and no run or fault when idle', () => {
+    vi.spyOn(twinDispatcher, 'isBound').mockReturnValue(true);
+    catalog.load(['R0001', 'R0002', 'R0003']);
+    catalog.dispense();
+
+    const status = buildStatusPayload(7);
+    expect(status.seq).toBe(7);
+    expect(status.bound).toBe(true);
+    expect(status.run).toBeNull();
+    expect(status.fault).toBeNull();
+    expect(status.catalog).toMatchObject({ total: 3, remaining: 2 });
+  });
+});
@@ -15,6 +15,7 @@
 
 import { twinPairStore, type TwinPairState } from "./twinPairStore";
 import { letterForCurrentYear } from "./messageSeeds";
+import { persistentStorage } from "@/lib/persistence";
 
 const STORAGE_KEY = "twin-code-autocode-counter";
 
@@ -31,7 +32,7 @@ class AutoCodeSerialMirror {
     if (this.hydrated) return;
     this.hydrated = true;
     try {
-      const raw = localStorage.getItem(STORAGE_KEY);
+      const raw = persistentStorage.getItem(STORAGE_KEY);
       if (raw) {
         const p = JSON.parse(raw) as PersistedState;
         if (Number.isFinite(p.counter)) this.counter = Math.max(0, p.counter | 0);
@@ -41,7 +42,7 @@ class AutoCodeSerialMirror {
 
   private persist() {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      persistentStorage.setItem(STORAGE_KEY, JSON.stringify({
         counter: this.counter,
         yearKey: String(new Date().getFullYear()),
       } satisfies PersistedState));
@@ -13,7 +13,7 @@
  * ## Phase 2 — Restart Safety
  *
  * The full ledger (entries + index + consumed-serials set + miss records) is
- * persisted to localStorage with a 250ms-debounced write so a page refresh,
+ * persisted (src/lib/persistence.ts) with a 250ms-debounced write so a page refresh,
  * Electron crash, or accidental nav cannot re-emit a serial that has already
  * left the building. On load we hash the entries; if the user re-imports the
  * same CSV later we detect it and offer to RESUME (skip already-printed
@@ -28,6 +28,7 @@
  */
 
 import { cloudLedger } from "./cloudLedger";
+import { persistentStorage } from "@/lib/persistence";
 
 const STORAGE_KEY = "twincode.catalog.v1";
 
@@ -149,7 +150,7 @@ export class DuplicateSerialError extends Error {
   }
 }
 
-class Catalog {
+export class Catalog {
   private entries: CatalogEntry[] = [];
   private printedSet = new Set<string>();
   private records: LedgerRecord[] = [];
@@ -166,7 +167,8 @@ class Catalog {
   private listeners = new Set<Listener>();
   private saveTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor() {
+  /** `storageKey` — each background TnT line keeps its own ledger (see tntBridge). */
+  constructor(private storageKey = STORAGE_KEY) {
     // On boot, surface that there's a persisted session — but DON'T auto-load
     // it. The UI offers Resume or Discard so the operator stays in control.
     const snap = this.peekPersisted();
@@ -178,7 +180,7 @@ class Catalog {
   /** Read-only peek at whatever's on disk; null if none / corrupt. */
   peekPersisted(): PersistedSnapshot | null {
     try {
-      const raw = typeof localStorage === "undefined" ? null : localStorage.getItem(STORAGE_KEY);
+      const raw = persistentStorage.getItem(this.storageKey);
       if (!raw) return null;
       const p = JSON.parse(raw) as PersistedShape;
       if (!p || p.v !== 1 || !Array.isArray(p.entries)) return null;
@@ -226,7 +228,7 @@ class Catalog {
    */
   resumePersisted(): boolean {
     try {
-      const raw = typeof localStorage === "undefined" ? null : localStorage.getItem(STORAGE_KEY);
+      const raw = persistentStorage.getItem(this.storageKey);
       if (!raw) return false;
       const p = JSON.parse(raw) as PersistedShape;
       if (!p || p.v !== 1) return false;
@@ -253,7 +255,7 @@ class Catalog {
   /** Wipe disk + memory completely. */
   discardPersisted() {
     try {
-      if (typeof localStorage !== "undefined") localStorage.removeItem(STORAGE_KEY);
+      persistentStorage.removeItem(this.storageKey);
     } catch { /* ignore */ }
     this.state = { ...this.state, hasPersistedSession: false };
     this.notify();
@@ -444,7 +446,7 @@ class Catalog {
       hasPersistedSession: false,
     };
     try {
-      if (typeof localStorage !== "undefined") localStorage.removeItem(STORAGE_KEY);
+      persistentStorage.removeItem(this.storageKey);
     } catch { /* ignore */ }
     this.notify();
   }
@@ -484,7 +486,6 @@ class Catalog {
   }
 
   private persistNow() {
-    if (typeof localStorage === "undefined") return;
     if (this.entries.length === 0 || !this.state.fingerprint) return;
     try {
       const savedAt = Date.now();
@@ -499,7 +500,7 @@ class Catalog {
         fingerprint: this.state.fingerprint,
         savedAt,
       };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+      persistentStorage.setItem(this.storageKey, JSON.stringify(payload));
       this.state = { ...this.state, lastSavedAt: savedAt, hasPersistedSession: true };
       this.notify();
     } catch (e) {
@@ -13,12 +13,13 @@
  * intact, so the bonded dispatcher never sees a `dispense() === null` at
  * shift change and the production run keeps rolling across midnight.
  *
- * Persistence: the queue is mirrored to localStorage so a refresh / Electron
+ * Persistence: the queue is mirrored to persistent storage so a refresh / Electron
  * restart doesn't lose the next day's file. Each item carries its own
  * fingerprint + filename for the audit trail.
  */
 
 import { catalog } from "./catalog";
+import { persistentStorage } from "@/lib/persistence";
 
 const QUEUE_STORAGE_KEY = "twincode.catalogQueue.v1";
 const LOW_WATER_KEY = "twincode.catalogQueue.lowWater.v1";
@@ -128,7 +129,7 @@ class CatalogQueue {
   setLowWater(n: number) {
     const v = Number.isFinite(n) && n >= 0 ? Math.floor(n) : DEFAULT_LOW_WATER;
     this.state = { ...this.state, lowWater: v };
-    try { localStorage.setItem(LOW_WATER_KEY, String(v)); } catch { /* ignore */ }
+    try { persistentStorage.setItem(LOW_WATER_KEY, String(v)); } catch { /* ignore */ }
     this.notify();
   }
 
@@ -189,13 +190,13 @@ class CatalogQueue {
 
   private persist() {
     try {
-      localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify({ v: 1, items: this.state.items }));
+      persistentStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify({ v: 1, items: this.state.items }));
     } catch { /* ignore */ }
   }
 
   private loadItems(): QueuedCatalog[] {
     try {
-      const raw = localStorage.getItem(QUEUE_STORAGE_KEY);
+      const raw = persistentStorage.getItem(QUEUE_STORAGE_KEY);
       if (!raw) return [];
       const p = JSON.parse(raw) as { v: number; items: QueuedCatalog[] };
       if (!p || p.v !== 1 || !Array.isArray(p.items)) return [];
@@ -207,7 +208,7 @@ class CatalogQueue {
 
   private loadLowWater(): number {
     try {
-      const raw = localStorage.getItem(LOW_WATER_KEY);
+      const raw = persistentStorage.getItem(LOW_WATER_KEY);
       if (!raw) return DEFAULT_LOW_WATER;
       const n = parseInt(raw, 10);
       return Number.isFinite(n) && n >= 0 ? n : DEFAULT_LOW_WATER;
@@ -1,8 +1,12 @@
 /**
- * TntUplinkPanel — operator view of the Track-n-Trace TCP endpoint (Phase 1).
+ * TntUplinkPanel — operator view of the Track-n-Trace line registry.
  *
- * Shows: server listen state, connected TnT peer, frame counters, last 25
- * frames in/out. Lets the operator enable the listener and pick the port.
+ * Lists every TnT line (one TCP listener + audit log per twin line) with its
+ * listen/connect state and whether it has a twin pair, lets the operator
+ * add/remove lines, enable them, set ports, and pick the active line — the one
+ * the twin view edits and runs (bind its pair from the twin view). Below the list, the
+ * selected line's frame counters, Phase 2 bridge counters, STATUS/FAULT
+ * reporter counters with the fault mapping, and last 25 frames in/out.
  */
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -10,14 +14,28 @@ import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Radio, Wifi, WifiOff, ArrowDown, ArrowUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Radio, Wifi, WifiOff, ArrowDown, ArrowUp, Plus, Trash2, Link2 } from 'lucide-react';
 import { useTntUplink } from '@/twin-code/useTntUplink';
+import { useTntBridge } from '@/twin-code/useTntBridge';
+import { IDLE_TNT_LINE } from '@/twin-code/tntBridge';
+import { twinDispatcher } from '@/twin-code/twinDispatcher';
+import { useTntReporter } from '@/twin-code/useTntReporter';
+import { TNT_FAULT_MAP } from '@/twin-code/tntReporter';
+import { twinPairStore, useTwinLines } from '@/twin-code/twinPairStore';
+import type { TntLineConfig, TntState } from '@/types/electron';
 
 export function TntUplinkPanel() {
-  const { supported, loading, state, config, setConfig } = useTntUplink();
-  const [port, setPort] = useState(config.port);
+  const { supported, loading, lines, config, updateLine, addLine, removeLine } = useTntUplink();
+  const bridge = useTntBridge();
+  const reporter = useTntReporter();
+  const twinLines = useTwinLines();
+  const activeLineId = twinLines.activeLineId;
+  const [selectedId, setSelectedId] = useState<string>(activeLineId);
 
-  useEffect(() => { setPort(config.port); }, [config.port]);
+  useEffect(() => {
+    if (lines.length > 0 && !lines.some((l) => l.lineId === selectedId)) setSelectedId(lines[0].lineId);
+  }, [lines, selectedId]);
 
   if (!supported) {
     return (
@@ -28,101 +46,235 @@ export function TntUplinkPanel() {
           </CardTitle>
         </CardHeader>
         <CardContent className="text-sm text-muted-foreground">
-          Only available in the desktop app. Runs a TCP listener on the plant
-          PC so Track-n-Trace can drive CodeSync as a DJDACP2D-03 endpoint.
+          Only available in the desktop app. Runs a TCP listener per twin line
+          on the plant PC so Track-n-Trace can drive CodeSync as a DJDACP2D-03
+          endpoint.
         </CardContent>
       </Card>
     );
   }
 
+  const state = lines.find((l) => l.lineId === selectedId);
+  const bridgeLine = bridge.lines[selectedId] ?? IDLE_TNT_LINE;
+
   return (
     <Card>
       <CardHeader className="pb-3">
         <CardTitle className="text-base flex items-center gap-2">
           <Radio className="w-4 h-4" /> Track-n-Trace Uplink
           <span className="ml-auto flex items-center gap-2">
-            {state.listening ? (
-              state.connected
-                ? <Badge className="bg-success text-success-foreground gap-1"><Wifi className="w-3 h-3" /> Connected</Badge>
-                : <Badge variant="secondary" className="gap-1">Listening</Badge>
-            ) : (
-              <Badge variant="outline" className="gap-1"><WifiOff className="w-3 h-3" /> Off</Badge>
-            )}
+            <Badge variant="secondary">{lines.filter((l) => l.listening).length}/{lines.length} listening</Badge>
+            <Button size="sm" variant="outline" className="h-7 gap-1" disabled={loading} onClick={() => addLine()}>
+              <Plus className="w-3 h-3" /> Add line
+            </Button>
           </span>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex items-end gap-3 flex-wrap">
-          <div className="flex items-center gap-2">
-            <Switch
-              id="tnt-enabled"
-              checked={config.enabled}
+        <div className="border border-border rounded divide-y divide-border">
+          {config.lines.length === 0 && (
+            <div className="p-3 text-xs text-muted-foreground">No lines configured.</div>
+          )}
+          {config.lines.map((line) => (
+            <LineRow
+              key={line.id}
+              line={line}
+              state={lines.find((l) => l.lineId === line.id)}
+              selected={line.id === selectedId}
+              active={line.id === activeLineId}
+              hasPair={!!(twinLines.lines[line.id]?.a && twinLines.lines[line.id]?.b)}
               disabled={loading}
-              onCheckedChange={(enabled) => setConfig({ enabled, port })}
-            />
-            <Label htmlFor="tnt-enabled" className="text-sm">Enable listener</Label>
-          </div>
-          <div className="space-y-1">
-            <Label className="text-xs text-muted-foreground">TCP port</Label>
-            <Input
-              type="number"
-              className="w-28"
-              value={port}
-              min={1}
-              max={65535}
-              onChange={(e) => setPort(Number(e.target.value) || 8101)}
-              onBlur={() => { if (port !== config.port) setConfig({ enabled: config.enabled, port }); }}
+              onSelect={() => setSelectedId(line.id)}
+              onChange={(patch) => updateLine(line.id, patch)}
+              onRemove={() => removeLine(line.id)}
+              onActivate={() => twinPairStore.setActiveLine(line.id)}
             />
-          </div>
-          <div className="text-xs text-muted-foreground ml-auto">
-            {state.peer ? `Peer: ${state.peer}` : 'No client connected'}
-          </div>
-        </div>
-
-        <div className="grid grid-cols-4 gap-3 text-center">
-          <Metric label="Frames In" value={state.framesIn} />
-          <Metric label="Frames Out" value={state.framesOut} />
-          <Metric label="Port" value={state.port} />
-          <Metric label="Last frame" value={state.lastFrameAt ? new Date(state.lastFrameAt).toLocaleTimeString() : '—'} />
+          ))}
         </div>
 
-        {state.lastError && (
-          <div className="text-xs text-destructive">Error: {state.lastError}</div>
-        )}
+        {state && (
+          <>
+            <div className="text-xs text-muted-foreground">
+              {state.name} · {state.peer ? `Peer: ${state.peer}` : 'No client connected'}
+              {state.logFile && <span className="ml-2 font-mono">log: {state.logFile}</span>}
+            </div>
+            <div className="grid grid-cols-4 gap-3 text-center">
+              <Metric label="Frames In" value={state.framesIn} />
+              <Metric label="Frames Out" value={state.framesOut} />
+              <Metric label="Port" value={state.port} />
+              <Metric label="Last frame" value={state.lastFrameAt ? new Date(state.lastFrameAt).toLocaleTimeString() : '—'} />
+            </div>
 
-        <div>
-          <div className="text-xs font-medium text-muted-foreground mb-2">Recent frames</div>
-          <div className="border border-border rounded max-h-64 overflow-y-auto">
-            {state.recent.length === 0 && (
-              <div className="p-3 text-xs text-muted-foreground">No frames yet.</div>
+            {state.lastError && (
+              <div className="text-xs text-destructive">Error: {state.lastError}</div>
             )}
-            {state.recent.slice().reverse().map((f, i) => (
-              <div key={i} className="flex items-center gap-2 px-3 py-1.5 text-xs border-b border-border last:border-b-0 font-mono">
-                {f.dir === 'in'
-                  ? <ArrowDown className="w-3 h-3 text-primary" />
-                  : <ArrowUp className="w-3 h-3 text-success" />}
-                <span className="w-20 shrink-0 text-muted-foreground">{new Date(f.at).toLocaleTimeString()}</span>
-                <span className="w-16 shrink-0 font-semibold">{f.name}</span>
-                <span className="w-14 shrink-0 text-muted-foreground">{f.size}B</span>
-                <span className="truncate flex-1 text-muted-foreground">
-                  {f.json ? JSON.stringify(f.json) : ''}
-                </span>
+
+            <div className="grid grid-cols-4 gap-3 text-center">
+              <Metric label="Part" value={bridgeLine.part ?? '—'} />
+              <Metric label="Prints OK" value={bridgeLine.printsOk} />
+              <Metric label="Prints failed" value={bridgeLine.printsFailed} />
+              <Metric label="NACKs" value={bridgeLine.nacks} />
+            </div>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span>Bridge: {bridge.running ? (selectedId === activeLineId ? 'driving the twin view pair' : 'driving this line\'s pair') : 'idle'}</span>
+              <span className="font-mono">Last serial: {bridgeLine.lastSerial ?? '—'}</span>
+              {bridgeLine.lastError && <span className="text-destructive ml-auto">Last NACK: {bridgeLine.lastError}</span>}
+            </div>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span>Reporter: {reporter.running ? `STATUS every ${reporter.intervalMs / 1000}s + on change` : 'idle'}</span>
+              <span>STATUS sent: {reporter.statusSent}</span>
+              <span>FAULT sent: {reporter.faultsSent}</span>
+              {reporter.lastStatusAt && (
+                <span className="ml-auto">Last STATUS {new Date(reporter.lastStatusAt).toLocaleTimeString()}</span>
+              )}
+            </div>
+
+            <details className="text-xs">
+              <summary className="cursor-pointer text-muted-foreground">FAULT category / sub-code mapping</summary>
+              <table className="mt-2 w-full font-mono">
+                <tbody>
+                  {Object.entries(TNT_FAULT_MAP).map(([code, m]) => (
+                    <tr key={code} className="border-b border-border last:border-b-0">
+                      <td className="py-1 pr-2">{code}</td>
+                      <td className="py-1 pr-2">cat 0x{m.cat.toString(16).padStart(2, '0')} ({m.category})</td>
+                      <td className="py-1">sub 0x{m.sub.toString(16).padStart(2, '0')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+
+            <div>
+              <div className="text-xs font-medium text-muted-foreground mb-2">Recent frames</div>
+              <div className="border border-border rounded max-h-64 overflow-y-auto">
+                {state.recent.length === 0 && (
+                  <div className="p-3 text-xs text-muted-foreground">No frames yet.</div>
+                )}
+                {state.recent.slice().reverse().map((f, i) => (
+                  <div key={i} className="flex items-center gap-2 px-3 py-1.5 text-xs border-b border-border last:border-b-0 font-mono">
+                    {f.dir === 'in'
+                      ? <ArrowDown className="w-3 h-3 text-primary" />
+                      : <ArrowUp className="w-3 h-3 text-success" />}
+                    <span className="w-20 shrink-0 text-muted-foreground">{new Date(f.at).toLocaleTimeString()}</span>
+                    <span className="w-16 shrink-0 font-semibold">{f.name}</span>
+                    <span className="w-14 shrink-0 text-muted-foreground">{f.size}B</span>
+                    <span className="truncate flex-1 text-muted-foreground">
+                      {f.json ? JSON.stringify(f.json) : ''}
+                    </span>
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-        </div>
+            </div>
+          </>
+        )}
 
         <p className="text-[11px] text-muted-foreground leading-relaxed">
-          Phase 1: transport only. Inbound Config/Print/Request frames are
-          logged and surfaced here; wiring into the TwinCode dispatcher lands
-          in Phase 2 once the DJDACP2D-03 byte layout is confirmed against a
-          live pcap.
+          Phase 2: Config loads part/qty/template/startSerial into the catalog
+          and pair binding, Print dispatches the next serial to the bonded
+          pair, and Request answers with the last serial and fault state.
+          Every inbound frame gets an ACK or NACK; STATUS and FAULT frames
+          are pushed for the active line while a client is connected. Each
+          line drives its own twin pair; the active line runs through the twin
+          view, the others are bound on their first Config. Lines without a
+          pair are NACKed with line-not-bound. Byte layout is still the placeholder framing until
+          confirmed against a live pcap.
         </p>
       </CardContent>
     </Card>
   );
 }
 
+function LineRow({
+  line, state, selected, active, hasPair, disabled, onSelect, onChange, onRemove, onActivate,
+}: {
+  line: TntLineConfig;
+  state: TntState | undefined;
+  selected: boolean;
+  active: boolean;
+  hasPair: boolean;
+  disabled: boolean;
+  onSelect: () => void;
+  onChange: (patch: Partial<Omit<TntLineConfig, 'id'>>) => void;
+  onRemove: () => void;
+  onActivate: () => void;
+}) {
+  const [port, setPort] = useState(line.port);
+  const [name, setName] = useState(line.name);
+
+  useEffect(() => { setPort(line.port); }, [line.port]);
+  useEffect(() => { setName(line.name); }, [line.name]);
+
+  return (
+    <div
+      className={`flex items-center gap-3 px-3 py-2 flex-wrap cursor-pointer ${selected ? 'bg-muted/50' : ''}`}
+      onClick={onSelect}
+    >
+      <Switch
+        checked={line.enabled}
+        disabled={disabled}
+        onClick={(e) => e.stopPropagation()}
+        onCheckedChange={(enabled) => onChange({ enabled })}
+      />
+      <Input
+        className="w-36 h-8"
+        value={name}
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={() => { if (name.trim() && name !== line.name) onChange({ name: name.trim() }); }}
+      />
+      <div className="flex items-center gap-1">
+        <Label className="text-xs text-muted-foreground">Port</Label>
+        <Input
+          type="number"
+          className="w-24 h-8"
+          value={port}
+          min={1}
+          max={65535}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => setPort(Number(e.target.value) || line.port)}
+          onBlur={() => { if (port !== line.port) onChange({ port }); }}
+        />
+      </div>
+      {state?.listening ? (
+        state.connected
+          ? <Badge className="bg-success text-success-foreground gap-1"><Wifi className="w-3 h-3" /> Connected</Badge>
+          : <Badge variant="secondary" className="gap-1">Listening</Badge>
+      ) : (
+        <Badge variant="outline" className="gap-1"><WifiOff className="w-3 h-3" /> Off</Badge>
+      )}
+      <span className="text-xs text-muted-foreground tabular-nums">
+        {state ? `${state.framesIn} in / ${state.framesOut} out` : ''}
+      </span>
+      <span className="ml-auto flex items-center gap-1">
+        <Badge variant={hasPair ? 'secondary' : 'outline'} className="text-[10px]">{hasPair ? 'Pair set' : 'No pair'}</Badge>
+        {active ? (
+          <Badge className="gap-1"><Link2 className="w-3 h-3" /> Active</Badge>
+        ) : (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            // Switching lines under a LIVE bind would strand its sessions
+            disabled={twinDispatcher.isBound()}
+            onClick={(e) => { e.stopPropagation(); onActivate(); }}
+          >
+            Make active
+          </Button>
+        )}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          disabled={disabled}
+          onClick={(e) => { e.stopPropagation(); onRemove(); }}
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </span>
+    </div>
+  );
+}
+
 function Metric({ label, value }: { label: string; value: string | number }) {
   return (
     <div className="metric-card flex-col items-start gap-0">
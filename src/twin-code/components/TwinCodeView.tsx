@@ -26,6 +26,8 @@ import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { useProfilerSamples } from "@/twin-code/useProfilerSamples";
 import { profilerBus } from "@/twin-code/profilerBus";
+import { tntBridge } from "@/twin-code/tntBridge";
+import { tntReporter } from "@/twin-code/tntReporter";
 import { syntheticGenerator, DEFAULT_GENERATOR_CONFIG } from "@/twin-code/syntheticGenerator";
 import { exportSessionCSV, exportSessionJSON, importSessionJSON } from "@/twin-code/sessionExport";
 import { WaterfallStrip } from "@/twin-code/components/WaterfallStrip";
@@ -105,6 +107,18 @@ export function TwinCodeView({ embedded = false }: TwinCodeViewProps) {
     if (!profilerBus.getSession()) profilerBus.startSession("Phase 1a — synthetic");
   }, []);
 
+  // TnT Phase 2: inbound Config/Print/Request frames drive the bonded pair,
+  // and STATUS/FAULT frames mirror the line back upstream, while the TwinCode
+  // workspace is mounted (both no-op outside Electron).
+  useEffect(() => {
+    tntBridge.start();
+    tntReporter.start();
+    return () => {
+      tntBridge.stop();
+      tntReporter.stop();
+    };
+  }, []);
+
   const handleStart = () => {
     if (!profilerBus.getSession()) profilerBus.startSession("Phase 1a — synthetic");
     syntheticGenerator.start();
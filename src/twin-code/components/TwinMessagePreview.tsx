@@ -20,7 +20,7 @@
  */
 import { renderText } from '@/lib/dotMatrixFonts';
 import { useEffect, useRef, useState } from 'react';
-import { useTwinPair } from '../twinPairStore';
+import { bindingAddressLabel, useTwinPair } from '../twinPairStore';
 import { Slider } from '@/components/ui/slider';
 // @ts-ignore — bwip-js ships its own types but resolution differs across bundlers
 import bwipjs from 'bwip-js';
@@ -277,7 +277,7 @@ export function TwinMessagePreview() {
               messageName={pair.a?.messageName}
               fieldIndex={pair.a?.fieldIndex}
               subcommand={pair.a?.subcommand}
-              printerLabel={pair.a ? `${pair.a.name || 'Lid'} · ${pair.a.ip}:${pair.a.port}` : undefined}
+              printerLabel={pair.a ? `${pair.a.name || 'Lid'} · ${bindingAddressLabel(pair.a)}` : undefined}
             />
           </div>
           <div className="min-w-0 overflow-hidden">
@@ -288,7 +288,7 @@ export function TwinMessagePreview() {
               messageName={pair.b?.messageName}
               fieldIndex={pair.b?.fieldIndex}
               subcommand={pair.b?.subcommand}
-              printerLabel={pair.b ? `${pair.b.name || 'Side'} · ${pair.b.ip}:${pair.b.port}` : undefined}
+              printerLabel={pair.b ? `${pair.b.name || 'Side'} · ${bindingAddressLabel(pair.b)}` : undefined}
             />
           </div>
         </div>
@@ -7,19 +7,24 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Loader2, CheckCircle2, XCircle, Link2, Unlink, Cpu, Wifi, FileText, Hash, Barcode, Type, Sparkles, Zap } from "lucide-react";
-import { twinPairStore, useTwinPair, type TwinPrinterBinding, type DispatchSubcommand } from "../twinPairStore";
+import { twinPairStore, useTwinPair, bindingMatches, type BindKind, type TwinPrinterBinding, type DispatchSubcommand } from "../twinPairStore";
 import { seedForSide, buildAutoCodeSeed, previewAutoCodeSerial, defaultYearMap, letterForCurrentYear, type AutoCodeSeedOpts } from "../messageSeeds";
 import { seedTwinPairMessages } from "../twinDispatcher";
 import { usePrinterStorage } from "@/hooks/usePrinterStorage";
 import type { Printer } from "@/types/printer";
 import { toast } from "@/hooks/use-toast";
+import { SerialPortFields } from "@/components/printers/SerialPortFields";
+import { DEFAULT_SERIAL_BAUD_RATE } from "@/hooks/useSerialPorts";
 
 type ProbeState = "idle" | "probing" | "ok" | "fail";
 
 interface SlotState {
   name: string;
+  kind: BindKind;
   ip: string;
   port: string;
+  serialPath: string;
+  baudRate: number;
   /** Per-side dispatch config */
   messageName: string;
   fieldIndex: string;
@@ -41,8 +46,11 @@ const B_DEFAULTS = { messageName: "SIDE", fieldIndex: 1, subcommand: "TD" as Dis
 function bindingToSlot(b: TwinPrinterBinding | null, fallbackName: string, defaults: typeof A_DEFAULTS): SlotState {
   return {
     name: b?.name ?? fallbackName,
-    ip: b?.ip ?? "",
-    port: b?.port?.toString() ?? DEFAULT_PORT,
+    kind: b?.kind ?? "ip",
+    ip: b?.kind === "serial" ? "" : b?.ip ?? "",
+    port: b?.kind === "serial" ? DEFAULT_PORT : b?.port?.toString() ?? DEFAULT_PORT,
+    serialPath: b?.serialPath ?? "",
+    baudRate: b?.baudRate ?? DEFAULT_SERIAL_BAUD_RATE,
     messageName: b?.messageName ?? defaults.messageName,
     fieldIndex: (b?.fieldIndex ?? defaults.fieldIndex).toString(),
     subcommand: b?.subcommand ?? defaults.subcommand,
@@ -55,17 +63,20 @@ function bindingToSlot(b: TwinPrinterBinding | null, fallbackName: string, defau
   };
 }
 
-/** Quick TCP probe via electronAPI — falls back to "no electron" message in browser. */
-async function probePrinter(ip: string, port: number): Promise<{ ok: boolean; ms: number | null; error?: string }> {
+/**
+ * Quick reachability probe via electronAPI (ping for TCP, port presence for
+ * serial) — falls back to "no electron" message in browser.
+ */
+async function probePrinter(endpoint: { ipAddress: string; port: number; serialPath?: string }): Promise<{ ok: boolean; ms: number | null; error?: string }> {
   const api = (window as any).electronAPI;
   if (!api?.printer?.checkStatus) {
     // Browser preview: simulate a probe so the dialog still feels responsive
     await new Promise((r) => setTimeout(r, 350));
-    return { ok: false, ms: null, error: "Electron required for live TCP probe" };
+    return { ok: false, ms: null, error: "Electron required for live probe" };
   }
   try {
     const t0 = performance.now();
-    const results = await api.printer.checkStatus([{ id: -1, ipAddress: ip, port }]);
+    const results = await api.printer.checkStatus([{ id: -1, ...endpoint }]);
     const ms = Math.round(performance.now() - t0);
     const r = results?.[0];
     if (!r) return { ok: false, ms, error: "No response" };
@@ -76,6 +87,15 @@ async function probePrinter(ip: string, port: number): Promise<{ ok: boolean; ms
   }
 }
 
+/** Address half of a binding from the slot form — `ip` mirrors the serial path. */
+function slotAddress(s: SlotState): Pick<TwinPrinterBinding, "kind" | "ip" | "port" | "serialPath" | "baudRate"> {
+  if (s.kind === "serial") {
+    const path = s.serialPath.trim();
+    return { kind: "serial", ip: path, port: 0, serialPath: path, baudRate: s.baudRate };
+  }
+  return { kind: "ip", ip: s.ip.trim(), port: Number(s.port) };
+}
+
 export function TwinPairBindDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (v: boolean) => void }) {
   const pair = useTwinPair();
   const { printers, updatePrinter } = usePrinterStorage();
@@ -132,19 +152,23 @@ export function TwinPairBindDialog({ open, onOpenChange }: { open: boolean; onOp
   };
   const validMessageName = (s: string) => s.trim().length > 0 && s.trim().length <= 32;
 
+  const validAddress = (s: SlotState) =>
+    s.kind === "serial" ? s.serialPath.trim().length > 0 : validIp(s.ip) && validPort(s.port);
   const slotValid = (s: SlotState) =>
-    validIp(s.ip) && validPort(s.port) && validField(s.fieldIndex) && validMessageName(s.messageName);
+    validAddress(s) && validField(s.fieldIndex) && validMessageName(s.messageName);
   const canSave = slotValid(slotA) && slotValid(slotB);
 
   const handleProbe = async (which: "a" | "b") => {
     const slot = which === "a" ? slotA : slotB;
     const setter = which === "a" ? setSlotA : setSlotB;
-    if (!validIp(slot.ip) || !validPort(slot.port)) {
-      setter({ ...slot, probe: "fail", probeError: "Invalid IP or port", probeMs: null });
+    if (!validAddress(slot)) {
+      setter({ ...slot, probe: "fail", probeError: slot.kind === "serial" ? "Enter a serial port" : "Invalid IP or port", probeMs: null });
       return;
     }
     setter({ ...slot, probe: "probing", probeError: null, probeMs: null });
-    const r = await probePrinter(slot.ip.trim(), Number(slot.port));
+    const r = await probePrinter(slot.kind === "serial"
+      ? { ipAddress: slot.serialPath.trim(), port: 0, serialPath: slot.serialPath.trim() }
+      : { ipAddress: slot.ip.trim(), port: Number(slot.port) });
     setter({
       ...slot,
       probe: r.ok ? "ok" : "fail",
@@ -157,20 +181,16 @@ export function TwinPairBindDialog({ open, onOpenChange }: { open: boolean; onOp
     if (!canSave) return;
     setSaving(true);
     const a: TwinPrinterBinding = {
-      kind: "ip",
+      ...slotAddress(slotA),
       name: slotA.name.trim() || "Printer A",
-      ip: slotA.ip.trim(),
-      port: Number(slotA.port),
       messageName: slotA.messageName.trim(),
       fieldIndex: Number(slotA.fieldIndex),
       subcommand: slotA.subcommand,
       autoCreate: slotA.autoCreate,
     };
     const b: TwinPrinterBinding = {
-      kind: "ip",
+      ...slotAddress(slotB),
       name: slotB.name.trim() || "Printer B",
-      ip: slotB.ip.trim(),
-      port: Number(slotB.port),
       messageName: slotB.messageName.trim(),
       fieldIndex: Number(slotB.fieldIndex),
       subcommand: slotB.subcommand,
@@ -180,12 +200,12 @@ export function TwinPairBindDialog({ open, onOpenChange }: { open: boolean; onOp
     twinPairStore.setAutoCode(autoCodeMode, autoCodeMode ? autoCodeOpts : undefined);
 
     // TwinCode pairing supersedes any prior Master/Slave configuration.
-    // Clear role + masterId on the two bound printers (matched by IP:port) so
-    // Master→Slave selection sync does not overwrite the Twin Pair's per-side
-    // LID/SIDE message selection. Also clear any slaves still pointing at a
-    // now-demoted printer.
+    // Clear role + masterId on the two bound printers (matched by IP:port or
+    // serial port) so Master→Slave selection sync does not overwrite the Twin
+    // Pair's per-side LID/SIDE message selection. Also clear any slaves still
+    // pointing at a now-demoted printer.
     const matchesBinding = (p: Printer, bind: TwinPrinterBinding) =>
-      p.ipAddress.trim() === bind.ip && p.port === bind.port;
+      bindingMatches(bind, { ...p, ipAddress: p.ipAddress.trim() });
     const demotedIds = new Set<number>();
     for (const p of printers) {
       if ((matchesBinding(p, a) || matchesBinding(p, b)) && ((p.role && p.role !== 'none') || p.masterId !== undefined)) {
@@ -469,30 +489,51 @@ function SlotCard({
             placeholder={slotKey === "A" ? "Lid printer · Lane 1" : "Side printer · Lane 1"}
           />
         </div>
-        <div className="grid grid-cols-3 gap-2">
-          <div className="col-span-2">
-            <Label htmlFor={`ip-${slotKey}`} className="text-[11px]">IP address</Label>
-            <Input
-              id={`ip-${slotKey}`}
-              value={state.ip}
-              onChange={(e) => onChange({ ...state, ip: e.target.value, probe: "idle", probeError: null })}
-              className="h-8 font-mono text-xs"
-              placeholder="192.168.1.50"
-              inputMode="decimal"
-            />
-          </div>
-          <div>
-            <Label htmlFor={`port-${slotKey}`} className="text-[11px]">Port</Label>
-            <Input
-              id={`port-${slotKey}`}
-              value={state.port}
-              onChange={(e) => onChange({ ...state, port: e.target.value, probe: "idle", probeError: null })}
-              className="h-8 font-mono text-xs"
-              placeholder="23"
-              inputMode="numeric"
-            />
+        <ToggleGroup
+          type="single"
+          value={state.kind}
+          onValueChange={(v) => v && onChange({ ...state, kind: v as BindKind, probe: "idle", probeError: null })}
+          className="grid grid-cols-2 gap-1"
+        >
+          <ToggleGroupItem value="ip" className="h-7 text-[11px]">Network (TCP)</ToggleGroupItem>
+          <ToggleGroupItem value="serial" className="h-7 text-[11px]">Serial (RS-232 / USB)</ToggleGroupItem>
+        </ToggleGroup>
+        {state.kind === "serial" ? (
+          <SerialPortFields
+            idPrefix={`twin-${slotKey}`}
+            path={state.serialPath}
+            onPathChange={(v) => onChange({ ...state, serialPath: v, probe: "idle", probeError: null })}
+            baudRate={state.baudRate}
+            onBaudRateChange={(v) => onChange({ ...state, baudRate: v, probe: "idle", probeError: null })}
+            labelClassName="text-[11px]"
+            inputClassName="h-8 text-xs"
+          />
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <Label htmlFor={`ip-${slotKey}`} className="text-[11px]">IP address</Label>
+              <Input
+                id={`ip-${slotKey}`}
+                value={state.ip}
+                onChange={(e) => onChange({ ...state, ip: e.target.value, probe: "idle", probeError: null })}
+                className="h-8 font-mono text-xs"
+                placeholder="192.168.1.50"
+                inputMode="decimal"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`port-${slotKey}`} className="text-[11px]">Port</Label>
+              <Input
+                id={`port-${slotKey}`}
+                value={state.port}
+                onChange={(e) => onChange({ ...state, port: e.target.value, probe: "idle", probeError: null })}
+                className="h-8 font-mono text-xs"
+                placeholder="23"
+                inputMode="numeric"
+              />
+            </div>
           </div>
-        </div>
+        )}
 
         <div className="flex items-center justify-between gap-2 pt-1">
           <Button
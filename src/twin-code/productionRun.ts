@@ -21,7 +21,7 @@
  *     embedded in the JSON export so any later edit invalidates the chain.
  *
  * Persistence:
- *   - Active run is mirrored to localStorage so a refresh doesn't lose the
+ *   - Active run is mirrored to persistent storage so a refresh doesn't lose the
  *     batch boundary. Completed runs are NOT stored long-term (the export is
  *     the artifact). The last 5 completed runs are kept in-memory for quick
  *     re-export from the same browser session.
@@ -43,6 +43,7 @@ import { profilerBus } from "./profilerBus";
 import { computeHeadroom, cycleBudgetForBpm, DEFAULT_SAFETY_FACTOR } from "./throughputHeadroom";
 import { twinPairStore } from "./twinPairStore";
 import { autoCodeSerial } from "./autoCodeSerial";
+import { persistentStorage } from "@/lib/persistence";
 
 const ACTIVE_RUN_KEY = "twincode.activeRun.v1";
 
@@ -542,18 +543,18 @@ class ProductionRunStore {
   private persistActive() {
     try {
       if (this.state.active) {
-        localStorage.setItem(ACTIVE_RUN_KEY, JSON.stringify(this.state.active));
+        persistentStorage.setItem(ACTIVE_RUN_KEY, JSON.stringify(this.state.active));
       }
     } catch { /* ignore */ }
   }
 
   private clearPersistedActive() {
-    try { localStorage.removeItem(ACTIVE_RUN_KEY); } catch { /* ignore */ }
+    try { persistentStorage.removeItem(ACTIVE_RUN_KEY); } catch { /* ignore */ }
   }
 
   private restoreActive() {
     try {
-      const raw = localStorage.getItem(ACTIVE_RUN_KEY);
+      const raw = persistentStorage.getItem(ACTIVE_RUN_KEY);
       if (!raw) return;
       const meta = JSON.parse(raw) as ProductionRunMeta;
       if (meta && meta.id && meta.lotNumber) {
@@ -0,0 +1,479 @@
+/**
+ * Twin Code — Track-n-Trace Phase 2 bridge.
+ *
+ * Consumes inbound DJDACP2D-03 frames surfaced by the Electron TnT server
+ * (`window.electronAPI.tnt.onFrame`) and drives the bonded pair:
+ *
+ *   CONFIG  (0x10) → load part/qty/template/startSerial into the catalog and
+ *                    the twin-pair binding (message name per side)
+ *   PRINT   (0x20) → dispense the next serial and `twinDispatcher.dispatch()`
+ *   REQUEST (0x30) → report the last printed serial + current faultGuard state
+ *
+ * Every inbound frame is answered with exactly one ACK (0x40) or NACK (0x4F).
+ * The Electron server stays transport-only — this module is the policy layer
+ * and lives in the renderer because the catalog, ledger and dispatcher do.
+ *
+ * PRINT frames are serialized on a promise chain: a second PRINT that arrives
+ * while the previous ^MD round-trip is still in flight waits its turn rather
+ * than racing the same PrinterSession.
+ *
+ * Multi-line: the Electron line registry may run several TnT listeners, and
+ * twinPairStore keeps one pair per line. Each line's frames drive that line's
+ * pair: the active line through the twin view's dispatcher and catalog, the
+ * others through a dispatcher and ledger of their own that the bridge binds
+ * on CONFIG. A line with no pair is NACKed with `line-not-bound` so its MES
+ * doesn't hang waiting for a reply.
+ */
+
+import { Catalog, catalog } from "./catalog";
+import { faultGuard } from "./faultGuard";
+import { profilerBus } from "./profilerBus";
+import { TwinDispatcher, twinBindOptions, twinDispatcher } from "./twinDispatcher";
+import { twinPairStore, DEFAULT_TNT_LINE_ID } from "./twinPairStore";
+import { persistentStorage } from "@/lib/persistence";
+import type { TntFrameEntry } from "@/types/electron";
+import type { Printer } from "@/types/printer";
+
+/** Mirror of `electron/tntCodec.cjs` OPCODES — the codec is CommonJS/Buffer-only. */
+export const TNT_OPCODES = {
+  CONFIG: 0x10,
+  PRINT: 0x20,
+  REQUEST: 0x30,
+  ACK: 0x40,
+  NACK: 0x4f,
+  STATUS: 0x50,
+  FAULT: 0x60,
+} as const;
+
+/** Upper bound on a single CONFIG-generated catalog (matches catalog scale notes). */
+export const TNT_MAX_CONFIG_QTY = 1_000_000;
+
+export interface TntConfigPayload {
+  part: string;
+  qty: number;
+  /** Message name to ^SM-select on both sides (overridden per side below). */
+  template: string | null;
+  templateA: string | null;
+  templateB: string | null;
+  startSerial: string;
+  /** Explicit serial list — takes precedence over startSerial/qty. */
+  serials: string[] | null;
+}
+
+export type TntConfigParse =
+  | { ok: true; config: TntConfigPayload }
+  | { ok: false; reason: string };
+
+function str(v: unknown): string | null {
+  if (typeof v === "string" && v.trim()) return v.trim();
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  return null;
+}
+
+/**
+ * Validate a CONFIG payload. Accepts `part` or `partType` (the SOW uses both
+ * spellings), `qty`, `template` (or per-side `templateA`/`templateB`) and
+ * either `startSerial` or an explicit `serials` array.
+ */
+export function parseTntConfig(json: unknown): TntConfigParse {
+  if (!json || typeof json !== "object") return { ok: false, reason: "config: payload must be a JSON object" };
+  const p = json as Record<string, unknown>;
+  const part = str(p.part) ?? str(p.partType) ?? "";
+
+  const serials = Array.isArray(p.serials)
+    ? p.serials.map((s) => str(s)).filter((s): s is string => !!s)
+    : null;
+  if (serials && serials.length === 0) return { ok: false, reason: "config: serials is empty" };
+
+  const qty = serials ? serials.length : Number(p.qty);
+  if (!Number.isInteger(qty) || qty <= 0) return { ok: false, reason: "config: qty must be a positive integer" };
+  if (qty > TNT_MAX_CONFIG_QTY) return { ok: false, reason: `config: qty exceeds ${TNT_MAX_CONFIG_QTY}` };
+
+  const startSerial = serials ? serials[0] : str(p.startSerial);
+  if (!startSerial) return { ok: false, reason: "config: startSerial is required" };
+  if (!serials && !/\d$/.test(startSerial)) {
+    return { ok: false, reason: "config: startSerial must end in digits" };
+  }
+
+  return {
+    ok: true,
+    config: {
+      part,
+      qty,
+      template: str(p.template),
+      templateA: str(p.templateA),
+      templateB: str(p.templateB),
+      startSerial,
+      serials,
+    },
+  };
+}
+
+/**
+ * Expand `startSerial` into `qty` consecutive serials by incrementing the
+ * trailing digit run and keeping its width — `25X221546754U`-style serials
+ * are supplied as explicit lists; numeric tails like `AB000123` roll as
+ * `AB000124`, `AB000125`, … Throws when the tail would overflow its width.
+ */
+export function expandSerialRange(startSerial: string, qty: number): string[] {
+  const m = /^(.*?)(\d+)$/.exec(startSerial);
+  if (!m) throw new Error(`serial '${startSerial}' has no numeric tail`);
+  const [, prefix, digits] = m;
+  const width = digits.length;
+  const start = BigInt(digits);
+  const limit = 10n ** BigInt(width);
+  if (start + BigInt(qty) > limit) {
+    throw new Error(`serial range ${startSerial}+${qty} overflows ${width} digits`);
+  }
+  const out: string[] = new Array(qty);
+  for (let i = 0; i < qty; i++) {
+    out[i] = prefix + (start + BigInt(i)).toString().padStart(width, "0");
+  }
+  return out;
+}
+
+/** Newest printed serial in the ledger, or null when nothing has printed yet. */
+function lastPrintedSerial(ledger: Catalog): string | null {
+  const records = ledger.getRecords();
+  for (let i = records.length - 1; i >= 0; i--) {
+    if (records[i].outcome === "printed") return records[i].serial;
+  }
+  return null;
+}
+
+/** Per-line counters shown in the uplink panel. */
+export interface TntLineBridgeState {
+  /** Part from the last accepted CONFIG frame. */
+  part: string | null;
+  configuredAt: number | null;
+  printsOk: number;
+  printsFailed: number;
+  nacks: number;
+  lastSerial: string | null;
+  lastError: string | null;
+}
+
+export interface TntBridgeState {
+  running: boolean;
+  lines: Record<string, TntLineBridgeState>;
+}
+
+export const IDLE_TNT_LINE: TntLineBridgeState = {
+  part: null,
+  configuredAt: null,
+  printsOk: 0,
+  printsFailed: 0,
+  nacks: 0,
+  lastSerial: null,
+  lastError: null,
+};
+
+type Listener = (state: TntBridgeState) => void;
+
+/**
+ * What one line's frames drive. The active line uses the twin view's own
+ * dispatcher and catalog (and feeds faultGuard / profilerBus for the HUD);
+ * every other line gets a dispatcher and ledger of its own, bound by the
+ * bridge on CONFIG.
+ */
+interface LineContext {
+  lineId: string;
+  foreground: boolean;
+  dispatcher: TwinDispatcher;
+  catalog: Catalog;
+  printChain: Promise<void>;
+  bottleSeq: number;
+}
+
+/** Printers as saved by usePrinterStorage — background lines bind against them. */
+function savedPrinters(): Printer[] {
+  try {
+    const raw = persistentStorage.getItem("codesync-printers");
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+class TntBridge {
+  private state: TntBridgeState = { running: false, lines: {} };
+  private listeners = new Set<Listener>();
+  private offFrame: (() => void) | null = null;
+  private offPair: (() => void) | null = null;
+  private foreground: LineContext | null = null;
+  private background = new Map<string, LineContext>();
+
+  private api() {
+    return typeof window !== "undefined" ? window.electronAPI?.tnt : undefined;
+  }
+
+  /** Start consuming inbound frames. No-op outside Electron or when already running. */
+  start() {
+    const api = this.api();
+    if (!api || this.offFrame) return;
+    this.offFrame = api.onFrame((entry) => { void this.handleFrame(entry); });
+    // A line that becomes active is run by the twin view from now on —
+    // release its printers so the view can bind them.
+    this.offPair = twinPairStore.subscribe(() => {
+      const active = twinPairStore.getActiveLineId();
+      const ctx = this.background.get(active);
+      if (!ctx) return;
+      this.background.delete(active);
+      void ctx.dispatcher.unbind().catch(() => {});
+    });
+    this.set({ running: true });
+  }
+
+  stop() {
+    this.offFrame?.();
+    this.offFrame = null;
+    this.offPair?.();
+    this.offPair = null;
+    for (const ctx of this.background.values()) void ctx.dispatcher.unbind().catch(() => {});
+    this.background.clear();
+    this.set({ running: false });
+  }
+
+  isRunning() { return !!this.offFrame; }
+
+  getState(): TntBridgeState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  /** Exposed for tests and the dev panel — routes one decoded inbound frame. */
+  async handleFrame(entry: Pick<TntFrameEntry, "lineId" | "dir" | "opcode" | "json">): Promise<void> {
+    if (entry.dir !== "in") return;
+    const lineId = entry.lineId || DEFAULT_TNT_LINE_ID;
+    const pair = twinPairStore.getLine(lineId);
+    if (!pair.a || !pair.b) {
+      await this.nack(lineId, entry.opcode, "line-not-bound");
+      return;
+    }
+    const ctx = this.context(lineId);
+    switch (entry.opcode) {
+      case TNT_OPCODES.CONFIG:
+        await this.onConfig(ctx, entry.json);
+        return;
+      case TNT_OPCODES.PRINT:
+        // Chain so dispatches never overlap on the bonded sessions. A throw
+        // is answered here so the chain always resolves for the next PRINT.
+        ctx.printChain = ctx.printChain
+          .then(() => this.onPrint(ctx))
+          .catch((err) => {
+            console.error("[tnt-bridge] print failed:", err);
+            this.setLine(lineId, { printsFailed: this.line(lineId).printsFailed + 1 });
+            return this.nack(lineId, TNT_OPCODES.PRINT, "dispatch-failed");
+          });
+        await ctx.printChain;
+        return;
+      case TNT_OPCODES.REQUEST:
+        await this.onRequest(ctx);
+        return;
+      default:
+        await this.nack(lineId, entry.opcode, `unsupported opcode 0x${entry.opcode.toString(16).padStart(2, "0")}`);
+    }
+  }
+
+  private context(lineId: string): LineContext {
+    if (lineId === twinPairStore.getActiveLineId()) {
+      if (this.foreground?.lineId !== lineId) {
+        this.foreground = { lineId, foreground: true, dispatcher: twinDispatcher, catalog, printChain: Promise.resolve(), bottleSeq: 0 };
+      }
+      return this.foreground;
+    }
+    let ctx = this.background.get(lineId);
+    if (!ctx) {
+      ctx = {
+        lineId,
+        foreground: false,
+        dispatcher: new TwinDispatcher(),
+        catalog: new Catalog(`twincode.catalog.v1:${lineId}`),
+        printChain: Promise.resolve(),
+        bottleSeq: 0,
+      };
+      this.background.set(lineId, ctx);
+    }
+    return ctx;
+  }
+
+  private async onConfig(ctx: LineContext, json: unknown) {
+    const { lineId } = ctx;
+    const parsed = parseTntConfig(json);
+    if (parsed.ok === false) {
+      await this.nack(lineId, TNT_OPCODES.CONFIG, parsed.reason);
+      return;
+    }
+    const cfg = parsed.config;
+    let serials: string[];
+    try {
+      serials = cfg.serials ?? expandSerialRange(cfg.startSerial, cfg.qty);
+    } catch (err) {
+      await this.nack(lineId, TNT_OPCODES.CONFIG, `config: ${(err as Error).message}`);
+      return;
+    }
+
+    // Template → per-side message name. The dispatcher reads these on the
+    // next bind; a pair that is already bound keeps its current selection.
+    const pair = twinPairStore.getLine(lineId);
+    const nameA = cfg.templateA ?? cfg.template;
+    const nameB = cfg.templateB ?? cfg.template;
+    if (pair.a && nameA) twinPairStore.setBinding("a", { ...pair.a, messageName: nameA }, lineId);
+    if (pair.b && nameB) twinPairStore.setBinding("b", { ...pair.b, messageName: nameB }, lineId);
+
+    // Background lines have no operator to press LIVE — bind here, after the
+    // message names are in, and rebind when the template changes.
+    if (!ctx.foreground) {
+      if (ctx.dispatcher.isBound() && (nameA || nameB)) await ctx.dispatcher.unbind();
+      if (!ctx.dispatcher.isBound()) {
+        const res = await ctx.dispatcher.bind(twinPairStore.getLine(lineId), savedPrinters(), twinBindOptions(twinPairStore.getLine(lineId)));
+        if (!res.ok) {
+          await this.nack(lineId, TNT_OPCODES.CONFIG, `bind-failed: ${res.error}`);
+          return;
+        }
+      }
+    }
+
+    const { fingerprint } = ctx.catalog.load(serials);
+    ctx.bottleSeq = 0;
+    this.setLine(lineId, { part: cfg.part || null, configuredAt: Date.now(), lastError: null });
+    await this.ack(lineId, TNT_OPCODES.CONFIG, {
+      part: cfg.part,
+      qty: serials.length,
+      startSerial: serials[0],
+      endSerial: serials[serials.length - 1],
+      fingerprint,
+      rebindRequired: ctx.foreground && ctx.dispatcher.isBound() && !!(nameA || nameB),
+    });
+  }
+
+  private async onPrint(ctx: LineContext) {
+    const { lineId, dispatcher, catalog: ledger } = ctx;
+    if (!dispatcher.isBound()) {
+      await this.nack(lineId, TNT_OPCODES.PRINT, "not-bound");
+      return;
+    }
+    if (ctx.foreground && faultGuard.getSnapshot().active) {
+      await this.nack(lineId, TNT_OPCODES.PRINT, `fault-active:${faultGuard.getSnapshot().active.code}`);
+      return;
+    }
+    const serial = ledger.dispense();
+    const bottleIndex = ++ctx.bottleSeq;
+    if (serial === null) {
+      ledger.recordMissed(bottleIndex);
+      await this.nack(lineId, TNT_OPCODES.PRINT, "catalog-exhausted");
+      return;
+    }
+
+    const res = await dispatcher.dispatch(serial, { forceTrigger: true });
+    if (res.ok) {
+      try {
+        ledger.recordPrinted(serial, bottleIndex);
+      } catch (err) {
+        console.error("[tnt-bridge] duplicate-serial guard:", err);
+        ledger.recordMissed(bottleIndex);
+        this.setLine(lineId, { printsFailed: this.line(lineId).printsFailed + 1 });
+        await this.nack(lineId, TNT_OPCODES.PRINT, "duplicate-serial");
+        return;
+      }
+    } else {
+      ledger.recordMissed(bottleIndex);
+    }
+    const wireA = res.aMs ?? 0;
+    const wireB = res.bMs ?? 0;
+    const cycle = res.cycleMs ?? Math.max(wireA, wireB);
+    if (ctx.foreground) {
+      faultGuard.observeDispatch({
+        ok: res.ok,
+        reason: res.reason,
+        aReason: res.aReason,
+        bReason: res.bReason,
+        bottleIndex,
+      });
+      profilerBus.push({
+        serial: res.ok ? serial : null,
+        outcome: res.ok ? "printed" : "missed",
+        t0: 0, t1: 0, t2a: 0, t2b: 0, t3a: wireA, t3b: wireB, t4: cycle,
+        ingressMs: 0, dispatchMs: 0, wireAMs: wireA, wireBMs: wireB,
+        skewMs: res.skewMs ?? Math.abs(wireA - wireB), cycleMs: cycle,
+      });
+    }
+
+    if (res.ok) {
+      this.setLine(lineId, { printsOk: this.line(lineId).printsOk + 1, lastSerial: serial });
+      await this.ack(lineId, TNT_OPCODES.PRINT, {
+        serial,
+        cycleMs: Math.round(cycle),
+        remaining: ledger.getRemaining(),
+      });
+    } else {
+      this.setLine(lineId, { printsFailed: this.line(lineId).printsFailed + 1 });
+      await this.nack(lineId, TNT_OPCODES.PRINT, res.reason || "dispatch-failed", { serial });
+    }
+  }
+
+  private async onRequest(ctx: LineContext) {
+    const fg = ctx.foreground ? faultGuard.getSnapshot() : null;
+    const cs = ctx.catalog.getState();
+    await this.ack(ctx.lineId, TNT_OPCODES.REQUEST, {
+      lastSerial: lastPrintedSerial(ctx.catalog),
+      remaining: ctx.catalog.getRemaining(),
+      consumed: cs.consumedCount,
+      missed: cs.missCount,
+      bound: ctx.dispatcher.isBound(),
+      fault: fg?.active
+        ? { code: fg.active.code, side: fg.active.side, message: fg.active.message, at: fg.active.at }
+        : null,
+      consecutiveFailures: fg?.consecutiveFailures ?? 0,
+    });
+  }
+
+  private async ack(lineId: string, ref: number, extra: Record<string, unknown>) {
+    await this.send(lineId, TNT_OPCODES.ACK, { ref: opcodeName(ref), ...extra });
+  }
+
+  private async nack(lineId: string, ref: number, reason: string, extra?: Record<string, unknown>) {
+    this.setLine(lineId, { nacks: this.line(lineId).nacks + 1, lastError: reason });
+    await this.send(lineId, TNT_OPCODES.NACK, { ref: opcodeName(ref), reason, ...(extra || {}) });
+  }
+
+  private async send(lineId: string, opcode: number, payload: Record<string, unknown>) {
+    const api = this.api();
+    if (!api) return;
+    try {
+      const res = await api.send(lineId, opcode, payload);
+      if (!res?.success) this.setLine(lineId, { lastError: res?.error || "send-failed" });
+    } catch (err) {
+      this.setLine(lineId, { lastError: (err as Error).message });
+    }
+  }
+
+  private line(lineId: string): TntLineBridgeState {
+    return this.state.lines[lineId] ?? IDLE_TNT_LINE;
+  }
+
+  private setLine(lineId: string, patch: Partial<TntLineBridgeState>) {
+    this.set({ lines: { ...this.state.lines, [lineId]: { ...this.line(lineId), ...patch } } });
+  }
+
+  private set(patch: Partial<TntBridgeState>) {
+    this.state = { ...this.state, ...patch };
+    const s = this.state;
+    this.listeners.forEach((l) => l(s));
+  }
+}
+
+/** Line the twin view runs — its pair drives the HUD, faultGuard and STATUS reports. */
+export function activeTntLineId(): string {
+  return twinPairStore.getActiveLineId();
+}
+
+function opcodeName(op: number): string {
+  const hit = Object.entries(TNT_OPCODES).find(([, v]) => v === op);
+  return hit ? hit[0] : `0x${op.toString(16).padStart(2, "0")}`;
+}
+
+export const tntBridge = new TntBridge();
@@ -0,0 +1,285 @@
+/**
+ * Twin Code — Track-n-Trace Status/Fault reporter.
+ *
+ * Publishes outbound DJDACP2D-03 frames so the upstream MES sees the line
+ * without anyone watching the OperatorHUD:
+ *
+ *   STATUS (0x50) — periodic (default every 5s) AND on-change (run start/stop,
+ *                   fault trip/clear, TnT client connect). Carries the
+ *                   productionRun summary, catalog remaining, liveMetrics BPM
+ *                   and the active fault (if any).
+ *   FAULT  (0x60) — once per new faultGuard trip, plus a `cleared` frame when
+ *                   the operator acknowledges. Also emitted when the catalog
+ *                   runs dry mid-run.
+ *
+ * ## Fault category / sub-code mapping
+ *
+ * | FaultCode          | cat  | category  | sub  | meaning                               |
+ * |--------------------|------|-----------|------|---------------------------------------|
+ * | jet-stop           | 0x01 | printer   | 0x01 | JET STOP reported by either printer   |
+ * | disconnect         | 0x02 | link      | 0x01 | transport timeout / socket failure    |
+ * | partner-loop       | 0x03 | dispatch  | 0x01 | one side repeatedly aborts its partner|
+ * | miss-streak        | 0x03 | dispatch  | 0x02 | N consecutive miss-prints             |
+ * | high-miss-rate     | 0x03 | dispatch  | 0x03 | sliding-window miss rate over budget  |
+ * | catalog-exhausted  | 0x04 | supply    | 0x01 | no serials left while a run is active |
+ *
+ * The side is carried separately as `side` ("A" | "B" | "both" | "unknown")
+ * and as `sideCode` (1 = A, 2 = B, 3 = both, 0 = unknown) for MES systems
+ * that only key on integers.
+ *
+ * Like `tntBridge`, this runs in the renderer (where the stores live) and
+ * only sends while a TnT client is connected to the active line
+ * (`activeTntLineId()`) — the faultGuard, run and HUD state it reports
+ * belong to the pair the twin view runs.
+ */
+
+import { catalog } from "./catalog";
+import { faultGuard, type FaultCode, type FaultEvent, type FaultSide } from "./faultGuard";
+import { liveMetrics } from "./liveMetrics";
+import { productionRun } from "./productionRun";
+import { twinDispatcher } from "./twinDispatcher";
+import { twinPairStore } from "./twinPairStore";
+import { TNT_OPCODES, activeTntLineId } from "./tntBridge";
+
+export type TntFaultKey = FaultCode | "catalog-exhausted";
+
+export interface TntFaultMapping {
+  cat: number;
+  category: "printer" | "link" | "dispatch" | "supply";
+  sub: number;
+}
+
+export const TNT_FAULT_MAP: Record<TntFaultKey, TntFaultMapping> = {
+  "jet-stop":          { cat: 0x01, category: "printer",  sub: 0x01 },
+  "disconnect":        { cat: 0x02, category: "link",     sub: 0x01 },
+  "partner-loop":      { cat: 0x03, category: "dispatch", sub: 0x01 },
+  "miss-streak":       { cat: 0x03, category: "dispatch", sub: 0x02 },
+  "high-miss-rate":    { cat: 0x03, category: "dispatch", sub: 0x03 },
+  "catalog-exhausted": { cat: 0x04, category: "supply",   sub: 0x01 },
+};
+
+const SIDE_CODES: Record<FaultSide, number> = { unknown: 0, A: 1, B: 2, both: 3 };
+
+export const DEFAULT_STATUS_INTERVAL_MS = 5_000;
+/** Coalesce bursts of on-change triggers (e.g. run stop + fault clear). */
+const CHANGE_DEBOUNCE_MS = 250;
+
+export function buildFaultPayload(
+  key: TntFaultKey,
+  side: FaultSide,
+  extra: { message: string; at: number; lastBottleIndex?: number | null; cleared?: boolean },
+) {
+  const map = TNT_FAULT_MAP[key];
+  return {
+    cat: map.cat,
+    category: map.category,
+    sub: map.sub,
+    code: key,
+    side,
+    sideCode: SIDE_CODES[side],
+    message: extra.message,
+    at: new Date(extra.at).toISOString(),
+    lastBottleIndex: extra.lastBottleIndex ?? null,
+    cleared: !!extra.cleared,
+  };
+}
+
+export function buildStatusPayload(seq: number) {
+  const run = productionRun.getState().active;
+  const summary = productionRun.liveSummary();
+  const cs = catalog.getState();
+  const lm = liveMetrics.getSnapshot();
+  const fault = faultGuard.getSnapshot().active;
+  return {
+    seq,
+    at: new Date().toISOString(),
+    bound: twinDispatcher.isBound(),
+    run: run
+      ? {
+          id: run.id,
+          lot: run.lotNumber,
+          operator: run.operator,
+          startedAt: new Date(run.startedAt).toISOString(),
+          targetCount: run.targetCount ?? null,
+          printed: summary?.printed ?? 0,
+          missed: summary?.missed ?? 0,
+          yieldPct: summary ? Math.round(summary.yieldPct * 10) / 10 : 100,
+          elapsedSec: summary?.elapsedSec ?? 0,
+        }
+      : null,
+    catalog: {
+      total: cs.total,
+      remaining: catalog.getRemaining(),
+      consumed: cs.consumedCount,
+      missed: cs.missCount,
+    },
+    bpm: Math.round(lm.bpm * 10) / 10,
+    lineSpeedMmPerSec: Math.round(lm.lineSpeedMmPerSec),
+    fault: fault
+      ? { ...TNT_FAULT_MAP[fault.code], code: fault.code, side: fault.side, sideCode: SIDE_CODES[fault.side] }
+      : null,
+  };
+}
+
+export interface TntReporterState {
+  running: boolean;
+  intervalMs: number;
+  statusSent: number;
+  faultsSent: number;
+  lastStatusAt: number | null;
+}
+
+type Listener = (state: TntReporterState) => void;
+
+class TntReporter {
+  private state: TntReporterState = {
+    running: false,
+    intervalMs: DEFAULT_STATUS_INTERVAL_MS,
+    statusSent: 0,
+    faultsSent: 0,
+    lastStatusAt: null,
+  };
+  private listeners = new Set<Listener>();
+  private unsubs: Array<() => void> = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+  private connected = false;
+  private lineId: string | null = null;
+  private seq = 0;
+  private lastFault: FaultEvent | null = null;
+  private lastRunId: string | null = null;
+  private exhaustedReported = false;
+
+  private api() {
+    return typeof window !== "undefined" ? window.electronAPI?.tnt : undefined;
+  }
+
+  start(intervalMs = this.state.intervalMs) {
+    const api = this.api();
+    if (!api || this.state.running) return;
+    this.set({ running: true, intervalMs });
+    this.lastFault = faultGuard.getSnapshot().active;
+    this.lastRunId = productionRun.getState().active?.id ?? null;
+
+    this.lineId = activeTntLineId();
+    const refresh = () => {
+      api.getStates().then((states) => {
+        const s = states.find((x) => x.lineId === this.lineId);
+        this.onConnection(!!s?.connected);
+      }).catch(() => {});
+    };
+    refresh();
+    this.unsubs.push(api.onState((s) => {
+      if (s.lineId === this.lineId) this.onConnection(!!s.connected);
+    }));
+    // Pair re-pointed at another line: drop the old connection state and
+    // treat the new line's client (if any) as freshly connected.
+    this.unsubs.push(twinPairStore.subscribe(() => {
+      const next = activeTntLineId();
+      if (next === this.lineId) return;
+      this.lineId = next;
+      this.connected = false;
+      refresh();
+    }));
+    this.unsubs.push(faultGuard.subscribe((snap) => this.onFault(snap.active)));
+    this.unsubs.push(productionRun.subscribe((s) => {
+      const id = s.active?.id ?? null;
+      if (id === this.lastRunId) return;
+      this.lastRunId = id;
+      this.exhaustedReported = false;
+      this.scheduleChange();
+    }));
+    this.unsubs.push(catalog.subscribe((cs) => this.onCatalog(cs.total)));
+    this.timer = setInterval(() => this.sendStatus(), intervalMs);
+  }
+
+  stop() {
+    this.unsubs.forEach((u) => u());
+    this.unsubs = [];
+    if (this.timer) { clearInterval(this.timer); this.timer = null; }
+    if (this.changeTimer) { clearTimeout(this.changeTimer); this.changeTimer = null; }
+    this.connected = false;
+    this.set({ running: false });
+  }
+
+  getState(): TntReporterState { return this.state; }
+
+  subscribe(fn: Listener): () => void {
+    this.listeners.add(fn);
+    fn(this.state);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  private onConnection(connected: boolean) {
+    const wasConnected = this.connected;
+    this.connected = connected;
+    if (!connected || wasConnected) return;
+    // Fresh client: give it the full picture immediately.
+    this.sendStatus();
+    const active = faultGuard.getSnapshot().active;
+    if (active) this.sendFault(active.code, active.side, active);
+  }
+
+  private onFault(active: FaultEvent | null) {
+    const prev = this.lastFault;
+    if (active === prev) return;
+    this.lastFault = active;
+    if (active) {
+      this.sendFault(active.code, active.side, active);
+    } else if (prev) {
+      this.sendFault(prev.code, prev.side, { message: "acknowledged", at: Date.now(), lastBottleIndex: prev.lastBottleIndex }, true);
+    }
+    this.scheduleChange();
+  }
+
+  private onCatalog(total: number) {
+    if (!productionRun.getState().active || total === 0) return;
+    const empty = catalog.getRemaining() === 0;
+    if (empty && !this.exhaustedReported) {
+      this.exhaustedReported = true;
+      this.sendFault("catalog-exhausted", "unknown", { message: "Catalog exhausted — no serials left for the active run.", at: Date.now() });
+      this.scheduleChange();
+    } else if (!empty) {
+      this.exhaustedReported = false;
+    }
+  }
+
+  private scheduleChange() {
+    if (this.changeTimer) return;
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      this.sendStatus();
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  private sendStatus() {
+    if (!this.connected) return;
+    const api = this.api();
+    if (!api) return;
+    api.send(this.lineId, TNT_OPCODES.STATUS, buildStatusPayload(++this.seq)).then((res) => {
+      if (res?.success) this.set({ statusSent: this.state.statusSent + 1, lastStatusAt: Date.now() });
+    }).catch(() => { /* next tick retries */ });
+  }
+
+  private sendFault(
+    key: TntFaultKey,
+    side: FaultSide,
+    ev: { message: string; at: number; lastBottleIndex?: number | null },
+    cleared = false,
+  ) {
+    if (!this.connected) return;
+    const api = this.api();
+    if (!api) return;
+    api.send(this.lineId, TNT_OPCODES.FAULT, buildFaultPayload(key, side, { ...ev, cleared })).then((res) => {
+      if (res?.success) this.set({ faultsSent: this.state.faultsSent + 1 });
+    }).catch(() => { /* MES sees it in the next STATUS */ });
+  }
+
+  private set(patch: Partial<TntReporterState>) {
+    this.state = { ...this.state, ...patch };
+    const s = this.state;
+    this.listeners.forEach((l) => l(s));
+  }
+}
+
+export const tntReporter = new TntReporter();
@@ -11,7 +11,7 @@
  *     → resolve when BOTH printers report C
  *
  * Lifecycle:
- *   - bind(pair, printers) → resolves twinPairStore IPs to printer IDs,
+ *   - bind(pair, printers) → resolves twinPairStore IPs / serial ports to printer IDs,
  *     enters 1-1 on both, returns a dispatcher fn
  *   - unbind() → exits 1-1 on both, restores polling
  *
@@ -26,7 +26,7 @@ import { setPollingPaused, isPollingPaused, waitForPollingIdle } from '@/lib/pol
 import { printerTransport } from '@/lib/printerTransport';
 import { multiPrinterEmulator } from '@/lib/multiPrinterEmulator';
 import type { Printer } from '@/types/printer';
-import type { TwinPairState } from '@/twin-code/twinPairStore';
+import { bindingMatches, type TwinPairState } from '@/twin-code/twinPairStore';
 import { buildAutoCodeSeed, buildSeedCommands, seedForSide, LOADING_SEED, LOADING_MESSAGE_NAME, type MessageSeed } from '@/twin-code/messageSeeds';
 import { catalog as catalogModule } from '@/twin-code/catalog';
 import { profilerBus as profilerBusModule } from '@/twin-code/profilerBus';
@@ -1166,6 +1166,22 @@ export interface TwinDispatcherOptions {
   autoCodeOpts?: TwinPairState['autoCodeOpts'];
 }
 
+/** Bind options from the per-side dispatch config saved on a pair. */
+export function twinBindOptions(pair: TwinPairState): TwinDispatcherOptions {
+  return {
+    messageNameA: pair.a?.messageName,
+    messageNameB: pair.b?.messageName,
+    fieldA: pair.a?.fieldIndex,
+    fieldB: pair.b?.fieldIndex,
+    subcommandA: pair.a?.subcommand,
+    subcommandB: pair.b?.subcommand,
+    autoCreateA: pair.a?.autoCreate ?? true,
+    autoCreateB: pair.b?.autoCreate ?? true,
+    autoCodeMode: !!pair.autoCodeMode,
+    autoCodeOpts: pair.autoCodeOpts,
+  };
+}
+
 export async function seedTwinPairMessages(
   pair: TwinPairState,
   knownPrinters: Printer[],
@@ -1192,10 +1208,8 @@ export async function seedTwinPairMessages(
   type SeedResult = { ok: boolean; error?: string; seeded?: boolean };
   if (!pair.a || !pair.b) return { ok: false, error: 'Twin pair not configured' };
 
-  const findPrinter = (ip: string, port: number) =>
-    knownPrinters.find(p => p.ipAddress === ip && p.port === port);
-  const printerA = findPrinter(pair.a.ip, pair.a.port);
-  const printerB = findPrinter(pair.b.ip, pair.b.port);
+  const printerA = knownPrinters.find(p => bindingMatches(pair.a, p));
+  const printerB = knownPrinters.find(p => bindingMatches(pair.b, p));
   if (!printerA) return { ok: false, error: `Printer A (${pair.a.ip}) not found in printer list` };
   if (!printerB) return { ok: false, error: `Printer B (${pair.b.ip}) not found in printer list` };
 
@@ -1284,7 +1298,7 @@ export async function seedTwinPairMessages(
   }
 }
 
-class TwinDispatcher {
+export class TwinDispatcher {
   private a: PrinterSession | null = null;
   private b: PrinterSession | null = null;
   private wasPollingPaused = false;
@@ -1639,11 +1653,8 @@ class TwinDispatcher {
     if (this.isBound()) return { ok: false, error: 'Already bound' };
     if (!pair.a || !pair.b) return { ok: false, error: 'Twin pair not configured' };
 
-    const findId = (ip: string, port: number) =>
-      knownPrinters.find(p => p.ipAddress === ip && p.port === port)?.id;
-
-    const aId = findId(pair.a.ip, pair.a.port);
-    const bId = findId(pair.b.ip, pair.b.port);
+    const aId = knownPrinters.find(p => bindingMatches(pair.a, p))?.id;
+    const bId = knownPrinters.find(p => bindingMatches(pair.b, p))?.id;
     if (aId == null) return { ok: false, error: `Printer A (${pair.a.ip}) not found in printer list` };
     if (bId == null) return { ok: false, error: `Printer B (${pair.b.ip}) not found in printer list` };
     if (aId === bId) return { ok: false, error: 'A and B resolve to the same printer' };
@@ -1,30 +1,41 @@
 /**
  * Twin Code — Twin Pair binding store.
  *
- * Holds the IP/port (and friendly name) of the two printers that form a
- * bonded "twin pair":
+ * Holds the IP/port or serial port (and friendly name) of the two printers
+ * that form a bonded "twin pair":
  *   - A = lid printer (Data Matrix 16×16, prints down onto bottle cap)
  *   - B = side printer (text, human-readable serial onto bottle wall)
  *
- * Persisted to localStorage so the binding survives reload. Phase 1b will
+ * Persisted (src/lib/persistence.ts) so the binding survives reload. Phase 1b will
  * read from this store to drive real ^FD writes; Phase 1a only uses it to
  * label the simulator and prove the wiring.
  *
- * Future (deferred): serial-port binding (USB/RS-232). For now IP-only.
+ * A side may be bound over RS-232 / USB-serial (`kind: "serial"`) instead of
+ * TCP; Electron main drives both the same way (electron/serialTransport.cjs).
+ *
+ * Multi-line: one pair per Track-n-Trace line, keyed by the line registry id
+ * (see electron/main.cjs). The twin view edits and runs the *active* line —
+ * `getState()`, the setters and `useTwinPair()` all act on it — while
+ * `tntBridge` drives every other line's pair from its own TnT listener.
  */
 import { useSyncExternalStore } from "react";
+import { persistentStorage } from "@/lib/persistence";
 
-export type BindKind = "ip" | "serial"; // serial reserved for future
+export type BindKind = "ip" | "serial";
 export type DispatchSubcommand = "BD" | "TD";
 
 export interface TwinPrinterBinding {
   kind: BindKind;
   /** Friendly label, e.g. "Lid printer · Lane 1". */
   name: string;
-  /** IP address (when kind === "ip"). */
+  /** IP address (when kind === "ip"); mirrors `serialPath` for serial bindings. */
   ip: string;
-  /** TCP port (when kind === "ip"); BestCode default 23. */
+  /** TCP port (when kind === "ip"); BestCode default 23. 0 for serial bindings. */
   port: number;
+  /** COM / tty path (when kind === "serial"), e.g. "COM3" or "/dev/ttyUSB0". */
+  serialPath?: string;
+  /** Line speed (when kind === "serial"); BestCode default 9600. */
+  baudRate?: number;
   /**
    * Per-side dispatch config — what message to ^SM-select on bind, which field
    * index inside that message receives the serial, and which ^MD subcommand
@@ -83,17 +94,30 @@ export interface TwinPairState {
   };
 }
 
+export interface TwinLinesState {
+  /** Line the twin view edits and runs. */
+  activeLineId: string;
+  /** Pair per TnT line registry id. */
+  lines: Record<string, TwinPairState>;
+}
+
+export const DEFAULT_TNT_LINE_ID = "line-1";
+
 const STORAGE_KEY = "twin-code:pair-binding:v1";
 const EMPTY: TwinPairState = { a: null, b: null, boundAt: null };
 
 function migrateBinding(b: any): TwinPrinterBinding | null {
   if (!b || typeof b !== "object") return null;
-  if (typeof b.ip !== "string" || typeof b.port !== "number") return null;
+  const serial = b.kind === "serial" && typeof b.serialPath === "string" && b.serialPath.trim() !== "";
+  if (!serial && (typeof b.ip !== "string" || typeof b.port !== "number")) return null;
   return {
-    kind: b.kind === "serial" ? "serial" : "ip",
+    kind: serial ? "serial" : "ip",
     name: typeof b.name === "string" ? b.name : "",
-    ip: b.ip,
-    port: b.port,
+    ip: serial ? b.serialPath.trim() : b.ip,
+    port: serial ? 0 : b.port,
+    ...(serial
+      ? { serialPath: b.serialPath.trim(), baudRate: Number.isInteger(b.baudRate) && b.baudRate > 0 ? b.baudRate : 9600 }
+      : {}),
     messageName: typeof b.messageName === "string" && b.messageName.trim() ? b.messageName.trim() : undefined,
     fieldIndex: Number.isInteger(b.fieldIndex) && b.fieldIndex > 0 ? b.fieldIndex : undefined,
     subcommand: b.subcommand === "BD" || b.subcommand === "TD" ? b.subcommand : undefined,
@@ -102,38 +126,61 @@ function migrateBinding(b: any): TwinPrinterBinding | null {
   };
 }
 
-function read(): TwinPairState {
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- raw JSON from storage
+function readPair(parsed: any): TwinPairState {
+  if (!parsed || typeof parsed !== "object") return EMPTY;
+  const slot = parsed?.autoCodeOpts?.counterSlot;
+  const slotNum = (slot === 1 || slot === 2 || slot === 3 || slot === 4) ? slot : undefined;
+  return {
+    a: migrateBinding(parsed.a),
+    b: migrateBinding(parsed.b),
+    boundAt: parsed.boundAt ?? null,
+    autoCodeMode: parsed.autoCodeMode === true,
+    autoCodeOpts: parsed.autoCodeOpts && slotNum
+      ? {
+          line: typeof parsed.autoCodeOpts.line === "string" ? parsed.autoCodeOpts.line : "27",
+          unit: typeof parsed.autoCodeOpts.unit === "string" ? parsed.autoCodeOpts.unit : "U",
+          counterSlot: slotNum,
+          counterStart: Number.isFinite(parsed.autoCodeOpts.counterStart) && parsed.autoCodeOpts.counterStart >= 0
+            ? Math.floor(parsed.autoCodeOpts.counterStart)
+            : undefined,
+          yearMap: parsed.autoCodeOpts.yearMap && typeof parsed.autoCodeOpts.yearMap === "object"
+            ? parsed.autoCodeOpts.yearMap
+            : undefined,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * v2 is `{ activeLineId, lines: { [lineId]: pair } }`. The single-pair shape
+ * that preceded it becomes the pair of the line it answered to (`tntLineId`,
+ * default line-1).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- raw JSON from storage
+export function parseTwinLines(parsed: any): TwinLinesState {
+  if (parsed && typeof parsed === "object" && parsed.lines && typeof parsed.lines === "object") {
+    const lines: Record<string, TwinPairState> = {};
+    for (const [id, pair] of Object.entries(parsed.lines)) {
+      if (id) lines[id] = readPair(pair);
+    }
+    const activeLineId = typeof parsed.activeLineId === "string" && parsed.activeLineId ? parsed.activeLineId : DEFAULT_TNT_LINE_ID;
+    return { activeLineId, lines };
+  }
+  const lineId = typeof parsed?.tntLineId === "string" && parsed.tntLineId ? parsed.tntLineId : DEFAULT_TNT_LINE_ID;
+  return { activeLineId: lineId, lines: parsed ? { [lineId]: readPair(parsed) } : {} };
+}
+
+function read(): TwinLinesState {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return EMPTY;
-    const parsed = JSON.parse(raw);
-    const slot = parsed?.autoCodeOpts?.counterSlot;
-    const slotNum = (slot === 1 || slot === 2 || slot === 3 || slot === 4) ? slot : undefined;
-    return {
-      a: migrateBinding(parsed.a),
-      b: migrateBinding(parsed.b),
-      boundAt: parsed.boundAt ?? null,
-      autoCodeMode: parsed.autoCodeMode === true,
-      autoCodeOpts: parsed.autoCodeOpts && slotNum
-        ? {
-            line: typeof parsed.autoCodeOpts.line === "string" ? parsed.autoCodeOpts.line : "27",
-            unit: typeof parsed.autoCodeOpts.unit === "string" ? parsed.autoCodeOpts.unit : "U",
-            counterSlot: slotNum,
-            counterStart: Number.isFinite(parsed.autoCodeOpts.counterStart) && parsed.autoCodeOpts.counterStart >= 0
-              ? Math.floor(parsed.autoCodeOpts.counterStart)
-              : undefined,
-            yearMap: parsed.autoCodeOpts.yearMap && typeof parsed.autoCodeOpts.yearMap === "object"
-              ? parsed.autoCodeOpts.yearMap
-              : undefined,
-          }
-        : undefined,
-    };
+    const raw = persistentStorage.getItem(STORAGE_KEY);
+    return parseTwinLines(raw ? JSON.parse(raw) : null);
   } catch {
-    return EMPTY;
+    return parseTwinLines(null);
   }
 }
 
-let state: TwinPairState = read();
+let state: TwinLinesState = read();
 const listeners = new Set<() => void>();
 
 function emit() {
@@ -142,39 +189,54 @@ function emit() {
 
 function persist() {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    persistentStorage.setItem(STORAGE_KEY, JSON.stringify(state));
   } catch {
     /* ignore quota */
   }
 }
 
+function update(lineId: string, patch: (pair: TwinPairState) => TwinPairState) {
+  state = { ...state, lines: { ...state.lines, [lineId]: patch(state.lines[lineId] ?? EMPTY) } };
+  persist();
+  emit();
+}
+
 export const twinPairStore = {
+  /** The active line's pair. */
   getState(): TwinPairState {
+    return state.lines[state.activeLineId] ?? EMPTY;
+  },
+  getLines(): TwinLinesState {
     return state;
   },
-  setBinding(slot: "a" | "b", binding: TwinPrinterBinding | null) {
-    state = { ...state, [slot]: binding };
+  getActiveLineId(): string {
+    return state.activeLineId;
+  },
+  getLine(lineId: string): TwinPairState {
+    return state.lines[lineId] ?? EMPTY;
+  },
+  /** Switch the line the twin view edits and runs. Unbind the dispatcher first. */
+  setActiveLine(lineId: string) {
+    if (!lineId || lineId === state.activeLineId) return;
+    state = { ...state, activeLineId: lineId };
     persist();
     emit();
   },
+  setBinding(slot: "a" | "b", binding: TwinPrinterBinding | null, lineId = state.activeLineId) {
+    update(lineId, (pair) => ({ ...pair, [slot]: binding }));
+  },
   setPair(a: TwinPrinterBinding | null, b: TwinPrinterBinding | null) {
-    state = { ...state, a, b, boundAt: a && b ? new Date().toISOString() : state.boundAt };
-    persist();
-    emit();
+    update(state.activeLineId, (pair) => ({ ...pair, a, b, boundAt: a && b ? new Date().toISOString() : pair.boundAt }));
   },
   /**
    * Persist (or clear) the auto-code mode + opts. Pass `mode=false` to flip
    * the pair back to catalog/CSV mode without touching the IP bindings.
    */
   setAutoCode(mode: boolean, opts?: TwinPairState["autoCodeOpts"]) {
-    state = { ...state, autoCodeMode: mode, autoCodeOpts: mode ? opts : undefined };
-    persist();
-    emit();
+    update(state.activeLineId, (pair) => ({ ...pair, autoCodeMode: mode, autoCodeOpts: mode ? opts : undefined }));
   },
   clear() {
-    state = EMPTY;
-    persist();
-    emit();
+    update(state.activeLineId, () => EMPTY);
   },
   subscribe(fn: () => void): () => void {
     listeners.add(fn);
@@ -182,6 +244,26 @@ export const twinPairStore = {
   },
 };
 
+/** Whether a binding points at this printer address (IP:port or serial path). */
+export function bindingMatches(
+  binding: TwinPrinterBinding | null,
+  printer: { ipAddress: string; port: number; serialPath?: string | null },
+): boolean {
+  if (!binding) return false;
+  if (binding.kind === "serial") return !!printer.serialPath && binding.serialPath === printer.serialPath;
+  return !printer.serialPath && binding.ip === printer.ipAddress && binding.port === printer.port;
+}
+
+/** "192.168.1.50:23" or "COM3 @ 9600" for status lines. */
+export function bindingAddressLabel(binding: TwinPrinterBinding): string {
+  return binding.kind === "serial" ? `${binding.serialPath} @ ${binding.baudRate ?? 9600}` : `${binding.ip}:${binding.port}`;
+}
+
 export function useTwinPair(): TwinPairState {
   return useSyncExternalStore(twinPairStore.subscribe, twinPairStore.getState, twinPairStore.getState);
 }
+
+/** Every line's pair plus the active line id. */
+export function useTwinLines(): TwinLinesState {
+  return useSyncExternalStore(twinPairStore.subscribe, twinPairStore.getLines, twinPairStore.getLines);
+}
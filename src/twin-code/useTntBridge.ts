@@ -0,0 +1,8 @@
+import { useEffect, useState } from "react";
+import { tntBridge, type TntBridgeState } from "./tntBridge";
+
+export function useTntBridge(): TntBridgeState {
+  const [state, setState] = useState<TntBridgeState>(() => tntBridge.getState());
+  useEffect(() => tntBridge.subscribe(setState), []);
+  return state;
+}
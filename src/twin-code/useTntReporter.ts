@@ -0,0 +1,8 @@
+import { useEffect, useState } from "react";
+import { tntReporter, type TntReporterState } from "./tntReporter";
+
+export function useTntReporter(): TntReporterState {
+  const [state, setState] = useState<TntReporterState>(() => tntReporter.getState());
+  useEffect(() => tntReporter.subscribe(setState), []);
+  return state;
+}
@@ -1,61 +1,77 @@
 /**
- * useTntUplink — React hook exposing TnT TCP endpoint state.
+ * useTntUplink — React hook exposing the TnT line registry.
  *
- * Phase 1 responsibility is limited to: reading state, subscribing to frame
- * events, and updating enable/port config. Frame → dispatcher wiring lives
- * in Phase 2.
+ * One TCP listener per twin line (see electron/main.cjs line registry). This
+ * hook reads every line's state, keeps it live from `tnt:state` events, and
+ * edits the registry config (add/remove line, enable, port, name). Frame →
+ * dispatcher wiring (Phase 2) lives in `tntBridge.ts`.
  */
 import { useEffect, useState, useCallback } from 'react';
-import type { TntState, TntConfig, TntFrameEntry } from '@/types/electron';
-
-const EMPTY: TntState = {
-  listening: false,
-  port: 8101,
-  connected: false,
-  peer: null,
-  framesIn: 0,
-  framesOut: 0,
-  lastFrameAt: null,
-  lastError: null,
-  recent: [],
-};
+import type { TntState, TntConfig, TntLineConfig } from '@/types/electron';
+
+const DEFAULT_BASE_PORT = 8101;
 
 export function useTntUplink() {
   const api = typeof window !== 'undefined' ? window.electronAPI?.tnt : undefined;
-  const [state, setState] = useState<TntState>(EMPTY);
-  const [config, setConfigState] = useState<TntConfig>({ enabled: false, port: 8101 });
+  const [lines, setLines] = useState<TntState[]>([]);
+  const [config, setConfigState] = useState<TntConfig>({ lines: [] });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (!api) { setLoading(false); return; }
     let cancelled = false;
     (async () => {
-      const [s, c] = await Promise.all([api.getState(), api.getConfig()]);
+      const [s, c] = await Promise.all([api.getStates(), api.getConfig()]);
       if (cancelled) return;
-      setState(s);
+      setLines(s);
       setConfigState(c);
       setLoading(false);
     })();
-    const offState = api.onState((s) => setState(s));
-    const offFrame = api.onFrame((entry: TntFrameEntry) => {
-      // state event follows every frame; keep this as a hook for callers who
-      // just want to react to frames without diffing state.recent.
-      void entry;
+    const offState = api.onState((s) => {
+      setLines((prev) => {
+        const idx = prev.findIndex((l) => l.lineId === s.lineId);
+        if (idx < 0) return [...prev, s];
+        const next = prev.slice();
+        next[idx] = s;
+        return next;
+      });
     });
-    return () => { cancelled = true; offState?.(); offFrame?.(); };
+    return () => { cancelled = true; offState?.(); };
   }, [api]);
 
   const setConfig = useCallback(async (next: TntConfig) => {
     if (!api) return;
     const res = await api.setConfig(next);
     if (res?.config) setConfigState(res.config);
+    // Stopped lines emit a final state event; removed/never-started lines
+    // don't, so re-read the full list to keep the panel in step.
+    setLines(await api.getStates());
   }, [api]);
 
+  const updateLine = useCallback((id: string, patch: Partial<Omit<TntLineConfig, 'id'>>) => {
+    return setConfig({ lines: config.lines.map((l) => (l.id === id ? { ...l, ...patch } : l)) });
+  }, [config, setConfig]);
+
+  const addLine = useCallback(() => {
+    const used = new Set(config.lines.map((l) => l.id));
+    let n = config.lines.length + 1;
+    while (used.has(`line-${n}`)) n++;
+    const port = Math.max(DEFAULT_BASE_PORT - 1, ...config.lines.map((l) => l.port)) + 1;
+    return setConfig({ lines: [...config.lines, { id: `line-${n}`, name: `Line ${n}`, enabled: false, port }] });
+  }, [config, setConfig]);
+
+  const removeLine = useCallback((id: string) => {
+    return setConfig({ lines: config.lines.filter((l) => l.id !== id) });
+  }, [config, setConfig]);
+
   return {
     supported: !!api,
     loading,
-    state,
+    lines,
     config,
     setConfig,
+    updateLine,
+    addLine,
+    removeLine,
   };
 }
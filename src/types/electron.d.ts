@@ -1,5 +1,17 @@
+/**
+ * Connection details main needs to reach a printer. With `serialPath` set the
+ * link is RS-232 / USB-serial at `baudRate` and ipAddress/port are ignored.
+ */
+export interface PrinterEndpoint {
+  id: number;
+  ipAddress: string;
+  port: number;
+  serialPath?: string | null;
+  baudRate?: number;
+}
+
 interface PrinterAPI {
-  checkStatus: (printers: { id: number; ipAddress: string; port: number }[]) => Promise<{
+  checkStatus: (printers: PrinterEndpoint[]) => Promise<{
     id: number;
     isAvailable: boolean;
     status: 'ready' | 'not_ready' | 'error' | 'offline';
@@ -7,17 +19,52 @@ interface PrinterAPI {
     error?: string;
   }[]>;
   // Register printer connection details without opening a TCP socket.
-  setMeta: (printer: { id: number; ipAddress: string; port: number }) => Promise<{ success: boolean }>;
-  connect: (printer: { id: number; ipAddress: string; port: number }) => Promise<{ success: boolean; reused?: boolean; error?: string }>;
+  setMeta: (printer: PrinterEndpoint) => Promise<{ success: boolean }>;
+  connect: (printer: PrinterEndpoint) => Promise<{ success: boolean; reused?: boolean; error?: string }>;
   disconnect: (printerId: number) => Promise<{ success: boolean }>;
   sendCommand: (printerId: number, command: string, options?: { maxWaitMs?: number; idleAfterDataMs?: number }) => Promise<{ success: boolean; response?: string; error?: string }>;
 }
 
+export interface RelayInfo {
+  port: number;
+  ips: string[];
+  requireAuth: boolean;
+  tls: boolean;
+  /** SHA-1 fingerprint of the self-signed certificate while serving HTTPS. */
+  fingerprint: string | null;
+}
+
+/** A paired mobile device as listed to the renderer (secret never included). */
+export interface RelayDevice {
+  id: string;
+  name: string;
+  pairedAt: string;
+  lastSeen: string | null;
+  remote: string;
+  /** Mutating opcodes (e.g. "SJ", "DM") this device may send. */
+  allowedCommands: string[];
+}
+
+export interface RelayAuthState {
+  requireAuth: boolean;
+  tls: boolean;
+  devices: RelayDevice[];
+  pairing: { code: string; expiresAt: number } | null;
+}
+
 interface RelayAPI {
-  getInfo: () => Promise<{ port: number; ips: string[] }>;
+  getInfo: () => Promise<RelayInfo>;
+  getAuth: () => Promise<RelayAuthState>;
+  createPairingCode: () => Promise<{ code: string; expiresAt: number }>;
+  revokeDevice: (deviceId: string) => Promise<{ success: boolean; devices: RelayDevice[] }>;
+  setDeviceAllowlist: (deviceId: string, commands: string[]) => Promise<{ success: boolean; devices: RelayDevice[] }>;
+  setSettings: (patch: Partial<{ requireAuth: boolean; tls: boolean }>) => Promise<{ requireAuth: boolean; tls: boolean }>;
+  onDevicesChanged: (callback: (devices: RelayDevice[]) => void) => () => void;
 }
 
 export interface TntFrameEntry {
+  /** Line registry id of the TntServer that saw this frame. */
+  lineId: string;
   dir: 'in' | 'out';
   opcode: number;
   name: string;
@@ -27,6 +74,10 @@ export interface TntFrameEntry {
 }
 
 export interface TntState {
+  lineId: string;
+  name: string;
+  /** Audit log file name inside userData; null while the line is stopped. */
+  logFile: string | null;
   listening: boolean;
   port: number;
   connected: boolean;
@@ -38,16 +89,23 @@ export interface TntState {
   recent: TntFrameEntry[];
 }
 
-export interface TntConfig {
+export interface TntLineConfig {
+  id: string;
+  name: string;
   enabled: boolean;
   port: number;
 }
 
+export interface TntConfig {
+  lines: TntLineConfig[];
+}
+
 interface TntAPI {
-  getState: () => Promise<TntState>;
+  /** One state per configured line, in config order. */
+  getStates: () => Promise<TntState[]>;
   getConfig: () => Promise<TntConfig>;
   setConfig: (cfg: TntConfig) => Promise<{ success: boolean; config: TntConfig }>;
-  send: (opcode: number, payload: unknown) => Promise<{ success: boolean; error?: string }>;
+  send: (lineId: string, opcode: number, payload: unknown) => Promise<{ success: boolean; error?: string }>;
   onFrame: (cb: (entry: TntFrameEntry) => void) => () => void;
   onState: (cb: (state: TntState) => void) => () => void;
 }
@@ -82,10 +140,343 @@ interface OneToOneAPI {
   onAck: (callback: (payload: OneToOneAckPayload) => void) => () => void;
 }
 
+export interface SerialPortInfo {
+  path: string;
+  label: string;
+  /** Pseudo-serial endpoint served by the renderer's printer emulator. */
+  emulated: boolean;
+}
+
+interface SerialAPI {
+  listPorts: () => Promise<{ available: boolean; ports: SerialPortInfo[]; error: string | null }>;
+  registerEmulatorPorts: (entries: { path: string; label: string }[]) => void;
+  sendEmulatorData: (path: string, data: string) => void;
+  onEmulatorWrite: (callback: (payload: { path: string; data: string }) => void) => () => void;
+}
+
+/**
+ * Payload on `hotfolder:new-file` — a parsed hotfolder file or a database
+ * batch. Either way `batchId` is acknowledged back through the API that
+ * matches `source` once the rows are stored.
+ */
+export interface IntegrationFilePayload {
+  source: 'hotfolder' | 'database';
+  batchId: string;
+  fileName: string;
+  /** `append` adds to the data source named `sourceName` instead of creating one. */
+  mode: 'create' | 'append';
+  sourceName: string;
+  columns: string[];
+  rows: Record<string, string>[];
+  /** Hotfolder files: the parser that read it. */
+  format?: 'csv' | 'tsv' | 'json' | 'xml';
+  /** Database batches: the polled table. */
+  table?: string;
+}
+
+/** Result the renderer reports for a delivered file or batch. */
+export interface IntegrationAck {
+  /** Leading rows stored. */
+  imported: number;
+  error?: string;
+}
+
+export interface HotfolderConfig {
+  enabled: boolean;
+  path: string;
+  pollingSeconds: number;
+  /** A file must keep the same size and mtime this long before it is read. */
+  stableMs: number;
+  /** Move files into processedDir / errorDir after handling. */
+  archive: boolean;
+  processedDir: string;
+  errorDir: string;
+  /** Append every file to this data source; blank = one source per file. */
+  sourceName: string;
+}
+
+export interface HotfolderStatus {
+  enabled: boolean;
+  running: boolean;
+  path: string;
+  lastScanAt: number | null;
+  folderError: string | null;
+  lastError: string | null;
+  filesImported: number;
+  filesFailed: number;
+  /** Files seen but not yet stable. */
+  waiting: string[];
+  pendingFiles: number;
+  recent: { at: string; fileName: string; status: 'imported' | 'error' | 'duplicate'; rows?: number; error?: string }[];
+}
+
+interface HotfolderAPI {
+  configure: (config: Partial<HotfolderConfig>) => Promise<{ success: boolean; config: HotfolderConfig }>;
+  getConfig: () => Promise<HotfolderConfig>;
+  getStatus: () => Promise<HotfolderStatus>;
+  /** Forget processed files so identical re-drops import again. */
+  clearProcessed: () => Promise<{ success: boolean }>;
+  ack: (batchId: string, result: IntegrationAck) => Promise<{ success: boolean; error?: string }>;
+  onStatus: (cb: (status: HotfolderStatus) => void) => () => void;
+}
+
+export type DbDriver = 'mysql' | 'postgres' | 'sqlite';
+
+export interface DbIntegrationConfig {
+  enabled: boolean;
+  driver: DbDriver;
+  host: string;
+  port: number;
+  database: string;
+  /** SQLite database file. */
+  file: string;
+  user: string;
+  /** Write-only: omit to keep the stored password. */
+  password?: string;
+  table: string;
+  watermarkColumn: string;
+  keyColumn: string;
+  ackColumn: string;
+  ackValue: string;
+  sourceName: string;
+  pollingSeconds: number;
+  batchSize: number;
+}
+
+export interface DbIntegrationStatus {
+  enabled: boolean;
+  running: boolean;
+  driver: DbDriver;
+  table: string;
+  sourceName: string;
+  watermark: string | number | null;
+  pendingRows: number;
+  lastPollAt: number | null;
+  lastImportAt: number | null;
+  lastError: string | null;
+  rowsImported: number;
+  rowsAcknowledged: number;
+  drivers: Record<DbDriver, boolean>;
+}
+
+interface DbAPI {
+  getConfig: () => Promise<Omit<DbIntegrationConfig, 'password'> & { hasPassword: boolean }>;
+  getStatus: () => Promise<DbIntegrationStatus>;
+  configure: (config: Partial<DbIntegrationConfig>) => Promise<{ success: boolean; error?: string }>;
+  testConnection: (config: Partial<DbIntegrationConfig>) => Promise<{
+    success: boolean;
+    error?: string;
+    columns?: string[];
+    latestWatermark?: string | number | null;
+  }>;
+  pollNow: () => Promise<{ rows: number }>;
+  setWatermark: (value: string | number | null) => Promise<DbIntegrationStatus>;
+  /** `imported` leading rows of the batch were stored; the rest are re-read. */
+  ack: (batchId: string, result: IntegrationAck) => Promise<{ success: boolean; acknowledged?: number; error?: string }>;
+  onStatus: (cb: (status: DbIntegrationStatus) => void) => () => void;
+}
+
+export type ReportScheduleTrigger = 'shiftEnd' | 'daily' | 'weekly';
+
+export interface ReportScheduleShift {
+  id: string;
+  name: string;
+  startHour: number;
+  endHour: number;
+}
+
+/** The renderer's ShiftCalendar, as much of it as main needs to find shift ends. */
+export interface ReportScheduleCalendar {
+  patterns: { id: string; name: string; workingDays: number[]; shifts: ReportScheduleShift[] }[];
+  defaultPatternId: string;
+  lineAssignments: Record<number, string>;
+  holidays: { date: string }[];
+}
+
+/** Same shape as ReportTimeScope, minus the custom range. */
+export interface ReportScheduleScope {
+  preset: 'today' | 'yesterday' | 'thisWeek' | 'last7' | 'last30' | 'last90' | 'thisMonth' | 'lastMonth';
+  bucket: 'day' | 'week' | 'month';
+  printerIds: number[];
+}
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  templateId: string;
+  templateName: string;
+  trigger: ReportScheduleTrigger;
+  /** Local HH:MM for daily / weekly. */
+  time: string;
+  /** 0 = Sunday … 6 = Saturday, for weekly. */
+  weekday: number;
+  /** Every shift id with its first definition, for pickers; `shiftIds` limits which ones fire (empty = all). */
+  shifts: ReportScheduleShift[];
+  shiftIds: string[];
+  /** Shift-end runs follow each covered line's pattern, working days and holidays. */
+  calendar: ReportScheduleCalendar;
+  scope: ReportScheduleScope;
+  formats: { pdf: boolean; csv: boolean };
+  folder: string;
+  webhookUrl: string;
+  /** Written as .eml into `<folder>/outbox` for an SMTP pickup relay. */
+  email: { enabled: boolean; to: string; from: string; subject: string };
+  lastRunAt: number | null;
+  nextRunAt: number | null;
+}
+
+export interface ReportRenderRequest {
+  requestId: string;
+  scheduleId: string;
+  title: string;
+  templateId: string;
+  scope: ReportScheduleScope;
+  /** Fixed range for shift-end runs; otherwise resolve `scope` as of `at`. */
+  range: { start: number; end: number; label: string } | null;
+  at: number;
+  formats: { pdf: boolean; csv: boolean };
+}
+
+export interface ReportRenderResult {
+  pdfBase64?: string;
+  csvText?: string;
+  title?: string;
+  error?: string;
+}
+
+export interface ReportRunEntry {
+  id: string;
+  scheduleId: string;
+  scheduleName: string;
+  trigger: 'schedule' | 'manual';
+  dueAt: number;
+  startedAt: number;
+  finishedAt: number | null;
+  status: 'success' | 'partial' | 'failed';
+  files: string[];
+  deliveries: { kind: 'folder' | 'webhook' | 'email'; ok: boolean; detail: string }[];
+  error: string | null;
+}
+
+interface ReportsAPI {
+  getSchedules: () => Promise<ReportSchedule[]>;
+  saveSchedule: (schedule: Partial<ReportSchedule>) => Promise<{ success: boolean; error?: string; schedule?: ReportSchedule }>;
+  deleteSchedule: (id: string) => Promise<{ success: boolean }>;
+  getHistory: () => Promise<ReportRunEntry[]>;
+  runNow: (id: string) => Promise<{ success: boolean; error?: string; entry?: ReportRunEntry }>;
+  deliver: (requestId: string, result: ReportRenderResult) => Promise<{ success: boolean; error?: string }>;
+  onRenderRequest: (cb: (request: ReportRenderRequest) => void) => () => void;
+  onHistory: (cb: (entry: ReportRunEntry) => void) => () => void;
+  onSchedules: (cb: (schedules: ReportSchedule[]) => void) => () => void;
+}
+
+export type FaultChannel = 'email' | 'webhook' | 'sms';
+
+export interface FaultContact {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  webhookUrl: string;
+}
+
+export interface FaultRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Both empty = every printer. */
+  printerIds: number[];
+  lineIds: string[];
+  severities: ('F' | 'W' | 'I')[];
+  /** `10-0002` or a prefix like `10-*`; empty = every code. */
+  codes: string[];
+  /** How long a fault must stay listed before anyone is notified. */
+  delaySeconds: number;
+  contactIds: string[];
+  channels: FaultChannel[];
+  /** Fatal faults only: notify these contacts if still unacknowledged after `afterMinutes`. */
+  escalation: { enabled: boolean; afterMinutes: number; contactIds: string[] };
+}
+
+export interface FaultNotificationConfig {
+  channels: {
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      username: string;
+      /** Write-only: omit to keep the stored password. */
+      password?: string;
+      /** Read-only: a password is stored (it is never sent to the renderer). */
+      hasPassword?: boolean;
+      from: string;
+    };
+    /** `url` and `body` take {to} / {message} placeholders; `headers` is one `Name: value` per line. */
+    sms: { url: string; method: 'GET' | 'POST'; headers: string; body: string };
+  };
+  contacts: FaultContact[];
+  rules: FaultRule[];
+}
+
+export interface FaultIncident {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  printerId: number;
+  printerName: string;
+  lineId: string;
+  code: string;
+  severity: string;
+  message: string;
+  openedAt: number;
+  clearedAt: number | null;
+  notifyAt: number;
+  notifiedAt: number | null;
+  escalateAt: number | null;
+  escalatedAt: number | null;
+  ackAt: number | null;
+  ackBy: string | null;
+  sends: { at: number; stage: 'primary' | 'escalation'; contact: string; channel: FaultChannel; target: string; ok: boolean; detail: string }[];
+}
+
+interface FaultsAPI {
+  getConfig: () => Promise<FaultNotificationConfig>;
+  saveConfig: (config: FaultNotificationConfig) => Promise<{ success: boolean; error?: string; config?: FaultNotificationConfig }>;
+  getIncidents: () => Promise<FaultIncident[]>;
+  report: (
+    printer: { id: number; name: string; lineId?: string },
+    faults: { code: string; severity: string; message: string }[],
+  ) => Promise<{ success: boolean }>;
+  acknowledge: (id: string, by?: string) => Promise<{ success: boolean; error?: string }>;
+  acknowledgeFault: (printerId: number, code: string, by?: string) => Promise<{ success: boolean; acknowledged: number }>;
+  test: (contactId: string, channel: FaultChannel) => Promise<{ success: boolean; error?: string }>;
+  onIncidents: (cb: (incidents: FaultIncident[]) => void) => () => void;
+}
+
+/** A batch of renderer persistence writes (src/lib/persistence.ts) */
+export interface StorageChanges {
+  set: Record<string, string>;
+  remove: string[];
+}
+
+interface StorageAPI {
+  loadAll: () => Promise<{ backend: 'sqlite' | 'json'; entries: Record<string, string> }>;
+  write: (changes: StorageChanges) => Promise<boolean>;
+  /** Blocks the renderer — only for flushing while the window unloads */
+  writeSync: (changes: StorageChanges) => boolean;
+}
+
 interface ElectronAPI {
   isElectron: boolean;
   printer: PrinterAPI;
   oneToOne: OneToOneAPI;
+  serial: SerialAPI;
+  hotfolder: HotfolderAPI;
+  db: DbAPI;
+  reports: ReportsAPI;
+  faults: FaultsAPI;
+  storage: StorageAPI;
   relay: RelayAPI;
   tnt: TntAPI;
   app: AppAPI;
@@ -93,8 +484,11 @@ interface ElectronAPI {
   onUpdateDownloadProgress: (callback: (progress: { percent: number; bytesPerSecond: number; transferred: number; total: number }) => void) => void;
   onUpdateDownloaded: (callback: (info: { version: string }) => void) => void;
   onPrinterConnectionLost: (callback: (payload: { printerId: number }) => void) => void;
-  onRelayInfo: (callback: (info: { port: number; ips: string[] }) => void) => void;
+  onRelayInfo: (callback: (info: RelayInfo) => void) => void;
+  /** Mirror a renderer-side pause to main so relay event streams see it. */
+  setPollingPaused: (paused: boolean) => Promise<{ paused: boolean }>;
   onPollingPauseChanged: (callback: (paused: boolean) => void) => void;
+  onHotfolderNewFile: (callback: (payload: IntegrationFilePayload) => void) => () => void;
 }
 
 declare global {
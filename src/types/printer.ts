@@ -9,6 +9,12 @@ export interface Printer {
   isAvailable: boolean;
   status: 'ready' | 'not_ready' | 'error' | 'offline';
   hasActiveErrors: boolean;
+  // RS-232 / USB-serial binding (e.g. "COM3", "/dev/ttyUSB0", or an
+  // emulator "emu:printer-2" endpoint). When set the printer is reached over
+  // that port at `baudRate` instead of TCP; `ipAddress` then mirrors the
+  // path so list labels and duplicate checks keep working, and `port` is 0.
+  serialPath?: string | null;
+  baudRate?: number;
   // Quick status fields for overview display
   inkLevel?: 'FULL' | 'GOOD' | 'LOW' | 'EMPTY' | 'UNKNOWN';
   makeupLevel?: 'FULL' | 'GOOD' | 'LOW' | 'EMPTY' | 'UNKNOWN';
@@ -6,9 +6,42 @@ export interface ProductionRun {
   startTime: number; // epoch ms
   endTime: number | null; // null = still running
   targetCount: number; // required production count
-  actualCount: number; // what was actually produced
+  actualCount: number; // what was actually produced (good + rejected)
+  // Rejected units by where they were counted. Absent on runs recorded
+  // before quality tracking, which therefore report 100% quality.
+  rejects?: Partial<Record<RejectSource, number>>;
+  // Printer custom counter (C1-C4) wired to a reject photocell, if any.
+  // Increases in its polled ^CN value become rejects.photocell.
+  rejectCounter?: 1 | 2 | 3 | 4 | null;
+  // Last rejectCounter value already counted, set on the run's first poll.
+  rejectCounterBaseline?: number;
   // Downtime events during this run
   downtimeEvents: DowntimeEvent[];
+  // Stops shorter than the micro-stop threshold (not counted as downtime)
+  microStops?: number;
+  // 'auto' runs are opened and closed by the run tracker on message
+  // selection and counted from ^CN deltas; runs without a source were
+  // started by hand.
+  source?: 'auto' | 'manual';
+}
+
+/**
+ * operator:  entered by hand on the Reports screen
+ * photocell: a reject-gate photocell counted on one of the printer's custom counters
+ * twinCode:  Twin Code bottles recorded as missed while this run was active
+ */
+export type RejectSource = 'operator' | 'photocell' | 'twinCode';
+
+export const REJECT_SOURCE_LABELS: Record<RejectSource, string> = {
+  operator: 'Operator',
+  photocell: 'Reject photocell',
+  twinCode: 'Twin Code missed',
+};
+
+export function rejectCount(run: Pick<ProductionRun, 'rejects'>): number {
+  const r = run.rejects;
+  if (!r) return 0;
+  return (r.operator ?? 0) + (r.photocell ?? 0) + (r.twinCode ?? 0);
 }
 
 export interface DowntimeEvent {
@@ -16,6 +49,12 @@ export interface DowntimeEvent {
   startTime: number;
   endTime: number | null;
   reason: string; // e.g. 'printer_error', 'ink_empty', 'manual_stop'
+  // 'auto' events are opened and closed by the downtime engine; legacy
+  // events without a source were logged by hand.
+  source?: 'auto' | 'manual';
+  // Cause the engine detected. When the operator picks another reason,
+  // reason differs from detectedReason and is no longer auto-updated.
+  detectedReason?: string;
 }
 
 export interface ProductionSnapshot {
@@ -29,23 +68,35 @@ export interface ProductionSnapshot {
 export interface OEEMetrics {
   availability: number; // 0-100%
   performance: number;  // 0-100%
-  oee: number;          // availability × performance / 100
+  quality: number;      // 0-100% — good / actual
+  oee: number;          // availability × performance × quality / 10000
   plannedTime: number;  // total planned production time (ms)
   runTime: number;      // actual run time minus downtime (ms)
   totalDowntime: number; // total downtime (ms)
   targetCount: number;
   actualCount: number;
+  goodCount: number;
+  rejectCount: number;
 }
 
-export function calculateOEE(run: ProductionRun): OEEMetrics {
+/**
+ * Planned production time between two instants. Without one, the whole
+ * wall-clock span counts; reportAggregation passes the shift calendar's.
+ */
+export type PlannedTimeFn = (start: number, end: number) => number;
+
+const wallClock: PlannedTimeFn = (start, end) => Math.max(0, end - start);
+
+export function calculateOEE(run: ProductionRun, planned: PlannedTimeFn = wallClock): OEEMetrics {
   const now = Date.now();
   const endTime = run.endTime ?? now;
-  const plannedTime = endTime - run.startTime;
+  const plannedTime = planned(run.startTime, endTime);
 
-  // Calculate total downtime from events (jet stop / HV off periods)
+  // Calculate total downtime from events (jet stop / HV off periods);
+  // only downtime inside planned time is lost time
   const totalDowntime = run.downtimeEvents.reduce((sum, evt) => {
-    const dtEnd = evt.endTime ?? now;
-    return sum + (dtEnd - evt.startTime);
+    const dtEnd = evt.endTime ?? endTime;
+    return sum + planned(evt.startTime, dtEnd);
   }, 0);
 
   const runTime = Math.max(0, plannedTime - totalDowntime);
@@ -58,17 +109,25 @@ export function calculateOEE(run: ProductionRun): OEEMetrics {
     ? Math.min(100, (run.actualCount / run.targetCount) * 100)
     : 0;
 
-  // OEE = Availability × Performance (quality assumed 100%)
-  const oee = (availability * performance) / 100;
+  // Quality = Good Count / Total Count
+  const rejects = Math.min(run.actualCount, rejectCount(run));
+  const goodCount = run.actualCount - rejects;
+  const quality = run.actualCount > 0 ? (goodCount / run.actualCount) * 100 : 100;
+
+  // OEE = Availability × Performance × Quality
+  const oee = (availability * performance * quality) / 10_000;
 
   return {
     availability,
     performance,
+    quality,
     oee,
     plannedTime,
     runTime,
     totalDowntime,
     targetCount: run.targetCount,
     actualCount: run.actualCount,
+    goodCount,
+    rejectCount: rejects,
   };
 }
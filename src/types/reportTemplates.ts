@@ -14,6 +14,7 @@ export type ReportMetricKey =
   | 'oee'
   | 'availability'
   | 'performance'
+  | 'quality'
   | 'runCount'
   | 'avgRunDuration'
   | 'topMessages';
@@ -35,11 +36,21 @@ export type ReportVisualization =
   | 'messagePie'
   | 'hourlyHeatmap';
 
+/** Scheduled stop inside a shift (lunch, cleaning); not planned production time. */
+export interface ShiftBreak {
+  id: string;
+  name: string;
+  /** Local HH:MM; before the shift start hour means the next day for shifts wrapping midnight. */
+  start: string;
+  minutes: number;
+}
+
 export interface ReportShift {
   id: string;
   name: string;
   startHour: number; // 0-23
   endHour: number;   // 0-23 (can be < startHour to wrap midnight)
+  breaks?: ShiftBreak[];
 }
 
 export const DEFAULT_SHIFTS: ReportShift[] = [
@@ -48,6 +59,43 @@ export const DEFAULT_SHIFTS: ReportShift[] = [
   { id: 'night', name: 'Night', startHour: 22, endHour: 6 },
 ];
 
+/** A line's shift pattern: which shifts run, on which weekdays. */
+export interface ShiftPattern {
+  id: string;
+  name: string;
+  shifts: ReportShift[];
+  /** 0 = Sunday … 6 = Saturday. A shift belongs to the day it starts on. */
+  workingDays: number[];
+}
+
+export interface Holiday {
+  /** Local YYYY-MM-DD */
+  date: string;
+  name: string;
+}
+
+/**
+ * Shift calendar — planned production time for OEE and shift bucketing.
+ * Persisted in IndexedDB next to the report templates (useReportTemplates).
+ */
+export interface ShiftCalendar {
+  patterns: ShiftPattern[];
+  defaultPatternId: string;
+  /** printer id → pattern id; unassigned lines use the default pattern */
+  lineAssignments: Record<number, string>;
+  /** Non-working dates for every line */
+  holidays: Holiday[];
+  updatedAt: number;
+}
+
+export const DEFAULT_SHIFT_CALENDAR: ShiftCalendar = {
+  patterns: [{ id: 'default', name: 'Three shifts, 7 days', shifts: DEFAULT_SHIFTS, workingDays: [0, 1, 2, 3, 4, 5, 6] }],
+  defaultPatternId: 'default',
+  lineAssignments: {},
+  holidays: [],
+  updatedAt: 0,
+};
+
 export interface ReportTimeScope {
   /** Quick preset key, or 'custom' for custom range */
   preset:
@@ -94,6 +142,7 @@ export const ALL_METRICS: { key: ReportMetricKey; label: string; description: st
   { key: 'oee', label: 'OEE', description: 'Overall Equipment Effectiveness' },
   { key: 'availability', label: 'Availability', description: 'Run time / planned time' },
   { key: 'performance', label: 'Performance', description: 'Actual / target' },
+  { key: 'quality', label: 'Quality', description: 'Good / total produced' },
   { key: 'runCount', label: 'Run Count', description: 'Number of runs in period' },
   { key: 'avgRunDuration', label: 'Avg Run Duration', description: 'Mean run length' },
   { key: 'topMessages', label: 'Top Messages', description: 'Most-produced products' },
@@ -0,0 +1,379 @@
+/**
+ * Fleet Monitoring — telemetry uplink + cloud fleet dashboard
+ *
+ * Operations:
+ *   - ingest:    a PC's buffered batch (src/lib/fleetUplink.ts). Finds or
+ *                creates the site for the calling license, upserts each printer
+ *                by site + IP/port, then inserts telemetry and events. A
+ *                reported firmware version completes a matching pending
+ *                fleet_firmware_updates row.
+ *   - overview:  sites visible to the caller with their printers, each
+ *                printer's latest telemetry row, recent events and the
+ *                latest published firmware.
+ *   - history:   telemetry for one printer over the last N hours.
+ *
+ * The fleet_* tables are service-role only, so this is the sole client path.
+ * A license key sees every site registered by licenses of the same customer;
+ * the admin token (DEV_PORTAL_PASSWORD) sees all sites.
+ */
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-license-key, x-admin-token",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const MAX_PRINTERS_PER_BATCH = 64;
+const MAX_ROWS_PER_BATCH = 2000;
+const OVERVIEW_EVENT_LIMIT = 200;
+const HISTORY_ROW_LIMIT = 5000;
+
+interface IngestPrinter {
+  key: string;
+  name: string;
+  ip_address: string;
+  /** 0 for RS-232 / USB printers, whose ip_address is the port path. */
+  port: number;
+  serial_number?: string | null;
+  firmware_version?: string | null;
+  status?: string | null;
+  last_seen?: string | null;
+}
+
+interface IngestBody {
+  op: "ingest";
+  site: { name: string; location?: string | null };
+  printers: IngestPrinter[];
+  telemetry: ({ printer_key: string } & Record<string, unknown>)[];
+  events: {
+    printer_key: string;
+    event_type: string;
+    category?: string;
+    severity: string;
+    message: string;
+    metadata?: Record<string, unknown> | null;
+    occurred_at: string;
+  }[];
+}
+
+interface OverviewBody {
+  op: "overview";
+}
+
+interface HistoryBody {
+  op: "history";
+  printer_id: string;
+  hours?: number;
+}
+
+type Body = IngestBody | OverviewBody | HistoryBody;
+
+type Caller =
+  | { admin: true; licenseId: null; customerId: null }
+  | { admin: false; licenseId: string; customerId: string | null };
+
+const NUMERIC_COLUMNS = [
+  "pressure", "viscosity", "modulation", "charge", "rps", "phase_qual",
+  "printhead_temp", "electronics_temp", "print_count", "filter_hours_remaining",
+];
+const TEXT_COLUMNS = ["ink_level", "makeup_level", "power_hours", "stream_hours", "current_message"];
+const BOOLEAN_COLUMNS = ["hv_on", "jet_running"];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+async function authorize(req: Request, supabase: SupabaseClient): Promise<Caller | null> {
+  const adminExpected = Deno.env.get("DEV_PORTAL_PASSWORD");
+  const adminProvided = req.headers.get("x-admin-token") ?? "";
+  if (adminExpected && adminProvided && adminExpected.length === adminProvided.length) {
+    let mismatch = 0;
+    for (let i = 0; i < adminExpected.length; i++) {
+      mismatch |= adminExpected.charCodeAt(i) ^ adminProvided.charCodeAt(i);
+    }
+    if (mismatch === 0) return { admin: true, licenseId: null, customerId: null };
+  }
+  const licenseKey = req.headers.get("x-license-key") ?? "";
+  if (/^[A-Z0-9]{5}-[A-Z0-9]{5}-[A-Z0-9]{5}-[A-Z0-9]{5}$/.test(licenseKey)) {
+    const { data: license } = await supabase
+      .from("licenses")
+      .select("id, customer_id, is_active, expires_at")
+      .eq("product_key", licenseKey)
+      .maybeSingle();
+    if (license && license.is_active && (!license.expires_at || new Date(license.expires_at) > new Date())) {
+      return { admin: false, licenseId: license.id, customerId: license.customer_id };
+    }
+  }
+  return null;
+}
+
+/** Site ids the caller may read: all for admin, else every license of the same customer. */
+async function visibleSiteIds(supabase: SupabaseClient, caller: Caller): Promise<string[] | null> {
+  if (caller.admin) return null;
+  let licenseIds = [caller.licenseId];
+  if (caller.customerId) {
+    const { data, error } = await supabase.from("licenses").select("id").eq("customer_id", caller.customerId);
+    if (error) throw error;
+    licenseIds = (data ?? []).map((l) => l.id);
+  }
+  const { data, error } = await supabase.from("fleet_sites").select("id").in("license_id", licenseIds);
+  if (error) throw error;
+  return (data ?? []).map((s) => s.id);
+}
+
+const num = (v: unknown): number | null =>
+  typeof v === "number" && Number.isFinite(v) ? v : null;
+
+function telemetryRow(printerId: string, raw: Record<string, unknown>) {
+  const row: Record<string, unknown> = { printer_id: printerId };
+  for (const col of NUMERIC_COLUMNS) if (raw[col] != null) row[col] = num(raw[col]);
+  for (const col of TEXT_COLUMNS) if (raw[col] != null) row[col] = String(raw[col]).slice(0, 200);
+  for (const col of BOOLEAN_COLUMNS) if (raw[col] != null) row[col] = !!raw[col];
+  if (typeof raw.recorded_at === "string") row.recorded_at = raw.recorded_at;
+  return row;
+}
+
+async function ingest(supabase: SupabaseClient, caller: Caller, body: IngestBody) {
+  const siteName = String(body.site?.name ?? "").trim().slice(0, 120);
+  if (!siteName) return json({ error: "Missing site name" }, 400);
+  const printers = Array.isArray(body.printers) ? body.printers : [];
+  const telemetry = Array.isArray(body.telemetry) ? body.telemetry : [];
+  const events = Array.isArray(body.events) ? body.events : [];
+  if (printers.length > MAX_PRINTERS_PER_BATCH || telemetry.length + events.length > MAX_ROWS_PER_BATCH) {
+    return json({ error: "Batch too large" }, 413);
+  }
+
+  let siteQuery = supabase.from("fleet_sites").select("id, location").eq("name", siteName);
+  siteQuery = caller.licenseId ? siteQuery.eq("license_id", caller.licenseId) : siteQuery.is("license_id", null);
+  const { data: existingSite, error: siteErr } = await siteQuery.limit(1).maybeSingle();
+  if (siteErr) throw siteErr;
+  let siteId = existingSite?.id as string | undefined;
+  const location = body.site.location?.trim() || null;
+  if (!siteId) {
+    const { data, error } = await supabase
+      .from("fleet_sites")
+      .insert({ name: siteName, location, license_id: caller.licenseId })
+      .select("id")
+      .single();
+    if (error) throw error;
+    siteId = data.id;
+  } else if (location && location !== existingSite?.location) {
+    await supabase.from("fleet_sites").update({ location }).eq("id", siteId);
+  }
+
+  const idByKey = new Map<string, string>();
+  for (const p of printers) {
+    if (!p?.key || !p.ip_address) continue;
+    const port = Number.isInteger(p.port) ? p.port : 23;
+    const fields: Record<string, unknown> = { name: String(p.name || p.ip_address).slice(0, 120) };
+    if (p.serial_number) fields.serial_number = String(p.serial_number).slice(0, 60);
+    if (p.firmware_version) fields.firmware_version = String(p.firmware_version).slice(0, 60);
+    if (p.status) fields.status = String(p.status).slice(0, 30);
+    if (p.last_seen) fields.last_seen = p.last_seen;
+
+    const { data: found, error: findErr } = await supabase
+      .from("fleet_printers")
+      .select("id, firmware_version")
+      .eq("site_id", siteId)
+      .eq("ip_address", p.ip_address)
+      .eq("port", port)
+      .limit(1)
+      .maybeSingle();
+    if (findErr) throw findErr;
+    let printerId = found?.id as string | undefined;
+    if (printerId) {
+      const { error } = await supabase.from("fleet_printers").update(fields).eq("id", printerId);
+      if (error) throw error;
+    } else {
+      const { data, error } = await supabase
+        .from("fleet_printers")
+        .insert({ ...fields, site_id: siteId, ip_address: p.ip_address, port })
+        .select("id")
+        .single();
+      if (error) throw error;
+      printerId = data.id;
+    }
+    idByKey.set(p.key, printerId!);
+
+    if (p.firmware_version && p.firmware_version !== found?.firmware_version) {
+      await completeFirmwareUpdates(supabase, printerId!, String(p.firmware_version));
+    }
+  }
+
+  const telemetryRows = telemetry
+    .filter((t) => idByKey.has(t.printer_key))
+    .map((t) => telemetryRow(idByKey.get(t.printer_key)!, t));
+  if (telemetryRows.length > 0) {
+    const { error } = await supabase.from("fleet_telemetry").insert(telemetryRows);
+    if (error) throw error;
+  }
+
+  const eventRows = events
+    .filter((e) => idByKey.has(e.printer_key) && e.event_type)
+    .map((e) => ({
+      printer_id: idByKey.get(e.printer_key)!,
+      event_type: String(e.event_type).slice(0, 60),
+      category: String(e.category || "event").slice(0, 30),
+      severity: String(e.severity || "info").slice(0, 20),
+      message: String(e.message ?? "").slice(0, 500),
+      metadata: e.metadata ?? null,
+      occurred_at: e.occurred_at,
+    }));
+  if (eventRows.length > 0) {
+    const { error } = await supabase.from("fleet_events").insert(eventRows);
+    if (error) throw error;
+  }
+
+  return json({
+    ok: true,
+    siteId,
+    printers: Object.fromEntries(idByKey),
+    telemetry: telemetryRows.length,
+    events: eventRows.length,
+  });
+}
+
+/** A printer now reporting the target version finishes its pending update. */
+async function completeFirmwareUpdates(supabase: SupabaseClient, printerId: string, version: string) {
+  const { data: fw } = await supabase.from("fleet_firmware").select("id").eq("version", version);
+  const firmwareIds = (fw ?? []).map((f) => f.id);
+  if (firmwareIds.length === 0) return;
+  await supabase
+    .from("fleet_firmware_updates")
+    .update({ status: "completed", progress: 100, completed_at: new Date().toISOString() })
+    .eq("printer_id", printerId)
+    .in("firmware_id", firmwareIds)
+    .in("status", ["pending", "in_progress"]);
+}
+
+async function overview(supabase: SupabaseClient, caller: Caller) {
+  const siteIds = await visibleSiteIds(supabase, caller);
+  let sitesQuery = supabase
+    .from("fleet_sites")
+    .select("id, name, company, location, contact_email, updated_at")
+    .order("name");
+  if (siteIds) sitesQuery = sitesQuery.in("id", siteIds);
+  const { data: sites, error: sitesErr } = await sitesQuery;
+  if (sitesErr) throw sitesErr;
+  const ids = (sites ?? []).map((s) => s.id);
+
+  const { data: firmware } = await supabase
+    .from("fleet_firmware")
+    .select("id, version, release_notes, created_at")
+    .eq("is_latest", true)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (ids.length === 0) return json({ ok: true, sites: [], printers: [], events: [], latestFirmware: firmware ?? null });
+
+  const { data: printers, error: printersErr } = await supabase
+    .from("fleet_printers")
+    .select("id, site_id, name, ip_address, port, firmware_version, serial_number, last_seen, status")
+    .in("site_id", ids)
+    .order("name");
+  if (printersErr) throw printersErr;
+  const printerIds = (printers ?? []).map((p) => p.id);
+
+  const latest = await Promise.all(printerIds.map(async (id) => {
+    const { data } = await supabase
+      .from("fleet_telemetry")
+      .select("*")
+      .eq("printer_id", id)
+      .order("recorded_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    return data;
+  }));
+
+  const { data: events } = printerIds.length === 0 ? { data: [] } : await supabase
+    .from("fleet_events")
+    .select("id, printer_id, event_type, category, severity, message, metadata, occurred_at")
+    .in("printer_id", printerIds)
+    .order("occurred_at", { ascending: false })
+    .limit(OVERVIEW_EVENT_LIMIT);
+
+  return json({
+    ok: true,
+    sites,
+    printers: (printers ?? []).map((p, i) => ({ ...p, telemetry: latest[i] ?? null })),
+    events: events ?? [],
+    latestFirmware: firmware ?? null,
+  });
+}
+
+async function history(supabase: SupabaseClient, caller: Caller, body: HistoryBody) {
+  if (!body.printer_id) return json({ error: "Missing printer_id" }, 400);
+  const { data: printer } = await supabase
+    .from("fleet_printers")
+    .select("id, site_id")
+    .eq("id", body.printer_id)
+    .maybeSingle();
+  const siteIds = await visibleSiteIds(supabase, caller);
+  if (!printer || (siteIds && !siteIds.includes(printer.site_id))) {
+    return json({ error: "Printer not found" }, 404);
+  }
+  const hours = Math.min(24 * 30, Math.max(1, Number(body.hours) || 24));
+  const since = new Date(Date.now() - hours * 3_600_000).toISOString();
+  const { data, error } = await supabase
+    .from("fleet_telemetry")
+    .select("*")
+    .eq("printer_id", printer.id)
+    .gte("recorded_at", since)
+    .order("recorded_at", { ascending: true })
+    .limit(HISTORY_ROW_LIMIT);
+  if (error) throw error;
+  return json({ ok: true, telemetry: data ?? [] });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: Body;
+  try {
+    body = (await req.json()) as Body;
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+  if (!body || typeof body !== "object" || !("op" in body)) {
+    return json({ error: "Missing op field" }, 400);
+  }
+
+  const url = Deno.env.get("SUPABASE_URL");
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !key) {
+    return json({ error: "Backend not configured" }, 500);
+  }
+  const supabase = createClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  try {
+    const caller = await authorize(req, supabase);
+    if (!caller) return json({ error: "Unauthorized" }, 401);
+
+    switch (body.op) {
+      case "ingest":
+        return await ingest(supabase, caller, body);
+      case "overview":
+        return await overview(supabase, caller);
+      case "history":
+        return await history(supabase, caller, body);
+      default:
+        return json({ error: `Unknown op: ${(body as { op: string }).op}` }, 400);
+    }
+  } catch (err) {
+    console.error("[fleet-monitoring] error:", err);
+    return json(
+      { error: err instanceof Error ? err.message : String(err) },
+      500,
+    );
+  }
+});